@@ -1,50 +1,26 @@
-
 import { useEffect } from "react";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Navigate, Routes, Route, useParams } from "react-router-dom";
 import { ThemeProvider } from "@/components/theme-provider";
 import { startAIBackgroundAgent } from "@/lib/aiBackgroundAgent";
+import { APP_TABS, tabPath } from "@/lib/appRoutes";
 import { AgentProvider } from "@/contexts/AgentContext";
+import { AssistantProvider } from "@/contexts/AssistantContext";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import AuthCallback from "./pages/AuthCallback";
 
 const queryClient = new QueryClient();
 
-const App = () => (
-  <ThemeProvider defaultTheme="light">
-    <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/auth/callback" element={<AuthCallback />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
-      <AuthProvider>
-        <AssistantProvider>
-          <TooltipProvider>
-            <Toaster />
-            <Sonner />
-            <BrowserRouter>
-              <Routes>
-                <Route path="/" element={<Index />} />
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </BrowserRouter>
-          </TooltipProvider>
-        </AssistantProvider>
-      </AuthProvider>
-    </QueryClientProvider>
-  </ThemeProvider>
-);
+// Shared document links predate the router and point at /document/<id>
+const DocumentRedirect = () => {
+  const { documentId } = useParams();
+  return <Navigate to={tabPath('upload', documentId)} replace />;
+};
+
 const App = () => {
   useEffect(() => {
     const stopAgent = startAIBackgroundAgent();
@@ -54,16 +30,25 @@ const App = () => {
   return (
     <ThemeProvider defaultTheme="light">
       <QueryClientProvider client={queryClient}>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <BrowserRouter>
-            <Routes>
-              <Route path="/" element={<Index />} />
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </BrowserRouter>
-        </TooltipProvider>
+        <AgentProvider>
+          <AssistantProvider>
+            <TooltipProvider>
+              <Toaster />
+              <Sonner />
+              <BrowserRouter>
+                <Routes>
+                  <Route path="/" element={<Index />} />
+                  {APP_TABS.map(tab => (
+                    <Route key={tab} path={`/${tab}/:entityId?`} element={<Index />} />
+                  ))}
+                  <Route path="/auth/callback" element={<AuthCallback />} />
+                  <Route path="/document/:documentId" element={<DocumentRedirect />} />
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </BrowserRouter>
+            </TooltipProvider>
+          </AssistantProvider>
+        </AgentProvider>
       </QueryClientProvider>
     </ThemeProvider>
   );
@@ -1,16 +1,29 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Send, Bot, User, Loader2, AlertCircle, Clock, Brain, Settings } from 'lucide-react';
+import { Send, Bot, User, AlertCircle, Clock, Brain, Settings, Square, Briefcase } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { ChatMessage } from '@/lib/aiService';
-import { docketChiefAgent } from '@/lib/agentService';
+import { AIService, ChatMessage } from '@/lib/aiService';
+import { AI_PROVIDERS, type AIProvider } from '@/lib/aiProviders';
+import { docketChiefAgent, type AgentResponse } from '@/lib/agentService';
 import { useAuth } from '@/contexts/AuthContext';
 import { useAgent } from '@/contexts/AgentContext';
+import { VerifiedCitationText } from '@/components/CitationVerification';
+import { DocumentSourceList } from '@/components/DocumentSources';
+import {
+  citedPassages,
+  retrieveForConversation,
+  syncDocumentIndex,
+  withRetrievedPassages,
+  type RetrievedPassage,
+} from '@/lib/documentRetrieval';
+import { supabase } from '@/lib/supabase';
+import { tabPath } from '@/lib/appRoutes';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -29,17 +42,37 @@ interface Message {
   timestamp: Date;
   aiProvider?: string;
   error?: boolean;
+  streaming?: boolean;
+  sources?: RetrievedPassage[];
+}
+
+interface CaseOption {
+  id: string;
+  title: string;
+  case_number: string | null;
 }
 
-export function AIChat() {
+// Select needs a non-empty value for "no case"
+const NO_CASE = 'none';
+
+interface AIChatProps {
+  // Active case; document passages are retrieved from this case only
+  caseId?: string | null;
+  onSelectCase?: (caseId: string | null) => void;
+}
+
+export function AIChat({ caseId = null, onSelectCase }: AIChatProps = {}) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [aiProvider, setAiProvider] = useState<'openai' | 'gemini'>('openai');
+  const [aiProvider, setAiProvider] = useState<AIProvider>('openai');
   const [rateLimitWarning, setRateLimitWarning] = useState<string>('');
+  const [cases, setCases] = useState<CaseOption[]>([]);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const { user } = useAuth();
-  const { memory, refreshMemory, resetMemory, updateConsents, agentEnabled, setAgentEnabled } = useAgent();
+  const navigate = useNavigate();
+  const { memory, resetMemory, updateSettings, agentEnabled, setAgentEnabled } = useAgent();
 
   useEffect(() => {
     if (scrollAreaRef.current) {
@@ -47,6 +80,34 @@ export function AIChat() {
     }
   }, [messages]);
 
+  // Stop any reply still streaming when the chat goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!user) return;
+    supabase
+      .from('cases')
+      .select('id, title, case_number')
+      .limit(50)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Failed to load cases', error);
+          return;
+        }
+        setCases(data ?? []);
+      });
+  }, [user]);
+
+  // Embed any new or edited documents of the active case before they are asked about
+  useEffect(() => {
+    if (!user) return;
+    syncDocumentIndex(user.id, { caseId }).catch(err => console.error('Failed to index documents', err));
+  }, [user, caseId]);
+
+  const updateMessage = (id: string, update: (message: Message) => Partial<Message>) => {
+    setMessages(prev => prev.map(message => (message.id === id ? { ...message, ...update(message) } : message)));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
@@ -58,7 +119,15 @@ export function AIChat() {
       timestamp: new Date()
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    const assistantId = (Date.now() + 1).toString();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setMessages(prev => [
+      ...prev,
+      userMessage,
+      { id: assistantId, content: '', role: 'assistant', timestamp: new Date(), streaming: true },
+    ]);
     setInput('');
     setIsLoading(true);
     setRateLimitWarning('');
@@ -76,55 +145,69 @@ export function AIChat() {
         content: input
       });
 
+      // Render the reply as it streams in
+      const onDelta = (content: string) =>
+        updateMessage(assistantId, message => ({ content: message.content + content }));
+
+      // The agent retrieves document passages itself; plain chat grounds the question here
+      const passages = agentEnabled
+        ? []
+        : await retrieveForConversation(conversationHistory, { caseId, signal: controller.signal });
+
       // Call agent service (uses memory if enabled)
-      const agentResponse = agentEnabled
-        ? await docketChiefAgent.sendMessage(
+      const agentResponse: AgentResponse = agentEnabled
+        ? await docketChiefAgent.streamMessage(
             conversationHistory,
             aiProvider,
-            user?.email || 'anonymous'
+            user?.email || 'anonymous',
+            onDelta,
+            controller.signal,
+            { caseId }
           )
-        : await import('@/lib/aiService').then(({ AIService }) =>
-            AIService.sendMessage(conversationHistory, aiProvider, user?.email || 'anonymous')
-          );
+        : {
+            ...await AIService.streamMessage(
+              withRetrievedPassages(conversationHistory, passages),
+              aiProvider,
+              user?.email || 'anonymous',
+              onDelta,
+              controller.signal,
+              { feature: 'chat', caseId }
+            ),
+            sources: passages,
+          };
 
-      if (agentResponse.error === 'RATE_LIMITED') {
+      if (agentResponse.error === 'RATE_LIMITED' || agentResponse.error === 'QUOTA_EXCEEDED') {
         setRateLimitWarning(agentResponse.response);
       }
 
-      // Refresh memory after agent processes the message
-      if (agentEnabled) {
-        refreshMemory();
-      }
-
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: agentResponse.response,
-        role: 'assistant',
-        timestamp: new Date(),
+      updateMessage(assistantId, () => ({
+        content: agentResponse.response || (controller.signal.aborted ? 'Response stopped.' : ''),
         aiProvider: agentResponse.provider,
-        error: !!agentResponse.error
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
+        error: !!agentResponse.error,
+        streaming: false,
+        sources: citedPassages(agentResponse.response, agentResponse.sources ?? []),
+      }));
     } catch (error) {
       console.error('Chat error:', error);
       
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+      updateMessage(assistantId, () => ({
         content: 'I apologize, but I\'m experiencing technical difficulties. Please try again in a moment. If the issue persists, you can use the other legal research tools available in the platform.',
-        role: 'assistant',
-        timestamp: new Date(),
         aiProvider: aiProvider,
-        error: true
-      };
-
-      setMessages(prev => [...prev, errorMessage]);
+        error: true,
+        streaming: false
+      }));
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const stopResponse = () => {
+    abortRef.current?.abort();
+  };
+
   const clearChat = () => {
+    abortRef.current?.abort();
     setMessages([]);
     setRateLimitWarning('');
   };
@@ -138,7 +221,7 @@ export function AIChat() {
   };
 
   const handleToggleMemory = (enabled: boolean) => {
-    updateConsents({ remember_preferences: enabled });
+    updateSettings({ rememberPreferences: enabled });
     toast({
       title: enabled ? 'Memory Enabled' : 'Memory Disabled',
       description: enabled 
@@ -165,13 +248,38 @@ export function AIChat() {
             )}
           </CardTitle>
           <div className="flex items-center gap-2">
-            <Select value={aiProvider} onValueChange={(value: 'openai' | 'gemini') => setAiProvider(value)}>
-              <SelectTrigger className="w-32">
+            {onSelectCase && (
+              <Select
+                value={caseId ?? NO_CASE}
+                onValueChange={(value) => onSelectCase(value === NO_CASE ? null : value)}
+              >
+                <SelectTrigger className="w-44" title="Answer from this case's documents">
+                  <Briefcase className="h-4 w-4 mr-1 flex-shrink-0" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CASE}>All documents</SelectItem>
+                  {cases.map(c => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.case_number ? `${c.case_number} - ${c.title}` : c.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={aiProvider} onValueChange={(value: AIProvider) => setAiProvider(value)}>
+              <SelectTrigger className="w-36">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="openai">GPT-4</SelectItem>
-                <SelectItem value="gemini">Gemini Pro</SelectItem>
+                {Object.values(AI_PROVIDERS).map(provider => (
+                  <SelectItem key={provider.id} value={provider.id}>
+                    {provider.label}
+                    {provider.capabilities.selfHosted && (
+                      <span className="ml-1 text-xs text-muted-foreground">(self-hosted)</span>
+                    )}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
             <DropdownMenu>
@@ -190,7 +298,7 @@ export function AIChat() {
                   Enable Agent Mode
                 </DropdownMenuCheckboxItem>
                 <DropdownMenuCheckboxItem
-                  checked={memory.consents.remember_preferences}
+                  checked={memory.settings.rememberPreferences}
                   onCheckedChange={handleToggleMemory}
                   disabled={!agentEnabled}
                 >
@@ -200,6 +308,9 @@ export function AIChat() {
                 <DropdownMenuItem onClick={clearChat}>
                   Clear Chat
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => navigate(tabPath('ai-memory'))}>
+                  Manage Memory
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={handleResetMemory} disabled={!agentEnabled}>
                   Reset Memory
                 </DropdownMenuItem>
@@ -275,7 +386,16 @@ export function AIChat() {
                         <span className="text-xs font-medium">Service Issue</span>
                       </div>
                     )}
-                    <div className="whitespace-pre-wrap">{message.content}</div>
+                    <div className="whitespace-pre-wrap">
+                      {message.streaming ? (
+                        message.content || <span className="opacity-70">Thinking...</span>
+                      ) : message.role === 'assistant' && !message.error ? (
+                        <VerifiedCitationText text={message.content} showSummary sources={message.sources} />
+                      ) : (
+                        message.content
+                      )}
+                    </div>
+                    {!message.streaming && message.sources && <DocumentSourceList sources={message.sources} />}
                     <div className="flex items-center gap-2 mt-2">
                       <span className="text-xs opacity-70">
                         {message.timestamp.toLocaleTimeString()}
@@ -308,13 +428,15 @@ export function AIChat() {
               className="flex-1"
               maxLength={1000}
             />
-            <Button type="submit" disabled={isLoading || !input.trim()}>
-              {isLoading ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
+            {isLoading ? (
+              <Button type="button" variant="outline" onClick={stopResponse} title="Stop generating">
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button type="submit" disabled={!input.trim()}>
                 <Send className="h-4 w-4" />
-              )}
-            </Button>
+              </Button>
+            )}
           </form>
           <p className="text-xs text-muted-foreground mt-2">
             Responses are for informational purposes only and do not constitute legal advice.
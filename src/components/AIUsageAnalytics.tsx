@@ -0,0 +1,291 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { endOfMonth, startOfMonth, subDays, subMonths } from 'date-fns';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Cpu, DollarSign, Download, Hash, RefreshCw, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  formatMatterCostCsv,
+  listModelPrices,
+  listPlanQuotas,
+  listUsage,
+  summarizeUsage,
+  updatePlanQuota,
+  usageTotals,
+  type AIModelPrice,
+  type AIPlanQuota,
+  type AIUsageRecord,
+  type UsageGrouping,
+  type UsageSummaryRow,
+} from '@/lib/aiUsage';
+
+type Period = 'this-month' | 'last-month' | 'last-90-days';
+
+const PERIODS: Record<Period, { label: string; range: () => { from: Date; to: Date } }> = {
+  'this-month': { label: 'This month', range: () => ({ from: startOfMonth(new Date()), to: new Date() }) },
+  'last-month': {
+    label: 'Last month',
+    range: () => {
+      const lastMonth = subMonths(new Date(), 1);
+      return { from: startOfMonth(lastMonth), to: endOfMonth(lastMonth) };
+    },
+  },
+  'last-90-days': { label: 'Last 90 days', range: () => ({ from: subDays(new Date(), 90), to: new Date() }) },
+};
+
+const GROUPINGS: Array<{ value: UsageGrouping; label: string; heading: string }> = [
+  { value: 'case', label: 'By Matter', heading: 'Matter' },
+  { value: 'user', label: 'By User', heading: 'User' },
+  { value: 'feature', label: 'By Feature', heading: 'Feature' },
+  { value: 'model', label: 'By Model', heading: 'Model' },
+];
+
+const formatCost = (value: number) => `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 4 })}`;
+
+function UsageTable({ rows, heading }: { rows: UsageSummaryRow[]; heading: string }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">No AI usage in this period</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{heading}</TableHead>
+          <TableHead className="text-right">Requests</TableHead>
+          <TableHead className="text-right">Prompt Tokens</TableHead>
+          <TableHead className="text-right">Completion Tokens</TableHead>
+          <TableHead className="text-right">Cost</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(row => (
+          <TableRow key={row.key}>
+            <TableCell className="font-medium">{row.label}</TableCell>
+            <TableCell className="text-right">{row.requests.toLocaleString()}</TableCell>
+            <TableCell className="text-right">{row.promptTokens.toLocaleString()}</TableCell>
+            <TableCell className="text-right">{row.completionTokens.toLocaleString()}</TableCell>
+            <TableCell className="text-right">
+              {formatCost(row.cost)}
+              {row.unpriced > 0 && (
+                <Badge variant="outline" className="ml-2" title="Requests with no matching price">
+                  {row.unpriced} unpriced
+                </Badge>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function AIUsageAnalytics() {
+  const [period, setPeriod] = useState<Period>('this-month');
+  const [records, setRecords] = useState<AIUsageRecord[]>([]);
+  const [prices, setPrices] = useState<AIModelPrice[]>([]);
+  const [quotas, setQuotas] = useState<AIPlanQuota[]>([]);
+  const [quotaDrafts, setQuotaDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchUsage = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { from, to } = PERIODS[period].range();
+      const [usage, modelPrices, planQuotas] = await Promise.all([
+        listUsage({ from: from.toISOString(), to: to.toISOString() }),
+        listModelPrices(),
+        listPlanQuotas(),
+      ]);
+      setRecords(usage);
+      setPrices(modelPrices);
+      setQuotas(planQuotas);
+      setQuotaDrafts(Object.fromEntries(
+        planQuotas.map(quota => [quota.plan_name, quota.monthly_token_limit === null ? '' : String(quota.monthly_token_limit)])
+      ));
+    } catch (error) {
+      console.error('Error fetching AI usage:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load AI usage',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [period, toast]);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  const totals = useMemo(() => usageTotals(records, prices), [records, prices]);
+  const summaries = useMemo(
+    () => Object.fromEntries(GROUPINGS.map(({ value }) => [value, summarizeUsage(records, prices, value)])) as Record<UsageGrouping, UsageSummaryRow[]>,
+    [records, prices]
+  );
+
+  const saveQuota = async (planName: string) => {
+    const draft = quotaDrafts[planName]?.trim() ?? '';
+    try {
+      const saved = await updatePlanQuota(planName, draft === '' ? null : Number(draft));
+      setQuotas(prev => prev.map(quota => (quota.plan_name === saved.plan_name ? saved : quota)));
+      toast({ title: 'Quota updated', description: `${planName} plan quota saved` });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update quota',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const exportMatterCosts = () => {
+    const blob = new Blob([formatMatterCostCsv(summaries.case)], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ai-costs-by-matter-${period}.csv`;
+    a.click();
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">AI Usage</h1>
+          <p className="text-muted-foreground">Token usage and cost per matter, user, feature and model</p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={period} onValueChange={value => setPeriod(value as Period)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PERIODS) as Period[]).map(key => (
+                <SelectItem key={key} value={key}>{PERIODS[key].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={fetchUsage} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button onClick={exportMatterCosts} disabled={loading}>
+            <Download className="w-4 h-4 mr-2" />
+            Export Matter Costs
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Total Cost</CardTitle>
+            <DollarSign className="h-4 w-4 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{formatCost(totals.cost)}</div>
+            <p className="text-xs text-muted-foreground">
+              {totals.unpriced > 0 ? `${totals.unpriced} requests have no price` : 'At current price table'}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Tokens</CardTitle>
+            <Hash className="h-4 w-4 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totals.totalTokens.toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">
+              {totals.promptTokens.toLocaleString()} prompt / {totals.completionTokens.toLocaleString()} completion
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Requests</CardTitle>
+            <Cpu className="h-4 w-4 text-purple-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totals.requests.toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">{PERIODS[period].label}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="case" className="space-y-6">
+        <TabsList className="grid w-full grid-cols-5">
+          {GROUPINGS.map(({ value, label }) => (
+            <TabsTrigger key={value} value={value}>{label}</TabsTrigger>
+          ))}
+          <TabsTrigger value="quotas">Plan Quotas</TabsTrigger>
+        </TabsList>
+
+        {GROUPINGS.map(({ value, heading }) => (
+          <TabsContent key={value} value={value}>
+            <Card>
+              <CardContent className="pt-6">
+                <UsageTable rows={summaries[value]} heading={heading} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        ))}
+
+        <TabsContent value="quotas">
+          <Card>
+            <CardHeader>
+              <CardTitle>Monthly Token Quotas</CardTitle>
+              <CardDescription>
+                legal-ai-chat refuses requests once a user's plan quota for the calendar month is used. Leave blank for unlimited.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Plan</TableHead>
+                    <TableHead>Monthly Tokens</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {quotas.map(quota => (
+                    <TableRow key={quota.plan_name}>
+                      <TableCell className="font-medium capitalize">{quota.plan_name}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder="Unlimited"
+                          value={quotaDrafts[quota.plan_name] ?? ''}
+                          onChange={e => setQuotaDrafts(prev => ({ ...prev, [quota.plan_name]: e.target.value }))}
+                          className="w-48"
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="outline" onClick={() => saveQuota(quota.plan_name)}>
+                          <Save className="w-4 h-4 mr-1" />
+                          Save
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
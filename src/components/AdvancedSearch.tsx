@@ -7,6 +7,8 @@ import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
+import { passageLabel } from '@/lib/documentRetrieval';
+import { searchDocumentPages } from '@/lib/textExtraction';
 
 interface SearchResult {
   id: string;
@@ -51,6 +53,35 @@ export const AdvancedSearch = () => {
             metadata: { size: doc.file_size, type: doc.file_type }
           })));
         }
+
+        // Matches inside the documents' extracted text, cited to the page
+        const hits = await searchDocumentPages(user.id, searchQuery).catch((error) => {
+          console.error('Page search error:', error);
+          return [];
+        });
+        if (hits.length > 0) {
+          const idsOf = (sourceType: string) => [...new Set(hits.filter(hit => hit.sourceType === sourceType).map(hit => hit.sourceId))];
+          const [{ data: documentRows }, { data: uploadRows }] = await Promise.all([
+            supabase.from('documents').select('id, filename, file_type, file_size, created_at').in('id', idsOf('document')),
+            supabase.from('uploaded_documents').select('id, file_name, file_type, file_size, created_at').in('id', idsOf('uploaded_document')),
+          ]);
+          const sources = new Map<string, { title: string; file_type: string; file_size: number; created_at: string }>();
+          (documentRows ?? []).forEach(row => sources.set(`document:${row.id}`, { ...row, title: row.filename }));
+          (uploadRows ?? []).forEach(row => sources.set(`uploaded_document:${row.id}`, { ...row, title: row.file_name }));
+
+          for (const hit of hits) {
+            const source = sources.get(`${hit.sourceType}:${hit.sourceId}`);
+            if (!source) continue;
+            searchResults.push({
+              id: `${hit.sourceId}:${hit.page}`,
+              type: 'document',
+              title: passageLabel({ title: source.title, page: hit.page }),
+              content: hit.snippet,
+              created_at: source.created_at,
+              metadata: { size: source.file_size, type: source.file_type }
+            });
+          }
+        }
       }
 
       // Search conversations
@@ -1,10 +1,13 @@
-import React, { Suspense, lazy, useState } from 'react';
+import React, { Suspense, lazy, useCallback, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { ErrorBoundary } from './ErrorBoundary';
 import { useAuth } from '@/contexts/AuthContext';
+import { useAIRedaction } from '@/hooks/use-ai-redaction';
 import { Button } from './ui/button';
-import { User, LogOut, CreditCard, Settings, Bell } from 'lucide-react';
+import { User, LogOut, CreditCard, Settings, Bell, Cpu } from 'lucide-react';
 import type { TemplateRecord } from '@/contexts/TemplateContext';
 import { useTemplateLibrary } from '@/contexts/TemplateContext';
+import { parseAppPath, rememberReturnPath, tabPath, type AppTab } from '@/lib/appRoutes';
 
 const DocumentEditor = lazy(() => import('./DocumentEditor').then(module => ({ default: module.DocumentEditor })));
 const CaseAnalyzer = lazy(() => import('./CaseAnalyzer').then(module => ({ default: module.CaseAnalyzer })));
@@ -19,10 +22,13 @@ const UserDashboard = lazy(() => import('./UserDashboard').then(module => ({ def
 const AuthModal = lazy(() => import('./AuthModal').then(module => ({ default: module.AuthModal })));
 const AIChat = lazy(() => import('./AIChat').then(module => ({ default: module.AIChat })));
 const AssistantChat = lazy(() => import('./AssistantChat').then(module => ({ default: module.AssistantChat })));
+const MemoryManager = lazy(() => import('./MemoryManager').then(module => ({ default: module.MemoryManager })));
 const ConversationImport = lazy(() => import('./ConversationImport').then(module => ({ default: module.ConversationImport })));
 const ConversationManager = lazy(() => import('./ConversationManager').then(module => ({ default: module.ConversationManager })));
 const AdvancedSearch = lazy(() => import('./AdvancedSearch').then(module => ({ default: module.AdvancedSearch })));
 const CollaborationTools = lazy(() => import('./CollaborationTools').then(module => ({ default: module.CollaborationTools })));
+const ClientBilling = lazy(() => import('./ClientBilling').then(module => ({ default: module.ClientBilling })));
+const TrustAccounting = lazy(() => import('./TrustAccounting').then(module => ({ default: module.TrustAccounting })));
 const CaseManagementDashboard = lazy(() => import('./CaseManagementDashboard').then(module => ({ default: module.CaseManagementDashboard })));
 const LegalResearchTool = lazy(() => import('./LegalResearchTool').then(module => ({ default: module.LegalResearchTool })));
 const CalendarDashboard = lazy(() => import('./CalendarDashboard').then(module => ({ default: module.CalendarDashboard })));
@@ -41,19 +47,38 @@ const ServiceStatus = lazy(() => import('./ServiceStatus').then(module => ({ def
 const DocumentAnalyzer = lazy(() => import('./DocumentAnalyzer'));
 const AlertDashboard = lazy(() => import('./AlertDashboard').then(module => ({ default: module.AlertDashboard })));
 const AdminSubscriptionAnalytics = lazy(() => import('./AdminSubscriptionAnalytics').then(module => ({ default: module.AdminSubscriptionAnalytics })));
+const AIUsageAnalytics = lazy(() => import('./AIUsageAnalytics').then(module => ({ default: module.AIUsageAnalytics })));
 const TemplateLibrary = lazy(() => import('./TemplateLibrary').then(module => ({ default: module.TemplateLibrary })));
 const TemplateEditor = lazy(() => import('./TemplateEditor').then(module => ({ default: module.TemplateEditor })));
 const SystemMonitor = lazy(() => import('./SystemMonitor'));
 
 export const AppLayout = () => {
   const { user, signOut } = useAuth();
-  const [activeTab, setActiveTab] = useState('home');
+  const location = useLocation();
+  const navigate = useNavigate();
+  // The URL is the source of truth for the current view, so views can be bookmarked and shared
+  const { tab: activeTab, entityId } = parseAppPath(location.pathname) ?? { tab: 'home', entityId: null };
+  const setActiveTab = useCallback(
+    (tab: AppTab, id?: string | null) => navigate(tabPath(tab, id)),
+    [navigate]
+  );
   const [selectedMotion, setSelectedMotion] = useState<string | null>(null);
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [authMode, setAuthMode] = useState<'signin' | 'signup'>('signin');
-  const [editingTemplate, setEditingTemplate] = useState<TemplateRecord | null>(null);
+  // A template that is not in the library yet (a new one being drafted)
+  const [draftTemplate, setDraftTemplate] = useState<TemplateRecord | null>(null);
   const [analyzerSeed, setAnalyzerSeed] = useState<string | null>(null);
-  const { upsertTemplate } = useTemplateLibrary();
+  const { templates } = useTemplateLibrary();
+  useAIRedaction();
+
+  const editingTemplate = activeTab === 'template-library' && entityId
+    ? templates.find(template => template.id === entityId) ?? (draftTemplate?.id === entityId ? draftTemplate : null)
+    : null;
+
+  const editTemplate = (template: TemplateRecord) => {
+    setDraftTemplate(template);
+    setActiveTab('template-library', template.id);
+  };
   
   const legalTools = [
     {
@@ -134,16 +159,20 @@ export const AppLayout = () => {
       case 'alert-dashboard':
         return <AlertDashboard />;
       case 'document-analyzer':
-        return <DocumentAnalyzer initialDocument={analyzerSeed ?? undefined} onResetSeed={() => setAnalyzerSeed(null)} />;
+        return <DocumentAnalyzer initialDocument={analyzerSeed ?? undefined} onResetSeed={() => setAnalyzerSeed(null)} caseId={entityId} />;
       case 'template-library':
         return editingTemplate ? (
           <TemplateEditor
             template={editingTemplate}
-            onSave={(template) => {
-              upsertTemplate(template);
-              setEditingTemplate(null);
+            // The editor has already saved the template and recorded its version
+            onSave={() => {
+              setDraftTemplate(null);
+              setActiveTab('template-library');
+            }}
+            onClose={() => {
+              setDraftTemplate(null);
+              setActiveTab('template-library');
             }}
-            onClose={() => setEditingTemplate(null)}
             onAnalyze={(content) => {
               setAnalyzerSeed(content);
               setActiveTab('document-analyzer');
@@ -151,7 +180,7 @@ export const AppLayout = () => {
           />
         ) : (
           <TemplateLibrary
-            onEditTemplate={setEditingTemplate}
+            onEditTemplate={editTemplate}
             onAnalyzeTemplate={(content) => {
               setAnalyzerSeed(content);
               setActiveTab('document-analyzer');
@@ -163,13 +192,22 @@ export const AppLayout = () => {
       case 'upload':
         return user ? <DocumentManager /> : <div className="p-8 text-center">Please sign in to upload documents</div>;
       case 'collaborate':
-        return user ? <CollaborationTools /> : <div className="p-8 text-center">Please sign in to collaborate</div>;
+        return user ? <CollaborationTools highlightedCollaborationId={entityId} /> : <div className="p-8 text-center">Please sign in to collaborate</div>;
       case 'brief':
-        return <BriefGenerator />;
+        return <BriefGenerator caseId={entityId} />;
       case 'cases':
         return <CaseAnalyzer />;
       case 'case-management':
-        return user ? <CaseManagementDashboard /> : <div className="p-8 text-center">Please sign in to manage cases</div>;
+        return user ? (
+          <CaseManagementDashboard
+            selectedCaseId={entityId}
+            onSelectCase={(caseId) => setActiveTab('case-management', caseId)}
+          />
+        ) : <div className="p-8 text-center">Please sign in to manage cases</div>;
+      case 'client-billing':
+        return user ? <ClientBilling /> : <div className="p-8 text-center">Please sign in to bill clients</div>;
+      case 'trust-accounting':
+        return user ? <TrustAccounting /> : <div className="p-8 text-center">Please sign in to manage trust accounts</div>;
       case 'caselaw':
         return <LegalResearchTool />;
       case 'courtlistener-api':
@@ -179,13 +217,15 @@ export const AppLayout = () => {
       case 'rules':
         return <RulesDatabase />;
       case 'rebuttal':
-        return <RebuttalAssistant />;
+        return <RebuttalAssistant caseId={entityId} />;
       case 'calendar':
         return user ? <CalendarDashboard /> : <div className="p-8 text-center">Please sign in to view calendar</div>;
       case 'chat':
-        return <AIChat />;
+        return <AIChat caseId={entityId} onSelectCase={(caseId) => setActiveTab('chat', caseId)} />;
       case 'assistant':
         return <AssistantChat />;
+      case 'ai-memory':
+        return <MemoryManager />;
       case 'conversations':
         return user ? <ConversationManager /> : <div className="p-8 text-center">Please sign in to view conversations</div>;
       case 'import':
@@ -200,6 +240,8 @@ export const AppLayout = () => {
         return user ? <AnalyticsDashboard /> : <div className="p-8 text-center">Please sign in to view analytics</div>;
       case 'admin-analytics':
         return user ? <AdminSubscriptionAnalytics /> : <div className="p-8 text-center">Please sign in to view admin analytics</div>;
+      case 'admin-ai-usage':
+        return user ? <AIUsageAnalytics /> : <div className="p-8 text-center">Please sign in to view AI usage</div>;
       case 'subscription':
         return user ? <SubscriptionDashboard /> : <div className="p-8 text-center">Please sign in to manage subscription</div>;
 
@@ -281,6 +323,8 @@ export const AppLayout = () => {
                     <div className="py-2">
                       <button onClick={() => setActiveTab('cases')} className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left">Case Analysis</button>
                       <button onClick={() => setActiveTab('case-management')} className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left">Case Management</button>
+                      <button onClick={() => setActiveTab('client-billing')} className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left">Client Billing</button>
+                      <button onClick={() => setActiveTab('trust-accounting')} className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left">Trust Accounting</button>
                       <button onClick={() => setActiveTab('caselaw')} className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left">Legal Research</button>
                       <button onClick={() => setActiveTab('courtlistener-api')} className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left">CourtListener API</button>
                       <button onClick={() => setActiveTab('search')} className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left">Advanced Search</button>
@@ -303,6 +347,7 @@ export const AppLayout = () => {
                     <div className="py-2">
                       <button onClick={() => setActiveTab('assistant')} className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left">🧠 Smart Assistant (New)</button>
                       <button onClick={() => setActiveTab('chat')} className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left">AI Chat</button>
+                      <button onClick={() => setActiveTab('ai-memory')} className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left">AI Memory</button>
                       <button onClick={() => setActiveTab('conversations')} className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left">Conversation Manager</button>
                       <button onClick={() => setActiveTab('import')} className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left">Import Conversations</button>
                     </div>
@@ -340,6 +385,15 @@ export const AppLayout = () => {
                       <Settings className="h-4 w-4 mr-1" />
                       Admin Analytics
                     </Button>
+                    <Button 
+                      variant="outline" 
+                      size="sm"
+                      onClick={() => setActiveTab('admin-ai-usage')}
+                      className={activeTab === 'admin-ai-usage' ? 'bg-purple-50 text-purple-600' : ''}
+                    >
+                      <Cpu className="h-4 w-4 mr-1" />
+                      AI Usage
+                    </Button>
                     <Button 
                       variant="outline" 
                       size="sm"
@@ -363,6 +417,7 @@ export const AppLayout = () => {
                       size="sm"
                       onClick={() => {
                         setAuthMode('signin');
+                        rememberReturnPath(location.pathname);
                         setShowAuthModal(true);
                       }}
                     >
@@ -372,6 +427,7 @@ export const AppLayout = () => {
                       size="sm"
                       onClick={() => {
                         setAuthMode('signup');
+                        rememberReturnPath(location.pathname);
                         setShowAuthModal(true);
                       }}
                     >
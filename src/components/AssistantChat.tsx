@@ -5,6 +5,7 @@
  */
 
 import React, { useState, useRef, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -22,7 +23,8 @@ import {
   Trash2,
   Info,
   Brain,
-  Shield
+  Shield,
+  Square
 } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
@@ -37,7 +39,8 @@ import {
 import { useAssistant } from '@/contexts/AssistantContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { AIService, ChatMessage } from '@/lib/aiService';
-import { assistantMemoryService } from '@/lib/assistantMemoryService';
+import { activeItems, extractLearnings, stripLearnings } from '@/lib/memoryStore';
+import { tabPath } from '@/lib/appRoutes';
 import { AssistantMessage } from '@/types/assistant';
 import { toast } from '@/components/ui/use-toast';
 
@@ -51,21 +54,28 @@ export function AssistantChat() {
     applyLearnings,
     clearMemory,
     exportMemory,
-    updateMemory,
+    updateSettings,
     getSystemPrompt,
   } = useAssistant();
 
+  const navigate = useNavigate();
+  const learnedCount = activeItems(memory).length;
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [streamingContent, setStreamingContent] = useState('');
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     if (scrollAreaRef.current) {
       scrollAreaRef.current.scrollTop = scrollAreaRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [messages, streamingContent]);
+
+  // Stop any reply still streaming when the chat goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -79,9 +89,13 @@ export function AssistantChat() {
       timestamp: new Date().toISOString(),
     };
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     addMessage(userMessage);
     setInput('');
     setIsLoading(true);
+    setStreamingContent('');
 
     try {
       // Build conversation history for AI
@@ -107,23 +121,26 @@ export function AssistantChat() {
       });
 
       // Call AI service
-      const aiResponse = await AIService.sendMessage(
+      const aiResponse = await AIService.streamMessage(
         conversationHistory.slice(-10), // Keep last 10 messages for context
         'openai',
-        user?.email || 'anonymous'
+        user?.email || 'anonymous',
+        (content) => setStreamingContent(prev => prev + content),
+        controller.signal,
+        { feature: 'assistant' }
       );
 
       // Parse learnings candidate from response
-      const learnings = assistantMemoryService.parseLearningsCandidate(aiResponse.response);
+      const learnings = extractLearnings(aiResponse.response);
       
       // Extract clean response (without learnings block)
-      const cleanResponse = assistantMemoryService.extractCleanResponse(aiResponse.response);
+      const cleanResponse = stripLearnings(aiResponse.response);
 
       // Create assistant message
       const assistantMessage: AssistantMessage = {
         id: `${Date.now()}-assistant`,
         role: 'assistant',
-        content: cleanResponse,
+        content: cleanResponse || (controller.signal.aborted ? 'Response stopped.' : ''),
         timestamp: new Date().toISOString(),
         learningsCandidate: learnings || undefined,
       };
@@ -131,7 +148,7 @@ export function AssistantChat() {
       addMessage(assistantMessage);
 
       // Apply learnings if auto-apply is enabled
-      if (learnings && memory.preferences.autoApplyLearnings) {
+      if (learnings && memory.settings.autoApplyLearnings) {
         applyLearnings(learnings);
       }
 
@@ -153,11 +170,18 @@ export function AssistantChat() {
         variant: 'destructive',
       });
     } finally {
+      abortRef.current = null;
+      setStreamingContent('');
       setIsLoading(false);
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleClearChat = () => {
+    abortRef.current?.abort();
     clearMessages();
     toast({
       title: 'Chat cleared',
@@ -235,12 +259,9 @@ export function AssistantChat() {
                     <select
                       id="tone"
                       className="w-full p-2 border rounded-md"
-                      value={memory.preferences.tone}
-                      onChange={(e) => updateMemory({
-                        preferences: {
-                          ...memory.preferences,
-                          tone: e.target.value as 'concise' | 'detailed' | 'balanced',
-                        }
+                      value={memory.settings.tone}
+                      onChange={(e) => updateSettings({
+                        tone: e.target.value as 'concise' | 'detailed' | 'balanced',
                       })}
                     >
                       <option value="concise">Concise (Quick answers)</option>
@@ -260,13 +281,8 @@ export function AssistantChat() {
                     </div>
                     <Switch
                       id="auto-learn"
-                      checked={memory.preferences.autoApplyLearnings}
-                      onCheckedChange={(checked) => updateMemory({
-                        preferences: {
-                          ...memory.preferences,
-                          autoApplyLearnings: checked,
-                        }
-                      })}
+                      checked={memory.settings.autoApplyLearnings}
+                      onCheckedChange={(checked) => updateSettings({ autoApplyLearnings: checked })}
                     />
                   </div>
 
@@ -274,18 +290,13 @@ export function AssistantChat() {
                     <div className="space-y-0.5">
                       <Label htmlFor="store-interactions">Store interactions</Label>
                       <p className="text-sm text-muted-foreground">
-                        Remember preferences across sessions
+                        Remember preferences across sessions and devices; turning this off forgets them
                       </p>
                     </div>
                     <Switch
                       id="store-interactions"
-                      checked={memory.preferences.storeInteractions}
-                      onCheckedChange={(checked) => updateMemory({
-                        preferences: {
-                          ...memory.preferences,
-                          storeInteractions: checked,
-                        }
-                      })}
+                      checked={memory.settings.rememberPreferences}
+                      onCheckedChange={(checked) => updateSettings({ rememberPreferences: checked })}
                     />
                   </div>
 
@@ -313,13 +324,26 @@ export function AssistantChat() {
                         Clear
                       </Button>
                     </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => {
+                        setShowSettings(false);
+                        navigate(tabPath('ai-memory'));
+                      }}
+                    >
+                      <Brain className="h-4 w-4 mr-2" />
+                      View Learned Items
+                    </Button>
                   </div>
 
                   <Alert>
                     <Info className="h-4 w-4" />
                     <AlertDescription className="text-xs">
-                      Your data is stored locally on your device. The assistant learns from your
-                      interactions to provide better help over time.
+                      Your memory is kept on this device and synced to your account, so it follows you
+                      to other devices. The assistant learns from your interactions to provide better
+                      help over time.
                     </AlertDescription>
                   </Alert>
                 </div>
@@ -332,7 +356,7 @@ export function AssistantChat() {
           </div>
         </div>
 
-        {!memory.preferences.storeInteractions && (
+        {!memory.settings.rememberPreferences && (
           <Alert className="mt-2">
             <Shield className="h-4 w-4" />
             <AlertDescription className="text-sm">
@@ -377,7 +401,7 @@ export function AssistantChat() {
                     }`}
                   >
                     <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                    {message.learningsCandidate && memory.preferences.autoApplyLearnings && (
+                    {message.learningsCandidate && memory.settings.autoApplyLearnings && (
                       <Badge variant="outline" className="mt-2 text-xs">
                         <Brain className="h-3 w-3 mr-1" />
                         Learning applied
@@ -402,8 +426,14 @@ export function AssistantChat() {
                       <Bot className="h-4 w-4 text-primary" />
                     </div>
                   </div>
-                  <div className="rounded-lg px-4 py-2 bg-muted">
-                    <Loader2 className="h-4 w-4 animate-spin" />
+                  <div className="rounded-lg px-4 py-2 max-w-[80%] bg-muted">
+                    {streamingContent ? (
+                      <p className="text-sm whitespace-pre-wrap">
+                        {streamingContent.split('LEARNINGS_CANDIDATE')[0]}
+                      </p>
+                    ) : (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    )}
                   </div>
                 </div>
               )}
@@ -420,22 +450,24 @@ export function AssistantChat() {
               disabled={isLoading}
               className="flex-1"
             />
-            <Button type="submit" disabled={isLoading || !input.trim()}>
-              {isLoading ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
+            {isLoading ? (
+              <Button type="button" variant="outline" onClick={handleStop} title="Stop generating">
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button type="submit" disabled={!input.trim()}>
                 <Send className="h-4 w-4" />
-              )}
-            </Button>
+              </Button>
+            )}
           </form>
           
           <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
             <Info className="h-3 w-3" />
             <span>
-              {memory.learnedPreferences.length > 0 && (
-                <>Remembering {memory.learnedPreferences.length} preferences</>
+              {learnedCount > 0 && (
+                <>Remembering {learnedCount} learned items</>
               )}
-              {memory.learnedPreferences.length === 0 && (
+              {learnedCount === 0 && (
                 <>Learning your preferences as we interact</>
               )}
             </span>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,10 +6,19 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, FileText, Download, Copy } from 'lucide-react';
+import { Loader2, FileText, Download, Copy, AlertTriangle, Square } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { legalAiChat } from '@/lib/aiService';
+import { useCitationVerification } from '@/hooks/use-citation-verification';
+import { CitationAnnotatedText, CitationVerificationSummary } from '@/components/CitationVerification';
+import { legalAiChatStream } from '@/lib/aiService';
 import { CourtListenerResult, searchCourtListener } from '@/lib/courtListener';
+import {
+  buildTableOfAuthorities,
+  formatAuthorityPages,
+  renderTableOfAuthorities,
+  type TableOfAuthorities,
+} from '@/lib/tableOfAuthorities';
+import { briefRequestPrompt, briefSystemPrompt, renderPrompt } from '@/lib/prompts';
 
 interface BriefData {
   briefType: string;
@@ -21,7 +30,17 @@ interface BriefData {
   relevantCases: string;
 }
 
-export function BriefGenerator() {
+const formatReporterCitations = (authority: CourtListenerResult) =>
+  authority.citation
+    .map((cite) => [cite.volume, cite.reporter, cite.page].filter(Boolean).join(' '))
+    .join(', ');
+
+interface BriefGeneratorProps {
+  /** Matter the AI usage is billed to */
+  caseId?: string | null;
+}
+
+export function BriefGenerator({ caseId }: BriefGeneratorProps = {}) {
   const [briefData, setBriefData] = useState<BriefData>({
     briefType: '',
     caseTitle: '',
@@ -32,11 +51,18 @@ export function BriefGenerator() {
     relevantCases: ''
   });
   const [generatedBrief, setGeneratedBrief] = useState<string>('');
+  const [streamingBrief, setStreamingBrief] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [authorities, setAuthorities] = useState<CourtListenerResult[]>([]);
   const [authorityError, setAuthorityError] = useState('');
   const [isFetchingAuthorities, setIsFetchingAuthorities] = useState(false);
+  const [tableOfAuthorities, setTableOfAuthorities] = useState<TableOfAuthorities | null>(null);
   const { toast } = useToast();
+  const { verifications, isVerifying } = useCitationVerification(generatedBrief);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a brief still streaming when the generator goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const briefTypes = [
     { value: 'appellate', label: 'Appellate Brief' },
@@ -65,9 +91,15 @@ export function BriefGenerator() {
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setIsGenerating(true);
     setIsFetchingAuthorities(true);
     setAuthorityError('');
+    setGeneratedBrief('');
+    setTableOfAuthorities(null);
+    setStreamingBrief('');
     try {
       const retrievedAuthorities = await searchCourtListener(briefData.legalIssues, {
         jurisdiction: briefData.jurisdiction,
@@ -78,6 +110,7 @@ export function BriefGenerator() {
       });
 
       setAuthorities(retrievedAuthorities);
+      setIsFetchingAuthorities(false);
 
       const proceduralRules: Record<string, string[]> = {
         appellate: ['Fed. R. App. P. 28', 'Fed. R. App. P. 32'],
@@ -89,26 +122,50 @@ export function BriefGenerator() {
 
       const ruleCitations = proceduralRules[briefData.briefType as keyof typeof proceduralRules] || ['Fed. R. Civ. P. 1'];
       const authoritySummary = retrievedAuthorities
-        .map((result) => `${result.caseName} (${result.court}, ${result.date_filed || 'n.d.'}) - ${result.citation.join(', ')}`)
+        .map((result) => `${result.caseName} (${result.court}, ${result.date_filed || 'n.d.'}) - ${formatReporterCitations(result)}`)
         .slice(0, 3)
         .join('\n');
 
-      const { content } = await legalAiChat({
-        system:
-          'You are an expert litigator. Draft briefs that strictly follow applicable procedural rules and rely on the provided authorities. Use Markdown headings, a Table of Authorities, Statement of the Issues, Argument, and Conclusion. Do not invent citations.',
+      const stream = legalAiChatStream({
+        feature: 'brief_generator',
+        caseId,
+        system: renderPrompt(briefSystemPrompt, {}).text,
         messages: [
           {
             role: 'user',
-            content: `Draft a ${briefTypes.find((t) => t.value === briefData.briefType)?.label ?? 'legal brief'} with the following context.\n\nCase Title: ${briefData.caseTitle}\nJurisdiction: ${briefData.jurisdiction || 'Federal'}\nFacts: ${briefData.facts}\nLegal Issues: ${briefData.legalIssues}\nClient Position: ${briefData.clientPosition || 'Not specified'}\nRules to Apply: ${ruleCitations.join(', ')}\nUser Provided Authorities: ${briefData.relevantCases || 'None'}\nCourtListener Authorities:\n${authoritySummary || 'No authorities retrieved.'}\n\nReturn the full brief in Markdown, making sure each citation references the supplied authorities or rules.`,
+            content: renderPrompt(briefRequestPrompt, {
+              briefLabel: briefTypes.find((t) => t.value === briefData.briefType)?.label ?? 'legal brief',
+              caseTitle: briefData.caseTitle,
+              jurisdiction: briefData.jurisdiction,
+              facts: briefData.facts,
+              legalIssues: briefData.legalIssues,
+              clientPosition: briefData.clientPosition,
+              ruleCitations,
+              relevantCases: briefData.relevantCases,
+              authoritySummary,
+            }).text,
           },
         ],
-      });
+      }, { signal: controller.signal });
+
+      let content = '';
+      for await (const event of stream) {
+        if (event.type === 'delta') {
+          content += event.content;
+          setStreamingBrief(content);
+        }
+      }
+
+      if (!content.trim()) {
+        if (controller.signal.aborted) return;
+        throw new Error('The AI service returned an empty brief');
+      }
 
       setGeneratedBrief(content.trim());
-      toast({
-        title: "Brief Generated",
-        description: "Your legal brief has been generated successfully",
-      });
+      setTableOfAuthorities(buildTableOfAuthorities(content, { authorities: retrievedAuthorities }));
+      toast(controller.signal.aborted
+        ? { title: "Generation Stopped", description: "The partial brief has been kept for review" }
+        : { title: "Brief Generated", description: "Your legal brief has been generated successfully" });
     } catch (error) {
       console.error('Brief generation error:', error);
       toast({
@@ -117,13 +174,24 @@ export function BriefGenerator() {
         variant: "destructive"
       });
     } finally {
+      abortRef.current = null;
+      setStreamingBrief('');
       setIsGenerating(false);
       setIsFetchingAuthorities(false);
     }
   };
 
+  const stopGenerating = () => {
+    abortRef.current?.abort();
+  };
+
+  const getFullBrief = () =>
+    tableOfAuthorities && tableOfAuthorities.groups.length > 0
+      ? `${renderTableOfAuthorities(tableOfAuthorities)}\n\n${generatedBrief}`
+      : generatedBrief;
+
   const copyToClipboard = () => {
-    navigator.clipboard.writeText(generatedBrief);
+    navigator.clipboard.writeText(getFullBrief());
     toast({
       title: "Copied",
       description: "Brief copied to clipboard"
@@ -131,7 +199,7 @@ export function BriefGenerator() {
   };
 
   const downloadBrief = () => {
-    const blob = new Blob([generatedBrief], { type: 'text/plain' });
+    const blob = new Blob([getFullBrief()], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -242,20 +310,16 @@ export function BriefGenerator() {
               />
             </div>
 
-            <Button 
-              onClick={generateBrief} 
-              disabled={isGenerating}
-              className="w-full"
-            >
-              {isGenerating ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Generating Brief...
-                </>
-              ) : (
-                'Generate Brief'
-              )}
-            </Button>
+            {isGenerating ? (
+              <Button onClick={stopGenerating} variant="outline" className="w-full">
+                <Square className="mr-2 h-4 w-4" />
+                Stop Generating
+              </Button>
+            ) : (
+              <Button onClick={generateBrief} className="w-full">
+                Generate Brief
+              </Button>
+            )}
           </CardContent>
         </Card>
 
@@ -286,7 +350,7 @@ export function BriefGenerator() {
                         {authority.caseName}
                       </a>
                       {authority.citation.length > 0 && (
-                        <span className="block text-gray-500">{authority.citation.join(', ')}</span>
+                        <span className="block text-gray-500">{formatReporterCitations(authority)}</span>
                       )}
                     </li>
                   ))}
@@ -308,12 +372,55 @@ export function BriefGenerator() {
                     {briefTypes.find(t => t.value === briefData.briefType)?.label}
                   </Badge>
                 </div>
+                {tableOfAuthorities && tableOfAuthorities.groups.length > 0 && (
+                  <div className="border rounded-lg p-4">
+                    <h4 className="text-sm font-semibold text-gray-700 mb-2">Table of Authorities</h4>
+                    {tableOfAuthorities.unverified.length > 0 && (
+                      <div className="flex items-start gap-2 text-xs text-red-600 mb-3">
+                        <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                        <span>
+                          {tableOfAuthorities.unverified.length} cited case(s) were not among the authorities retrieved from CourtListener. Verify them before filing.
+                        </span>
+                      </div>
+                    )}
+                    {tableOfAuthorities.groups.map((group) => (
+                      <div key={group.category} className="mb-3">
+                        <h5 className="text-xs font-semibold uppercase text-gray-500 mb-1">{group.title}</h5>
+                        <ul className="space-y-1">
+                          {group.entries.map((entry) => (
+                            <li key={entry.key} className="flex items-start justify-between gap-4 text-xs">
+                              <span className={entry.unverified ? 'text-red-600' : 'text-gray-700'}>
+                                {entry.formatted}
+                                {entry.unverified && (
+                                  <Badge variant="destructive" className="ml-2 text-[10px]">Unverified</Badge>
+                                )}
+                              </span>
+                              <span className="text-gray-500 whitespace-nowrap" title={entry.sections.join('; ')}>
+                                {formatAuthorityPages(entry)}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <CitationVerificationSummary verifications={verifications} isVerifying={isVerifying} />
                 <div className="bg-gray-50 p-4 rounded-lg max-h-96 overflow-y-auto">
                   <pre className="whitespace-pre-wrap text-sm font-mono">
-                    {generatedBrief}
+                    <CitationAnnotatedText text={generatedBrief} verifications={verifications} />
                   </pre>
                 </div>
               </div>
+            ) : isGenerating && streamingBrief ? (
+              <div className="bg-gray-50 p-4 rounded-lg max-h-96 overflow-y-auto">
+                <pre className="whitespace-pre-wrap text-sm font-mono">{streamingBrief}</pre>
+              </div>
+            ) : isGenerating ? (
+              <div className="flex items-center justify-center gap-2 py-8 text-gray-500">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Generating brief...
+              </div>
             ) : (
               <div className="text-center py-8 text-gray-500">
                 <FileText className="mx-auto h-12 w-12 mb-4 opacity-50" />
@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Calendar as CalendarIcon, 
   Clock, 
@@ -11,12 +12,14 @@ import {
   Plus,
   Settings,
   Bell,
-  ExternalLink
+  ExternalLink,
+  Landmark
 } from 'lucide-react';
 import { CalendarView } from './CalendarView';
 import { EventCreationModal } from './EventCreationModal';
-import { format, isToday, isTomorrow, addDays } from 'date-fns';
+import { format, isToday, isTomorrow, addDays, parseISO } from 'date-fns';
 import { supabase } from '@/lib/supabase';
+import { getCourtHolidays, STATE_JURISDICTIONS } from '@/lib/courtHolidays';
 
 interface CalendarEvent {
   id: string;
@@ -44,6 +47,7 @@ export function CalendarDashboard() {
   const [upcomingEvents, setUpcomingEvents] = useState<UpcomingEvent[]>([]);
   const [todayEvents, setTodayEvents] = useState<UpcomingEvent[]>([]);
   const [loading, setLoading] = useState(true);
+  const [holidayJurisdiction, setHolidayJurisdiction] = useState('federal');
 
   useEffect(() => {
     fetchUpcomingEvents();
@@ -109,6 +113,19 @@ export function CalendarDashboard() {
     return `${format(new Date(event.start_time), 'h:mm a')} - ${format(new Date(event.end_time), 'h:mm a')}`;
   };
 
+  const getUpcomingClosures = () => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const horizon = format(addDays(new Date(), 60), 'yyyy-MM-dd');
+    const year = new Date().getFullYear();
+    const jurisdictions = holidayJurisdiction === 'federal' ? ['federal'] : ['federal', holidayJurisdiction];
+
+    return jurisdictions
+      .flatMap(jurisdiction => [...getCourtHolidays(year, jurisdiction), ...getCourtHolidays(year + 1, jurisdiction)])
+      .filter(holiday => holiday.date >= today && holiday.date <= horizon)
+      .filter((holiday, index, all) => all.findIndex(h => h.date === holiday.date) === index)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  };
+
   const getEventDateLabel = (date: string) => {
     const eventDate = new Date(date);
     if (isToday(eventDate)) return 'Today';
@@ -116,6 +133,8 @@ export function CalendarDashboard() {
     return format(eventDate, 'MMM d, yyyy');
   };
 
+  const upcomingClosures = getUpcomingClosures();
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -125,6 +144,17 @@ export function CalendarDashboard() {
           <p className="text-gray-600 mt-1">Manage your schedule and appointments</p>
         </div>
         <div className="flex items-center gap-3">
+          <Select value={holidayJurisdiction} onValueChange={setHolidayJurisdiction}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Court calendar" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="federal">Federal courts</SelectItem>
+              {STATE_JURISDICTIONS.map(state => (
+                <SelectItem key={state.code} value={state.code}>{state.name} courts</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Button variant="outline" size="sm">
             <Settings className="h-4 w-4 mr-2" />
             Settings
@@ -148,6 +178,7 @@ export function CalendarDashboard() {
             <TabsContent value="month" className="mt-4">
               <CalendarView
                 view="month"
+                holidayJurisdiction={holidayJurisdiction}
                 onCreateEvent={handleCreateEvent}
                 onEventClick={(event) => console.log('Event clicked:', event)}
               />
@@ -294,6 +325,30 @@ export function CalendarDashboard() {
             </CardContent>
           </Card>
 
+          {/* Court Closures */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Landmark className="h-5 w-5" />
+                Court Closures
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {upcomingClosures.length === 0 ? (
+                <p className="text-sm text-gray-500">No court holidays in the next 60 days</p>
+              ) : (
+                <div className="space-y-2">
+                  {upcomingClosures.map(holiday => (
+                    <div key={holiday.date} className="flex items-center justify-between text-sm">
+                      <span>{holiday.name}</span>
+                      <span className="text-gray-500">{format(parseISO(holiday.date), 'EEE, MMM d')}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Quick Actions */}
           <Card>
             <CardHeader>
@@ -334,6 +389,7 @@ export function CalendarDashboard() {
         onClose={() => setShowEventModal(false)}
         onEventCreated={handleEventCreated}
         initialDate={selectedDate}
+        holidayJurisdiction={holidayJurisdiction}
       />
     </div>
   );
@@ -13,6 +13,7 @@ import {
 } from 'lucide-react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths } from 'date-fns';
 import { supabase } from '@/lib/supabase';
+import { getCourtHoliday } from '@/lib/courtHolidays';
 
 interface CalendarEvent {
   id: string;
@@ -30,12 +31,14 @@ interface CalendarEvent {
 
 interface CalendarViewProps {
   view?: 'month' | 'week' | 'day';
+  holidayJurisdiction?: string;
   onEventClick?: (event: CalendarEvent) => void;
   onCreateEvent?: (date: Date) => void;
 }
 
 export function CalendarView({ 
   view = 'month', 
+  holidayJurisdiction = 'federal',
   onEventClick,
   onCreateEvent 
 }: CalendarViewProps) {
@@ -167,20 +170,27 @@ export function CalendarView({
             const dayEvents = getEventsForDay(date);
             const isToday = isSameDay(date, new Date());
             const isCurrentMonth = isSameMonth(date, currentDate);
+            const holiday = getCourtHoliday(date, ['federal', holidayJurisdiction]);
 
             return (
               <div
                 key={date.toISOString()}
                 className={`min-h-[100px] p-2 border rounded-lg cursor-pointer hover:bg-gray-50 ${
-                  isToday ? 'bg-blue-50 border-blue-200' : 'border-gray-200'
+                  isToday ? 'bg-blue-50 border-blue-200' : holiday ? 'bg-gray-100 border-gray-300' : 'border-gray-200'
                 } ${!isCurrentMonth ? 'opacity-50' : ''}`}
                 onClick={() => onCreateEvent?.(date)}
+                title={holiday ? `Courts closed: ${holiday.name}` : undefined}
               >
                 <div className={`text-sm font-medium mb-1 ${
                   isToday ? 'text-blue-600' : 'text-gray-900'
                 }`}>
                   {format(date, 'd')}
                 </div>
+                {holiday && (
+                  <div className="text-[10px] text-gray-500 truncate mb-1">
+                    {holiday.name}
+                  </div>
+                )}
                 <div className="space-y-1">
                   {dayEvents.slice(0, 3).map(event => (
                     <div
@@ -11,6 +11,8 @@ import { CalendarIcon } from 'lucide-react';
 import { format } from 'date-fns';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
+import { createWithConflictDecision, runConflictCheck, type ConflictDecision, type ConflictReport } from '@/lib/conflictCheck';
+import { ConflictCheckReview } from './ConflictCheckReview';
 
 interface CaseCreationWizardProps {
   open: boolean;
@@ -22,6 +24,7 @@ export function CaseCreationWizard({ open, onClose, onCaseCreated }: CaseCreatio
   const [step, setStep] = useState(1);
   const [loading, setLoading] = useState(false);
   const [startDate, setStartDate] = useState<Date>();
+  const [conflictReport, setConflictReport] = useState<ConflictReport | null>(null);
   const { toast } = useToast();
   
   const [formData, setFormData] = useState({
@@ -31,6 +34,8 @@ export function CaseCreationWizard({ open, onClose, onCaseCreated }: CaseCreatio
     status: 'active',
     client_id: '',
     priority: 'medium',
+    opposing_party: '',
+    opposing_counsel: '',
   });
 
   const handleInputChange = (field: string, value: string) => {
@@ -43,15 +48,33 @@ export function CaseCreationWizard({ open, onClose, onCaseCreated }: CaseCreatio
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const { error } = await supabase
-        .from('cases')
-        .insert({
-          ...formData,
-          created_by: user.id,
-          start_date: startDate?.toISOString(),
-        });
+      const report = await runConflictCheck(user.id, [formData.opposing_party, formData.opposing_counsel]);
+      if (report.hits.length > 0) {
+        setConflictReport(report);
+        return;
+      }
+      await createCase(report, 'cleared', '');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Conflict check failed; the case was not created',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      if (error) throw error;
+  const createCase = async (report: ConflictReport, decision: ConflictDecision, notes: string) => {
+    setLoading(true);
+    try {
+      await createWithConflictDecision(report, { subjectType: 'case', decision, notes }, {
+        ...formData,
+        client_id: formData.client_id || null,
+        opposing_party: formData.opposing_party.trim() || null,
+        opposing_counsel: formData.opposing_counsel.trim() || null,
+        start_date: startDate?.toISOString(),
+      });
 
       toast({
         title: 'Success',
@@ -61,6 +84,7 @@ export function CaseCreationWizard({ open, onClose, onCaseCreated }: CaseCreatio
       onCaseCreated();
       onClose();
       setStep(1);
+      setConflictReport(null);
       setFormData({
         title: '',
         description: '',
@@ -68,6 +92,8 @@ export function CaseCreationWizard({ open, onClose, onCaseCreated }: CaseCreatio
         status: 'active',
         client_id: '',
         priority: 'medium',
+        opposing_party: '',
+        opposing_counsel: '',
       });
     } catch (error) {
       toast({
@@ -145,6 +171,24 @@ export function CaseCreationWizard({ open, onClose, onCaseCreated }: CaseCreatio
                 </SelectContent>
               </Select>
             </div>
+            <div>
+              <Label htmlFor="opposing_party">Opposing Party</Label>
+              <Input
+                id="opposing_party"
+                value={formData.opposing_party}
+                onChange={(e) => handleInputChange('opposing_party', e.target.value)}
+                placeholder="Adverse party name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="opposing_counsel">Opposing Counsel</Label>
+              <Input
+                id="opposing_counsel"
+                value={formData.opposing_counsel}
+                onChange={(e) => handleInputChange('opposing_counsel', e.target.value)}
+                placeholder="Opposing counsel or firm"
+              />
+            </div>
             <div>
               <Label>Start Date</Label>
               <Popover>
@@ -175,13 +219,24 @@ export function CaseCreationWizard({ open, onClose, onCaseCreated }: CaseCreatio
           </div>
         )}
 
-        {step === 3 && (
+        {step === 3 && conflictReport && (
+          <ConflictCheckReview
+            report={conflictReport}
+            saving={loading}
+            onResolve={(decision, notes) => createCase(conflictReport, decision, notes)}
+            onCancel={() => setConflictReport(null)}
+          />
+        )}
+
+        {step === 3 && !conflictReport && (
           <div className="space-y-4">
             <h3 className="text-lg font-semibold">Review Case Details</h3>
             <div className="space-y-2 text-sm">
               <p><strong>Title:</strong> {formData.title}</p>
               <p><strong>Type:</strong> {formData.case_type}</p>
               <p><strong>Priority:</strong> {formData.priority}</p>
+              <p><strong>Opposing Party:</strong> {formData.opposing_party || 'Not set'}</p>
+              <p><strong>Opposing Counsel:</strong> {formData.opposing_counsel || 'Not set'}</p>
               <p><strong>Start Date:</strong> {startDate ? format(startDate, 'PPP') : 'Not set'}</p>
               <p><strong>Description:</strong> {formData.description}</p>
             </div>
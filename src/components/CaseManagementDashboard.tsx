@@ -20,7 +20,13 @@ interface Case {
   updated_date: string;
 }
 
-export const CaseManagementDashboard: React.FC = () => {
+interface CaseManagementDashboardProps {
+  // Case opened from the URL, e.g. /case-management/<caseId>
+  selectedCaseId?: string | null;
+  onSelectCase?: (caseId: string | null) => void;
+}
+
+export const CaseManagementDashboard: React.FC<CaseManagementDashboardProps> = ({ selectedCaseId, onSelectCase }) => {
   const [cases, setCases] = useState<Case[]>([]);
   const [filteredCases, setFilteredCases] = useState<Case[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
@@ -125,6 +131,8 @@ export const CaseManagementDashboard: React.FC = () => {
     return <div className="p-6">Loading cases...</div>;
   }
 
+  const selectedCase = selectedCaseId ? cases.find(c => c.id === selectedCaseId) : undefined;
+
   return (
     <div className="max-w-7xl mx-auto p-6 space-y-6">
       <div className="flex justify-between items-center">
@@ -251,7 +259,7 @@ export const CaseManagementDashboard: React.FC = () => {
             </div>
 
             <div className="flex gap-2">
-              <Button size="sm" variant="outline" className="flex-1">
+              <Button size="sm" variant="outline" className="flex-1" onClick={() => onSelectCase?.(case_.id)}>
                 View Details
               </Button>
               <Button size="sm" variant="outline">
@@ -262,6 +270,29 @@ export const CaseManagementDashboard: React.FC = () => {
         ))}
       </div>
 
+      {/* Case details */}
+      <Dialog open={!!selectedCaseId} onOpenChange={(open) => { if (!open) onSelectCase?.(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedCase?.case_title ?? 'Case not found'}</DialogTitle>
+          </DialogHeader>
+          {selectedCase ? (
+            <div className="space-y-2 text-sm">
+              <p><strong>Case Number:</strong> {selectedCase.case_number}</p>
+              <p><strong>Client:</strong> {selectedCase.client_name}</p>
+              <p><strong>Type:</strong> {selectedCase.case_type}</p>
+              <p>
+                <strong>Status:</strong>{' '}
+                <Badge className={getStatusColor(selectedCase.status)}>{selectedCase.status}</Badge>
+              </p>
+              <p><strong>Last Updated:</strong> {new Date(selectedCase.updated_date).toLocaleDateString()}</p>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">This case does not exist or you do not have access to it.</p>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {filteredCases.length === 0 && (
         <div className="text-center py-12">
           <FileText className="h-12 w-12 mx-auto text-gray-400 mb-4" />
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
+import { formatCaseCitation } from '@/lib/citationParser';
 
 interface CaseData {
   title: string;
@@ -30,10 +31,13 @@ export default function CitationFormatter({ caseData }: CitationFormatterProps)
     
     switch (style) {
       case 'bluebook':
-        return `${title}, ${citation} (${court} ${new Date(date).getFullYear()}).`;
-      
       case 'alwd':
-        return `${title}, ${citation} (${court} ${new Date(date).getFullYear()}).`;
+        return `${formatCaseCitation({
+          title,
+          citation: citation || [volume, reporter, page].filter(Boolean).join(' '),
+          court,
+          date: year || date,
+        }, style)}.`;
       
       case 'mla':
         return `"${title}." ${court}, ${new Date(date).toLocaleDateString()}. Web.`;
@@ -0,0 +1,117 @@
+import React from 'react';
+import { CheckCircle2, XCircle, AlertTriangle, HelpCircle, Loader2 } from 'lucide-react';
+import { useCitationVerification } from '@/hooks/use-citation-verification';
+import {
+  CITATION_STATUS_LABELS,
+  type CitationVerification,
+  type CitationVerificationStatus,
+} from '@/lib/citationVerification';
+import type { RetrievedPassage } from '@/lib/documentRetrieval';
+import { renderSourceMarkers } from './DocumentSources';
+
+const STATUS_STYLES: Record<CitationVerificationStatus, { className: string; icon: typeof CheckCircle2 }> = {
+  verified: { className: 'decoration-green-500 text-green-700', icon: CheckCircle2 },
+  'not-found': { className: 'decoration-red-500 text-red-700', icon: XCircle },
+  'name-mismatch': { className: 'decoration-amber-500 text-amber-700', icon: AlertTriangle },
+  'year-mismatch': { className: 'decoration-amber-500 text-amber-700', icon: AlertTriangle },
+  unchecked: { className: 'decoration-gray-400 text-gray-600', icon: HelpCircle },
+};
+
+interface CitationAnnotatedTextProps {
+  text: string;
+  verifications: CitationVerification[];
+  /** Retrieved document passages whose [S1]-style markers become links */
+  sources?: RetrievedPassage[];
+}
+
+/**
+ * Render text with each verified citation underlined and followed by its status icon
+ */
+export function CitationAnnotatedText({ text, verifications, sources = [] }: CitationAnnotatedTextProps) {
+  const plain = (slice: string, key: string) => (sources.length > 0 ? renderSourceMarkers(slice, sources, key) : slice);
+
+  if (verifications.length === 0) {
+    return <>{plain(text, 'tail-')}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  verifications.forEach((verification, index) => {
+    const { className, icon: Icon } = STATUS_STYLES[verification.status];
+    const title = `${CITATION_STATUS_LABELS[verification.status]}: ${verification.message}`;
+    parts.push(plain(text.slice(cursor, verification.start), `before-${index}-`));
+    parts.push(
+      <span key={index} className={`underline decoration-2 underline-offset-2 ${className}`} title={title}>
+        {text.slice(verification.start, verification.end)}
+        {verification.match ? (
+          <a href={verification.match.url} target="_blank" rel="noreferrer" aria-label={title}>
+            <Icon className="inline h-3 w-3 ml-0.5 align-baseline" />
+          </a>
+        ) : (
+          <Icon className="inline h-3 w-3 ml-0.5 align-baseline" aria-label={title} />
+        )}
+      </span>
+    );
+    cursor = verification.end;
+  });
+  parts.push(plain(text.slice(cursor), 'tail-'));
+
+  return <>{parts}</>;
+}
+
+interface CitationVerificationSummaryProps {
+  verifications: CitationVerification[];
+  isVerifying: boolean;
+}
+
+/**
+ * One-line count of citation statuses, e.g. "4 citations: 3 verified, 1 not found"
+ */
+export function CitationVerificationSummary({ verifications, isVerifying }: CitationVerificationSummaryProps) {
+  if (isVerifying) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Verifying citations with CourtListener...
+      </div>
+    );
+  }
+  if (verifications.length === 0) return null;
+
+  const counts = new Map<CitationVerificationStatus, number>();
+  verifications.forEach(({ status }) => counts.set(status, (counts.get(status) ?? 0) + 1));
+  const problems = verifications.length - (counts.get('verified') ?? 0);
+
+  return (
+    <div className={`text-xs ${problems > 0 ? 'text-red-600' : 'text-green-700'}`}>
+      {verifications.length} citation{verifications.length === 1 ? '' : 's'}:{' '}
+      {[...counts.entries()].map(([status, count]) => `${count} ${CITATION_STATUS_LABELS[status].toLowerCase()}`).join(', ')}
+      {problems > 0 && '. Check flagged citations before filing.'}
+    </div>
+  );
+}
+
+interface VerifiedCitationTextProps {
+  text: string;
+  enabled?: boolean;
+  showSummary?: boolean;
+  sources?: RetrievedPassage[];
+}
+
+/**
+ * Verify and annotate the citations in a piece of AI-generated text
+ */
+export function VerifiedCitationText({ text, enabled = true, showSummary = false, sources }: VerifiedCitationTextProps) {
+  const { verifications, isVerifying } = useCitationVerification(text, enabled);
+
+  return (
+    <>
+      <CitationAnnotatedText text={text} verifications={verifications} sources={sources} />
+      {showSummary && (
+        <div className="mt-2">
+          <CitationVerificationSummary verifications={verifications} isVerifying={isVerifying} />
+        </div>
+      )}
+    </>
+  );
+}
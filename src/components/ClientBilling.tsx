@@ -0,0 +1,557 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Clock, Download, FileText, Plus, Receipt, CheckCircle, Send, XCircle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { ExportService } from '@/lib/exportService';
+import {
+  INVOICE_STATUS_LABELS,
+  INVOICE_STATUS_TRANSITIONS,
+  TIMEKEEPER_CLASSIFICATIONS,
+  UTBMS_EXPENSE_CODES,
+  calculateInvoiceTotals,
+  createDraftInvoice,
+  createLineItem,
+  deleteLineItem,
+  getInvoice,
+  importTimeEntries,
+  lineItemAmount,
+  lineItemGross,
+  listInvoices,
+  listUnbilledLineItems,
+  updateInvoiceStatus,
+  writeDownLineItem,
+  type BillingLineItem,
+  type Invoice,
+  type InvoiceDetail,
+  type InvoiceStatus,
+  type TimekeeperClassification,
+} from '@/lib/invoiceService';
+
+interface Client {
+  id: string;
+  name: string;
+}
+
+interface Case {
+  id: string;
+  title: string;
+  case_number: string | null;
+}
+
+const ALL_CASES = 'all';
+const NO_CODE = 'none';
+const LAW_FIRM_ID_KEY = 'docketchief_ledes_law_firm_id';
+
+const STATUS_BADGES: Record<InvoiceStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  approved: 'bg-blue-100 text-blue-800',
+  sent: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+  void: 'bg-red-100 text-red-800',
+};
+
+const STATUS_ACTIONS: Partial<Record<InvoiceStatus, { label: string; icon: typeof CheckCircle }>> = {
+  approved: { label: 'Approve', icon: CheckCircle },
+  draft: { label: 'Return to Draft', icon: FileText },
+  sent: { label: 'Mark Sent', icon: Send },
+  paid: { label: 'Mark Paid', icon: Receipt },
+  void: { label: 'Void', icon: XCircle },
+};
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Client billing: unbilled time, fees and expenses, and the invoices built from them.
+ * Separate from BillingHistory, which shows the firm's own DocketChief subscription.
+ */
+export function ClientBilling() {
+  const { user } = useAuth();
+  const [clients, setClients] = useState<Client[]>([]);
+  const [cases, setCases] = useState<Case[]>([]);
+  const [clientId, setClientId] = useState('');
+  const [caseId, setCaseId] = useState(ALL_CASES);
+  const [unbilled, setUnbilled] = useState<BillingLineItem[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [selectedInvoice, setSelectedInvoice] = useState<InvoiceDetail | null>(null);
+  const [classification, setClassification] = useState<TimekeeperClassification>('PT');
+  const [lineType, setLineType] = useState<'fee' | 'expense'>('expense');
+  const [lineDescription, setLineDescription] = useState('');
+  const [lineQuantity, setLineQuantity] = useState('1');
+  const [lineRate, setLineRate] = useState('');
+  const [expenseCode, setExpenseCode] = useState(NO_CODE);
+  const [periodStart, setPeriodStart] = useState('');
+  const [periodEnd, setPeriodEnd] = useState('');
+  const [clientReference, setClientReference] = useState('');
+  const [clientMatterReference, setClientMatterReference] = useState('');
+  const [lawFirmId, setLawFirmId] = useState(() => localStorage.getItem(LAW_FIRM_ID_KEY) ?? '');
+  const [writeDowns, setWriteDowns] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const scope = { clientId, caseId: caseId === ALL_CASES ? null : caseId };
+
+  useEffect(() => {
+    if (user) fetchClients();
+  }, [user]);
+
+  useEffect(() => {
+    if (!user || !clientId) return;
+    fetchCases();
+    refresh();
+  }, [user, clientId, caseId]);
+
+  const fetchClients = async () => {
+    try {
+      const { data, error } = await supabase.from('clients').select('id, name').eq('attorney_id', user!.id).order('name');
+      if (error) throw error;
+      setClients(data || []);
+    } catch (error) {
+      console.error('Error fetching clients:', error);
+    }
+  };
+
+  const fetchCases = async () => {
+    try {
+      const { data, error } = await supabase.from('cases').select('id, title, case_number').eq('client_id', clientId);
+      if (error) throw error;
+      setCases(data || []);
+    } catch (error) {
+      console.error('Error fetching cases:', error);
+    }
+  };
+
+  const refresh = async () => {
+    try {
+      const [lines, clientInvoices] = await Promise.all([
+        listUnbilledLineItems(user!.id, scope),
+        listInvoices(user!.id, { clientId }),
+      ]);
+      setUnbilled(lines);
+      setInvoices(clientInvoices);
+    } catch (err) {
+      console.error('Error loading billing data:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load billing data');
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    if (!user) return;
+    setWorking(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Billing error:', err);
+      setError(err instanceof Error ? err.message : 'Billing action failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const timekeeper = () => ({
+    id: user!.id.slice(0, 8).toUpperCase(),
+    name: user!.full_name || user!.email || '',
+    classification,
+  });
+
+  const handleImportTime = () =>
+    run(async () => {
+      await importTimeEntries(user!.id, scope, timekeeper());
+      await refresh();
+    });
+
+  const handleAddLine = () =>
+    run(async () => {
+      await createLineItem(user!.id, {
+        ...scope,
+        lineType,
+        description: lineDescription,
+        quantity: Number(lineQuantity),
+        rate: Number(lineRate),
+        utbmsExpenseCode: lineType === 'expense' && expenseCode !== NO_CODE ? expenseCode : null,
+        timekeeper: timekeeper(),
+      });
+      setLineDescription('');
+      setLineRate('');
+      setLineQuantity('1');
+      await refresh();
+    });
+
+  const handleDeleteLine = (lineId: string) =>
+    run(async () => {
+      await deleteLineItem(lineId);
+      await refresh();
+    });
+
+  const handleCreateInvoice = () =>
+    run(async () => {
+      const invoice = await createDraftInvoice(user!.id, {
+        ...scope,
+        periodStart: periodStart || undefined,
+        periodEnd: periodEnd || undefined,
+        clientReference,
+        clientMatterReference,
+      });
+      setSelectedInvoice(invoice);
+      await refresh();
+    });
+
+  const handleOpenInvoice = (invoiceId: string) =>
+    run(async () => {
+      setWriteDowns({});
+      setSelectedInvoice(await getInvoice(invoiceId));
+    });
+
+  const handleWriteDown = (line: BillingLineItem) =>
+    run(async () => {
+      setSelectedInvoice(await writeDownLineItem(line, Number(writeDowns[line.id] || 0)));
+      await refresh();
+    });
+
+  const handleStatusChange = (status: InvoiceStatus) =>
+    run(async () => {
+      setSelectedInvoice(await updateInvoiceStatus(selectedInvoice!.id, status, user!.id));
+      await refresh();
+    });
+
+  const handleExportLEDES = () =>
+    run(async () => {
+      localStorage.setItem(LAW_FIRM_ID_KEY, lawFirmId);
+      await ExportService.exportToLEDES(selectedInvoice!, { lawFirmId });
+    });
+
+  const unbilledTotals = calculateInvoiceTotals(unbilled);
+  const selectedTotals = selectedInvoice ? calculateInvoiceTotals(selectedInvoice.billing_line_items) : null;
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Client Billing</h1>
+        <p className="text-gray-600">Bill clients for time, flat fees and expenses</p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="billing_client">Client</Label>
+            <Select value={clientId} onValueChange={(value) => { setClientId(value); setCaseId(ALL_CASES); setSelectedInvoice(null); }}>
+              <SelectTrigger id="billing_client">
+                <SelectValue placeholder="Select client" />
+              </SelectTrigger>
+              <SelectContent>
+                {clients.map(client => (
+                  <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="billing_case">Case</Label>
+            <Select value={caseId} onValueChange={setCaseId} disabled={!clientId}>
+              <SelectTrigger id="billing_case">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CASES}>All cases</SelectItem>
+                {cases.map(case_ => (
+                  <SelectItem key={case_.id} value={case_.id}>
+                    {case_.case_number ? `${case_.case_number} - ` : ''}{case_.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {clientId && (
+        <>
+          {/* Unbilled charges */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Unbilled Charges</CardTitle>
+              <CardDescription>
+                {unbilled.length} lines: {formatCurrency(unbilledTotals.fees)} fees, {formatCurrency(unbilledTotals.expenses)} expenses
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-end gap-4">
+                <div>
+                  <Label htmlFor="billing_classification">Timekeeper Classification</Label>
+                  <Select value={classification} onValueChange={(value) => setClassification(value as TimekeeperClassification)}>
+                    <SelectTrigger id="billing_classification" className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(TIMEKEEPER_CLASSIFICATIONS).map(([code, label]) => (
+                        <SelectItem key={code} value={code}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button variant="outline" onClick={handleImportTime} disabled={working}>
+                  <Clock className="h-4 w-4 mr-2" />
+                  Import Billable Time
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end border-t pt-4">
+                <div>
+                  <Label htmlFor="line_type">Type</Label>
+                  <Select value={lineType} onValueChange={(value) => setLineType(value as 'fee' | 'expense')}>
+                    <SelectTrigger id="line_type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="expense">Expense</SelectItem>
+                      <SelectItem value="fee">Flat fee</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="md:col-span-2">
+                  <Label htmlFor="line_description">Description</Label>
+                  <Input id="line_description" value={lineDescription} onChange={e => setLineDescription(e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor="line_quantity">Quantity</Label>
+                  <Input id="line_quantity" type="number" min="0" step="0.01" value={lineQuantity} onChange={e => setLineQuantity(e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor="line_rate">Rate</Label>
+                  <Input id="line_rate" type="number" min="0" step="0.01" value={lineRate} onChange={e => setLineRate(e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor="line_expense_code">Expense Code</Label>
+                  <Select value={expenseCode} onValueChange={setExpenseCode} disabled={lineType !== 'expense'}>
+                    <SelectTrigger id="line_expense_code">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CODE}>None</SelectItem>
+                      {Object.entries(UTBMS_EXPENSE_CODES).map(([code, label]) => (
+                        <SelectItem key={code} value={code}>{code} {label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={handleAddLine} disabled={working || !lineDescription || !lineRate}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Charge
+                </Button>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {unbilled.map(line => (
+                    <TableRow key={line.id}>
+                      <TableCell>{line.line_date}</TableCell>
+                      <TableCell className="capitalize">{line.line_type}</TableCell>
+                      <TableCell>{line.description}</TableCell>
+                      <TableCell className="text-right">{Number(line.quantity)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(Number(line.rate))}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(lineItemAmount(line))}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteLine(line.id)} disabled={working}>
+                          Remove
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end border-t pt-4">
+                <div>
+                  <Label htmlFor="period_start">Period Start</Label>
+                  <Input id="period_start" type="date" value={periodStart} onChange={e => setPeriodStart(e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor="period_end">Period End</Label>
+                  <Input id="period_end" type="date" value={periodEnd} onChange={e => setPeriodEnd(e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor="client_reference">Client's ID for Firm</Label>
+                  <Input id="client_reference" value={clientReference} onChange={e => setClientReference(e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor="client_matter_reference">Client Matter ID</Label>
+                  <Input id="client_matter_reference" value={clientMatterReference} onChange={e => setClientMatterReference(e.target.value)} />
+                </div>
+                <Button onClick={handleCreateInvoice} disabled={working || unbilled.length === 0}>
+                  <FileText className="h-4 w-4 mr-2" />
+                  Create Draft Invoice
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Invoices */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Invoices</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Matter</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invoices.map(invoice => (
+                    <TableRow key={invoice.id} className="cursor-pointer" onClick={() => handleOpenInvoice(invoice.id)}>
+                      <TableCell className="font-medium">{invoice.invoice_number}</TableCell>
+                      <TableCell>{invoice.invoice_date}</TableCell>
+                      <TableCell>{invoice.cases?.title ?? 'All matters'}</TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_BADGES[invoice.status]}>{INVOICE_STATUS_LABELS[invoice.status]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(Number(invoice.amount))}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {/* Invoice detail */}
+      {selectedInvoice && selectedTotals && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between">
+            <div>
+              <CardTitle>Invoice {selectedInvoice.invoice_number}</CardTitle>
+              <CardDescription>
+                {selectedInvoice.clients?.name} · {selectedInvoice.period_start} to {selectedInvoice.period_end}
+              </CardDescription>
+            </div>
+            <Badge className={STATUS_BADGES[selectedInvoice.status]}>{INVOICE_STATUS_LABELS[selectedInvoice.status]}</Badge>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Codes</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Write-down</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectedInvoice.billing_line_items.map(line => (
+                  <TableRow key={line.id}>
+                    <TableCell>{line.line_date}</TableCell>
+                    <TableCell>{line.description}</TableCell>
+                    <TableCell className="space-x-1">
+                      {[line.utbms_task_code, line.utbms_activity_code, line.utbms_expense_code].filter(Boolean).map(code => (
+                        <Badge key={code} variant="outline">{code}</Badge>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-right">{Number(line.quantity)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(line.rate))}</TableCell>
+                    <TableCell className="text-right">
+                      {selectedInvoice.status === 'draft' ? (
+                        <div className="flex justify-end gap-1">
+                          <Input
+                            type="number"
+                            min="0"
+                            max={lineItemGross(line)}
+                            step="0.01"
+                            className="w-24"
+                            value={writeDowns[line.id] ?? String(-Number(line.adjustment_amount || 0))}
+                            onChange={e => setWriteDowns({ ...writeDowns, [line.id]: e.target.value })}
+                          />
+                          <Button variant="outline" size="sm" onClick={() => handleWriteDown(line)} disabled={working}>
+                            Apply
+                          </Button>
+                        </div>
+                      ) : (
+                        Number(line.adjustment_amount) < 0 ? formatCurrency(Number(line.adjustment_amount)) : '—'
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(lineItemAmount(line))}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex flex-col items-end text-sm space-y-1">
+              <div>Fees: {formatCurrency(selectedTotals.fees)}</div>
+              <div>Expenses: {formatCurrency(selectedTotals.expenses)}</div>
+              {selectedTotals.adjustments < 0 && <div>Write-downs: {formatCurrency(selectedTotals.adjustments)}</div>}
+              <div className="text-lg font-bold">Total: {formatCurrency(selectedTotals.total)}</div>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-2 border-t pt-4">
+              {INVOICE_STATUS_TRANSITIONS[selectedInvoice.status].map(status => {
+                const action = STATUS_ACTIONS[status]!;
+                return (
+                  <Button
+                    key={status}
+                    variant={status === 'void' ? 'destructive' : 'outline'}
+                    onClick={() => handleStatusChange(status)}
+                    disabled={working}
+                  >
+                    <action.icon className="h-4 w-4 mr-2" />
+                    {action.label}
+                  </Button>
+                );
+              })}
+              <Button
+                variant="outline"
+                onClick={() => run(() => ExportService.exportInvoiceToPDF(selectedInvoice))}
+                disabled={working || selectedInvoice.billing_line_items.length === 0}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                PDF
+              </Button>
+              <div className="ml-auto flex items-end gap-2">
+                <div>
+                  <Label htmlFor="law_firm_id">Law Firm ID</Label>
+                  <Input id="law_firm_id" value={lawFirmId} onChange={e => setLawFirmId(e.target.value)} placeholder="Tax ID" className="w-40" />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={handleExportLEDES}
+                  disabled={working || !lawFirmId || selectedInvoice.billing_line_items.length === 0}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  LEDES 1998B
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
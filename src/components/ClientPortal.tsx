@@ -11,6 +11,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { createWithConflictDecision, runConflictCheck, type ConflictDecision, type ConflictReport } from '@/lib/conflictCheck';
+import { ConflictCheckReview } from './ConflictCheckReview';
 import { Users, FileText, MessageSquare, Clock, DollarSign, Plus, Send, Download, Eye } from 'lucide-react';
 
 interface Client {
@@ -22,6 +24,14 @@ interface Client {
   created_at: string;
 }
 
+interface NewClient {
+  attorney_id: string | undefined;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string;
+}
+
 interface Case {
   id: string;
   title: string;
@@ -40,6 +50,8 @@ export function ClientPortal() {
   const [loading, setLoading] = useState(true);
   const [showAddClient, setShowAddClient] = useState(false);
   const [showAddCase, setShowAddCase] = useState(false);
+  const [pendingClient, setPendingClient] = useState<{ clientData: NewClient; report: ConflictReport } | null>(null);
+  const [savingClient, setSavingClient] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -64,7 +76,7 @@ export function ClientPortal() {
   };
 
   const addClient = async (formData: FormData) => {
-    const clientData = {
+    const clientData: NewClient = {
       attorney_id: user?.id,
       first_name: formData.get('firstName') as string,
       last_name: formData.get('lastName') as string,
@@ -72,14 +84,34 @@ export function ClientPortal() {
       phone: formData.get('phone') as string,
     };
 
-    const { error } = await supabase.from('clients').insert([clientData]);
-    
-    if (error) {
-      toast({ title: "Error adding client", variant: "destructive" });
+    let report: ConflictReport;
+    try {
+      report = await runConflictCheck(user!.id, [`${clientData.first_name} ${clientData.last_name}`]);
+    } catch (error) {
+      toast({ title: "Conflict check failed", description: "The client was not added", variant: "destructive" });
+      return;
+    }
+
+    if (report.hits.length > 0) {
+      setPendingClient({ clientData, report });
     } else {
+      await saveClient(clientData, report, 'cleared', '');
+    }
+  };
+
+  const saveClient = async (clientData: NewClient, report: ConflictReport, decision: ConflictDecision, notes: string) => {
+    setSavingClient(true);
+    try {
+      await createWithConflictDecision(report, { subjectType: 'client', decision, notes }, { ...clientData });
+
       toast({ title: "Client added successfully" });
+      setPendingClient(null);
       setShowAddClient(false);
       loadData();
+    } catch (error) {
+      toast({ title: "Error adding client", variant: "destructive" });
+    } finally {
+      setSavingClient(false);
     }
   };
 
@@ -118,7 +150,7 @@ export function ClientPortal() {
         <TabsContent value="clients" className="space-y-4">
           <div className="flex justify-between">
             <h2 className="text-xl font-semibold">Client Management</h2>
-            <Dialog open={showAddClient} onOpenChange={setShowAddClient}>
+            <Dialog open={showAddClient} onOpenChange={(open) => { setShowAddClient(open); if (!open) setPendingClient(null); }}>
               <DialogTrigger asChild>
                 <Button>
                   <Plus className="w-4 h-4 mr-2" />
@@ -129,30 +161,39 @@ export function ClientPortal() {
                 <DialogHeader>
                   <DialogTitle>Add New Client</DialogTitle>
                 </DialogHeader>
-                <form onSubmit={(e) => {
-                  e.preventDefault();
-                  addClient(new FormData(e.currentTarget));
-                }}>
-                  <div className="space-y-4">
-                    <div>
-                      <Label>First Name</Label>
-                      <Input name="firstName" required />
+                {pendingClient ? (
+                  <ConflictCheckReview
+                    report={pendingClient.report}
+                    saving={savingClient}
+                    onResolve={(decision, notes) => saveClient(pendingClient.clientData, pendingClient.report, decision, notes)}
+                    onCancel={() => setPendingClient(null)}
+                  />
+                ) : (
+                  <form onSubmit={(e) => {
+                    e.preventDefault();
+                    addClient(new FormData(e.currentTarget));
+                  }}>
+                    <div className="space-y-4">
+                      <div>
+                        <Label>First Name</Label>
+                        <Input name="firstName" required />
+                      </div>
+                      <div>
+                        <Label>Last Name</Label>
+                        <Input name="lastName" required />
+                      </div>
+                      <div>
+                        <Label>Email</Label>
+                        <Input name="email" type="email" required />
+                      </div>
+                      <div>
+                        <Label>Phone</Label>
+                        <Input name="phone" />
+                      </div>
+                      <Button type="submit">Add Client</Button>
                     </div>
-                    <div>
-                      <Label>Last Name</Label>
-                      <Input name="lastName" required />
-                    </div>
-                    <div>
-                      <Label>Email</Label>
-                      <Input name="email" type="email" required />
-                    </div>
-                    <div>
-                      <Label>Phone</Label>
-                      <Input name="phone" />
-                    </div>
-                    <Button type="submit">Add Client</Button>
-                  </div>
-                </form>
+                  </form>
+                )}
               </DialogContent>
             </Dialog>
           </div>
@@ -20,7 +20,12 @@ interface Collaboration {
   members?: Array<{ id: string; email: string; role?: string }>;
 }
 
-export const CollaborationTools = () => {
+interface CollaborationToolsProps {
+  // Collaboration opened from an invitation link, e.g. /collaborate/<id>
+  highlightedCollaborationId?: string | null;
+}
+
+export const CollaborationTools = ({ highlightedCollaborationId }: CollaborationToolsProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [collaborations, setCollaborations] = useState<Collaboration[]>([]);
@@ -226,7 +231,7 @@ export const CollaborationTools = () => {
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {collaborations.map((collab) => (
-          <Card key={collab.id}>
+          <Card key={collab.id} className={collab.id === highlightedCollaborationId ? 'ring-2 ring-blue-500' : undefined}>
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
                 <span>{collab.name}</span>
@@ -281,6 +286,7 @@ export const CollaborationTools = () => {
                 <SelectValue placeholder="Select role" />
               </SelectTrigger>
               <SelectContent>
+                <SelectItem value="viewer">Viewer (read only)</SelectItem>
                 <SelectItem value="member">Member</SelectItem>
                 <SelectItem value="editor">Editor</SelectItem>
                 <SelectItem value="admin">Admin</SelectItem>
@@ -0,0 +1,83 @@
+import React, { forwardRef } from 'react';
+import { Users } from 'lucide-react';
+import {
+  COLLABORATION_ROLE_LABELS,
+  type Collaborator,
+  type ConnectionStatus,
+  type RemoteCursor,
+} from '@/lib/collaborativeDraft';
+
+const STATUS_LABELS: Record<ConnectionStatus, { label: string; className: string }> = {
+  connecting: { label: 'Connecting...', className: 'text-amber-600' },
+  connected: { label: 'Live', className: 'text-green-600' },
+  disconnected: { label: 'Offline – edits will merge when you reconnect', className: 'text-gray-500' },
+};
+
+interface PresenceBarProps {
+  status: ConnectionStatus;
+  collaborators: Collaborator[];
+}
+
+/**
+ * Who else has the shared draft open, and whether edits are reaching them
+ */
+export function PresenceBar({ status, collaborators }: PresenceBarProps) {
+  return (
+    <div className="flex items-center gap-3 text-xs">
+      <span className={STATUS_LABELS[status].className}>{STATUS_LABELS[status].label}</span>
+      {collaborators.length > 0 && (
+        <div className="flex items-center gap-1">
+          <Users className="h-3 w-3 text-gray-500" />
+          {collaborators.map((collaborator) => (
+            <span
+              key={collaborator.clientId}
+              className="px-2 py-0.5 rounded-full text-white"
+              style={{ backgroundColor: collaborator.color }}
+              title={COLLABORATION_ROLE_LABELS[collaborator.role] ?? collaborator.role}
+            >
+              {collaborator.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CursorOverlayProps {
+  content: string;
+  cursors: RemoteCursor[];
+  className: string;
+}
+
+/**
+ * Others' cursors drawn over a textarea. The overlay repeats the text invisibly with the
+ * same font and padding, so a marker placed in it lands where the text is; the parent keeps
+ * its scroll position in step with the textarea.
+ */
+export const CursorOverlay = forwardRef<HTMLDivElement, CursorOverlayProps>(({ content, cursors, className }, ref) => {
+  const marks = [...cursors].sort((a, b) => a.head - b.head);
+  let offset = 0;
+  return (
+    <div ref={ref} aria-hidden className={`${className} absolute inset-0 overflow-hidden pointer-events-none whitespace-pre-wrap break-words text-transparent border-transparent`}>
+      {marks.map((cursor) => {
+        const before = content.slice(offset, cursor.head);
+        offset = Math.max(offset, cursor.head);
+        return (
+          <React.Fragment key={cursor.clientId}>
+            {before}
+            <span className="relative">
+              <span className="absolute top-0 bottom-0 w-0.5 -ml-px" style={{ backgroundColor: cursor.color }} />
+              <span className="absolute -top-4 left-0 px-1 rounded text-[10px] leading-4 text-white whitespace-nowrap" style={{ backgroundColor: cursor.color }}>
+                {cursor.name}
+              </span>
+            </span>
+          </React.Fragment>
+        );
+      })}
+      {content.slice(offset)}
+    </div>
+  );
+});
+
+CursorOverlay.displayName = 'CursorOverlay';
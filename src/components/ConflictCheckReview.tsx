@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle } from 'lucide-react';
+import {
+  CONFLICT_ROLE_LABELS,
+  type ConflictDecision,
+  type ConflictMatchType,
+  type ConflictReport,
+} from '@/lib/conflictCheck';
+
+interface ConflictCheckReviewProps {
+  report: ConflictReport;
+  saving?: boolean;
+  onResolve: (decision: ConflictDecision, notes: string) => void;
+  onCancel: () => void;
+}
+
+const MATCH_BADGES: Record<ConflictMatchType, string> = {
+  exact: 'bg-red-100 text-red-800',
+  strong: 'bg-orange-100 text-orange-800',
+  possible: 'bg-yellow-100 text-yellow-800',
+};
+
+/**
+ * Conflict hits found at intake. Saving is only possible once the reviewer clears the hits
+ * (no actual conflict) or records a waiver, with notes either way.
+ */
+export function ConflictCheckReview({ report, saving, onResolve, onCancel }: ConflictCheckReviewProps) {
+  const [notes, setNotes] = useState('');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+        <p>
+          {report.hits.length} potential conflict{report.hits.length === 1 ? '' : 's'} found for{' '}
+          {report.searchedNames.join(', ')}. Review each match before continuing.
+        </p>
+      </div>
+
+      <ul className="max-h-64 overflow-y-auto divide-y rounded-md border text-sm">
+        {report.hits.map((hit, i) => (
+          <li key={`${hit.party.role}-${hit.party.sourceId}-${hit.searchedName}-${i}`} className="flex items-center justify-between gap-3 p-3">
+            <div>
+              <p className="font-medium">{hit.party.name}</p>
+              <p className="text-muted-foreground">
+                {CONFLICT_ROLE_LABELS[hit.party.role]} · {hit.party.sourceLabel}
+                {hit.searchedName !== hit.party.name && <> · matched "{hit.searchedName}"</>}
+              </p>
+            </div>
+            <Badge className={MATCH_BADGES[hit.matchType]}>
+              {hit.matchType} {Math.round(hit.score * 100)}%
+            </Badge>
+          </li>
+        ))}
+      </ul>
+
+      <div>
+        <Label htmlFor="conflict_notes">Clearance or waiver notes</Label>
+        <Textarea
+          id="conflict_notes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Why these matches are not conflicts, or how informed consent was obtained"
+          rows={3}
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={saving} className="flex-1">
+          Cancel
+        </Button>
+        <Button variant="outline" onClick={() => onResolve('waived', notes)} disabled={saving || !notes.trim()} className="flex-1">
+          Record Waiver
+        </Button>
+        <Button onClick={() => onResolve('cleared', notes)} disabled={saving || !notes.trim()} className="flex-1">
+          Clear &amp; Save
+        </Button>
+      </div>
+    </div>
+  );
+}
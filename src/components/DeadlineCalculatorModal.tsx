@@ -0,0 +1,235 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarIcon, Calculator } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/lib/supabase';
+import { STATE_JURISDICTIONS } from '@/lib/courtHolidays';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  calculateDeadlines,
+  saveCalculatedDeadlines,
+  SERVICE_METHOD_LABELS,
+  TRIGGER_EVENT_LABELS,
+  type CalculatedDeadline,
+  type DeadlineInput,
+  type ServiceMethod,
+  type TriggerEvent,
+} from '@/lib/deadlineCalculator';
+
+interface Case {
+  id: string;
+  title: string;
+  case_number: string;
+}
+
+interface DeadlineCalculatorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onDeadlinesSaved: () => void;
+}
+
+export function DeadlineCalculatorModal({ isOpen, onClose, onDeadlinesSaved }: DeadlineCalculatorModalProps) {
+  const { user } = useAuth();
+  const [cases, setCases] = useState<Case[]>([]);
+  const [caseId, setCaseId] = useState('');
+  const [triggerEvent, setTriggerEvent] = useState<TriggerEvent>('service-of-complaint');
+  const [triggerDate, setTriggerDate] = useState<Date>(new Date());
+  const [serviceMethod, setServiceMethod] = useState<ServiceMethod>('personal');
+  const [courtState, setCourtState] = useState('none');
+  const [preview, setPreview] = useState<CalculatedDeadline[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchCases();
+    }
+  }, [isOpen]);
+
+  const input: DeadlineInput = {
+    triggerEvent,
+    triggerDate,
+    jurisdiction: 'federal',
+    serviceMethod,
+    courtState: courtState === 'none' ? undefined : courtState,
+  };
+
+  useEffect(() => {
+    try {
+      setPreview(calculateDeadlines(input));
+      setError(null);
+    } catch (err) {
+      setPreview([]);
+      setError(err instanceof Error ? err.message : 'Unable to calculate deadlines');
+    }
+  }, [triggerEvent, triggerDate, serviceMethod, courtState]);
+
+  const fetchCases = async () => {
+    try {
+      const { data, error } = await supabase.from('cases').select('id, title, case_number').limit(50);
+      if (error) throw error;
+      setCases(data || []);
+    } catch (error) {
+      console.error('Error fetching cases:', error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user || !caseId) return;
+    setSaving(true);
+    try {
+      await saveCalculatedDeadlines(caseId, user.id, input, preview);
+      onDeadlinesSaved();
+      onClose();
+    } catch (err) {
+      console.error('Error saving deadlines:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save deadlines');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Calculate Deadlines</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <Label htmlFor="case_id">Case *</Label>
+              <Select value={caseId} onValueChange={setCaseId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select case" />
+                </SelectTrigger>
+                <SelectContent>
+                  {cases.map(case_ => (
+                    <SelectItem key={case_.id} value={case_.id}>
+                      {case_.case_number} - {case_.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="trigger_event">Trigger Event</Label>
+              <Select value={triggerEvent} onValueChange={(value) => setTriggerEvent(value as TriggerEvent)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TRIGGER_EVENT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Trigger Date</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-full justify-start text-left font-normal">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {format(triggerDate, 'PPP')}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={triggerDate}
+                    onSelect={(date) => date && setTriggerDate(date)}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            <div>
+              <Label htmlFor="jurisdiction">Jurisdiction</Label>
+              <Select value="federal" disabled>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="federal">Federal (FRCP)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="court_state">District Court Located In</Label>
+              <Select value={courtState} onValueChange={setCourtState}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Federal holidays only</SelectItem>
+                  {STATE_JURISDICTIONS.map(state => (
+                    <SelectItem key={state.code} value={state.code}>{state.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="col-span-2">
+              <Label htmlFor="service_method">Service Method</Label>
+              <Select value={serviceMethod} onValueChange={(value) => setServiceMethod(value as ServiceMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SERVICE_METHOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="space-y-3">
+            {preview.map((deadline) => (
+              <div key={deadline.ruleId} className="p-3 border rounded-lg">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-semibold text-gray-900">{deadline.title}</h4>
+                  <span className="text-sm font-medium">{format(parseISO(deadline.dueDate), 'EEE, MMM d, yyyy')}</span>
+                </div>
+                <p className="text-xs text-gray-600 mt-1">{deadline.description}</p>
+                <div className="flex flex-wrap items-center gap-2 mt-2">
+                  <Badge variant="outline" className="text-xs">{deadline.ruleReference}</Badge>
+                  {deadline.serviceDaysAdded > 0 && (
+                    <Badge variant="secondary" className="text-xs">+{deadline.serviceDaysAdded} days (Rule 6(d))</Badge>
+                  )}
+                  {deadline.rolledForward && (
+                    <Badge variant="secondary" className="text-xs">Rolled to next court day</Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={saving || !caseId || preview.length === 0}>
+              <Calculator className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : `Save ${preview.length} Deadlines`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,7 +4,10 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Calendar, Clock, AlertTriangle, Plus } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
-import { format, isAfter, isBefore, addDays } from 'date-fns';
+import { format, isAfter, isBefore, addDays, parseISO } from 'date-fns';
+import { getCourtClosure } from '@/lib/courtHolidays';
+import { holidayJurisdictionsFor } from '@/lib/deadlineCalculator';
+import { DeadlineCalculatorModal } from './DeadlineCalculatorModal';
 
 interface Deadline {
   id: string;
@@ -15,11 +18,14 @@ interface Deadline {
   case_id: string;
   case_title: string;
   completed: boolean;
+  // 'federal' or 'federal:<state code>' for calculated deadlines
+  jurisdiction: string | null;
 }
 
 export function DeadlinesList() {
   const [deadlines, setDeadlines] = useState<Deadline[]>([]);
   const [loading, setLoading] = useState(true);
+  const [showCalculator, setShowCalculator] = useState(false);
 
   useEffect(() => {
     fetchDeadlines();
@@ -68,7 +74,7 @@ export function DeadlinesList() {
   };
 
   const getUrgencyStatus = (dueDate: string) => {
-    const due = new Date(dueDate);
+    const due = parseISO(dueDate);
     const now = new Date();
     const tomorrow = addDays(now, 1);
     const nextWeek = addDays(now, 7);
@@ -126,7 +132,7 @@ export function DeadlinesList() {
     <Card>
       <CardHeader className="flex flex-row items-center justify-between">
         <CardTitle>Upcoming Deadlines</CardTitle>
-        <Button size="sm" onClick={() => console.log('Add deadline')}>
+        <Button size="sm" onClick={() => setShowCalculator(true)}>
           <Plus className="h-4 w-4 mr-2" />
           Add Deadline
         </Button>
@@ -143,6 +149,7 @@ export function DeadlinesList() {
             deadlines.map((deadline) => {
               const urgency = getUrgencyStatus(deadline.due_date);
               const UrgencyIcon = urgency.icon;
+              const courtClosure = getCourtClosure(parseISO(deadline.due_date), holidayJurisdictionsFor(deadline.jurisdiction));
               
               return (
                 <div key={deadline.id} className="flex items-start space-x-3 p-3 border rounded-lg hover:bg-gray-50">
@@ -165,8 +172,17 @@ export function DeadlinesList() {
                         <span>{deadline.case_title}</span>
                         <span>•</span>
                         <span className={urgency.color}>
-                          Due {format(new Date(deadline.due_date), 'MMM d, yyyy')}
+                          Due {format(parseISO(deadline.due_date), 'MMM d, yyyy')}
                         </span>
+                        {courtClosure && (
+                          <>
+                            <span>•</span>
+                            <span className="flex items-center gap-1 text-orange-600">
+                              <AlertTriangle className="h-3 w-3" />
+                              Court closed ({courtClosure.name})
+                            </span>
+                          </>
+                        )}
                       </div>
                       <Button 
                         size="sm" 
@@ -184,6 +200,11 @@ export function DeadlinesList() {
           )}
         </div>
       </CardContent>
+      <DeadlineCalculatorModal
+        isOpen={showCalculator}
+        onClose={() => setShowCalculator(false)}
+        onDeadlinesSaved={fetchDeadlines}
+      />
     </Card>
   );
 }
\ No newline at end of file
@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, Download, GitCompare } from 'lucide-react';
+import { redlineReviewSchema, type RedlineReview } from '@/lib/aiSchemas';
+import { compareDocumentsInWorker, formatChangesForReview, type DocumentComparison as Comparison } from '@/lib/documentDiff';
+import { ExportService } from '@/lib/exportService';
+import { redlineReviewRequestPrompt, redlineReviewSystemPrompt, renderPrompt } from '@/lib/prompts';
+import { generateStructured } from '@/lib/structuredOutput';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+interface DocumentComparisonProps {
+  /** Matter the AI usage is billed to */
+  caseId?: string | null;
+}
+
+// Without the AI, changes that only touch case, punctuation or spacing are the cosmetic ones
+const buildFallbackReview = (comparison: Comparison): RedlineReview => ({
+  changes: comparison.changes.map((change) => ({
+    id: change.id,
+    classification: change.formattingOnly ? 'cosmetic' : 'substantive',
+    explanation: change.formattingOnly
+      ? 'Only capitalization, punctuation or spacing changed.'
+      : 'Wording changed; review manually.',
+  })),
+  summary: `${comparison.changes.length} changes found, ${comparison.changes.filter((change) => !change.formattingOnly).length} of them to wording.`,
+  riskAssessment: { highRisk: [], mediumRisk: [], recommendations: ['Review each wording change against the original manually.'] },
+});
+
+export default function DocumentComparison({ caseId }: DocumentComparisonProps) {
+  const [original, setOriginal] = useState('');
+  const [revised, setRevised] = useState('');
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [review, setReview] = useState<RedlineReview | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const compare = async () => {
+    if (!original.trim() || !revised.trim()) {
+      setError('Paste both the original and the revised version to compare');
+      return;
+    }
+
+    const result = await compareDocumentsInWorker(original, revised);
+    setComparison(result);
+    setReview(null);
+    setError('');
+    setNotice('');
+    if (result.changes.length === 0) {
+      setNotice('The two versions are identical.');
+      return;
+    }
+
+    setReviewing(true);
+    try {
+      const reviewed = await generateStructured(redlineReviewSchema, {
+        feature: 'document_analyzer',
+        caseId,
+        schemaName: 'redline_review',
+        schemaDescription: 'Classification of each change in a redline and the risk it shifts',
+        system: renderPrompt(redlineReviewSystemPrompt, {}).text,
+        messages: [
+          { role: 'user', content: renderPrompt(redlineReviewRequestPrompt, { changes: formatChangesForReview(result.changes) }).text },
+        ],
+      });
+      setReview(reviewed);
+    } catch (err) {
+      console.error('Redline review failed', err);
+      setReview(buildFallbackReview(result));
+      setNotice('⚠️ AI review unavailable. Changes are classified locally: only formatting changes are marked cosmetic.');
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  const exportRedline = async () => {
+    if (!comparison) return;
+    try {
+      await ExportService.exportRedlineToDOCX({
+        title: 'Redline',
+        segments: comparison.segments,
+        changes: comparison.changes,
+        review,
+        author: user?.email,
+      });
+      toast({ title: 'Export successful', description: 'Redline DOCX downloaded with tracked changes' });
+    } catch (err) {
+      console.error('Export error:', err);
+      toast({ title: 'Export failed', description: 'Failed to generate DOCX. Please try again.', variant: 'destructive' });
+    }
+  };
+
+  const verdictFor = (id: number) => review?.changes.find((item) => item.id === id);
+  const substantive = comparison?.changes.filter((change) => verdictFor(change.id)?.classification === 'substantive').length ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-6 w-6" />
+            Compare Versions
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="redline-original">Original</Label>
+              <Textarea
+                id="redline-original"
+                placeholder="Paste your version of the contract or pleading..."
+                value={original}
+                onChange={(e) => setOriginal(e.target.value)}
+                className="min-h-[200px]"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="redline-revised">Revised</Label>
+              <Textarea
+                id="redline-revised"
+                placeholder="Paste the marked-up version from opposing counsel..."
+                value={revised}
+                onChange={(e) => setRevised(e.target.value)}
+                className="min-h-[200px]"
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={compare} disabled={reviewing}>
+              {reviewing ? 'Reviewing changes...' : 'Compare'}
+            </Button>
+            <Button variant="outline" onClick={exportRedline} disabled={!comparison || comparison.changes.length === 0 || reviewing}>
+              <Download className="h-4 w-4 mr-2" />
+              Export Redline DOCX
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setOriginal('');
+                setRevised('');
+                setComparison(null);
+                setReview(null);
+                setError('');
+                setNotice('');
+              }}
+            >
+              Clear
+            </Button>
+          </div>
+          {error && <div className="text-red-600 text-sm">{error}</div>}
+          {notice && <div className="text-amber-600 text-sm">{notice}</div>}
+        </CardContent>
+      </Card>
+
+      {comparison && comparison.changes.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Redline</span>
+              <span className="flex gap-2">
+                <Badge variant="outline">{comparison.changes.length} changes</Badge>
+                {review && <Badge variant="destructive">{substantive} substantive</Badge>}
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="bg-gray-50 p-4 rounded border text-sm whitespace-pre-wrap max-h-96 overflow-y-auto">
+              {comparison.segments.map((segment, i) =>
+                segment.type === 'insert' ? (
+                  <ins key={i} className="text-blue-700 underline">{segment.text}</ins>
+                ) : segment.type === 'delete' ? (
+                  <del key={i} className="text-red-600 line-through">{segment.text}</del>
+                ) : (
+                  <span key={i}>{segment.text}</span>
+                )
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {comparison && review && (
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Changes</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 max-h-[32rem] overflow-y-auto">
+              {comparison.changes.map((change) => {
+                const verdict = verdictFor(change.id);
+                return (
+                  <div key={change.id} className="p-3 rounded border space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-sm">Change {change.id}</span>
+                      <Badge variant={verdict?.classification === 'substantive' ? 'destructive' : 'secondary'}>
+                        {verdict?.classification ?? 'not reviewed'}
+                      </Badge>
+                    </div>
+                    {change.deleted && <p className="text-sm text-red-600 line-through">{change.deleted}</p>}
+                    {change.inserted && <p className="text-sm text-blue-700 underline">{change.inserted}</p>}
+                    {verdict && <p className="text-gray-600 text-sm">{verdict.explanation}</p>}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5" />
+                Risk Shift
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-gray-700 text-sm">{review.summary}</p>
+              {([
+                ['High Risk', review.riskAssessment.highRisk, 'bg-red-500'],
+                ['Medium Risk', review.riskAssessment.mediumRisk, 'bg-orange-500'],
+                ['Recommendations', review.riskAssessment.recommendations, 'bg-blue-500'],
+              ] as const).map(([heading, items, color]) =>
+                items.length > 0 && (
+                  <div key={heading}>
+                    <h4 className="font-medium mb-2">{heading}</h4>
+                    <ul className="space-y-2">
+                      {items.map((item, i) => (
+                        <li key={i} className="flex items-start gap-2">
+                          <div className={`w-2 h-2 ${color} rounded-full mt-2 flex-shrink-0`} />
+                          <span className="text-sm">{item}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
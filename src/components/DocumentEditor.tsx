@@ -1,4 +1,15 @@
-import React, { useState } from 'react';
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { History } from 'lucide-react';
+import { draftFieldsOf, draftTitle, listDrafts, saveDraft, type Draft } from '@/lib/draftService';
+import { versionAuthor, type DocumentVersion } from '@/lib/versionHistory';
+import { COLLABORATION_ROLE_LABELS, listUserCollaborations } from '@/lib/collaborativeDraft';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useCollaborativeDraft } from '@/hooks/use-collaborative-draft';
+import VersionHistory from './VersionHistory';
+import { CursorOverlay, PresenceBar } from './CollaboratorPresence';
+
+const EDITOR_TEXT_CLASS = 'p-4 font-mono text-sm border';
 
 interface DocumentEditorProps {
   motionType: string;
@@ -12,18 +23,135 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
   const [content, setContent] = useState('');
   const [caseTitle, setCaseTitle] = useState('');
   const [caseNumber, setCaseNumber] = useState('');
+  // Null until the first save creates the draft
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [currentVersion, setCurrentVersion] = useState(0);
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [collaborations, setCollaborations] = useState<Array<{ id: string; name: string }>>([]);
+  // Collaboration to share the draft with from the next save
+  const [collaborationId, setCollaborationId] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const openedDraft = drafts.find(draft => draft.id === draftId) ?? null;
+  const collab = useCollaborativeDraft(openedDraft);
+  // A shared draft's fields are the merged ones everybody is editing
+  const values = collab.fields ?? { content, caseTitle, caseNumber };
+  const isOwner = !openedDraft || openedDraft.user_id === user?.id;
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    listUserCollaborations(user.id)
+      .catch((error) => {
+        console.warn('Could not load collaborations', error);
+        return [];
+      })
+      .then((loaded) => {
+        if (cancelled) return;
+        setCollaborations(loaded);
+        return listDrafts(user.id, motionType, loaded.map(collaboration => collaboration.id));
+      })
+      .then((loaded) => {
+        if (!cancelled && loaded) setDrafts(loaded);
+      })
+      .catch((error) => console.warn('Could not load saved drafts', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [user, motionType]);
+
+  // Keep the caret where it was when others' edits replace the text
+  const { localCursor } = collab;
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    const cursor = localCursor();
+    if (!textarea || !cursor || document.activeElement !== textarea) return;
+    textarea.setSelectionRange(Math.min(cursor.anchor, cursor.head), Math.max(cursor.anchor, cursor.head));
+  }, [values.content, localCursor]);
+
+  const updateContent = (next: string) => {
+    if (collab.fields) collab.setContent(next);
+    else setContent(next);
+  };
+
+  const updateField = (field: 'caseTitle' | 'caseNumber', value: string) => {
+    if (collab.fields) collab.setField(field, value);
+    else if (field === 'caseTitle') setCaseTitle(value);
+    else setCaseNumber(value);
+  };
+
+  const shareSelection = (textarea: HTMLTextAreaElement) => {
+    if (collab.fields) collab.setCursor(textarea.selectionStart, textarea.selectionEnd);
+  };
+
+  const openDraft = (id: string) => {
+    const draft = drafts.find(candidate => candidate.id === id);
+    if (!draft) return;
+    setDraftId(draft.id);
+    setCurrentVersion(draft.current_version);
+    setCollaborationId(draft.collaboration_id);
+    setCaseTitle(draft.case_title);
+    setCaseNumber(draft.case_number);
+    setContent(draft.content);
+  };
+
+  const save = async (fields: { caseTitle: string; caseNumber: string; content: string }, restoredFrom?: number) => {
+    const { draft, version } = await saveDraft(
+      versionAuthor(user),
+      {
+        id: draftId,
+        motionType,
+        ...fields,
+        // Only the owner decides who the draft is shared with
+        ...(isOwner ? { collaborationId } : {}),
+        // A draft that isn't shared has no merged state, and a stale one must not outlive the sharing
+        crdtState: collaborationId ? collab.encodeState() : null,
+      },
+      { restoredFrom }
+    );
+    setDraftId(draft.id);
+    setCurrentVersion(version.version_number);
+    setDrafts(current => [draft, ...current.filter(candidate => candidate.id !== draft.id)]);
+    return version;
+  };
 
-  const handleSave = () => {
-    console.log('Saving document:', { motionType, caseTitle, caseNumber, content });
-    alert('Document saved successfully!');
+  const handleSave = async () => {
+    if (!user) {
+      toast({ title: 'Sign in to save', description: 'Drafts and their versions are saved to your account.', variant: 'destructive' });
+      return;
+    }
+    setSaving(true);
+    try {
+      const version = await save(values);
+      toast({ title: 'Document saved', description: `Saved as version ${version.version_number}.` });
+    } catch (error) {
+      console.error('Error saving draft:', error);
+      toast({ title: 'Save failed', description: error instanceof Error ? error.message : 'Failed to save document', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestore = async (version: DocumentVersion) => {
+    const fields = draftFieldsOf(version);
+    // Restoring a shared draft is an edit like any other, so everyone sees it
+    updateContent(fields.content);
+    updateField('caseTitle', fields.caseTitle);
+    updateField('caseNumber', fields.caseNumber);
+    await save(fields, version.version_number);
   };
 
   const handleGenerate = () => {
     const template = `IN THE UNITED STATES DISTRICT COURT
 FOR THE [DISTRICT]
 
-${caseTitle}
-                                                Case No. ${caseNumber}
+${values.caseTitle}
+                                                Case No. ${values.caseNumber}
 
 ${motionType.toUpperCase()}
 
@@ -51,53 +179,129 @@ Respectfully submitted,
 [Bar Number]
 [Firm Name]`;
 
-    setContent(template);
+    updateContent(template);
   };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg w-full max-w-4xl h-[90vh] flex flex-col">
         <div className="flex justify-between items-center p-6 border-b">
-          <h2 className="text-xl font-bold text-gray-900">{motionType}</h2>
-          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
-            ✕
-          </button>
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">{motionType}</h2>
+            {currentVersion > 0 && <p className="text-xs text-gray-500">Version {currentVersion}</p>}
+            {collab.fields && <PresenceBar status={collab.status} collaborators={collab.collaborators} />}
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowHistory(true)}
+              disabled={!draftId}
+              className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+              title={draftId ? 'Compare, restore and mark versions' : 'Save the document to start its history'}
+            >
+              <History className="h-4 w-4" />
+              History
+            </button>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              ✕
+            </button>
+          </div>
         </div>
         
         <div className="flex-1 flex">
           <div className="w-1/3 p-6 border-r bg-gray-50">
             <h3 className="font-bold mb-4">Case Information</h3>
             <div className="space-y-4">
+              {drafts.length > 0 && (
+                <select
+                  value={draftId ?? ''}
+                  onChange={(e) => openDraft(e.target.value)}
+                  className="w-full p-2 border rounded"
+                  aria-label="Open a saved draft"
+                >
+                  <option value="" disabled>
+                    Open a saved draft...
+                  </option>
+                  {drafts.map((draft) => (
+                    <option key={draft.id} value={draft.id}>
+                      {draft.title} (v{draft.current_version}, {new Date(draft.updated_at).toLocaleDateString()})
+                    </option>
+                  ))}
+                </select>
+              )}
               <input
                 type="text"
                 placeholder="Case Title"
-                value={caseTitle}
-                onChange={(e) => setCaseTitle(e.target.value)}
+                value={values.caseTitle}
+                onChange={(e) => updateField('caseTitle', e.target.value)}
+                readOnly={!collab.canEdit}
                 className="w-full p-2 border rounded"
               />
               <input
                 type="text"
                 placeholder="Case Number"
-                value={caseNumber}
-                onChange={(e) => setCaseNumber(e.target.value)}
+                value={values.caseNumber}
+                onChange={(e) => updateField('caseNumber', e.target.value)}
+                readOnly={!collab.canEdit}
                 className="w-full p-2 border rounded"
               />
               <button
                 onClick={handleGenerate}
-                className="w-full bg-blue-600 text-white py-2 px-4 rounded hover:bg-blue-700"
+                disabled={!collab.canEdit}
+                className="w-full bg-blue-600 text-white py-2 px-4 rounded hover:bg-blue-700 disabled:opacity-50"
               >
                 Generate Template
               </button>
+              {collaborations.length > 0 && (
+                <div>
+                  <select
+                    value={collaborationId ?? ''}
+                    onChange={(e) => setCollaborationId(e.target.value || null)}
+                    disabled={!isOwner}
+                    className="w-full p-2 border rounded"
+                    aria-label="Share with a collaboration"
+                  >
+                    <option value="">Not shared</option>
+                    {collaborations.map((collaboration) => (
+                      <option key={collaboration.id} value={collaboration.id}>
+                        Shared with {collaboration.name}
+                      </option>
+                    ))}
+                  </select>
+                  {isOwner && collaborationId !== (openedDraft?.collaboration_id ?? null) && (
+                    <p className="text-xs text-gray-500 mt-1">Sharing changes when you save.</p>
+                  )}
+                </div>
+              )}
+              {collab.role && (
+                <p className="text-xs text-gray-500">
+                  Your role: {COLLABORATION_ROLE_LABELS[collab.role]}
+                  {!collab.canEdit && ' – you can read this draft but not edit it.'}
+                </p>
+              )}
             </div>
           </div>
           
           <div className="flex-1 p-6">
-            <textarea
-              value={content}
-              onChange={(e) => setContent(e.target.value)}
-              placeholder="Start writing your motion here..."
-              className="w-full h-full border rounded p-4 font-mono text-sm resize-none"
-            />
+            <div className="relative w-full h-full">
+              <textarea
+                ref={textareaRef}
+                value={values.content}
+                onChange={(e) => {
+                  updateContent(e.target.value);
+                  shareSelection(e.target);
+                }}
+                onSelect={(e) => shareSelection(e.currentTarget)}
+                onScroll={(e) => {
+                  if (overlayRef.current) overlayRef.current.scrollTop = e.currentTarget.scrollTop;
+                }}
+                readOnly={!collab.canEdit}
+                placeholder="Start writing your motion here..."
+                className={`w-full h-full rounded resize-none ${EDITOR_TEXT_CLASS}`}
+              />
+              {collab.cursors.length > 0 && (
+                <CursorOverlay ref={overlayRef} content={values.content} cursors={collab.cursors} className={EDITOR_TEXT_CLASS} />
+              )}
+            </div>
           </div>
         </div>
         
@@ -110,12 +314,22 @@ Respectfully submitted,
           </button>
           <button
             onClick={handleSave}
-            className="px-6 py-2 bg-green-600 text-white rounded hover:bg-green-700"
+            disabled={saving || !collab.canEdit}
+            className="px-6 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
           >
-            Save Document
+            {saving ? 'Saving...' : 'Save Document'}
           </button>
         </div>
       </div>
+
+      {showHistory && draftId && (
+        <VersionHistory
+          subject={{ type: 'draft', id: draftId }}
+          title={draftTitle({ motionType, caseTitle: values.caseTitle })}
+          onRestore={handleRestore}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
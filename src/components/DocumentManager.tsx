@@ -1,11 +1,16 @@
 import React, { useEffect, useMemo, useState, useCallback } from 'react';
-import { FileText, Download, Trash2, Eye, Search, Filter } from 'lucide-react';
+import { FileText, Download, Trash2, Eye, Search, Filter, Stamp, ShieldCheck, ScrollText } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card } from './ui/card';
 import { Input } from './ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
 import { supabase } from '@/lib/supabase';
+import { PRIVILEGE_TREATMENT_LABELS, loadPrivilegeTags, type PrivilegeTag } from '@/lib/privilegeLog';
+import ProductionBuilder from './ProductionBuilder';
+import PrivilegeTagDialog from './PrivilegeTagDialog';
+import PrivilegeLogExport from './PrivilegeLogExport';
 
 interface Document {
   id: string;
@@ -14,6 +19,8 @@ interface Document {
   file_size: number;
   upload_date: string;
   preview_available: boolean;
+  storage_path?: string | null;
+  extracted_text?: string | null;
 }
 
 export const DocumentManager: React.FC = () => {
@@ -24,6 +31,12 @@ export const DocumentManager: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [usingFallback, setUsingFallback] = useState(false);
+  // Ids in the order they were selected, which is the production order
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showProduction, setShowProduction] = useState(false);
+  const [privilegeTags, setPrivilegeTags] = useState<Map<string, PrivilegeTag>>(new Map());
+  const [taggingDocument, setTaggingDocument] = useState<Document | null>(null);
+  const [showPrivilegeLog, setShowPrivilegeLog] = useState(false);
 
   const fallbackDocuments = useMemo<Document[]>(
     () => [
@@ -65,6 +78,12 @@ export const DocumentManager: React.FC = () => {
       setDocuments(data || []);
       setError('');
       setUsingFallback(false);
+
+      try {
+        setPrivilegeTags(await loadPrivilegeTags(user.id));
+      } catch (tagError) {
+        console.error('Error fetching privilege tags:', tagError);
+      }
     } catch (error) {
       console.error('Error fetching documents:', error);
       setError('Unable to reach the document store. Showing cached examples instead.');
@@ -108,11 +127,48 @@ export const DocumentManager: React.FC = () => {
 
       if (error) throw error;
       setDocuments(docs => docs.filter(doc => doc.id !== id));
+      setSelectedIds(ids => ids.filter(selected => selected !== id));
     } catch (error) {
       console.error('Error deleting document:', error);
     }
   };
 
+  // Withheld documents are logged instead of produced, so they can never be stamped into a volume
+  const isWithheld = (id: string) => privilegeTags.get(id)?.treatment === 'withheld';
+
+  const toggleSelected = (id: string) => {
+    if (isWithheld(id)) return;
+    setSelectedIds(ids => (ids.includes(id) ? ids.filter(selected => selected !== id) : [...ids, id]));
+  };
+
+  const handleTagSaved = (documentId: string, tag: PrivilegeTag | null) => {
+    if (tag?.treatment === 'withheld') setSelectedIds(ids => ids.filter(selected => selected !== documentId));
+    setPrivilegeTags(tags => {
+      const next = new Map(tags);
+      if (tag) next.set(documentId, tag);
+      else next.delete(documentId);
+      return next;
+    });
+  };
+
+  const taggedDocuments = useMemo(
+    () =>
+      documents
+        .filter(doc => privilegeTags.has(doc.id))
+        .map(doc => ({ tag: privilegeTags.get(doc.id), fileName: doc.filename })),
+    [documents, privilegeTags]
+  );
+
+  const selectedDocuments = selectedIds
+    .filter(id => !isWithheld(id))
+    .map(id => documents.find(doc => doc.id === id))
+    .filter(Boolean)
+    .map(doc => ({ ...doc, storage_path: doc.storage_path ?? null }));
+
+  const redactedFileNames = selectedDocuments
+    .filter(doc => privilegeTags.get(doc.id)?.treatment === 'redacted')
+    .map(doc => doc.filename);
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -156,6 +212,24 @@ export const DocumentManager: React.FC = () => {
             className="pl-10"
           />
         </div>
+        <Button
+          variant="outline"
+          onClick={() => setShowProduction(true)}
+          disabled={selectedDocuments.length === 0 || usingFallback}
+          title="Bates stamp the selected documents into a production volume"
+        >
+          <Stamp className="h-4 w-4 mr-2" />
+          Build Production{selectedDocuments.length > 0 ? ` (${selectedDocuments.length})` : ''}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => setShowPrivilegeLog(true)}
+          disabled={taggedDocuments.length === 0}
+          title="Generate a privilege log from the documents tagged as withheld or redacted"
+        >
+          <ScrollText className="h-4 w-4 mr-2" />
+          Privilege Log{taggedDocuments.length > 0 ? ` (${taggedDocuments.length})` : ''}
+        </Button>
         <Select value={typeFilter} onValueChange={setTypeFilter}>
           <SelectTrigger className="w-48">
             <Filter className="h-4 w-4 mr-2" />
@@ -176,6 +250,15 @@ export const DocumentManager: React.FC = () => {
           <Card key={doc.id} className="p-4 hover:shadow-md transition-shadow">
             <div className="flex items-start justify-between mb-3">
               <div className="flex items-center gap-2">
+                {!usingFallback && (
+                  <Checkbox
+                    checked={selectedIds.includes(doc.id) && !isWithheld(doc.id)}
+                    disabled={isWithheld(doc.id)}
+                    onCheckedChange={() => toggleSelected(doc.id)}
+                    aria-label={`Select ${doc.filename} for production`}
+                    title={isWithheld(doc.id) ? 'Withheld as privileged; it goes on the privilege log instead' : undefined}
+                  />
+                )}
                 <span className="text-2xl">{getFileTypeIcon(doc.file_type)}</span>
                 <div className="min-w-0 flex-1">
                   <h3 className="font-medium text-sm truncate" title={doc.filename}>
@@ -186,9 +269,16 @@ export const DocumentManager: React.FC = () => {
                   </p>
                 </div>
               </div>
-              <Badge variant={doc.preview_available ? "default" : "secondary"} className="text-xs">
-                {doc.preview_available ? "Preview" : "No Preview"}
-              </Badge>
+              <div className="flex flex-col items-end gap-1">
+                <Badge variant={doc.preview_available ? "default" : "secondary"} className="text-xs">
+                  {doc.preview_available ? "Preview" : "No Preview"}
+                </Badge>
+                {privilegeTags.has(doc.id) && (
+                  <Badge variant="outline" className="text-xs border-purple-300 text-purple-700">
+                    Privileged · {PRIVILEGE_TREATMENT_LABELS[privilegeTags.get(doc.id).treatment]}
+                  </Badge>
+                )}
+              </div>
             </div>
 
             <div className="text-xs text-gray-500 mb-3">
@@ -203,6 +293,17 @@ export const DocumentManager: React.FC = () => {
               <Button size="sm" variant="outline">
                 <Download className="h-3 w-3" />
               </Button>
+              {!usingFallback && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setTaggingDocument(doc)}
+                  title="Tag as withheld or redacted for privilege"
+                  className={privilegeTags.has(doc.id) ? 'text-purple-700' : undefined}
+                >
+                  <ShieldCheck className="h-3 w-3" />
+                </Button>
+              )}
               <Button 
                 size="sm" 
                 variant="outline"
@@ -233,6 +334,28 @@ export const DocumentManager: React.FC = () => {
           )}
         </div>
       )}
+
+      {showProduction && (
+        <ProductionBuilder
+          documents={selectedDocuments}
+          redactedFileNames={redactedFileNames}
+          onClose={() => setShowProduction(false)}
+          onProduced={() => setSelectedIds([])}
+        />
+      )}
+
+      {taggingDocument && (
+        <PrivilegeTagDialog
+          document={taggingDocument}
+          tag={privilegeTags.get(taggingDocument.id) ?? null}
+          onClose={() => setTaggingDocument(null)}
+          onSaved={handleTagSaved}
+        />
+      )}
+
+      {showPrivilegeLog && (
+        <PrivilegeLogExport tagged={taggedDocuments} onClose={() => setShowPrivilegeLog(false)} />
+      )}
     </div>
   );
 };
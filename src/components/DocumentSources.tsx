@@ -0,0 +1,74 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+import {
+  passageHref,
+  passageLabel,
+  splitSourceMarkers,
+  type RetrievedPassage,
+} from '@/lib/documentRetrieval';
+
+interface SourceMarkerProps {
+  marker: string;
+  passage: RetrievedPassage;
+}
+
+/**
+ * An inline [S1] marker linking to the cited document page
+ */
+function SourceMarker({ marker, passage }: SourceMarkerProps) {
+  const href = passageHref(passage);
+  const label = passageLabel(passage);
+  const className = 'inline-flex items-baseline text-xs font-medium text-blue-700 hover:underline mx-0.5';
+
+  return href ? (
+    <a href={href} target="_blank" rel="noreferrer" className={className} title={label}>
+      [{marker}]
+    </a>
+  ) : (
+    <span className={className} title={label}>[{marker}]</span>
+  );
+}
+
+/**
+ * Render text with each source marker that matches a passage as a link to its page
+ */
+export function renderSourceMarkers(text: string, sources: RetrievedPassage[], keyPrefix = ''): React.ReactNode[] {
+  return splitSourceMarkers(text, sources).map((segment, index) =>
+    typeof segment === 'string'
+      ? segment
+      : <SourceMarker key={`${keyPrefix}${index}`} marker={segment.marker} passage={segment.passage} />
+  );
+}
+
+interface DocumentSourceListProps {
+  sources: RetrievedPassage[];
+}
+
+/**
+ * The documents an answer drew on, each linking to the cited page
+ */
+export function DocumentSourceList({ sources }: DocumentSourceListProps) {
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="mt-2 border-t pt-2 space-y-1">
+      <div className="text-xs font-medium text-muted-foreground">Sources</div>
+      {sources.map(source => {
+        const href = passageHref(source);
+        return (
+          <div key={source.chunkId} className="flex items-center gap-1 text-xs">
+            <FileText className="h-3 w-3 flex-shrink-0" />
+            <span className="font-medium">[{source.marker}]</span>
+            {href ? (
+              <a href={href} target="_blank" rel="noreferrer" className="text-blue-700 hover:underline truncate">
+                {passageLabel(source)}
+              </a>
+            ) : (
+              <span className="truncate">{passageLabel(source)}</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
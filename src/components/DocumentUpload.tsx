@@ -5,9 +5,11 @@ import { Card } from './ui/card';
 import { Progress } from './ui/progress';
 import { Alert, AlertDescription } from './ui/alert';
 import { supabase } from '@/lib/supabase';
+import { extractText, joinPages, saveDocumentPages, type ExtractedPage } from '@/lib/textExtraction';
 
 interface AnalysisResult {
   extractedText: string;
+  pages: ExtractedPage[];
   analysis: string;
   fileName: string;
 }
@@ -16,6 +18,7 @@ export const DocumentUpload: React.FC = () => {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [progressLabel, setProgressLabel] = useState('');
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -79,7 +82,26 @@ export const DocumentUpload: React.FC = () => {
         throw new Error('You must be logged in to upload documents');
       }
 
-      setUploadProgress(25);
+      setUploadProgress(10);
+
+      // Text is extracted here rather than by the upload function, so scanned pages are OCRed
+      // and every page keeps its number
+      let pages: ExtractedPage[] = [];
+      let extractionWarning = '';
+      try {
+        const extraction = await extractText(file, {
+          onProgress: ({ stage, page, pageCount }) => {
+            setProgressLabel(stage === 'ocr' ? `Running OCR on page ${page} of ${pageCount}...` : `Reading page ${page} of ${pageCount}...`);
+            setUploadProgress(10 + Math.round((page / pageCount) * 40));
+          },
+        });
+        pages = extraction.pages;
+      } catch (extractionError) {
+        console.error('Extraction error:', extractionError);
+        extractionWarning = 'Text could not be extracted; the file was uploaded without it.';
+      }
+      setProgressLabel('Uploading...');
+      setUploadProgress(50);
 
       // Create FormData for file upload
       const formData = new FormData();
@@ -93,27 +115,46 @@ export const DocumentUpload: React.FC = () => {
         });
 
       if (uploadError) throw uploadError;
-      setUploadProgress(50);
+      setUploadProgress(75);
 
       // Save to database
-      const { error: dbError } = await supabase.from('documents').insert({
+      const { data: savedDocument, error: dbError } = await supabase.from('documents').insert({
         user_id: user.id,
         filename: file.name,
         file_type: file.type,
         file_size: file.size,
         storage_path: uploadData.document.storage_path,
-        preview_available: uploadData.document.preview_available
-      });
+        preview_available: uploadData.document.preview_available,
+        extracted_text: pages.length > 0 ? joinPages(pages) : null
+      }).select('id').single();
 
       if (dbError) {
         console.error('Database error:', dbError);
         throw new Error(`Failed to save document: ${dbError.message}`);
       }
 
+      if (pages.length > 0) {
+        try {
+          await saveDocumentPages(user.id, { sourceType: 'document', sourceId: savedDocument.id }, pages);
+        } catch (pagesError) {
+          console.error('Failed to save pages:', pagesError);
+          extractionWarning = 'The extracted text was saved, but not its individual pages.';
+        }
+      }
+
+      const ocrPages = pages.filter((page) => page.method === 'ocr').length;
       setUploadProgress(100);
       setAnalysisResult({
-        extractedText: `Document "${file.name}" uploaded successfully`,
-        analysis: `File uploaded: ${file.name}\nSize: ${(file.size / 1024 / 1024).toFixed(2)} MB\nType: ${file.type}\nPreview available: ${uploadData.document.preview_available ? 'Yes' : 'No'}`,
+        extractedText: joinPages(pages),
+        pages,
+        analysis: [
+          `File uploaded: ${file.name}`,
+          `Size: ${(file.size / 1024 / 1024).toFixed(2)} MB`,
+          `Type: ${file.type}`,
+          `Preview available: ${uploadData.document.preview_available ? 'Yes' : 'No'}`,
+          `Pages extracted: ${pages.length}${ocrPages > 0 ? ` (${ocrPages} by OCR)` : ''}`,
+          extractionWarning,
+        ].filter(Boolean).join('\n'),
         fileName: file.name
       });
 
@@ -128,6 +169,7 @@ export const DocumentUpload: React.FC = () => {
     } finally {
       setIsUploading(false);
       setUploadProgress(0);
+      setProgressLabel('');
     }
   };
 
@@ -154,7 +196,7 @@ export const DocumentUpload: React.FC = () => {
               <div>
                 <p className="text-lg font-medium">Processing Document...</p>
                 <Progress value={uploadProgress} className="mt-2" />
-                <p className="text-sm text-gray-500 mt-1">{uploadProgress}% complete</p>
+                <p className="text-sm text-gray-500 mt-1">{progressLabel || `${uploadProgress}% complete`}</p>
               </div>
             </div>
           ) : (
@@ -211,14 +253,22 @@ export const DocumentUpload: React.FC = () => {
             </AlertDescription>
           </Alert>
 
-          {analysisResult.extractedText && (
+          {analysisResult.pages.length > 0 && (
             <Card className="p-6">
               <h3 className="text-xl font-semibold mb-4 flex items-center gap-2">
                 <FileText className="h-5 w-5" />
                 Extracted Text
               </h3>
-              <div className="bg-gray-50 p-4 rounded-lg max-h-64 overflow-y-auto">
-                <pre className="whitespace-pre-wrap text-sm">{analysisResult.extractedText}</pre>
+              <div className="bg-gray-50 p-4 rounded-lg max-h-64 overflow-y-auto space-y-4">
+                {analysisResult.pages.map((page) => (
+                  <div key={page.page}>
+                    <p className="text-xs font-medium text-gray-500 mb-1">
+                      p. {page.page}
+                      {page.method === 'ocr' && ` · OCR${page.confidence !== null ? `, ${page.confidence}% confidence` : ''}`}
+                    </p>
+                    <pre className="whitespace-pre-wrap text-sm">{page.text || '(no text found)'}</pre>
+                  </div>
+                ))}
               </div>
             </Card>
           )}
@@ -8,9 +8,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Switch } from '@/components/ui/switch';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { CalendarIcon, Clock, MapPin, Users, Bell } from 'lucide-react';
+import { CalendarIcon, Clock, MapPin, Users, Bell, AlertTriangle } from 'lucide-react';
 import { format } from 'date-fns';
 import { supabase } from '@/lib/supabase';
+import { getCourtClosure } from '@/lib/courtHolidays';
 
 interface Case {
   id: string;
@@ -29,13 +30,15 @@ interface EventCreationModalProps {
   onClose: () => void;
   onEventCreated: () => void;
   initialDate?: Date;
+  holidayJurisdiction?: string;
 }
 
 export function EventCreationModal({ 
   isOpen, 
   onClose, 
   onEventCreated,
-  initialDate = new Date()
+  initialDate = new Date(),
+  holidayJurisdiction = 'federal'
 }: EventCreationModalProps) {
   const [formData, setFormData] = useState({
     title: '',
@@ -123,6 +126,11 @@ export function EventCreationModal({
     }
   };
 
+  // Filing deadlines and court dates should never land on a day the court is closed
+  const courtClosure = ['deadline', 'court_date'].includes(formData.event_type)
+    ? getCourtClosure(formData.start_date, ['federal', holidayJurisdiction])
+    : null;
+
   const resetForm = () => {
     setFormData({
       title: '',
@@ -245,6 +253,12 @@ export function EventCreationModal({
                   />
                 </PopoverContent>
               </Popover>
+              {courtClosure && (
+                <p className="flex items-center gap-1 text-xs text-orange-600 mt-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  Courts are closed on this date ({courtClosure.name})
+                </p>
+              )}
             </div>
 
             {!formData.is_all_day && (
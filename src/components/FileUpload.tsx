@@ -6,6 +6,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { supabase } from '@/lib/supabase';
+import { extractText, isExtractable, joinPages, type ExtractedPage } from '@/lib/textExtraction';
 
 interface UploadedFile {
   id: string;
@@ -14,6 +15,8 @@ interface UploadedFile {
   type: string;
   url: string;
   extractedText?: string;
+  // Extracted locally; .doc and .rtf files rely on the analysis function's text instead
+  pages?: ExtractedPage[];
   analysis?: string;
   aiProvider?: string;
   uploadedAt: Date;
@@ -33,7 +36,7 @@ export function FileUpload({ onFileUploaded, multiple = true }: FileUploadProps)
   const [aiProvider, setAiProvider] = useState<'openai' | 'gemini'>('openai');
 
   const maxSize = 10 * 1024 * 1024; // 10MB
-  const acceptedTypes = ['.pdf', '.doc', '.docx', '.txt', '.rtf'];
+  const acceptedTypes = ['.pdf', '.doc', '.docx', '.txt', '.rtf', '.jpg', '.jpeg', '.png'];
 
   const validateFile = (file: File): string | null => {
     const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
@@ -68,6 +71,17 @@ export function FileUpload({ onFileUploaded, multiple = true }: FileUploadProps)
         .from('legal-documents')
         .getPublicUrl(filePath);
 
+      setProgress(60);
+
+      let pages: ExtractedPage[] = [];
+      if (isExtractable(file)) {
+        try {
+          pages = (await extractText(file)).pages;
+        } catch (extractionError) {
+          console.warn('Extraction failed:', extractionError);
+        }
+      }
+
       setProgress(75);
 
       // Analyze document with selected AI provider
@@ -91,7 +105,8 @@ export function FileUpload({ onFileUploaded, multiple = true }: FileUploadProps)
         size: file.size,
         type: file.type,
         url: publicUrl,
-        extractedText: analysisData?.extractedText || '',
+        extractedText: pages.length > 0 ? joinPages(pages) : analysisData?.extractedText || '',
+        pages,
         analysis: analysisData?.analysis || '',
         aiProvider: analysisData?.aiProvider || aiProvider,
         uploadedAt: new Date()
@@ -230,6 +245,16 @@ export function FileUpload({ onFileUploaded, multiple = true }: FileUploadProps)
                   <p className="font-medium">{file.name}</p>
                   <div className="flex items-center gap-2 text-sm text-gray-500">
                     <span>{(file.size / 1024 / 1024).toFixed(2)} MB</span>
+                    {file.pages && file.pages.length > 0 && (
+                      <>
+                        <span>•</span>
+                        <span>
+                          {file.pages.length} {file.pages.length === 1 ? 'page' : 'pages'}
+                          {file.pages.some(page => page.method === 'ocr') &&
+                            ` (${file.pages.filter(page => page.method === 'ocr').length} by OCR)`}
+                        </span>
+                      </>
+                    )}
                     {file.aiProvider && (
                       <>
                         <span>•</span>
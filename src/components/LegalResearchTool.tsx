@@ -14,6 +14,7 @@ import { ExportService } from '@/lib/exportService';
 import { CacheService } from '@/lib/cacheService';
 import { useToast } from '@/hooks/use-toast';
 import { searchGoogleScholar, getGoogleScholarSearchUrl, type GoogleScholarResult } from '@/lib/googleScholarService';
+import { formatCaseCitation, type CitationStyle } from '@/lib/citationParser';
 
 interface ResearchResult {
   id: string;
@@ -93,6 +94,9 @@ export const LegalResearchTool: React.FC = () => {
     { value: 'mla', label: 'MLA' }
   ];
 
+  // MLA has no reporter-citation form, so those results keep the Bluebook citation
+  const citationStyle: CitationStyle = filters.citationFormat === 'alwd' ? 'alwd' : 'bluebook';
+
   const handleSearch = async () => {
     if (!query.trim()) return;
 
@@ -140,7 +144,8 @@ export const LegalResearchTool: React.FC = () => {
             dateRange: filters.dateRange,
             caseType: filters.caseType,
             includeFederalCourts: true,
-            includeStateLaws: true
+            includeStateLaws: true,
+            citationStyle
           });
           
           // Convert GoogleScholarResult to ResearchResult
@@ -185,6 +190,7 @@ export const LegalResearchTool: React.FC = () => {
           if (!searchError && data.success) {
             const courtListenerResults = (data.results || []).map((result: ResearchResult) => ({
               ...result,
+              parsedCitation: formatCaseCitation(result, citationStyle),
               source: 'courtlistener'
             }));
             allResults = [...allResults, ...courtListenerResults];
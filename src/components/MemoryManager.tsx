@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Brain, CloudOff, Download, RefreshCw, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useUserMemory } from '@/hooks/use-user-memory';
+import { activeItems, memoryStore, type MemorySyncState } from '@/lib/memoryStore';
+import type { MemoryItem, MemoryItemKind } from '@/types/assistant';
+
+const SECTIONS: Array<{ kind: MemoryItemKind; title: string; description: string }> = [
+  { kind: 'preference', title: 'Preferences', description: 'How you like things done' },
+  { kind: 'default', title: 'Defaults', description: 'Values filled in for you' },
+  { kind: 'task', title: 'Repeated Tasks', description: 'Workflows you run often' },
+  { kind: 'correction', title: 'Corrections', description: 'Mistakes you pointed out' },
+  { kind: 'redaction', title: 'Never Remember', description: 'Things you asked not to be stored' },
+];
+
+/**
+ * What the item says, and the detail shown under it
+ */
+const describeItem = (item: MemoryItem): { label: string; detail?: string } => {
+  switch (item.kind) {
+    case 'preference':
+      return { label: `${item.value.key}: ${item.value.value}`, detail: `${Math.round(item.value.confidence * 100)}% confident` };
+    case 'default':
+      return { label: `${item.value.key}: ${item.value.value}` };
+    case 'task':
+      return {
+        label: `${item.value.taskType}: ${item.value.pattern}`,
+        detail: [`${item.value.frequency} times`, item.value.steps?.join(' → ')].filter(Boolean).join(' · '),
+      };
+    case 'correction':
+      return item.value.originalAction
+        ? { label: `"${item.value.originalAction}" → "${item.value.correctedAction}"`, detail: item.value.context || undefined }
+        : { label: item.value.correctedAction, detail: item.value.context || undefined };
+    case 'redaction':
+      return { label: item.value.pattern, detail: item.value.reason || undefined };
+  }
+};
+
+function SyncBadge({ sync }: { sync: MemorySyncState }) {
+  switch (sync.status) {
+    case 'local':
+      return <Badge variant="outline">This device only</Badge>;
+    case 'syncing':
+      return <Badge variant="secondary">Syncing…</Badge>;
+    case 'offline':
+      return (
+        <Badge variant="outline" className="gap-1">
+          <CloudOff className="h-3 w-3" />
+          Offline{sync.pending > 0 ? `, ${sync.pending} changes queued` : ''}
+        </Badge>
+      );
+    case 'error':
+      return <Badge variant="destructive" title={sync.error ?? undefined}>Sync failed</Badge>;
+    default:
+      return (
+        <Badge variant="secondary">
+          {sync.lastSyncedAt ? `Synced ${formatDistanceToNow(new Date(sync.lastSyncedAt), { addSuffix: true })}` : 'Not synced yet'}
+        </Badge>
+      );
+  }
+}
+
+export function MemoryManager() {
+  const { memory, sync } = useUserMemory();
+  const { toast } = useToast();
+  const [isSyncing, setIsSyncing] = useState(false);
+  const items = activeItems(memory);
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    await memoryStore.sync();
+    setIsSyncing(false);
+  };
+
+  const handleDelete = (item: MemoryItem) => {
+    memoryStore.deleteItem(item.id);
+    toast({ title: 'Forgotten', description: describeItem(item).label });
+  };
+
+  const handleForgetAll = () => {
+    if (confirm('Forget everything the AI has learned about you, on every device? This cannot be undone.')) {
+      memoryStore.reset();
+      toast({ title: 'Memory cleared', description: 'All learned items have been forgotten' });
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([memoryStore.exportMemory()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ai-memory-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Brain className="h-6 w-6" />
+            AI Memory
+          </h2>
+          <p className="text-muted-foreground">
+            What AI Chat and the Smart Assistant have learned about you. Delete anything you don't want remembered.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <SyncBadge sync={sync} />
+          <Button variant="outline" size="sm" onClick={handleSync} disabled={isSyncing || sync.status === 'local'}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+            Sync Now
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleForgetAll} disabled={items.length === 0}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Forget All
+          </Button>
+        </div>
+      </div>
+
+      {!memory.settings.rememberPreferences && (
+        <Alert>
+          <AlertDescription>
+            Remembering preferences is turned off, so nothing new will be learned.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {sync.status === 'local' && (
+        <Alert>
+          <AlertDescription>
+            Sign in to keep your memory in your account and use it on your other devices.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {items.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Nothing learned yet. Preferences appear here as you work with the AI.
+          </CardContent>
+        </Card>
+      ) : (
+        SECTIONS.map(section => {
+          const sectionItems = items.filter(item => item.kind === section.kind);
+          if (sectionItems.length === 0) return null;
+
+          return (
+            <Card key={section.kind}>
+              <CardHeader>
+                <CardTitle className="text-lg">{section.title}</CardTitle>
+                <CardDescription>{section.description}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="w-40">Learned</TableHead>
+                      <TableHead className="w-16" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sectionItems.map(item => {
+                      const { label, detail } = describeItem(item);
+                      return (
+                        <TableRow key={item.id}>
+                          <TableCell>
+                            <div className="font-medium">{label}</div>
+                            {detail && <div className="text-xs text-muted-foreground">{detail}</div>}
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {formatDistanceToNow(new Date(item.updatedAt), { addSuffix: true })}
+                          </TableCell>
+                          <TableCell>
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(item)} title="Forget this">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
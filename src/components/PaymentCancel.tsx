@@ -3,16 +3,17 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { XCircle, ArrowLeft, CreditCard } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { tabPath } from '@/lib/appRoutes';
 
 export default function PaymentCancel() {
   const navigate = useNavigate();
 
   const handleRetryPayment = () => {
-    navigate('/pricing');
+    navigate(tabPath('pricing'));
   };
 
   const handleGoBack = () => {
-    navigate('/');
+    navigate(tabPath('home'));
   };
 
   return (
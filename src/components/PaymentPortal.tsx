@@ -175,6 +175,7 @@ export function PaymentPortal() {
         <StripeCheckout
           amount={selectedPlan.price}
           planName={selectedPlan.name}
+          interval={selectedPlan.interval}
           onSuccess={handlePaymentSuccess}
           onCancel={() => {
             setShowCheckout(false);
@@ -3,12 +3,13 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { CheckCircle, Download, Mail } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { tabPath } from '@/lib/appRoutes';
 
 export default function PaymentSuccess() {
   const navigate = useNavigate();
 
   const handleContinue = () => {
-    navigate('/dashboard');
+    navigate(tabPath('dashboard'));
   };
 
   const handleDownloadReceipt = () => {
@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileSpreadsheet, FileText, ScrollText } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  PRIVILEGE_LOG_FORMATS,
+  buildPrivilegeLog,
+  loadProducedBates,
+  type PrivilegeLogFormat,
+  type PrivilegeTag,
+} from '@/lib/privilegeLog';
+import { ExportService } from '@/lib/exportService';
+import { useToast } from '@/hooks/use-toast';
+
+interface PrivilegeLogExportProps {
+  tagged: Array<{ tag: PrivilegeTag; fileName: string }>;
+  onClose: () => void;
+}
+
+export default function PrivilegeLogExport({ tagged, onClose }: PrivilegeLogExportProps) {
+  const [title, setTitle] = useState('');
+  const [format, setFormat] = useState<PrivilegeLogFormat>('frcp');
+  const [bates, setBates] = useState<Map<string, string>>(new Map());
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  // Redacted documents are logged under the Bates number of their produced copy
+  useEffect(() => {
+    let cancelled = false;
+    loadProducedBates(tagged.filter(({ tag }) => tag.treatment === 'redacted').map(({ tag }) => tag.document_id))
+      .then((produced) => {
+        if (!cancelled) setBates(produced);
+      })
+      .catch((err) => console.warn('Could not load produced Bates numbers', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [tagged]);
+
+  const entries = useMemo(
+    () => buildPrivilegeLog(tagged.map(({ tag, fileName }) => ({ tag, fileName, bates: bates.get(tag.document_id) }))),
+    [tagged, bates]
+  );
+  const undescribed = entries.filter(entry => !entry.description).length;
+
+  const exportLog = async (kind: 'pdf' | 'xlsx' | 'csv') => {
+    setExporting(true);
+    try {
+      const data = { title: title.trim() || 'Privilege Log', entries, format };
+      if (kind === 'pdf') await ExportService.exportPrivilegeLogToPDF(data);
+      else if (kind === 'xlsx') await ExportService.exportPrivilegeLogToXLSX(data);
+      else await ExportService.exportPrivilegeLogToCSV(data);
+      toast({ title: 'Privilege log exported', description: `${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}` });
+    } catch (err) {
+      console.error('Privilege log export error:', err);
+      toast({ title: 'Export failed', description: err instanceof Error ? err.message : 'Failed to export privilege log', variant: 'destructive' });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && !exporting && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ScrollText className="h-5 w-5" />
+            Privilege Log
+          </DialogTitle>
+          <DialogDescription>
+            {entries.length} {entries.length === 1 ? 'document' : 'documents'} tagged as withheld or redacted, numbered in date order.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="privilege-log-title">Caption</Label>
+            <Input
+              id="privilege-log-title"
+              placeholder="Acme Corp. v. Widget Co., No. 1:24-cv-01234"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as PrivilegeLogFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PRIVILEGE_LOG_FORMATS).map(([value, spec]) => (
+                  <SelectItem key={value} value={value}>{spec.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              Columns: {PRIVILEGE_LOG_FORMATS[format].columns.map(column => column.header).join(', ')}
+            </p>
+          </div>
+          {undescribed > 0 && (
+            <div className="p-3 rounded border border-amber-300 bg-amber-50 text-xs text-amber-800">
+              {undescribed} {undescribed === 1 ? 'entry has' : 'entries have'} no description yet.
+            </div>
+          )}
+          <div className="grid grid-cols-3 gap-2">
+            <Button variant="outline" onClick={() => exportLog('pdf')} disabled={exporting || entries.length === 0}>
+              <FileText className="h-4 w-4 mr-2" />
+              PDF
+            </Button>
+            <Button variant="outline" onClick={() => exportLog('xlsx')} disabled={exporting || entries.length === 0}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Excel
+            </Button>
+            <Button variant="outline" onClick={() => exportLog('csv')} disabled={exporting || entries.length === 0}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ShieldCheck, Sparkles } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  PRIVILEGE_BASIS_LABELS,
+  PRIVILEGE_TREATMENT_LABELS,
+  deletePrivilegeTag,
+  draftPrivilegeDescription,
+  findAnalysisSummary,
+  revealedPhrases,
+  savePrivilegeTag,
+  type PrivilegeBasis,
+  type PrivilegeTag,
+  type PrivilegeTreatment,
+} from '@/lib/privilegeLog';
+import { StructuredOutputError } from '@/lib/structuredOutput';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+interface PrivilegeTagDialogProps {
+  document: { id: string; filename: string };
+  tag?: PrivilegeTag | null;
+  onClose: () => void;
+  // Called with the saved tag, or null once the tag is removed
+  onSaved: (documentId: string, tag: PrivilegeTag | null) => void;
+}
+
+const emptyTag = (documentId: string): PrivilegeTag => ({
+  document_id: documentId,
+  treatment: 'withheld',
+  privilege_basis: 'attorney_client',
+  document_date: null,
+  author: '',
+  recipients: [],
+  document_type: '',
+  description: '',
+  description_source: 'manual',
+});
+
+export default function PrivilegeTagDialog({ document, tag, onClose, onSaved }: PrivilegeTagDialogProps) {
+  const [draft, setDraft] = useState<PrivilegeTag>(tag ?? emptyTag(document.id));
+  const [recipients, setRecipients] = useState((tag?.recipients ?? []).join('\n'));
+  // The privileged summary the description was drafted from, kept to re-check edits
+  const [summary, setSummary] = useState<string | null>(null);
+  const [drafting, setDrafting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const update = (fields: Partial<PrivilegeTag>) => setDraft(current => ({ ...current, ...fields }));
+  const revealed = summary ? revealedPhrases(draft.description, summary) : [];
+
+  const draftDescription = async () => {
+    if (!user) return;
+    setError('');
+    setDrafting(true);
+    try {
+      const analysisSummary = await findAnalysisSummary(user.id, document.filename);
+      if (!analysisSummary) {
+        setError('This document has not been analyzed yet. Run it through the Document Analyzer first, or write the description yourself.');
+        return;
+      }
+      const drafted = await draftPrivilegeDescription(
+        { ...draft, recipients: recipients.split('\n').filter(line => line.trim()) },
+        analysisSummary
+      );
+      setSummary(analysisSummary);
+      update({
+        description: drafted.description,
+        document_type: draft.document_type || drafted.documentType,
+        description_source: 'ai',
+      });
+    } catch (err) {
+      console.error('Privilege description error:', err);
+      setError(
+        err instanceof StructuredOutputError
+          ? 'The AI response was not in the expected format. Please try again.'
+          : 'Failed to draft the description. Please try again.'
+      );
+    } finally {
+      setDrafting(false);
+    }
+  };
+
+  const save = async () => {
+    if (!user) return;
+    if (!draft.description.trim()) {
+      setError('A privilege log entry needs a description.');
+      return;
+    }
+    setError('');
+    setSaving(true);
+    try {
+      const saved = await savePrivilegeTag(user.id, {
+        ...draft,
+        recipients: recipients.split('\n').map(line => line.trim()).filter(Boolean),
+      });
+      onSaved(document.id, saved);
+      onClose();
+    } catch (err) {
+      console.error('Error saving privilege tag:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save privilege tag');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    setSaving(true);
+    try {
+      await deletePrivilegeTag(document.id);
+      onSaved(document.id, null);
+      toast({ title: 'Privilege tag removed', description: `${document.filename} will no longer appear on the privilege log.` });
+      onClose();
+    } catch (err) {
+      console.error('Error removing privilege tag:', err);
+      setError(err instanceof Error ? err.message : 'Failed to remove privilege tag');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && !saving && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Privilege Tag
+          </DialogTitle>
+          <DialogDescription className="truncate">{document.filename}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Treatment</Label>
+              <Select value={draft.treatment} onValueChange={(value) => update({ treatment: value as PrivilegeTreatment })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PRIVILEGE_TREATMENT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Privilege Asserted</Label>
+              <Select value={draft.privilege_basis} onValueChange={(value) => update({ privilege_basis: value as PrivilegeBasis })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PRIVILEGE_BASIS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="privilege-date">Document Date</Label>
+              <Input
+                id="privilege-date"
+                type="date"
+                value={draft.document_date ?? ''}
+                onChange={(e) => update({ document_date: e.target.value || null })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="privilege-type">Document Type</Label>
+              <Input
+                id="privilege-type"
+                placeholder="Email, Memorandum, Letter..."
+                value={draft.document_type}
+                onChange={(e) => update({ document_type: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="privilege-author">Author</Label>
+              <Input
+                id="privilege-author"
+                placeholder="Jane Smith, Esq. (outside counsel)"
+                value={draft.author}
+                onChange={(e) => update({ author: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="privilege-recipients">Recipients (one per line)</Label>
+              <Textarea
+                id="privilege-recipients"
+                rows={2}
+                placeholder="John Doe (CFO, client)"
+                value={recipients}
+                onChange={(e) => setRecipients(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="privilege-description">Description</Label>
+              <Button size="sm" variant="outline" onClick={draftDescription} disabled={drafting || saving}>
+                <Sparkles className="h-3 w-3 mr-1" />
+                {drafting ? 'Drafting...' : 'Draft with AI'}
+              </Button>
+            </div>
+            <Textarea
+              id="privilege-description"
+              rows={3}
+              placeholder="Email seeking legal advice regarding termination of the distribution agreement."
+              value={draft.description}
+              onChange={(e) => update({ description: e.target.value, description_source: 'manual' })}
+            />
+            {revealed.length > 0 && (
+              <div className="flex gap-2 p-3 rounded border border-amber-300 bg-amber-50 text-xs text-amber-800">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                <div>
+                  The description repeats the privileged summary word for word. Reword before serving the log:
+                  <ul className="list-disc ml-4 mt-1">
+                    {revealed.map(phrase => (
+                      <li key={phrase}>&ldquo;{phrase}&rdquo;</li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            )}
+          </div>
+          {error && <div className="text-red-600 text-sm">{error}</div>}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <div>
+            {tag && (
+              <Button variant="ghost" className="text-red-600 hover:text-red-700" onClick={remove} disabled={saving}>
+                Remove Tag
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={saving || drafting}>
+              {saving ? 'Saving...' : 'Save Tag'}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
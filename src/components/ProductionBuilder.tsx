@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { saveAs } from 'file-saver';
+import { Stamp } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CONFIDENTIALITY_LEGENDS, DEFAULT_BATES_DIGITS, formatBatesNumber, type ConfidentialityDesignation } from '@/lib/bates';
+import { buildProduction, nextBatesNumber, saveProduction, type ProductionSourceDocument } from '@/lib/productionService';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+interface ProductionBuilderProps {
+  documents: ProductionSourceDocument[];
+  // Documents tagged as redacted for privilege, whose stored files must be the redacted copies
+  redactedFileNames?: string[];
+  onClose: () => void;
+  onProduced?: () => void;
+}
+
+interface CaseOption {
+  id: string;
+  title: string;
+  case_number: string | null;
+}
+
+const NONE = 'none';
+
+const STAGE_LABELS = {
+  preparing: 'Reading documents',
+  stamping: 'Stamping pages',
+  packaging: 'Writing load files',
+};
+
+export default function ProductionBuilder({ documents, redactedFileNames = [], onClose, onProduced }: ProductionBuilderProps) {
+  const [volume, setVolume] = useState('PROD001');
+  const [prefix, setPrefix] = useState('');
+  const [startNumber, setStartNumber] = useState(1);
+  const [confidentiality, setConfidentiality] = useState<ConfidentialityDesignation>('confidential');
+  const [cases, setCases] = useState<CaseOption[]>([]);
+  const [caseId, setCaseId] = useState(NONE);
+  const [progress, setProgress] = useState<{ label: string; percent: number } | null>(null);
+  const [error, setError] = useState('');
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  // Continue from the last production under the same prefix
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    nextBatesNumber(user.id, prefix)
+      .then((next) => {
+        if (!cancelled) setStartNumber(next);
+      })
+      .catch((err) => console.warn('Could not load earlier productions', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [user, prefix]);
+
+  useEffect(() => {
+    supabase
+      .from('cases')
+      .select('id, title, case_number')
+      .limit(50)
+      .then(({ data, error: casesError }) => {
+        if (casesError) console.error('Error fetching cases:', casesError);
+        else setCases(data || []);
+      });
+  }, []);
+
+  const produce = async () => {
+    if (!user) return;
+    setError('');
+    setProgress({ label: STAGE_LABELS.preparing, percent: 0 });
+    try {
+      const production = await buildProduction(documents, {
+        volume,
+        prefix,
+        startNumber,
+        confidentiality,
+        onProgress: ({ stage, done, total }) =>
+          setProgress({ label: `${STAGE_LABELS[stage]} (${Math.min(done + 1, total)} of ${total})`, percent: Math.round((done / total) * 100) }),
+      });
+      // Record the range before handing the volume out, so an overlapping range is never served
+      await saveProduction(production, { prefix, caseId: caseId === NONE ? null : caseId });
+      saveAs(production.archive, `${production.summary.volume}.zip`);
+
+      const first = production.ranges[0].begin;
+      const last = production.ranges[production.ranges.length - 1].end;
+      toast({ title: 'Production built', description: `${production.summary.volume}: ${first} – ${last}, ${production.pageCount} pages` });
+      onProduced?.();
+      onClose();
+    } catch (err) {
+      console.error('Production error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to build production');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  let preview = '';
+  try {
+    preview = formatBatesNumber(prefix.trim(), startNumber || 1, DEFAULT_BATES_DIGITS);
+  } catch {
+    preview = 'Starting number too large';
+  }
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && !progress && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Stamp className="h-5 w-5" />
+            Build Production
+          </DialogTitle>
+          <DialogDescription>
+            {documents.length} {documents.length === 1 ? 'document' : 'documents'} will be Bates stamped in the order selected.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="production-volume">Volume</Label>
+              <Input id="production-volume" value={volume} onChange={(e) => setVolume(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="production-prefix">Bates Prefix</Label>
+              <Input id="production-prefix" placeholder="ACME" value={prefix} onChange={(e) => setPrefix(e.target.value.toUpperCase())} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="production-start">Starting Number</Label>
+              <Input
+                id="production-start"
+                type="number"
+                min={1}
+                value={startNumber}
+                onChange={(e) => setStartNumber(parseInt(e.target.value, 10) || 1)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>First Label</Label>
+              <div className="h-10 px-3 flex items-center rounded-md border bg-gray-50 font-mono text-sm">{preview}</div>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="production-case">Case</Label>
+            <Select value={caseId} onValueChange={setCaseId}>
+              <SelectTrigger id="production-case">
+                <SelectValue placeholder="Select case" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No case</SelectItem>
+                {cases.map((case_) => (
+                  <SelectItem key={case_.id} value={case_.id}>
+                    {case_.case_number ? `${case_.case_number} - ` : ''}{case_.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Confidentiality Legend</Label>
+            <Select value={confidentiality} onValueChange={(value) => setConfidentiality(value as ConfidentialityDesignation)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None</SelectItem>
+                <SelectItem value="confidential">{CONFIDENTIALITY_LEGENDS.confidential}</SelectItem>
+                <SelectItem value="highly_confidential">{CONFIDENTIALITY_LEGENDS.highly_confidential}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {redactedFileNames.length > 0 && (
+            <div className="p-3 rounded border border-amber-300 bg-amber-50 text-sm text-amber-800">
+              {redactedFileNames.length === 1 ? 'This document is' : 'These documents are'} tagged as redacted for privilege.
+              Check that the stored file is the redacted copy before producing: {redactedFileNames.join(', ')}
+            </div>
+          )}
+          {progress && (
+            <div className="space-y-1">
+              <Progress value={progress.percent} />
+              <p className="text-xs text-gray-500">{progress.label}...</p>
+            </div>
+          )}
+          {error && <div className="text-red-600 text-sm">{error}</div>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={Boolean(progress)}>
+            Cancel
+          </Button>
+          <Button onClick={produce} disabled={Boolean(progress) || !user}>
+            {progress ? 'Building...' : 'Build & Download'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,18 +5,18 @@ import { Textarea } from './ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
-import { supabase } from '@/lib/supabase';
+import { rebuttalAnalysisSchema, type RebuttalAnalysis } from '@/lib/aiSchemas';
+import { generateStructured, StructuredOutputError } from '@/lib/structuredOutput';
+import { rebuttalRequestPrompt, rebuttalSystemPrompt, renderPrompt } from '@/lib/prompts';
 import { useToast } from '@/hooks/use-toast';
+import { VerifiedCitationText } from './CitationVerification';
 
-interface RebuttalAnalysis {
-  weaknesses: string[];
-  counter_arguments: string[];
-  supporting_law: string[];
-  strategic_recommendations: string[];
-  evidence_suggestions: string[];
+interface RebuttalAssistantProps {
+  /** Matter the AI usage is billed to */
+  caseId?: string | null;
 }
 
-const RebuttalAssistant: React.FC = () => {
+const RebuttalAssistant: React.FC<RebuttalAssistantProps> = ({ caseId }) => {
   const [opponentArgument, setOpponentArgument] = useState('');
   const [jurisdiction, setJurisdiction] = useState('');
   const [caseType, setCaseType] = useState('');
@@ -36,47 +36,33 @@ const RebuttalAssistant: React.FC = () => {
 
     setIsAnalyzing(true);
     try {
-      const { data, error } = await supabase.functions.invoke('legal-research', {
-        body: {
-          query: `rebuttal analysis for: ${opponentArgument}`,
-          state: jurisdiction || 'all',
-          category: caseType || 'all'
-        }
+      const analysis = await generateStructured(rebuttalAnalysisSchema, {
+        feature: 'rebuttal_assistant',
+        caseId,
+        schemaName: 'rebuttal_analysis',
+        schemaDescription: 'Rebuttal strategy against an opposing argument',
+        system: renderPrompt(rebuttalSystemPrompt, {}).text,
+        messages: [
+          {
+            role: 'user',
+            content: renderPrompt(rebuttalRequestPrompt, { argument: opponentArgument, jurisdiction, caseType }).text,
+          },
+        ],
       });
 
-      if (error) throw error;
+      setRebuttalAnalysis(analysis);
 
-      if (data.success) {
-        // Parse the AI analysis into structured rebuttal components
-        const analysis = data.analysis;
-        
-        // Extract different sections from the analysis
-        const weaknesses = extractSection(analysis, 'weakness', 'flaw', 'problem');
-        const counterArgs = extractSection(analysis, 'counter', 'argument', 'response');
-        const supportingLaw = extractSection(analysis, 'law', 'rule', 'precedent', 'statute');
-        const strategies = extractSection(analysis, 'strategy', 'recommend', 'approach');
-        const evidence = extractSection(analysis, 'evidence', 'proof', 'document', 'witness');
-
-        setRebuttalAnalysis({
-          weaknesses,
-          counter_arguments: counterArgs,
-          supporting_law: supportingLaw,
-          strategic_recommendations: strategies,
-          evidence_suggestions: evidence
-        });
-
-        toast({
-          title: "Analysis Complete",
-          description: "Rebuttal strategy has been generated."
-        });
-      } else {
-        throw new Error(data.error || 'Analysis failed');
-      }
+      toast({
+        title: "Analysis Complete",
+        description: "Rebuttal strategy has been generated."
+      });
     } catch (error) {
       console.error('Rebuttal analysis error:', error);
       toast({
         title: "Analysis Error",
-        description: "Failed to analyze argument. Please try again.",
+        description: error instanceof StructuredOutputError
+          ? "The AI response was not in the expected format. Please try again."
+          : "Failed to analyze argument. Please try again.",
         variant: "destructive"
       });
     } finally {
@@ -84,18 +70,6 @@ const RebuttalAssistant: React.FC = () => {
     }
   };
 
-  const extractSection = (text: string, ...keywords: string[]): string[] => {
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 10);
-    return sentences
-      .filter(sentence => 
-        keywords.some(keyword => 
-          sentence.toLowerCase().includes(keyword.toLowerCase())
-        )
-      )
-      .map(s => s.trim())
-      .slice(0, 4); // Limit to 4 items per section
-  };
-
   return (
     <div className="space-y-6">
       {/* Input Interface */}
@@ -231,7 +205,7 @@ const RebuttalAssistant: React.FC = () => {
                   {rebuttalAnalysis.supporting_law.length > 0 ? (
                     rebuttalAnalysis.supporting_law.map((law, index) => (
                       <div key={index} className="p-3 bg-green-50 border-l-4 border-green-400 rounded">
-                        <p className="text-sm">{law}</p>
+                        <p className="text-sm"><VerifiedCitationText text={law} /></p>
                       </div>
                     ))
                   ) : (
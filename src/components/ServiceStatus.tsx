@@ -14,7 +14,8 @@ import {
   Database,
   Shield
 } from 'lucide-react';
-import { AIService } from '@/lib/aiService';
+import { AIService, type AIProviderStatus } from '@/lib/aiService';
+import type { BreakerState } from '@/lib/aiFailover';
 
 interface ServiceStatus {
   name: string;
@@ -28,6 +29,7 @@ export function ServiceStatus() {
   const [services, setServices] = useState<ServiceStatus[]>([]);
   const [isChecking, setIsChecking] = useState(false);
   const [lastChecked, setLastChecked] = useState<Date | null>(null);
+  const [aiProviders, setAiProviders] = useState<AIProviderStatus[]>([]);
 
   useEffect(() => {
     checkServiceStatus();
@@ -68,6 +70,7 @@ export function ServiceStatus() {
     try {
       // Check AI Service
       const aiStatus = AIService.getServiceStatus();
+      setAiProviders(aiStatus.providers);
       serviceChecks[0] = {
         ...serviceChecks[0],
         status: aiStatus.available ? 'operational' : 'degraded',
@@ -147,6 +150,17 @@ export function ServiceStatus() {
     }
   };
 
+  const getBreakerBadge = (state: BreakerState) => {
+    switch (state) {
+      case 'closed':
+        return <Badge variant="default" className="bg-green-500">Closed</Badge>;
+      case 'half-open':
+        return <Badge variant="secondary" className="bg-yellow-500">Half-open</Badge>;
+      default:
+        return <Badge variant="destructive">Open</Badge>;
+    }
+  };
+
   const overallStatus = services.length > 0 ? (
     services.every(s => s.status === 'operational') ? 'operational' :
     services.some(s => s.status === 'down') ? 'down' : 'degraded'
@@ -242,6 +256,39 @@ export function ServiceStatus() {
         </CardContent>
       </Card>
 
+      {/* AI Provider Circuit Breakers */}
+      <Card>
+        <CardHeader>
+          <CardTitle>AI Provider Health</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {aiProviders.map((provider) => (
+              <div
+                key={provider.provider}
+                className="flex items-center justify-between p-3 border rounded-lg"
+              >
+                <div>
+                  <div className="font-medium">{provider.label}</div>
+                  <div className="text-sm text-muted-foreground">{provider.message}</div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {provider.consecutiveFailures} consecutive failure{provider.consecutiveFailures === 1 ? '' : 's'}
+                    {provider.lastChecked && <> · Last request {provider.lastChecked.toLocaleTimeString()}</>}
+                    {provider.state === 'open' && provider.retryAt && (
+                      <> · Retrying after {provider.retryAt.toLocaleTimeString()}</>
+                    )}
+                  </div>
+                </div>
+                {getBreakerBadge(provider.state)}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground mt-3">
+            Requests fail over to the next provider while a breaker is open.
+          </p>
+        </CardContent>
+      </Card>
+
       {/* Configuration Status */}
       <Card>
         <CardHeader>
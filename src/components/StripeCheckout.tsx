@@ -11,11 +11,12 @@ import { useAuth } from '@/contexts/AuthContext';
 interface StripeCheckoutProps {
   amount: number;
   planName: string;
+  interval?: 'month' | 'year';
   onSuccess: () => void;
   onCancel: () => void;
 }
 
-export function StripeCheckout({ amount, planName, onSuccess, onCancel }: StripeCheckoutProps) {
+export function StripeCheckout({ amount, planName, interval = 'month', onSuccess, onCancel }: StripeCheckoutProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState('');
   const [cardDetails, setCardDetails] = useState({
@@ -55,6 +56,7 @@ export function StripeCheckout({ amount, planName, onSuccess, onCancel }: Stripe
           amount: amount,
           currency: 'usd',
           planName: planName,
+          interval,
           customerEmail: cardDetails.email,
           userId: user?.id,
           successUrl: `${window.location.origin}/payment-success`,
@@ -1,12 +1,16 @@
 import React, { useState } from 'react';
-import { TemplateRecord } from '@/contexts/TemplateContext';
+import { TemplateRecord, templateFromVersion, useTemplateLibrary } from '@/contexts/TemplateContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { DocumentVersion } from '@/lib/versionHistory';
+import VersionHistory from './VersionHistory';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Textarea } from './ui/textarea';
 import { Badge } from './ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
-import { Save, Eye, Wand2, User, Building, Calendar } from 'lucide-react';
+import { Save, Eye, Wand2, User, Building, Calendar, History } from 'lucide-react';
 
 interface ClientInfo {
   name: string;
@@ -36,6 +40,12 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({
   const [tags, setTags] = useState(template?.tags?.join(', ') || '');
   const [description, setDescription] = useState(template?.description || '');
   const [showPreview, setShowPreview] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  // Fixed for the editing session, so every save is a version of the same template
+  const [templateId] = useState(() => template?.id || `template-${Date.now()}`);
+  const { upsertTemplate } = useTemplateLibrary();
+  const { user } = useAuth();
+  const { toast } = useToast();
 
   const clientInfo: ClientInfo = {
     name: 'John Smith',
@@ -81,22 +91,56 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({
     }
   ];
 
-  const handleSave = () => {
-    const templateData: TemplateRecord = {
-      id: template?.id || `template-${Date.now()}`,
-      title,
-      category,
-      jurisdiction,
-      content,
-      tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
-      description,
-      isCustom: template?.isCustom ?? true,
-      isFavorite: template?.isFavorite ?? false,
-      lastModified: new Date().toISOString().split('T')[0]
-    };
+  const currentTemplate = (): TemplateRecord => ({
+    id: templateId,
+    title,
+    category,
+    jurisdiction,
+    content,
+    tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
+    description,
+    isCustom: template?.isCustom ?? true,
+    isFavorite: template?.isFavorite ?? false,
+    lastModified: new Date().toISOString().split('T')[0]
+  });
+
+  const handleSave = async () => {
+    const templateData = currentTemplate();
+    try {
+      await upsertTemplate(templateData);
+    } catch (error) {
+      console.error('Error saving template version:', error);
+      toast({
+        title: 'Version not recorded',
+        description: 'The template was saved, but this version was not added to its history.',
+        variant: 'destructive',
+      });
+    }
     onSave?.(templateData);
   };
 
+  const handleRestore = async (version: DocumentVersion) => {
+    const restored = templateFromVersion(currentTemplate(), version);
+    // The library takes the restored template even if its version is not recorded, so the
+    // fields must show it either way or the next save would undo the restore
+    setTitle(restored.title);
+    setCategory(restored.category);
+    setJurisdiction(restored.jurisdiction);
+    setContent(restored.content);
+    setTags(restored.tags.join(', '));
+    setDescription(restored.description);
+    try {
+      await upsertTemplate(restored, { restoredFrom: version.version_number });
+    } catch (error) {
+      console.error('Error saving template version:', error);
+      toast({
+        title: 'Version not recorded',
+        description: 'The template was restored, but the restore was not added to its history.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   return (
     <div className="max-w-7xl mx-auto p-6">
       <div className="flex justify-between items-center mb-6">
@@ -109,6 +153,15 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({
             <Eye className="h-4 w-4 mr-2" />
             {showPreview ? 'Edit' : 'Preview'}
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => setShowHistory(true)}
+            disabled={!user}
+            title={user ? 'Compare, restore and mark versions' : 'Sign in to keep a version history'}
+          >
+            <History className="h-4 w-4 mr-2" />
+            History
+          </Button>
           <Button onClick={handleSave}>
             <Save className="h-4 w-4 mr-2" />
             Save Template
@@ -257,6 +310,15 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({
           </Card>
         </div>
       </div>
+
+      {showHistory && (
+        <VersionHistory
+          subject={{ type: 'template', id: templateId }}
+          title={title || 'Untitled template'}
+          onRestore={handleRestore}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
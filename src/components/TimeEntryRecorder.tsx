@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Play, Square, Plus } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  UTBMS_ACTIVITY_CODES,
+  UTBMS_TASK_CODES,
+  createManualEntry,
+  getRunningTimer,
+  startTimer,
+  stopTimer,
+  type TimeEntry,
+  type TimeEntryDetails,
+} from '@/lib/timeEntryService';
+
+interface Case {
+  id: string;
+  title: string;
+  case_number: string | null;
+  client_id: string | null;
+}
+
+interface TimeEntryRecorderProps {
+  onRecorded: () => void;
+}
+
+const NONE = 'none';
+
+const formatElapsed = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(part => String(part).padStart(2, '0')).join(':');
+};
+
+export function TimeEntryRecorder({ onRecorded }: TimeEntryRecorderProps) {
+  const { user } = useAuth();
+  const [cases, setCases] = useState<Case[]>([]);
+  const [caseId, setCaseId] = useState(NONE);
+  const [description, setDescription] = useState('');
+  const [taskCode, setTaskCode] = useState(NONE);
+  const [activityCode, setActivityCode] = useState(NONE);
+  const [billable, setBillable] = useState(true);
+  const [rate, setRate] = useState('');
+  const [hours, setHours] = useState('');
+  const [runningTimer, setRunningTimer] = useState<TimeEntry | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchCases();
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    getRunningTimer(user.id)
+      .then(setRunningTimer)
+      .catch(err => console.error('Error loading running timer:', err));
+  }, [user]);
+
+  useEffect(() => {
+    if (!runningTimer) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [runningTimer]);
+
+  const fetchCases = async () => {
+    try {
+      const { data, error } = await supabase.from('cases').select('id, title, case_number, client_id').limit(50);
+      if (error) throw error;
+      setCases(data || []);
+    } catch (error) {
+      console.error('Error fetching cases:', error);
+    }
+  };
+
+  const details = (): TimeEntryDetails => {
+    const selectedCase = cases.find(case_ => case_.id === caseId);
+    return {
+      caseId: selectedCase?.id ?? null,
+      clientId: selectedCase?.client_id ?? null,
+      description,
+      billable,
+      rate: rate ? Number(rate) : null,
+      utbmsTaskCode: taskCode === NONE ? null : taskCode,
+      utbmsActivityCode: activityCode === NONE ? null : activityCode,
+    };
+  };
+
+  const record = async (action: () => Promise<void>) => {
+    if (!user) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Error recording time:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record time');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStart = () =>
+    record(async () => {
+      setRunningTimer(await startTimer(user!.id, details()));
+      setNow(Date.now());
+    });
+
+  const handleStop = () =>
+    record(async () => {
+      await stopTimer(runningTimer!.id);
+      setRunningTimer(null);
+      setDescription('');
+      onRecorded();
+    });
+
+  const handleAddEntry = () =>
+    record(async () => {
+      await createManualEntry(user!.id, { ...details(), hours: Number(hours) });
+      setHours('');
+      setDescription('');
+      onRecorded();
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Record Time</CardTitle>
+        <CardDescription>Run a timer or enter time by hand; time is billed in 0.1-hour increments</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="time_case">Case</Label>
+            <Select value={caseId} onValueChange={setCaseId} disabled={!!runningTimer}>
+              <SelectTrigger id="time_case">
+                <SelectValue placeholder="Select case" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No case</SelectItem>
+                {cases.map(case_ => (
+                  <SelectItem key={case_.id} value={case_.id}>
+                    {case_.case_number ? `${case_.case_number} - ` : ''}{case_.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="time_description">Description</Label>
+            <Input
+              id="time_description"
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              placeholder="Drafted motion to dismiss"
+              disabled={!!runningTimer}
+            />
+          </div>
+          <div>
+            <Label htmlFor="time_task">UTBMS Task</Label>
+            <Select value={taskCode} onValueChange={setTaskCode} disabled={!!runningTimer}>
+              <SelectTrigger id="time_task">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No task code</SelectItem>
+                {Object.entries(UTBMS_TASK_CODES).map(([code, label]) => (
+                  <SelectItem key={code} value={code}>{code} {label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="time_activity">UTBMS Activity</Label>
+            <Select value={activityCode} onValueChange={setActivityCode} disabled={!!runningTimer}>
+              <SelectTrigger id="time_activity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No activity code</SelectItem>
+                {Object.entries(UTBMS_ACTIVITY_CODES).map(([code, label]) => (
+                  <SelectItem key={code} value={code}>{code} {label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="time_rate">Hourly Rate</Label>
+            <Input
+              id="time_rate"
+              type="number"
+              min="0"
+              step="0.01"
+              value={rate}
+              onChange={e => setRate(e.target.value)}
+              placeholder="350.00"
+              disabled={!!runningTimer}
+            />
+          </div>
+          <div className="flex items-end gap-2 pb-2">
+            <Switch id="time_billable" checked={billable} onCheckedChange={setBillable} disabled={!!runningTimer} />
+            <Label htmlFor="time_billable">Billable</Label>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4 border-t pt-4">
+          {runningTimer ? (
+            <div className="flex items-center gap-3">
+              <span className="font-mono text-2xl text-blue-600">
+                {formatElapsed(now - new Date(runningTimer.started_at!).getTime())}
+              </span>
+              <Button variant="destructive" onClick={handleStop} disabled={saving}>
+                <Square className="h-4 w-4 mr-2" />
+                Stop Timer
+              </Button>
+            </div>
+          ) : (
+            <>
+              <Button onClick={handleStart} disabled={saving}>
+                <Play className="h-4 w-4 mr-2" />
+                Start Timer
+              </Button>
+              <div>
+                <Label htmlFor="time_hours">Hours</Label>
+                <Input
+                  id="time_hours"
+                  type="number"
+                  min="0.1"
+                  step="0.1"
+                  value={hours}
+                  onChange={e => setHours(e.target.value)}
+                  className="w-28"
+                />
+              </div>
+              <Button variant="outline" onClick={handleAddEntry} disabled={saving || !hours}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Entry
+              </Button>
+            </>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,36 +1,28 @@
 import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { Clock, TrendingUp, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Clock, TrendingUp, CalendarDays } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useTimeEntries } from '@/hooks/use-time-entries';
+import { TimeEntryRecorder } from './TimeEntryRecorder';
 
 interface TimeTrackingProps {
   dateRange: string;
 }
 
+const percentOf = (hours: number, total: number) => (total > 0 ? Math.round((hours / total) * 1000) / 10 : 0);
+
 export function TimeTracking({ dateRange }: TimeTrackingProps) {
-  const timeData = {
-    totalHours: 1247,
-    billableHours: 1089,
-    billableRate: 87.3,
-    practiceAreas: [
-      { area: 'Criminal Defense', hours: 342, percentage: 27.4, rate: '$450/hr' },
-      { area: 'Corporate Law', hours: 298, percentage: 23.9, rate: '$525/hr' },
-      { area: 'Family Law', hours: 187, percentage: 15.0, rate: '$375/hr' },
-      { area: 'Personal Injury', hours: 156, percentage: 12.5, rate: '$400/hr' },
-      { area: 'Real Estate', hours: 143, percentage: 11.5, rate: '$350/hr' },
-      { area: 'Immigration', hours: 121, percentage: 9.7, rate: '$325/hr' }
-    ],
-    attorneys: [
-      { name: 'Sarah Johnson', hours: 186, billable: 162, efficiency: 87 },
-      { name: 'Michael Chen', hours: 174, billable: 155, efficiency: 89 },
-      { name: 'Emily Rodriguez', hours: 168, billable: 142, efficiency: 85 },
-      { name: 'David Thompson', hours: 159, billable: 138, efficiency: 87 },
-      { name: 'Lisa Anderson', hours: 152, billable: 129, efficiency: 85 }
-    ]
-  };
+  const { entries, summary, isLoading, error, reload } = useTimeEntries(dateRange);
+  const maxWeekHours = Math.max(0, ...summary.byWeek.map(week => week.hours));
 
   return (
     <div className="space-y-6">
+      <TimeEntryRecorder onRecorded={reload} />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
       {/* Time Overview Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card>
@@ -39,30 +31,30 @@ export function TimeTracking({ dateRange }: TimeTrackingProps) {
             <Clock className="h-4 w-4 text-blue-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-blue-600">{timeData.totalHours}</div>
-            <p className="text-xs text-muted-foreground">Across all practice areas</p>
+            <div className="text-2xl font-bold text-blue-600">{summary.totalHours.toFixed(1)}</div>
+            <p className="text-xs text-muted-foreground">{summary.entryCount} entries</p>
           </CardContent>
         </Card>
-        
+
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Billable Hours</CardTitle>
             <TrendingUp className="h-4 w-4 text-green-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-green-600">{timeData.billableHours}</div>
-            <p className="text-xs text-muted-foreground">{timeData.billableRate}% billable rate</p>
+            <div className="text-2xl font-bold text-green-600">{summary.billableHours.toFixed(1)}</div>
+            <p className="text-xs text-muted-foreground">{summary.billableRate}% billable rate</p>
           </CardContent>
         </Card>
-        
+
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Average Efficiency</CardTitle>
-            <Users className="h-4 w-4 text-purple-600" />
+            <CardTitle className="text-sm font-medium">Average Daily Hours</CardTitle>
+            <CalendarDays className="h-4 w-4 text-purple-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-purple-600">86.8%</div>
-            <p className="text-xs text-muted-foreground">Team-wide average</p>
+            <div className="text-2xl font-bold text-purple-600">{summary.averageDailyHours.toFixed(1)}h</div>
+            <p className="text-xs text-muted-foreground">Over {summary.daysWorked} days with time recorded</p>
           </CardContent>
         </Card>
       </div>
@@ -72,78 +64,86 @@ export function TimeTracking({ dateRange }: TimeTrackingProps) {
         <Card>
           <CardHeader>
             <CardTitle>Time Distribution by Practice Area</CardTitle>
-            <CardDescription>Hours logged across different legal specialties</CardDescription>
+            <CardDescription>Hours logged by case type</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            {timeData.practiceAreas.map((area) => (
-              <div key={area.area} className="space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>{area.area}</span>
-                  <span className="font-medium">{area.hours}h ({area.percentage}%)</span>
-                </div>
-                <Progress value={area.percentage} className="h-2" />
-                <div className="text-xs text-muted-foreground text-right">
-                  Avg Rate: {area.rate}
+            {summary.byPracticeArea.length === 0 && (
+              <p className="text-sm text-muted-foreground">{isLoading ? 'Loading time entries...' : 'No time recorded in this period.'}</p>
+            )}
+            {summary.byPracticeArea.map((area) => {
+              const percentage = percentOf(area.hours, summary.totalHours);
+              return (
+                <div key={area.key} className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="capitalize">{area.label}</span>
+                    <span className="font-medium">{area.hours}h ({percentage}%)</span>
+                  </div>
+                  <Progress value={percentage} className="h-2" />
+                  <div className="text-xs text-muted-foreground text-right">
+                    {area.billableHours}h billable
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </CardContent>
         </Card>
 
-        {/* Time Tracking Chart */}
+        {/* Weekly Trend */}
         <Card>
           <CardHeader>
-            <CardTitle>Time Tracking Visualization</CardTitle>
-            <CardDescription>Visual breakdown of time allocation</CardDescription>
+            <CardTitle>Weekly Time Tracking Trends</CardTitle>
+            <CardDescription>Hours recorded per week</CardDescription>
           </CardHeader>
-          <CardContent>
-            <div className="aspect-video bg-gray-50 rounded-lg overflow-hidden">
-              <img 
-                src="https://d64gsuwffb70l.cloudfront.net/68d655106ee34a31072787c7_1758954137457_6dda9e01.webp"
-                alt="Time tracking analytics chart"
-                className="w-full h-full object-cover"
-              />
-            </div>
+          <CardContent className="space-y-4">
+            {summary.byWeek.length === 0 && (
+              <p className="text-sm text-muted-foreground">No time recorded in this period.</p>
+            )}
+            {summary.byWeek.map((week) => (
+              <div key={week.key} className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>{week.label}</span>
+                  <span className="font-medium">{week.hours}h ({week.billableHours}h billable)</span>
+                </div>
+                <Progress value={percentOf(week.hours, maxWeekHours)} className="h-2" />
+              </div>
+            ))}
           </CardContent>
         </Card>
       </div>
 
-      {/* Attorney Performance */}
+      {/* Time by Case */}
       <Card>
         <CardHeader>
-          <CardTitle>Attorney Time Tracking Performance</CardTitle>
-          <CardDescription>Individual attorney efficiency and billable hours</CardDescription>
+          <CardTitle>Time by Case</CardTitle>
+          <CardDescription>Billable and non-billable hours for each matter</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="overflow-x-auto">
             <table className="w-full text-sm">
               <thead>
                 <tr className="border-b">
-                  <th className="text-left p-2">Attorney</th>
+                  <th className="text-left p-2">Case</th>
                   <th className="text-right p-2">Total Hours</th>
                   <th className="text-right p-2">Billable Hours</th>
                   <th className="text-right p-2">Non-Billable</th>
-                  <th className="text-right p-2">Efficiency</th>
-                  <th className="text-right p-2">Avg Daily Hours</th>
+                  <th className="text-right p-2">Billable Rate</th>
                 </tr>
               </thead>
               <tbody>
-                {timeData.attorneys.map((attorney) => {
-                  const nonBillable = attorney.hours - attorney.billable;
-                  const avgDaily = (attorney.hours / 30).toFixed(1);
-                  
+                {summary.byCase.map((matter) => {
+                  const billableRate = percentOf(matter.billableHours, matter.hours);
+
                   return (
-                    <tr key={attorney.name} className="border-b hover:bg-gray-50">
-                      <td className="p-2 font-medium">{attorney.name}</td>
-                      <td className="text-right p-2">{attorney.hours}</td>
-                      <td className="text-right p-2 text-green-600">{attorney.billable}</td>
-                      <td className="text-right p-2 text-gray-600">{nonBillable}</td>
+                    <tr key={matter.key} className="border-b hover:bg-gray-50">
+                      <td className="p-2 font-medium">{matter.label}</td>
+                      <td className="text-right p-2">{matter.hours}</td>
+                      <td className="text-right p-2 text-green-600">{matter.billableHours}</td>
+                      <td className="text-right p-2 text-gray-600">{Math.round((matter.hours - matter.billableHours) * 10) / 10}</td>
                       <td className="text-right p-2">
-                        <span className={`font-medium ${attorney.efficiency >= 87 ? 'text-green-600' : 'text-yellow-600'}`}>
-                          {attorney.efficiency}%
+                        <span className={`font-medium ${billableRate >= 85 ? 'text-green-600' : 'text-yellow-600'}`}>
+                          {billableRate}%
                         </span>
                       </td>
-                      <td className="text-right p-2">{avgDaily}h</td>
                     </tr>
                   );
                 })}
@@ -153,22 +153,50 @@ export function TimeTracking({ dateRange }: TimeTrackingProps) {
         </CardContent>
       </Card>
 
-      {/* Weekly Trend */}
+      {/* Recent Entries */}
       <Card>
         <CardHeader>
-          <CardTitle>Weekly Time Tracking Trends</CardTitle>
-          <CardDescription>Time allocation patterns over the past weeks</CardDescription>
+          <CardTitle>Recent Time Entries</CardTitle>
+          <CardDescription>The latest time recorded in this period</CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="aspect-video bg-gray-50 rounded-lg overflow-hidden">
-            <img 
-              src="https://d64gsuwffb70l.cloudfront.net/68d655106ee34a31072787c7_1758954139197_3d63cfb5.webp"
-              alt="Weekly time tracking trends"
-              className="w-full h-full object-cover"
-            />
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Date</th>
+                  <th className="text-left p-2">Case</th>
+                  <th className="text-left p-2">Description</th>
+                  <th className="text-left p-2">Codes</th>
+                  <th className="text-right p-2">Hours</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.slice(0, 20).map((entry) => (
+                  <tr key={entry.id} className="border-b hover:bg-gray-50">
+                    <td className="p-2">{format(parseISO(entry.entry_date), 'MMM d, yyyy')}</td>
+                    <td className="p-2">{entry.cases?.title ?? '—'}</td>
+                    <td className="p-2">{entry.description || '—'}</td>
+                    <td className="p-2 space-x-1">
+                      {entry.utbms_task_code && <Badge variant="outline">{entry.utbms_task_code}</Badge>}
+                      {entry.utbms_activity_code && <Badge variant="outline">{entry.utbms_activity_code}</Badge>}
+                    </td>
+                    <td className="text-right p-2">
+                      {entry.source === 'timer' && !entry.ended_at ? (
+                        <Badge>Running</Badge>
+                      ) : (
+                        <span className={entry.billable ? 'text-green-600' : 'text-gray-600'}>
+                          {Number(entry.hours).toFixed(1)}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </div>
         </CardContent>
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
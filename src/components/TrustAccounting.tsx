@@ -0,0 +1,492 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDownCircle, ArrowUpCircle, Download, Landmark, Plus, Save, Scale } from 'lucide-react';
+import { format, subMonths } from 'date-fns';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { ExportService } from '@/lib/exportService';
+import {
+  TrustOverdraftError,
+  calculateClientLedgers,
+  createTrustAccount,
+  formatReconciliationReport,
+  listTrustAccounts,
+  listTrustTransactions,
+  markTransactionCleared,
+  reconcileTrustAccount,
+  recordDeposit,
+  recordDisbursement,
+  saveReconciliation,
+  type ThreeWayReconciliation,
+  type TrustAccount,
+  type TrustTransaction,
+  type TrustTransactionType,
+} from '@/lib/trustLedger';
+
+interface Client {
+  id: string;
+  name: string;
+}
+
+const ALL_CLIENTS = 'all';
+
+const formatCurrency = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Trust (IOLTA) accounting: per-client ledgers, deposits and disbursements, and the
+ * monthly three-way reconciliation.
+ */
+export function TrustAccounting() {
+  const { user } = useAuth();
+  const [accounts, setAccounts] = useState<TrustAccount[]>([]);
+  const [accountId, setAccountId] = useState('');
+  const [clients, setClients] = useState<Client[]>([]);
+  const [clientFilter, setClientFilter] = useState(ALL_CLIENTS);
+  const [transactions, setTransactions] = useState<TrustTransaction[]>([]);
+  const [newAccountName, setNewAccountName] = useState('');
+  const [newBankName, setNewBankName] = useState('');
+  const [newLast4, setNewLast4] = useState('');
+  const [entryType, setEntryType] = useState<TrustTransactionType>('deposit');
+  const [entryClientId, setEntryClientId] = useState('');
+  const [entryAmount, setEntryAmount] = useState('');
+  const [entryDate, setEntryDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [entryPayee, setEntryPayee] = useState('');
+  const [entryMemo, setEntryMemo] = useState('');
+  const [entryReference, setEntryReference] = useState('');
+  const [month, setMonth] = useState(() => format(subMonths(new Date(), 1), 'yyyy-MM'));
+  const [statementBalance, setStatementBalance] = useState('');
+  const [reconciliation, setReconciliation] = useState<ThreeWayReconciliation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const account = accounts.find(candidate => candidate.id === accountId);
+
+  useEffect(() => {
+    if (user) {
+      fetchAccounts();
+      fetchClients();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!accountId) return;
+    setReconciliation(null);
+    refresh();
+  }, [accountId]);
+
+  const fetchAccounts = async () => {
+    try {
+      const data = await listTrustAccounts(user!.id);
+      setAccounts(data);
+      if (!accountId && data.length > 0) setAccountId(data[0].id);
+    } catch (err) {
+      console.error('Error loading trust accounts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load trust accounts');
+    }
+  };
+
+  const fetchClients = async () => {
+    try {
+      const { data, error } = await supabase.from('clients').select('id, name').eq('attorney_id', user!.id).order('name');
+      if (error) throw error;
+      setClients(data || []);
+    } catch (error) {
+      console.error('Error fetching clients:', error);
+    }
+  };
+
+  const refresh = async () => {
+    try {
+      setTransactions(await listTrustTransactions(accountId));
+    } catch (err) {
+      console.error('Error loading trust transactions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load trust transactions');
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    if (!user) return;
+    setWorking(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Trust accounting error:', err);
+      setError(err instanceof TrustOverdraftError
+        ? `${err.message}. The disbursement was not recorded.`
+        : err instanceof Error ? err.message : 'Trust accounting action failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCreateAccount = () =>
+    run(async () => {
+      const created = await createTrustAccount(user!.id, {
+        name: newAccountName,
+        bankName: newBankName,
+        accountNumberLast4: newLast4,
+      });
+      setNewAccountName('');
+      setNewBankName('');
+      setNewLast4('');
+      setAccounts(current => [...current, created].sort((a, b) => a.name.localeCompare(b.name)));
+      setAccountId(created.id);
+    });
+
+  const handleRecordEntry = () =>
+    run(async () => {
+      const input = {
+        accountId,
+        clientId: entryClientId,
+        amount: Number(entryAmount),
+        transactionDate: entryDate,
+        memo: entryMemo,
+        reference: entryReference,
+      };
+      if (entryType === 'deposit') {
+        await recordDeposit(user!.id, input);
+      } else {
+        await recordDisbursement(user!.id, { ...input, payee: entryPayee });
+      }
+      setEntryAmount('');
+      setEntryPayee('');
+      setEntryMemo('');
+      setEntryReference('');
+      await refresh();
+    });
+
+  const handleToggleCleared = (transaction: TrustTransaction) =>
+    run(async () => {
+      await markTransactionCleared(transaction.id, transaction.cleared_date ? null : format(new Date(), 'yyyy-MM-dd'));
+      await refresh();
+    });
+
+  const handleReconcile = () =>
+    run(async () => {
+      setReconciliation(await reconcileTrustAccount(accountId, month, Number(statementBalance)));
+    });
+
+  const handleSaveReconciliation = () =>
+    run(async () => {
+      await saveReconciliation(user!.id, reconciliation!);
+      setNotice(`Reconciliation for ${month} saved`);
+    });
+
+  const handleExportReconciliation = () =>
+    run(async () => {
+      await ExportService.exportToPDF({
+        title: `Three-Way Trust Reconciliation: ${month}`,
+        content: formatReconciliationReport(reconciliation!, account),
+        metadata: {
+          author: user!.full_name || user!.email || '',
+          date: new Date().toISOString(),
+        },
+      });
+    });
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const clientLedgers = calculateClientLedgers(transactions, today);
+  const visibleTransactions = clientFilter === ALL_CLIENTS
+    ? transactions
+    : transactions.filter(transaction => transaction.client_id === clientFilter);
+  let runningBalance = 0;
+  const ledgerRows = visibleTransactions.map(transaction => {
+    runningBalance += transaction.transaction_type === 'deposit' ? Number(transaction.amount) : -Number(transaction.amount);
+    return { transaction, balance: runningBalance };
+  });
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Trust Accounting</h1>
+        <p className="text-gray-600">IOLTA client ledgers and monthly three-way reconciliation</p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div className="md:col-span-2">
+            <Label htmlFor="trust_account">Trust Account</Label>
+            <Select value={accountId} onValueChange={setAccountId}>
+              <SelectTrigger id="trust_account">
+                <SelectValue placeholder="Select trust account" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.name}{candidate.account_number_last4 ? ` (…${candidate.account_number_last4})` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="new_account_name">New Account Name</Label>
+            <Input id="new_account_name" value={newAccountName} onChange={e => setNewAccountName(e.target.value)} placeholder="IOLTA Operating Trust" />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="new_bank_name">Bank</Label>
+              <Input id="new_bank_name" value={newBankName} onChange={e => setNewBankName(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="new_last4">Last 4</Label>
+              <Input id="new_last4" value={newLast4} maxLength={4} onChange={e => setNewLast4(e.target.value)} />
+            </div>
+          </div>
+          <Button variant="outline" onClick={handleCreateAccount} disabled={working || !newAccountName}>
+            <Landmark className="h-4 w-4 mr-2" />
+            Add Account
+          </Button>
+        </CardContent>
+      </Card>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+      {accountId && (
+        <>
+          {/* New entry */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Record Transaction</CardTitle>
+              <CardDescription>Every entry belongs to a client; disbursements cannot exceed that client's balance</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <div>
+                <Label htmlFor="entry_type">Type</Label>
+                <Select value={entryType} onValueChange={(value) => setEntryType(value as TrustTransactionType)}>
+                  <SelectTrigger id="entry_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="deposit">Deposit</SelectItem>
+                    <SelectItem value="disbursement">Disbursement</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="entry_client">Client</Label>
+                <Select value={entryClientId} onValueChange={setEntryClientId}>
+                  <SelectTrigger id="entry_client">
+                    <SelectValue placeholder="Select client" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {clients.map(client => (
+                      <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="entry_amount">Amount</Label>
+                <Input id="entry_amount" type="number" min="0" step="0.01" value={entryAmount} onChange={e => setEntryAmount(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="entry_date">Date</Label>
+                <Input id="entry_date" type="date" value={entryDate} onChange={e => setEntryDate(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="entry_payee">Payee</Label>
+                <Input id="entry_payee" value={entryPayee} onChange={e => setEntryPayee(e.target.value)} disabled={entryType !== 'disbursement'} />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="entry_memo">Memo</Label>
+                <Input id="entry_memo" value={entryMemo} onChange={e => setEntryMemo(e.target.value)} placeholder="Retainer, settlement proceeds, filing fee..." />
+              </div>
+              <div>
+                <Label htmlFor="entry_reference">Check / Reference No.</Label>
+                <Input id="entry_reference" value={entryReference} onChange={e => setEntryReference(e.target.value)} />
+              </div>
+              <Button
+                onClick={handleRecordEntry}
+                disabled={working || !entryClientId || !entryAmount || !entryMemo || (entryType === 'disbursement' && !entryPayee)}
+              >
+                {entryType === 'deposit' ? <ArrowDownCircle className="h-4 w-4 mr-2" /> : <ArrowUpCircle className="h-4 w-4 mr-2" />}
+                Record {entryType === 'deposit' ? 'Deposit' : 'Disbursement'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Client balances */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Client Ledgers</CardTitle>
+              <CardDescription>Funds held for each client</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Client</TableHead>
+                    <TableHead className="text-right">Deposits</TableHead>
+                    <TableHead className="text-right">Disbursements</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {clientLedgers.map(ledger => (
+                    <TableRow key={ledger.clientId} className="cursor-pointer" onClick={() => setClientFilter(ledger.clientId)}>
+                      <TableCell className="font-medium">{ledger.clientName}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(ledger.deposits)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(ledger.disbursements)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(ledger.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {/* Journal */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Ledger</CardTitle>
+                <CardDescription>Entries cannot be edited or deleted; correct mistakes with an offsetting entry</CardDescription>
+              </div>
+              <Select value={clientFilter} onValueChange={setClientFilter}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CLIENTS}>All clients</SelectItem>
+                  {clientLedgers.map(ledger => (
+                    <SelectItem key={ledger.clientId} value={ledger.clientId}>{ledger.clientName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Payee / Memo</TableHead>
+                    <TableHead>Ref</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                    <TableHead>Cleared</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ledgerRows.map(({ transaction, balance }) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell>{transaction.transaction_date}</TableCell>
+                      <TableCell>{transaction.clients?.name}</TableCell>
+                      <TableCell>
+                        {transaction.payee && <span className="font-medium">{transaction.payee}: </span>}
+                        {transaction.memo}
+                      </TableCell>
+                      <TableCell>{transaction.reference}</TableCell>
+                      <TableCell className={`text-right ${transaction.transaction_type === 'deposit' ? 'text-green-700' : 'text-red-700'}`}>
+                        {formatCurrency(transaction.transaction_type === 'deposit' ? Number(transaction.amount) : -Number(transaction.amount))}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(balance)}</TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => handleToggleCleared(transaction)} disabled={working}>
+                          {transaction.cleared_date ?? 'Mark cleared'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {/* Reconciliation */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Three-Way Reconciliation</CardTitle>
+              <CardDescription>Compare the bank statement, the trust journal and the client ledgers at month end</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-end gap-3">
+                <div>
+                  <Label htmlFor="reconciliation_month">Month</Label>
+                  <Input id="reconciliation_month" type="month" value={month} onChange={e => setMonth(e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor="statement_balance">Bank Statement Balance</Label>
+                  <Input id="statement_balance" type="number" step="0.01" value={statementBalance} onChange={e => setStatementBalance(e.target.value)} />
+                </div>
+                <Button onClick={handleReconcile} disabled={working || !month || statementBalance === ''}>
+                  <Scale className="h-4 w-4 mr-2" />
+                  Reconcile
+                </Button>
+                {reconciliation && (
+                  <>
+                    <Button variant="outline" onClick={handleSaveReconciliation} disabled={working}>
+                      <Save className="h-4 w-4 mr-2" />
+                      Save
+                    </Button>
+                    <Button variant="outline" onClick={handleExportReconciliation} disabled={working}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Export PDF
+                    </Button>
+                  </>
+                )}
+              </div>
+
+              {reconciliation && (
+                <div className="space-y-4">
+                  <Badge className={reconciliation.balanced ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+                    {reconciliation.balanced ? 'Reconciled' : 'Not reconciled'}
+                  </Badge>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="rounded-lg border p-4">
+                      <p className="text-sm text-gray-600">Adjusted Bank Balance</p>
+                      <p className="text-2xl font-bold">{formatCurrency(reconciliation.bank.adjustedBalance)}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatCurrency(reconciliation.bank.statementBalance)} statement
+                        {' '}+ {reconciliation.bank.depositsInTransit.length} in transit
+                        {' '}− {reconciliation.bank.outstandingDisbursements.length} outstanding
+                      </p>
+                    </div>
+                    <div className="rounded-lg border p-4">
+                      <p className="text-sm text-gray-600">Book Balance</p>
+                      <p className="text-2xl font-bold">{formatCurrency(reconciliation.book.closingBalance)}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatCurrency(reconciliation.book.deposits)} in, {formatCurrency(reconciliation.book.disbursements)} out this month
+                      </p>
+                    </div>
+                    <div className="rounded-lg border p-4">
+                      <p className="text-sm text-gray-600">Client Ledger Total</p>
+                      <p className="text-2xl font-bold">{formatCurrency(reconciliation.clientLedgerTotal)}</p>
+                      <p className="text-xs text-gray-500">{reconciliation.clientLedgers.length} client ledgers</p>
+                    </div>
+                  </div>
+                  {reconciliation.exceptions.length > 0 && (
+                    <ul className="list-disc pl-5 text-sm text-red-700">
+                      {reconciliation.exceptions.map(exception => <li key={exception}>{exception}</li>)}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {accounts.length === 0 && (
+        <Card>
+          <CardContent className="p-8 text-center text-gray-600">
+            <Plus className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+            Add a trust account to start recording client funds
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
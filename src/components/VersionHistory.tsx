@@ -0,0 +1,306 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Flag, History, RotateCcw, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  MILESTONE_SUGGESTIONS,
+  addMilestone,
+  compareVersions,
+  listVersions,
+  removeMilestone,
+  type DocumentVersion,
+  type VersionSubject,
+} from '@/lib/versionHistory';
+import type { DiffSegment } from '@/lib/documentDiff';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+interface VersionHistoryProps {
+  subject: VersionSubject;
+  title: string;
+  // Saves the version's content again as the newest version
+  onRestore: (version: DocumentVersion) => Promise<void>;
+  onClose: () => void;
+}
+
+const SEGMENT_STYLES: Record<DiffSegment['type'], string> = {
+  equal: '',
+  delete: 'bg-red-100 text-red-800 line-through',
+  insert: 'bg-green-100 text-green-800',
+};
+
+const DiffLine = ({ segments }: { segments: DiffSegment[] | null }) =>
+  segments ? (
+    <>
+      {segments.map((segment, index) => (
+        <span key={index} className={SEGMENT_STYLES[segment.type]}>
+          {segment.text}
+        </span>
+      ))}
+    </>
+  ) : null;
+
+export default function VersionHistory({ subject, title, onRestore, onClose }: VersionHistoryProps) {
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [milestone, setMilestone] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { type: subjectType, id: subjectId } = subject;
+
+  const fetchVersions = useCallback(async () => {
+    if (!user) return;
+    try {
+      const loaded = await listVersions(user.id, { type: subjectType, id: subjectId });
+      setVersions(loaded);
+      // Newest against the one before it, unless a selection is still there
+      setSelectedId(current => (loaded.some(version => version.id === current) ? current : loaded[0]?.id ?? null));
+      setBaseId(current => (loaded.some(version => version.id === current) ? current : loaded[1]?.id ?? null));
+      setError('');
+    } catch (err) {
+      console.error('Error loading version history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load version history');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, subjectType, subjectId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const selected = versions.find(version => version.id === selectedId) ?? null;
+  const base = versions.find(version => version.id === baseId && version.id !== selectedId) ?? null;
+  const [diff, setDiff] = useState<Awaited<ReturnType<typeof compareVersions>> | null>(null);
+
+  useEffect(() => {
+    setDiff(null);
+    if (!selected || !base) return;
+
+    // Compared on a worker; a newer selection replaces a comparison still in progress
+    let cancelled = false;
+    compareVersions(base, selected)
+      .then((compared) => {
+        if (!cancelled) setDiff(compared);
+      })
+      .catch((err) => {
+        console.error('Error comparing versions:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to compare versions');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selected?.id, base?.id]);
+  const newest = versions[0];
+
+  const selectVersion = (version: DocumentVersion) => {
+    setSelectedId(version.id);
+    // Default to comparing against the version before it
+    const previous = versions.find(candidate => candidate.version_number < version.version_number);
+    setBaseId(previous?.id ?? null);
+  };
+
+  const restore = async () => {
+    if (!selected) return;
+    setBusy(true);
+    try {
+      await onRestore(selected);
+      toast({ title: 'Version restored', description: `Version ${selected.version_number} is now the current version.` });
+      setSelectedId(null);
+      setBaseId(null);
+      await fetchVersions();
+    } catch (err) {
+      console.error('Error restoring version:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const markMilestone = async () => {
+    if (!user || !selected) return;
+    setBusy(true);
+    try {
+      await addMilestone(user.id, selected.id, milestone);
+      setMilestone('');
+      await fetchVersions();
+    } catch (err) {
+      console.error('Error adding milestone:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add milestone');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const unmarkMilestone = async (milestoneId: string) => {
+    setBusy(true);
+    try {
+      await removeMilestone(milestoneId);
+      await fetchVersions();
+    } catch (err) {
+      console.error('Error removing milestone:', err);
+      setError(err instanceof Error ? err.message : 'Failed to remove milestone');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && !busy && onClose()}>
+      <DialogContent className="max-w-6xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History
+          </DialogTitle>
+          <DialogDescription className="truncate">{title}</DialogDescription>
+        </DialogHeader>
+
+        {error && <div className="text-red-600 text-sm">{error}</div>}
+        {loading && <div className="text-sm text-gray-500">Loading versions...</div>}
+        {!loading && versions.length === 0 && !error && (
+          <div className="text-sm text-gray-500">No versions yet. Each save records one.</div>
+        )}
+
+        {versions.length > 0 && (
+          <div className="flex-1 flex gap-4 min-h-0">
+            <ScrollArea className="w-72 border rounded-md">
+              <div className="divide-y">
+                {versions.map((version) => (
+                  <div key={version.id} className={`p-3 ${version.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}>
+                    <button onClick={() => selectVersion(version)} className="w-full text-left">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-sm">Version {version.version_number}</span>
+                        {version.id === newest.id && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                      </div>
+                      <div className="text-xs text-gray-500">{new Date(version.created_at).toLocaleString()}</div>
+                      <div className="text-xs text-gray-500">{version.author_name || 'Unknown author'}</div>
+                      {version.restored_from && (
+                        <div className="text-xs text-gray-500 italic">Restored from version {version.restored_from}</div>
+                      )}
+                    </button>
+                    {version.milestones.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {version.milestones.map((mark) => (
+                          <Badge key={mark.id} variant="outline" className="text-xs border-amber-300 text-amber-800">
+                            <Flag className="h-3 w-3 mr-1" />
+                            {mark.name}
+                            <button
+                              aria-label={`Remove milestone ${mark.name}`}
+                              onClick={() => unmarkMilestone(mark.id)}
+                              disabled={busy}
+                              className="ml-1 hover:text-red-600"
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <div className="flex-1 flex flex-col min-w-0 gap-3">
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Compare with</Label>
+                    <Select value={base?.id ?? 'none'} onValueChange={(value) => setBaseId(value === 'none' ? null : value)}>
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Nothing (view only)</SelectItem>
+                        {versions
+                          .filter(version => version.id !== selected.id)
+                          .map(version => (
+                            <SelectItem key={version.id} value={version.id}>
+                              Version {version.version_number}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="version-milestone" className="text-xs">Milestone</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="version-milestone"
+                        list="version-milestone-suggestions"
+                        placeholder="As filed"
+                        value={milestone}
+                        onChange={(e) => setMilestone(e.target.value)}
+                        className="w-44"
+                      />
+                      <datalist id="version-milestone-suggestions">
+                        {MILESTONE_SUGGESTIONS.map(name => (
+                          <option key={name} value={name} />
+                        ))}
+                      </datalist>
+                      <Button variant="outline" onClick={markMilestone} disabled={busy || !milestone.trim()}>
+                        <Flag className="h-4 w-4 mr-2" />
+                        Mark
+                      </Button>
+                    </div>
+                  </div>
+                  <Button
+                    className="ml-auto"
+                    variant="outline"
+                    onClick={restore}
+                    disabled={busy || selected.id === newest.id}
+                    title="Save this version again as the current version"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore Version {selected.version_number}
+                  </Button>
+                </div>
+
+                {diff ? (
+                  <>
+                    <div className="grid grid-cols-2 gap-2 text-xs font-medium text-gray-600">
+                      <div>Version {diff.older.version_number} · {new Date(diff.older.created_at).toLocaleString()}</div>
+                      <div>
+                        Version {diff.newer.version_number} · {new Date(diff.newer.created_at).toLocaleString()} ·{' '}
+                        {diff.comparison.changes.length} {diff.comparison.changes.length === 1 ? 'change' : 'changes'}
+                      </div>
+                    </div>
+                    <ScrollArea className="flex-1 border rounded-md">
+                      <div className="font-mono text-xs">
+                        {diff.rows.map((row, index) => (
+                          <div key={index} className={`grid grid-cols-2 ${row.changed ? 'bg-yellow-50' : ''}`}>
+                            <div className={`px-2 py-0.5 whitespace-pre-wrap border-r ${row.left ? '' : 'bg-gray-100'}`}>
+                              <DiffLine segments={row.left} />
+                            </div>
+                            <div className={`px-2 py-0.5 whitespace-pre-wrap ${row.right ? '' : 'bg-gray-100'}`}>
+                              <DiffLine segments={row.right} />
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                  </>
+                ) : (
+                  <ScrollArea className="flex-1 border rounded-md">
+                    <pre className="p-3 whitespace-pre-wrap font-mono text-xs">{selected.content || 'This version is empty.'}</pre>
+                  </ScrollArea>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
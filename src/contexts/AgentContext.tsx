@@ -1,13 +1,14 @@
 import React, { createContext, useContext, useState, useCallback } from 'react';
 import { docketChiefAgent } from '@/lib/agentService';
-import { AgentMemory } from '@/lib/agentMemory';
+import { memoryStore } from '@/lib/memoryStore';
 import { bulkDataService, BulkDataSource } from '@/lib/courtListenerBulkData';
+import { useUserMemory } from '@/hooks/use-user-memory';
+import type { MemorySettings, UserMemory } from '@/types/assistant';
 
 interface AgentContextType {
-  memory: AgentMemory;
-  refreshMemory: () => void;
+  memory: UserMemory;
   resetMemory: () => void;
-  updateConsents: (consents: { remember_preferences?: boolean; store_emails?: boolean }) => void;
+  updateSettings: (settings: Partial<MemorySettings>) => void;
   agentEnabled: boolean;
   setAgentEnabled: (enabled: boolean) => void;
   generateMotionGuidance: (motionType: string, jurisdiction?: string) => string;
@@ -25,22 +26,16 @@ export const useAgent = () => {
 };
 
 export const AgentProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [memory, setMemory] = useState<AgentMemory>(docketChiefAgent.getMemory());
+  const { memory } = useUserMemory();
   const [agentEnabled, setAgentEnabled] = useState(true);
 
-  const refreshMemory = useCallback(() => {
-    setMemory(docketChiefAgent.getMemory());
-  }, []);
-
   const resetMemory = useCallback(() => {
-    docketChiefAgent.resetMemory();
-    refreshMemory();
-  }, [refreshMemory]);
+    memoryStore.reset();
+  }, []);
 
-  const updateConsents = useCallback((consents: { remember_preferences?: boolean; store_emails?: boolean }) => {
-    docketChiefAgent.updateConsents(consents);
-    refreshMemory();
-  }, [refreshMemory]);
+  const updateSettings = useCallback((settings: Partial<MemorySettings>) => {
+    memoryStore.updateSettings(settings);
+  }, []);
 
   const generateMotionGuidance = useCallback((motionType: string, jurisdiction?: string) => {
     return docketChiefAgent.generateMotionGuidance(motionType, jurisdiction);
@@ -54,9 +49,8 @@ export const AgentProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     <AgentContext.Provider
       value={{
         memory,
-        refreshMemory,
         resetMemory,
-        updateConsents,
+        updateSettings,
         agentEnabled,
         setAgentEnabled,
         generateMotionGuidance,
@@ -4,18 +4,19 @@
  * Provides assistant memory and state management throughout the app
  */
 
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { AssistantMemory, LearningsCandidate, AssistantMessage } from '@/types/assistant';
-import { assistantMemoryService } from '@/lib/assistantMemoryService';
-import { useAuth } from './AuthContext';
+import React, { createContext, useContext, useState, useCallback } from 'react';
+import { LearningsCandidate, AssistantMessage, MemorySettings, UserMemory } from '@/types/assistant';
+import { formatMemoryForPrompt, memoryStore } from '@/lib/memoryStore';
+import { assistantSystemPrompt, renderPrompt } from '@/lib/prompts';
+import { useUserMemory } from '@/hooks/use-user-memory';
 
 interface AssistantContextType {
-  memory: AssistantMemory;
+  memory: UserMemory;
   messages: AssistantMessage[];
   isAssistantOpen: boolean;
   
   // Memory operations
-  updateMemory: (updates: Partial<AssistantMemory>) => void;
+  updateSettings: (settings: Partial<MemorySettings>) => void;
   applyLearnings: (learnings: LearningsCandidate) => void;
   clearMemory: () => void;
   exportMemory: () => string;
@@ -43,50 +44,40 @@ export const useAssistant = () => {
   return context;
 };
 
+/**
+ * System prompt for the Smart Assistant with the user's memory
+ */
+const getSystemPromptWithMemory = (memory: UserMemory): string => {
+  const { tone, confirmationThreshold } = memory.settings;
+
+  return renderPrompt(assistantSystemPrompt, {
+    memory: formatMemoryForPrompt(memory),
+    tone,
+    confirmationThreshold,
+  }).text;
+};
+
 export const AssistantProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { user } = useAuth();
-  const userId = user?.id || 'anonymous';
-  
-  const [memory, setMemory] = useState<AssistantMemory>(() => 
-    assistantMemoryService.loadMemory(userId)
-  );
+  const { memory } = useUserMemory();
   const [messages, setMessages] = useState<AssistantMessage[]>([]);
   const [isAssistantOpen, setIsAssistantOpen] = useState(false);
 
-  // Load memory when user changes
-  useEffect(() => {
-    const loadedMemory = assistantMemoryService.loadMemory(userId);
-    setMemory(loadedMemory);
-  }, [userId]);
-
-  // Save memory whenever it changes
-  useEffect(() => {
-    if (memory.preferences.storeInteractions) {
-      assistantMemoryService.saveMemory(memory);
-    }
-  }, [memory]);
-
-  const updateMemory = useCallback((updates: Partial<AssistantMemory>) => {
-    setMemory(prev => ({
-      ...prev,
-      ...updates,
-      lastUpdated: new Date().toISOString(),
-    }));
+  const updateSettings = useCallback((settings: Partial<MemorySettings>) => {
+    memoryStore.updateSettings(settings);
   }, []);
 
   const applyLearnings = useCallback((learnings: LearningsCandidate) => {
-    setMemory(prev => assistantMemoryService.applyLearnings(prev, learnings));
+    memoryStore.applyLearnings(learnings);
   }, []);
 
   const clearMemory = useCallback(() => {
-    assistantMemoryService.clearMemory(userId);
-    setMemory(assistantMemoryService.loadMemory(userId));
+    memoryStore.reset();
     setMessages([]);
-  }, [userId]);
+  }, []);
 
   const exportMemory = useCallback(() => {
-    return assistantMemoryService.exportMemory(userId);
-  }, [userId]);
+    return memoryStore.exportMemory();
+  }, []);
 
   const addMessage = useCallback((message: AssistantMessage) => {
     setMessages(prev => [...prev, message]);
@@ -109,14 +100,14 @@ export const AssistantProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   }, []);
 
   const getSystemPrompt = useCallback(() => {
-    return assistantMemoryService.getSystemPromptWithMemory(memory);
+    return getSystemPromptWithMemory(memory);
   }, [memory]);
 
   const contextValue: AssistantContextType = {
     memory,
     messages,
     isAssistantOpen,
-    updateMemory,
+    updateSettings,
     applyLearnings,
     clearMemory,
     exportMemory,
@@ -1,4 +1,6 @@
 import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { saveVersion, versionAuthor, type DocumentVersion, type VersionSnapshot } from '@/lib/versionHistory';
 
 export interface TemplateRecord {
   id: string;
@@ -15,7 +17,8 @@ export interface TemplateRecord {
 
 interface TemplateContextValue {
   templates: TemplateRecord[];
-  upsertTemplate: (template: TemplateRecord) => void;
+  // Rejects if the template was saved but its version could not be recorded
+  upsertTemplate: (template: TemplateRecord, options?: { restoredFrom?: number }) => Promise<void>;
   toggleFavorite: (id: string) => void;
   resetTemplates: () => void;
 }
@@ -97,13 +100,15 @@ const loadFromStorage = (): TemplateRecord[] | null => {
 
 export const TemplateProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [templates, setTemplates] = useState<TemplateRecord[]>(() => loadFromStorage() ?? DEFAULT_TEMPLATES);
+  const { user } = useAuth();
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
     window.localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
   }, [templates]);
 
-  const upsertTemplate = (template: TemplateRecord) => {
+  // Every save of a template is also recorded in its version history
+  const upsertTemplate = async (template: TemplateRecord, options: { restoredFrom?: number } = {}) => {
     setTemplates((prev) => {
       const exists = prev.some((item) => item.id === template.id);
       const next = exists
@@ -111,6 +116,9 @@ export const TemplateProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         : [...prev, template];
       return next;
     });
+    if (user) {
+      await saveVersion({ type: 'template', id: template.id }, versionAuthor(user), templateSnapshot(template), options);
+    }
   };
 
   const toggleFavorite = (id: string) => {
@@ -128,7 +136,7 @@ export const TemplateProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       toggleFavorite,
       resetTemplates,
     }),
-    [templates],
+    [templates, user],
   );
 
   return <TemplateContext.Provider value={value}>{children}</TemplateContext.Provider>;
@@ -167,3 +175,30 @@ export const createEmptyTemplate = (): TemplateRecord => ({
   lastModified: new Date().toISOString().split('T')[0],
 });
 
+/**
+ * What a template's version history records of it
+ */
+export const templateSnapshot = (template: TemplateRecord): VersionSnapshot => ({
+  title: template.title,
+  content: template.content,
+  metadata: {
+    category: template.category,
+    description: template.description,
+    jurisdiction: template.jurisdiction,
+    tags: template.tags,
+  },
+});
+
+/**
+ * The template as it was at a version; favorites and custom status are not versioned
+ */
+export const templateFromVersion = (template: TemplateRecord, version: DocumentVersion): TemplateRecord => ({
+  ...template,
+  title: version.title,
+  content: version.content,
+  category: String(version.metadata.category ?? template.category),
+  description: String(version.metadata.description ?? template.description),
+  jurisdiction: String(version.metadata.jurisdiction ?? template.jurisdiction),
+  tags: Array.isArray(version.metadata.tags) ? version.metadata.tags.map(String) : template.tags,
+  lastModified: new Date().toISOString().split('T')[0],
+});
@@ -0,0 +1,54 @@
+import * as React from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { useUserMemory } from "@/hooks/use-user-memory"
+import { activeItems } from "@/lib/memoryStore"
+import { configureRedaction } from "@/lib/redaction"
+import { supabase } from "@/lib/supabase"
+
+/**
+ * Keep the AI redaction terms in step with the signed-in user's clients and the terms
+ * their memory says never to remember
+ */
+export function useAIRedaction() {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const { memory } = useUserMemory();
+
+  React.useEffect(() => {
+    configureRedaction({ clientNames: [] });
+    if (!userId) return;
+
+    let cancelled = false;
+    const loadClientNames = () => {
+      supabase
+        .from('clients')
+        .select('name')
+        .eq('attorney_id', userId)
+        .then(({ data, error }) => {
+          if (error) {
+            console.warn('[Redaction] Failed to load client names:', error.message);
+            return;
+          }
+          if (!cancelled) configureRedaction({ clientNames: (data ?? []).map(client => client.name).filter(Boolean) });
+        });
+    };
+    loadClientNames();
+
+    // A client added or renamed mid-session must be redacted from the next request on
+    const clientsChannel = supabase
+      .channel(`redaction-clients:${userId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'clients', filter: `attorney_id=eq.${userId}` }, () => {
+        loadClientNames();
+      })
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(clientsChannel);
+    };
+  }, [userId]);
+
+  React.useEffect(() => {
+    configureRedaction({ terms: activeItems(memory, 'redaction').map(item => item.value.pattern) });
+  }, [memory]);
+}
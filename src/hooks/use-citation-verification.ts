@@ -0,0 +1,37 @@
+import * as React from "react"
+import { verifyCitations, type CitationVerification } from "@/lib/citationVerification"
+
+/**
+ * Verify the case citations in a piece of AI-generated text whenever it changes.
+ * Pass enabled = false while the text is still being produced.
+ */
+export function useCitationVerification(text: string, enabled = true) {
+  const [verifications, setVerifications] = React.useState<CitationVerification[]>([]);
+  const [isVerifying, setIsVerifying] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!enabled || !text) {
+      setVerifications([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsVerifying(true);
+    verifyCitations(text)
+      .then((results) => {
+        if (!cancelled) setVerifications(results);
+      })
+      .catch((error) => {
+        console.error('Citation verification error:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsVerifying(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [text, enabled]);
+
+  return { verifications, isVerifying };
+}
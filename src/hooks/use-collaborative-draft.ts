@@ -0,0 +1,149 @@
+import * as React from "react"
+import * as Y from "yjs"
+import { useAuth } from "@/contexts/AuthContext"
+import {
+  DraftSyncProvider,
+  absoluteCursor,
+  applyTextChange,
+  canEditRole,
+  createRealtimeTransport,
+  cursorPosition,
+  draftText,
+  fromBase64,
+  loadCollaborationRole,
+  presenceColor,
+  presentCollaborators,
+  readDraftFields,
+  remoteCursors,
+  seedDraftState,
+  setDraftField,
+  toBase64,
+  type Collaborator,
+  type CollaborationRole,
+  type ConnectionStatus,
+  type DraftFieldValues,
+  type PresenceState,
+  type RemoteCursor,
+} from "@/lib/collaborativeDraft"
+import type { Draft } from "@/lib/draftService"
+
+/**
+ * Live editing of a draft shared with a collaboration. While the draft is shared, `fields`
+ * holds the merged text and case fields and edits go through setContent/setField; for a
+ * draft that isn't shared it stays null and the editor keeps its own state.
+ */
+export function useCollaborativeDraft(draft: Draft | null) {
+  const { user } = useAuth();
+  const [role, setRole] = React.useState<CollaborationRole | null>(null);
+  const [fields, setFields] = React.useState<DraftFieldValues | null>(null);
+  const [status, setStatus] = React.useState<ConnectionStatus>('disconnected');
+  const [collaborators, setCollaborators] = React.useState<Collaborator[]>([]);
+  const [cursors, setCursors] = React.useState<RemoteCursor[]>([]);
+  const providerRef = React.useRef<DraftSyncProvider | null>(null);
+  // The draft as loaded; saves replace the row but must not reconnect
+  const draftRef = React.useRef(draft);
+  draftRef.current = draft;
+
+  const sharedId = draft?.collaboration_id ? draft.id : null;
+  const ownerId = draft?.user_id;
+  const collaborationId = draft?.collaboration_id;
+
+  React.useEffect(() => {
+    if (!user || !sharedId) {
+      setRole(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadCollaborationRole(user.id, { user_id: ownerId, collaboration_id: collaborationId })
+      .then((loaded) => {
+        if (!cancelled) setRole(loaded);
+      })
+      .catch((loadError) => {
+        console.error('Collaboration role load error:', loadError);
+        if (!cancelled) setRole(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user, sharedId, ownerId, collaborationId]);
+
+  React.useEffect(() => {
+    const opened = draftRef.current;
+    if (!user || !sharedId || !role || !opened) return;
+
+    const doc = new Y.Doc();
+    Y.applyUpdate(
+      doc,
+      opened.crdt_state
+        ? fromBase64(opened.crdt_state)
+        : seedDraftState({ content: opened.content, caseTitle: opened.case_title, caseNumber: opened.case_number })
+    );
+    const provider = new DraftSyncProvider(doc, createRealtimeTransport(sharedId), { canEdit: canEditRole(role), onStatus: setStatus });
+    const presence: PresenceState = {
+      user: { id: user.id, name: user.full_name || user.email || 'Anonymous', color: presenceColor(user.id) },
+      role,
+      cursor: null,
+    };
+    provider.awareness.setLocalState(presence);
+
+    const refreshPresence = () => {
+      setCollaborators(presentCollaborators(provider.awareness, doc));
+      setCursors(remoteCursors(provider.awareness, doc));
+    };
+    const refreshFields = () => {
+      setFields(readDraftFields(doc));
+      // Cursors are anchored to the text, so they move with it
+      setCursors(remoteCursors(provider.awareness, doc));
+    };
+    doc.on('update', refreshFields);
+    provider.awareness.on('change', refreshPresence);
+    providerRef.current = provider;
+    refreshFields();
+
+    return () => {
+      providerRef.current = null;
+      doc.off('update', refreshFields);
+      provider.awareness.off('change', refreshPresence);
+      provider.destroy();
+      doc.destroy();
+      setFields(null);
+      setCollaborators([]);
+      setCursors([]);
+      setStatus('disconnected');
+    };
+  }, [user, sharedId, role]);
+
+  const canEdit = canEditRole(role);
+
+  const setContent = React.useCallback((next: string) => {
+    const provider = providerRef.current;
+    if (provider && canEdit) applyTextChange(draftText(provider.doc), next);
+  }, [canEdit]);
+
+  const setField = React.useCallback((field: 'caseTitle' | 'caseNumber', value: string) => {
+    const provider = providerRef.current;
+    if (provider && canEdit) setDraftField(provider.doc, field, value);
+  }, [canEdit]);
+
+  /** Share the local selection, as offsets into the content */
+  const setCursor = React.useCallback((anchor: number, head: number) => {
+    const provider = providerRef.current;
+    if (provider) provider.awareness.setLocalStateField('cursor', cursorPosition(provider.doc, anchor, head));
+  }, []);
+
+  /** The local selection after others' edits have moved the text around it */
+  const localCursor = React.useCallback(() => {
+    const provider = providerRef.current;
+    if (!provider) return null;
+    return absoluteCursor((provider.awareness.getLocalState() as PresenceState | null)?.cursor ?? null, provider.doc);
+  }, []);
+
+  /** The merged document, to store with a save */
+  const encodeState = React.useCallback(() => {
+    const provider = providerRef.current;
+    return provider ? toBase64(Y.encodeStateAsUpdate(provider.doc)) : undefined;
+  }, []);
+
+  return { role, canEdit: sharedId ? canEdit : true, fields, status, collaborators, cursors, setContent, setField, setCursor, localCursor, encodeState };
+}
@@ -0,0 +1,51 @@
+import * as React from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import {
+  dateRangeStart,
+  listTimeEntries,
+  summarizeTimeEntries,
+  type TimeEntry,
+} from "@/lib/timeEntryService"
+
+/**
+ * Load the signed-in user's time entries for an analytics date range ('7d', '30d', '90d')
+ * along with their summary. Call reload() after recording time.
+ */
+export function useTimeEntries(dateRange: string) {
+  const { user } = useAuth();
+  const [entries, setEntries] = React.useState<TimeEntry[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [version, setVersion] = React.useState(0);
+
+  React.useEffect(() => {
+    if (!user) {
+      setEntries([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    listTimeEntries(user.id, { from: dateRangeStart(dateRange) })
+      .then((results) => {
+        if (!cancelled) setEntries(results);
+      })
+      .catch((loadError) => {
+        console.error('Time entry load error:', loadError);
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Failed to load time entries');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, dateRange, version]);
+
+  const summary = React.useMemo(() => summarizeTimeEntries(entries), [entries]);
+  const reload = React.useCallback(() => setVersion((current) => current + 1), []);
+
+  return { entries, summary, isLoading, error, reload };
+}
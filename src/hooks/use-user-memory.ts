@@ -0,0 +1,18 @@
+import * as React from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { memoryStore } from "@/lib/memoryStore"
+
+/**
+ * The signed-in user's AI memory and its sync state, kept current as the agent, the
+ * assistant or another device changes it
+ */
+export function useUserMemory() {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  React.useEffect(() => {
+    memoryStore.load(userId);
+  }, [userId]);
+
+  return React.useSyncExternalStore(memoryStore.subscribe, memoryStore.getSnapshot);
+}
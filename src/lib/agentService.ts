@@ -1,167 +1,132 @@
 // Agent Service - Memory-aware AI assistant for DocketChief
 // Implements learning capabilities and preference adaptation
 
-import { AIService, ChatMessage } from './aiService';
-import { agentMemoryService, LearningsCandidate } from './agentMemory';
+import { AIService, AIProvider, ChatMessage } from './aiService';
+import {
+  extractLearnings,
+  formatMemoryForPrompt,
+  LEARNINGS_MARKER,
+  memoryStore,
+  stripLearnings,
+} from './memoryStore';
+import type { LearningsCandidate } from '@/types/assistant';
 import { bulkDataService } from './courtListenerBulkData';
-
-const AGENT_SYSTEM_PROMPT = `You are an intelligent in-app agent for DocketChief, a legal research platform.
-
-MISSION
-- Help the user complete tasks quickly, with minimal chatter.
-- Learn preferences from interactions (implicit + explicit) and apply them next time.
-
-HOW TO LEARN (MEMORY RULES)
-- Treat user corrections, repeated choices, renamed defaults, and error fixes as preferences.
-- Never assume—when confidence < 0.7, ASK a 1-line confirmation.
-- Only store durable facts likely to be useful for ≥30 days.
-- Never store sensitive data without explicit user opt-in.
-
-MEMORY INTERFACE
-- You receive a JSON object called MEMORY on every request.
-- Use MEMORY to adapt defaults, tone, and steps.
-- Propose automations only if they reduce steps for the user.
-
-ON EACH TURN
-1) Read MEMORY and silently adapt (don't restate it unless the user asks).
-2) Answer the user's request.
-3) Emit a one-paragraph "LEARNINGS_CANDIDATE" JSON at the end of your reply with:
-   - observed_preferences
-   - corrections
-   - repeated_tasks
-   - failures_and_fixes
-   - suggestions_to_lock_in
-   - redact_notes
-   This block is for the server only and will not be shown to the user.
-
-SAFETY & PRIVACY
-- If the user says "don't remember this," exclude it and emit redact_notes.
-- Do not store credentials, secrets, health data, or precise addresses without opt-in.
-
-CAPABILITIES
-You can help with:
-- Legal research & case law analysis
-- Document review & drafting
-- Motion & brief assistance
-- Citation formatting
-- Procedural guidance
-- Task automation based on learned patterns
-
-Always provide accurate, professional legal research assistance while respecting attorney-client privilege principles.`;
+import { retrieveForConversation, withRetrievedPassages, type RetrievedPassage } from './documentRetrieval';
+import { agentSystemPrompt, renderPrompt } from './prompts';
 
 export interface AgentResponse {
   response: string;
   provider: string;
-  error?: 'RATE_LIMITED' | 'SERVICE_UNAVAILABLE' | 'UNKNOWN_ERROR';
+  error?: 'RATE_LIMITED' | 'SERVICE_UNAVAILABLE' | 'QUOTA_EXCEEDED' | 'UNKNOWN_ERROR';
   learnings?: LearningsCandidate;
+  // Document passages the reply was grounded in, cited as [S1], [S2], ...
+  sources?: RetrievedPassage[];
+}
+
+export interface AgentTurnOptions {
+  // Scope document retrieval to one case
+  caseId?: string | null;
 }
 
 export class DocketChiefAgent {
   /**
-   * Send a message to the agent with memory context and bulk data access
+   * Send a message to the agent with memory context, bulk data access and matching document passages
    */
   async sendMessage(
     conversationHistory: ChatMessage[],
-    provider: 'openai' | 'gemini',
-    userIdentifier: string
+    provider: AIProvider,
+    userIdentifier: string,
+    options: AgentTurnOptions = {}
   ): Promise<AgentResponse> {
-    // Get current memory state
-    const memory = agentMemoryService.getMemory();
-    const memoryContext = agentMemoryService.formatMemoryForPrompt();
-
-    // Get bulk data context - this gives the agent knowledge of available legal databases
-    const bulkDataContext = bulkDataService.formatForAgentPrompt();
-
-    // Build system message with memory context and bulk data knowledge
-    const systemMessage: ChatMessage = {
-      role: 'system',
-      content: `${AGENT_SYSTEM_PROMPT}\n\n${memoryContext}\n\n${bulkDataContext}\n\nUser: ${userIdentifier}`
-    };
-
-    // Prepare messages array with system prompt
-    const messagesWithContext: ChatMessage[] = [
-      systemMessage,
-      ...conversationHistory
-    ];
+    const sources = await retrieveForConversation(conversationHistory, { caseId: options.caseId });
 
     // Call AI service
     const aiResponse = await AIService.sendMessage(
-      messagesWithContext,
+      withRetrievedPassages(this.withContext(conversationHistory, userIdentifier), sources),
       provider,
-      userIdentifier
+      userIdentifier,
+      { feature: 'agent', caseId: options.caseId }
     );
 
-    // Extract learnings from response
-    const learnings = this.extractLearnings(aiResponse.response);
-    
-    // Update memory if learnings found
-    if (learnings) {
-      agentMemoryService.updateFromLearnings(learnings);
-    }
-
-    // Clean the response (remove LEARNINGS_CANDIDATE block)
-    const cleanedResponse = this.cleanResponse(aiResponse.response);
-
-    return {
-      response: cleanedResponse,
-      provider: aiResponse.provider,
-      error: aiResponse.error,
-      learnings
-    };
+    return { ...this.finishTurn(aiResponse), sources };
   }
 
   /**
-   * Extract LEARNINGS_CANDIDATE JSON from AI response
+   * Stream a reply through onDelta as it is generated, holding back the LEARNINGS_CANDIDATE block
    */
-  private extractLearnings(response: string): LearningsCandidate | null {
-    try {
-      // Look for LEARNINGS_CANDIDATE JSON block
-      const learningsMatch = response.match(/LEARNINGS_CANDIDATE[:\s]*(\{[\s\S]*?\})\s*$/);
-      
-      if (learningsMatch && learningsMatch[1]) {
-        const parsed = JSON.parse(learningsMatch[1]);
-        return {
-          observed_preferences: parsed.observed_preferences || [],
-          corrections: parsed.corrections || [],
-          repeated_tasks: parsed.repeated_tasks || [],
-          failures_and_fixes: parsed.failures_and_fixes || [],
-          suggestions_to_lock_in: parsed.suggestions_to_lock_in || [],
-          redact_notes: parsed.redact_notes || []
-        };
-      }
-    } catch (error) {
-      console.warn('[Agent] Failed to extract learnings:', error);
+  async streamMessage(
+    conversationHistory: ChatMessage[],
+    provider: AIProvider,
+    userIdentifier: string,
+    onDelta: (content: string) => void,
+    signal?: AbortSignal,
+    options: AgentTurnOptions = {}
+  ): Promise<AgentResponse> {
+    let raw = '';
+    let shown = 0;
+
+    const sources = await retrieveForConversation(conversationHistory, { caseId: options.caseId, signal });
+
+    const aiResponse = await AIService.streamMessage(
+      withRetrievedPassages(this.withContext(conversationHistory, userIdentifier), sources),
+      provider,
+      userIdentifier,
+      (content) => {
+        raw += content;
+        // Keep back enough text that a marker split across chunks is never shown
+        const marker = raw.indexOf(LEARNINGS_MARKER);
+        const visibleEnd = marker >= 0 ? marker : Math.max(shown, raw.length - LEARNINGS_MARKER.length);
+        if (visibleEnd > shown) {
+          onDelta(raw.slice(shown, visibleEnd));
+          shown = visibleEnd;
+        }
+      },
+      signal,
+      { feature: 'agent', caseId: options.caseId }
+    );
+
+    // A stopped reply has no learnings block to read
+    if (signal?.aborted) {
+      return { ...aiResponse, response: stripLearnings(aiResponse.response), sources };
     }
-    return null;
+    return { ...this.finishTurn(aiResponse), sources };
   }
 
   /**
-   * Remove LEARNINGS_CANDIDATE block from response for display to user
+   * Prepend the system prompt with memory and bulk data context
    */
-  private cleanResponse(response: string): string {
-    // Remove LEARNINGS_CANDIDATE JSON block
-    return response.replace(/\n*LEARNINGS_CANDIDATE[:\s]*\{[\s\S]*?\}\s*$/g, '').trim();
-  }
+  private withContext(conversationHistory: ChatMessage[], userIdentifier: string): ChatMessage[] {
+    // Bulk data context gives the agent knowledge of the available legal databases
+    const systemMessage: ChatMessage = {
+      role: 'system',
+      content: renderPrompt(agentSystemPrompt, {
+        memory: formatMemoryForPrompt(memoryStore.getMemory()),
+        bulkDataContext: bulkDataService.formatForAgentPrompt(),
+        userIdentifier,
+      }).text
+    };
 
-  /**
-   * Get current memory state
-   */
-  getMemory() {
-    return agentMemoryService.getMemory();
+    return [systemMessage, ...conversationHistory];
   }
 
   /**
-   * Reset agent memory
+   * Learn from a completed reply and strip the learnings block from it
    */
-  resetMemory() {
-    agentMemoryService.reset();
-  }
+  private finishTurn(aiResponse: { response: string; provider: string; error?: AgentResponse['error'] }): AgentResponse {
+    // Extract learnings from response
+    const learnings = extractLearnings(aiResponse.response);
 
-  /**
-   * Update consent preferences
-   */
-  updateConsents(consents: { remember_preferences?: boolean; store_emails?: boolean }) {
-    agentMemoryService.updateConsents(consents);
+    // Update memory if learnings found and the user lets them apply
+    if (learnings && memoryStore.getMemory().settings.autoApplyLearnings) {
+      memoryStore.applyLearnings(learnings);
+    }
+
+    return {
+      response: stripLearnings(aiResponse.response),
+      provider: aiResponse.provider,
+      error: aiResponse.error,
+      learnings
+    };
   }
 
   /**
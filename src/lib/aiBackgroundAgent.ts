@@ -1,11 +1,12 @@
-import { AIService, ChatMessage } from './aiService';
+import { AIService, AIProvider, ChatMessage } from './aiService';
 import { EmailService } from './emailService';
+import { alertReviewRequestPrompt, alertReviewSystemPrompt, renderPrompt } from './prompts';
 
 type AgentConfig = {
   alertReviewIntervalMs: number;
   failedAlertRetryIntervalMs: number;
   maxAlertsPerReview: number;
-  aiProvider: 'openai' | 'gemini';
+  aiProvider: AIProvider;
 };
 
 type StoredAlert = {
@@ -83,14 +84,17 @@ function shouldRetryReview(review?: StoredAlert['aiReview']): boolean {
 
 function buildReviewMessages(alert: StoredAlert): ChatMessage[] {
   return [
-    {
-      role: 'system',
-      content:
-        'You are an AI background agent helping engineers diagnose frontend errors. Provide a concise summary, probable root cause, and a suggested fix.'
-    },
+    { role: 'system', content: renderPrompt(alertReviewSystemPrompt, {}).text },
     {
       role: 'user',
-      content: `Analyze this alert and suggest next steps:\n\nTitle: ${alert.title}\nSeverity: ${alert.severity}\nMessage: ${alert.message}\nURL: ${alert.details?.url || 'unknown'}\nUser Agent: ${alert.details?.userAgent || 'unknown'}\nStack Trace: ${alert.details?.stackTrace || 'none'}`
+      content: renderPrompt(alertReviewRequestPrompt, {
+        title: alert.title,
+        severity: alert.severity,
+        message: alert.message,
+        url: alert.details?.url,
+        userAgent: alert.details?.userAgent,
+        stackTrace: alert.details?.stackTrace
+      }).text
     }
   ];
 }
@@ -122,7 +126,8 @@ async function reviewAlerts(config: AgentConfig) {
       const response = await AIService.sendMessage(
         buildReviewMessages(alert),
         config.aiProvider,
-        AGENT_USER_IDENTIFIER
+        AGENT_USER_IDENTIFIER,
+        { feature: 'background_agent' }
       );
 
       alert.aiReview = {
@@ -0,0 +1,155 @@
+/**
+ * Retry, failover and circuit breaking for AI provider calls
+ * AIService runs each request through a RetryPolicy and keeps one CircuitBreaker per provider.
+ */
+
+import type { AIProvider } from '@/lib/aiProviders'
+
+export interface RetryPolicy {
+  /** Attempts against one provider before failing over */
+  maxAttempts: number
+  /** First backoff delay; doubles on each retry */
+  baseDelayMs: number
+  maxDelayMs: number
+  /** A Retry-After longer than this fails over instead of waiting */
+  maxRetryAfterMs: number
+  /** Consecutive transient failures that open a provider's breaker */
+  failureThreshold: number
+  /** How long an open breaker rejects calls before letting one trial through */
+  cooldownMs: number
+  /** Providers to try, in order, once the requested one is exhausted */
+  failover: Partial<Record<AIProvider, AIProvider[]>>
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 10000,
+  failureThreshold: 3,
+  cooldownMs: 30000,
+  // The local backend never fails over: its callers may be sending privileged material
+  failover: {
+    openai: ['gemini', 'anthropic'],
+    gemini: ['openai', 'anthropic'],
+    anthropic: ['openai', 'gemini'],
+  },
+}
+
+/**
+ * A failed AI request, with what the edge function told us about it
+ */
+export class AIRequestError extends Error {
+  public status?: number
+  public retryAfterMs?: number
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message)
+    this.name = 'AIRequestError'
+    this.status = status
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+export type FailureKind = 'rate_limited' | 'timeout' | 'unavailable' | 'fatal'
+
+/**
+ * Transient failures are retried and count against the breaker; fatal ones (bad request,
+ * auth, bugs) would fail the same way anywhere, so they end the request at once.
+ */
+export function classifyFailure(err: unknown): FailureKind {
+  const status = err instanceof AIRequestError ? err.status : undefined
+  const message = (err instanceof Error ? err.message : String(err)).toLowerCase()
+
+  if (status === 429 || message.includes('rate limit') || message.includes('429')) return 'rate_limited'
+  if (status === 408 || status === 504 || message.includes('timeout') || message.includes('timed out')) return 'timeout'
+  if (status !== undefined && status >= 500) return 'unavailable'
+  return 'fatal'
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * Wait before the given retry (1 = first retry), preferring the server's Retry-After
+ */
+export function backoffDelay(retry: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return retryAfterMs
+  return Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1))
+}
+
+export type BreakerState = 'closed' | 'open' | 'half-open'
+
+export interface ProviderHealth {
+  provider: AIProvider
+  state: BreakerState
+  consecutiveFailures: number
+  lastFailure: FailureKind | null
+  lastChecked: Date | null
+  /** When an open breaker will let a trial request through */
+  retryAt: Date | null
+}
+
+/**
+ * Per-provider circuit breaker: closed until failureThreshold transient failures in a row,
+ * then open for cooldownMs, then half-open until one trial call succeeds or fails
+ */
+export class CircuitBreaker {
+  private failures = 0
+  private openedAt: number | null = null
+  private lastFailure: FailureKind | null = null
+  private lastChecked: Date | null = null
+
+  constructor(
+    public readonly provider: AIProvider,
+    private policy: () => RetryPolicy,
+    private now: () => number = Date.now
+  ) {}
+
+  get state(): BreakerState {
+    if (this.openedAt === null) return 'closed'
+    return this.now() - this.openedAt >= this.policy().cooldownMs ? 'half-open' : 'open'
+  }
+
+  canRequest(): boolean {
+    return this.state !== 'open'
+  }
+
+  recordSuccess() {
+    this.failures = 0
+    this.openedAt = null
+    this.lastFailure = null
+    this.lastChecked = new Date(this.now())
+  }
+
+  recordFailure(kind: FailureKind) {
+    this.lastChecked = new Date(this.now())
+    this.lastFailure = kind
+    if (kind === 'fatal') return
+
+    this.failures++
+    // A failed trial re-opens the breaker for another cooldown
+    if (this.state === 'half-open' || this.failures >= this.policy().failureThreshold) {
+      this.openedAt = this.now()
+    }
+  }
+
+  health(): ProviderHealth {
+    return {
+      provider: this.provider,
+      state: this.state,
+      consecutiveFailures: this.failures,
+      lastFailure: this.lastFailure,
+      lastChecked: this.lastChecked,
+      retryAt: this.openedAt === null ? null : new Date(this.openedAt + this.policy().cooldownMs),
+    }
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Client-side registry of the AI backends legal-ai-chat can route to
+ * Mirrors the adapters in supabase/functions/legal-ai-chat/providers.ts.
+ */
+
+export type AIProvider = 'openai' | 'gemini' | 'anthropic' | 'local'
+
+export interface AIProviderCapabilities {
+  /** Prompt plus completion budget, in tokens */
+  contextWindow: number
+  streaming: boolean
+  /** Can be asked to return a single JSON object */
+  jsonMode: boolean
+  /** Can be forced to call a tool, which is how schema-shaped output is requested without JSON mode */
+  toolCalling: boolean
+  /** Runs on our own infrastructure, so privileged documents may be sent to it */
+  selfHosted: boolean
+}
+
+export interface AIProviderInfo {
+  id: AIProvider
+  label: string
+  /** Model requested by default; the local backend uses whatever the server is configured to serve */
+  model?: string
+  capabilities: AIProviderCapabilities
+}
+
+export const AI_PROVIDERS: Record<AIProvider, AIProviderInfo> = {
+  openai: {
+    id: 'openai',
+    label: 'GPT-4',
+    model: 'gpt-4o',
+    capabilities: { contextWindow: 128000, streaming: true, jsonMode: true, toolCalling: true, selfHosted: false },
+  },
+  gemini: {
+    id: 'gemini',
+    label: 'Gemini Pro',
+    model: 'gemini-pro',
+    capabilities: { contextWindow: 32768, streaming: true, jsonMode: true, toolCalling: false, selfHosted: false },
+  },
+  anthropic: {
+    id: 'anthropic',
+    label: 'Claude',
+    model: 'claude-3-5-sonnet-latest',
+    capabilities: { contextWindow: 200000, streaming: true, jsonMode: false, toolCalling: true, selfHosted: false },
+  },
+  local: {
+    id: 'local',
+    label: 'Local Model',
+    capabilities: {
+      contextWindow: Number(import.meta.env.VITE_LOCAL_AI_CONTEXT_WINDOW) || 8192,
+      streaming: true,
+      jsonMode: true,
+      toolCalling: false,
+      selfHosted: true,
+    },
+  },
+}
+
+export function isAIProvider(value: unknown): value is AIProvider {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(AI_PROVIDERS, value)
+}
+
+/**
+ * Providers able to handle a request, in registry order
+ * Confidential work (privileged documents) is limited to self-hosted backends.
+ */
+export function providersFor(
+  requirements: { confidential?: boolean; jsonMode?: boolean; structuredOutput?: boolean; minContextWindow?: number } = {}
+): AIProviderInfo[] {
+  return Object.values(AI_PROVIDERS).filter(({ capabilities }) =>
+    (!requirements.confidential || capabilities.selfHosted) &&
+    (!requirements.jsonMode || capabilities.jsonMode) &&
+    (!requirements.structuredOutput || capabilities.jsonMode || capabilities.toolCalling) &&
+    capabilities.contextWindow >= (requirements.minContextWindow ?? 0)
+  )
+}
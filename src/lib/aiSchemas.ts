@@ -0,0 +1,233 @@
+/**
+ * Schemas for the structured output AI features ask for
+ * Replies are validated against these before a feature sees them (see structuredOutput.ts),
+ * and the inferred types are what the features work with.
+ */
+import { z } from 'zod';
+import type { LearningsCandidate } from '@/types/assistant';
+
+export interface AnalysisResult {
+  summary: string;
+  keyInformation: {
+    parties: string[];
+    dates: string[];
+    amounts: string[];
+    obligations: string[];
+  };
+  importantClauses: Array<{
+    title: string;
+    content: string;
+    importance: 'high' | 'medium' | 'low';
+    explanation: string;
+  }>;
+  riskAssessment: {
+    highRisk: string[];
+    mediumRisk: string[];
+    recommendations: string[];
+  };
+  suggestedEdits: Array<{
+    section: string;
+    current: string;
+    suggested: string;
+    reason: string;
+  }>;
+  legalCitations: string[];
+}
+
+export interface RedlineReview {
+  changes: Array<{
+    id: number;
+    classification: 'substantive' | 'cosmetic';
+    explanation: string;
+  }>;
+  summary: string;
+  // How the changes shift risk, in the Document Analyzer's shape
+  riskAssessment: AnalysisResult['riskAssessment'];
+}
+
+export interface PrivilegeDescription {
+  description: string;
+  documentType: string;
+}
+
+export interface RebuttalAnalysis {
+  weaknesses: string[];
+  counter_arguments: string[];
+  supporting_law: string[];
+  strategic_recommendations: string[];
+  evidence_suggestions: string[];
+}
+
+// Without strictNullChecks zod infers every field as optional, so each schema is typed by
+// the interface it produces instead
+const producing = <T>(schema: z.ZodTypeAny) => schema as z.ZodType<T, z.ZodTypeDef, unknown>;
+
+const text = (description: string) => z.string().describe(description);
+
+const textList = (description: string) => z.array(z.string()).default([]).describe(description);
+
+// Models write enum values in whatever case they like
+const lowercased = <T extends [string, ...string[]]>(values: T) =>
+  z.preprocess(value => (typeof value === 'string' ? value.trim().toLowerCase() : value), z.enum(values));
+
+// Learned values are stored as text, whatever type the model gave them
+const asText = z.preprocess(
+  value => (value == null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value)),
+  z.string()
+);
+
+const riskAssessmentSchema = z.object({
+  highRisk: textList('Serious risks to the client'),
+  mediumRisk: textList('Moderate risks to the client'),
+  recommendations: textList('Steps that reduce the risks'),
+});
+
+/**
+ * AI Document Analyzer: what a legal document says, what it risks and how to improve it
+ */
+export const analysisResultSchema = producing<AnalysisResult>(z.object({
+  summary: z.string().trim().min(1).describe('Two or three sentence summary of the document'),
+  keyInformation: z.object({
+    parties: textList('Names of the parties'),
+    dates: textList('Dates and deadlines as written in the document'),
+    amounts: textList('Monetary amounts as written in the document'),
+    obligations: textList('Obligations, one sentence each'),
+  }),
+  importantClauses: z.array(z.object({
+    title: text('Short name of the clause'),
+    content: text('The clause text, quoted or closely paraphrased'),
+    importance: lowercased(['high', 'medium', 'low']),
+    explanation: text('Why the clause matters'),
+  })).default([]),
+  riskAssessment: riskAssessmentSchema,
+  suggestedEdits: z.array(z.object({
+    section: text('Section the edit applies to'),
+    current: text('Current wording, or a note that the provision is missing'),
+    suggested: text('Proposed wording'),
+    reason: text('Why the edit helps'),
+  })).default([]),
+  legalCitations: textList('Statutes, rules and cases the document cites or relies on'),
+}));
+
+/**
+ * AI Document Analyzer compare mode: which changes between two versions matter and how they shift risk
+ */
+export const redlineReviewSchema = producing<RedlineReview>(z.object({
+  changes: z.array(z.object({
+    id: z.coerce.number().int().describe('Number of the change as listed'),
+    classification: lowercased(['substantive', 'cosmetic']),
+    explanation: text('What the change does to the parties\' rights or obligations, or why it is only cosmetic'),
+  })).default([]),
+  summary: z.string().trim().min(1).describe('Two or three sentence summary of what the revision changes'),
+  riskAssessment: riskAssessmentSchema.describe('Risks the revision adds or removes for the client'),
+}));
+
+/**
+ * Rebuttal Assistant: how to answer the opposing side's argument
+ */
+export const rebuttalAnalysisSchema = producing<RebuttalAnalysis>(z.object({
+  weaknesses: textList('Flaws and vulnerabilities in the opposing argument'),
+  counter_arguments: textList('Direct responses to each of the opposing claims'),
+  supporting_law: textList('Rules, statutes and precedent supporting the rebuttal, with citations. Never invent a citation'),
+  strategic_recommendations: textList('Recommended strategic approach'),
+  evidence_suggestions: textList('Evidence, documents or witnesses that would prove the rebuttal'),
+}));
+
+/**
+ * Privilege log: a description that supports the privilege claim without disclosing the advice
+ */
+export const privilegeDescriptionSchema = producing<PrivilegeDescription>(z.object({
+  description: z.string().trim().min(1).describe('One sentence naming the general subject matter and why it is privileged, without its substance'),
+  documentType: text('Kind of document, e.g. Email, Memorandum, Letter, Draft agreement'),
+}));
+
+const MIN_DURABILITY_DAYS = 30;
+
+const observedPreferenceSchema = z.object({
+  key: z.string().trim().min(1),
+  value: asText,
+  confidence: z.number().min(0).max(1).default(1),
+  observedAt: z.string().default(''),
+  category: lowercased(['tone', 'workflow', 'defaults', 'format', 'other']).optional(),
+  // The agent says how long a preference is likely to hold instead of how sure it is
+  durability_days: z.number().optional(),
+});
+
+// The agent may write any of the list entries below as a bare string
+const correctionSchema = z.union([
+  z.string().trim().min(1).transform(correctedAction => ({ originalAction: '', correctedAction, context: '', timestamp: '' })),
+  z.object({
+    originalAction: z.string().default(''),
+    correctedAction: z.string().trim().min(1),
+    context: z.string().default(''),
+    timestamp: z.string().default(''),
+  }),
+]);
+
+// The agent describes a shortcut by name, trigger phrases and steps
+const repeatedTaskSchema = z.union([
+  z.object({
+    name: z.string().trim().min(1),
+    trigger_phrases: z.array(z.string()).default([]),
+    steps: z.array(z.string()).default([]),
+  }).transform(({ name, trigger_phrases, steps }) => ({
+    taskType: name,
+    pattern: trigger_phrases.join(' | '),
+    frequency: 1,
+    lastOccurrence: '',
+    triggerPhrases: trigger_phrases,
+    steps,
+  })),
+  z.object({
+    taskType: z.string().trim().min(1),
+    pattern: z.string().default(''),
+    frequency: z.number().positive().default(1),
+    lastOccurrence: z.string().default(''),
+    suggestedAutomation: z.string().optional(),
+  }),
+]);
+
+const redactNoteSchema = z.union([
+  z.string().trim().min(1).transform(pattern => ({ reason: '', pattern, timestamp: '' })),
+  z.object({
+    reason: z.string().default(''),
+    pattern: z.string().trim().min(1),
+    timestamp: z.string().default(''),
+  }),
+]);
+
+/**
+ * LEARNINGS_CANDIDATE block, in the agent's shape or the assistant's.
+ * Timestamps the model leaves out come back empty for the memory store to fill in.
+ */
+export const learningsCandidateSchema = producing<LearningsCandidate>(z.object({
+  observed_preferences: z.array(observedPreferenceSchema).default([]).transform(preferences =>
+    preferences
+      .filter(pref => pref.durability_days === undefined || pref.durability_days >= MIN_DURABILITY_DAYS)
+      .map(({ durability_days: _, category, ...pref }) => ({
+        ...pref,
+        category: category ?? (pref.key.startsWith('defaults.') ? 'defaults' as const : 'other' as const),
+      }))
+  ),
+  corrections: z.array(correctionSchema).default([]),
+  repeated_tasks: z.array(repeatedTaskSchema).default([]),
+  failures_and_fixes: z.array(z.union([
+    z.string().trim().min(1).transform(solution => ({ failureType: '', solution, timestamp: '' })),
+    z.object({
+      failureType: z.string().default(''),
+      solution: z.string().trim().min(1),
+      timestamp: z.string().default(''),
+      preventionRule: z.string().optional(),
+    }),
+  ])).default([]),
+  suggestions_to_lock_in: z.array(z.union([
+    z.string().trim().min(1).transform(suggestion => ({ suggestion, benefit: '', confidence: 0.5, requiresConfirmation: true })),
+    z.object({
+      suggestion: z.string().trim().min(1),
+      benefit: z.string().default(''),
+      confidence: z.number().min(0).max(1).default(0.5),
+      requiresConfirmation: z.boolean().default(true),
+    }),
+  ])).default([]),
+  redact_notes: z.array(redactNoteSchema).default([]),
+}));
@@ -1,155 +1,388 @@
 import { supabase } from '@/lib/supabase'
+import { AI_PROVIDERS, type AIProvider } from '@/lib/aiProviders'
+import type { AIFeature, AIUsageTag } from '@/lib/aiUsage'
+import {
+  AIRequestError,
+  CircuitBreaker,
+  DEFAULT_RETRY_POLICY,
+  backoffDelay,
+  classifyFailure,
+  parseRetryAfter,
+  type FailureKind,
+  type ProviderHealth,
+  type RetryPolicy
+} from '@/lib/aiFailover'
+import { RedactionSession, getRedactionConfig, logRedaction } from '@/lib/redaction'
+
+export type { AIProvider } from '@/lib/aiProviders'
 
 export type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string }
+export type ChatSchema = {
+  /** Letters, digits, _ and -, as OpenAI and Anthropic require */
+  name: string
+  description?: string
+  parameters: Record<string, unknown>
+}
 export type ChatRequest = {
   messages: ChatMessage[]
   system?: string
   model?: string
   provider?: AIProvider
   userIdentifier?: string
+  /** Privileged material: the edge function refuses any provider that is not self-hosted */
+  confidential?: boolean
+  /** Ask for a single JSON object; only honoured by providers with JSON mode */
+  responseFormat?: 'text' | 'json'
+  /** JSON Schema the reply must follow, enforced by JSON-schema mode or a forced tool call */
+  schema?: ChatSchema
+  /** Calling feature and matter the usage ledger records the tokens against */
+  feature?: AIFeature
+  caseId?: string | null
 }
 export type ChatResponse = { content: string; usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } }
 
-type AIProvider = 'openai' | 'gemini'
+/**
+ * Events of a streamed completion: text as it is generated, then the final usage
+ */
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; usage: ChatResponse['usage'] | null }
+
+export type ChatStreamOptions = {
+  signal?: AbortSignal
+}
+
+export type AIProviderStatus = ProviderHealth & {
+  label: string
+  available: boolean
+  message: string
+}
 
 type AIServiceStatus = {
   available: boolean
   provider: string
   message: string
   lastChecked: Date | null
+  providers: AIProviderStatus[]
 }
 
 type AIServiceResponse = {
   response: string
   provider: string
-  error?: 'RATE_LIMITED' | 'SERVICE_UNAVAILABLE' | 'UNKNOWN_ERROR'
+  error?: 'RATE_LIMITED' | 'SERVICE_UNAVAILABLE' | 'QUOTA_EXCEEDED' | 'UNKNOWN_ERROR'
 }
 
-const PROVIDER_LABELS: Record<AIProvider, string> = {
-  openai: 'GPT-4',
-  gemini: 'Gemini Pro'
+let retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY
+
+const breakers = Object.fromEntries(
+  (Object.keys(AI_PROVIDERS) as AIProvider[]).map(provider => [provider, new CircuitBreaker(provider, () => retryPolicy)])
+) as Record<AIProvider, CircuitBreaker>
+
+// The provider that handled (or last failed) a request; the headline of getServiceStatus
+let lastProvider: AIProvider | null = null
+
+// Which failure to report once every attempt is spent: the most telling one
+const FAILURE_RANK: Record<FailureKind, number> = { rate_limited: 3, timeout: 2, unavailable: 1, fatal: 0 }
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+
+/**
+ * The requested provider followed by its failover chain, skipping open breakers.
+ * A self-hosted provider only ever fails over to other self-hosted providers.
+ */
+function candidateProviders(provider: AIProvider): AIProvider[] {
+  const selfHostedOnly = AI_PROVIDERS[provider].capabilities.selfHosted
+  return [provider, ...(retryPolicy.failover[provider] ?? [])]
+    .filter((candidate, index, all) => all.indexOf(candidate) === index)
+    .filter(candidate => !selfHostedOnly || AI_PROVIDERS[candidate].capabilities.selfHosted)
+    .filter(candidate => breakers[candidate].canRequest())
 }
 
-const MODEL_MAPPING: Record<AIProvider, string> = {
-  openai: 'gpt-4o',
-  gemini: 'gemini-pro'
+/**
+ * Run a request with retry, backoff and failover under the current RetryPolicy.
+ * `committed` reports whether output has already reached the user, after which a
+ * failure can no longer be retried without repeating it.
+ */
+async function runWithFailover<T>(
+  provider: AIProvider,
+  attempt: (provider: AIProvider) => Promise<T>,
+  options: { signal?: AbortSignal; committed?: () => boolean } = {}
+): Promise<{ result: T; provider: AIProvider }> {
+  const candidates = candidateProviders(provider)
+  if (candidates.length === 0) {
+    lastProvider = provider
+    throw new AIRequestError('All AI providers are temporarily unavailable (circuit open)', 503)
+  }
+
+  let reported: { error: unknown; kind: FailureKind } | null = null
+
+  for (const candidate of candidates) {
+    const breaker = breakers[candidate]
+    for (let attemptNumber = 1; attemptNumber <= retryPolicy.maxAttempts; attemptNumber++) {
+      if (!breaker.canRequest()) break
+      lastProvider = candidate
+      try {
+        const result = await attempt(candidate)
+        breaker.recordSuccess()
+        return { result, provider: candidate }
+      } catch (err) {
+        if (options.signal?.aborted) throw err
+        const kind = classifyFailure(err)
+        breaker.recordFailure(kind)
+        if (!reported || FAILURE_RANK[kind] > FAILURE_RANK[reported.kind]) reported = { error: err, kind }
+        if (kind === 'fatal' || options.committed?.()) throw reported.error
+
+        const retryAfterMs = err instanceof AIRequestError ? err.retryAfterMs : undefined
+        if (attemptNumber === retryPolicy.maxAttempts || (retryAfterMs ?? 0) > retryPolicy.maxRetryAfterMs) break
+        await sleep(backoffDelay(attemptNumber, retryPolicy, retryAfterMs), options.signal)
+        if (options.signal?.aborted) throw err
+      }
+    }
+  }
+
+  throw reported?.error ?? new AIRequestError('All AI providers are temporarily unavailable (circuit open)', 503)
 }
 
-let lastStatus: AIServiceStatus = {
-  available: true,
-  provider: PROVIDER_LABELS.openai,
-  message: 'Awaiting status check',
-  lastChecked: null
+/**
+ * Map a failed request to the user-facing reply
+ */
+function failureResponse(err: unknown, provider: AIProvider): AIServiceResponse {
+  const kind = classifyFailure(err)
+
+  let errorCode: AIServiceResponse['error'] = 'UNKNOWN_ERROR'
+  let responseMessage =
+    "I'm experiencing difficulties responding right now. Please try again shortly."
+
+  if (err instanceof AIRequestError && err.status === 402) {
+    errorCode = 'QUOTA_EXCEEDED'
+    responseMessage =
+      "Your plan's monthly AI allowance has been used up. It resets at the start of next month, or upgrade your plan for more."
+  } else if (kind === 'rate_limited') {
+    errorCode = 'RATE_LIMITED'
+    responseMessage =
+      'Our AI assistant is temporarily handling a high volume of requests. Please wait a moment and try again.'
+  } else if (kind === 'timeout') {
+    errorCode = 'SERVICE_UNAVAILABLE'
+    responseMessage =
+      'The AI service did not respond in time. Please retry in a few moments.'
+  } else if (kind === 'unavailable') {
+    errorCode = 'SERVICE_UNAVAILABLE'
+    responseMessage =
+      'The AI service is temporarily unavailable. Please retry in a few moments.'
+  }
+
+  return {
+    response: responseMessage,
+    provider: AI_PROVIDERS[provider].label,
+    error: errorCode
+  }
+}
+
+function providerStatus(health: ProviderHealth): AIProviderStatus {
+  let message = 'Operational'
+  if (health.state === 'open') message = 'Circuit open after repeated failures'
+  else if (health.state === 'half-open') message = 'Recovering - next request is a trial'
+  else if (health.lastFailure === 'rate_limited') message = 'Temporarily rate limited'
+  else if (health.lastFailure) message = 'Service interruption detected'
+  else if (!health.lastChecked) message = 'Not queried yet'
+
+  return {
+    ...health,
+    label: AI_PROVIDERS[health.provider].label,
+    available: health.state !== 'open' && !health.lastFailure,
+    message
+  }
 }
 
 export const AIService = {
   async sendMessage(
     messages: ChatMessage[],
     provider: AIProvider,
-    userIdentifier: string
+    userIdentifier: string,
+    usage?: AIUsageTag
   ): Promise<AIServiceResponse> {
     try {
-      const request: ChatRequest = {
-        messages,
-        provider,
-        model: MODEL_MAPPING[provider],
-        userIdentifier
-      }
-
-      const { content } = await legalAiChat(request)
-
-      lastStatus = {
-        available: true,
-        provider: PROVIDER_LABELS[provider],
-        message: 'Operational',
-        lastChecked: new Date()
-      }
+      const { result, provider: served } = await runWithFailover(provider, candidate =>
+        legalAiChat({
+          messages,
+          provider: candidate,
+          model: AI_PROVIDERS[candidate].model,
+          userIdentifier,
+          ...usage
+        })
+      )
 
       return {
-        response: content,
-        provider: PROVIDER_LABELS[provider]
+        response: result.content,
+        provider: AI_PROVIDERS[served].label
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error'
-      const normalizedMessage = errorMessage.toLowerCase()
-
-      let errorCode: AIServiceResponse['error'] = 'UNKNOWN_ERROR'
-      let responseMessage =
-        "I'm experiencing difficulties responding right now. Please try again shortly."
-
-      if (normalizedMessage.includes('rate limit') || normalizedMessage.includes('429')) {
-        errorCode = 'RATE_LIMITED'
-        responseMessage =
-          'Our AI assistant is temporarily handling a high volume of requests. Please wait a moment and try again.'
-      } else if (normalizedMessage.includes('timeout')) {
-        errorCode = 'SERVICE_UNAVAILABLE'
-        responseMessage =
-          'The AI service did not respond in time. Please retry in a few moments.'
-      }
-
-      lastStatus = {
-        available: false,
-        provider: PROVIDER_LABELS[provider],
-        message:
-          errorCode === 'RATE_LIMITED'
-            ? 'Temporarily rate limited'
-            : 'Service interruption detected',
-        lastChecked: new Date()
-      }
-
       console.error('[AIService] sendMessage failed', err)
+      return failureResponse(err, lastProvider ?? provider)
+    }
+  },
+
+  /**
+   * Like sendMessage, but streams the reply through onDelta as it is generated.
+   * Aborting the signal stops the stream and resolves with the text received so far.
+   * Failures are only retried or failed over before the first delta arrives.
+   */
+  async streamMessage(
+    messages: ChatMessage[],
+    provider: AIProvider,
+    userIdentifier: string,
+    onDelta: (content: string) => void,
+    signal?: AbortSignal,
+    usage?: AIUsageTag
+  ): Promise<AIServiceResponse> {
+    let response = ''
+    try {
+      const { provider: served } = await runWithFailover(provider, async candidate => {
+        const request: ChatRequest = {
+          messages,
+          provider: candidate,
+          model: AI_PROVIDERS[candidate].model,
+          userIdentifier,
+          ...usage
+        }
+        for await (const event of legalAiChatStream(request, { signal })) {
+          if (event.type === 'delta') {
+            response += event.content
+            onDelta(event.content)
+          }
+        }
+      }, { signal, committed: () => response.length > 0 })
 
       return {
-        response: responseMessage,
-        provider: PROVIDER_LABELS[provider],
-        error: errorCode
+        response,
+        provider: AI_PROVIDERS[served].label
       }
+    } catch (err) {
+      if (signal?.aborted) {
+        return { response, provider: AI_PROVIDERS[lastProvider ?? provider].label }
+      }
+      console.error('[AIService] streamMessage failed', err)
+      return failureResponse(err, lastProvider ?? provider)
     }
   },
 
+  /**
+   * Health of the provider used last, plus every provider's breaker
+   */
   getServiceStatus(): AIServiceStatus {
-    if (!lastStatus.lastChecked) {
+    const providers = (Object.keys(AI_PROVIDERS) as AIProvider[]).map(provider => providerStatus(breakers[provider].health()))
+    const current = providers.find(status => status.provider === lastProvider)
+
+    if (!current?.lastChecked) {
       return {
-        ...lastStatus,
-        message: 'Status pending - service not queried yet'
+        available: true,
+        provider: AI_PROVIDERS.openai.label,
+        message: 'Status pending - service not queried yet',
+        lastChecked: null,
+        providers
       }
     }
 
-    return lastStatus
+    return {
+      available: current.available,
+      provider: current.label,
+      message: current.message,
+      lastChecked: current.lastChecked,
+      providers
+    }
+  },
+
+  /**
+   * Override parts of the retry and failover policy
+   */
+  configureRetryPolicy(policy: Partial<RetryPolicy>) {
+    retryPolicy = { ...retryPolicy, ...policy }
+  },
+
+  /**
+   * Close every breaker and forget past failures
+   */
+  resetProviderHealth() {
+    for (const provider of Object.keys(breakers) as AIProvider[]) {
+      breakers[provider] = new CircuitBreaker(provider, () => retryPolicy)
+    }
+    lastProvider = null
+  }
+}
+
+type FunctionsError = { message?: string; context?: { status?: number; headers?: Headers } }
+
+// Provide more specific error messages based on the error type
+function edgeFunctionError(error: FunctionsError): AIRequestError {
+  const status = typeof error.context?.status === 'number' ? error.context.status : undefined
+  const retryAfterMs = parseRetryAfter(error.context?.headers?.get?.('Retry-After'))
+
+  if (status === 429) {
+    return new AIRequestError('Rate limit exceeded (429)', status, retryAfterMs)
+  }
+  if (status === 402) {
+    return new AIRequestError('Monthly AI token quota exceeded for your plan', status)
+  }
+  if (status === 404 || error.message?.includes('404') || error.message?.includes('not found')) {
+    return new AIRequestError('Edge function not deployed. Please deploy the legal-ai-chat function to Supabase.', status)
+  }
+  if (error.message?.includes('CORS') || error.message?.includes('cors')) {
+    return new AIRequestError('CORS error. Check ALLOWED_ORIGINS in edge function environment variables.', status)
+  }
+  if (status === 401 || error.message?.includes('unauthorized') || error.message?.includes('401')) {
+    return new AIRequestError('Authentication failed. Check Supabase configuration.', status)
+  }
+  return new AIRequestError(`Edge function error: ${error.message || 'Unknown error'}`, status, retryAfterMs)
+}
+
+/**
+ * Swap client information in the outgoing text for placeholders (see redaction.ts).
+ * Self-hosted providers never leave the firm, so their requests go out as written.
+ */
+function redactRequest(req: ChatRequest): { body: ChatRequest; redaction: RedactionSession | null } {
+  const provider = req.provider ?? 'openai'
+  if (!getRedactionConfig().enabled || AI_PROVIDERS[provider]?.capabilities.selfHosted) {
+    return { body: req, redaction: null }
+  }
+
+  const redaction = new RedactionSession()
+  const body: ChatRequest = {
+    ...req,
+    messages: req.messages.map(message => ({ ...message, content: redaction.redact(message.content) }))
   }
+  if (req.system !== undefined) body.system = redaction.redact(req.system)
+  void logRedaction(redaction, { feature: req.feature, caseId: req.caseId, provider })
+  return { body, redaction }
 }
 
 export async function legalAiChat(req: ChatRequest): Promise<ChatResponse> {
   try {
-    const { data, error } = await supabase.functions.invoke('legal-ai-chat', { body: req })
+    const { body, redaction } = redactRequest(req)
+    const { data, error } = await supabase.functions.invoke('legal-ai-chat', { body })
     
     if (error) {
       console.error('[legal-ai-chat] Supabase function error:', error)
-      
-      // Provide more specific error messages based on the error type
-      if (error.message?.includes('404') || error.message?.includes('not found')) {
-        throw new Error('Edge function not deployed. Please deploy the legal-ai-chat function to Supabase.')
-      }
-      if (error.message?.includes('CORS') || error.message?.includes('cors')) {
-        throw new Error('CORS error. Check ALLOWED_ORIGINS in edge function environment variables.')
-      }
-      if (error.message?.includes('unauthorized') || error.message?.includes('401')) {
-        throw new Error('Authentication failed. Check Supabase configuration.')
-      }
-      
-      throw new Error(`Edge function error: ${error.message || 'Unknown error'}`)
+      throw edgeFunctionError(error)
     }
     
     if (!data) {
       throw new Error('No response from edge function')
     }
     
-    return data as ChatResponse
+    const response = data as ChatResponse
+    return redaction ? { ...response, content: redaction.rehydrate(response.content) } : response
   } catch (err) {
     console.error('[legal-ai-chat] Request failed:', err)
     
     // If it's already our custom error, rethrow it
-    if (err instanceof Error && err.message.includes('Edge function')) {
+    if (err instanceof AIRequestError || (err instanceof Error && err.message.includes('Edge function'))) {
       throw err
     }
     
@@ -158,3 +391,79 @@ export async function legalAiChat(req: ChatRequest): Promise<ChatResponse> {
     throw new Error(`Failed to send request to Edge Function: ${message}`)
   }
 }
+
+/**
+ * Split a server-sent event stream into the JSON payloads of its `data:` lines
+ */
+async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  try {
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split(/\r?\n/)
+      buffer = lines.pop() ?? ''
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield line.slice(5).trim()
+      }
+    }
+    buffer += decoder.decode()
+    if (buffer.startsWith('data:')) yield buffer.slice(5).trim()
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Stream a completion from legal-ai-chat as it is generated.
+ * Aborting the signal cancels the request and ends the iteration without an error.
+ */
+export async function* legalAiChatStream(
+  req: ChatRequest,
+  options: ChatStreamOptions = {}
+): AsyncGenerator<ChatStreamEvent> {
+  const { signal } = options
+  const { body, redaction } = redactRequest(req)
+  const rehydrator = redaction?.rehydrator()
+  const { data, error } = await supabase.functions.invoke('legal-ai-chat', {
+    body: { ...body, stream: true },
+    signal
+  })
+
+  if (signal?.aborted) return
+  if (error) {
+    console.error('[legal-ai-chat] Supabase function error:', error)
+    throw edgeFunctionError(error)
+  }
+  if (!(data instanceof Response) || !data.body) {
+    throw new Error('Edge function did not return a stream')
+  }
+
+  try {
+    for await (const payload of readSSEData(data.body)) {
+      const event = JSON.parse(payload)
+      if (event.type === 'error') {
+        throw new AIRequestError(event.error || 'Stream failed', event.status, event.retryAfter ? event.retryAfter * 1000 : undefined)
+      }
+      if (rehydrator && event.type === 'delta') {
+        const content = rehydrator.push(event.content)
+        if (content) yield { type: 'delta', content }
+        continue
+      }
+      if (rehydrator && event.type === 'done') {
+        const rest = rehydrator.flush()
+        if (rest) yield { type: 'delta', content: rest }
+      }
+      yield event as ChatStreamEvent
+      if (event.type === 'done') return
+    }
+  } catch (err) {
+    if (signal?.aborted) return
+    throw err
+  }
+
+  if (!signal?.aborted) throw new Error('Stream ended before the response was complete')
+}
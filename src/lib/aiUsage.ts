@@ -0,0 +1,246 @@
+/**
+ * AI usage ledger and cost accounting
+ * legal-ai-chat records the tokens of every request in ai_usage; this module prices those
+ * records from ai_model_prices and rolls them up per matter, user, feature and model so AI
+ * costs can be passed through to clients. Monthly token quotas per plan live in ai_plan_quotas.
+ */
+import { supabase } from './supabase';
+
+// Keep in step with USAGE_FEATURES in supabase/functions/legal-ai-chat/usage.ts
+export type AIFeature =
+  | 'chat'
+  | 'assistant'
+  | 'agent'
+  | 'background_agent'
+  | 'brief_generator'
+  | 'document_analyzer'
+  | 'rebuttal_assistant'
+  | 'privilege_log'
+  | 'legal_research'
+  | 'other';
+
+export type AIUsageStatus = 'completed' | 'aborted' | 'failed';
+
+/**
+ * What a request is recorded against in the usage ledger
+ */
+export interface AIUsageTag {
+  feature: AIFeature;
+  caseId?: string | null;
+}
+
+export interface AIUsageRecord {
+  id: string;
+  user_id: string;
+  case_id: string | null;
+  feature: AIFeature;
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  estimated: boolean;
+  status: AIUsageStatus;
+  created_at: string;
+  // Joined when listing usage
+  cases?: { title: string; case_number: string | null } | null;
+}
+
+export interface AIModelPrice {
+  id: string;
+  provider: string;
+  // '*' prices every model of the provider without a row of its own
+  model: string;
+  prompt_price_per_million: number;
+  completion_price_per_million: number;
+  effective_from: string;
+}
+
+export interface AIPlanQuota {
+  plan_name: string;
+  // null means unlimited
+  monthly_token_limit: number | null;
+}
+
+export type UsageGrouping = 'case' | 'user' | 'feature' | 'model';
+
+export interface UsageSummaryRow {
+  key: string;
+  label: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  // Some records had no price, so cost understates the real figure
+  unpriced: number;
+}
+
+export const AI_FEATURE_LABELS: Record<AIFeature, string> = {
+  chat: 'AI Chat',
+  assistant: 'Assistant',
+  agent: 'Agent',
+  background_agent: 'Background Agent',
+  brief_generator: 'Brief Generator',
+  document_analyzer: 'Document Analyzer',
+  rebuttal_assistant: 'Rebuttal Assistant',
+  privilege_log: 'Privilege Log',
+  legal_research: 'Legal Research',
+  other: 'Other',
+};
+
+const USAGE_SELECT = '*, cases(title, case_number)';
+
+const NO_CASE_KEY = 'none';
+
+// Costs are kept to the hundredth of a cent so small matters do not round to zero
+const roundCost = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * The price in effect for a model on a given date: an exact model row beats the provider's
+ * '*' row, and the latest effective_from on or before the date wins
+ */
+export function priceFor(prices: AIModelPrice[], provider: string, model: string, at: string): AIModelPrice | null {
+  const day = at.slice(0, 10);
+  const effective = prices
+    .filter(price => price.provider === provider && price.effective_from <= day)
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+
+  return effective.find(price => price.model === model) ?? effective.find(price => price.model === '*') ?? null;
+}
+
+/**
+ * Cost of one usage record in USD, or null when no price covers it
+ */
+export function costOf(record: Pick<AIUsageRecord, 'provider' | 'model' | 'prompt_tokens' | 'completion_tokens' | 'created_at'>, prices: AIModelPrice[]): number | null {
+  const price = priceFor(prices, record.provider, record.model, record.created_at);
+  if (!price) return null;
+  return roundCost(
+    (record.prompt_tokens * Number(price.prompt_price_per_million) +
+      record.completion_tokens * Number(price.completion_price_per_million)) / 1_000_000
+  );
+}
+
+const groupKey = (record: AIUsageRecord, grouping: UsageGrouping): { key: string; label: string } => {
+  switch (grouping) {
+    case 'case':
+      if (!record.case_id) return { key: NO_CASE_KEY, label: 'No matter' };
+      return {
+        key: record.case_id,
+        label: record.cases
+          ? [record.cases.case_number, record.cases.title].filter(Boolean).join(' - ')
+          : record.case_id,
+      };
+    case 'user':
+      return { key: record.user_id, label: record.user_id };
+    case 'feature':
+      return { key: record.feature, label: AI_FEATURE_LABELS[record.feature] ?? record.feature };
+    case 'model':
+      return { key: `${record.provider}/${record.model}`, label: `${record.provider} / ${record.model}` };
+  }
+};
+
+type UsageTotals = Omit<UsageSummaryRow, 'key' | 'label'>;
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  cost: 0,
+  unpriced: 0,
+});
+
+const addRecord = <T extends UsageTotals>(totals: T, record: AIUsageRecord, prices: AIModelPrice[]): T => {
+  const cost = costOf(record, prices);
+  totals.requests++;
+  totals.promptTokens += record.prompt_tokens;
+  totals.completionTokens += record.completion_tokens;
+  totals.totalTokens += record.total_tokens;
+  if (cost === null) totals.unpriced++;
+  else totals.cost = roundCost(totals.cost + cost);
+  return totals;
+};
+
+/**
+ * Roll usage records up by matter, user, feature or model, most expensive first
+ */
+export function summarizeUsage(records: AIUsageRecord[], prices: AIModelPrice[], grouping: UsageGrouping): UsageSummaryRow[] {
+  const rows = new Map<string, UsageSummaryRow>();
+
+  for (const record of records) {
+    const { key, label } = groupKey(record, grouping);
+    rows.set(key, addRecord(rows.get(key) ?? { key, label, ...emptyTotals() }, record, prices));
+  }
+
+  return [...rows.values()].sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens);
+}
+
+/**
+ * Totals across a set of usage records
+ */
+export function usageTotals(records: AIUsageRecord[], prices: AIModelPrice[]): UsageTotals {
+  return records.reduce((totals, record) => addRecord(totals, record, prices), emptyTotals());
+}
+
+/**
+ * CSV of per-matter AI cost for passing through to clients
+ */
+export function formatMatterCostCsv(rows: UsageSummaryRow[]): string {
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  return [
+    ['Matter', 'Requests', 'Prompt Tokens', 'Completion Tokens', 'Total Tokens', 'Cost (USD)'].join(','),
+    ...rows.map(row =>
+      [escape(row.label), row.requests, row.promptTokens, row.completionTokens, row.totalTokens, row.cost.toFixed(4)].join(',')
+    ),
+  ].join('\n');
+}
+
+/**
+ * Usage records in a date range, newest first; RLS limits non-admins to their own
+ */
+export async function listUsage(filters: { from: string; to: string; userId?: string; caseId?: string }): Promise<AIUsageRecord[]> {
+  let query = supabase
+    .from('ai_usage')
+    .select(USAGE_SELECT)
+    .gte('created_at', filters.from)
+    .lte('created_at', filters.to);
+  if (filters.userId) query = query.eq('user_id', filters.userId);
+  if (filters.caseId) query = query.eq('case_id', filters.caseId);
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+  if (error) throw new Error(error.message || 'Failed to load AI usage');
+  return (data ?? []) as AIUsageRecord[];
+}
+
+export async function listModelPrices(): Promise<AIModelPrice[]> {
+  const { data, error } = await supabase
+    .from('ai_model_prices')
+    .select('*')
+    .order('effective_from', { ascending: false });
+  if (error) throw new Error(error.message || 'Failed to load AI model prices');
+  return (data ?? []) as AIModelPrice[];
+}
+
+export async function listPlanQuotas(): Promise<AIPlanQuota[]> {
+  const { data, error } = await supabase.from('ai_plan_quotas').select('*').order('plan_name');
+  if (error) throw new Error(error.message || 'Failed to load AI plan quotas');
+  return (data ?? []) as AIPlanQuota[];
+}
+
+/**
+ * Set a plan's monthly token quota; null removes the limit
+ */
+export async function updatePlanQuota(planName: string, monthlyTokenLimit: number | null): Promise<AIPlanQuota> {
+  if (monthlyTokenLimit !== null && (!Number.isInteger(monthlyTokenLimit) || monthlyTokenLimit < 0)) {
+    throw new Error('Quota must be a whole number of tokens, zero or more');
+  }
+
+  const { data, error } = await supabase
+    .from('ai_plan_quotas')
+    .upsert({ plan_name: planName.trim().toLowerCase(), monthly_token_limit: monthlyTokenLimit })
+    .select()
+    .single();
+  if (error) throw new Error(error.message || 'Failed to update AI plan quota');
+  return data as AIPlanQuota;
+}
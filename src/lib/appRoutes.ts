@@ -0,0 +1,100 @@
+/**
+ * URL routes for the AppLayout views
+ * Every tab lives at /<tab>, optionally followed by the id of the entity it shows
+ * (e.g. /case-management/<caseId> or /template-library/<templateId>).
+ */
+
+export const APP_TABS = [
+  'alert-dashboard',
+  'document-analyzer',
+  'template-library',
+  'contract-drafting',
+  'upload',
+  'collaborate',
+  'brief',
+  'cases',
+  'case-management',
+  'client-billing',
+  'trust-accounting',
+  'caselaw',
+  'courtlistener-api',
+  'search',
+  'rules',
+  'rebuttal',
+  'calendar',
+  'chat',
+  'assistant',
+  'ai-memory',
+  'conversations',
+  'import',
+  'dashboard',
+  'clients',
+  'email',
+  'analytics',
+  'admin-analytics',
+  'admin-ai-usage',
+  'subscription',
+  'pricing',
+  'payment-success',
+  'payment-cancel',
+  'service-status',
+  'system-monitor',
+  'legal-database',
+] as const;
+
+export type AppTab = typeof APP_TABS[number] | 'home';
+
+export interface AppRoute {
+  tab: AppTab;
+  entityId: string | null;
+}
+
+const isAppTab = (value: string): value is typeof APP_TABS[number] =>
+  (APP_TABS as readonly string[]).includes(value);
+
+/**
+ * Path for a tab, with an optional entity id
+ */
+export function tabPath(tab: AppTab, entityId?: string | null): string {
+  if (tab === 'home') return '/';
+  return entityId ? `/${tab}/${encodeURIComponent(entityId)}` : `/${tab}`;
+}
+
+/**
+ * The tab and entity id a path points at, or null if it is not an app route
+ */
+export function parseAppPath(pathname: string): AppRoute | null {
+  const segments = pathname.split('/').filter(Boolean);
+  if (segments.length === 0) return { tab: 'home', entityId: null };
+  if (segments.length > 2 || !isAppTab(segments[0])) return null;
+  return { tab: segments[0], entityId: segments[1] ? decodeSegment(segments[1]) : null };
+}
+
+/**
+ * A percent-decoded path segment, or null for a malformed escape in a hand-edited link
+ */
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+const RETURN_PATH_KEY = 'docketchief_return_path';
+
+/**
+ * Remember where the user was before leaving for an OAuth provider
+ */
+export function rememberReturnPath(path: string) {
+  if (parseAppPath(path)) sessionStorage.setItem(RETURN_PATH_KEY, path);
+}
+
+/**
+ * The path remembered before sign-in, cleared once read; home if there is none
+ */
+export function consumeReturnPath(): string {
+  const path = sessionStorage.getItem(RETURN_PATH_KEY);
+  sessionStorage.removeItem(RETURN_PATH_KEY);
+  return path && parseAppPath(path) ? path : tabPath('home');
+}
@@ -0,0 +1,192 @@
+/**
+ * Bates numbering and discovery load files
+ * Every produced page gets the next number after a prefix (ACME000001, ACME000002, ...).
+ * A production volume holds one single-page PDF per number, natives and text where they
+ * exist, a Concordance DAT and an Opticon OPT load file for the receiving party's review
+ * platform, and a CSV production log of what was produced under which numbers.
+ */
+
+export type ConfidentialityDesignation = 'none' | 'confidential' | 'highly_confidential';
+
+export const CONFIDENTIALITY_LEGENDS: Record<ConfidentialityDesignation, string> = {
+  none: '',
+  confidential: 'CONFIDENTIAL – SUBJECT TO PROTECTIVE ORDER',
+  highly_confidential: 'HIGHLY CONFIDENTIAL – ATTORNEYS’ EYES ONLY',
+};
+
+export interface BatesOptions {
+  // Letters, digits, hyphens and underscores, e.g. "ACME" or "ACME-"
+  prefix: string;
+  startNumber: number;
+  // Zero-padded width of the number
+  digits?: number;
+}
+
+export interface ProductionItem {
+  documentId: string;
+  fileName: string;
+  pageCount: number;
+  // Produced in native form behind a slip sheet, e.g. spreadsheets and Word files
+  native: boolean;
+  hasText: boolean;
+}
+
+export interface BatesRange {
+  documentId: string;
+  fileName: string;
+  begin: string;
+  end: string;
+  beginNumber: number;
+  endNumber: number;
+  pageCount: number;
+  // Bates number of every page, in order
+  pages: string[];
+  // Relative to the volume folder, with the backslashes load files use
+  imagePaths: string[];
+  nativePath: string | null;
+  textPath: string | null;
+}
+
+export interface ProductionSummary {
+  volume: string;
+  producedAt: string;
+  confidentiality: ConfidentialityDesignation;
+}
+
+export const DEFAULT_BATES_DIGITS = 6;
+
+// Concordance DAT delimiters: þ quotes each field, DC4 (shown as ¶) separates them
+const DAT_QUOTE = 'þ';
+const DAT_DELIMITER = '\u0014';
+const LINE_BREAK = '\r\n';
+
+export const DAT_FIELDS = [
+  'BEGBATES',
+  'ENDBATES',
+  'PAGECOUNT',
+  'FILENAME',
+  'CONFIDENTIALITY',
+  'NATIVELINK',
+  'TEXTLINK',
+] as const;
+
+const PREFIX_PATTERN = /^[A-Za-z0-9_-]*$/;
+
+const extensionOf = (fileName: string) => {
+  const match = fileName.match(/\.([A-Za-z0-9]+)$/);
+  return match ? `.${match[1].toLowerCase()}` : '';
+};
+
+/**
+ * A Bates number, e.g. formatBatesNumber('ACME', 42) is "ACME000042"
+ */
+export function formatBatesNumber(prefix: string, number: number, digits = DEFAULT_BATES_DIGITS): string {
+  const padded = String(number).padStart(digits, '0');
+  if (padded.length > digits) {
+    throw new Error(`Bates number ${number} does not fit in ${digits} digits`);
+  }
+  return `${prefix}${padded}`;
+}
+
+/**
+ * Number the pages of each item in order, continuing from the start number
+ */
+export function assignBatesRanges(items: ProductionItem[], options: BatesOptions): BatesRange[] {
+  const prefix = options.prefix.trim();
+  const digits = options.digits ?? DEFAULT_BATES_DIGITS;
+  if (!PREFIX_PATTERN.test(prefix)) {
+    throw new Error('A Bates prefix may only contain letters, digits, hyphens and underscores');
+  }
+  if (!Number.isInteger(options.startNumber) || options.startNumber < 1) {
+    throw new Error('The starting Bates number must be a whole number of at least 1');
+  }
+
+  let next = options.startNumber;
+  return items.map(item => {
+    if (item.pageCount < 1) {
+      throw new Error(`${item.fileName} has no pages to number`);
+    }
+    const pages = Array.from({ length: item.pageCount }, (_, index) => formatBatesNumber(prefix, next + index, digits));
+    const range: BatesRange = {
+      documentId: item.documentId,
+      fileName: item.fileName,
+      begin: pages[0],
+      end: pages[pages.length - 1],
+      beginNumber: next,
+      endNumber: next + item.pageCount - 1,
+      pageCount: item.pageCount,
+      pages,
+      imagePaths: pages.map(page => `IMAGES\\${page}.pdf`),
+      nativePath: item.native ? `NATIVES\\${pages[0]}${extensionOf(item.fileName)}` : null,
+      textPath: item.hasText ? `TEXT\\${pages[0]}.txt` : null,
+    };
+    next += item.pageCount;
+    return range;
+  });
+}
+
+const datField = (value: string | number) =>
+  `${DAT_QUOTE}${String(value).replace(new RegExp(`[${DAT_QUOTE}${DAT_DELIMITER}\\r\\n]`, 'g'), ' ')}${DAT_QUOTE}`;
+
+/**
+ * Concordance DAT: a header row, then one row of metadata per document
+ */
+export function buildDatLoadFile(ranges: BatesRange[], production: ProductionSummary): string {
+  const legend = CONFIDENTIALITY_LEGENDS[production.confidentiality];
+  const rows = [
+    DAT_FIELDS.map(datField).join(DAT_DELIMITER),
+    ...ranges.map(range =>
+      [
+        range.begin,
+        range.end,
+        range.pageCount,
+        range.fileName,
+        legend,
+        range.nativePath ? `.\\${range.nativePath}` : '',
+        range.textPath ? `.\\${range.textPath}` : '',
+      ]
+        .map(datField)
+        .join(DAT_DELIMITER)
+    ),
+  ];
+  return rows.join(LINE_BREAK) + LINE_BREAK;
+}
+
+/**
+ * Opticon OPT: one row per page image; the first page of a document carries the "Y"
+ * document break and the document's page count
+ */
+export function buildOptLoadFile(ranges: BatesRange[], production: ProductionSummary): string {
+  const rows = ranges.flatMap(range =>
+    range.pages.map((page, index) =>
+      [page, production.volume, `.\\${range.imagePaths[index]}`, index === 0 ? 'Y' : '', '', '', index === 0 ? range.pageCount : ''].join(',')
+    )
+  );
+  return rows.join(LINE_BREAK) + LINE_BREAK;
+}
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV production log, one row per document
+ */
+export function buildProductionLog(ranges: BatesRange[], production: ProductionSummary): string {
+  const designation = CONFIDENTIALITY_LEGENDS[production.confidentiality] || 'None';
+  const rows = [
+    ['Volume', 'Produced', 'Begin Bates', 'End Bates', 'Pages', 'File Name', 'Confidentiality', 'Native'],
+    ...ranges.map(range => [
+      production.volume,
+      production.producedAt.slice(0, 10),
+      range.begin,
+      range.end,
+      range.pageCount,
+      range.fileName,
+      designation,
+      range.nativePath ? 'Yes' : 'No',
+    ]),
+  ];
+  return rows.map(row => row.map(csvField).join(',')).join(LINE_BREAK) + LINE_BREAK;
+}
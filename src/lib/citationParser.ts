@@ -0,0 +1,575 @@
+/**
+ * Legal citation parser and formatter
+ * Parses free-text case, statute and court rule citations into structured parts
+ * and renders them as Bluebook or ALWD full citations, short forms and "Id."
+ */
+
+export type CitationStyle = 'bluebook' | 'alwd';
+
+export type CitationType = 'case' | 'statute' | 'rule' | 'constitution' | 'id';
+
+export interface ParsedCitation {
+  type: CitationType;
+  raw: string;
+  caseName?: string;
+  // Reporter volume for cases; code title for statutes (the 42 in 42 U.S.C.)
+  volume?: string;
+  // Canonical reporter abbreviation for cases
+  reporter?: string;
+  // Early Supreme Court nominative reporter, e.g. "1 Cranch" in 5 U.S. (1 Cranch) 137
+  nominativeReporter?: string;
+  page?: string;
+  // Code, rule set or constitution, e.g. "U.S.C.", "Fed. R. Civ. P." or "U.S. Const."
+  code?: string;
+  // Statute section (with any subsections), rule number, or constitutional article or amendment
+  section?: string;
+  // Pin cite for cases; subdivisions such as "(b)(6)" for rules; section and clause for constitutions
+  pinCite?: string;
+  court?: string;
+  year?: number;
+}
+
+export interface Reporter {
+  abbreviation: string;
+  name: string;
+  // Reporters that only publish one court's decisions, so the court is left out of the parenthetical
+  impliesCourt?: boolean;
+  // ALWD abbreviation when it differs from the Bluebook one
+  alwdAbbreviation?: string;
+  variants?: string[];
+}
+
+export interface CaseCitationInput {
+  title: string;
+  citation: string;
+  court?: string;
+  date?: string;
+}
+
+export const REPORTERS: Reporter[] = [
+  { abbreviation: 'U.S.', name: 'United States Reports', impliesCourt: true },
+  { abbreviation: 'S. Ct.', name: 'Supreme Court Reporter', impliesCourt: true },
+  { abbreviation: 'L. Ed.', name: "Lawyers' Edition", impliesCourt: true },
+  { abbreviation: 'L. Ed. 2d', name: "Lawyers' Edition, Second Series", impliesCourt: true },
+  { abbreviation: 'F.', name: 'Federal Reporter' },
+  { abbreviation: 'F.2d', name: 'Federal Reporter, Second Series' },
+  { abbreviation: 'F.3d', name: 'Federal Reporter, Third Series' },
+  { abbreviation: 'F.4th', name: 'Federal Reporter, Fourth Series' },
+  { abbreviation: "F. App'x", name: 'Federal Appendix', alwdAbbreviation: 'Fed. Appx.', variants: ['Fed. Appx.', 'F. Appx.'] },
+  { abbreviation: 'F. Supp.', name: 'Federal Supplement' },
+  { abbreviation: 'F. Supp. 2d', name: 'Federal Supplement, Second Series' },
+  { abbreviation: 'F. Supp. 3d', name: 'Federal Supplement, Third Series' },
+  { abbreviation: 'F.R.D.', name: 'Federal Rules Decisions' },
+  { abbreviation: 'B.R.', name: 'Bankruptcy Reporter' },
+  { abbreviation: 'Fed. Cl.', name: 'United States Court of Federal Claims Reporter', impliesCourt: true },
+  { abbreviation: 'A.', name: 'Atlantic Reporter' },
+  { abbreviation: 'A.2d', name: 'Atlantic Reporter, Second Series' },
+  { abbreviation: 'A.3d', name: 'Atlantic Reporter, Third Series' },
+  { abbreviation: 'N.E.', name: 'North Eastern Reporter' },
+  { abbreviation: 'N.E.2d', name: 'North Eastern Reporter, Second Series' },
+  { abbreviation: 'N.E.3d', name: 'North Eastern Reporter, Third Series' },
+  { abbreviation: 'N.W.', name: 'North Western Reporter' },
+  { abbreviation: 'N.W.2d', name: 'North Western Reporter, Second Series' },
+  { abbreviation: 'P.', name: 'Pacific Reporter' },
+  { abbreviation: 'P.2d', name: 'Pacific Reporter, Second Series' },
+  { abbreviation: 'P.3d', name: 'Pacific Reporter, Third Series' },
+  { abbreviation: 'S.E.', name: 'South Eastern Reporter' },
+  { abbreviation: 'S.E.2d', name: 'South Eastern Reporter, Second Series' },
+  { abbreviation: 'S.W.', name: 'South Western Reporter' },
+  { abbreviation: 'S.W.2d', name: 'South Western Reporter, Second Series' },
+  { abbreviation: 'S.W.3d', name: 'South Western Reporter, Third Series' },
+  { abbreviation: 'So.', name: 'Southern Reporter' },
+  { abbreviation: 'So. 2d', name: 'Southern Reporter, Second Series' },
+  { abbreviation: 'So. 3d', name: 'Southern Reporter, Third Series' },
+  { abbreviation: 'Cal. Rptr.', name: 'California Reporter' },
+  { abbreviation: 'Cal. Rptr. 2d', name: 'California Reporter, Second Series' },
+  { abbreviation: 'Cal. Rptr. 3d', name: 'California Reporter, Third Series' },
+  { abbreviation: 'Cal.', name: 'California Reports', impliesCourt: true },
+  { abbreviation: 'Cal. 2d', name: 'California Reports, Second Series', impliesCourt: true },
+  { abbreviation: 'Cal. 3d', name: 'California Reports, Third Series', impliesCourt: true },
+  { abbreviation: 'Cal. 4th', name: 'California Reports, Fourth Series', impliesCourt: true },
+  { abbreviation: 'Cal. 5th', name: 'California Reports, Fifth Series', impliesCourt: true },
+  { abbreviation: 'N.Y.S.', name: 'New York Supplement' },
+  { abbreviation: 'N.Y.S.2d', name: 'New York Supplement, Second Series' },
+  { abbreviation: 'N.Y.S.3d', name: 'New York Supplement, Third Series' },
+  { abbreviation: 'N.Y.', name: 'New York Reports', impliesCourt: true },
+  { abbreviation: 'N.Y.2d', name: 'New York Reports, Second Series', impliesCourt: true },
+  { abbreviation: 'N.Y.3d', name: 'New York Reports, Third Series', impliesCourt: true },
+  { abbreviation: 'Ill. 2d', name: 'Illinois Reports, Second Series', impliesCourt: true },
+  { abbreviation: 'Ohio St. 3d', name: 'Ohio State Reports, Third Series', impliesCourt: true },
+  { abbreviation: 'Wash. 2d', name: 'Washington Reports, Second Series', impliesCourt: true },
+  { abbreviation: 'Mass.', name: 'Massachusetts Reports', impliesCourt: true },
+  { abbreviation: 'N.J.', name: 'New Jersey Reports', impliesCourt: true },
+];
+
+// Bluebook Table T10 geographic abbreviations, used for district and state court parentheticals
+const STATE_ABBREVIATIONS: Record<string, string> = {
+  'Alabama': 'Ala.', 'Alaska': 'Alaska', 'Arizona': 'Ariz.', 'Arkansas': 'Ark.',
+  'California': 'Cal.', 'Colorado': 'Colo.', 'Connecticut': 'Conn.', 'Delaware': 'Del.',
+  'District of Columbia': 'D.C.', 'Florida': 'Fla.', 'Georgia': 'Ga.', 'Hawaii': 'Haw.',
+  'Idaho': 'Idaho', 'Illinois': 'Ill.', 'Indiana': 'Ind.', 'Iowa': 'Iowa',
+  'Kansas': 'Kan.', 'Kentucky': 'Ky.', 'Louisiana': 'La.', 'Maine': 'Me.',
+  'Maryland': 'Md.', 'Massachusetts': 'Mass.', 'Michigan': 'Mich.', 'Minnesota': 'Minn.',
+  'Mississippi': 'Miss.', 'Missouri': 'Mo.', 'Montana': 'Mont.', 'Nebraska': 'Neb.',
+  'Nevada': 'Nev.', 'New Hampshire': 'N.H.', 'New Jersey': 'N.J.', 'New Mexico': 'N.M.',
+  'New York': 'N.Y.', 'North Carolina': 'N.C.', 'North Dakota': 'N.D.', 'Ohio': 'Ohio',
+  'Oklahoma': 'Okla.', 'Oregon': 'Or.', 'Pennsylvania': 'Pa.', 'Rhode Island': 'R.I.',
+  'South Carolina': 'S.C.', 'South Dakota': 'S.D.', 'Tennessee': 'Tenn.', 'Texas': 'Tex.',
+  'Utah': 'Utah', 'Vermont': 'Vt.', 'Virginia': 'Va.', 'Washington': 'Wash.',
+  'West Virginia': 'W. Va.', 'Wisconsin': 'Wis.', 'Wyoming': 'Wyo.',
+};
+
+const CIRCUIT_ORDINALS: Record<string, string> = {
+  first: '1st', second: '2d', third: '3d', fourth: '4th', fifth: '5th', sixth: '6th',
+  seventh: '7th', eighth: '8th', ninth: '9th', tenth: '10th', eleventh: '11th',
+};
+
+const DISTRICT_DIRECTIONS: Record<string, string> = {
+  northern: 'N.', southern: 'S.', eastern: 'E.', western: 'W.', central: 'C.', middle: 'M.',
+};
+
+const RULE_SETS: Record<string, string> = {
+  civ: 'Fed. R. Civ. P.',
+  crim: 'Fed. R. Crim. P.',
+  app: 'Fed. R. App. P.',
+  bankr: 'Fed. R. Bankr. P.',
+  evid: 'Fed. R. Evid.',
+};
+
+const RULE_SHORTHANDS: Record<string, string> = {
+  frcp: RULE_SETS.civ,
+  frcrp: RULE_SETS.crim,
+  frap: RULE_SETS.app,
+  frbp: RULE_SETS.bankr,
+  fre: RULE_SETS.evid,
+};
+
+// Parties that Bluebook Rule 10.9 says not to use alone as a short-form case name
+const GOVERNMENT_PARTIES = ['united states', 'state', 'people', 'commonwealth'];
+
+const reporterKey = (abbreviation: string) => abbreviation.toLowerCase().replace(/[\s.'’]/g, '');
+
+const REPORTERS_BY_KEY = new Map<string, Reporter>();
+for (const reporter of REPORTERS) {
+  for (const form of [reporter.abbreviation, ...(reporter.variants ?? [])]) {
+    REPORTERS_BY_KEY.set(reporterKey(form), reporter);
+  }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Known reporter abbreviations, longest first so "F. Supp. 2d" wins over "F.", with flexible spacing after periods
+const REPORTER_SOURCE = REPORTERS
+  .flatMap(reporter => [reporter.abbreviation, ...(reporter.variants ?? [])])
+  .sort((a, b) => b.length - a.length)
+  .map(form => escapeRegExp(form).replace(/\\\./g, '\\.\\s*').replace(/ /g, '\\s*').replace(/'/g, "['’]"))
+  .join('|');
+
+const PIN_SOURCE = String.raw`\d+(?:[-–]\d+)?`;
+const STATUTE_SOURCE = String.raw`(?<volume>\d+)\s+(?<code>U\.?\s?S\.?\s?C\.?(?:\s?A\.?)?|C\.?\s?F\.?\s?R\.?)\s*(?:§+|[Ss]ec(?:tion|\.)?)?\s*(?<section>\d+[A-Za-z0-9–-]*(?:\.\d+[A-Za-z0-9-]*)*(?:\([A-Za-z0-9]+\))*)(?:\s*\((?<paren>[^()]*?\d{4})\))?`;
+const RULE_SOURCE = String.raw`(?:Fed\.?\s*R\.?\s*(?<set>Civ|Crim|App|Bankr|Evid)\.?(?:\s*P\.?)?|(?<shorthand>FRCP|FRCrP|FRAP|FRBP|FRE)\b)\s*(?:Rule\s*)?(?<rule>\d+(?:\.\d+)?)(?<subdivisions>(?:\([A-Za-z0-9]+\))*)`;
+const LOCAL_RULE_SOURCE = String.raw`(?:Local\s+Rule|(?:Civ\.\s*)?L\.\s?R\.)\s*(?<rule>\d+(?:[.-]\d+)*)(?<subdivisions>(?:\([A-Za-z0-9]+\))*)`;
+const CONSTITUTION_SOURCE = String.raw`U\.\s?S\.\s?Const\.\s*(?<part>art\.|amend\.|pmbl\.)\s*(?<article>[IVXLC]+\b|\d+)?(?<clauses>(?:,\s*(?:§|cl\.)\s*\d+)*)`;
+const ID_SOURCE = String.raw`[Ii]d\.(?:\s+at\s+(?<pin>${PIN_SOURCE}))?`;
+
+// Words that can make up a party name in running text: capitalized words plus the
+// lowercase connectors that appear inside names ("Board of Education")
+const NAME_WORD = String.raw`(?:[A-Z][\w.'’&-]*|of|the|and|for|ex rel\.|&)`;
+// Names never run across a line break, so headings and list items are not swept into them
+const CASE_NAME_SOURCE = String.raw`(?:(?:In re|Ex parte)[ \t]+${NAME_WORD}(?:,?[ \t]+${NAME_WORD})*|${NAME_WORD}(?:,?[ \t]+${NAME_WORD})*[ \t]+v\.[ \t]+${NAME_WORD}(?:,?[ \t]+${NAME_WORD})*?)`;
+
+// Introductory signals and sentence words that are picked up in front of a case name in running
+// text, with the comma a transition word takes ("However, Smith v. Jones")
+const LEADING_WORDS = /^(?:(?:See|See also|Cf\.|But see|But cf\.|E\.g\.|Accord|Compare|Contra|In(?!\s+re\b)|Under|As|Also|Following|Citing|Quoting|Accordingly|Moreover|Similarly|Thus|However|Later|Then|Further|Furthermore|Additionally|Indeed|Notably|Nevertheless|Nonetheless|Likewise|Therefore|Here|There|Finally|First|Second|Third|Next|Still|Instead|And|But),?\s+)+/;
+
+const CASE_PATTERN = new RegExp(
+  '^(?:(?<name>.+?),\\s+)?' +
+  '(?<volume>\\d+)\\s+' +
+  '(?<reporter>[A-Za-z][A-Za-z0-9.\'’ ]*?)' +
+  '(?:\\s+\\((?<nominative>\\d+\\s+[A-Za-z. ]+)\\))?' +
+  '\\s+(?<page>\\d+|_+)\\b' +
+  '(?:,\\s*(?<pin>\\d+(?:[-–]\\d+)?(?:\\s*n\\.\\s*\\d+)?))?' +
+  '(?:\\s*\\((?<paren>[^)]*)\\))?$'
+);
+const SHORT_CASE_PATTERN = new RegExp(`^(?:(?<name>[^,]+),\\s+)?(?<volume>\\d+)\\s+(?<reporter>[A-Za-z][A-Za-z0-9.'’ ]*?)\\s+at\\s+(?<pin>${PIN_SOURCE})$`);
+const STATUTE_PATTERN = new RegExp(`^${STATUTE_SOURCE}$`, 'i');
+const RULE_PATTERN = new RegExp(`^${RULE_SOURCE}$`, 'i');
+const LOCAL_RULE_PATTERN = new RegExp(`^${LOCAL_RULE_SOURCE}$`, 'i');
+const CONSTITUTION_PATTERN = new RegExp(`^${CONSTITUTION_SOURCE}$`);
+const ID_PATTERN = new RegExp(`^${ID_SOURCE}$`);
+
+// Patterns for finding citations in running text; case citations must use a known reporter
+const TEXT_PATTERNS: RegExp[] = [
+  new RegExp(
+    `(?:[*_]*(?<name>${CASE_NAME_SOURCE})[*_]*,\\s+)?\\b(?<volume>\\d+)\\s+(?<reporter>${REPORTER_SOURCE})\\s+` +
+    `(?:\\((?<nominative>\\d+\\s+[A-Z][A-Za-z.]*)\\)\\s+)?(?<page>\\d+)\\b` +
+    `(?:,\\s*(?<pin>${PIN_SOURCE})(?!\\s+[A-Z]))?(?:\\s*\\((?<paren>[^()]*?\\d{4})\\))?`,
+    'g'
+  ),
+  new RegExp(
+    `(?:[*_]*(?<name>${NAME_WORD}(?:[ \\t]+${NAME_WORD})*)[*_]*,\\s+)?\\b(?<volume>\\d+)\\s+(?<reporter>${REPORTER_SOURCE})\\s+at\\s+(?<pin>${PIN_SOURCE})`,
+    'g'
+  ),
+  new RegExp(`\\b${STATUTE_SOURCE}`, 'g'),
+  new RegExp(`\\b${RULE_SOURCE}`, 'g'),
+  new RegExp(`\\b${LOCAL_RULE_SOURCE}`, 'g'),
+  new RegExp(CONSTITUTION_SOURCE, 'g'),
+  new RegExp(`[*_]*\\b${ID_SOURCE}[*_]*`, 'g'),
+];
+
+export interface ExtractedCitation {
+  citation: ParsedCitation;
+  start: number;
+  end: number;
+}
+
+/**
+ * Look up a reporter by any common spelling of its abbreviation (spacing and periods are ignored)
+ */
+export function normalizeReporter(abbreviation: string): Reporter | undefined {
+  return REPORTERS_BY_KEY.get(reporterKey(abbreviation));
+}
+
+/**
+ * Abbreviate a court name for a citation parenthetical ("United States Court of Appeals
+ * for the Ninth Circuit" becomes "9th Cir."). Returns an empty string for the Supreme Court
+ * and the name unchanged when it is not recognized.
+ */
+export function abbreviateCourt(court: string): string {
+  const name = court.trim();
+  if (!name) return '';
+  if (/^(supreme court of the united states|united states supreme court|u\.s\. supreme court|scotus)$/i.test(name)) {
+    return '';
+  }
+
+  const circuit = name.match(/(first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|eleventh|d\.c\.|federal)\s+circuit/i);
+  if (circuit) {
+    const which = circuit[1].toLowerCase();
+    if (which === 'd.c.') return 'D.C. Cir.';
+    if (which === 'federal') return 'Fed. Cir.';
+    return `${CIRCUIT_ORDINALS[which]} Cir.`;
+  }
+
+  const district = name.match(/(?:(northern|southern|eastern|western|central|middle)\s+)?district\s+of\s+([A-Za-z .]+)$/i);
+  if (district && STATE_ABBREVIATIONS[district[2].trim()]) {
+    const prefix = district[1] ? `${DISTRICT_DIRECTIONS[district[1].toLowerCase()]}D.` : 'D.';
+    return joinAbbreviations(prefix, STATE_ABBREVIATIONS[district[2].trim()]);
+  }
+
+  const stateHighCourt = name.match(/^(?:supreme court of ([A-Za-z ]+)|([A-Za-z ]+?) supreme court)$/i);
+  const state = stateHighCourt && (stateHighCourt[1] || stateHighCourt[2]).trim();
+  if (state && STATE_ABBREVIATIONS[state]) {
+    return STATE_ABBREVIATIONS[state];
+  }
+
+  return name;
+}
+
+// Adjacent single capitals close up ("S.D." + "N.Y." is "S.D.N.Y.") but "N.D." + "Cal." keeps its space
+function joinAbbreviations(prefix: string, state: string): string {
+  return /^([A-Z]\.)+$/.test(state) ? `${prefix}${state}` : `${prefix} ${state}`;
+}
+
+function parseParenthetical(paren: string | undefined): { court?: string; year?: number } {
+  if (!paren) return {};
+  const match = paren.trim().match(/^(.*?)\s*(\d{4})$/);
+  if (!match) return { court: paren.trim() || undefined };
+  return { court: match[1].trim() || undefined, year: parseInt(match[2], 10) };
+}
+
+/**
+ * Parse a single citation string. Recognizes full and short case citations, U.S.C. and
+ * C.F.R. sections, federal and local court rules, U.S. Constitution provisions and "Id."
+ * Returns null when the text is not a citation this parser understands.
+ */
+export function parseCitation(text: string): ParsedCitation | null {
+  const raw = text.trim().replace(/\s+/g, ' ').replace(/[;,]$/, '');
+  if (!raw) return null;
+  // A closing period may be sentence punctuation or part of an abbreviation, so try both
+  return matchCitation(raw, raw) ?? (raw.endsWith('.') ? matchCitation(raw.slice(0, -1), raw) : null);
+}
+
+function matchCitation(input: string, raw: string): ParsedCitation | null {
+  const id = input.match(ID_PATTERN);
+  if (id) return { type: 'id', raw, pinCite: id.groups?.pin };
+
+  const rule = input.match(RULE_PATTERN);
+  if (rule?.groups) return buildRule(rule.groups, raw);
+
+  const localRule = input.match(LOCAL_RULE_PATTERN);
+  if (localRule?.groups) return buildLocalRule(localRule.groups, raw);
+
+  const constitution = input.match(CONSTITUTION_PATTERN);
+  if (constitution?.groups) return buildConstitution(constitution.groups, raw);
+
+  const statute = input.match(STATUTE_PATTERN);
+  if (statute?.groups) return buildStatute(statute.groups, raw);
+
+  const shortCase = input.match(SHORT_CASE_PATTERN);
+  if (shortCase?.groups) return buildCase(shortCase.groups, raw);
+
+  const caseMatch = input.match(CASE_PATTERN);
+  if (caseMatch?.groups) return buildCase(caseMatch.groups, raw);
+
+  return null;
+}
+
+type MatchGroups = Record<string, string | undefined>;
+
+function buildCase(groups: MatchGroups, raw: string): ParsedCitation {
+  const { name, volume, reporter = '', nominative, page, pin, paren } = groups;
+  const known = normalizeReporter(reporter);
+  const caseName = name?.replace(LEADING_WORDS, '').trim().replace(/\s+vs?\.?\s+/i, ' v. ');
+  return {
+    type: 'case',
+    raw,
+    caseName: caseName || undefined,
+    volume,
+    reporter: known ? known.abbreviation : reporter.trim(),
+    nominativeReporter: nominative?.trim(),
+    page,
+    pinCite: pin?.replace(/\s+/g, ' '),
+    ...parseParenthetical(paren),
+  };
+}
+
+function buildStatute(groups: MatchGroups, raw: string): ParsedCitation {
+  const codeKey = (groups.code ?? '').toUpperCase().replace(/[\s.]/g, '');
+  const code = codeKey === 'CFR' ? 'C.F.R.' : codeKey === 'USCA' ? 'U.S.C.A.' : 'U.S.C.';
+  return {
+    type: 'statute',
+    raw,
+    volume: groups.volume,
+    code,
+    section: groups.section,
+    ...parseParenthetical(groups.paren),
+  };
+}
+
+function buildRule(groups: MatchGroups, raw: string): ParsedCitation {
+  const code = groups.set
+    ? RULE_SETS[groups.set.toLowerCase()]
+    : RULE_SHORTHANDS[(groups.shorthand ?? '').toLowerCase()];
+  return { type: 'rule', raw, code, section: groups.rule, pinCite: groups.subdivisions || undefined };
+}
+
+function buildLocalRule(groups: MatchGroups, raw: string): ParsedCitation {
+  return { type: 'rule', raw, code: 'L.R.', section: groups.rule, pinCite: groups.subdivisions || undefined };
+}
+
+function buildConstitution(groups: MatchGroups, raw: string): ParsedCitation {
+  const section = [groups.part, groups.article].filter(Boolean).join(' ');
+  const clauses = (groups.clauses ?? '').replace(/^,\s*/, '').replace(/\s+/g, ' ');
+  return { type: 'constitution', raw, code: 'U.S. Const.', section, pinCite: clauses || undefined };
+}
+
+const TEXT_BUILDERS: Array<(groups: MatchGroups, raw: string) => ParsedCitation> = [
+  buildCase,
+  buildCase,
+  buildStatute,
+  buildRule,
+  buildLocalRule,
+  buildConstitution,
+  (groups, raw) => ({ type: 'id', raw, pinCite: groups.pin }),
+];
+
+/**
+ * Find every citation in a block of text (a brief, an AI response) in reading order.
+ * Case citations are only recognized with a known reporter so ordinary numbers are not
+ * mistaken for citations; overlapping matches keep the earliest, longest one.
+ */
+export function extractCitations(text: string): ExtractedCitation[] {
+  const matches: ExtractedCitation[] = [];
+  TEXT_PATTERNS.forEach((pattern, index) => {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const raw = match[0].replace(/^[*_]+|[*_]+$/g, '');
+      matches.push({
+        citation: TEXT_BUILDERS[index](match.groups ?? {}, raw.replace(/\s+/g, ' ')),
+        start: start + match[0].indexOf(raw),
+        end: start + match[0].indexOf(raw) + raw.length,
+      });
+    }
+  });
+
+  matches.sort((a, b) => a.start - b.start || b.end - a.end);
+  const citations: ExtractedCitation[] = [];
+  for (const match of matches) {
+    const last = citations[citations.length - 1];
+    if (!last || match.start >= last.end) {
+      citations.push(match);
+    }
+  }
+  return citations;
+}
+
+function reporterFor(citation: ParsedCitation, style: CitationStyle): string {
+  const reporter = citation.reporter ? normalizeReporter(citation.reporter) : undefined;
+  if (!reporter) return citation.reporter ?? '';
+  return style === 'alwd' && reporter.alwdAbbreviation ? reporter.alwdAbbreviation : reporter.abbreviation;
+}
+
+function shortCaseName(caseName: string): string {
+  const parties = caseName.split(/\s+v\.\s+/);
+  const first = parties[0].trim();
+  if (parties.length > 1 && GOVERNMENT_PARTIES.includes(first.toLowerCase())) {
+    return parties[1].split(',')[0].trim();
+  }
+  return first.split(',')[0].trim();
+}
+
+// "§§" for a span of sections: written that way, or a numeric range like 1331-1332 (but not
+// a single hyphenated section such as 78j-1)
+function sectionSign(citation: ParsedCitation): string {
+  if (citation.raw.includes('§§')) return '§§';
+  const range = (citation.section ?? '').match(/^(\d+)[A-Za-z]*[-–](\d+)/);
+  return range && Number(range[2]) > Number(range[1]) ? '§§' : '§';
+}
+
+/**
+ * Render a full citation in Bluebook or ALWD form, without closing punctuation
+ */
+export function formatFullCitation(citation: ParsedCitation, style: CitationStyle = 'bluebook'): string {
+  switch (citation.type) {
+    case 'case': {
+      if (!citation.page) return formatShortCitation(citation, style);
+      const reporter = normalizeReporter(citation.reporter ?? '');
+      const nominative = citation.nominativeReporter ? ` (${citation.nominativeReporter})` : '';
+      const pin = citation.pinCite ? `, ${citation.pinCite}` : '';
+      const court = reporter?.impliesCourt ? '' : citation.court ?? '';
+      const parenthetical = [court, citation.year].filter(Boolean).join(' ');
+      const cite = `${citation.volume} ${reporterFor(citation, style)}${nominative} ${citation.page}${pin}`;
+      const name = citation.caseName ? `${citation.caseName}, ` : '';
+      return `${name}${cite}${parenthetical ? ` (${parenthetical})` : ''}`;
+    }
+    case 'statute':
+      return `${citation.volume} ${citation.code} ${sectionSign(citation)} ${citation.section}${citation.year ? ` (${citation.year})` : ''}`;
+    case 'rule':
+      return `${citation.code} ${citation.section}${citation.pinCite ?? ''}`;
+    case 'constitution':
+      return `${citation.code} ${citation.section}${citation.pinCite ? `, ${citation.pinCite}` : ''}`;
+    case 'id':
+      return citation.pinCite ? `Id. at ${citation.pinCite}` : 'Id.';
+  }
+}
+
+/**
+ * Render the short form used after an authority has been cited in full
+ */
+export function formatShortCitation(
+  citation: ParsedCitation,
+  style: CitationStyle = 'bluebook',
+  pinCite: string | undefined = citation.pinCite
+): string {
+  switch (citation.type) {
+    case 'case': {
+      const name = citation.caseName ? `${shortCaseName(citation.caseName)}, ` : '';
+      return `${name}${citation.volume} ${reporterFor(citation, style)} at ${pinCite ?? citation.page}`;
+    }
+    case 'statute':
+      return `${sectionSign(citation)} ${citation.section}`;
+    case 'rule':
+    case 'constitution':
+    case 'id':
+      return formatFullCitation({ ...citation, pinCite }, style);
+  }
+}
+
+/**
+ * Identify the authority a citation refers to, ignoring case pin cites, so repeated
+ * references to the same case, section or rule can be recognized
+ */
+export function authorityKey(citation: ParsedCitation): string {
+  switch (citation.type) {
+    case 'case':
+      return `case:${citation.volume}:${reporterKey(citation.reporter ?? '')}:${citation.page}`;
+    case 'statute':
+      return `statute:${citation.volume}:${citation.code}:${citation.section}`;
+    case 'rule':
+      return `rule:${citation.code}:${citation.section}${citation.pinCite ?? ''}`;
+    case 'constitution':
+      return `constitution:${citation.section}:${citation.pinCite ?? ''}`;
+    case 'id':
+      return 'id';
+  }
+}
+
+/**
+ * Work out which authority a citation points to: "Id." is the previous authority and a
+ * short-form case ("Roe, 410 U.S. at 153") is the earlier full citation to the same
+ * volume and reporter. The pin cite of the reference is kept. Returns null when the
+ * reference cannot be tied to an earlier citation.
+ */
+export function resolveCitation(
+  citation: ParsedCitation,
+  previous: ParsedCitation | null,
+  cited: ParsedCitation[]
+): ParsedCitation | null {
+  if (citation.type === 'id') {
+    return previous ? { ...previous, pinCite: citation.pinCite ?? (previous.type === 'case' ? undefined : previous.pinCite) } : null;
+  }
+  if (citation.type === 'case' && !citation.page) {
+    const full = cited.find(earlier =>
+      earlier.type === 'case' &&
+      earlier.volume === citation.volume &&
+      reporterKey(earlier.reporter ?? '') === reporterKey(citation.reporter ?? '')
+    );
+    return full ? { ...full, pinCite: citation.pinCite } : null;
+  }
+  return citation;
+}
+
+/**
+ * Format citations in the order they appear in a document: the first reference to an
+ * authority is cited in full, an immediately repeated authority becomes "Id." (with
+ * "at" and the new pin when it changes), and any later reference uses the short form.
+ */
+export function formatCitationSequence(citations: ParsedCitation[], style: CitationStyle = 'bluebook'): string[] {
+  const firstCited = new Map<string, ParsedCitation>();
+  let previous: ParsedCitation | null = null;
+
+  return citations.map(citation => {
+    const current = resolveCitation(citation, previous, [...firstCited.values()]);
+    if (!current) {
+      return formatFullCitation(citation, style);
+    }
+
+    const key = authorityKey(current);
+    const first = firstCited.get(key);
+    let formatted: string;
+
+    if (previous && authorityKey(previous) === key) {
+      const samePin = !current.pinCite || current.pinCite === previous.pinCite;
+      formatted = samePin || current.type !== 'case' ? 'Id.' : `Id. at ${current.pinCite}`;
+    } else if (first) {
+      formatted = formatShortCitation({ ...current, caseName: current.caseName ?? first.caseName }, style);
+    } else {
+      formatted = formatFullCitation(current, style);
+      firstCited.set(key, current);
+    }
+
+    previous = current;
+    return formatted;
+  });
+}
+
+/**
+ * Build the full citation for a search result or case record from its title, reporter
+ * citation, court name and decision date. Falls back to "title, citation" when the
+ * citation cannot be parsed (foreign reporters, docket numbers).
+ */
+export function formatCaseCitation(input: CaseCitationInput, style: CitationStyle = 'bluebook'): string {
+  const parsed = parseCitation(input.citation);
+  if (!parsed || parsed.type !== 'case') {
+    return [input.title, input.citation].filter(Boolean).join(', ');
+  }
+
+  // Read the year straight from the ISO date so a January 1 decision is not shifted by the time zone
+  const dateYear = input.date?.match(/^(\d{4})/);
+  return formatFullCitation({
+    ...parsed,
+    caseName: parsed.caseName ?? input.title,
+    court: parsed.court ?? (input.court ? abbreviateCourt(input.court) : undefined),
+    year: parsed.year ?? (dateYear ? parseInt(dateYear[1], 10) : undefined),
+  }, style);
+}
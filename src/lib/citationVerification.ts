@@ -0,0 +1,216 @@
+/**
+ * Citation verification service
+ * Checks every case citation in AI-generated text against the CourtListener citation
+ * lookup and reports whether it exists and matches the cited case name and year.
+ */
+import { CacheService } from './cacheService';
+import {
+  authorityKey,
+  extractCitations,
+  parseCitation,
+  resolveCitation,
+  type ParsedCitation,
+} from './citationParser';
+import {
+  lookupCitations,
+  type CitationLookupCluster,
+  type CitationLookupResult,
+  type CourtListenerTransport,
+} from './courtListener';
+
+export type CitationVerificationStatus = 'verified' | 'not-found' | 'name-mismatch' | 'year-mismatch' | 'unchecked';
+
+export interface CitationMatch {
+  caseName: string;
+  dateFiled: string;
+  url: string;
+}
+
+export interface CitationVerification {
+  // The full citation the reference points to (short forms resolve to their full citation)
+  citation: ParsedCitation;
+  start: number;
+  end: number;
+  status: CitationVerificationStatus;
+  message: string;
+  match?: CitationMatch;
+}
+
+export interface VerifyCitationsOptions {
+  transport?: CourtListenerTransport;
+}
+
+export const CITATION_STATUS_LABELS: Record<CitationVerificationStatus, string> = {
+  verified: 'Verified',
+  'not-found': 'Not found',
+  'name-mismatch': 'Case name mismatch',
+  'year-mismatch': 'Year mismatch',
+  unchecked: 'Not checked',
+};
+
+const CACHE_PREFIX = 'citation-verification';
+
+// Words that do not identify a party and are left out when comparing case names
+const NAME_STOPWORDS = new Set([
+  'v', 'vs', 'the', 'of', 'and', 'a', 'an', 'in', 're', 'ex', 'rel', 'parte', 'et', 'al',
+  'inc', 'co', 'corp', 'corporation', 'company', 'llc', 'ltd', 'lp', 'na',
+  'united', 'states', 'state', 'people', 'commonwealth',
+]);
+
+const nameTokens = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 1 && !NAME_STOPWORDS.has(token));
+
+/**
+ * True when every party in the cited case name shares a significant word with the
+ * CourtListener case name. Reporter names are often longer ("Jane Roe, et al. v. Henry
+ * Wade, District Attorney"), so the comparison is by word rather than exact string.
+ */
+function caseNameMatches(caseName: string | undefined, cluster: CitationLookupCluster): boolean {
+  if (!caseName) return true;
+  const clusterTokens = new Set(nameTokens(`${cluster.case_name} ${cluster.case_name_short ?? ''}`));
+  return caseName
+    .split(/\s+v\.\s+/)
+    .map(nameTokens)
+    .filter(tokens => tokens.length > 0)
+    .every(tokens => tokens.some(token => clusterTokens.has(token)));
+}
+
+const toMatch = (cluster: CitationLookupCluster): CitationMatch => ({
+  caseName: cluster.case_name,
+  dateFiled: cluster.date_filed,
+  url: `https://www.courtlistener.com${cluster.absolute_url}`,
+});
+
+function verifyAgainstLookup(
+  citation: ParsedCitation,
+  result: CitationLookupResult | undefined
+): Pick<CitationVerification, 'status' | 'message' | 'match'> {
+  // A lookup answer that could not be tied to this citation says nothing about whether it exists
+  if (!result) {
+    return { status: 'unchecked', message: "CourtListener's answer could not be matched to this citation." };
+  }
+  // A skipped lookup comes back with no clusters too, so it must be told apart from a miss first
+  if (result.status === 429) {
+    return { status: 'unchecked', message: 'Too many citations in one request; this one was not looked up.' };
+  }
+  if (result.status === 400) {
+    return { status: 'not-found', message: result.error_message || 'CourtListener does not recognize this reporter.' };
+  }
+  if (result.status === 404 || result.clusters.length === 0) {
+    return { status: 'not-found', message: 'CourtListener has no case at this citation.' };
+  }
+
+  const named = result.clusters.filter(cluster => caseNameMatches(citation.caseName, cluster));
+  if (named.length === 0) {
+    const cluster = result.clusters[0];
+    return {
+      status: 'name-mismatch',
+      message: `This citation belongs to ${cluster.case_name}.`,
+      match: toMatch(cluster),
+    };
+  }
+
+  if (citation.year) {
+    const dated = named.find(cluster => cluster.date_filed?.startsWith(String(citation.year)));
+    if (!dated) {
+      const cluster = named[0];
+      return {
+        status: 'year-mismatch',
+        message: `CourtListener dates this decision ${cluster.date_filed?.slice(0, 4) || 'differently'}, not ${citation.year}.`,
+        match: toMatch(cluster),
+      };
+    }
+    return { status: 'verified', message: `Matches ${dated.case_name}.`, match: toMatch(dated) };
+  }
+
+  return { status: 'verified', message: `Matches ${named[0].case_name}.`, match: toMatch(named[0]) };
+}
+
+/**
+ * Find the case citations in text (full citations and short forms that refer back to them)
+ * paired with the full citation each one points to
+ */
+function findCaseReferences(text: string): Array<{ citation: ParsedCitation; start: number; end: number }> {
+  const cited: ParsedCitation[] = [];
+  const references: Array<{ citation: ParsedCitation; start: number; end: number }> = [];
+  let previous: ParsedCitation | null = null;
+
+  for (const { citation, start, end } of extractCitations(text)) {
+    const resolved = resolveCitation(citation, previous, cited);
+    if (!resolved) continue;
+    previous = resolved;
+    if (resolved.type !== 'case' || citation.type === 'id') continue;
+
+    if (citation.page) cited.push(citation);
+    references.push({ citation: { ...resolved, pinCite: undefined }, start, end });
+  }
+  return references;
+}
+
+/**
+ * Verify every case citation in a block of text against CourtListener.
+ * Each distinct case is looked up once; when the lookup itself fails every citation is
+ * reported as unchecked rather than verified. Results are cached by text.
+ */
+export async function verifyCitations(
+  text: string,
+  options: VerifyCitationsOptions = {}
+): Promise<CitationVerification[]> {
+  const references = findCaseReferences(text);
+  if (references.length === 0) return [];
+
+  const cached = CacheService.get<CitationVerification[]>(CACHE_PREFIX, { text });
+  if (cached) return cached;
+
+  // Keep the fullest citation seen for each case (a later cite may add the name or year)
+  const cases = new Map<string, ParsedCitation>();
+  for (const { citation } of references) {
+    const key = authorityKey(citation);
+    const known = cases.get(key);
+    cases.set(key, {
+      ...citation,
+      caseName: known?.caseName ?? citation.caseName,
+      year: known?.year ?? citation.year,
+    });
+  }
+
+  let results: Map<string, CitationLookupResult>;
+  try {
+    // One case per line, so a result can be traced back to its case by where it was found
+    const lines: Array<{ key: string; text: string; start: number; end: number }> = [];
+    let offset = 0;
+    for (const [key, citation] of cases) {
+      const text = `${citation.volume} ${citation.reporter} ${citation.page}`;
+      lines.push({ key, text, start: offset, end: offset + text.length });
+      offset += text.length + 1;
+    }
+    const lookupText = lines.map(line => line.text).join('\n');
+    const lookup = await lookupCitations(lookupText, options.transport);
+
+    results = new Map();
+    for (const result of lookup) {
+      const line = lines.find(candidate => result.start_index >= candidate.start && result.start_index < candidate.end);
+      if (line) results.set(line.key, result);
+      for (const normalized of [result.citation, ...(result.normalized_citations ?? [])]) {
+        const parsed = parseCitation(normalized);
+        if (parsed?.type === 'case' && cases.has(authorityKey(parsed))) results.set(authorityKey(parsed), result);
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Citation lookup failed.';
+    return references.map(reference => ({ ...reference, status: 'unchecked', message }));
+  }
+
+  const verifications = references.map(reference => {
+    const key = authorityKey(reference.citation);
+    const citation = cases.get(key) ?? reference.citation;
+    return { ...reference, citation, ...verifyAgainstLookup(citation, results.get(key)) };
+  });
+
+  CacheService.set(CACHE_PREFIX, { text }, verifications);
+  return verifications;
+}
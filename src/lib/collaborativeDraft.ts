@@ -0,0 +1,410 @@
+/**
+ * Collaborative drafts
+ * A shared draft is a Yjs document: its text and case fields merge edit by edit, so people
+ * typing at once never overwrite each other. DraftSyncProvider relays updates and presence
+ * (who is here, their role and cursor) over a SyncTransport: a Supabase Realtime broadcast
+ * channel in the app, an InMemorySyncNetwork in tests. Edits made while disconnected stay in
+ * the local document; on reconnecting, the peers swap state vectors and send each other what
+ * the other is missing, so both sides' offline edits are merged.
+ */
+import * as Y from 'yjs';
+import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate, removeAwarenessStates } from 'y-protocols/awareness';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+export type CollaborationRole = 'owner' | 'admin' | 'editor' | 'member' | 'viewer';
+
+export const COLLABORATION_ROLE_LABELS: Record<CollaborationRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  editor: 'Editor',
+  member: 'Member',
+  viewer: 'Viewer',
+};
+
+export const canEditRole = (role: CollaborationRole | null) => Boolean(role) && role !== 'viewer';
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected';
+
+// Binary Yjs payloads travel base64-encoded, since broadcast payloads are JSON
+export type SyncMessage =
+  // A peer's state vector; the others answer with what it is missing
+  | { type: 'sync-step1'; from: number; stateVector: string; reply: boolean }
+  | { type: 'sync-step2'; from: number; to: number; update: string }
+  | { type: 'update'; from: number; update: string }
+  | { type: 'awareness'; from: number; update: string };
+
+export const SYNC_MESSAGE_TYPES: SyncMessage['type'][] = ['sync-step1', 'sync-step2', 'update', 'awareness'];
+
+export interface SyncTransport {
+  subscribe(onMessage: (message: SyncMessage) => void, onStatus: (status: ConnectionStatus) => void): void;
+  send(message: SyncMessage): void;
+  close(): void;
+}
+
+export interface DraftFieldValues {
+  content: string;
+  caseTitle: string;
+  caseNumber: string;
+}
+
+export interface PresenceState {
+  user: { id: string; name: string; color: string };
+  role: CollaborationRole;
+  // Yjs relative positions, so the cursor stays put as others edit around it
+  cursor: { anchor: unknown; head: unknown } | null;
+}
+
+export interface Collaborator {
+  clientId: number;
+  name: string;
+  color: string;
+  role: CollaborationRole;
+}
+
+export interface RemoteCursor extends Collaborator {
+  anchor: number;
+  head: number;
+}
+
+const TEXT_KEY = 'content';
+const FIELDS_KEY = 'fields';
+// Client id every peer seeds a new shared draft with, so identical seeds merge into one copy
+const SEED_CLIENT_ID = 0;
+
+export const PRESENCE_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#db2777', '#65a30d'];
+
+export const presenceColor = (userId: string) => {
+  let hash = 0;
+  for (const char of userId) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return PRESENCE_COLORS[hash % PRESENCE_COLORS.length];
+};
+
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const fromBase64 = (encoded: string) => Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+
+export const draftText = (doc: Y.Doc) => doc.getText(TEXT_KEY);
+const draftFieldMap = (doc: Y.Doc) => doc.getMap<string>(FIELDS_KEY);
+
+/**
+ * Initial state of a draft that has never been shared. Written under a fixed client id, so
+ * when two people open the draft at once their seeds are the same insertions and merge,
+ * rather than the text appearing twice.
+ */
+export function seedDraftState(fields: DraftFieldValues): Uint8Array {
+  const seed = new Y.Doc();
+  seed.clientID = SEED_CLIENT_ID;
+  seed.transact(() => {
+    draftText(seed).insert(0, fields.content);
+    draftFieldMap(seed).set('caseTitle', fields.caseTitle);
+    draftFieldMap(seed).set('caseNumber', fields.caseNumber);
+  });
+  const state = Y.encodeStateAsUpdate(seed);
+  seed.destroy();
+  return state;
+}
+
+export function readDraftFields(doc: Y.Doc): DraftFieldValues {
+  const fields = draftFieldMap(doc);
+  return {
+    content: draftText(doc).toString(),
+    caseTitle: fields.get('caseTitle') ?? '',
+    caseNumber: fields.get('caseNumber') ?? '',
+  };
+}
+
+/**
+ * Apply an edit to the shared text as the smallest delete and insert, so concurrent edits
+ * elsewhere in the draft survive
+ */
+export function applyTextChange(text: Y.Text, next: string): void {
+  const current = text.toString();
+  if (current === next) return;
+
+  let start = 0;
+  while (start < current.length && start < next.length && current[start] === next[start]) start++;
+  let end = 0;
+  while (end < current.length - start && end < next.length - start && current[current.length - 1 - end] === next[next.length - 1 - end]) end++;
+
+  text.doc.transact(() => {
+    if (current.length - start - end > 0) text.delete(start, current.length - start - end);
+    if (next.length - start - end > 0) text.insert(start, next.slice(start, next.length - end));
+  });
+}
+
+export function setDraftField(doc: Y.Doc, field: 'caseTitle' | 'caseNumber', value: string): void {
+  if (draftFieldMap(doc).get(field) !== value) draftFieldMap(doc).set(field, value);
+}
+
+/**
+ * Relays a draft's updates and presence between peers
+ */
+export class DraftSyncProvider {
+  readonly awareness: Awareness;
+  status: ConnectionStatus = 'connecting';
+  private readonly canEdit: boolean;
+  private readonly onStatus?: (status: ConnectionStatus) => void;
+
+  constructor(
+    readonly doc: Y.Doc,
+    private readonly transport: SyncTransport,
+    options: { canEdit: boolean; onStatus?: (status: ConnectionStatus) => void }
+  ) {
+    this.canEdit = options.canEdit;
+    this.onStatus = options.onStatus;
+    this.awareness = new Awareness(doc);
+    doc.on('update', this.handleDocUpdate);
+    this.awareness.on('update', this.handleAwarenessUpdate);
+    transport.subscribe(this.handleMessage, this.handleStatus);
+  }
+
+  private send(message: SyncMessage) {
+    if (this.status === 'connected') this.transport.send(message);
+  }
+
+  private sendStateVector(reply: boolean) {
+    this.send({ type: 'sync-step1', from: this.doc.clientID, stateVector: toBase64(Y.encodeStateVector(this.doc)), reply });
+  }
+
+  private sendLocalPresence() {
+    if (this.awareness.getLocalState() === null) return;
+    this.send({ type: 'awareness', from: this.doc.clientID, update: toBase64(encodeAwarenessUpdate(this.awareness, [this.doc.clientID])) });
+  }
+
+  private handleDocUpdate = (update: Uint8Array, origin: unknown) => {
+    // Viewers' documents only ever change by applying others' updates
+    if (origin === this || !this.canEdit) return;
+    this.send({ type: 'update', from: this.doc.clientID, update: toBase64(update) });
+  };
+
+  private handleAwarenessUpdate = (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ) => {
+    if (origin === this) return;
+    const changed = [...added, ...updated, ...removed].filter(clientId => clientId === this.doc.clientID);
+    if (changed.length === 0) return;
+    this.send({ type: 'awareness', from: this.doc.clientID, update: toBase64(encodeAwarenessUpdate(this.awareness, changed)) });
+  };
+
+  private handleStatus = (status: ConnectionStatus) => {
+    this.status = status;
+    if (status === 'connected') {
+      this.sendStateVector(false);
+      this.sendLocalPresence();
+    } else if (status === 'disconnected') {
+      // Whoever was here may have left while we could not hear them
+      const remote = [...this.awareness.getStates().keys()].filter(clientId => clientId !== this.doc.clientID);
+      removeAwarenessStates(this.awareness, remote, this);
+    }
+    this.onStatus?.(status);
+  };
+
+  private handleMessage = (message: SyncMessage) => {
+    if (message.from === this.doc.clientID) return;
+    switch (message.type) {
+      case 'sync-step1':
+        if (this.canEdit) {
+          const missing = Y.encodeStateAsUpdate(this.doc, fromBase64(message.stateVector));
+          this.send({ type: 'sync-step2', from: this.doc.clientID, to: message.from, update: toBase64(missing) });
+        }
+        // Ask the newcomer for whatever it wrote offline, and introduce ourselves
+        if (!message.reply) this.sendStateVector(true);
+        this.sendLocalPresence();
+        break;
+      case 'sync-step2':
+        if (message.to === this.doc.clientID) Y.applyUpdate(this.doc, fromBase64(message.update), this);
+        break;
+      case 'update':
+        Y.applyUpdate(this.doc, fromBase64(message.update), this);
+        break;
+      case 'awareness':
+        applyAwarenessUpdate(this.awareness, fromBase64(message.update), this);
+        break;
+    }
+  };
+
+  destroy() {
+    // Tell the others we left before the channel closes
+    this.awareness.setLocalState(null);
+    this.doc.off('update', this.handleDocUpdate);
+    this.awareness.off('update', this.handleAwarenessUpdate);
+    this.awareness.destroy();
+    this.transport.close();
+  }
+}
+
+interface InMemoryPeer {
+  online: boolean;
+  onMessage?: (message: SyncMessage) => void;
+  onStatus?: (status: ConnectionStatus) => void;
+}
+
+/**
+ * Peers in one process that deliver messages synchronously, in order, for tests. A peer
+ * taken offline neither sends nor receives until it comes back.
+ */
+export class InMemorySyncNetwork {
+  private readonly peers = new Set<InMemoryPeer>();
+  private readonly queue: Array<{ sender: InMemoryPeer; message: SyncMessage }> = [];
+  private delivering = false;
+
+  transport(): SyncTransport & { setOnline(online: boolean): void } {
+    const peer: InMemoryPeer = { online: true };
+    this.peers.add(peer);
+    return {
+      subscribe: (onMessage, onStatus) => {
+        peer.onMessage = onMessage;
+        peer.onStatus = onStatus;
+        onStatus('connected');
+      },
+      send: message => {
+        if (!peer.online) return;
+        this.queue.push({ sender: peer, message: JSON.parse(JSON.stringify(message)) });
+        this.deliver();
+      },
+      close: () => {
+        this.peers.delete(peer);
+      },
+      setOnline: online => {
+        if (peer.online === online) return;
+        peer.online = online;
+        peer.onStatus?.(online ? 'connected' : 'disconnected');
+      },
+    };
+  }
+
+  private deliver() {
+    if (this.delivering) return;
+    this.delivering = true;
+    try {
+      while (this.queue.length > 0) {
+        const { sender, message } = this.queue.shift();
+        this.peers.forEach(peer => {
+          if (peer !== sender && peer.online) peer.onMessage?.(message);
+        });
+      }
+    } finally {
+      this.delivering = false;
+    }
+  }
+}
+
+/**
+ * Broadcast channel for one draft. The channel is private, so Realtime checks the
+ * draft_collaboration_role policies before anyone joins or sends.
+ */
+export function createRealtimeTransport(draftId: string): SyncTransport {
+  let channel: RealtimeChannel | null = null;
+  return {
+    subscribe(onMessage, onStatus) {
+      onStatus('connecting');
+      channel = supabase.channel(`draft:${draftId}`, { config: { private: true, broadcast: { self: false } } });
+      SYNC_MESSAGE_TYPES.forEach(event => {
+        channel.on('broadcast', { event }, ({ payload }) => onMessage(payload as SyncMessage));
+      });
+      channel.subscribe((status, error) => {
+        if (status === 'SUBSCRIBED') {
+          onStatus('connected');
+          return;
+        }
+        if (error) console.warn('[Collaboration] Channel error', error);
+        onStatus('disconnected');
+      });
+    },
+    send(message) {
+      channel?.send({ type: 'broadcast', event: message.type, payload: message });
+    },
+    close() {
+      if (channel) supabase.removeChannel(channel);
+      channel = null;
+    },
+  };
+}
+
+/**
+ * A presence cursor as offsets into the text, or null if its text has gone
+ */
+export function absoluteCursor(cursor: PresenceState['cursor'], doc: Y.Doc): { anchor: number; head: number } | null {
+  if (!cursor) return null;
+  const anchor = Y.createAbsolutePositionFromRelativePosition(Y.createRelativePositionFromJSON(cursor.anchor), doc);
+  const head = Y.createAbsolutePositionFromRelativePosition(Y.createRelativePositionFromJSON(cursor.head), doc);
+  return anchor && head ? { anchor: anchor.index, head: head.index } : null;
+}
+
+/**
+ * The other people in the draft, one entry per open editor
+ */
+export function presentCollaborators(awareness: Awareness, doc: Y.Doc): Collaborator[] {
+  const collaborators: Collaborator[] = [];
+  awareness.getStates().forEach((state, clientId) => {
+    const presence = state as Partial<PresenceState>;
+    if (clientId === doc.clientID || !presence.user) return;
+    collaborators.push({ clientId, name: presence.user.name, color: presence.user.color, role: presence.role });
+  });
+  return collaborators;
+}
+
+/**
+ * Where the other people in the draft have their cursors
+ */
+export function remoteCursors(awareness: Awareness, doc: Y.Doc): RemoteCursor[] {
+  return presentCollaborators(awareness, doc).flatMap(collaborator => {
+    const cursor = absoluteCursor((awareness.getStates().get(collaborator.clientId) as PresenceState).cursor, doc);
+    return cursor ? [{ ...collaborator, ...cursor }] : [];
+  });
+}
+
+/**
+ * A selection in the shared text as relative positions for the presence state
+ */
+export const cursorPosition = (doc: Y.Doc, anchor: number, head: number): PresenceState['cursor'] => ({
+  anchor: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(draftText(doc), anchor)),
+  head: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(draftText(doc), head)),
+});
+
+/**
+ * The user's role in a draft: owner of their own drafts, otherwise their role in the
+ * collaboration it is shared with, or null without access
+ */
+export async function loadCollaborationRole(
+  userId: string,
+  draft: { user_id: string; collaboration_id?: string | null }
+): Promise<CollaborationRole | null> {
+  if (draft.user_id === userId) return 'owner';
+  if (!draft.collaboration_id) return null;
+  const { data, error } = await supabase
+    .from('collaboration_members')
+    .select('role')
+    .eq('collaboration_id', draft.collaboration_id)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw new Error(error.message || 'Failed to load collaboration role');
+  const role = data?.role as CollaborationRole | undefined;
+  return role && role in COLLABORATION_ROLE_LABELS ? role : null;
+}
+
+/**
+ * Collaborations the user owns or belongs to, to share a draft with
+ */
+export async function listUserCollaborations(userId: string): Promise<Array<{ id: string; name: string }>> {
+  const { data: memberships, error: membershipError } = await supabase
+    .from('collaboration_members')
+    .select('collaboration_id')
+    .eq('user_id', userId);
+  if (membershipError) throw new Error(membershipError.message || 'Failed to load collaborations');
+
+  const ids = (memberships ?? []).map(membership => membership.collaboration_id);
+  let query = supabase.from('collaborations').select('id, name');
+  query = ids.length > 0 ? query.or(`owner_id.eq.${userId},id.in.(${ids.join(',')})`) : query.eq('owner_id', userId);
+  const { data, error } = await query.order('name');
+  if (error) throw new Error(error.message || 'Failed to load collaborations');
+  return data ?? [];
+}
@@ -0,0 +1,314 @@
+/**
+ * Conflict of interest checking
+ * Indexes every name the firm already knows (clients, opposing parties and counsel on cases,
+ * and parties found in analyzed documents) and fuzzy-matches intake names against it.
+ * A check with hits must be cleared or waived, and the decision is written to an audit record.
+ */
+import { supabase } from './supabase';
+
+export type ConflictPartyRole = 'client' | 'opposing_party' | 'opposing_counsel' | 'document_party';
+export type ConflictMatchType = 'exact' | 'strong' | 'possible';
+export type ConflictDecision = 'cleared' | 'waived';
+export type ConflictSubjectType = 'client' | 'case';
+
+export interface ConflictParty {
+  name: string;
+  role: ConflictPartyRole;
+  // Where the name came from: the client, case or conflict_parties row
+  sourceId: string;
+  // Human readable context, e.g. the case title or document
+  sourceLabel: string;
+  clientId?: string | null;
+  caseId?: string | null;
+}
+
+export interface ConflictHit {
+  searchedName: string;
+  party: ConflictParty;
+  score: number;
+  matchType: ConflictMatchType;
+}
+
+export interface ConflictReport {
+  searchedNames: string[];
+  hits: ConflictHit[];
+  checkedAt: string;
+}
+
+export interface ConflictDecisionInput {
+  subjectType: ConflictSubjectType;
+  decision: ConflictDecision;
+  notes?: string;
+}
+
+export const CONFLICT_ROLE_LABELS: Record<ConflictPartyRole, string> = {
+  client: 'Existing client',
+  opposing_party: 'Opposing party',
+  opposing_counsel: 'Opposing counsel',
+  document_party: 'Party in document',
+};
+
+export const STRONG_MATCH_THRESHOLD = 0.93;
+export const POSSIBLE_MATCH_THRESHOLD = 0.86;
+
+// Entity suffixes, honorifics and generational suffixes that do not distinguish one party from another
+const NOISE_WORDS = new Set([
+  'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'llc', 'llp', 'lp', 'ltd', 'limited',
+  'plc', 'pc', 'pllc', 'pa', 'gmbh', 'ag', 'sa', 'sarl', 'nv', 'bv', 'srl', 'spa', 'pty', 'kg', 'oy', 'ab',
+  'na', 'the', 'and', 'of',
+  'mr', 'mrs', 'ms', 'dr', 'esq', 'jr', 'sr', 'ii', 'iii', 'iv',
+]);
+
+// Multi-letter dotted suffixes collapse to these once punctuation is removed
+const SPACED_SUFFIXES: Array<[RegExp, string]> = [
+  [/\bl l c\b/g, 'llc'],
+  [/\bl l p\b/g, 'llp'],
+  [/\bl p\b/g, 'lp'],
+  [/\bp c\b/g, 'pc'],
+  [/\bs a\b/g, 'sa'],
+  [/\bn v\b/g, 'nv'],
+  [/\bn a\b/g, 'na'],
+  [/\bet al\b/g, ''],
+];
+
+// Letters that Unicode normalization does not decompose to ASCII
+const TRANSLITERATIONS: Record<string, string> = {
+  ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', ł: 'l', đ: 'd', ð: 'd', þ: 'th', ı: 'i', '&': ' and ',
+};
+
+// Common nicknames and romanization variants, mapped to one canonical given name
+const NAME_VARIANTS: Record<string, string> = {
+  alex: 'alexander', aleksandr: 'alexander', alexandr: 'alexander', alejandro: 'alexander',
+  andy: 'andrew', drew: 'andrew', tony: 'anthony', ben: 'benjamin', benji: 'benjamin',
+  bob: 'robert', bobby: 'robert', rob: 'robert', robbie: 'robert', bert: 'robert',
+  bill: 'william', billy: 'william', will: 'william', willy: 'william', liam: 'william',
+  chuck: 'charles', charlie: 'charles', chris: 'christopher', kit: 'christopher',
+  dan: 'daniel', danny: 'daniel', dave: 'david', davey: 'david', dick: 'richard', rick: 'richard', rich: 'richard', richie: 'richard',
+  ed: 'edward', eddie: 'edward', ted: 'edward', ned: 'edward', greg: 'gregory',
+  jim: 'james', jimmy: 'james', jamie: 'james', jack: 'john', johnny: 'john', jon: 'john', ivan: 'john', juan: 'john', johann: 'john',
+  joe: 'joseph', joey: 'joseph', jose: 'joseph', josef: 'joseph', larry: 'lawrence', matt: 'matthew', mike: 'michael', mick: 'michael', mikhail: 'michael',
+  nick: 'nicholas', nicky: 'nicholas', nikolai: 'nicholas', pat: 'patrick', pete: 'peter', pyotr: 'peter', pedro: 'peter',
+  ron: 'ronald', ronnie: 'ronald', sam: 'samuel', sammy: 'samuel', steve: 'stephen', steven: 'stephen', stefan: 'stephen',
+  tom: 'thomas', tommy: 'thomas', tim: 'timothy', walt: 'walter', hank: 'henry', harry: 'henry',
+  abby: 'abigail', beth: 'elizabeth', betty: 'elizabeth', liz: 'elizabeth', lizzie: 'elizabeth', eliza: 'elizabeth',
+  cathy: 'catherine', kate: 'catherine', katie: 'catherine', kathy: 'catherine', katherine: 'catherine', kathryn: 'catherine', ekaterina: 'catherine', yekaterina: 'catherine',
+  jen: 'jennifer', jenny: 'jennifer', jess: 'jessica', jessie: 'jessica', maggie: 'margaret', meg: 'margaret', peggy: 'margaret',
+  mandy: 'amanda', patty: 'patricia', trish: 'patricia', sue: 'susan', susie: 'susan', vicky: 'victoria', debbie: 'deborah', deb: 'deborah',
+  mohammed: 'muhammad', mohammad: 'muhammad', mohamed: 'muhammad', muhammed: 'muhammad', mohamad: 'muhammad',
+  yousef: 'yusuf', youssef: 'yusuf', yusef: 'yusuf', yosef: 'yusuf', hussain: 'hussein', husain: 'hussein',
+  sergei: 'sergey', sergiy: 'sergey', dmitri: 'dmitry', dmitriy: 'dmitry', yuri: 'yury', yuriy: 'yury',
+  tchaikovsky: 'chaikovsky', tschaikowsky: 'chaikovsky',
+};
+
+/**
+ * Canonical form of a name for matching: ASCII, lowercase, no punctuation, corporate suffixes
+ * removed, nicknames expanded and tokens sorted so word order does not matter
+ */
+export function normalizeName(name: string): string {
+  return nameTokens(name).sort().join(' ');
+}
+
+function nameTokens(name: string): string[] {
+  let text = name.toLowerCase();
+  text = text.replace(/[ßæœøłđðþı&]/g, char => TRANSLITERATIONS[char] ?? char);
+  text = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  text = text.replace(/['’`]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+  for (const [pattern, replacement] of SPACED_SUFFIXES) text = text.replace(pattern, replacement);
+
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const meaningful = tokens.filter(token => !NOISE_WORDS.has(token));
+  // A name made only of noise words ("The Company") is kept as-is
+  return (meaningful.length > 0 ? meaningful : tokens).map(token => NAME_VARIANTS[token] ?? token);
+}
+
+/**
+ * Jaro-Winkler similarity between two strings, from 0 to 1
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * How closely two names match after normalization, from 0 to 1
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const aTokens = nameTokens(a);
+  const bTokens = nameTokens(b);
+  if (aTokens.length === 0 || bTokens.length === 0) return 0;
+
+  if ([...aTokens].sort().join(' ') === [...bTokens].sort().join(' ')) return 1;
+
+  // Pair each token of the shorter name with its closest token in the longer one, so
+  // "Jon Smyth" still lines up with "John Smith". The weakest pairing counts as much as the
+  // average, which keeps "John Smith" and "Jane Smith" apart.
+  const [shorter, longer] = aTokens.length <= bTokens.length ? [aTokens, bTokens] : [bTokens, aTokens];
+  const best = shorter.map(token => Math.max(...longer.map(candidate => jaroWinkler(token, candidate))));
+  const average = best.reduce((sum, score) => sum + score, 0) / best.length;
+  const tokenScore = (average + Math.min(...best)) / 2;
+
+  // Extra words in the longer name ("Acme" vs "Acme Holdings") cost a little
+  const coverage = shorter.length / longer.length;
+  return tokenScore * (0.9 + 0.1 * coverage);
+}
+
+/**
+ * Match intake names against the conflict index, strongest hits first
+ */
+export function findConflicts(
+  names: string[],
+  index: ConflictParty[],
+  threshold: number = POSSIBLE_MATCH_THRESHOLD
+): ConflictHit[] {
+  const hits: ConflictHit[] = [];
+  for (const searchedName of names) {
+    if (!searchedName.trim()) continue;
+    for (const party of index) {
+      const score = nameSimilarity(searchedName, party.name);
+      if (score < threshold) continue;
+      hits.push({
+        searchedName,
+        party,
+        score: Math.round(score * 1000) / 1000,
+        matchType: score === 1 ? 'exact' : score >= STRONG_MATCH_THRESHOLD ? 'strong' : 'possible',
+      });
+    }
+  }
+  return hits.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Every name the firm already has a relationship with
+ */
+export async function buildConflictIndex(userId: string): Promise<ConflictParty[]> {
+  const [clientsResult, casesResult, partiesResult] = await Promise.all([
+    supabase.from('clients').select('id, name').eq('attorney_id', userId),
+    supabase.from('cases').select('id, title, client_id, opposing_party, opposing_counsel').eq('attorney_id', userId),
+    supabase.from('conflict_parties').select('id, name, case_id, source_label').eq('user_id', userId),
+  ]);
+  const error = clientsResult.error || casesResult.error || partiesResult.error;
+  if (error) throw new Error(error.message || 'Failed to load conflict index');
+
+  const index: ConflictParty[] = [];
+  for (const client of clientsResult.data ?? []) {
+    if (client.name?.trim()) {
+      index.push({ name: client.name, role: 'client', sourceId: client.id, sourceLabel: client.name, clientId: client.id });
+    }
+  }
+  for (const case_ of casesResult.data ?? []) {
+    for (const role of ['opposing_party', 'opposing_counsel'] as const) {
+      const name = case_[role]?.trim();
+      if (!name) continue;
+      index.push({ name, role, sourceId: case_.id, sourceLabel: case_.title, clientId: case_.client_id, caseId: case_.id });
+    }
+  }
+  for (const party of partiesResult.data ?? []) {
+    index.push({
+      name: party.name,
+      role: 'document_party',
+      sourceId: party.id,
+      sourceLabel: party.source_label || 'Analyzed document',
+      caseId: party.case_id,
+    });
+  }
+  return index;
+}
+
+/**
+ * Screen intake names (a new client, or the adverse parties on a new case) for conflicts
+ */
+export async function runConflictCheck(userId: string, names: string[]): Promise<ConflictReport> {
+  const searchedNames = Array.from(new Set(names.map(name => name.trim()).filter(Boolean)));
+  const index = searchedNames.length > 0 ? await buildConflictIndex(userId) : [];
+  return {
+    searchedNames,
+    hits: findConflicts(searchedNames, index),
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Add parties extracted from a document to the conflict index
+ */
+export async function indexDocumentParties(
+  userId: string,
+  parties: string[],
+  options: { sourceLabel: string; caseId?: string | null }
+) {
+  const byNormalizedName = new Map<string, string>();
+  for (const name of parties.map(party => party.trim()).filter(Boolean)) {
+    const normalized = normalizeName(name);
+    if (normalized && !byNormalizedName.has(normalized)) byNormalizedName.set(normalized, name);
+  }
+  const rows = [...byNormalizedName].map(([normalized, name]) => ({
+    user_id: userId,
+    case_id: options.caseId ?? null,
+    name,
+    normalized_name: normalized,
+    source: 'document',
+    source_label: options.sourceLabel,
+  }));
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('conflict_parties')
+    .upsert(rows, { onConflict: 'user_id,normalized_name,source_label', ignoreDuplicates: true });
+  if (error) throw new Error(error.message || 'Failed to index document parties');
+}
+
+/**
+ * Open a new client or case together with the audit record of its conflict check, in one
+ * transaction. A report with hits can only be cleared or waived with notes explaining the
+ * decision. Returns the new subject's id.
+ */
+export async function createWithConflictDecision(
+  report: ConflictReport,
+  input: ConflictDecisionInput,
+  subject: Record<string, unknown>
+): Promise<string> {
+  if (report.hits.length > 0 && !input.notes?.trim()) {
+    throw new Error('Explain why the conflict hits were cleared or waived');
+  }
+
+  const { data, error } = await supabase.rpc('create_with_conflict_check', {
+    p_subject_type: input.subjectType,
+    p_subject: subject,
+    p_check: {
+      searched_names: report.searchedNames,
+      hits: report.hits,
+      decision: input.decision,
+      notes: input.notes?.trim() || null,
+    },
+  });
+  if (error) throw new Error(error.message || `Failed to create ${input.subjectType}`);
+  return data as string;
+}
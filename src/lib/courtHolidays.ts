@@ -0,0 +1,339 @@
+/**
+ * Court holiday calendars per jurisdiction
+ * Federal legal holidays plus the holidays observed by each state's courts,
+ * used for deadline math and for shading court closures on the calendar.
+ *
+ * State tables reflect each state's statutory holidays for its courts; individual
+ * courts may close on additional days, so confirm against the court's published calendar.
+ */
+import { addDays, format, getDay, isWeekend, lastDayOfMonth } from 'date-fns';
+
+export type HolidayRule =
+  | { kind: 'fixed'; month: number; day: number; observed?: boolean }
+  | { kind: 'nth-weekday'; month: number; weekday: number; n: number; offset?: number }
+  | { kind: 'last-weekday'; month: number; weekday: number }
+  | { kind: 'easter'; offset: number }
+  | { kind: 'election-day'; evenYearsOnly?: boolean };
+
+export interface HolidayDefinition {
+  id: string;
+  name: string;
+  rule: HolidayRule;
+}
+
+export interface CourtHoliday {
+  date: string;
+  name: string;
+  jurisdiction: string;
+}
+
+export interface CourtClosure {
+  reason: 'weekend' | 'holiday';
+  name: string;
+  jurisdiction?: string;
+}
+
+interface StateCourtCalendar {
+  name: string;
+  omit?: string[];
+  add?: HolidayDefinition[];
+}
+
+// Month numbers are zero-based to match Date; weekdays run Sunday = 0 to Saturday = 6
+const FEDERAL_HOLIDAYS: HolidayDefinition[] = [
+  { id: 'new-years-day', name: "New Year's Day", rule: { kind: 'fixed', month: 0, day: 1, observed: true } },
+  { id: 'mlk-day', name: 'Martin Luther King Jr. Day', rule: { kind: 'nth-weekday', month: 0, weekday: 1, n: 3 } },
+  { id: 'washingtons-birthday', name: "Washington's Birthday", rule: { kind: 'nth-weekday', month: 1, weekday: 1, n: 3 } },
+  { id: 'memorial-day', name: 'Memorial Day', rule: { kind: 'last-weekday', month: 4, weekday: 1 } },
+  { id: 'juneteenth', name: 'Juneteenth National Independence Day', rule: { kind: 'fixed', month: 5, day: 19, observed: true } },
+  { id: 'independence-day', name: 'Independence Day', rule: { kind: 'fixed', month: 6, day: 4, observed: true } },
+  { id: 'labor-day', name: 'Labor Day', rule: { kind: 'nth-weekday', month: 8, weekday: 1, n: 1 } },
+  { id: 'columbus-day', name: 'Columbus Day', rule: { kind: 'nth-weekday', month: 9, weekday: 1, n: 2 } },
+  { id: 'veterans-day', name: 'Veterans Day', rule: { kind: 'fixed', month: 10, day: 11, observed: true } },
+  { id: 'thanksgiving', name: 'Thanksgiving Day', rule: { kind: 'nth-weekday', month: 10, weekday: 4, n: 4 } },
+  { id: 'christmas-day', name: 'Christmas Day', rule: { kind: 'fixed', month: 11, day: 25, observed: true } },
+];
+
+const LINCOLNS_BIRTHDAY: HolidayDefinition = { id: 'lincolns-birthday', name: "Lincoln's Birthday", rule: { kind: 'fixed', month: 1, day: 12, observed: true } };
+const GOOD_FRIDAY: HolidayDefinition = { id: 'good-friday', name: 'Good Friday', rule: { kind: 'easter', offset: -2 } };
+const DAY_AFTER_THANKSGIVING: HolidayDefinition = { id: 'day-after-thanksgiving', name: 'Day after Thanksgiving', rule: { kind: 'nth-weekday', month: 10, weekday: 4, n: 4, offset: 1 } };
+const CHRISTMAS_EVE: HolidayDefinition = { id: 'christmas-eve', name: 'Christmas Eve', rule: { kind: 'fixed', month: 11, day: 24 } };
+const DAY_AFTER_CHRISTMAS: HolidayDefinition = { id: 'day-after-christmas', name: 'Day after Christmas', rule: { kind: 'fixed', month: 11, day: 26 } };
+const NEW_YEARS_EVE: HolidayDefinition = { id: 'new-years-eve', name: "New Year's Eve", rule: { kind: 'fixed', month: 11, day: 31 } };
+const ELECTION_DAY: HolidayDefinition = { id: 'election-day', name: 'Election Day', rule: { kind: 'election-day' } };
+const GENERAL_ELECTION_DAY: HolidayDefinition = { id: 'election-day', name: 'General Election Day', rule: { kind: 'election-day', evenYearsOnly: true } };
+const PATRIOTS_DAY: HolidayDefinition = { id: 'patriots-day', name: "Patriots' Day", rule: { kind: 'nth-weekday', month: 3, weekday: 1, n: 3 } };
+
+const STATE_COURT_CALENDARS: Record<string, StateCourtCalendar> = {
+  AL: { name: 'Alabama', add: [
+    { id: 'confederate-memorial-day', name: 'Confederate Memorial Day', rule: { kind: 'nth-weekday', month: 3, weekday: 1, n: 4 } },
+    { id: 'jefferson-davis-birthday', name: "Jefferson Davis' Birthday", rule: { kind: 'nth-weekday', month: 5, weekday: 1, n: 1 } },
+  ] },
+  AK: { name: 'Alaska', omit: ['columbus-day'], add: [
+    { id: 'sewards-day', name: "Seward's Day", rule: { kind: 'last-weekday', month: 2, weekday: 1 } },
+    { id: 'alaska-day', name: 'Alaska Day', rule: { kind: 'fixed', month: 9, day: 18, observed: true } },
+  ] },
+  AZ: { name: 'Arizona' },
+  AR: { name: 'Arkansas', omit: ['columbus-day'], add: [CHRISTMAS_EVE] },
+  CA: { name: 'California', add: [
+    LINCOLNS_BIRTHDAY,
+    { id: 'cesar-chavez-day', name: 'Cesar Chavez Day', rule: { kind: 'fixed', month: 2, day: 31, observed: true } },
+    DAY_AFTER_THANKSGIVING,
+  ] },
+  CO: { name: 'Colorado', omit: ['columbus-day'], add: [
+    { id: 'cabrini-day', name: 'Frances Xavier Cabrini Day', rule: { kind: 'nth-weekday', month: 9, weekday: 1, n: 1 } },
+  ] },
+  CT: { name: 'Connecticut', add: [LINCOLNS_BIRTHDAY, GOOD_FRIDAY] },
+  DE: { name: 'Delaware', add: [GOOD_FRIDAY, DAY_AFTER_THANKSGIVING, GENERAL_ELECTION_DAY] },
+  FL: { name: 'Florida', omit: ['washingtons-birthday', 'juneteenth', 'columbus-day'], add: [DAY_AFTER_THANKSGIVING] },
+  GA: { name: 'Georgia', add: [DAY_AFTER_THANKSGIVING] },
+  HI: { name: 'Hawaii', omit: ['columbus-day'], add: [
+    { id: 'prince-kuhio-day', name: 'Prince Jonah Kuhio Kalanianaole Day', rule: { kind: 'fixed', month: 2, day: 26, observed: true } },
+    GOOD_FRIDAY,
+    { id: 'kamehameha-day', name: 'King Kamehameha I Day', rule: { kind: 'fixed', month: 5, day: 11, observed: true } },
+    { id: 'statehood-day', name: 'Statehood Day', rule: { kind: 'nth-weekday', month: 7, weekday: 5, n: 3 } },
+    GENERAL_ELECTION_DAY,
+  ] },
+  ID: { name: 'Idaho' },
+  IL: { name: 'Illinois', add: [
+    LINCOLNS_BIRTHDAY,
+    { id: 'casimir-pulaski-day', name: 'Casimir Pulaski Day', rule: { kind: 'nth-weekday', month: 2, weekday: 1, n: 1 } },
+    DAY_AFTER_THANKSGIVING,
+    GENERAL_ELECTION_DAY,
+  ] },
+  IN: { name: 'Indiana', add: [GOOD_FRIDAY, DAY_AFTER_THANKSGIVING, GENERAL_ELECTION_DAY] },
+  IA: { name: 'Iowa', omit: ['washingtons-birthday', 'columbus-day'], add: [DAY_AFTER_THANKSGIVING] },
+  KS: { name: 'Kansas', omit: ['columbus-day'], add: [DAY_AFTER_THANKSGIVING] },
+  KY: { name: 'Kentucky', omit: ['columbus-day'], add: [DAY_AFTER_THANKSGIVING, CHRISTMAS_EVE, NEW_YEARS_EVE] },
+  LA: { name: 'Louisiana', add: [
+    { id: 'mardi-gras', name: 'Mardi Gras', rule: { kind: 'easter', offset: -47 } },
+    GOOD_FRIDAY,
+  ] },
+  ME: { name: 'Maine', add: [PATRIOTS_DAY] },
+  MD: { name: 'Maryland', add: [DAY_AFTER_THANKSGIVING, GENERAL_ELECTION_DAY] },
+  MA: { name: 'Massachusetts', add: [PATRIOTS_DAY] },
+  MI: { name: 'Michigan', omit: ['columbus-day'], add: [DAY_AFTER_THANKSGIVING, CHRISTMAS_EVE, NEW_YEARS_EVE] },
+  MN: { name: 'Minnesota', add: [DAY_AFTER_THANKSGIVING] },
+  MS: { name: 'Mississippi', omit: ['columbus-day'], add: [
+    { id: 'confederate-memorial-day', name: 'Confederate Memorial Day', rule: { kind: 'last-weekday', month: 3, weekday: 1 } },
+  ] },
+  MO: { name: 'Missouri', add: [
+    LINCOLNS_BIRTHDAY,
+    { id: 'truman-day', name: 'Truman Day', rule: { kind: 'fixed', month: 4, day: 8, observed: true } },
+  ] },
+  MT: { name: 'Montana', add: [GENERAL_ELECTION_DAY] },
+  NE: { name: 'Nebraska', add: [
+    { id: 'arbor-day', name: 'Arbor Day', rule: { kind: 'last-weekday', month: 3, weekday: 5 } },
+    DAY_AFTER_THANKSGIVING,
+  ] },
+  NV: { name: 'Nevada', omit: ['columbus-day'], add: [
+    { id: 'nevada-day', name: 'Nevada Day', rule: { kind: 'last-weekday', month: 9, weekday: 5 } },
+    DAY_AFTER_THANKSGIVING,
+  ] },
+  NH: { name: 'New Hampshire', omit: ['columbus-day'], add: [DAY_AFTER_THANKSGIVING] },
+  NJ: { name: 'New Jersey', add: [LINCOLNS_BIRTHDAY, GOOD_FRIDAY, ELECTION_DAY] },
+  NM: { name: 'New Mexico', add: [DAY_AFTER_THANKSGIVING] },
+  NY: { name: 'New York', add: [LINCOLNS_BIRTHDAY, ELECTION_DAY] },
+  NC: { name: 'North Carolina', omit: ['washingtons-birthday', 'juneteenth', 'columbus-day'], add: [
+    GOOD_FRIDAY,
+    DAY_AFTER_THANKSGIVING,
+    CHRISTMAS_EVE,
+    DAY_AFTER_CHRISTMAS,
+  ] },
+  ND: { name: 'North Dakota', omit: ['columbus-day'], add: [GOOD_FRIDAY] },
+  OH: { name: 'Ohio' },
+  OK: { name: 'Oklahoma', omit: ['columbus-day'], add: [DAY_AFTER_THANKSGIVING, DAY_AFTER_CHRISTMAS] },
+  OR: { name: 'Oregon', omit: ['columbus-day'] },
+  PA: { name: 'Pennsylvania', add: [DAY_AFTER_THANKSGIVING] },
+  RI: { name: 'Rhode Island', add: [
+    { id: 'victory-day', name: 'Victory Day', rule: { kind: 'nth-weekday', month: 7, weekday: 1, n: 2 } },
+  ] },
+  SC: { name: 'South Carolina', omit: ['columbus-day'], add: [
+    { id: 'confederate-memorial-day', name: 'Confederate Memorial Day', rule: { kind: 'fixed', month: 4, day: 10, observed: true } },
+    DAY_AFTER_THANKSGIVING,
+    CHRISTMAS_EVE,
+    DAY_AFTER_CHRISTMAS,
+  ] },
+  SD: { name: 'South Dakota' },
+  TN: { name: 'Tennessee', omit: ['columbus-day'], add: [GOOD_FRIDAY, DAY_AFTER_THANKSGIVING, CHRISTMAS_EVE] },
+  TX: { name: 'Texas', omit: ['columbus-day'], add: [DAY_AFTER_THANKSGIVING, CHRISTMAS_EVE, DAY_AFTER_CHRISTMAS] },
+  UT: { name: 'Utah', add: [
+    { id: 'pioneer-day', name: 'Pioneer Day', rule: { kind: 'fixed', month: 6, day: 24, observed: true } },
+  ] },
+  VT: { name: 'Vermont', add: [
+    { id: 'town-meeting-day', name: 'Town Meeting Day', rule: { kind: 'nth-weekday', month: 2, weekday: 2, n: 1 } },
+    { id: 'bennington-battle-day', name: 'Bennington Battle Day', rule: { kind: 'fixed', month: 7, day: 16, observed: true } },
+  ] },
+  VA: { name: 'Virginia', add: [ELECTION_DAY, DAY_AFTER_THANKSGIVING, CHRISTMAS_EVE] },
+  WA: { name: 'Washington', omit: ['columbus-day'], add: [DAY_AFTER_THANKSGIVING] },
+  WV: { name: 'West Virginia', add: [
+    { id: 'west-virginia-day', name: 'West Virginia Day', rule: { kind: 'fixed', month: 5, day: 20, observed: true } },
+    GENERAL_ELECTION_DAY,
+    DAY_AFTER_THANKSGIVING,
+    CHRISTMAS_EVE,
+    NEW_YEARS_EVE,
+  ] },
+  WI: { name: 'Wisconsin', omit: ['washingtons-birthday', 'juneteenth', 'columbus-day', 'veterans-day'], add: [CHRISTMAS_EVE, NEW_YEARS_EVE] },
+  WY: { name: 'Wyoming', omit: ['columbus-day'] },
+  DC: { name: 'District of Columbia', add: [
+    { id: 'dc-emancipation-day', name: 'DC Emancipation Day', rule: { kind: 'fixed', month: 3, day: 16, observed: true } },
+  ] },
+};
+
+/**
+ * State and DC jurisdictions with a court holiday calendar
+ */
+export const STATE_JURISDICTIONS: { code: string; name: string }[] = Object.entries(STATE_COURT_CALENDARS)
+  .map(([code, calendar]) => ({ code, name: calendar.name }));
+
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const nthWeekdayOfMonth = (year: number, month: number, weekday: number, n: number) => {
+  const first = new Date(year, month, 1);
+  const offset = (weekday - getDay(first) + 7) % 7;
+  return new Date(year, month, 1 + offset + (n - 1) * 7);
+};
+
+const lastWeekdayOfMonth = (year: number, month: number, weekday: number) => {
+  const last = lastDayOfMonth(new Date(year, month, 1));
+  const offset = (getDay(last) - weekday + 7) % 7;
+  return addDays(last, -offset);
+};
+
+// Anonymous Gregorian algorithm
+const easterSunday = (year: number) => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31) - 1;
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month, day);
+};
+
+// 5 U.S.C. § 6103(b): a Saturday holiday is observed the Friday before, a Sunday holiday the Monday after
+const observedDate = (date: Date) => {
+  const day = getDay(date);
+  if (day === 6) return addDays(date, -1);
+  if (day === 0) return addDays(date, 1);
+  return date;
+};
+
+/**
+ * Resolve a holiday rule to the dates it falls on in a year, including any observed weekday
+ */
+const resolveRule = (rule: HolidayRule, year: number): Date[] => {
+  switch (rule.kind) {
+    case 'fixed': {
+      const date = new Date(year, rule.month, rule.day);
+      const observed = rule.observed ? observedDate(date) : date;
+      return observed.getTime() === date.getTime() ? [date] : [date, observed];
+    }
+    case 'nth-weekday':
+      return [addDays(nthWeekdayOfMonth(year, rule.month, rule.weekday, rule.n), rule.offset ?? 0)];
+    case 'last-weekday':
+      return [lastWeekdayOfMonth(year, rule.month, rule.weekday)];
+    case 'easter':
+      return [addDays(easterSunday(year), rule.offset)];
+    case 'election-day':
+      // The Tuesday after the first Monday in November
+      if (rule.evenYearsOnly && year % 2 !== 0) return [];
+      return [addDays(nthWeekdayOfMonth(year, 10, 1, 1), 1)];
+  }
+};
+
+const getDefinitions = (jurisdiction: string): HolidayDefinition[] => {
+  if (jurisdiction === 'federal') return FEDERAL_HOLIDAYS;
+
+  const calendar = STATE_COURT_CALENDARS[jurisdiction.toUpperCase()];
+  if (!calendar) {
+    throw new Error(`No court holiday calendar is configured for jurisdiction '${jurisdiction}'`);
+  }
+
+  const omitted = new Set(calendar.omit ?? []);
+  return [...FEDERAL_HOLIDAYS.filter(holiday => !omitted.has(holiday.id)), ...(calendar.add ?? [])];
+};
+
+const holidayCache = new Map<string, Map<string, CourtHoliday>>();
+
+const getHolidayMap = (year: number, jurisdiction: string): Map<string, CourtHoliday> => {
+  const cacheKey = `${jurisdiction}:${year}`;
+  const cached = holidayCache.get(cacheKey);
+  if (cached) return cached;
+
+  const holidays = new Map<string, CourtHoliday>();
+  // Observed dates can cross a year boundary (a Saturday New Year's Day is observed on December 31)
+  for (const ruleYear of [year - 1, year, year + 1]) {
+    for (const definition of getDefinitions(jurisdiction)) {
+      for (const date of resolveRule(definition.rule, ruleYear)) {
+        if (date.getFullYear() !== year) continue;
+        const key = toDateKey(date);
+        if (!holidays.has(key)) {
+          holidays.set(key, { date: key, name: definition.name, jurisdiction });
+        }
+      }
+    }
+  }
+
+  holidayCache.set(cacheKey, holidays);
+  return holidays;
+};
+
+const toJurisdictionList = (jurisdictions: string | string[]) =>
+  (Array.isArray(jurisdictions) ? jurisdictions : [jurisdictions]).filter(Boolean);
+
+/**
+ * List the court holidays for a jurisdiction ('federal' or a state code) in date order
+ */
+export function getCourtHolidays(year: number, jurisdiction = 'federal'): CourtHoliday[] {
+  return [...getHolidayMap(year, jurisdiction).values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Find the court holiday on a date, checking each jurisdiction in turn
+ */
+export function getCourtHoliday(date: Date, jurisdictions: string | string[] = 'federal'): CourtHoliday | null {
+  const key = toDateKey(date);
+  for (const jurisdiction of toJurisdictionList(jurisdictions)) {
+    const holiday = getHolidayMap(date.getFullYear(), jurisdiction).get(key);
+    if (holiday) return holiday;
+  }
+  return null;
+}
+
+/**
+ * Explain why courts are closed on a date, or return null for a court day
+ */
+export function getCourtClosure(date: Date, jurisdictions: string | string[] = 'federal'): CourtClosure | null {
+  if (isWeekend(date)) {
+    return { reason: 'weekend', name: format(date, 'EEEE') };
+  }
+  const holiday = getCourtHoliday(date, jurisdictions);
+  return holiday ? { reason: 'holiday', name: holiday.name, jurisdiction: holiday.jurisdiction } : null;
+}
+
+/**
+ * Whether courts in every given jurisdiction are open on the date
+ */
+export function isCourtDay(date: Date, jurisdictions: string | string[] = 'federal'): boolean {
+  return getCourtClosure(date, jurisdictions) === null;
+}
+
+/**
+ * Roll a date forward to the next court day (returns the same date if courts are open)
+ */
+export function nextCourtDay(date: Date, jurisdictions: string | string[] = 'federal'): Date {
+  let current = date;
+  while (!isCourtDay(current, jurisdictions)) {
+    current = addDays(current, 1);
+  }
+  return current;
+}
@@ -22,6 +22,35 @@ interface Citation {
   type?: string;
 }
 
+/**
+ * Sends a request to CourtListener; defaults to fetch and can be replaced in tests
+ */
+export type CourtListenerTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface CitationLookupCluster {
+  id: number;
+  absolute_url: string;
+  case_name: string;
+  case_name_short?: string;
+  date_filed: string;
+  citations?: Citation[];
+}
+
+/**
+ * One citation found by the citation lookup endpoint.
+ * status is 200 when found, 300 when ambiguous, 404 when unknown, 400 for an unrecognized reporter
+ * and 429 when the per-request citation limit is exceeded.
+ */
+export interface CitationLookupResult {
+  citation: string;
+  normalized_citations: string[];
+  start_index: number;
+  end_index: number;
+  status: number;
+  error_message: string;
+  clusters: CitationLookupCluster[];
+}
+
 interface SubOpinion {
   id: number;
   type?: string;
@@ -346,3 +375,52 @@ export async function getCourt(courtId: string): Promise<Court> {
     throw error;
   }
 }
+
+/**
+ * Resolve every citation in a block of text with the citation lookup endpoint
+ * @param text - Text containing citations (up to 64,000 characters)
+ * @param transport - Request function, defaults to fetch
+ * @returns One result per citation found in the text
+ */
+export async function lookupCitations(
+  text: string,
+  transport: CourtListenerTransport = fetch
+): Promise<CitationLookupResult[]> {
+  if (!text.trim()) {
+    return [];
+  }
+
+  try {
+    const response = await transport(`${BASE_URL}/citation-lookup/`, {
+      method: 'POST',
+      headers: {
+        ...getHeaders(),
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ text }).toString(),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+
+      // Handle rate limiting (429)
+      if (response.status === 429) {
+        throw new Error('Rate limit exceeded for CourtListener citation lookups. Please wait a minute and try again.');
+      }
+
+      // Handle authentication errors (401, 403)
+      if (response.status === 401 || response.status === 403) {
+        throw new Error('Authentication failed. Please check your API token.');
+      }
+
+      throw new Error(
+        `CourtListener citation lookup failed (${response.status}): ${errorText}`
+      );
+    }
+
+    return (await response.json()) as CitationLookupResult[];
+  } catch (error) {
+    console.error('CourtListener Citation Lookup Error:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Rules-based court deadline calculator
+ * Computes filing deadlines from a trigger event using FRCP 6(a) counting
+ * and the FRCP 6(d) additional days for mail service.
+ */
+import { addDays, format, parseISO } from 'date-fns';
+import { nextCourtDay } from './courtHolidays';
+import { supabase } from './supabase';
+
+export type TriggerEvent = 'service-of-complaint' | 'entry-of-judgment' | 'motion-filed';
+
+export type ServiceMethod = 'personal' | 'electronic' | 'mail' | 'clerk';
+
+export type DeadlineJurisdiction = 'federal';
+
+export type DeadlinePriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface DeadlineRule {
+  id: string;
+  trigger: TriggerEvent;
+  title: string;
+  description: string;
+  days: number;
+  ruleReference: string;
+  priority: DeadlinePriority;
+  // True when the period runs from service under Rule 5(b), so FRCP 6(d) can extend it.
+  // Periods measured from Rule 4 service of process or from entry of an order never get the extra days.
+  extendsForService: boolean;
+}
+
+export interface DeadlineInput {
+  triggerEvent: TriggerEvent;
+  triggerDate: string | Date;
+  jurisdiction: DeadlineJurisdiction;
+  serviceMethod: ServiceMethod;
+  // State where the district court sits; its holidays also close the court under FRCP 6(a)(6)(C)
+  courtState?: string;
+}
+
+export interface CalculatedDeadline {
+  ruleId: string;
+  title: string;
+  description: string;
+  ruleReference: string;
+  priority: DeadlinePriority;
+  triggerDate: string;
+  dueDate: string;
+  periodDays: number;
+  serviceDaysAdded: number;
+  rolledForward: boolean;
+}
+
+export const TRIGGER_EVENT_LABELS: Record<TriggerEvent, string> = {
+  'service-of-complaint': 'Service of summons and complaint',
+  'entry-of-judgment': 'Entry of judgment',
+  'motion-filed': 'Motion filed and served',
+};
+
+export const SERVICE_METHOD_LABELS: Record<ServiceMethod, string> = {
+  personal: 'Personal delivery',
+  electronic: 'Electronic (CM/ECF or email)',
+  mail: 'U.S. Mail',
+  clerk: 'Left with the clerk',
+};
+
+// FRCP 6(d): 3 days are added after the period would otherwise expire under 6(a)
+// when service is made by mail, by leaving it with the clerk, or by other consented means.
+// Electronic service has not carried the extra days since the 2016 amendments.
+const SERVICE_EXTENSION_DAYS: Record<ServiceMethod, number> = {
+  personal: 0,
+  electronic: 0,
+  mail: 3,
+  clerk: 3,
+};
+
+const FEDERAL_RULES: DeadlineRule[] = [
+  {
+    id: 'frcp-12a-answer',
+    trigger: 'service-of-complaint',
+    title: 'Answer due',
+    description: 'Serve an answer within 21 days after being served with the summons and complaint',
+    days: 21,
+    ruleReference: 'Fed. R. Civ. P. 12(a)(1)(A)(i)',
+    priority: 'urgent',
+    extendsForService: false,
+  },
+  {
+    id: 'frcp-12b-motion',
+    trigger: 'service-of-complaint',
+    title: 'Rule 12(b) motion deadline',
+    description: 'A motion asserting a Rule 12(b) defense must be made before the responsive pleading is due',
+    days: 21,
+    ruleReference: 'Fed. R. Civ. P. 12(b)',
+    priority: 'high',
+    extendsForService: false,
+  },
+  {
+    id: 'frcp-motion-opposition',
+    trigger: 'motion-filed',
+    title: 'Opposition to motion due',
+    description: 'Serve a response to the motion within 14 days after service (confirm against the local rules of the court)',
+    days: 14,
+    ruleReference: 'Fed. R. Civ. P. 6(c); local rule',
+    priority: 'high',
+    extendsForService: true,
+  },
+  {
+    id: 'frcp-52b-amended-findings',
+    trigger: 'entry-of-judgment',
+    title: 'Motion to amend findings due',
+    description: 'File a motion to amend findings no later than 28 days after entry of judgment',
+    days: 28,
+    ruleReference: 'Fed. R. Civ. P. 52(b)',
+    priority: 'high',
+    extendsForService: false,
+  },
+  {
+    id: 'frcp-59-new-trial',
+    trigger: 'entry-of-judgment',
+    title: 'Motion for new trial or to alter judgment due',
+    description: 'File a motion for a new trial or to alter or amend the judgment no later than 28 days after entry of judgment',
+    days: 28,
+    ruleReference: 'Fed. R. Civ. P. 59(b), (e)',
+    priority: 'high',
+    extendsForService: false,
+  },
+  {
+    id: 'frcp-54d-fees',
+    trigger: 'entry-of-judgment',
+    title: "Motion for attorney's fees due",
+    description: "File a motion for attorney's fees no later than 14 days after entry of judgment",
+    days: 14,
+    ruleReference: 'Fed. R. Civ. P. 54(d)(2)(B)(i)',
+    priority: 'medium',
+    extendsForService: false,
+  },
+  {
+    id: 'frap-4a-notice-of-appeal',
+    trigger: 'entry-of-judgment',
+    title: 'Notice of appeal due',
+    description: 'File a notice of appeal with the district clerk within 30 days after entry of judgment',
+    days: 30,
+    ruleReference: 'Fed. R. App. P. 4(a)(1)(A)',
+    priority: 'urgent',
+    extendsForService: false,
+  },
+];
+
+const RULES_BY_JURISDICTION: Record<DeadlineJurisdiction, DeadlineRule[]> = {
+  federal: FEDERAL_RULES,
+};
+
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const toDate = (value: string | Date): Date => {
+  const date = typeof value === 'string' ? parseISO(value) : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid trigger date: ${String(value)}`);
+  }
+  // Normalize to local midnight so day arithmetic is not skewed by the time of day
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+/**
+ * Compute the last day of a period stated in days under FRCP 6(a)(1):
+ * exclude the trigger day, count every day including intermediate weekends and holidays,
+ * and if the last day is a weekend or legal holiday continue to the next court day.
+ */
+export function computePeriodEnd(
+  triggerDate: string | Date,
+  days: number,
+  holidayJurisdictions: string[] = ['federal']
+): { dueDate: Date; rolledForward: boolean } {
+  const lastDay = addDays(toDate(triggerDate), days);
+  const dueDate = nextCourtDay(lastDay, holidayJurisdictions);
+  return { dueDate, rolledForward: dueDate.getTime() !== lastDay.getTime() };
+}
+
+/**
+ * List the deadline rules that apply to a trigger event in a jurisdiction
+ */
+export function getDeadlineRules(triggerEvent: TriggerEvent, jurisdiction: DeadlineJurisdiction): DeadlineRule[] {
+  const rules = RULES_BY_JURISDICTION[jurisdiction];
+  if (!rules) {
+    throw new Error(`No deadline rules are configured for jurisdiction '${jurisdiction}'`);
+  }
+  return rules.filter(rule => rule.trigger === triggerEvent);
+}
+
+/**
+ * Calculate every deadline that flows from a trigger event.
+ * When FRCP 6(d) applies, the extra days are added after the 6(a) period ends
+ * and the result is rolled forward again if it lands on a weekend or holiday.
+ */
+export function calculateDeadlines(input: DeadlineInput): CalculatedDeadline[] {
+  const triggerDate = toDate(input.triggerDate);
+  const serviceDays = SERVICE_EXTENSION_DAYS[input.serviceMethod] ?? 0;
+  const holidayJurisdictions = input.courtState ? ['federal', input.courtState] : ['federal'];
+
+  return getDeadlineRules(input.triggerEvent, input.jurisdiction)
+    .map(rule => {
+      const period = computePeriodEnd(triggerDate, rule.days, holidayJurisdictions);
+      const serviceDaysAdded = rule.extendsForService ? serviceDays : 0;
+
+      let dueDate = period.dueDate;
+      let rolledForward = period.rolledForward;
+      if (serviceDaysAdded > 0) {
+        const extended = addDays(period.dueDate, serviceDaysAdded);
+        dueDate = nextCourtDay(extended, holidayJurisdictions);
+        rolledForward = dueDate.getTime() !== extended.getTime();
+      }
+
+      return {
+        ruleId: rule.id,
+        title: rule.title,
+        description: rule.description,
+        ruleReference: rule.ruleReference,
+        priority: rule.priority,
+        triggerDate: toDateKey(triggerDate),
+        dueDate: toDateKey(dueDate),
+        periodDays: rule.days,
+        serviceDaysAdded,
+        rolledForward,
+      };
+    })
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
+
+/**
+ * Persist calculated deadlines to the deadlines table, linked to the case
+ */
+export async function saveCalculatedDeadlines(
+  caseId: string,
+  userId: string,
+  input: DeadlineInput,
+  deadlines: CalculatedDeadline[]
+) {
+  if (!caseId) {
+    throw new Error('A case is required to save deadlines');
+  }
+
+  const rows = deadlines.map(deadline => ({
+    user_id: userId,
+    case_id: caseId,
+    title: deadline.title,
+    description: deadline.description,
+    due_date: deadline.dueDate,
+    priority: deadline.priority,
+    completed: false,
+    source: 'rule',
+    rule_id: deadline.ruleId,
+    rule_reference: deadline.ruleReference,
+    trigger_event: input.triggerEvent,
+    trigger_date: deadline.triggerDate,
+    jurisdiction: input.courtState ? `${input.jurisdiction}:${input.courtState}` : input.jurisdiction,
+    service_method: input.serviceMethod,
+  }));
+
+  const { data, error } = await supabase.from('deadlines').insert(rows).select();
+  if (error) throw new Error(error.message || 'Failed to save deadlines');
+  return data;
+}
+
+/**
+ * The holiday calendars for a saved deadline's jurisdiction, which is stored as 'federal' or
+ * 'federal:<state code>'. Deadlines entered by hand have none and use the federal calendar.
+ */
+export function holidayJurisdictionsFor(jurisdiction: string | null | undefined): string[] {
+  return jurisdiction ? jurisdiction.split(':').filter(Boolean) : ['federal'];
+}
@@ -0,0 +1,239 @@
+/**
+ * Word-level comparison of two versions of a document
+ * The versions are split into words, punctuation and whitespace and compared with Myers'
+ * diff, so a redline shows exactly the words opposing counsel changed. Adjacent deletions and
+ * insertions are grouped into numbered changes for review and export. The UI compares on a
+ * worker thread, since a heavily rewritten document can take a noticeable time.
+ */
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  type: DiffOperation;
+  text: string;
+}
+
+export interface RedlineChange {
+  // 1-based, in document order
+  id: number;
+  deleted: string;
+  inserted: string;
+  // The few words of the revised text before the change, to locate it
+  context: string;
+  // Differs only in case, punctuation or spacing
+  formattingOnly: boolean;
+}
+
+export interface DocumentComparison {
+  segments: DiffSegment[];
+  changes: RedlineChange[];
+}
+
+const CONTEXT_WORDS = 8;
+
+const tokenize = (text: string) => text.match(/\s+|[\p{L}\p{N}_'’-]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+
+// Whitespace only matters where it breaks a paragraph
+const tokenKey = (token: string) => (/^\s+$/.test(token) ? (token.includes('\n') ? '\n' : ' ') : token);
+
+type TokenStep = { type: DiffOperation; token: string };
+
+/**
+ * Myers' O((N+M)D) shortest edit script between two token lists, in linear space: each pass
+ * finds the middle snake of the shortest path by searching from both ends, then the halves on
+ * either side of it are diffed the same way. Nothing proportional to D² is kept, however
+ * different the versions are.
+ */
+function diffTokens(original: string[], revised: string[]): DiffSegment[] {
+  const a = original.map(tokenKey);
+  const b = revised.map(tokenKey);
+  const steps: TokenStep[] = [];
+
+  const equal = (from: number, to: number, y: number) => {
+    for (let i = from; i < to; i++) steps.push({ type: 'equal', token: revised[y + i - from] });
+  };
+
+  const diffRange = (aStart: number, aEnd: number, bStart: number, bEnd: number) => {
+    // Common ends never need the search
+    let prefix = 0;
+    while (aStart + prefix < aEnd && bStart + prefix < bEnd && a[aStart + prefix] === b[bStart + prefix]) prefix++;
+    equal(aStart, aStart + prefix, bStart);
+    aStart += prefix;
+    bStart += prefix;
+    let suffix = 0;
+    while (aEnd - suffix > aStart && bEnd - suffix > bStart && a[aEnd - 1 - suffix] === b[bEnd - 1 - suffix]) suffix++;
+    aEnd -= suffix;
+    bEnd -= suffix;
+
+    if (aStart === aEnd) {
+      for (let y = bStart; y < bEnd; y++) steps.push({ type: 'insert', token: revised[y] });
+    } else if (bStart === bEnd) {
+      for (let x = aStart; x < aEnd; x++) steps.push({ type: 'delete', token: original[x] });
+    } else {
+      const [x, y] = middleSnake(a, aStart, aEnd, b, bStart, bEnd);
+      diffRange(aStart, x, bStart, y);
+      diffRange(x, aEnd, y, bEnd);
+    }
+
+    equal(aEnd, aEnd + suffix, bEnd);
+  };
+
+  diffRange(0, a.length, 0, b.length);
+
+  const segments: DiffSegment[] = [];
+  for (const { type, token } of steps) {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += token;
+    else segments.push({ type, text: token });
+  }
+  return segments;
+}
+
+/**
+ * Where the shortest edit path between two non-empty ranges with different first and last
+ * tokens crosses from the forward search into the backward one, as absolute indexes
+ */
+function middleSnake(a: string[], aStart: number, aEnd: number, b: string[], bStart: number, bEnd: number): [number, number] {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD + 1;
+  // Furthest x reached on each diagonal, from the start and (in reversed coordinates) from the end
+  const forward = new Int32Array(2 * maxD + 3).fill(-1);
+  const backward = new Int32Array(2 * maxD + 3).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths can only meet while searching forward
+  const meetForward = delta % 2 !== 0;
+  // Diagonals that ran off an edge are skipped from then on
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+
+  for (let d = 0; d < maxD + 1; d++) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1]) ? forward[offset + k + 1] : forward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      if (x > n) forwardEnd += 2;
+      else if (y > m) forwardStart += 2;
+      else if (meetForward) {
+        const reached = backward[offset + delta - k];
+        if (offset + delta - k >= 0 && offset + delta - k < backward.length && reached !== -1 && x >= n - reached) {
+          return [aStart + x, bStart + y];
+        }
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1]) ? backward[offset + k + 1] : backward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+      if (x > n) backwardEnd += 2;
+      else if (y > m) backwardStart += 2;
+      else if (!meetForward) {
+        const forwardK = delta - k;
+        const reached = offset + forwardK >= 0 && offset + forwardK < forward.length ? forward[offset + forwardK] : -1;
+        if (reached !== -1 && reached >= n - x) {
+          return [aStart + reached, bStart + reached - forwardK];
+        }
+      }
+    }
+  }
+
+  // Unreachable for non-empty ranges; treat them as entirely replaced
+  return [aEnd, bStart];
+}
+
+// The last few words of a text, keeping the spacing after them
+const lastWords = (text: string) => text.match(new RegExp(`(?:\\S+\\s*){0,${CONTEXT_WORDS}}$`))?.[0] ?? '';
+
+const comparable = (text: string) => text.toLowerCase().replace(/[\s\p{P}]+/gu, '');
+
+/**
+ * Group the changed segments into numbered changes. A deletion and insertion separated only
+ * by a space are one replacement, and each change keeps the revised text just before it.
+ */
+export function groupChanges(segments: DiffSegment[]): RedlineChange[] {
+  const changes: RedlineChange[] = [];
+  let context = '';
+  let current: RedlineChange | null = null;
+
+  segments.forEach((segment, index) => {
+    const bridging = segment.type === 'equal' && current && !segment.text.trim() && segments[index + 1] && segments[index + 1].type !== 'equal';
+    if (segment.type === 'equal' && !bridging) {
+      if (current) {
+        current.formattingOnly = comparable(current.deleted) === comparable(current.inserted);
+        changes.push(current);
+        // Later changes are located in the revised text
+        context += current.inserted;
+        current = null;
+      }
+      context = lastWords(`${context}${segment.text}`);
+      return;
+    }
+
+    current ??= { id: changes.length + 1, deleted: '', inserted: '', context: context.trim(), formattingOnly: false };
+    if (segment.type !== 'insert') current.deleted += segment.text;
+    if (segment.type !== 'delete') current.inserted += segment.text;
+  });
+
+  if (current) {
+    current.formattingOnly = comparable(current.deleted) === comparable(current.inserted);
+    changes.push(current);
+  }
+  return changes.map(change => ({ ...change, deleted: change.deleted.trim(), inserted: change.inserted.trim() }));
+}
+
+/**
+ * Word-level redline of a revised document against the original
+ */
+export function compareDocuments(original: string, revised: string): DocumentComparison {
+  const segments = diffTokens(tokenize(original), tokenize(revised));
+  return { segments, changes: groupChanges(segments) };
+}
+
+/**
+ * compareDocuments on a worker thread, so comparing long documents doesn't freeze the page.
+ * Where workers are unavailable, as in tests, it compares in place.
+ */
+export function compareDocumentsInWorker(original: string, revised: string): Promise<DocumentComparison> {
+  if (typeof Worker === 'undefined') return Promise.resolve(compareDocuments(original, revised));
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./documentDiff.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<DocumentComparison>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Failed to compare documents'));
+    };
+    worker.postMessage({ original, revised });
+  });
+}
+
+/**
+ * One line per change, as the AI review reads them
+ */
+export function formatChangesForReview(changes: RedlineChange[]): string {
+  return changes
+    .map(change => {
+      const parts = [`#${change.id}`, change.context ? `after "…${change.context}"` : 'at the start'];
+      if (change.deleted) parts.push(`deleted "${change.deleted}"`);
+      if (change.inserted) parts.push(`inserted "${change.inserted}"`);
+      return parts.join(' ');
+    })
+    .join('\n');
+}
@@ -0,0 +1,10 @@
+/**
+ * Runs compareDocuments off the main thread for compareDocumentsInWorker
+ */
+import { compareDocuments } from './documentDiff';
+
+const worker = self as unknown as Worker;
+
+worker.onmessage = (event: MessageEvent<{ original: string; revised: string }>) => {
+  worker.postMessage(compareDocuments(event.data.original, event.data.revised));
+};
@@ -0,0 +1,363 @@
+/**
+ * Retrieval over the firm's own documents
+ * Text from documents, uploaded_documents and document_analyses is split into page-bounded
+ * chunks here and embedded into document_chunks by the document-rag edge function. Chat
+ * retrieves the passages nearest each question, scoped to the active case, and hands them
+ * to the model as numbered sources ([S1], [S2], ...) that answers cite back to the page.
+ * The edge function redacts the text it embeds with the same settings as chat requests.
+ */
+import { supabase } from './supabase';
+import { getRedactionConfig } from './redaction';
+import type { ChatMessage } from './aiService';
+
+export type DocumentSourceType = 'document' | 'uploaded_document' | 'document_analysis';
+
+export interface DocumentPage {
+  // null when the text carries no page breaks
+  page: number | null;
+  text: string;
+}
+
+export interface DocumentChunk {
+  chunkIndex: number;
+  page: number | null;
+  content: string;
+}
+
+export interface DocumentSource {
+  sourceType: DocumentSourceType;
+  sourceId: string;
+  title: string;
+  caseId: string | null;
+  pages: DocumentPage[];
+}
+
+export interface RetrievedPassage {
+  // Source marker the model cites, e.g. "S1"
+  marker: string;
+  chunkId: string;
+  caseId: string | null;
+  sourceType: DocumentSourceType;
+  sourceId: string;
+  title: string;
+  page: number | null;
+  content: string;
+  similarity: number;
+  url: string | null;
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlapChars?: number;
+}
+
+export interface IndexSyncResult {
+  indexed: number;
+  unchanged: number;
+  failed: number;
+}
+
+export type SourceMarkerSegment = string | { marker: string; passage: RetrievedPassage };
+
+const DEFAULT_MAX_CHARS = 1200;
+const DEFAULT_OVERLAP_CHARS = 200;
+
+// legal-ai-chat drops any message over 10,000 characters, so the passages block stays under it
+const CONTEXT_CHAR_BUDGET = 8000;
+
+const SOURCE_MARKER_PATTERN = /\[(S\d+)\]/g;
+
+/**
+ * Split extracted text into pages on form feeds (the page separator pdftotext writes)
+ */
+export function splitPages(text: string): DocumentPage[] {
+  const pages = text.split('\f');
+  if (pages.length === 1) return text.trim() ? [{ page: null, text }] : [];
+  return pages
+    .map((pageText, index) => ({ page: index + 1, text: pageText }))
+    .filter(page => page.text.trim().length > 0);
+}
+
+/**
+ * Break a block that is too long for one chunk at sentence, then word, boundaries
+ */
+const splitLongBlock = (block: string, maxChars: number): string[] => {
+  const pieces: string[] = [];
+  let rest = block;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('? '), window.lastIndexOf('! '));
+    const wordEnd = window.lastIndexOf(' ');
+    const cut = sentenceEnd > maxChars / 2 ? sentenceEnd + 1 : wordEnd > maxChars / 2 ? wordEnd : maxChars;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+};
+
+/**
+ * The tail of a chunk carried into the next one, starting at a word boundary
+ */
+const overlapTail = (text: string, overlapChars: number): string => {
+  if (overlapChars <= 0 || text.length <= overlapChars) return '';
+  const tail = text.slice(-overlapChars);
+  const wordStart = tail.indexOf(' ');
+  return wordStart >= 0 ? tail.slice(wordStart + 1) : tail;
+};
+
+/**
+ * Chunk pages into passages of at most maxChars, packing whole paragraphs where they fit.
+ * Chunks never span pages, so every passage can be cited to a single page.
+ */
+export function chunkPages(pages: DocumentPage[], options: ChunkOptions = {}): DocumentChunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlapChars = Math.min(options.overlapChars ?? DEFAULT_OVERLAP_CHARS, Math.floor(maxChars / 2));
+  const chunks: DocumentChunk[] = [];
+
+  for (const { page, text } of pages) {
+    const blocks = text
+      .split(/\n\s*\n/)
+      .map(block => block.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .flatMap(block => splitLongBlock(block, maxChars - overlapChars - 2));
+
+    let current = '';
+    // Whether current holds anything beyond the overlap carried from the previous chunk
+    let hasNewText = false;
+    for (const block of blocks) {
+      if (hasNewText && current.length + 2 + block.length > maxChars) {
+        chunks.push({ chunkIndex: chunks.length, page, content: current });
+        current = overlapTail(current, overlapChars);
+        hasNewText = false;
+      }
+      current = current ? `${current}\n\n${block}` : block;
+      hasNewText = true;
+    }
+    if (hasNewText) chunks.push({ chunkIndex: chunks.length, page, content: current });
+  }
+
+  return chunks;
+}
+
+/**
+ * Cheap fingerprint (FNV-1a) of a source's text, to skip re-embedding unchanged sources
+ */
+export function contentHash(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16).padStart(8, '0')}-${text.length}`;
+}
+
+const sourceText = (source: DocumentSource) => source.pages.map(page => page.text).join('\f');
+
+/**
+ * Chunk a source and (re)embed it into document_chunks
+ */
+export async function indexDocumentSource(source: DocumentSource): Promise<number> {
+  const chunks = chunkPages(source.pages);
+  if (chunks.length === 0) return 0;
+
+  const { data, error } = await supabase.functions.invoke('document-rag', {
+    body: {
+      op: 'index',
+      sourceType: source.sourceType,
+      sourceId: source.sourceId,
+      title: source.title,
+      contentHash: contentHash(sourceText(source)),
+      chunks,
+      redaction: getRedactionConfig(),
+    },
+  });
+  if (error) throw new Error(error.message || 'Failed to index document');
+  return data?.indexed ?? chunks.length;
+}
+
+type SourceRow = Record<string, unknown>;
+
+const text = (value: unknown) => (typeof value === 'string' ? value : '');
+
+/**
+ * Every source of the user's (or one case's) documents that has text to index
+ */
+async function loadDocumentSources(userId: string, caseId?: string | null): Promise<DocumentSource[]> {
+  const scoped = (table: string) => {
+    let query = supabase.from(table).select('*').eq('user_id', userId);
+    if (caseId) query = query.eq('case_id', caseId);
+    return query;
+  };
+
+  const [documents, uploads, analyses] = await Promise.all([
+    scoped('documents'),
+    scoped('uploaded_documents'),
+    scoped('document_analyses'),
+  ]);
+  const failed = documents.error ?? uploads.error ?? analyses.error;
+  if (failed) throw new Error(failed.message || 'Failed to load documents');
+
+  const toSource = (sourceType: DocumentSourceType, row: SourceRow, body: string, title: string): DocumentSource => ({
+    sourceType,
+    sourceId: String(row.id),
+    title: title || 'Untitled document',
+    caseId: (row.case_id as string | null) ?? null,
+    pages: splitPages(body),
+  });
+
+  return [
+    ...(documents.data ?? []).map((row: SourceRow) => toSource('document', row, text(row.extracted_text), text(row.filename))),
+    ...(uploads.data ?? []).map((row: SourceRow) => toSource('uploaded_document', row, text(row.extracted_text), text(row.file_name))),
+    ...(analyses.data ?? []).map((row: SourceRow) => toSource('document_analysis', row, text(row.original_text), text(row.file_name))),
+  ].filter(source => source.pages.length > 0);
+}
+
+/**
+ * Embed any of the user's sources that are new or changed since they were last indexed
+ */
+export async function syncDocumentIndex(userId: string, options: { caseId?: string | null } = {}): Promise<IndexSyncResult> {
+  const sources = await loadDocumentSources(userId, options.caseId);
+
+  const { data: indexed, error } = await supabase
+    .from('document_chunks')
+    .select('source_type, source_id, content_hash')
+    .eq('user_id', userId)
+    .eq('chunk_index', 0);
+  if (error) throw new Error(error.message || 'Failed to load document index');
+
+  const indexedHashes = new Map(
+    (indexed ?? []).map((row: SourceRow) => [`${row.source_type}:${row.source_id}`, row.content_hash])
+  );
+
+  const result: IndexSyncResult = { indexed: 0, unchanged: 0, failed: 0 };
+  for (const source of sources) {
+    if (indexedHashes.get(`${source.sourceType}:${source.sourceId}`) === contentHash(sourceText(source))) {
+      result.unchanged++;
+      continue;
+    }
+    try {
+      await indexDocumentSource(source);
+      result.indexed++;
+    } catch (err) {
+      console.error(`[documentRetrieval] Failed to index ${source.sourceType} ${source.sourceId}`, err);
+      result.failed++;
+    }
+  }
+  return result;
+}
+
+/**
+ * The passages most relevant to a question, numbered S1, S2, ... in rank order
+ */
+export async function retrievePassages(
+  question: string,
+  options: { caseId?: string | null; limit?: number; signal?: AbortSignal } = {}
+): Promise<RetrievedPassage[]> {
+  const { data, error } = await supabase.functions.invoke('document-rag', {
+    body: { op: 'search', query: question, caseId: options.caseId ?? null, limit: options.limit ?? 5, redaction: getRedactionConfig() },
+    signal: options.signal,
+  });
+  if (error) throw new Error(error.message || 'Failed to search documents');
+
+  return ((data?.passages ?? []) as Omit<RetrievedPassage, 'marker'>[]).map((passage, index) => ({
+    ...passage,
+    marker: `S${index + 1}`,
+  }));
+}
+
+/**
+ * Passages for the latest user turn of a conversation; retrieval trouble never blocks the chat
+ */
+export async function retrieveForConversation(
+  messages: ChatMessage[],
+  options: { caseId?: string | null; signal?: AbortSignal } = {}
+): Promise<RetrievedPassage[]> {
+  const question = [...messages].reverse().find(message => message.role === 'user')?.content;
+  if (!question?.trim()) return [];
+  try {
+    return await retrievePassages(question, options);
+  } catch (err) {
+    console.error('[documentRetrieval] Retrieval failed; answering without documents', err);
+    return [];
+  }
+}
+
+/**
+ * Human-readable source of a passage, e.g. "Lease.pdf, p. 14"
+ */
+export const passageLabel = (passage: Pick<RetrievedPassage, 'title' | 'page'>) =>
+  passage.page ? `${passage.title}, p. ${passage.page}` : passage.title;
+
+/**
+ * Link to the passage's document, opened at its page where the viewer supports it
+ */
+export const passageHref = (passage: Pick<RetrievedPassage, 'url' | 'page'>) =>
+  passage.url ? (passage.page ? `${passage.url}#page=${passage.page}` : passage.url) : null;
+
+/**
+ * The passages block given to the model, trimmed to fit the per-message limit
+ */
+export function formatPassageContext(passages: RetrievedPassage[], budget = CONTEXT_CHAR_BUDGET): string {
+  const header =
+    'Passages from the firm\'s own documents that may answer the next question. ' +
+    'Cite a passage with its marker, e.g. [S1], right after the statement it supports. ' +
+    'Only cite markers listed here, and say so if the passages do not answer the question.';
+
+  let context = header;
+  for (const passage of passages) {
+    const entry = `\n\n[${passage.marker}] ${passageLabel(passage)}\n${passage.content}`;
+    if (context.length + entry.length > budget) break;
+    context += entry;
+  }
+  return context;
+}
+
+/**
+ * Put retrieved passages in front of the latest user turn.
+ * They go in a message of their own because providers drop all but the leading system message.
+ */
+export function withRetrievedPassages(messages: ChatMessage[], passages: RetrievedPassage[]): ChatMessage[] {
+  if (passages.length === 0) return messages;
+  let lastUser = -1;
+  messages.forEach((message, index) => {
+    if (message.role === 'user') lastUser = index;
+  });
+  if (lastUser < 0) return messages;
+
+  return [
+    ...messages.slice(0, lastUser),
+    { role: 'user', content: formatPassageContext(passages) },
+    ...messages.slice(lastUser),
+  ];
+}
+
+/**
+ * Split an answer around its source markers; markers without a matching passage stay text
+ */
+export function splitSourceMarkers(text: string, passages: RetrievedPassage[]): SourceMarkerSegment[] {
+  const byMarker = new Map(passages.map(passage => [passage.marker, passage]));
+  const segments: SourceMarkerSegment[] = [];
+  let cursor = 0;
+
+  for (const match of text.matchAll(SOURCE_MARKER_PATTERN)) {
+    const passage = byMarker.get(match[1]);
+    if (!passage) continue;
+    if (match.index! > cursor) segments.push(text.slice(cursor, match.index));
+    segments.push({ marker: match[1], passage });
+    cursor = match.index! + match[0].length;
+  }
+  if (cursor < text.length) segments.push(text.slice(cursor));
+  return segments;
+}
+
+/**
+ * Passages the answer actually cites, in the order first cited
+ */
+export function citedPassages(text: string, passages: RetrievedPassage[]): RetrievedPassage[] {
+  const cited: RetrievedPassage[] = [];
+  for (const segment of splitSourceMarkers(text, passages)) {
+    if (typeof segment !== 'string' && !cited.includes(segment.passage)) cited.push(segment.passage);
+  }
+  return cited;
+}
@@ -0,0 +1,98 @@
+/**
+ * Motion drafts
+ * The document editor's drafts are kept in the drafts table, and each save is also recorded
+ * as a version in the draft's history. A draft shared with a collaboration is edited live by
+ * its members (see collaborativeDraft); any of them who can edit may save it.
+ */
+import { supabase } from './supabase';
+import type { DocumentVersion, VersionAuthor } from './versionHistory';
+
+export interface Draft {
+  id: string;
+  user_id: string;
+  case_id: string | null;
+  motion_type: string;
+  title: string;
+  case_title: string;
+  case_number: string;
+  content: string;
+  current_version: number;
+  collaboration_id: string | null;
+  // Base64 Yjs state as of the last save, for the next person who opens the shared draft
+  crdt_state: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DraftFields {
+  // Null until the first save
+  id: string | null;
+  motionType: string;
+  caseTitle: string;
+  caseNumber: string;
+  content: string;
+  caseId?: string | null;
+  collaborationId?: string | null;
+  crdtState?: string | null;
+}
+
+export const draftTitle = (fields: Pick<DraftFields, 'motionType' | 'caseTitle'>) =>
+  fields.caseTitle.trim() ? `${fields.motionType} – ${fields.caseTitle.trim()}` : fields.motionType;
+
+/**
+ * Fields a version of a draft carries, to put back on restore
+ */
+export const draftFieldsOf = (version: DocumentVersion): Pick<DraftFields, 'caseTitle' | 'caseNumber' | 'content'> => ({
+  caseTitle: String(version.metadata.caseTitle ?? ''),
+  caseNumber: String(version.metadata.caseNumber ?? ''),
+  content: version.content,
+});
+
+/**
+ * Save the draft and record the save as its next version, in one transaction
+ */
+export async function saveDraft(
+  author: VersionAuthor,
+  fields: DraftFields,
+  options: { restoredFrom?: number } = {}
+): Promise<{ draft: Draft; version: DocumentVersion }> {
+  const row = {
+    motion_type: fields.motionType,
+    title: draftTitle(fields),
+    case_title: fields.caseTitle,
+    case_number: fields.caseNumber,
+    content: fields.content,
+    ...(fields.caseId !== undefined ? { case_id: fields.caseId } : {}),
+    ...(fields.collaborationId !== undefined ? { collaboration_id: fields.collaborationId } : {}),
+    ...(fields.crdtState !== undefined ? { crdt_state: fields.crdtState } : {}),
+  };
+  const { data, error } = await supabase.rpc('save_draft', {
+    p_draft_id: fields.id,
+    p_draft: row,
+    p_version: {
+      author_name: author.name,
+      metadata: { motionType: fields.motionType, caseTitle: fields.caseTitle, caseNumber: fields.caseNumber },
+    },
+    p_restored_from: options.restoredFrom ?? null,
+  });
+  if (error) throw new Error(error.message || 'Failed to save draft');
+
+  const saved = data as { draft: Draft; version: Omit<DocumentVersion, 'milestones'> };
+  return { draft: saved.draft, version: { ...saved.version, milestones: [] } };
+}
+
+/**
+ * The user's drafts of a motion type, and those shared with their collaborations, most
+ * recently saved first
+ */
+export async function listDrafts(userId: string, motionType: string, collaborationIds: string[] = []): Promise<Draft[]> {
+  const owners = [`user_id.eq.${userId}`, ...(collaborationIds.length > 0 ? [`collaboration_id.in.(${collaborationIds.join(',')})`] : [])];
+  const { data, error } = await supabase
+    .from('drafts')
+    .select('*')
+    .or(owners.join(','))
+    .eq('motion_type', motionType)
+    .order('updated_at', { ascending: false });
+  if (error) throw new Error(error.message || 'Failed to load drafts');
+  return (data ?? []) as Draft[];
+}
@@ -1,6 +1,30 @@
 import { jsPDF } from 'jspdf';
-import { Document, Paragraph, TextRun, HeadingLevel, AlignmentType, Packer } from 'docx';
+import {
+  Document,
+  Paragraph,
+  TextRun,
+  HeadingLevel,
+  AlignmentType,
+  Packer,
+  InsertedTextRun,
+  DeletedTextRun,
+  type ParagraphChild,
+} from 'docx';
 import { saveAs } from 'file-saver';
+import {
+  INVOICE_STATUS_LABELS,
+  calculateInvoiceTotals,
+  lineItemAmount,
+  type InvoiceDetail,
+} from './invoiceService';
+import { formatLedes1998B, type LedesOptions } from './ledes';
+import type { DiffSegment, RedlineChange } from './documentDiff';
+import type { RedlineReview } from './aiSchemas';
+import { PRIVILEGE_LOG_FORMATS, formatPrivilegeLogCsv, privilegeLogTable, type PrivilegeLogEntry, type PrivilegeLogFormat } from './privilegeLog';
+import { buildXlsx } from './xlsx';
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
 interface ExportData {
   title: string;
@@ -14,6 +38,25 @@ interface ExportData {
   };
 }
 
+interface RedlineExportData {
+  title: string;
+  segments: DiffSegment[];
+  changes: RedlineChange[];
+  // AI classification of the changes, appended after the redline
+  review?: RedlineReview | null;
+  // Author the tracked changes are attributed to
+  author?: string;
+}
+
+interface PrivilegeLogExportData {
+  // Caption or matter name printed above the log
+  title: string;
+  entries: PrivilegeLogEntry[];
+  format: PrivilegeLogFormat;
+}
+
+const exportFileName = (title: string) => title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+
 /**
  * Export service for generating PDF and DOCX files from legal research data
  */
@@ -194,6 +237,334 @@ export class ExportService {
     }
   }
 
+  /**
+   * Generate and download a redline as a DOCX whose changes are Word tracked changes,
+   * followed by the review of each change when there is one
+   */
+  static async exportRedlineToDOCX(data: RedlineExportData): Promise<void> {
+    try {
+      const author = data.author || 'DocketChief';
+      const date = new Date().toISOString();
+      let revision = 0;
+
+      const children: Paragraph[] = [
+        new Paragraph({
+          text: data.title,
+          heading: HeadingLevel.HEADING_1,
+          alignment: AlignmentType.CENTER,
+          spacing: { after: 400 },
+        }),
+      ];
+
+      // Segments run across paragraphs, so each line of a segment closes the paragraph before it
+      let runs: ParagraphChild[] = [];
+      const closeParagraph = () => {
+        if (runs.length > 0) children.push(new Paragraph({ children: runs, spacing: { after: 200 } }));
+        runs = [];
+      };
+      data.segments.forEach((segment) => {
+        segment.text.split(/\n+/).forEach((text, index) => {
+          if (index > 0) closeParagraph();
+          if (!text) return;
+          if (segment.type === 'insert') runs.push(new InsertedTextRun({ id: ++revision, author, date, text }));
+          else if (segment.type === 'delete') runs.push(new DeletedTextRun({ id: ++revision, author, date, text }));
+          else runs.push(new TextRun({ text }));
+        });
+      });
+      closeParagraph();
+
+      if (data.review) {
+        children.push(
+          new Paragraph({ text: 'Change Review', heading: HeadingLevel.HEADING_2, spacing: { before: 400, after: 200 } }),
+          new Paragraph({ text: data.review.summary, spacing: { after: 200 } })
+        );
+        data.changes.forEach((change) => {
+          const verdict = data.review?.changes.find((item) => item.id === change.id);
+          children.push(
+            new Paragraph({
+              children: [
+                new TextRun({ text: `Change ${change.id}`, bold: true }),
+                new TextRun({ text: verdict ? ` (${verdict.classification}): ${verdict.explanation}` : ' (not reviewed)' }),
+              ],
+              spacing: { after: 100 },
+            })
+          );
+        });
+
+        const risks: Array<[string, string[]]> = [
+          ['High Risk', data.review.riskAssessment.highRisk],
+          ['Medium Risk', data.review.riskAssessment.mediumRisk],
+          ['Recommendations', data.review.riskAssessment.recommendations],
+        ];
+        risks.filter(([, items]) => items.length > 0).forEach(([heading, items]) => {
+          children.push(new Paragraph({ text: heading, heading: HeadingLevel.HEADING_3, spacing: { before: 200, after: 100 } }));
+          items.forEach((item) => children.push(new Paragraph({ text: item, bullet: { level: 0 } })));
+        });
+      }
+
+      const doc = new Document({
+        features: { trackRevisions: true },
+        sections: [
+          {
+            properties: {},
+            children,
+          },
+        ],
+      });
+
+      const blob = await Packer.toBlob(doc);
+      saveAs(blob, `${data.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.docx`);
+    } catch (error) {
+      console.error('Redline DOCX export error:', error);
+      throw new Error('Failed to generate redline DOCX');
+    }
+  }
+
+  /**
+   * Generate and download a client invoice as a PDF with an itemized table of charges
+   */
+  static async exportInvoiceToPDF(invoice: InvoiceDetail, firmName?: string): Promise<void> {
+    try {
+      const doc = new jsPDF();
+      const pageWidth = doc.internal.pageSize.getWidth();
+      const pageHeight = doc.internal.pageSize.getHeight();
+      const margin = 20;
+      const right = pageWidth - margin;
+      // Column x positions: date, description, quantity, rate, amount (right-aligned numbers)
+      const columns = { date: margin, description: margin + 24, quantity: right - 58, rate: right - 30, amount: right };
+      const descriptionWidth = columns.quantity - columns.description - 14;
+      let currentY = margin;
+
+      const ensureSpace = (height: number) => {
+        if (currentY + height > pageHeight - margin) {
+          doc.addPage();
+          currentY = margin;
+        }
+      };
+
+      // Header
+      doc.setFontSize(18);
+      doc.setFont('helvetica', 'bold');
+      doc.text('INVOICE', margin, currentY);
+      if (firmName) {
+        doc.setFontSize(11);
+        doc.text(firmName, right, currentY, { align: 'right' });
+      }
+      currentY += 12;
+
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'normal');
+      const details = [
+        `Invoice Number: ${invoice.invoice_number}`,
+        `Invoice Date: ${invoice.invoice_date}`,
+        invoice.due_date ? `Due Date: ${invoice.due_date}` : '',
+        invoice.period_start && invoice.period_end ? `Billing Period: ${invoice.period_start} to ${invoice.period_end}` : '',
+        `Status: ${INVOICE_STATUS_LABELS[invoice.status]}`,
+      ].filter(Boolean);
+      const billTo = [
+        'Bill To:',
+        invoice.clients?.name ?? '',
+        invoice.clients?.address ?? '',
+        invoice.cases ? `Matter: ${invoice.cases.case_number ? `${invoice.cases.case_number} - ` : ''}${invoice.cases.title}` : '',
+      ].filter(Boolean);
+      details.forEach((line, index) => doc.text(line, margin, currentY + index * 5));
+      billTo.forEach((line, index) => {
+        const lines = doc.splitTextToSize(line, pageWidth / 2 - margin);
+        doc.text(lines[0], pageWidth / 2, currentY + index * 5);
+      });
+      currentY += Math.max(details.length, billTo.length) * 5 + 8;
+
+      if (invoice.description) {
+        const lines = doc.splitTextToSize(invoice.description, right - margin);
+        doc.text(lines, margin, currentY);
+        currentY += lines.length * 5 + 5;
+      }
+
+      // Line item table
+      const drawTableHeader = () => {
+        doc.setFont('helvetica', 'bold');
+        doc.text('Date', columns.date, currentY);
+        doc.text('Description', columns.description, currentY);
+        doc.text('Qty', columns.quantity, currentY, { align: 'right' });
+        doc.text('Rate', columns.rate, currentY, { align: 'right' });
+        doc.text('Amount', columns.amount, currentY, { align: 'right' });
+        doc.line(margin, currentY + 2, right, currentY + 2);
+        currentY += 7;
+        doc.setFont('helvetica', 'normal');
+      };
+      drawTableHeader();
+
+      invoice.billing_line_items.forEach((line) => {
+        const codes = [line.utbms_task_code, line.utbms_activity_code, line.utbms_expense_code].filter(Boolean).join(' ');
+        const description = doc.splitTextToSize(`${codes ? `[${codes}] ` : ''}${line.description}`, descriptionWidth);
+        const writeDown = Number(line.adjustment_amount || 0);
+        const height = description.length * 5 + (writeDown < 0 ? 5 : 0) + 2;
+        if (currentY + height > pageHeight - margin) {
+          doc.addPage();
+          currentY = margin;
+          drawTableHeader();
+        }
+
+        doc.text(line.line_date, columns.date, currentY);
+        doc.text(description, columns.description, currentY);
+        doc.text(String(Number(line.quantity)), columns.quantity, currentY, { align: 'right' });
+        doc.text(formatCurrency(Number(line.rate)), columns.rate, currentY, { align: 'right' });
+        doc.text(formatCurrency(lineItemAmount(line)), columns.amount, currentY, { align: 'right' });
+        if (writeDown < 0) {
+          doc.setFontSize(8);
+          doc.text(
+            `Written down ${formatCurrency(-writeDown)}${line.adjustment_reason ? `: ${line.adjustment_reason}` : ''}`,
+            columns.description,
+            currentY + description.length * 5
+          );
+          doc.setFontSize(10);
+        }
+        currentY += height;
+      });
+
+      // Totals
+      const totals = calculateInvoiceTotals(invoice.billing_line_items);
+      const totalRows: Array<[string, number]> = [
+        ['Fees', totals.fees],
+        ['Expenses', totals.expenses],
+        ...(totals.adjustments < 0 ? [['Write-downs', totals.adjustments] as [string, number]] : []),
+        ['Total Due', totals.total],
+      ];
+      ensureSpace(totalRows.length * 6 + 6);
+      doc.line(columns.quantity - 10, currentY, right, currentY);
+      currentY += 6;
+      totalRows.forEach(([label, value], index) => {
+        if (index === totalRows.length - 1) doc.setFont('helvetica', 'bold');
+        doc.text(label, columns.rate - 20, currentY, { align: 'right' });
+        doc.text(formatCurrency(value), columns.amount, currentY, { align: 'right' });
+        currentY += 6;
+      });
+
+      // Footer with page numbers
+      const pageCount = doc.internal.pages.length - 1;
+      for (let i = 1; i <= pageCount; i++) {
+        doc.setPage(i);
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'normal');
+        doc.text(
+          `${invoice.invoice_number} - Page ${i} of ${pageCount}`,
+          pageWidth / 2,
+          pageHeight - 10,
+          { align: 'center' }
+        );
+      }
+
+      doc.save(`${invoice.invoice_number.replace(/[^a-z0-9-]/gi, '_')}.pdf`);
+
+      return Promise.resolve();
+    } catch (error) {
+      console.error('Invoice PDF export error:', error);
+      throw new Error('Failed to generate invoice PDF');
+    }
+  }
+
+  /**
+   * Generate and download a client invoice as a LEDES 1998B e-billing file
+   */
+  static async exportToLEDES(invoice: InvoiceDetail, options: LedesOptions): Promise<void> {
+    const content = formatLedes1998B(invoice, options);
+    const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
+    saveAs(blob, `${invoice.invoice_number.replace(/[^a-z0-9-]/gi, '_')}_LEDES1998B.txt`);
+  }
+
+  /**
+   * Generate and download a privilege log as a landscape PDF table in the format's column order
+   */
+  static async exportPrivilegeLogToPDF(data: PrivilegeLogExportData): Promise<void> {
+    try {
+      const doc = new jsPDF({ orientation: 'landscape', format: 'letter' });
+      const pageWidth = doc.internal.pageSize.getWidth();
+      const pageHeight = doc.internal.pageSize.getHeight();
+      const margin = 12;
+      const lineHeight = 3.6;
+      const cellPadding = 1.5;
+      const { columns, rows } = privilegeLogTable(data.entries, data.format);
+      // Column widths in proportion to their character widths
+      const totalWidth = columns.reduce((sum, column) => sum + column.width, 0);
+      const widths = columns.map(column => (column.width / totalWidth) * (pageWidth - 2 * margin));
+      const starts = widths.map((_, index) => margin + widths.slice(0, index).reduce((sum, width) => sum + width, 0));
+      let currentY = margin;
+
+      // Title block
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.text('PRIVILEGE LOG', pageWidth / 2, currentY + 4, { align: 'center' });
+      currentY += 10;
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'normal');
+      doc.text(data.title, pageWidth / 2, currentY, { align: 'center' });
+      currentY += 5;
+      doc.setFontSize(8);
+      doc.text(`Prepared pursuant to ${PRIVILEGE_LOG_FORMATS[data.format].rule}`, pageWidth / 2, currentY, { align: 'center' });
+      currentY += 7;
+
+      const drawRow = (cells: string[], bold: boolean) => {
+        doc.setFont('helvetica', bold ? 'bold' : 'normal');
+        const wrapped = cells.map((cell, index) => doc.splitTextToSize(cell || '', widths[index] - 2 * cellPadding) as string[]);
+        const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + 2 * cellPadding;
+        wrapped.forEach((lines, index) => {
+          doc.rect(starts[index], currentY, widths[index], height);
+          doc.text(lines, starts[index] + cellPadding, currentY + cellPadding + lineHeight - 1);
+        });
+        currentY += height;
+      };
+      const rowHeight = (cells: string[]) =>
+        Math.max(...cells.map((cell, index) => doc.splitTextToSize(cell || '', widths[index] - 2 * cellPadding).length)) * lineHeight + 2 * cellPadding;
+
+      const headers = columns.map(column => column.header);
+      drawRow(headers, true);
+      rows.forEach((row) => {
+        if (currentY + rowHeight(row) > pageHeight - margin - 6) {
+          doc.addPage();
+          currentY = margin;
+          drawRow(headers, true);
+        }
+        drawRow(row, false);
+      });
+
+      // Footer with page numbers
+      const pageCount = doc.internal.pages.length - 1;
+      for (let i = 1; i <= pageCount; i++) {
+        doc.setPage(i);
+        doc.setFontSize(8);
+        doc.setFont('helvetica', 'normal');
+        doc.text(`Privilege Log - Page ${i} of ${pageCount}`, pageWidth / 2, pageHeight - 6, { align: 'center' });
+      }
+
+      doc.save(`${exportFileName(data.title)}_privilege_log.pdf`);
+    } catch (error) {
+      console.error('Privilege log PDF export error:', error);
+      throw new Error('Failed to generate privilege log PDF');
+    }
+  }
+
+  /**
+   * Generate and download a privilege log as CSV
+   */
+  static async exportPrivilegeLogToCSV(data: PrivilegeLogExportData): Promise<void> {
+    // Byte order mark so Excel reads the file as UTF-8
+    const blob = new Blob(['\uFEFF', formatPrivilegeLogCsv(data.entries, data.format)], { type: 'text/csv;charset=utf-8' });
+    saveAs(blob, `${exportFileName(data.title)}_privilege_log.csv`);
+  }
+
+  /**
+   * Generate and download a privilege log as an Excel workbook
+   */
+  static async exportPrivilegeLogToXLSX(data: PrivilegeLogExportData): Promise<void> {
+    try {
+      const blob = await buildXlsx([{ name: 'Privilege Log', ...privilegeLogTable(data.entries, data.format) }]);
+      saveAs(blob, `${exportFileName(data.title)}_privilege_log.xlsx`);
+    } catch (error) {
+      console.error('Privilege log XLSX export error:', error);
+      throw new Error('Failed to generate privilege log XLSX');
+    }
+  }
+
   /**
    * Export multiple items to a single PDF
    */
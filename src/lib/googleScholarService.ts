@@ -3,6 +3,7 @@
  * Provides integration with Google Scholar for legal research
  * including federal courts and state laws
  */
+import { formatCaseCitation, type CitationStyle } from './citationParser';
 
 export interface GoogleScholarSearchParams {
   query: string;
@@ -14,6 +15,7 @@ export interface GoogleScholarSearchParams {
   caseType?: string;
   includeFederalCourts?: boolean;
   includeStateLaws?: boolean;
+  citationStyle?: CitationStyle;
 }
 
 export interface GoogleScholarResult {
@@ -124,7 +126,6 @@ export async function searchGoogleScholar(
       id: 'gs-1',
       title: 'Miranda v. Arizona',
       citation: '384 U.S. 436 (1966)',
-      parsedCitation: 'Miranda v. Arizona, 384 U.S. 436 (1966)',
       court: 'Supreme Court of the United States',
       date: '1966-06-13',
       summary: 'Landmark Supreme Court case establishing that suspects must be informed of their rights to remain silent and to have an attorney present during police interrogations. The Miranda rights are now a fundamental part of criminal procedure.',
@@ -139,7 +140,6 @@ export async function searchGoogleScholar(
       id: 'gs-2',
       title: 'Brown v. Board of Education',
       citation: '347 U.S. 483 (1954)',
-      parsedCitation: 'Brown v. Board of Education, 347 U.S. 483 (1954)',
       court: 'Supreme Court of the United States',
       date: '1954-05-17',
       summary: 'Historic decision declaring state laws establishing separate public schools for black and white students unconstitutional. Overturned Plessy v. Ferguson and was a major victory for the civil rights movement.',
@@ -154,7 +154,6 @@ export async function searchGoogleScholar(
       id: 'gs-3',
       title: 'Marbury v. Madison',
       citation: '5 U.S. (1 Cranch) 137 (1803)',
-      parsedCitation: 'Marbury v. Madison, 5 U.S. (1 Cranch) 137 (1803)',
       court: 'Supreme Court of the United States',
       date: '1803-02-24',
       summary: 'Established the principle of judicial review in the United States, giving federal courts the power to declare legislative and executive acts unconstitutional. Foundational case for American constitutional law.',
@@ -169,7 +168,6 @@ export async function searchGoogleScholar(
       id: 'gs-4',
       title: 'Roe v. Wade',
       citation: '410 U.S. 113 (1973)',
-      parsedCitation: 'Roe v. Wade, 410 U.S. 113 (1973)',
       court: 'Supreme Court of the United States',
       date: '1973-01-22',
       summary: 'Landmark decision on the constitutional right to privacy and abortion. Held that the Constitution protects a woman\'s liberty to choose to have an abortion. Modified by later decisions and overruled in 2022.',
@@ -184,7 +182,6 @@ export async function searchGoogleScholar(
       id: 'gs-5',
       title: 'Gideon v. Wainwright',
       citation: '372 U.S. 335 (1963)',
-      parsedCitation: 'Gideon v. Wainwright, 372 U.S. 335 (1963)',
       court: 'Supreme Court of the United States',
       date: '1963-03-18',
       summary: 'Established that state courts are required to provide attorneys to criminal defendants who cannot afford their own legal counsel. Extended the Sixth Amendment right to counsel to state prosecutions.',
@@ -209,7 +206,11 @@ export async function searchGoogleScholar(
   });
 
   // If no matches, return all results to demonstrate the feature
-  return filteredResults.length > 0 ? filteredResults : mockResults;
+  const results = filteredResults.length > 0 ? filteredResults : mockResults;
+  return results.map(result => ({
+    ...result,
+    parsedCitation: formatCaseCitation(result, params.citationStyle),
+  }));
 }
 
 /**
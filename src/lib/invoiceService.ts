@@ -0,0 +1,502 @@
+/**
+ * Client invoicing service
+ * Keeps time, flat-fee and expense charges per client and case, builds draft invoices
+ * from the unbilled ones, and takes invoices through write-downs, approval and payment.
+ */
+import { format } from 'date-fns';
+import { supabase } from './supabase';
+import { UTBMS_ACTIVITY_CODES, UTBMS_TASK_CODES, type TimeEntry } from './timeEntryService';
+
+export type LineItemType = 'time' | 'fee' | 'expense';
+
+export type InvoiceStatus = 'draft' | 'approved' | 'sent' | 'paid' | 'void';
+
+// LEDES timekeeper classifications
+export type TimekeeperClassification = 'PT' | 'AS' | 'OC' | 'LA' | 'PL' | 'OT';
+
+export interface BillingLineItem {
+  id: string;
+  user_id: string;
+  client_id: string;
+  case_id: string | null;
+  invoice_id: string | null;
+  time_entry_id: string | null;
+  line_type: LineItemType;
+  line_date: string;
+  description: string;
+  quantity: number;
+  rate: number;
+  // Write-downs are stored as negative amounts
+  adjustment_amount: number;
+  adjustment_reason: string | null;
+  utbms_task_code: string | null;
+  utbms_activity_code: string | null;
+  utbms_expense_code: string | null;
+  timekeeper_id: string | null;
+  timekeeper_name: string | null;
+  timekeeper_classification: TimekeeperClassification | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Invoice {
+  id: string;
+  user_id: string;
+  client_id: string;
+  case_id: string | null;
+  invoice_number: string;
+  status: InvoiceStatus;
+  invoice_date: string;
+  due_date: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  description: string | null;
+  client_reference: string | null;
+  client_matter_reference: string | null;
+  subtotal: number;
+  adjustment_total: number;
+  amount: number;
+  approved_at: string | null;
+  approved_by: string | null;
+  sent_at: string | null;
+  paid_at: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined when loading invoices
+  clients?: { name: string; email?: string; address?: string | null } | null;
+  cases?: { title: string; case_number: string | null } | null;
+}
+
+export interface InvoiceDetail extends Invoice {
+  billing_line_items: BillingLineItem[];
+}
+
+export interface Timekeeper {
+  id: string;
+  name: string;
+  classification: TimekeeperClassification;
+}
+
+export interface LineItemInput {
+  clientId: string;
+  caseId?: string | null;
+  lineType: Exclude<LineItemType, 'time'>;
+  lineDate?: string | Date;
+  description: string;
+  quantity?: number;
+  rate: number;
+  utbmsTaskCode?: string | null;
+  utbmsActivityCode?: string | null;
+  utbmsExpenseCode?: string | null;
+  timekeeper?: Timekeeper;
+}
+
+export interface BillingScope {
+  clientId: string;
+  caseId?: string | null;
+}
+
+export interface DraftInvoiceInput extends BillingScope {
+  periodStart?: string | Date;
+  periodEnd?: string | Date;
+  invoiceDate?: string | Date;
+  dueDate?: string | Date;
+  description?: string;
+  clientReference?: string;
+  clientMatterReference?: string;
+}
+
+export interface InvoiceTotals {
+  fees: number;
+  expenses: number;
+  subtotal: number;
+  adjustments: number;
+  total: number;
+}
+
+// UTBMS expense codes
+export const UTBMS_EXPENSE_CODES: Record<string, string> = {
+  E101: 'Copying',
+  E102: 'Outside printing',
+  E103: 'Word processing',
+  E104: 'Facsimile',
+  E105: 'Telephone',
+  E106: 'Online research',
+  E107: 'Delivery services/messengers',
+  E108: 'Postage',
+  E109: 'Local travel',
+  E110: 'Out-of-town travel',
+  E111: 'Meals',
+  E112: 'Court fees',
+  E113: 'Subpoena fees',
+  E114: 'Witness fees',
+  E115: 'Deposition transcripts',
+  E116: 'Trial transcripts',
+  E117: 'Trial exhibits',
+  E118: 'Litigation support vendors',
+  E119: 'Experts',
+  E120: 'Private investigators',
+  E121: 'Arbitrators/mediators',
+  E122: 'Local counsel',
+  E123: 'Other professionals',
+  E124: 'Other',
+};
+
+export const TIMEKEEPER_CLASSIFICATIONS: Record<TimekeeperClassification, string> = {
+  PT: 'Partner',
+  AS: 'Associate',
+  OC: 'Of Counsel',
+  LA: 'Legal Assistant',
+  PL: 'Paralegal',
+  OT: 'Other Timekeeper',
+};
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  approved: 'Approved',
+  sent: 'Sent',
+  paid: 'Paid',
+  void: 'Void',
+};
+
+// Which statuses an invoice can move to from each status
+export const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['approved', 'void'],
+  approved: ['draft', 'sent', 'void'],
+  sent: ['paid', 'void'],
+  paid: [],
+  void: [],
+};
+
+const INVOICE_SELECT = '*, clients(name, email, address), cases(title, case_number)';
+
+const toDateKey = (value: string | Date) =>
+  typeof value === 'string' ? value.slice(0, 10) : format(value, 'yyyy-MM-dd');
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Charge for a line before any write-down
+ */
+export const lineItemGross = (line: Pick<BillingLineItem, 'quantity' | 'rate'>) =>
+  roundCurrency(Number(line.quantity) * Number(line.rate));
+
+/**
+ * Charge for a line after its write-down
+ */
+export const lineItemAmount = (line: Pick<BillingLineItem, 'quantity' | 'rate' | 'adjustment_amount'>) =>
+  roundCurrency(lineItemGross(line) + Number(line.adjustment_amount || 0));
+
+/**
+ * Fee and expense subtotals, write-downs and the invoice total for a set of lines
+ */
+export function calculateInvoiceTotals(lines: BillingLineItem[]): InvoiceTotals {
+  let fees = 0;
+  let expenses = 0;
+  let adjustments = 0;
+  for (const line of lines) {
+    if (line.line_type === 'expense') expenses += lineItemGross(line);
+    else fees += lineItemGross(line);
+    adjustments += Number(line.adjustment_amount || 0);
+  }
+  const subtotal = roundCurrency(fees + expenses);
+  return {
+    fees: roundCurrency(fees),
+    expenses: roundCurrency(expenses),
+    subtotal,
+    adjustments: roundCurrency(adjustments),
+    total: roundCurrency(subtotal + adjustments),
+  };
+}
+
+function assertValidLineCodes(input: Pick<LineItemInput, 'utbmsTaskCode' | 'utbmsActivityCode' | 'utbmsExpenseCode'>) {
+  if (input.utbmsTaskCode && !UTBMS_TASK_CODES[input.utbmsTaskCode]) {
+    throw new Error(`Unknown UTBMS task code '${input.utbmsTaskCode}'`);
+  }
+  if (input.utbmsActivityCode && !UTBMS_ACTIVITY_CODES[input.utbmsActivityCode]) {
+    throw new Error(`Unknown UTBMS activity code '${input.utbmsActivityCode}'`);
+  }
+  if (input.utbmsExpenseCode && !UTBMS_EXPENSE_CODES[input.utbmsExpenseCode]) {
+    throw new Error(`Unknown UTBMS expense code '${input.utbmsExpenseCode}'`);
+  }
+}
+
+const timekeeperColumns = (timekeeper?: Timekeeper) => ({
+  timekeeper_id: timekeeper?.id ?? null,
+  timekeeper_name: timekeeper?.name ?? null,
+  timekeeper_classification: timekeeper?.classification ?? null,
+});
+
+/**
+ * Add a flat fee or expense charge for a client
+ */
+export async function createLineItem(userId: string, input: LineItemInput): Promise<BillingLineItem> {
+  if (!input.clientId) throw new Error('A client is required for a billing line');
+  if (!input.description?.trim()) throw new Error('A billing line needs a description');
+  const quantity = input.quantity ?? 1;
+  if (!(quantity > 0)) throw new Error('Quantity must be greater than zero');
+  if (!(input.rate >= 0)) throw new Error('Rate cannot be negative');
+  if (input.lineType === 'fee' && input.utbmsExpenseCode) {
+    throw new Error('Expense codes only apply to expense lines');
+  }
+  assertValidLineCodes(input);
+
+  const { data, error } = await supabase
+    .from('billing_line_items')
+    .insert({
+      user_id: userId,
+      client_id: input.clientId,
+      case_id: input.caseId ?? null,
+      line_type: input.lineType,
+      line_date: toDateKey(input.lineDate ?? new Date()),
+      description: input.description.trim(),
+      quantity,
+      rate: input.rate,
+      utbms_task_code: input.utbmsTaskCode ?? null,
+      utbms_activity_code: input.utbmsActivityCode ?? null,
+      utbms_expense_code: input.lineType === 'expense' ? input.utbmsExpenseCode ?? null : null,
+      ...timekeeperColumns(input.timekeeper),
+    })
+    .select()
+    .single();
+  if (error) throw new Error(error.message || 'Failed to save billing line');
+  return data as BillingLineItem;
+}
+
+/**
+ * Delete a line that has not been invoiced yet
+ */
+export async function deleteLineItem(lineId: string) {
+  const { error } = await supabase.from('billing_line_items').delete().eq('id', lineId).is('invoice_id', null);
+  if (error) throw new Error(error.message || 'Failed to delete billing line');
+}
+
+/**
+ * Turn billable, finished time entries for a client into time lines. Entries that
+ * already have a line are skipped, so this can be run repeatedly.
+ */
+export async function importTimeEntries(
+  userId: string,
+  scope: BillingScope,
+  timekeeper?: Timekeeper
+): Promise<BillingLineItem[]> {
+  let query = supabase
+    .from('time_entries')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('client_id', scope.clientId)
+    .eq('billable', true)
+    .gt('hours', 0);
+  if (scope.caseId) query = query.eq('case_id', scope.caseId);
+
+  const { data: entries, error } = await query;
+  if (error) throw new Error(error.message || 'Failed to load time entries');
+
+  const finished = ((entries ?? []) as TimeEntry[]).filter(entry => entry.source === 'manual' || entry.ended_at);
+  if (finished.length === 0) return [];
+
+  const { data: existing, error: existingError } = await supabase
+    .from('billing_line_items')
+    .select('time_entry_id')
+    .in('time_entry_id', finished.map(entry => entry.id));
+  if (existingError) throw new Error(existingError.message || 'Failed to load billing lines');
+
+  const imported = new Set((existing ?? []).map(line => line.time_entry_id));
+  const rows = finished
+    .filter(entry => !imported.has(entry.id))
+    .map(entry => ({
+      user_id: userId,
+      client_id: scope.clientId,
+      case_id: entry.case_id,
+      time_entry_id: entry.id,
+      line_type: 'time',
+      line_date: entry.entry_date,
+      description: entry.description || 'Professional services',
+      quantity: Number(entry.hours),
+      rate: Number(entry.rate ?? 0),
+      utbms_task_code: entry.utbms_task_code,
+      utbms_activity_code: entry.utbms_activity_code,
+      ...timekeeperColumns(timekeeper),
+    }));
+  if (rows.length === 0) return [];
+
+  const { data, error: insertError } = await supabase.from('billing_line_items').insert(rows).select();
+  if (insertError) throw new Error(insertError.message || 'Failed to import time entries');
+  return (data ?? []) as BillingLineItem[];
+}
+
+/**
+ * Lines for a client (and optionally one case) that are not on any invoice yet
+ */
+export async function listUnbilledLineItems(userId: string, scope: BillingScope): Promise<BillingLineItem[]> {
+  let query = supabase
+    .from('billing_line_items')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('client_id', scope.clientId)
+    .is('invoice_id', null);
+  if (scope.caseId) query = query.eq('case_id', scope.caseId);
+
+  const { data, error } = await query.order('line_date', { ascending: true });
+  if (error) throw new Error(error.message || 'Failed to load unbilled lines');
+  return (data ?? []) as BillingLineItem[];
+}
+
+/**
+ * Next sequential invoice number for the year, e.g. INV-2025-0007
+ */
+export async function nextInvoiceNumber(userId: string, invoiceDate: Date = new Date()): Promise<string> {
+  const prefix = `INV-${invoiceDate.getFullYear()}-`;
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('invoice_number')
+    .eq('user_id', userId)
+    .like('invoice_number', `${prefix}%`);
+  if (error) throw new Error(error.message || 'Failed to number invoice');
+
+  const highest = (data ?? []).reduce((max, row) => Math.max(max, Number(row.invoice_number.slice(prefix.length)) || 0), 0);
+  return `${prefix}${String(highest + 1).padStart(4, '0')}`;
+}
+
+/**
+ * Build a draft invoice from a client's unbilled lines, optionally limited to one case
+ * and a billing period
+ */
+export async function createDraftInvoice(userId: string, input: DraftInvoiceInput): Promise<InvoiceDetail> {
+  const periodStart = input.periodStart ? toDateKey(input.periodStart) : undefined;
+  const periodEnd = input.periodEnd ? toDateKey(input.periodEnd) : undefined;
+  const lines = (await listUnbilledLineItems(userId, input)).filter(line =>
+    (!periodStart || line.line_date >= periodStart) && (!periodEnd || line.line_date <= periodEnd)
+  );
+  if (lines.length === 0) {
+    throw new Error('There are no unbilled charges for this client in the selected period');
+  }
+
+  const invoiceDate = input.invoiceDate ? new Date(`${toDateKey(input.invoiceDate)}T00:00:00`) : new Date();
+  const invoiceNumber = await nextInvoiceNumber(userId, invoiceDate);
+  // One transaction inserts the invoice and claims only lines that are still unbilled, so a
+  // draft created at the same moment cannot bill them too
+  const { data: invoiceId, error } = await supabase.rpc('create_draft_invoice', {
+    p_invoice: {
+      client_id: input.clientId,
+      case_id: input.caseId ?? null,
+      invoice_number: invoiceNumber,
+      invoice_date: toDateKey(invoiceDate),
+      due_date: input.dueDate ? toDateKey(input.dueDate) : null,
+      period_start: periodStart ?? lines[0].line_date,
+      period_end: periodEnd ?? lines[lines.length - 1].line_date,
+      description: input.description?.trim() || null,
+      client_reference: input.clientReference?.trim() || null,
+      client_matter_reference: input.clientMatterReference?.trim() || null,
+    },
+    p_line_ids: lines.map(line => line.id),
+  });
+  if (error) throw new Error(error.message || 'Failed to create invoice');
+
+  return getInvoice(invoiceId as string);
+}
+
+/**
+ * The user's invoices, newest first
+ */
+export async function listInvoices(userId: string, filters: { clientId?: string } = {}): Promise<Invoice[]> {
+  let query = supabase.from('invoices').select(INVOICE_SELECT).eq('user_id', userId);
+  if (filters.clientId) query = query.eq('client_id', filters.clientId);
+
+  const { data, error } = await query.order('invoice_date', { ascending: false });
+  if (error) throw new Error(error.message || 'Failed to load invoices');
+  return (data ?? []) as Invoice[];
+}
+
+/**
+ * An invoice with its line items in date order
+ */
+export async function getInvoice(invoiceId: string): Promise<InvoiceDetail> {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select(`${INVOICE_SELECT}, billing_line_items(*)`)
+    .eq('id', invoiceId)
+    .single();
+  if (error) throw new Error(error.message || 'Failed to load invoice');
+
+  const invoice = data as InvoiceDetail;
+  return {
+    ...invoice,
+    billing_line_items: [...(invoice.billing_line_items ?? [])].sort((a, b) => a.line_date.localeCompare(b.line_date)),
+  };
+}
+
+async function loadStatus(invoiceId: string): Promise<InvoiceStatus> {
+  const { data, error } = await supabase.from('invoices').select('status').eq('id', invoiceId).single();
+  if (error) throw new Error(error.message || 'Failed to load invoice');
+  return data.status as InvoiceStatus;
+}
+
+/**
+ * Recalculate an invoice's stored totals from its lines
+ */
+async function refreshInvoiceTotals(invoiceId: string): Promise<InvoiceDetail> {
+  const invoice = await getInvoice(invoiceId);
+  const totals = calculateInvoiceTotals(invoice.billing_line_items);
+  const { error } = await supabase
+    .from('invoices')
+    .update({ subtotal: totals.subtotal, adjustment_total: totals.adjustments, amount: totals.total })
+    .eq('id', invoiceId);
+  if (error) throw new Error(error.message || 'Failed to update invoice totals');
+  return { ...invoice, subtotal: totals.subtotal, adjustment_total: totals.adjustments, amount: totals.total };
+}
+
+/**
+ * Write down a line on a draft invoice by a dollar amount. Passing 0 removes the write-down.
+ */
+export async function writeDownLineItem(line: BillingLineItem, amount: number, reason?: string): Promise<InvoiceDetail> {
+  if (!line.invoice_id) throw new Error('Only invoiced lines can be written down');
+  if (!(amount >= 0)) throw new Error('Write-down amount cannot be negative');
+  if (amount > lineItemGross(line)) throw new Error('A write-down cannot exceed the line amount');
+  if ((await loadStatus(line.invoice_id)) !== 'draft') {
+    throw new Error('Only draft invoices can be written down');
+  }
+
+  const { error } = await supabase
+    .from('billing_line_items')
+    .update({ adjustment_amount: -roundCurrency(amount), adjustment_reason: amount > 0 ? reason?.trim() || null : null })
+    .eq('id', line.id);
+  if (error) throw new Error(error.message || 'Failed to write down line');
+
+  return refreshInvoiceTotals(line.invoice_id);
+}
+
+/**
+ * Move an invoice to a new status. Voiding an invoice returns its lines to unbilled.
+ */
+export async function updateInvoiceStatus(invoiceId: string, status: InvoiceStatus, userId?: string): Promise<InvoiceDetail> {
+  const current = await loadStatus(invoiceId);
+  if (!INVOICE_STATUS_TRANSITIONS[current].includes(status)) {
+    throw new Error(`A ${INVOICE_STATUS_LABELS[current].toLowerCase()} invoice cannot be marked ${INVOICE_STATUS_LABELS[status].toLowerCase()}`);
+  }
+
+  const now = new Date().toISOString();
+  const changes: Partial<Invoice> = { status };
+  if (status === 'approved') Object.assign(changes, { approved_at: now, approved_by: userId ?? null });
+  if (status === 'draft') Object.assign(changes, { approved_at: null, approved_by: null });
+  if (status === 'sent') changes.sent_at = now;
+  if (status === 'paid') changes.paid_at = now;
+
+  const { error } = await supabase.from('invoices').update(changes).eq('id', invoiceId);
+  if (error) throw new Error(error.message || 'Failed to update invoice');
+
+  if (status === 'void') {
+    const { error: releaseError } = await supabase
+      .from('billing_line_items')
+      .update({ invoice_id: null, adjustment_amount: 0, adjustment_reason: null })
+      .eq('invoice_id', invoiceId);
+    if (releaseError) throw new Error(releaseError.message || 'Failed to release invoice lines');
+  }
+
+  return getInvoice(invoiceId);
+}
+
+/**
+ * Approve a draft invoice; its lines can no longer be written down
+ */
+export const approveInvoice = (invoiceId: string, userId: string) => updateInvoiceStatus(invoiceId, 'approved', userId);
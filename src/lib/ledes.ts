@@ -0,0 +1,103 @@
+/**
+ * LEDES 1998B export
+ * Writes an invoice as a LEDES 1998B e-billing file: a pipe-delimited text file with one
+ * record per line item, each record ending in "[]".
+ */
+import { calculateInvoiceTotals, lineItemAmount, type InvoiceDetail } from './invoiceService';
+
+export interface LedesOptions {
+  // The law firm's identifier, normally its tax ID
+  lawFirmId: string;
+}
+
+export const LEDES_1998B_FIELDS = [
+  'INVOICE_DATE',
+  'INVOICE_NUMBER',
+  'CLIENT_ID',
+  'LAW_FIRM_MATTER_ID',
+  'INVOICE_TOTAL',
+  'BILLING_START_DATE',
+  'BILLING_END_DATE',
+  'INVOICE_DESCRIPTION',
+  'LINE_ITEM_NUMBER',
+  'EXP/FEE/INV_ADJ_TYPE',
+  'LINE_ITEM_NUMBER_OF_UNITS',
+  'LINE_ITEM_ADJUSTMENT_AMOUNT',
+  'LINE_ITEM_TOTAL',
+  'LINE_ITEM_DATE',
+  'LINE_ITEM_TASK_CODE',
+  'LINE_ITEM_EXPENSE_CODE',
+  'LINE_ITEM_ACTIVITY_CODE',
+  'TIMEKEEPER_ID',
+  'LINE_ITEM_DESCRIPTION',
+  'LAW_FIRM_ID',
+  'LINE_ITEM_UNIT_COST',
+  'TIMEKEEPER_NAME',
+  'TIMEKEEPER_CLASSIFICATION',
+  'CLIENT_MATTER_ID',
+] as const;
+
+const RECORD_END = '[]';
+const LINE_BREAK = '\r\n';
+
+// Pipes and brackets are delimiters in LEDES, and every record must stay on one line
+const clean = (value: string | null | undefined) =>
+  (value ?? '').replace(/[|[\]]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const ledesDate = (value: string | null | undefined) => (value ?? '').slice(0, 10).replace(/-/g, '');
+
+const money = (value: number) => value.toFixed(2);
+
+const units = (value: number) => String(Math.round(value * 100) / 100);
+
+/**
+ * Render an invoice as a LEDES 1998B file. The invoice total is the sum of the line
+ * totals, so the file always balances.
+ */
+export function formatLedes1998B(invoice: InvoiceDetail, options: LedesOptions): string {
+  if (!options.lawFirmId?.trim()) {
+    throw new Error('A law firm ID is required for LEDES export');
+  }
+  const lines = invoice.billing_line_items;
+  if (lines.length === 0) {
+    throw new Error('This invoice has no line items to export');
+  }
+
+  const dates = lines.map(line => line.line_date).sort();
+  const invoiceTotal = calculateInvoiceTotals(lines).total;
+  const clientId = invoice.client_reference || invoice.client_id;
+  const lawFirmMatterId = invoice.cases?.case_number || invoice.case_id || invoice.client_id;
+
+  const records = lines.map((line, index) => [
+    ledesDate(invoice.invoice_date),
+    clean(invoice.invoice_number),
+    clean(clientId),
+    clean(lawFirmMatterId),
+    money(invoiceTotal),
+    ledesDate(invoice.period_start ?? dates[0]),
+    ledesDate(invoice.period_end ?? dates[dates.length - 1]),
+    clean(invoice.description || invoice.cases?.title || 'Legal services'),
+    String(index + 1),
+    line.line_type === 'expense' ? 'E' : 'F',
+    units(Number(line.quantity)),
+    money(Number(line.adjustment_amount || 0)),
+    money(lineItemAmount(line)),
+    ledesDate(line.line_date),
+    clean(line.utbms_task_code),
+    clean(line.line_type === 'expense' ? line.utbms_expense_code : ''),
+    clean(line.line_type === 'expense' ? '' : line.utbms_activity_code),
+    clean(line.timekeeper_id),
+    clean(line.description),
+    clean(options.lawFirmId),
+    money(Number(line.rate)),
+    clean(line.timekeeper_name),
+    clean(line.timekeeper_classification),
+    clean(invoice.client_matter_reference),
+  ]);
+
+  return [
+    `LEDES1998B${RECORD_END}`,
+    `${LEDES_1998B_FIELDS.join('|')}${RECORD_END}`,
+    ...records.map(record => `${record.join('|')}${RECORD_END}`),
+  ].join(LINE_BREAK) + LINE_BREAK;
+}
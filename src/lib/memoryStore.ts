@@ -0,0 +1,871 @@
+/**
+ * Memory for the DocketChief agent and Smart Assistant
+ * One store for everything the AI learns about a user. Changes land in localStorage first, so
+ * memory works offline, and are synced item by item to the user_memory_* tables whenever the
+ * user is signed in. Each item carries the time it last changed: on sync the newer side wins,
+ * and a deletion wins a tie.
+ */
+import { supabase } from './supabase';
+import { learningsCandidateSchema } from './aiSchemas';
+import { parseStructured } from './structuredOutput';
+import {
+  DEFAULT_MEMORY_SETTINGS,
+  type LearningsCandidate,
+  type MemoryItem,
+  type MemoryItemKind,
+  type MemorySettings,
+  type MemoryTone,
+  type ObservedPreference,
+  type RedactNote,
+  type RepeatedTask,
+  type UserCorrection,
+  type UserMemory,
+} from '@/types/assistant';
+
+export const MEMORY_SCHEMA_VERSION = 2;
+export const LEARNINGS_MARKER = 'LEARNINGS_CANDIDATE';
+
+const MEMORY_STORAGE_KEY = 'docketchief_memory';
+// Caches of the agent and assistant memories this store replaced, migrated on first load
+const LEGACY_AGENT_KEY = 'docketchief_agent_memory';
+const LEGACY_ASSISTANT_KEY = 'docketchief_assistant_memory';
+
+const ANONYMOUS_USER = 'anonymous';
+const EPOCH = new Date(0).toISOString();
+
+const MEMORY_ITEM_KINDS: MemoryItemKind[] = ['preference', 'default', 'correction', 'task', 'redaction'];
+const TONES: MemoryTone[] = ['concise', 'balanced', 'detailed'];
+
+const MAX_CORRECTIONS = 50;
+const SYNC_DEBOUNCE_MS = 2000;
+// Pull a little before the cursor: a concurrent sync can commit rows stamped slightly earlier
+const SYNC_CURSOR_OVERLAP_MS = 60_000;
+
+export type MemorySyncStatus = 'local' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface MemorySyncState {
+  status: MemorySyncStatus;
+  pending: number;
+  lastSyncedAt: string | null;
+  error: string | null;
+}
+
+export interface MemorySnapshot {
+  memory: UserMemory;
+  sync: MemorySyncState;
+}
+
+export interface MemoryItemRow {
+  item_key: string;
+  kind: MemoryItemKind;
+  value: unknown;
+  updated_at: string;
+  deleted_at: string | null;
+  synced_at?: string;
+}
+
+export interface MemorySettingsRow {
+  settings: Partial<MemorySettings>;
+  schema_version: number;
+  updated_at: string;
+  synced_at?: string;
+}
+
+export const createDefaultMemory = (userId: string): UserMemory => ({
+  schemaVersion: MEMORY_SCHEMA_VERSION,
+  userId,
+  settings: { ...DEFAULT_MEMORY_SETTINGS },
+  // Defaults never win against settings the user chose on another device
+  settingsUpdatedAt: EPOCH,
+  items: {},
+  deletedItems: {},
+  pendingItemIds: [],
+  settingsPending: false,
+  syncCursor: null,
+  lastSyncedAt: null,
+});
+
+/**
+ * FNV-1a of an item's natural key, so ids (which outlive deletions) carry none of its content
+ */
+const hashKey = (key: string): string => {
+  let hash = 0x811c9dc5;
+  const normalized = key.trim().toLowerCase();
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// An item's kind and value, still discriminated on kind
+type MemoryItemContent = { [K in MemoryItemKind]: Pick<Extract<MemoryItem, { kind: K }>, 'kind' | 'value'> }[MemoryItemKind];
+
+const naturalKey = (item: MemoryItemContent): string => {
+  switch (item.kind) {
+    case 'preference':
+    case 'default':
+      return item.value.key;
+    case 'correction':
+      return `${item.value.context}|${item.value.originalAction}|${item.value.correctedAction}`;
+    case 'task':
+      return `${item.value.taskType}|${item.value.pattern}`;
+    case 'redaction':
+      return item.value.pattern;
+  }
+};
+
+export const memoryItemId = (item: MemoryItemContent): string =>
+  `${item.kind}:${hashKey(naturalKey(item))}`;
+
+const kindOf = (id: string) => id.split(':')[0] as MemoryItemKind;
+
+/**
+ * Items still remembered, most recently changed first
+ */
+export function activeItems<K extends MemoryItemKind>(memory: UserMemory, kind: K): Extract<MemoryItem, { kind: K }>[];
+export function activeItems(memory: UserMemory): MemoryItem[];
+export function activeItems(memory: UserMemory, kind?: MemoryItemKind): MemoryItem[] {
+  return Object.values(memory.items)
+    .filter(item => !kind || item.kind === kind)
+    .sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+}
+
+type StoredMemory = Record<string, unknown>;
+
+// Version 0: the agent's unversioned memory
+interface LegacyAgentMemory {
+  persona: { tone: 'concise' | 'verbose' | 'balanced'; prefers_no_filler: boolean; confirmation_threshold: number };
+  defaults: Record<string, string | undefined>;
+  shortcuts: Array<{ name: string; trigger_phrases: string[]; steps: string[] }>;
+  consents: { remember_preferences: boolean; store_emails: boolean };
+  history_digest: string[];
+  last_updated_iso: string;
+}
+
+// Version 1: the assistant's per-user memory, stored as version '1.0.0'
+interface LegacyAssistantMemory {
+  version: string;
+  userId: string;
+  lastUpdated: string;
+  preferences: {
+    tone: MemoryTone;
+    confirmationThreshold: number;
+    autoApplyLearnings: boolean;
+    storeInteractions: boolean;
+    // Only set when migrated from the agent's memory
+    storeEmails?: boolean;
+  };
+  learnedPreferences: ObservedPreference[];
+  userCorrections: UserCorrection[];
+  repeatedTasks: RepeatedTask[];
+  defaultValues: Record<string, unknown>;
+  redactionPatterns: string[];
+}
+
+const migrateAgentMemory = (stored: StoredMemory, userId: string): StoredMemory => {
+  const memory = stored as Partial<LegacyAgentMemory>;
+  const stamp = memory.last_updated_iso || EPOCH;
+  const tone = memory.persona?.tone === 'verbose' ? 'detailed' : memory.persona?.tone;
+
+  const migrated: LegacyAssistantMemory = {
+    version: '1.0.0',
+    userId,
+    lastUpdated: stamp,
+    preferences: {
+      tone: tone && TONES.includes(tone) ? tone : 'balanced',
+      confirmationThreshold: memory.persona?.confirmation_threshold ?? DEFAULT_MEMORY_SETTINGS.confirmationThreshold,
+      autoApplyLearnings: true,
+      storeInteractions: memory.consents?.remember_preferences ?? true,
+      storeEmails: memory.consents?.store_emails ?? false,
+    },
+    learnedPreferences: [],
+    // The digest holds one "YYYY-MM-DD: correction; correction" line per day
+    userCorrections: (memory.history_digest ?? []).map(entry => ({
+      originalAction: '',
+      correctedAction: entry,
+      context: 'Earlier session',
+      timestamp: stamp,
+    })),
+    repeatedTasks: (memory.shortcuts ?? []).map(shortcut => ({
+      taskType: shortcut.name,
+      pattern: shortcut.trigger_phrases.join(' | '),
+      frequency: 1,
+      lastOccurrence: stamp,
+      triggerPhrases: shortcut.trigger_phrases,
+      steps: shortcut.steps,
+    })),
+    defaultValues: memory.defaults ?? {},
+    redactionPatterns: [],
+  };
+  return migrated as unknown as StoredMemory;
+};
+
+const migrateAssistantMemory = (stored: StoredMemory, userId: string): StoredMemory => {
+  const memory = stored as Partial<LegacyAssistantMemory>;
+  const stamp = memory.lastUpdated || EPOCH;
+  const preferences = memory.preferences;
+
+  const migrated = createDefaultMemory(userId);
+  if (preferences) {
+    migrated.settings = {
+      tone: TONES.includes(preferences.tone) ? preferences.tone : 'balanced',
+      confirmationThreshold: preferences.confirmationThreshold ?? DEFAULT_MEMORY_SETTINGS.confirmationThreshold,
+      autoApplyLearnings: preferences.autoApplyLearnings ?? true,
+      rememberPreferences: preferences.storeInteractions ?? true,
+      storeEmails: preferences.storeEmails ?? false,
+    };
+    migrated.settingsUpdatedAt = stamp;
+    migrated.settingsPending = true;
+  }
+
+  const items: MemoryItem[] = [
+    ...(memory.learnedPreferences ?? []).map(value => ({ kind: 'preference' as const, value, updatedAt: value.observedAt || stamp })),
+    ...(memory.userCorrections ?? []).map(value => ({ kind: 'correction' as const, value, updatedAt: value.timestamp || stamp })),
+    ...(memory.repeatedTasks ?? []).map(value => ({ kind: 'task' as const, value, updatedAt: value.lastOccurrence || stamp })),
+    ...Object.entries(memory.defaultValues ?? {})
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => ({ kind: 'default' as const, value: { key, value: String(value) }, updatedAt: stamp })),
+    ...(memory.redactionPatterns ?? []).map(pattern => ({
+      kind: 'redaction' as const,
+      value: { pattern, reason: '', timestamp: stamp },
+      updatedAt: stamp,
+    })),
+  ].map(item => ({ ...item, id: memoryItemId(item) }) as MemoryItem);
+
+  for (const item of items) {
+    migrated.items[item.id] = item;
+  }
+  migrated.pendingItemIds = Object.keys(migrated.items);
+  return migrated as unknown as StoredMemory;
+};
+
+/**
+ * Schema migrations, keyed by the version each one upgrades from
+ */
+const MIGRATIONS: Record<number, (memory: StoredMemory, userId: string) => StoredMemory> = {
+  0: migrateAgentMemory,
+  1: migrateAssistantMemory,
+};
+
+const storedVersion = (stored: StoredMemory): number | null => {
+  if (typeof stored.schemaVersion === 'number') return stored.schemaVersion;
+  if (stored.version === '1.0.0') return 1;
+  if ('persona' in stored || 'consents' in stored) return 0;
+  return null;
+};
+
+/**
+ * Bring stored memory of any known version up to the current schema, one step at a time.
+ * Memory written by a newer client keeps the fields and item kinds this version understands.
+ */
+export function migrateMemory(stored: unknown, userId: string): UserMemory | null {
+  if (!stored || typeof stored !== 'object') return null;
+  let memory = stored as StoredMemory;
+  let version = storedVersion(memory);
+  if (version === null) return null;
+
+  while (version < MEMORY_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    memory = migrate(memory, userId);
+    version++;
+  }
+
+  const migrated = { ...createDefaultMemory(userId), ...(memory as Partial<UserMemory>) };
+  const items = Object.fromEntries(
+    Object.entries(migrated.items ?? {}).filter(([, item]) => MEMORY_ITEM_KINDS.includes(item.kind))
+  );
+  return {
+    ...migrated,
+    schemaVersion: MEMORY_SCHEMA_VERSION,
+    userId,
+    settings: { ...DEFAULT_MEMORY_SETTINGS, ...migrated.settings },
+    items,
+    pendingItemIds: migrated.pendingItemIds.filter(id => id in items || id in migrated.deletedItems),
+  };
+}
+
+interface ItemVersion {
+  updatedAt: string;
+  deleted: boolean;
+}
+
+const localVersion = (memory: UserMemory, id: string): ItemVersion | null => {
+  if (memory.items[id]) return { updatedAt: memory.items[id].updatedAt, deleted: false };
+  if (memory.deletedItems[id]) return { updatedAt: memory.deletedItems[id], deleted: true };
+  return null;
+};
+
+/**
+ * Whether the remote version of an item replaces the local one: the later change wins,
+ * and on a tie a deletion wins so a forgotten item never comes back
+ */
+export function remoteWins(local: ItemVersion | null, remote: ItemVersion): boolean {
+  if (!local) return true;
+  const localTime = Date.parse(local.updatedAt);
+  const remoteTime = Date.parse(remote.updatedAt);
+  if (localTime !== remoteTime) return remoteTime > localTime;
+  return remote.deleted && !local.deleted;
+}
+
+/**
+ * Fold what the server holds into local memory
+ */
+export function mergeRemoteMemory(
+  memory: UserMemory,
+  rows: MemoryItemRow[],
+  settingsRow: MemorySettingsRow | null,
+  now = new Date().toISOString()
+): UserMemory {
+  const merged: UserMemory = {
+    ...memory,
+    items: { ...memory.items },
+    deletedItems: { ...memory.deletedItems },
+    pendingItemIds: [...memory.pendingItemIds],
+    lastSyncedAt: now,
+  };
+  let cursor = memory.syncCursor;
+  const advance = (syncedAt?: string) => {
+    if (syncedAt && (!cursor || Date.parse(syncedAt) > Date.parse(cursor))) cursor = syncedAt;
+  };
+
+  for (const row of rows) {
+    advance(row.synced_at);
+    if (!MEMORY_ITEM_KINDS.includes(row.kind)) continue;
+
+    const remote = { updatedAt: row.updated_at, deleted: !!row.deleted_at };
+    if (!remoteWins(localVersion(merged, row.item_key), remote)) continue;
+
+    if (remote.deleted) {
+      delete merged.items[row.item_key];
+      merged.deletedItems[row.item_key] = row.deleted_at!;
+    } else {
+      delete merged.deletedItems[row.item_key];
+      merged.items[row.item_key] = { id: row.item_key, kind: row.kind, value: row.value, updatedAt: row.updated_at } as MemoryItem;
+    }
+    // The server already has something newer than our queued change
+    merged.pendingItemIds = merged.pendingItemIds.filter(id => id !== row.item_key);
+  }
+
+  if (settingsRow) {
+    advance(settingsRow.synced_at);
+    if (Date.parse(settingsRow.updated_at) > Date.parse(memory.settingsUpdatedAt)) {
+      merged.settings = { ...DEFAULT_MEMORY_SETTINGS, ...settingsRow.settings };
+      merged.settingsUpdatedAt = settingsRow.updated_at;
+      merged.settingsPending = false;
+    }
+  }
+
+  merged.syncCursor = cursor;
+  return merged;
+}
+
+/**
+ * Rows for every queued local change, deletions included
+ */
+export function pendingRows(memory: UserMemory): MemoryItemRow[] {
+  return memory.pendingItemIds.flatMap((id): MemoryItemRow[] => {
+    const item = memory.items[id];
+    if (item) {
+      return [{ item_key: id, kind: item.kind, value: item.value, updated_at: item.updatedAt, deleted_at: null }];
+    }
+    const deletedAt = memory.deletedItems[id];
+    return deletedAt ? [{ item_key: id, kind: kindOf(id), value: {}, updated_at: deletedAt, deleted_at: deletedAt }] : [];
+  });
+}
+
+/**
+ * Clear queued changes the server accepted, keeping any made while the push was in flight
+ */
+export function markPushed(current: UserMemory, pushed: UserMemory): UserMemory {
+  const unchanged = (id: string) => localVersion(current, id)?.updatedAt === localVersion(pushed, id)?.updatedAt;
+  return {
+    ...current,
+    pendingItemIds: current.pendingItemIds.filter(id => !pushed.pendingItemIds.includes(id) || !unchanged(id)),
+    settingsPending: current.settingsPending && (!pushed.settingsPending || current.settingsUpdatedAt !== pushed.settingsUpdatedAt),
+  };
+}
+
+const withTimestamps = (learnings: LearningsCandidate, now: string): LearningsCandidate => ({
+  ...learnings,
+  observed_preferences: learnings.observed_preferences.map(pref => ({ ...pref, observedAt: pref.observedAt || now })),
+  corrections: learnings.corrections.map(correction => ({ ...correction, timestamp: correction.timestamp || now })),
+  repeated_tasks: learnings.repeated_tasks.map(task => ({ ...task, lastOccurrence: task.lastOccurrence || now })),
+  failures_and_fixes: learnings.failures_and_fixes.map(fix => ({ ...fix, timestamp: fix.timestamp || now })),
+  redact_notes: learnings.redact_notes.map(note => ({ ...note, timestamp: note.timestamp || now })),
+});
+
+/**
+ * Validate a LEARNINGS_CANDIDATE block in either the agent's or the assistant's shape.
+ * Preferences the agent marks as lasting under 30 days are not worth remembering and are dropped.
+ */
+export function normalizeLearnings(raw: unknown, now = new Date().toISOString()): LearningsCandidate | null {
+  const result = learningsCandidateSchema.safeParse(raw);
+  return result.success ? withTimestamps(result.data, now) : null;
+}
+
+/**
+ * The LEARNINGS_CANDIDATE block at the end of a reply, with or without a ```json fence.
+ * A block that does not match the schema is logged and ignored; nothing is learned from it.
+ */
+export function extractLearnings(response: string, now = new Date().toISOString()): LearningsCandidate | null {
+  const marker = response.lastIndexOf(LEARNINGS_MARKER);
+  if (marker < 0) return null;
+
+  const { data, error } = parseStructured(learningsCandidateSchema, response.slice(marker));
+  if (error) {
+    console.warn('[Memory] Ignoring invalid learnings:', error.message, error.issues);
+    return null;
+  }
+  return withTimestamps(data, now);
+}
+
+/**
+ * A reply without its LEARNINGS_CANDIDATE block, for display
+ */
+export function stripLearnings(response: string): string {
+  const marker = response.indexOf(LEARNINGS_MARKER);
+  return marker < 0 ? response.trim() : response.slice(0, marker).trim();
+}
+
+const toTone = (value: string): MemoryTone | null => {
+  const tone = value.trim().toLowerCase() === 'verbose' ? 'detailed' : value.trim().toLowerCase();
+  return TONES.includes(tone as MemoryTone) ? (tone as MemoryTone) : null;
+};
+
+/**
+ * Forget items, leaving tombstones so the deletions sync
+ */
+export function forgetItems(memory: UserMemory, ids: string[], now = new Date().toISOString()): UserMemory {
+  const forgotten = ids.filter(id => memory.items[id]);
+  if (forgotten.length === 0) return memory;
+
+  const items = { ...memory.items };
+  const deletedItems = { ...memory.deletedItems };
+  for (const id of forgotten) {
+    delete items[id];
+    deletedItems[id] = now;
+  }
+  return {
+    ...memory,
+    items,
+    deletedItems,
+    pendingItemIds: [...new Set([...memory.pendingItemIds, ...forgotten])],
+  };
+}
+
+/**
+ * Remember what a reply's LEARNINGS_CANDIDATE observed, if the user allows it.
+ * Preferences below the confirmation threshold and anything matching a redaction pattern are skipped.
+ */
+export function applyLearnings(memory: UserMemory, learnings: LearningsCandidate, now = new Date().toISOString()): UserMemory {
+  if (!memory.settings.rememberPreferences) return memory;
+
+  const draft: UserMemory = {
+    ...memory,
+    settings: { ...memory.settings },
+    items: { ...memory.items },
+    deletedItems: { ...memory.deletedItems },
+    pendingItemIds: [...memory.pendingItemIds],
+  };
+  let changed = false;
+
+  const put = (item: Omit<MemoryItem, 'id' | 'updatedAt'>) => {
+    const id = memoryItemId(item as MemoryItem);
+    draft.items[id] = { ...item, id, updatedAt: now } as MemoryItem;
+    delete draft.deletedItems[id];
+    if (!draft.pendingItemIds.includes(id)) draft.pendingItemIds.push(id);
+    changed = true;
+  };
+
+  for (const note of learnings.redact_notes) {
+    put({ kind: 'redaction', value: note });
+  }
+  const patterns = activeItems(draft, 'redaction').map(item => item.value.pattern.toLowerCase());
+  const redacted = (...texts: string[]) => patterns.some(pattern => texts.some(text => text.toLowerCase().includes(pattern)));
+
+  for (const pref of learnings.observed_preferences) {
+    if (pref.confidence < draft.settings.confirmationThreshold || redacted(pref.key, pref.value)) continue;
+
+    if (pref.key.startsWith('defaults.')) {
+      put({ kind: 'default', value: { key: pref.key.slice('defaults.'.length), value: pref.value } });
+      continue;
+    }
+    if (pref.key === 'tone' || pref.key === 'persona.tone') {
+      const tone = toTone(pref.value);
+      if (tone && tone !== draft.settings.tone) {
+        draft.settings.tone = tone;
+        draft.settingsUpdatedAt = now;
+        draft.settingsPending = true;
+        changed = true;
+      }
+      continue;
+    }
+    const existing = draft.items[memoryItemId({ kind: 'preference', value: pref })];
+    if (existing?.kind === 'preference' && existing.value.confidence > pref.confidence) continue;
+    put({ kind: 'preference', value: pref });
+  }
+
+  for (const correction of learnings.corrections) {
+    if (redacted(correction.originalAction, correction.correctedAction, correction.context)) continue;
+    put({ kind: 'correction', value: correction });
+  }
+
+  for (const task of learnings.repeated_tasks) {
+    const existing = draft.items[memoryItemId({ kind: 'task', value: task })];
+    if (existing?.kind === 'task') {
+      put({
+        kind: 'task',
+        value: {
+          ...existing.value,
+          frequency: existing.value.frequency + 1,
+          lastOccurrence: task.lastOccurrence,
+          suggestedAutomation: task.suggestedAutomation ?? existing.value.suggestedAutomation,
+          triggerPhrases: [...new Set([...(existing.value.triggerPhrases ?? []), ...(task.triggerPhrases ?? [])])],
+          steps: task.steps ?? existing.value.steps,
+        },
+      });
+    } else {
+      put({ kind: 'task', value: task });
+    }
+  }
+
+  if (!changed) return memory;
+
+  // Keep only the most recent corrections
+  const staleCorrections = activeItems(draft, 'correction').slice(MAX_CORRECTIONS).map(item => item.id);
+  return forgetItems(draft, staleCorrections, now);
+}
+
+/**
+ * Readable memory for a system prompt
+ */
+export function formatMemoryForPrompt(memory: UserMemory): string {
+  const { settings } = memory;
+  const sections: string[] = [];
+
+  sections.push(`User Preferences:
+- Tone: ${settings.tone}
+- Confirmation threshold: ${settings.confirmationThreshold}
+- Auto-apply learnings: ${settings.autoApplyLearnings ? 'Yes' : 'No'}`);
+
+  const preferences = activeItems(memory, 'preference')
+    .sort((a, b) => b.value.confidence - a.value.confidence)
+    .slice(0, 10)
+    .map(item => `  - ${item.value.key}: ${item.value.value} (confidence: ${(item.value.confidence * 100).toFixed(0)}%)`);
+  if (preferences.length > 0) sections.push(`\nLearned Preferences:\n${preferences.join('\n')}`);
+
+  const defaults = activeItems(memory, 'default').map(item => `  - ${item.value.key}: ${item.value.value}`);
+  if (defaults.length > 0) sections.push(`\nCustom Defaults:\n${defaults.join('\n')}`);
+
+  const corrections = activeItems(memory, 'correction')
+    .slice(0, 5)
+    .map(({ value }) => value.originalAction
+      ? `  - ${value.context || 'General'}: changed from "${value.originalAction}" to "${value.correctedAction}"`
+      : `  - ${value.correctedAction}`);
+  if (corrections.length > 0) sections.push(`\nRecent Corrections:\n${corrections.join('\n')}`);
+
+  const tasks = activeItems(memory, 'task')
+    .sort((a, b) => b.value.frequency - a.value.frequency)
+    .slice(0, 5)
+    .map(({ value }) => `  - ${value.taskType}: ${value.pattern} (${value.frequency} times)${value.steps?.length ? ` - steps: ${value.steps.join(' -> ')}` : ''}`);
+  if (tasks.length > 0) sections.push(`\nFrequent Tasks:\n${tasks.join('\n')}`);
+
+  const redactions = activeItems(memory, 'redaction').map(item => `  - ${item.value.pattern}`);
+  if (redactions.length > 0) sections.push(`\nNever Remember:\n${redactions.join('\n')}`);
+
+  return sections.join('\n');
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+export class MemoryStore {
+  private memory: UserMemory;
+  private status: MemorySyncStatus = 'local';
+  private error: string | null = null;
+  private snapshot: MemorySnapshot;
+  private listeners = new Set<() => void>();
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+  private syncing: Promise<void> | null = null;
+
+  constructor(private syncDelayMs = SYNC_DEBOUNCE_MS) {
+    this.memory = this.readCache(ANONYMOUS_USER);
+    this.snapshot = this.buildSnapshot();
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.scheduleSync(0));
+    }
+  }
+
+  /**
+   * Switch to a user's memory (null when signed out) and start syncing it
+   */
+  load(userId: string | null): UserMemory {
+    const id = userId || ANONYMOUS_USER;
+    if (id === this.memory.userId) return this.memory;
+
+    if (this.syncTimer) clearTimeout(this.syncTimer);
+    this.memory = this.readCache(id);
+    this.status = id === ANONYMOUS_USER ? 'local' : 'idle';
+    this.error = null;
+    this.notify();
+    this.scheduleSync(0);
+    return this.memory;
+  }
+
+  getMemory(): UserMemory {
+    return this.memory;
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): MemorySnapshot => this.snapshot;
+
+  applyLearnings(learnings: LearningsCandidate): void {
+    const next = applyLearnings(this.memory, learnings);
+    if (next !== this.memory) this.commit(next);
+  }
+
+  updateSettings(settings: Partial<MemorySettings>): void {
+    const now = new Date().toISOString();
+    let next: UserMemory = {
+      ...this.memory,
+      settings: { ...this.memory.settings, ...settings },
+      settingsUpdatedAt: now,
+      settingsPending: true,
+    };
+    // Opting out of memory forgets everything learned so far
+    if (settings.rememberPreferences === false) {
+      next = forgetItems(next, Object.keys(next.items), now);
+    }
+    this.commit(next);
+  }
+
+  deleteItem(id: string): void {
+    const next = forgetItems(this.memory, [id]);
+    if (next !== this.memory) this.commit(next);
+  }
+
+  /**
+   * Forget every learned item and restore the default settings
+   */
+  reset(): void {
+    const now = new Date().toISOString();
+    this.commit({
+      ...forgetItems(this.memory, Object.keys(this.memory.items), now),
+      settings: { ...DEFAULT_MEMORY_SETTINGS },
+      settingsUpdatedAt: now,
+      settingsPending: true,
+    });
+  }
+
+  /**
+   * Everything remembered about the user, for download
+   */
+  exportMemory(): string {
+    return JSON.stringify({
+      schemaVersion: MEMORY_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      settings: this.memory.settings,
+      items: activeItems(this.memory),
+    }, null, 2);
+  }
+
+  /**
+   * Push queued changes, then pull what other devices changed. Offline or failed syncs
+   * leave the changes queued for the next attempt.
+   */
+  sync(): Promise<void> {
+    if (this.syncing) return this.syncing;
+    if (this.memory.userId === ANONYMOUS_USER) return Promise.resolve();
+    if (isOffline()) {
+      this.setStatus('offline');
+      return Promise.resolve();
+    }
+
+    this.syncing = this.runSync(this.memory.userId).finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  private async runSync(userId: string): Promise<void> {
+    if (this.syncTimer) clearTimeout(this.syncTimer);
+    this.syncTimer = null;
+    this.setStatus('syncing');
+
+    try {
+      const pushed = this.memory;
+      await pushMemory(pushed);
+      const remote = await pullMemory(userId, pushed.syncCursor);
+
+      // The user may have signed out or switched accounts while we waited
+      if (this.memory.userId !== userId) return;
+
+      this.memory = mergeRemoteMemory(markPushed(this.memory, pushed), remote.items, remote.settings);
+      this.writeCache(this.memory);
+      this.error = null;
+      this.setStatus('idle');
+    } catch (error) {
+      console.error('[Memory] Sync failed; changes stay queued:', error);
+      if (this.memory.userId !== userId) return;
+      this.error = error instanceof Error ? error.message : 'Sync failed';
+      this.setStatus(isOffline() ? 'offline' : 'error');
+    }
+  }
+
+  private scheduleSync(delayMs = this.syncDelayMs) {
+    if (this.memory.userId === ANONYMOUS_USER) return;
+    if (this.syncTimer) clearTimeout(this.syncTimer);
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      this.sync();
+    }, delayMs);
+  }
+
+  private commit(memory: UserMemory) {
+    this.memory = memory;
+    this.writeCache(memory);
+    this.notify();
+    this.scheduleSync();
+  }
+
+  private setStatus(status: MemorySyncStatus) {
+    this.status = status;
+    this.notify();
+  }
+
+  private buildSnapshot(): MemorySnapshot {
+    return {
+      memory: this.memory,
+      sync: {
+        status: this.status,
+        pending: this.memory.pendingItemIds.length + (this.memory.settingsPending ? 1 : 0),
+        lastSyncedAt: this.memory.lastSyncedAt,
+        error: this.error,
+      },
+    };
+  }
+
+  private notify() {
+    this.snapshot = this.buildSnapshot();
+    this.listeners.forEach(listener => listener());
+  }
+
+  private readCache(userId: string): UserMemory {
+    try {
+      const stored = localStorage.getItem(`${MEMORY_STORAGE_KEY}_${userId}`);
+      if (stored) {
+        const memory = migrateMemory(JSON.parse(stored), userId);
+        if (memory) return memory;
+      }
+      return this.importLegacy(userId);
+    } catch (error) {
+      console.error('[Memory] Failed to load memory:', error);
+      return createDefaultMemory(userId);
+    }
+  }
+
+  /**
+   * Carry the old agent and assistant caches into the unified store, once.
+   * The agent cache was not per user, so it goes to the first account that signs in.
+   */
+  private importLegacy(userId: string): UserMemory {
+    const keys = [`${LEGACY_ASSISTANT_KEY}_${userId}`];
+    if (userId !== ANONYMOUS_USER) keys.push(LEGACY_AGENT_KEY);
+
+    let memory = createDefaultMemory(userId);
+    let imported = false;
+    for (const key of keys) {
+      const stored = localStorage.getItem(key);
+      const migrated = stored ? migrateMemory(JSON.parse(stored), userId) : null;
+      if (!migrated) continue;
+      memory = combineMemories(memory, migrated);
+      imported = true;
+    }
+
+    if (imported) {
+      this.writeCache(memory);
+      keys.forEach(key => localStorage.removeItem(key));
+    }
+    return memory;
+  }
+
+  private writeCache(memory: UserMemory) {
+    try {
+      localStorage.setItem(`${MEMORY_STORAGE_KEY}_${memory.userId}`, JSON.stringify(memory));
+    } catch (error) {
+      console.error('[Memory] Failed to save memory:', error);
+    }
+  }
+}
+
+/**
+ * Merge two local memories of the same user, item by item
+ */
+function combineMemories(base: UserMemory, other: UserMemory): UserMemory {
+  const rows = [...Object.values(other.items).map(item => ({
+    item_key: item.id,
+    kind: item.kind,
+    value: item.value,
+    updated_at: item.updatedAt,
+    deleted_at: null,
+  })), ...Object.entries(other.deletedItems).map(([id, deletedAt]) => ({
+    item_key: id,
+    kind: kindOf(id),
+    value: {},
+    updated_at: deletedAt,
+    deleted_at: deletedAt,
+  }))];
+  const settings = { settings: other.settings, schema_version: other.schemaVersion, updated_at: other.settingsUpdatedAt };
+  const merged = mergeRemoteMemory(base, rows, settings);
+
+  // Neither side has reached the server yet
+  return {
+    ...merged,
+    lastSyncedAt: null,
+    syncCursor: null,
+    pendingItemIds: [...new Set([...Object.keys(merged.items), ...Object.keys(merged.deletedItems)])],
+    settingsPending: base.settingsPending || other.settingsPending,
+  };
+}
+
+async function pushMemory(memory: UserMemory): Promise<void> {
+  const items = pendingRows(memory);
+  if (items.length === 0 && !memory.settingsPending) return;
+
+  const { error } = await supabase.rpc('merge_user_memory', {
+    p_items: items,
+    p_settings: memory.settingsPending ? memory.settings : null,
+    p_settings_updated_at: memory.settingsPending ? memory.settingsUpdatedAt : null,
+    p_schema_version: MEMORY_SCHEMA_VERSION,
+  });
+  if (error) throw new Error(error.message || 'Failed to save memory');
+}
+
+async function pullMemory(userId: string, cursor: string | null) {
+  let itemsQuery = supabase.from('user_memory_items').select('*').eq('user_id', userId);
+  if (cursor) {
+    itemsQuery = itemsQuery.gt('synced_at', new Date(Date.parse(cursor) - SYNC_CURSOR_OVERLAP_MS).toISOString());
+  }
+
+  const [items, settings] = await Promise.all([
+    itemsQuery,
+    supabase.from('user_memory_settings').select('*').eq('user_id', userId).maybeSingle(),
+  ]);
+  if (items.error) throw new Error(items.error.message || 'Failed to load memory');
+  if (settings.error) throw new Error(settings.error.message || 'Failed to load memory settings');
+
+  return {
+    items: (items.data ?? []) as MemoryItemRow[],
+    settings: (settings.data ?? null) as MemorySettingsRow | null,
+  };
+}
+
+// Singleton instance
+export const memoryStore = new MemoryStore();
@@ -0,0 +1,284 @@
+/**
+ * Privilege logs
+ * Documents withheld or redacted as attorney-client communications or work product are tagged
+ * with the details a log must give (date, author, recipients, type, privilege basis and a
+ * description), and the tags are laid out in the column order the chosen rule expects. The AI
+ * drafts each description from the document's analysis summary, and any long run of words
+ * copied from that summary is flagged before the description goes on the log.
+ */
+import { supabase } from './supabase';
+import { generateStructured } from './structuredOutput';
+import { privilegeDescriptionSchema } from './aiSchemas';
+import { privilegeDescriptionRequestPrompt, privilegeDescriptionSystemPrompt, renderPrompt } from './prompts';
+
+export type PrivilegeTreatment = 'withheld' | 'redacted';
+export type PrivilegeBasis = 'attorney_client' | 'work_product' | 'attorney_client_work_product';
+export type DescriptionSource = 'ai' | 'manual';
+
+export const PRIVILEGE_TREATMENT_LABELS: Record<PrivilegeTreatment, string> = {
+  withheld: 'Withheld',
+  redacted: 'Redacted',
+};
+
+export const PRIVILEGE_BASIS_LABELS: Record<PrivilegeBasis, string> = {
+  attorney_client: 'Attorney-Client Privilege',
+  work_product: 'Work Product',
+  attorney_client_work_product: 'Attorney-Client Privilege; Work Product',
+};
+
+export interface PrivilegeTag {
+  id?: string;
+  user_id?: string;
+  document_id: string;
+  case_id?: string | null;
+  treatment: PrivilegeTreatment;
+  privilege_basis: PrivilegeBasis;
+  document_date: string | null;
+  author: string;
+  recipients: string[];
+  document_type: string;
+  description: string;
+  description_source: DescriptionSource;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// A tagged document as the log needs it
+export interface PrivilegeLogSource {
+  tag: PrivilegeTag;
+  fileName: string;
+  // First Bates number of a redacted document's produced copy
+  bates?: string | null;
+}
+
+export interface PrivilegeLogEntry {
+  logNumber: string;
+  documentId: string;
+  fileName: string;
+  bates: string;
+  date: string;
+  author: string;
+  recipients: string;
+  documentType: string;
+  basis: string;
+  treatment: string;
+  description: string;
+}
+
+export type PrivilegeLogColumn = keyof Omit<PrivilegeLogEntry, 'documentId' | 'fileName'>;
+
+export type PrivilegeLogFormat = 'frcp' | 'sdny';
+
+export interface PrivilegeLogFormatSpec {
+  label: string;
+  // Rule the layout follows, printed under the title
+  rule: string;
+  columns: Array<{ key: PrivilegeLogColumn; header: string; width: number }>;
+}
+
+/**
+ * Column layouts. Fed. R. Civ. P. 26(b)(5)(A) asks only that the nature of what is withheld be
+ * described; S.D.N.Y. and E.D.N.Y. Local Civil Rule 26.2(a)(2)(A) lists the type of document,
+ * general subject matter, date, and author and recipients, in that order.
+ */
+export const PRIVILEGE_LOG_FORMATS: Record<PrivilegeLogFormat, PrivilegeLogFormatSpec> = {
+  frcp: {
+    label: 'Federal (FRCP 26(b)(5)(A))',
+    rule: 'Fed. R. Civ. P. 26(b)(5)(A)',
+    columns: [
+      { key: 'logNumber', header: 'Log No.', width: 11 },
+      { key: 'bates', header: 'Bates / Control No.', width: 16 },
+      { key: 'date', header: 'Date', width: 12 },
+      { key: 'author', header: 'Author', width: 22 },
+      { key: 'recipients', header: 'Recipients', width: 30 },
+      { key: 'documentType', header: 'Document Type', width: 16 },
+      { key: 'basis', header: 'Privilege Asserted', width: 22 },
+      { key: 'treatment', header: 'Withheld / Redacted', width: 12 },
+      { key: 'description', header: 'Description', width: 50 },
+    ],
+  },
+  sdny: {
+    label: 'S.D.N.Y. / E.D.N.Y. (Local Civil Rule 26.2)',
+    rule: 'S.D.N.Y. & E.D.N.Y. Local Civil Rule 26.2(a)(2)(A)',
+    columns: [
+      { key: 'logNumber', header: 'Log No.', width: 11 },
+      { key: 'bates', header: 'Bates / Control No.', width: 16 },
+      { key: 'documentType', header: 'Type of Document', width: 16 },
+      { key: 'description', header: 'General Subject Matter', width: 50 },
+      { key: 'date', header: 'Date', width: 12 },
+      { key: 'author', header: 'Author', width: 22 },
+      { key: 'recipients', header: 'Addressees and Recipients', width: 30 },
+      { key: 'basis', header: 'Privilege Asserted', width: 22 },
+      { key: 'treatment', header: 'Withheld / Redacted', width: 12 },
+    ],
+  },
+};
+
+const LOG_NUMBER_PREFIX = 'PRIV-';
+const LOG_NUMBER_DIGITS = 4;
+// Copying this many consecutive words of the summary is taken as disclosing it
+export const REVEALING_PHRASE_WORDS = 6;
+
+/**
+ * Number the tagged documents in date order, undated documents last
+ */
+export function buildPrivilegeLog(sources: PrivilegeLogSource[]): PrivilegeLogEntry[] {
+  return [...sources]
+    .sort((a, b) => {
+      const byDate = (a.tag.document_date || '9999').localeCompare(b.tag.document_date || '9999');
+      return byDate || a.fileName.localeCompare(b.fileName);
+    })
+    .map(({ tag, fileName, bates }, index) => {
+      const logNumber = `${LOG_NUMBER_PREFIX}${String(index + 1).padStart(LOG_NUMBER_DIGITS, '0')}`;
+      return {
+        logNumber,
+        documentId: tag.document_id,
+        fileName,
+        // Withheld documents were never stamped, so the log number identifies them
+        bates: (tag.treatment === 'redacted' && bates) || logNumber,
+        date: tag.document_date || 'Undated',
+        author: tag.author.trim() || 'Unknown',
+        recipients: tag.recipients.map(recipient => recipient.trim()).filter(Boolean).join('; '),
+        documentType: tag.document_type.trim(),
+        basis: PRIVILEGE_BASIS_LABELS[tag.privilege_basis],
+        treatment: PRIVILEGE_TREATMENT_LABELS[tag.treatment],
+        description: tag.description.trim(),
+      };
+    });
+}
+
+/**
+ * Headers and cell values in the format's column order
+ */
+export function privilegeLogTable(entries: PrivilegeLogEntry[], format: PrivilegeLogFormat) {
+  const { columns } = PRIVILEGE_LOG_FORMATS[format];
+  return {
+    columns: columns.map(({ header, width }) => ({ header, width })),
+    rows: entries.map(entry => columns.map(({ key }) => entry[key])),
+  };
+}
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * CSV privilege log
+ */
+export function formatPrivilegeLogCsv(entries: PrivilegeLogEntry[], format: PrivilegeLogFormat): string {
+  const { columns, rows } = privilegeLogTable(entries, format);
+  return [columns.map(column => column.header), ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+const words = (text: string) => text.toLowerCase().match(/[a-z0-9$%.'-]+/g)?.map(word => word.replace(/^[.'-]+|[.'-]+$/g, '')).filter(Boolean) ?? [];
+
+/**
+ * Runs of words the description copies from the privileged summary
+ */
+export function revealedPhrases(description: string, summary: string, minWords = REVEALING_PHRASE_WORDS): string[] {
+  const summaryWords = words(summary);
+  const shingles = new Set<string>();
+  for (let i = 0; i + minWords <= summaryWords.length; i++) {
+    shingles.add(summaryWords.slice(i, i + minWords).join(' '));
+  }
+
+  const descriptionWords = words(description);
+  const phrases: string[] = [];
+  let start = -1;
+  // Grow each copied run as far as it goes, so overlapping matches are reported once
+  for (let i = 0; i + minWords <= descriptionWords.length + 1; i++) {
+    const copied = i + minWords <= descriptionWords.length && shingles.has(descriptionWords.slice(i, i + minWords).join(' '));
+    if (copied && start < 0) start = i;
+    if (!copied && start >= 0) {
+      phrases.push(descriptionWords.slice(start, i - 1 + minWords).join(' '));
+      start = -1;
+    }
+  }
+  return phrases;
+}
+
+/**
+ * Draft a log description from the document's analysis summary, with any phrases it copies
+ */
+export async function draftPrivilegeDescription(
+  tag: PrivilegeTag,
+  summary: string
+): Promise<{ description: string; documentType: string; revealed: string[] }> {
+  const drafted = await generateStructured(privilegeDescriptionSchema, {
+    feature: 'privilege_log',
+    caseId: tag.case_id ?? undefined,
+    schemaName: 'privilege_description',
+    schemaDescription: 'Privilege log description of a withheld or redacted document',
+    system: renderPrompt(privilegeDescriptionSystemPrompt, {}).text,
+    messages: [
+      {
+        role: 'user',
+        content: renderPrompt(privilegeDescriptionRequestPrompt, {
+          summary,
+          basis: PRIVILEGE_BASIS_LABELS[tag.privilege_basis],
+          treatment: PRIVILEGE_TREATMENT_LABELS[tag.treatment],
+          documentType: tag.document_type,
+          date: tag.document_date ?? '',
+          author: tag.author,
+          recipients: tag.recipients.join('; '),
+        }).text,
+      },
+    ],
+  });
+  return { ...drafted, revealed: revealedPhrases(drafted.description, summary) };
+}
+
+/**
+ * The user's privilege tags, keyed by document
+ */
+export async function loadPrivilegeTags(userId: string): Promise<Map<string, PrivilegeTag>> {
+  const { data, error } = await supabase.from('privilege_tags').select('*').eq('user_id', userId);
+  if (error) throw new Error(error.message || 'Failed to load privilege tags');
+  return new Map((data as PrivilegeTag[]).map(tag => [tag.document_id, tag]));
+}
+
+export async function savePrivilegeTag(userId: string, tag: PrivilegeTag): Promise<PrivilegeTag> {
+  const { id: _id, created_at: _created, ...fields } = tag;
+  const { data, error } = await supabase
+    .from('privilege_tags')
+    .upsert({ ...fields, user_id: userId, updated_at: new Date().toISOString() }, { onConflict: 'document_id' })
+    .select()
+    .single();
+  if (error) throw new Error(error.message || 'Failed to save privilege tag');
+  return data as PrivilegeTag;
+}
+
+export async function deletePrivilegeTag(documentId: string): Promise<void> {
+  const { error } = await supabase.from('privilege_tags').delete().eq('document_id', documentId);
+  if (error) throw new Error(error.message || 'Failed to remove privilege tag');
+}
+
+/**
+ * Summary from the latest analysis of the file, which document_analyses records by file name
+ */
+export async function findAnalysisSummary(userId: string, fileName: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('document_analyses')
+    .select('analysis_result')
+    .eq('user_id', userId)
+    .eq('file_name', fileName)
+    .order('created_at', { ascending: false })
+    .limit(1);
+  if (error) throw new Error(error.message || 'Failed to load document analysis');
+  const summary = data?.[0]?.analysis_result?.summary;
+  return typeof summary === 'string' && summary.trim() ? summary.trim() : null;
+}
+
+/**
+ * First Bates number each document received in its latest production
+ */
+export async function loadProducedBates(documentIds: string[]): Promise<Map<string, string>> {
+  if (documentIds.length === 0) return new Map();
+  const { data, error } = await supabase
+    .from('production_documents')
+    .select('document_id, begin_bates, created_at')
+    .in('document_id', documentIds)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(error.message || 'Failed to load produced Bates numbers');
+  const bates = new Map<string, string>();
+  (data ?? []).forEach(row => bates.set(row.document_id, row.begin_bates));
+  return bates;
+}
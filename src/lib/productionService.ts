@@ -0,0 +1,300 @@
+/**
+ * Discovery productions
+ * Builds a production volume from the firm's documents: each page is stamped with its Bates
+ * number and confidentiality legend and saved as a single-page PDF, natives go behind a
+ * stamped slip sheet, and the load files and production log are written alongside. The
+ * volume is zipped for download and the Bates ranges are recorded in productions and
+ * production_documents, so the next production continues the numbering.
+ */
+import JSZip from 'jszip';
+import { PDFDocument, StandardFonts, degrees, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import { supabase } from './supabase';
+import {
+  CONFIDENTIALITY_LEGENDS,
+  DEFAULT_BATES_DIGITS,
+  assignBatesRanges,
+  buildDatLoadFile,
+  buildOptLoadFile,
+  buildProductionLog,
+  type BatesRange,
+  type ConfidentialityDesignation,
+  type ProductionSummary,
+} from './bates';
+
+export interface ProductionSourceDocument {
+  id: string;
+  filename: string;
+  file_type: string;
+  storage_path: string | null;
+  extracted_text?: string | null;
+}
+
+export interface ProductionOptions {
+  volume: string;
+  prefix: string;
+  startNumber: number;
+  digits?: number;
+  confidentiality: ConfidentialityDesignation;
+  caseId?: string | null;
+  onProgress?: (progress: { stage: 'preparing' | 'stamping' | 'packaging'; done: number; total: number }) => void;
+}
+
+export interface ProductionVolume {
+  summary: ProductionSummary;
+  ranges: BatesRange[];
+  pageCount: number;
+  // The zipped volume folder
+  archive: Blob;
+}
+
+export class ProductionError extends Error {
+  public documentId: string | null;
+
+  constructor(message: string, documentId: string | null = null) {
+    super(message);
+    this.name = 'ProductionError';
+    this.documentId = documentId;
+  }
+}
+
+// US Letter, in points
+const LETTER = { width: 612, height: 792 };
+const STAMP_FONT_SIZE = 9;
+const STAMP_MARGIN = 18;
+const STAMP_PADDING = 2;
+// How far Helvetica's descenders reach below the baseline at the stamp size
+const STAMP_DESCENT = 2;
+// Room kept free below converted images for the stamps
+const IMAGE_MARGIN = { side: 36, top: 36, bottom: 54 };
+
+const VOLUME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const isPdf = (document: ProductionSourceDocument) =>
+  document.file_type === 'application/pdf' || /\.pdf$/i.test(document.filename);
+
+const imageKind = (document: ProductionSourceDocument): 'png' | 'jpg' | null => {
+  if (document.file_type === 'image/png' || /\.png$/i.test(document.filename)) return 'png';
+  if (['image/jpeg', 'image/jpg'].includes(document.file_type) || /\.jpe?g$/i.test(document.filename)) return 'jpg';
+  return null;
+};
+
+async function downloadDocument(document: ProductionSourceDocument): Promise<Uint8Array> {
+  if (!document.storage_path) {
+    throw new ProductionError(`${document.filename} has no stored file to produce`, document.id);
+  }
+  const { data, error } = await supabase.storage.from('legal-documents').download(document.storage_path);
+  if (error || !data) {
+    throw new ProductionError(`Failed to download ${document.filename}: ${error?.message ?? 'no data'}`, document.id);
+  }
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+/**
+ * The pages to stamp for one document: the PDF itself, an image placed on a Letter page, or
+ * a slip sheet standing in for a native file
+ */
+async function toPdf(document: ProductionSourceDocument, bytes: Uint8Array): Promise<{ pdf: PDFDocument; native: boolean }> {
+  if (isPdf(document)) {
+    let pdf: PDFDocument;
+    try {
+      // Loaded regardless of encryption only to refuse it by name below
+      pdf = await PDFDocument.load(bytes, { ignoreEncryption: true });
+    } catch (error) {
+      console.error('[Production] Failed to read PDF', document.filename, error);
+      throw new ProductionError(`${document.filename} is not a readable PDF`, document.id);
+    }
+    // Stamping an encrypted PDF produces pages that are blank or still locked
+    if (pdf.isEncrypted) {
+      throw new ProductionError(`${document.filename} is encrypted; remove its password protection before producing it`, document.id);
+    }
+    return { pdf, native: false };
+  }
+
+  const pdf = await PDFDocument.create();
+  const page = pdf.addPage([LETTER.width, LETTER.height]);
+  const kind = imageKind(document);
+  if (kind) {
+    const image = kind === 'png' ? await pdf.embedPng(bytes) : await pdf.embedJpg(bytes);
+    const box = {
+      width: LETTER.width - 2 * IMAGE_MARGIN.side,
+      height: LETTER.height - IMAGE_MARGIN.top - IMAGE_MARGIN.bottom,
+    };
+    const { width, height } = image.scaleToFit(box.width, box.height);
+    page.drawImage(image, {
+      x: (LETTER.width - width) / 2,
+      y: IMAGE_MARGIN.bottom + (box.height - height) / 2,
+      width,
+      height,
+    });
+    return { pdf, native: false };
+  }
+
+  const font = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const title = 'DOCUMENT PRODUCED IN NATIVE FORMAT';
+  page.drawText(title, {
+    x: (LETTER.width - font.widthOfTextAtSize(title, 16)) / 2,
+    y: LETTER.height / 2,
+    size: 16,
+    font,
+  });
+  return { pdf, native: true };
+}
+
+const rotationOf = (page: PDFPage) => ((page.getRotation().angle % 360) + 360) % 360;
+
+/**
+ * Page-space point of a point measured on the page as it is displayed, whatever its /Rotate
+ */
+function toPageSpace(page: PDFPage, visibleX: number, visibleY: number) {
+  const { x, y, width, height } = page.getCropBox();
+  switch (rotationOf(page)) {
+    case 90:
+      return { x: x + width - visibleY, y: y + visibleX };
+    case 180:
+      return { x: x + width - visibleX, y: y + height - visibleY };
+    case 270:
+      return { x: x + visibleY, y: y + height - visibleX };
+    default:
+      return { x: x + visibleX, y: y + visibleY };
+  }
+}
+
+// Black on a white box, so the stamp stays legible over the page content
+function drawStamp(page: PDFPage, text: string, font: PDFFont, visibleX: number, visibleY: number) {
+  const rotate = degrees(rotationOf(page));
+  page.drawRectangle({
+    ...toPageSpace(page, visibleX - STAMP_PADDING, visibleY - STAMP_PADDING - STAMP_DESCENT),
+    width: font.widthOfTextAtSize(text, STAMP_FONT_SIZE) + 2 * STAMP_PADDING,
+    height: STAMP_FONT_SIZE + 2 * STAMP_PADDING,
+    rotate,
+    color: rgb(1, 1, 1),
+  });
+  page.drawText(text, { ...toPageSpace(page, visibleX, visibleY), size: STAMP_FONT_SIZE, font, color: rgb(0, 0, 0), rotate });
+}
+
+/**
+ * Bates number at the bottom right of every page, the legend at the bottom left
+ */
+export async function stampPages(pdf: PDFDocument, batesNumbers: string[], legend: string): Promise<void> {
+  const font = await pdf.embedFont(StandardFonts.HelveticaBold);
+  pdf.getPages().forEach((page, index) => {
+    const { width, height } = page.getCropBox();
+    const quarterTurn = rotationOf(page) % 180 !== 0;
+    const visibleWidth = quarterTurn ? height : width;
+
+    const bates = batesNumbers[index];
+    drawStamp(page, bates, font, visibleWidth - STAMP_MARGIN - font.widthOfTextAtSize(bates, STAMP_FONT_SIZE), STAMP_MARGIN);
+    if (legend) drawStamp(page, legend, font, STAMP_MARGIN, STAMP_MARGIN);
+  });
+}
+
+/**
+ * Build a production volume from the selected documents, in the order given
+ */
+export async function buildProduction(documents: ProductionSourceDocument[], options: ProductionOptions): Promise<ProductionVolume> {
+  const volume = options.volume.trim();
+  if (!VOLUME_PATTERN.test(volume)) {
+    throw new ProductionError('A volume name may only contain letters, digits, hyphens and underscores');
+  }
+  if (documents.length === 0) {
+    throw new ProductionError('Select at least one document to produce');
+  }
+
+  const prepared: Array<{ document: ProductionSourceDocument; bytes: Uint8Array; pdf: PDFDocument; native: boolean }> = [];
+  for (const [index, document] of documents.entries()) {
+    options.onProgress?.({ stage: 'preparing', done: index, total: documents.length });
+    const bytes = await downloadDocument(document);
+    prepared.push({ document, bytes, ...(await toPdf(document, bytes)) });
+  }
+
+  // Numbering is validated before any page is stamped
+  const ranges = assignBatesRanges(
+    prepared.map(({ document, pdf, native }) => ({
+      documentId: document.id,
+      fileName: document.filename,
+      pageCount: pdf.getPageCount(),
+      native,
+      hasText: Boolean(document.extracted_text?.trim()),
+    })),
+    { prefix: options.prefix, startNumber: options.startNumber, digits: options.digits ?? DEFAULT_BATES_DIGITS }
+  );
+
+  const summary: ProductionSummary = { volume, producedAt: new Date().toISOString(), confidentiality: options.confidentiality };
+  const legend = CONFIDENTIALITY_LEGENDS[options.confidentiality];
+  const zip = new JSZip();
+  const folder = zip.folder(volume);
+  const folderPath = (path: string) => path.replace(/\\/g, '/');
+
+  for (const [index, { document, bytes, pdf }] of prepared.entries()) {
+    options.onProgress?.({ stage: 'stamping', done: index, total: prepared.length });
+    const range = ranges[index];
+    await stampPages(pdf, range.pages, legend);
+
+    for (const [pageIndex, imagePath] of range.imagePaths.entries()) {
+      const single = await PDFDocument.create();
+      const [page] = await single.copyPages(pdf, [pageIndex]);
+      single.addPage(page);
+      folder.file(folderPath(imagePath), await single.save());
+    }
+    if (range.nativePath) folder.file(folderPath(range.nativePath), bytes);
+    if (range.textPath) folder.file(folderPath(range.textPath), document.extracted_text);
+  }
+
+  options.onProgress?.({ stage: 'packaging', done: prepared.length, total: prepared.length });
+  folder.file(`DATA/${volume}.dat`, buildDatLoadFile(ranges, summary));
+  folder.file(`DATA/${volume}.opt`, buildOptLoadFile(ranges, summary));
+  folder.file(`${volume}_production_log.csv`, buildProductionLog(ranges, summary));
+
+  return {
+    summary,
+    ranges,
+    pageCount: ranges.reduce((sum, range) => sum + range.pageCount, 0),
+    archive: await zip.generateAsync({ type: 'blob' }),
+  };
+}
+
+/**
+ * Record a built production and the Bates range each document received. Both are written in
+ * one transaction, which fails if the range overlaps an earlier production under the prefix.
+ */
+export async function saveProduction(
+  production: ProductionVolume,
+  options: Pick<ProductionOptions, 'prefix' | 'caseId'>
+): Promise<string> {
+  const { data, error } = await supabase.rpc('save_production', {
+    p_production: {
+      case_id: options.caseId ?? null,
+      volume: production.summary.volume,
+      bates_prefix: options.prefix.trim(),
+      begin_number: production.ranges[0].beginNumber,
+      end_number: production.ranges[production.ranges.length - 1].endNumber,
+      confidentiality: production.summary.confidentiality,
+      page_count: production.pageCount,
+      produced_at: production.summary.producedAt,
+    },
+    p_documents: production.ranges.map(range => ({
+      document_id: range.documentId,
+      begin_bates: range.begin,
+      end_bates: range.end,
+      page_count: range.pageCount,
+      produced_native: Boolean(range.nativePath),
+    })),
+  });
+  if (error) throw new ProductionError(error.message || 'Failed to record production');
+  return data as string;
+}
+
+/**
+ * The number after the last one produced under a prefix, or 1 for a new prefix
+ */
+export async function nextBatesNumber(userId: string, prefix: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('productions')
+    .select('end_number')
+    .eq('user_id', userId)
+    .eq('bates_prefix', prefix.trim())
+    .order('end_number', { ascending: false })
+    .limit(1);
+  if (error) throw new ProductionError(error.message || 'Failed to load earlier productions');
+  return (data?.[0]?.end_number ?? 0) + 1;
+}
@@ -0,0 +1,231 @@
+/**
+ * Offline evaluation of prompt templates
+ * Golden cases render a prompt, send it to a provider and score the reply against assertions.
+ * In tests the provider is a mock or a set of recorded replies, so a change to a template
+ * shows up as a failing case instead of a surprise in production. Recordings remember the
+ * wording they were made with; a template whose text changed without a version bump, or
+ * whose version moved past the recording, is reported rather than scored against stale output.
+ */
+import { authorityKey, extractCitations, parseCitation, resolveCitation, type ParsedCitation } from './citationParser';
+import { promptKey, type RenderedPrompt } from './prompts';
+import { parseStructured, type OutputSchema } from './structuredOutput';
+
+export interface EvalAssertion {
+  name: string;
+  // Problems with the reply; empty when it passes
+  check: (output: string) => string[];
+}
+
+export interface EvalCase {
+  name: string;
+  system?: RenderedPrompt;
+  // A rendered template, or what a user typed for prompts that only set the system message
+  user: RenderedPrompt | string;
+  assertions: EvalAssertion[];
+}
+
+export type EvalProvider = (evalCase: EvalCase) => Promise<string>;
+
+export interface EvalRecording {
+  // promptKey of each prompt sent, system first
+  prompts: string[];
+  // promptHash of the rendered text at recording time
+  hash: string;
+  output: string;
+}
+
+export type EvalRecordings = Record<string, EvalRecording>;
+
+export interface EvalCaseResult {
+  name: string;
+  prompts: string[];
+  passed: boolean;
+  // Share of assertions passed, 0 when the reply could not be produced
+  score: number;
+  failures: string[];
+}
+
+export interface EvalReport {
+  passed: boolean;
+  // Mean case score
+  score: number;
+  results: EvalCaseResult[];
+}
+
+export class EvalRecordingError extends Error {
+  public caseName: string;
+
+  constructor(caseName: string, message: string) {
+    super(message);
+    this.name = 'EvalRecordingError';
+    this.caseName = caseName;
+  }
+}
+
+const promptsOf = (evalCase: EvalCase): RenderedPrompt[] =>
+  [evalCase.system, evalCase.user].filter((prompt): prompt is RenderedPrompt => Boolean(prompt) && typeof prompt !== 'string');
+
+/**
+ * FNV-1a hash of the rendered prompts a case sends, as hex
+ */
+export function promptHash(evalCase: EvalCase): string {
+  const text = [evalCase.system?.text, typeof evalCase.user === 'string' ? evalCase.user : evalCase.user.text]
+    .filter(part => part !== undefined)
+    .join('\u0000');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Markdown headings the reply must contain, matched case-insensitively at any level
+ */
+export function requiredHeadings(headings: string[]): EvalAssertion {
+  return {
+    name: 'required headings',
+    check: output => {
+      const present = new Set(
+        [...output.matchAll(/^#{1,6}\s+(.+?)\s*#*\s*$/gm)].map(match => match[1].replace(/[*_]/g, '').trim().toLowerCase())
+      );
+      return headings.filter(heading => !present.has(heading.toLowerCase())).map(heading => `Missing heading "${heading}"`);
+    },
+  };
+}
+
+/**
+ * Every citation in the reply must be one of the supplied authorities. "Id." and short forms
+ * count as the authority they refer back to; one that refers to nothing is unverified.
+ */
+export function noUnverifiedCitations(authorities: string[]): EvalAssertion {
+  const allowed = new Set(
+    authorities.map(parseCitation).filter(Boolean).map(citation => authorityKey(citation))
+  );
+
+  return {
+    name: 'no unverified citations',
+    check: output => {
+      const failures: string[] = [];
+      const cited: ParsedCitation[] = [];
+      let previous: ParsedCitation | null = null;
+
+      for (const { citation } of extractCitations(output)) {
+        const resolved = resolveCitation(citation, previous, cited);
+        if (!resolved) {
+          failures.push(`"${citation.raw}" does not refer to an earlier citation`);
+          continue;
+        }
+        if (!allowed.has(authorityKey(resolved))) {
+          failures.push(`"${citation.raw}" is not among the supplied authorities`);
+        }
+        cited.push(resolved);
+        previous = resolved;
+      }
+      return failures;
+    },
+  };
+}
+
+/**
+ * The reply must hold a JSON object matching the schema
+ */
+export function validJson<T>(schema: OutputSchema<T>): EvalAssertion {
+  return {
+    name: 'valid JSON',
+    check: output => {
+      const { error } = parseStructured(schema, output);
+      return error ? [error.message, ...error.issues] : [];
+    },
+  };
+}
+
+export function contains(text: string): EvalAssertion {
+  return {
+    name: `contains "${text}"`,
+    check: output => (output.toLowerCase().includes(text.toLowerCase()) ? [] : [`Missing "${text}"`]),
+  };
+}
+
+export function notContains(text: string): EvalAssertion {
+  return {
+    name: `does not contain "${text}"`,
+    check: output => (output.toLowerCase().includes(text.toLowerCase()) ? [`Unexpected "${text}"`] : []),
+  };
+}
+
+/**
+ * Replay recorded replies by case name
+ */
+export function recordedProvider(recordings: EvalRecordings): EvalProvider {
+  return async evalCase => {
+    const recording = recordings[evalCase.name];
+    if (!recording) {
+      throw new EvalRecordingError(evalCase.name, `No recording for ${evalCase.name}`);
+    }
+
+    const prompts = promptsOf(evalCase).map(promptKey);
+    if (prompts.join() !== recording.prompts.join()) {
+      throw new EvalRecordingError(
+        evalCase.name,
+        `${evalCase.name} was recorded with ${recording.prompts.join(', ')} but now sends ${prompts.join(', ')}; re-record it`
+      );
+    }
+    if (promptHash(evalCase) !== recording.hash) {
+      throw new EvalRecordingError(
+        evalCase.name,
+        `The wording of ${prompts.join(', ')} changed since ${evalCase.name} was recorded; bump the template version and re-record`
+      );
+    }
+    return recording.output;
+  };
+}
+
+/**
+ * Run cases against a live provider and keep the replies, for recordedProvider
+ */
+export async function recordEvals(cases: EvalCase[], provider: EvalProvider): Promise<EvalRecordings> {
+  const recordings: EvalRecordings = {};
+  for (const evalCase of cases) {
+    recordings[evalCase.name] = {
+      prompts: promptsOf(evalCase).map(promptKey),
+      hash: promptHash(evalCase),
+      output: await provider(evalCase),
+    };
+  }
+  return recordings;
+}
+
+/**
+ * Score each case's reply against its assertions
+ */
+export async function runEvals(cases: EvalCase[], provider: EvalProvider): Promise<EvalReport> {
+  const results: EvalCaseResult[] = [];
+
+  for (const evalCase of cases) {
+    const prompts = promptsOf(evalCase).map(promptKey);
+    let output: string;
+    try {
+      output = await provider(evalCase);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      results.push({ name: evalCase.name, prompts, passed: false, score: 0, failures: [message] });
+      continue;
+    }
+
+    const failures: string[] = [];
+    let passedAssertions = 0;
+    for (const assertion of evalCase.assertions) {
+      const problems = assertion.check(output);
+      if (problems.length === 0) passedAssertions++;
+      failures.push(...problems.map(problem => `${assertion.name}: ${problem}`));
+    }
+
+    const score = evalCase.assertions.length > 0 ? passedAssertions / evalCase.assertions.length : 1;
+    results.push({ name: evalCase.name, prompts, passed: failures.length === 0, score, failures });
+  }
+
+  const score = results.length > 0 ? results.reduce((sum, result) => sum + result.score, 0) / results.length : 1;
+  return { passed: results.every(result => result.passed), score, results };
+}
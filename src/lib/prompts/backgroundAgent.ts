@@ -0,0 +1,35 @@
+/**
+ * AI background agent reviewing monitoring alerts
+ */
+import { definePrompt } from './registry.ts';
+
+export const alertReviewSystemPrompt = definePrompt({
+  id: 'background_agent.system',
+  version: 1,
+  description: 'Engineer-facing persona for diagnosing frontend error alerts',
+  required: [],
+  render: () =>
+    'You are an AI background agent helping engineers diagnose frontend errors. Provide a concise summary, probable root cause, and a suggested fix.',
+});
+
+export const alertReviewRequestPrompt = definePrompt<{
+  title: string;
+  severity: string;
+  message: string;
+  url?: string;
+  userAgent?: string;
+  stackTrace?: string;
+}>({
+  id: 'background_agent.request',
+  version: 1,
+  description: 'One alert to analyze',
+  required: ['title', 'severity', 'message'],
+  render: v => `Analyze this alert and suggest next steps:
+
+Title: ${v.title}
+Severity: ${v.severity}
+Message: ${v.message}
+URL: ${v.url || 'unknown'}
+User Agent: ${v.userAgent || 'unknown'}
+Stack Trace: ${v.stackTrace || 'none'}`,
+});
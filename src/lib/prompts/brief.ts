@@ -0,0 +1,44 @@
+/**
+ * Brief Generator
+ */
+import { definePrompt } from './registry.ts';
+
+export const briefSystemPrompt = definePrompt({
+  id: 'brief.system',
+  version: 1,
+  description: 'Litigator persona and the required structure of a generated brief',
+  required: [],
+  render: () =>
+    'You are an expert litigator. Draft briefs that strictly follow applicable procedural rules and rely on the provided authorities. Use Markdown headings for the Statement of the Issues, Argument, and Conclusion. Do not write a Table of Authorities; one is generated from the citations in the brief. Do not invent citations.',
+});
+
+export const briefRequestPrompt = definePrompt<{
+  briefLabel: string;
+  caseTitle: string;
+  jurisdiction?: string;
+  facts: string;
+  legalIssues: string;
+  clientPosition?: string;
+  ruleCitations: string[];
+  relevantCases?: string;
+  // One line per authority retrieved from CourtListener
+  authoritySummary?: string;
+}>({
+  id: 'brief.request',
+  version: 1,
+  description: 'The case details, rules and authorities a brief is drafted from',
+  required: ['briefLabel', 'caseTitle', 'facts', 'legalIssues', 'ruleCitations'],
+  render: v => `Draft a ${v.briefLabel} with the following context.
+
+Case Title: ${v.caseTitle}
+Jurisdiction: ${v.jurisdiction || 'Federal'}
+Facts: ${v.facts}
+Legal Issues: ${v.legalIssues}
+Client Position: ${v.clientPosition || 'Not specified'}
+Rules to Apply: ${v.ruleCitations.join(', ')}
+User Provided Authorities: ${v.relevantCases || 'None'}
+CourtListener Authorities:
+${v.authoritySummary || 'No authorities retrieved.'}
+
+Return the full brief in Markdown, making sure each citation references the supplied authorities or rules.`,
+});
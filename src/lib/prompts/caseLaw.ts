@@ -0,0 +1,4 @@
+/**
+ * case-law-analysis edge function prompts, shared with the app
+ */
+export * from '../../../supabase/functions/_shared/prompts/caseLaw.ts';
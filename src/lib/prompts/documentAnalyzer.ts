@@ -0,0 +1,60 @@
+/**
+ * AI Document Analyzer
+ */
+import { definePrompt } from './registry.ts';
+
+export const documentAnalysisSystemPrompt = definePrompt({
+  id: 'document_analyzer.analysis_system',
+  version: 1,
+  description: 'Extracts structured insights; the output schema is appended by generateStructured',
+  required: [],
+  render: () =>
+    'You are an AI legal assistant that extracts structured insights from legal documents. Arrays must always be arrays even if empty.',
+});
+
+export const documentAnalysisRequestPrompt = definePrompt<{ documentText: string }>({
+  id: 'document_analyzer.analysis_request',
+  version: 2,
+  description: 'The document to analyze, cited by page when it carries [Page N] markers',
+  required: ['documentText'],
+  render: ({ documentText }) =>
+    `Analyze the following legal document. If it is divided by [Page N] markers, end each clause, obligation and risk with the page it appears on, e.g. "(p. 14)".\n\nDocument:\n"""${documentText}"""`,
+});
+
+export const documentRefineSystemPrompt = definePrompt({
+  id: 'document_analyzer.refine_system',
+  version: 1,
+  description: 'Senior editor rewriting a document, with a Key Changes list before the draft',
+  required: [],
+  render: () =>
+    'You are a senior legal editor. Rewrite the provided document for clarity, ensure obligations comply with relevant rules of civil procedure, and highlight suggested improvements in Markdown. Include a short “Key Changes” bullet list followed by the revised draft.',
+});
+
+export const documentRefineRequestPrompt = definePrompt<{ documentText: string }>({
+  id: 'document_analyzer.refine_request',
+  version: 1,
+  description: 'The document to refine',
+  required: ['documentText'],
+  render: ({ documentText }) =>
+    `Please refine the following legal document. Focus on clarity, risk mitigation, and compliance with procedural rules.\n\nDocument:\n"""${documentText}"""`,
+});
+
+export const redlineReviewSystemPrompt = definePrompt({
+  id: 'document_analyzer.redline_system',
+  version: 1,
+  description: 'Reviews the changes between two versions; the output schema is appended by generateStructured',
+  required: [],
+  render: () =>
+    'You are a senior transactional and litigation attorney reviewing a redline. Classify every numbered change as substantive if it alters a right, obligation, amount, deadline, condition or remedy, and as cosmetic if it only changes wording, formatting or numbering without changing meaning. Then summarize how the revision shifts risk for the client.',
+});
+
+export const redlineReviewRequestPrompt = definePrompt<{ changes: string; clientRole?: string }>({
+  id: 'document_analyzer.redline_request',
+  version: 1,
+  description: 'The numbered changes from the original to the revised version',
+  required: ['changes'],
+  render: ({ changes, clientRole }) => `Review the following changes made to a legal document${clientRole ? `. Our client is the ${clientRole}` : ''}.
+
+Changes:
+${changes}`,
+});
@@ -0,0 +1,55 @@
+/**
+ * Every prompt the app sends, by id
+ */
+import { createPromptRegistry } from './registry';
+import { agentSystemPrompt } from './agent';
+import { assistantSystemPrompt } from './assistant';
+import { alertReviewRequestPrompt, alertReviewSystemPrompt } from './backgroundAgent';
+import { briefRequestPrompt, briefSystemPrompt } from './brief';
+import { caseComparisonPrompt, caseExtractionPrompt, caseExtractionSystemPrompt, caseLawSystemPrompt } from './caseLaw';
+import {
+  documentAnalysisRequestPrompt,
+  documentAnalysisSystemPrompt,
+  documentRefineRequestPrompt,
+  documentRefineSystemPrompt,
+  redlineReviewRequestPrompt,
+  redlineReviewSystemPrompt,
+} from './documentAnalyzer';
+import { legalChatSystemPrompt } from './legalChat';
+import { privilegeDescriptionRequestPrompt, privilegeDescriptionSystemPrompt } from './privilegeLog';
+import { rebuttalRequestPrompt, rebuttalSystemPrompt } from './rebuttal';
+
+export * from './registry';
+export * from './agent';
+export * from './assistant';
+export * from './backgroundAgent';
+export * from './brief';
+export * from './caseLaw';
+export * from './documentAnalyzer';
+export * from './legalChat';
+export * from './privilegeLog';
+export * from './rebuttal';
+
+export const PROMPTS = createPromptRegistry([
+  agentSystemPrompt,
+  assistantSystemPrompt,
+  alertReviewSystemPrompt,
+  alertReviewRequestPrompt,
+  briefSystemPrompt,
+  briefRequestPrompt,
+  caseLawSystemPrompt,
+  caseComparisonPrompt,
+  caseExtractionSystemPrompt,
+  caseExtractionPrompt,
+  documentAnalysisSystemPrompt,
+  documentAnalysisRequestPrompt,
+  documentRefineSystemPrompt,
+  documentRefineRequestPrompt,
+  redlineReviewSystemPrompt,
+  redlineReviewRequestPrompt,
+  legalChatSystemPrompt,
+  privilegeDescriptionSystemPrompt,
+  privilegeDescriptionRequestPrompt,
+  rebuttalSystemPrompt,
+  rebuttalRequestPrompt,
+]);
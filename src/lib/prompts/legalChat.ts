@@ -0,0 +1,4 @@
+/**
+ * legal-ai-chat edge function prompts, shared with the app
+ */
+export * from '../../../supabase/functions/_shared/prompts/legalChat.ts';
@@ -0,0 +1,37 @@
+/**
+ * Privilege log
+ */
+import { definePrompt } from './registry.ts';
+
+export const privilegeDescriptionSystemPrompt = definePrompt({
+  id: 'privilege_log.description_system',
+  version: 1,
+  description: 'Drafts a privilege log description; the output schema is appended by generateStructured',
+  required: [],
+  render: () =>
+    'You are a litigation attorney preparing a privilege log under Fed. R. Civ. P. 26(b)(5)(A). Describe each withheld or redacted document so the opposing party can assess the privilege claim without revealing information that is itself privileged. Name the general subject matter and the purpose that makes it privileged, such as "seeking legal advice regarding lease termination" or "prepared in anticipation of litigation regarding the warranty claim". Never state the advice given, the conclusions reached, the facts conveyed to counsel, litigation strategy, or any figures, quotations or names that appear only in the summary. Write one sentence in neutral language.',
+});
+
+export const privilegeDescriptionRequestPrompt = definePrompt<{
+  summary: string;
+  basis: string;
+  treatment: string;
+  documentType?: string;
+  date?: string;
+  author?: string;
+  recipients?: string;
+}>({
+  id: 'privilege_log.description_request',
+  version: 1,
+  description: 'The privilege claimed and the internal summary of the document, which must not be disclosed',
+  required: ['summary', 'basis', 'treatment'],
+  render: ({ summary, basis, treatment, documentType, date, author, recipients }) => `Privilege asserted: ${basis}
+Treatment: ${treatment}
+Document type: ${documentType || 'Unknown'}
+Date: ${date || 'Unknown'}
+Author: ${author || 'Unknown'}
+Recipients: ${recipients || 'Unknown'}
+
+Internal summary (privileged; do not disclose its substance):
+"""${summary}"""`,
+});
@@ -0,0 +1,22 @@
+/**
+ * Rebuttal Assistant
+ */
+import { definePrompt } from './registry.ts';
+
+export const rebuttalSystemPrompt = definePrompt({
+  id: 'rebuttal.system',
+  version: 1,
+  description: 'Litigator persona; the output schema is appended by generateStructured',
+  required: [],
+  render: () =>
+    'You are an experienced litigator preparing a rebuttal. Identify the weaknesses and flaws in the opposing argument, give counter-arguments, cite supporting law (rules, statutes and precedent), recommend a strategic approach, and suggest evidence, documents or witnesses that would prove the rebuttal. Do not invent citations. Give at most four items per list.',
+});
+
+export const rebuttalRequestPrompt = definePrompt<{ argument: string; jurisdiction?: string; caseType?: string }>({
+  id: 'rebuttal.request',
+  version: 1,
+  description: 'The opposing argument with the jurisdiction and case type',
+  required: ['argument'],
+  render: ({ argument, jurisdiction, caseType }) =>
+    `Jurisdiction: ${jurisdiction || 'Not specified'}\nCase type: ${caseType || 'Not specified'}\n\nOpponent's argument:\n${argument}`,
+});
@@ -0,0 +1,4 @@
+/**
+ * Prompt template registry, shared with the edge functions
+ */
+export * from '../../../supabase/functions/_shared/prompts/registry.ts';
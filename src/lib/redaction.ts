@@ -0,0 +1,38 @@
+/**
+ * Redaction of client information before text leaves for an AI provider
+ * The detectors and placeholders live in supabase/functions/_shared/redaction.ts, shared with
+ * the edge functions. Each request is logged to ai_redaction_log with the kinds and
+ * placeholders it redacted, never the values themselves.
+ */
+import { supabase } from './supabase';
+import type { RedactionKind, RedactionSession } from '../../supabase/functions/_shared/redaction.ts';
+
+export * from '../../supabase/functions/_shared/redaction.ts';
+
+export interface RedactionLogEntry {
+  feature: string | null;
+  case_id: string | null;
+  provider: string;
+  counts: Partial<Record<RedactionKind, number>>;
+  placeholders: string[];
+}
+
+/**
+ * Record what a request redacted. Logging never holds up or fails the request.
+ */
+export async function logRedaction(session: RedactionSession, context: { feature?: string; caseId?: string | null; provider: string }) {
+  const entry: RedactionLogEntry = {
+    feature: context.feature ?? null,
+    case_id: context.caseId ?? null,
+    provider: context.provider,
+    counts: session.counts(),
+    placeholders: session.findings().map(finding => finding.placeholder),
+  };
+
+  try {
+    const { error } = await supabase.from('ai_redaction_log').insert(entry);
+    if (error) console.warn('[Redaction] Failed to log request:', error.message);
+  } catch (error) {
+    console.warn('[Redaction] Failed to log request:', error);
+  }
+}
@@ -53,11 +53,13 @@ async function handleSubscriptionUpdate(subscription: {
   current_period_end: number;
   cancel_at_period_end?: boolean;
   canceled_at?: number | null;
+  metadata?: { user_id?: string; plan_name?: string };
 }) {
-  const { id, customer, status, items, current_period_end, cancel_at_period_end, canceled_at } = subscription;
+  const { id, customer, status, items, current_period_end, cancel_at_period_end, canceled_at, metadata } = subscription;
   
   const planId = items.data[0]?.price?.id;
-  const planName = items.data[0]?.price?.nickname || items.data[0]?.price?.product;
+  // Checkout builds its price inline, so the plan's name travels in the metadata instead
+  const planName = metadata?.plan_name || items.data[0]?.price?.nickname || items.data[0]?.price?.product;
 
   // Update or insert subscription
   const { error } = await supabase
@@ -71,6 +73,7 @@ async function handleSubscriptionUpdate(subscription: {
       current_period_end: new Date(current_period_end * 1000).toISOString(),
       cancel_at_period_end,
       canceled_at: canceled_at ? new Date(canceled_at * 1000).toISOString() : null,
+      ...(metadata?.user_id && { user_id: metadata.user_id }),
       updated_at: new Date().toISOString()
     }, {
       onConflict: 'stripe_subscription_id'
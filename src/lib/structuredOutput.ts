@@ -0,0 +1,212 @@
+/**
+ * Structured output from the AI providers
+ * A feature that needs data rather than prose describes it with a zod schema. The schema goes
+ * to the provider as JSON mode or a forced tool call where the provider has one, the reply is
+ * validated against it, and an invalid reply is sent back with the problems for repair.
+ * Callers get a typed result or a StructuredOutputError, never a half-parsed object.
+ */
+import { z } from 'zod';
+import { AI_PROVIDERS } from './aiProviders';
+import { legalAiChat, type ChatMessage, type ChatRequest } from './aiService';
+
+export type StructuredOutputFailure = 'no_json' | 'invalid_json' | 'schema_mismatch';
+
+export class StructuredOutputError extends Error {
+  public failure: StructuredOutputFailure;
+  public issues: string[];
+  // The reply that failed, for logging
+  public raw: string;
+  public attempts: number;
+
+  constructor(message: string, failure: StructuredOutputFailure, issues: string[] = [], raw = '', attempts = 1) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.failure = failure;
+    this.issues = issues;
+    this.raw = raw;
+    this.attempts = attempts;
+  }
+}
+
+// Exactly one of the two is set
+export type StructuredResult<T> = { data: T; error: null } | { data: null; error: StructuredOutputError };
+
+// A schema validating to T from whatever the model sent
+export type OutputSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+/**
+ * Every balanced top-level `{...}` in a text, in order.
+ * Braces inside JSON strings are ignored, so nested objects and prose around the JSON are fine.
+ */
+export function findJsonObjects(text: string): string[] {
+  const objects: string[] = [];
+  let start = text.indexOf('{');
+
+  while (start >= 0) {
+    let depth = 0;
+    let inString = false;
+    let end = -1;
+    for (let i = start; i < text.length && end < 0; i++) {
+      const char = text[i];
+      if (inString) {
+        if (char === '\\') i++;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}' && --depth === 0) {
+        end = i;
+      }
+    }
+
+    if (end < 0) {
+      // A stray brace in prose never closes; look for the object after it
+      start = text.indexOf('{', start + 1);
+      continue;
+    }
+    objects.push(text.slice(start, end + 1));
+    start = text.indexOf('{', end + 1);
+  }
+
+  return objects;
+}
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+/**
+ * The first JSON object in a reply that matches the schema
+ */
+export function parseStructured<T>(schema: OutputSchema<T>, text: string): StructuredResult<T> {
+  const candidates = findJsonObjects(text);
+  if (candidates.length === 0) {
+    return { data: null, error: new StructuredOutputError('Reply contained no JSON object', 'no_json', [], text) };
+  }
+
+  let error: StructuredOutputError | null = null;
+  for (const candidate of candidates) {
+    let value: unknown;
+    try {
+      value = JSON.parse(candidate);
+    } catch (parseError) {
+      const message = parseError instanceof Error ? parseError.message : 'Invalid JSON';
+      error ??= new StructuredOutputError('Reply JSON could not be parsed', 'invalid_json', [message], text);
+      continue;
+    }
+
+    const result = schema.safeParse(value);
+    if (result.success) return { data: result.data, error: null };
+    // Valid JSON in the wrong shape says more about what to repair than a syntax error
+    if (!error || error.failure !== 'schema_mismatch') {
+      error = new StructuredOutputError('Reply JSON did not match the schema', 'schema_mismatch', describeIssues(result.error), text);
+    }
+  }
+
+  return { data: null, error };
+}
+
+/**
+ * JSON Schema for the zod types the AI schemas use, for provider JSON and tool-calling modes
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const description = schema.description ? { description: schema.description } : {};
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>;
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+        required: Object.keys(shape).filter(key => !shape[key].isOptional()),
+        additionalProperties: false,
+        ...description,
+      };
+    }
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return { type: 'array', items: toJsonSchema(def.type), ...description };
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return { type: 'string', ...description };
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return { type: 'number', ...description };
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean', ...description };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: def.values, ...description };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value, ...description };
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: def.options.map(toJsonSchema), ...description };
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [toJsonSchema(def.innerType), { type: 'null' }], ...description };
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...toJsonSchema(def.innerType), ...description };
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return { ...toJsonSchema(def.schema), ...description };
+    default:
+      return { ...description };
+  }
+}
+
+const repairPrompt = (error: StructuredOutputError) =>
+  [
+    `Your previous reply could not be used: ${error.message.toLowerCase()}.`,
+    ...error.issues.map(issue => `- ${issue}`),
+    'Reply again with only the corrected JSON object.',
+  ].join('\n');
+
+export interface StructuredRequest extends ChatRequest {
+  // Name of the output for providers with JSON-schema or tool-calling support
+  schemaName: string;
+  schemaDescription?: string;
+  // Round trips to repair an invalid reply before giving up
+  maxRepairs?: number;
+}
+
+/**
+ * Ask legal-ai-chat for output matching a schema.
+ * Throws StructuredOutputError once the repair attempts are used up; transport failures
+ * surface as the AIRequestError legalAiChat throws.
+ */
+export async function generateStructured<T>(
+  schema: OutputSchema<T>,
+  { schemaName, schemaDescription, maxRepairs = 2, ...request }: StructuredRequest
+): Promise<T> {
+  const parameters = toJsonSchema(schema);
+  const { capabilities } = AI_PROVIDERS[request.provider ?? 'openai'];
+  const system = [
+    request.system,
+    `Respond with a single JSON object, and nothing else, matching this JSON Schema:\n${JSON.stringify(parameters)}`,
+  ].filter(Boolean).join('\n\n');
+
+  const native = capabilities.jsonMode || capabilities.toolCalling;
+  let messages: ChatMessage[] = request.messages;
+  let lastError: StructuredOutputError | null = null;
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const { content } = await legalAiChat({
+      ...request,
+      system,
+      messages,
+      ...(native ? { schema: { name: schemaName, description: schemaDescription, parameters } } : {}),
+      ...(capabilities.jsonMode ? { responseFormat: 'json' as const } : {}),
+    });
+
+    const { data, error } = parseStructured(schema, content);
+    if (!error) return data;
+
+    lastError = error;
+    console.warn(`[StructuredOutput] ${schemaName} attempt ${attempt} failed:`, lastError.message, lastError.issues);
+    messages = [...messages, { role: 'assistant', content }, { role: 'user', content: repairPrompt(lastError) }];
+  }
+
+  throw new StructuredOutputError(
+    `${schemaName}: ${lastError!.message} after ${maxRepairs + 1} attempts`,
+    lastError!.failure,
+    lastError!.issues,
+    lastError!.raw,
+    maxRepairs + 1
+  );
+}
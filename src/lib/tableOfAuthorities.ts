@@ -0,0 +1,249 @@
+/**
+ * Table of Authorities builder
+ * Scans a brief for case, statute, rule and constitutional citations and builds a
+ * deterministic Table of Authorities with the pages and sections where each is cited.
+ */
+import {
+  authorityKey,
+  extractCitations,
+  formatFullCitation,
+  resolveCitation,
+  type CitationStyle,
+  type ParsedCitation,
+} from './citationParser';
+import type { CourtListenerResult } from './courtListener';
+
+export type AuthorityCategory = 'cases' | 'statutes' | 'rules' | 'other';
+
+export interface AuthorityEntry {
+  key: string;
+  category: AuthorityCategory;
+  citation: ParsedCitation;
+  formatted: string;
+  pages: number[];
+  sections: string[];
+  occurrences: number;
+  // True for cases that do not match any authority retrieved from CourtListener
+  unverified: boolean;
+}
+
+export interface AuthorityGroup {
+  category: AuthorityCategory;
+  title: string;
+  entries: AuthorityEntry[];
+}
+
+export interface TableOfAuthorities {
+  groups: AuthorityGroup[];
+  unverified: AuthorityEntry[];
+}
+
+export interface TableOfAuthoritiesOptions {
+  // Authorities returned by searchCourtListener; when given, cases not among them are flagged
+  authorities?: CourtListenerResult[];
+  style?: CitationStyle;
+  // Used to estimate page numbers when the text has no form-feed page breaks
+  linesPerPage?: number;
+}
+
+export const AUTHORITY_CATEGORY_TITLES: Record<AuthorityCategory, string> = {
+  cases: 'Cases',
+  statutes: 'Statutes',
+  rules: 'Rules',
+  other: 'Other Authorities',
+};
+
+const CATEGORY_ORDER: AuthorityCategory[] = ['cases', 'statutes', 'rules', 'other'];
+
+// Federal codes come before regulations, and the federal rule sets follow their usual order
+const CODE_ORDER = ['U.S.C.', 'U.S.C.A.', 'C.F.R.'];
+const RULE_SET_ORDER = ['Fed. R. Civ. P.', 'Fed. R. Crim. P.', 'Fed. R. App. P.', 'Fed. R. Bankr. P.', 'Fed. R. Evid.', 'L.R.'];
+const CONSTITUTION_PART_ORDER = ['pmbl.', 'art.', 'amend.'];
+
+// Bluebook convention: an authority cited on this many pages or more is listed as "passim"
+const PASSIM_THRESHOLD = 5;
+
+// A double-spaced brief page holds roughly this many lines
+const DEFAULT_LINES_PER_PAGE = 26;
+
+const ROMAN_VALUES: Record<string, number> = { I: 1, V: 5, X: 10, L: 50, C: 100 };
+
+function romanToNumber(value: string): number {
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  let total = 0;
+  for (let i = 0; i < value.length; i++) {
+    const current = ROMAN_VALUES[value[i]] ?? 0;
+    const next = ROMAN_VALUES[value[i + 1]] ?? 0;
+    total += current < next ? -current : current;
+  }
+  return total;
+}
+
+const naturalCompare = (a: string, b: string) =>
+  a.localeCompare(b, 'en', { numeric: true, sensitivity: 'base' });
+
+// Case names are alphabetized letter by letter, ignoring punctuation and capitalization
+const caseSortKey = (citation: ParsedCitation) =>
+  (citation.caseName ?? `~${citation.volume} ${citation.reporter} ${citation.page}`).replace(/[^A-Za-z0-9~ ]/g, '');
+
+const orderIndex = (order: string[], value: string | undefined) => {
+  const index = order.indexOf(value ?? '');
+  return index === -1 ? order.length : index;
+};
+
+function compareEntries(a: AuthorityEntry, b: AuthorityEntry): number {
+  const x = a.citation;
+  const y = b.citation;
+  switch (a.category) {
+    case 'cases':
+      return naturalCompare(caseSortKey(x), caseSortKey(y));
+    case 'statutes':
+      return orderIndex(CODE_ORDER, x.code) - orderIndex(CODE_ORDER, y.code)
+        || naturalCompare(x.volume ?? '', y.volume ?? '')
+        || naturalCompare(x.section ?? '', y.section ?? '');
+    case 'rules':
+      return orderIndex(RULE_SET_ORDER, x.code) - orderIndex(RULE_SET_ORDER, y.code)
+        || naturalCompare(x.section ?? '', y.section ?? '')
+        || naturalCompare(x.pinCite ?? '', y.pinCite ?? '');
+    case 'other': {
+      const [partX, numberX = ''] = (x.section ?? '').split(' ');
+      const [partY, numberY = ''] = (y.section ?? '').split(' ');
+      return orderIndex(CONSTITUTION_PART_ORDER, partX) - orderIndex(CONSTITUTION_PART_ORDER, partY)
+        || romanToNumber(numberX) - romanToNumber(numberY)
+        || naturalCompare(x.pinCite ?? '', y.pinCite ?? '');
+    }
+  }
+}
+
+function categoryFor(citation: ParsedCitation): AuthorityCategory {
+  switch (citation.type) {
+    case 'case':
+      return 'cases';
+    case 'statute':
+      return 'statutes';
+    case 'rule':
+      return 'rules';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * Page number of a character offset: explicit form-feed page breaks win, otherwise the
+ * page is estimated from the line count
+ */
+function pageAt(text: string, offset: number, linesPerPage: number): number {
+  const before = text.slice(0, offset);
+  if (text.includes('\f')) {
+    return before.split('\f').length;
+  }
+  return Math.floor(before.split('\n').length / linesPerPage) + 1;
+}
+
+function sectionAt(text: string, offset: number): string | undefined {
+  const headings = [...text.slice(0, offset).matchAll(/^#{1,6}\s+(.+?)\s*#*\s*$/gm)];
+  return headings.length > 0 ? headings[headings.length - 1][1].replace(/[*_]/g, '') : undefined;
+}
+
+function matchesAuthority(citation: ParsedCitation, authorities: CourtListenerResult[]): boolean {
+  const reporter = (value: string | undefined) => (value ?? '').toLowerCase().replace(/[\s.'’]/g, '');
+  return authorities.some(authority =>
+    (authority.citation ?? []).some(cite =>
+      // The API returns volumes and pages as numbers
+      String(cite.volume) === citation.volume &&
+      String(cite.page) === citation.page &&
+      reporter(cite.reporter) === reporter(citation.reporter)
+    )
+  );
+}
+
+/**
+ * Build a Table of Authorities from brief text. Every case, statute, rule and
+ * constitutional citation is grouped by category and sorted by Bluebook conventions;
+ * short forms and "Id." count toward the authority they refer to.
+ */
+export function buildTableOfAuthorities(text: string, options: TableOfAuthoritiesOptions = {}): TableOfAuthorities {
+  const linesPerPage = options.linesPerPage ?? DEFAULT_LINES_PER_PAGE;
+  const entries = new Map<string, AuthorityEntry>();
+  const cited: ParsedCitation[] = [];
+  let previous: ParsedCitation | null = null;
+
+  for (const { citation, start } of extractCitations(text)) {
+    const resolved = resolveCitation(citation, previous, cited);
+    if (!resolved) continue;
+
+    const key = authorityKey(resolved);
+    let entry = entries.get(key);
+    if (!entry) {
+      const full = { ...resolved, pinCite: resolved.type === 'case' ? undefined : resolved.pinCite };
+      cited.push(full);
+      entry = {
+        key,
+        category: categoryFor(full),
+        citation: full,
+        formatted: '',
+        pages: [],
+        sections: [],
+        occurrences: 0,
+        unverified: full.type === 'case' && options.authorities !== undefined && !matchesAuthority(full, options.authorities),
+      };
+      entries.set(key, entry);
+    } else {
+      // A later full citation may carry the case name or parenthetical the first one lacked
+      if (!entry.citation.caseName && resolved.caseName) {
+        entry.citation = { ...entry.citation, caseName: resolved.caseName };
+      }
+      if (!entry.citation.year && resolved.year) {
+        entry.citation = { ...entry.citation, court: resolved.court, year: resolved.year };
+      }
+    }
+
+    const page = pageAt(text, start, linesPerPage);
+    if (!entry.pages.includes(page)) entry.pages.push(page);
+    const section = sectionAt(text, start);
+    if (section && !entry.sections.includes(section)) entry.sections.push(section);
+    entry.occurrences += 1;
+    previous = resolved;
+  }
+
+  const all = [...entries.values()].map(entry => ({
+    ...entry,
+    formatted: formatFullCitation(entry.citation, options.style),
+  }));
+
+  const groups = CATEGORY_ORDER
+    .map(category => ({
+      category,
+      title: AUTHORITY_CATEGORY_TITLES[category],
+      entries: all.filter(entry => entry.category === category).sort(compareEntries),
+    }))
+    .filter(group => group.entries.length > 0);
+
+  return {
+    groups,
+    unverified: groups.flatMap(group => group.entries).filter(entry => entry.unverified),
+  };
+}
+
+/**
+ * Page references for a Table of Authorities entry, e.g. "2, 4, 7" or "passim"
+ */
+export function formatAuthorityPages(entry: AuthorityEntry): string {
+  if (entry.pages.length >= PASSIM_THRESHOLD) return 'passim';
+  return [...entry.pages].sort((a, b) => a - b).join(', ');
+}
+
+/**
+ * Render the Table of Authorities as Markdown for inclusion at the front of a brief
+ */
+export function renderTableOfAuthorities(table: TableOfAuthorities): string {
+  const lines = ['## Table of Authorities', ''];
+  for (const group of table.groups) {
+    lines.push(`### ${group.title}`, '');
+    for (const entry of group.entries) {
+      const flag = entry.unverified ? ' [unverified]' : '';
+      lines.push(`${entry.formatted}${flag} .......... ${formatAuthorityPages(entry)}`, '');
+    }
+  }
+  return lines.join('\n').trimEnd();
+}
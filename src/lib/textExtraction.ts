@@ -0,0 +1,361 @@
+/**
+ * Text extraction from uploaded documents, in the browser
+ * PDFs are read from their text layer with pdf.js, DOCX files from their document.xml, and
+ * images or PDF pages without a text layer (scanned exhibits) are read with Tesseract OCR. Text
+ * is kept page by page so analysis and search can cite "p. 14"; the pages are stored in
+ * document_pages and joined with form feeds into the source's extracted_text.
+ */
+import JSZip from 'jszip';
+import { supabase } from './supabase';
+import type { DocumentSourceType } from './documentRetrieval';
+
+export type ExtractionMethod = 'text_layer' | 'docx' | 'ocr' | 'plain_text';
+
+export interface ExtractedPage {
+  // 1-based
+  page: number;
+  text: string;
+  method: ExtractionMethod;
+  // Mean OCR word confidence, 0-100; null for text that was not recognized
+  confidence: number | null;
+}
+
+export interface ExtractionResult {
+  pages: ExtractedPage[];
+  // Pages joined with form feeds, as extracted_text stores them
+  text: string;
+  ocrPages: number;
+}
+
+export interface ExtractionOptions {
+  // Tesseract language codes, e.g. 'eng' or 'eng+spa'
+  language?: string;
+  onProgress?: (progress: { stage: 'reading' | 'ocr'; page: number; pageCount: number }) => void;
+}
+
+export class TextExtractionError extends Error {
+  public fileName: string;
+
+  constructor(fileName: string, message: string) {
+    super(message);
+    this.name = 'TextExtractionError';
+    this.fileName = fileName;
+  }
+}
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// A PDF page with less text than this is treated as a scan and sent to OCR
+const MIN_TEXT_LAYER_CHARS = 20;
+
+// Scale pages are rendered at for OCR; Tesseract reads best around 300 DPI
+const OCR_RENDER_SCALE = 3;
+
+const extensionOf = (fileName: string) => fileName.split('.').pop()?.toLowerCase() ?? '';
+
+/**
+ * Whether extractText can read a file of this type
+ */
+export function isExtractable(file: { name: string; type: string }): boolean {
+  const extension = extensionOf(file.name);
+  return (
+    file.type === 'application/pdf' ||
+    file.type === DOCX_TYPE ||
+    file.type.startsWith('image/') ||
+    file.type === 'text/plain' ||
+    ['pdf', 'docx', 'jpg', 'jpeg', 'png', 'txt'].includes(extension)
+  );
+}
+
+/**
+ * Join pages into one text with form feeds between them, the form splitPages reads back
+ */
+export const joinPages = (pages: Array<Pick<ExtractedPage, 'text'>>) => pages.map(page => page.text).join('\f');
+
+/**
+ * Document text with a [Page N] header on each page, for the AI to cite pages by
+ */
+export function formatPagesForCitation(pages: Array<Pick<ExtractedPage, 'page' | 'text'>>): string {
+  if (pages.length === 1) return pages[0].text.trim();
+  return pages
+    .filter(page => page.text.trim())
+    .map(page => `[Page ${page.page}]\n${page.text.trim()}`)
+    .join('\n\n');
+}
+
+const cleanPageText = (text: string) =>
+  text
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Text of a PDF page from pdf.js text content items, keeping its line breaks
+ */
+export function joinTextItems(items: object[]): string {
+  let text = '';
+  for (const item of items) {
+    // Marked-content items carry no text
+    if (!('str' in item)) continue;
+    const { str, hasEOL } = item as { str: string; hasEOL?: boolean };
+    text += str;
+    if (hasEOL) text += '\n';
+  }
+  return cleanPageText(text);
+}
+
+/**
+ * Paragraph text of a DOCX document.xml, split into pages at explicit page breaks and where
+ * Word last laid out a new page. Word only records the latter when it saved the file, so
+ * documents from other editors may come back as one page.
+ */
+export function parseDocxXml(xml: string): string[] {
+  const xmlDocument = new DOMParser().parseFromString(xml, 'application/xml');
+  if (xmlDocument.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('document.xml is not well-formed');
+  }
+
+  const pages: string[] = [];
+  let current = '';
+  const breakPage = () => {
+    pages.push(cleanPageText(current));
+    current = '';
+  };
+
+  const walk = (node: Element) => {
+    if (node.namespaceURI !== WORD_NAMESPACE) {
+      Array.from(node.children).forEach(walk);
+      return;
+    }
+    switch (node.localName) {
+      case 't':
+        current += node.textContent ?? '';
+        return;
+      case 'tab':
+        current += '\t';
+        return;
+      case 'cr':
+        current += '\n';
+        return;
+      case 'br':
+        if (node.getAttributeNS(WORD_NAMESPACE, 'type') === 'page') breakPage();
+        else current += '\n';
+        return;
+      case 'lastRenderedPageBreak':
+        // Word also marks the page after an explicit break, which is already counted
+        if (current.trim()) breakPage();
+        return;
+      case 'pPr': {
+        const breakBefore = Array.from(node.children).find(child => child.localName === 'pageBreakBefore');
+        const value = breakBefore?.getAttributeNS(WORD_NAMESPACE, 'val');
+        if (breakBefore && value !== 'false' && value !== '0' && current.trim()) breakPage();
+        return;
+      }
+      // Formatting, field codes and deleted revisions are not part of the text
+      case 'rPr':
+      case 'instrText':
+      case 'delText':
+        return;
+      case 'p':
+        Array.from(node.children).forEach(walk);
+        current += '\n';
+        return;
+      default:
+        Array.from(node.children).forEach(walk);
+    }
+  };
+
+  walk(xmlDocument.documentElement);
+  breakPage();
+  // Trailing breaks leave empty pages behind
+  while (pages.length > 1 && !pages[pages.length - 1]) pages.pop();
+  return pages;
+}
+
+type OcrImage = HTMLCanvasElement | Blob;
+
+/**
+ * One Tesseract worker per extraction, started on the first page that needs it
+ */
+function createOcrReader(language: string) {
+  let worker: Promise<import('tesseract.js').Worker> | null = null;
+
+  return {
+    read: async (image: OcrImage) => {
+      worker ??= import('tesseract.js').then(({ createWorker }) => createWorker(language));
+      const { data } = await (await worker).recognize(image);
+      return { text: cleanPageText(data.text), confidence: Math.round(data.confidence) };
+    },
+    close: async () => {
+      if (worker) await (await worker).terminate();
+    },
+  };
+}
+
+async function loadPdfJs() {
+  const [pdfjs, worker] = await Promise.all([import('pdfjs-dist'), import('pdfjs-dist/build/pdf.worker.min.mjs?url')]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+}
+
+async function extractPdf(data: ArrayBuffer, options: ExtractionOptions): Promise<ExtractedPage[]> {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const ocr = createOcrReader(options.language ?? 'eng');
+  const pages: ExtractedPage[] = [];
+
+  try {
+    for (let number = 1; number <= pdf.numPages; number++) {
+      options.onProgress?.({ stage: 'reading', page: number, pageCount: pdf.numPages });
+      const page = await pdf.getPage(number);
+      const text = joinTextItems((await page.getTextContent()).items);
+
+      if (text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS) {
+        pages.push({ page: number, text, method: 'text_layer', confidence: null });
+        continue;
+      }
+
+      options.onProgress?.({ stage: 'ocr', page: number, pageCount: pdf.numPages });
+      const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+      const recognized = await ocr.read(canvas);
+      pages.push({ page: number, text: recognized.text, method: 'ocr', confidence: recognized.confidence });
+      page.cleanup();
+    }
+  } finally {
+    await ocr.close();
+    await pdf.destroy();
+  }
+  return pages;
+}
+
+async function extractDocx(data: ArrayBuffer): Promise<ExtractedPage[]> {
+  const zip = await JSZip.loadAsync(data);
+  const entry = zip.file('word/document.xml');
+  if (!entry) throw new Error('The file has no word/document.xml');
+  return parseDocxXml(await entry.async('string')).map((text, index) => ({
+    page: index + 1,
+    text,
+    method: 'docx' as const,
+    confidence: null,
+  }));
+}
+
+async function extractImage(image: Blob, options: ExtractionOptions): Promise<ExtractedPage[]> {
+  options.onProgress?.({ stage: 'ocr', page: 1, pageCount: 1 });
+  const ocr = createOcrReader(options.language ?? 'eng');
+  try {
+    const { text, confidence } = await ocr.read(image);
+    return [{ page: 1, text, method: 'ocr', confidence }];
+  } finally {
+    await ocr.close();
+  }
+}
+
+/**
+ * Extract a file's text page by page
+ */
+export async function extractText(file: File, options: ExtractionOptions = {}): Promise<ExtractionResult> {
+  const extension = extensionOf(file.name);
+  let pages: ExtractedPage[];
+
+  try {
+    if (file.type === 'application/pdf' || extension === 'pdf') {
+      pages = await extractPdf(await file.arrayBuffer(), options);
+    } else if (file.type === DOCX_TYPE || extension === 'docx') {
+      pages = await extractDocx(await file.arrayBuffer());
+    } else if (file.type.startsWith('image/') || ['jpg', 'jpeg', 'png'].includes(extension)) {
+      pages = await extractImage(file, options);
+    } else if (file.type === 'text/plain' || extension === 'txt') {
+      pages = [{ page: 1, text: cleanPageText(await file.text()), method: 'plain_text', confidence: null }];
+    } else {
+      throw new TextExtractionError(file.name, `Text cannot be extracted from ${file.name}`);
+    }
+  } catch (error) {
+    if (error instanceof TextExtractionError) throw error;
+    console.error('[TextExtraction] Failed to extract', file.name, error);
+    throw new TextExtractionError(file.name, `Failed to extract text from ${file.name}`);
+  }
+
+  return {
+    pages,
+    text: joinPages(pages),
+    ocrPages: pages.filter(page => page.method === 'ocr').length,
+  };
+}
+
+/**
+ * Store a source's pages in document_pages, replacing any earlier extraction
+ */
+export async function saveDocumentPages(
+  userId: string,
+  source: { sourceType: DocumentSourceType; sourceId: string },
+  pages: ExtractedPage[]
+): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('document_pages')
+    .delete()
+    .eq('source_type', source.sourceType)
+    .eq('source_id', source.sourceId);
+  if (deleteError) throw new Error(deleteError.message || 'Failed to replace document pages');
+  if (pages.length === 0) return;
+
+  const { error } = await supabase.from('document_pages').insert(
+    pages.map(page => ({
+      user_id: userId,
+      source_type: source.sourceType,
+      source_id: source.sourceId,
+      page_number: page.page,
+      content: page.text,
+      extraction_method: page.method,
+      ocr_confidence: page.confidence,
+    }))
+  );
+  if (error) throw new Error(error.message || 'Failed to save document pages');
+}
+
+export interface PageSearchHit {
+  sourceType: DocumentSourceType;
+  sourceId: string;
+  page: number;
+  snippet: string;
+}
+
+const SNIPPET_RADIUS = 80;
+
+/**
+ * The text around the first occurrence of any query word
+ */
+export function pageSnippet(content: string, query: string): string {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const lower = content.toLowerCase();
+  const at = words.map(word => lower.indexOf(word)).filter(index => index >= 0).sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(content.length, at + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${content.slice(start, end).replace(/\s+/g, ' ').trim()}${end < content.length ? '…' : ''}`;
+}
+
+/**
+ * Full-text search of the user's extracted pages
+ */
+export async function searchDocumentPages(userId: string, query: string, limit = 20): Promise<PageSearchHit[]> {
+  if (!query.trim()) return [];
+  const { data, error } = await supabase
+    .from('document_pages')
+    .select('source_type, source_id, page_number, content')
+    .eq('user_id', userId)
+    .textSearch('content', query, { type: 'websearch', config: 'english' })
+    .limit(limit);
+  if (error) throw new Error(error.message || 'Failed to search document pages');
+
+  return (data ?? []).map(row => ({
+    sourceType: row.source_type as DocumentSourceType,
+    sourceId: row.source_id,
+    page: row.page_number,
+    snippet: pageSnippet(row.content, query),
+  }));
+}
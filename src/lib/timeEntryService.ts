@@ -0,0 +1,362 @@
+/**
+ * Time entry service
+ * Records attorney time against cases and clients, by running timer or by hand,
+ * billed in 0.1-hour increments and coded with UTBMS task and activity codes.
+ */
+import { format, parseISO, startOfWeek, subDays } from 'date-fns';
+import { supabase } from './supabase';
+
+export type TimeEntrySource = 'timer' | 'manual';
+
+export interface TimeEntry {
+  id: string;
+  user_id: string;
+  case_id: string | null;
+  client_id: string | null;
+  description: string;
+  entry_date: string;
+  started_at: string | null;
+  ended_at: string | null;
+  duration_minutes: number;
+  hours: number;
+  billable: boolean;
+  rate: number | null;
+  utbms_task_code: string | null;
+  utbms_activity_code: string | null;
+  source: TimeEntrySource;
+  created_at: string;
+  updated_at: string;
+  // Joined when listing entries
+  cases?: { title: string; case_type: string } | null;
+  clients?: { name: string } | null;
+}
+
+export interface TimeEntryDetails {
+  caseId?: string | null;
+  clientId?: string | null;
+  description?: string;
+  billable?: boolean;
+  rate?: number | null;
+  utbmsTaskCode?: string | null;
+  utbmsActivityCode?: string | null;
+}
+
+export interface ManualTimeEntryInput extends TimeEntryDetails {
+  hours: number;
+  entryDate?: string | Date;
+}
+
+export interface TimeEntryFilters {
+  from?: string | Date;
+  to?: string | Date;
+  caseId?: string;
+  clientId?: string;
+}
+
+export interface TimeBreakdown {
+  key: string;
+  label: string;
+  hours: number;
+  billableHours: number;
+}
+
+export interface TimeSummary {
+  entryCount: number;
+  totalHours: number;
+  billableHours: number;
+  nonBillableHours: number;
+  // Percentage of hours that are billable
+  billableRate: number;
+  billableAmount: number;
+  daysWorked: number;
+  averageDailyHours: number;
+  byCase: TimeBreakdown[];
+  byPracticeArea: TimeBreakdown[];
+  byTaskCode: TimeBreakdown[];
+  byActivityCode: TimeBreakdown[];
+  byWeek: TimeBreakdown[];
+}
+
+// UTBMS litigation code set: task codes (phase of the matter)
+export const UTBMS_TASK_CODES: Record<string, string> = {
+  L110: 'Fact Investigation/Development',
+  L120: 'Analysis/Strategy',
+  L130: 'Experts/Consultants',
+  L140: 'Document/File Management',
+  L150: 'Budgeting',
+  L160: 'Settlement/Non-Binding ADR',
+  L190: 'Other Case Assessment, Development and Administration',
+  L210: 'Pleadings',
+  L220: 'Preliminary Injunctions/Provisional Remedies',
+  L230: 'Court Mandated Conferences',
+  L240: 'Dispositive Motions',
+  L250: 'Other Written Motions and Submissions',
+  L260: 'Class Action Certification and Notice',
+  L310: 'Written Discovery',
+  L320: 'Document Production',
+  L330: 'Depositions',
+  L340: 'Expert Discovery',
+  L350: 'Discovery Motions',
+  L390: 'Other Discovery',
+  L410: 'Fact Witnesses',
+  L420: 'Expert Witnesses',
+  L430: 'Written Motions and Submissions',
+  L440: 'Other Trial Preparation and Support',
+  L450: 'Trial and Hearing Attendance',
+  L460: 'Post-Trial Motions and Submissions',
+  L470: 'Enforcement',
+  L510: 'Appellate Motions and Submissions',
+  L520: 'Appellate Briefs',
+  L530: 'Oral Argument',
+};
+
+// UTBMS activity codes (what the timekeeper was doing)
+export const UTBMS_ACTIVITY_CODES: Record<string, string> = {
+  A101: 'Plan and prepare for',
+  A102: 'Research',
+  A103: 'Draft/revise',
+  A104: 'Review/analyze',
+  A105: 'Communicate (in firm)',
+  A106: 'Communicate (with client)',
+  A107: 'Communicate (other outside counsel)',
+  A108: 'Communicate (other external)',
+  A109: 'Appear for/attend',
+  A110: 'Manage data/files',
+  A111: 'Other',
+};
+
+const TIME_ENTRY_SELECT = '*, cases(title, case_type), clients(name)';
+
+const toDateKey = (value: string | Date) =>
+  typeof value === 'string' ? value.slice(0, 10) : format(value, 'yyyy-MM-dd');
+
+/**
+ * Round hours up to the next 0.1-hour billing increment (six minutes)
+ */
+export function roundToBillingIncrement(hours: number): number {
+  if (!Number.isFinite(hours) || hours <= 0) return 0;
+  // Tolerate float noise so 0.3 stays 0.3 rather than becoming 0.4
+  return Math.ceil(Math.round(hours * 1e6) / 1e5) / 10;
+}
+
+/**
+ * Billable hours for a timed period; any time at all bills at least 0.1 hours
+ */
+export function minutesToBillableHours(minutes: number): number {
+  return roundToBillingIncrement(minutes / 60);
+}
+
+function assertValidCodes(details: TimeEntryDetails) {
+  if (details.utbmsTaskCode && !UTBMS_TASK_CODES[details.utbmsTaskCode]) {
+    throw new Error(`Unknown UTBMS task code '${details.utbmsTaskCode}'`);
+  }
+  if (details.utbmsActivityCode && !UTBMS_ACTIVITY_CODES[details.utbmsActivityCode]) {
+    throw new Error(`Unknown UTBMS activity code '${details.utbmsActivityCode}'`);
+  }
+}
+
+const detailColumns = (details: TimeEntryDetails) => ({
+  case_id: details.caseId ?? null,
+  client_id: details.clientId ?? null,
+  description: details.description?.trim() ?? '',
+  billable: details.billable ?? true,
+  rate: details.rate ?? null,
+  utbms_task_code: details.utbmsTaskCode ?? null,
+  utbms_activity_code: details.utbmsActivityCode ?? null,
+});
+
+/**
+ * The user's running timer, if any
+ */
+export async function getRunningTimer(userId: string): Promise<TimeEntry | null> {
+  const { data, error } = await supabase
+    .from('time_entries')
+    .select(TIME_ENTRY_SELECT)
+    .eq('user_id', userId)
+    .eq('source', 'timer')
+    .is('ended_at', null)
+    .maybeSingle();
+  if (error) throw new Error(error.message || 'Failed to load running timer');
+  return data as TimeEntry | null;
+}
+
+/**
+ * Start a timer for the user. Only one timer can run at a time.
+ */
+export async function startTimer(
+  userId: string,
+  details: TimeEntryDetails = {},
+  startedAt: Date = new Date()
+): Promise<TimeEntry> {
+  assertValidCodes(details);
+  if (await getRunningTimer(userId)) {
+    throw new Error('A timer is already running; stop it before starting another');
+  }
+
+  const { data, error } = await supabase
+    .from('time_entries')
+    .insert({
+      user_id: userId,
+      ...detailColumns(details),
+      entry_date: toDateKey(startedAt),
+      started_at: startedAt.toISOString(),
+      source: 'timer',
+    })
+    .select(TIME_ENTRY_SELECT)
+    .single();
+  if (error) throw new Error(error.message || 'Failed to start timer');
+  return data as TimeEntry;
+}
+
+/**
+ * Stop a running timer and record its duration, rounded up to the billing increment
+ */
+export async function stopTimer(entryId: string, endedAt: Date = new Date()): Promise<TimeEntry> {
+  const { data: entry, error: loadError } = await supabase
+    .from('time_entries')
+    .select('started_at, ended_at')
+    .eq('id', entryId)
+    .single();
+  if (loadError) throw new Error(loadError.message || 'Failed to load timer');
+  if (!entry?.started_at || entry.ended_at) {
+    throw new Error('This timer is not running');
+  }
+
+  const minutes = Math.max(0, Math.round((endedAt.getTime() - parseISO(entry.started_at).getTime()) / 60000));
+  const { data, error } = await supabase
+    .from('time_entries')
+    .update({
+      ended_at: endedAt.toISOString(),
+      duration_minutes: minutes,
+      hours: minutesToBillableHours(minutes),
+    })
+    .eq('id', entryId)
+    // A second stop from another tab or a double click must not move the end time
+    .is('ended_at', null)
+    .select(TIME_ENTRY_SELECT)
+    .maybeSingle();
+  if (error) throw new Error(error.message || 'Failed to stop timer');
+  if (!data) throw new Error('This timer was already stopped');
+  return data as TimeEntry;
+}
+
+/**
+ * Record time entered by hand; hours are rounded up to the 0.1-hour increment
+ */
+export async function createManualEntry(userId: string, input: ManualTimeEntryInput): Promise<TimeEntry> {
+  assertValidCodes(input);
+  const hours = roundToBillingIncrement(input.hours);
+  if (hours <= 0) {
+    throw new Error('A time entry needs at least 0.1 hours');
+  }
+
+  const { data, error } = await supabase
+    .from('time_entries')
+    .insert({
+      user_id: userId,
+      ...detailColumns(input),
+      entry_date: toDateKey(input.entryDate ?? new Date()),
+      duration_minutes: Math.round(hours * 60),
+      hours,
+      source: 'manual',
+    })
+    .select(TIME_ENTRY_SELECT)
+    .single();
+  if (error) throw new Error(error.message || 'Failed to save time entry');
+  return data as TimeEntry;
+}
+
+/**
+ * Delete a time entry
+ */
+export async function deleteTimeEntry(entryId: string) {
+  const { error } = await supabase.from('time_entries').delete().eq('id', entryId);
+  if (error) throw new Error(error.message || 'Failed to delete time entry');
+}
+
+/**
+ * List the user's time entries, newest first, with their case and client
+ */
+export async function listTimeEntries(userId: string, filters: TimeEntryFilters = {}): Promise<TimeEntry[]> {
+  let query = supabase.from('time_entries').select(TIME_ENTRY_SELECT).eq('user_id', userId);
+  if (filters.from) query = query.gte('entry_date', toDateKey(filters.from));
+  if (filters.to) query = query.lte('entry_date', toDateKey(filters.to));
+  if (filters.caseId) query = query.eq('case_id', filters.caseId);
+  if (filters.clientId) query = query.eq('client_id', filters.clientId);
+
+  const { data, error } = await query.order('entry_date', { ascending: false });
+  if (error) throw new Error(error.message || 'Failed to load time entries');
+  return (data ?? []) as TimeEntry[];
+}
+
+/**
+ * First day covered by an analytics date range such as '7d', '30d' or '90d'
+ */
+export function dateRangeStart(dateRange: string, now: Date = new Date()): Date {
+  const days = Number(/^(\d+)d$/.exec(dateRange)?.[1] ?? 30);
+  return subDays(now, days - 1);
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function breakdown(
+  entries: TimeEntry[],
+  keyOf: (entry: TimeEntry) => string,
+  labelOf: (entry: TimeEntry, key: string) => string
+): TimeBreakdown[] {
+  const groups = new Map<string, TimeBreakdown>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const group = groups.get(key) ?? { key, label: labelOf(entry, key), hours: 0, billableHours: 0 };
+    group.hours += Number(entry.hours);
+    if (entry.billable) group.billableHours += Number(entry.hours);
+    groups.set(key, group);
+  }
+  return [...groups.values()]
+    .map(group => ({ ...group, hours: round1(group.hours), billableHours: round1(group.billableHours) }))
+    .sort((a, b) => b.hours - a.hours);
+}
+
+/**
+ * Totals and breakdowns for a set of time entries. Running timers are left out.
+ */
+export function summarizeTimeEntries(entries: TimeEntry[]): TimeSummary {
+  const recorded = entries.filter(entry => entry.source === 'manual' || entry.ended_at);
+  const totalHours = round1(recorded.reduce((sum, entry) => sum + Number(entry.hours), 0));
+  const billable = recorded.filter(entry => entry.billable);
+  const billableHours = round1(billable.reduce((sum, entry) => sum + Number(entry.hours), 0));
+  const billableAmount = billable.reduce((sum, entry) => sum + Number(entry.hours) * Number(entry.rate ?? 0), 0);
+  const daysWorked = new Set(recorded.map(entry => entry.entry_date)).size;
+
+  return {
+    entryCount: recorded.length,
+    totalHours,
+    billableHours,
+    nonBillableHours: round1(totalHours - billableHours),
+    billableRate: totalHours > 0 ? round1((billableHours / totalHours) * 100) : 0,
+    billableAmount: Math.round(billableAmount * 100) / 100,
+    daysWorked,
+    averageDailyHours: daysWorked > 0 ? round1(totalHours / daysWorked) : 0,
+    byCase: breakdown(recorded, entry => entry.case_id ?? 'none', entry => entry.cases?.title ?? 'No case'),
+    byPracticeArea: breakdown(
+      recorded,
+      entry => entry.cases?.case_type ?? 'none',
+      entry => entry.cases?.case_type ?? 'Unassigned'
+    ),
+    byTaskCode: breakdown(
+      recorded,
+      entry => entry.utbms_task_code ?? 'none',
+      (_, key) => (UTBMS_TASK_CODES[key] ? `${key} ${UTBMS_TASK_CODES[key]}` : 'Uncoded')
+    ),
+    byActivityCode: breakdown(
+      recorded,
+      entry => entry.utbms_activity_code ?? 'none',
+      (_, key) => (UTBMS_ACTIVITY_CODES[key] ? `${key} ${UTBMS_ACTIVITY_CODES[key]}` : 'Uncoded')
+    ),
+    byWeek: breakdown(
+      recorded,
+      entry => format(startOfWeek(parseISO(entry.entry_date), { weekStartsOn: 1 }), 'yyyy-MM-dd'),
+      (_, key) => `Week of ${format(parseISO(key), 'MMM d')}`
+    ).sort((a, b) => a.key.localeCompare(b.key)),
+  };
+}
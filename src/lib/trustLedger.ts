@@ -0,0 +1,478 @@
+/**
+ * Trust (IOLTA) accounting ledger
+ * Records deposits and disbursements of client funds on per-client sub-ledgers, refuses
+ * disbursements that would overdraw a client, and produces the monthly three-way
+ * reconciliation of bank, book and client ledger balances.
+ */
+import { endOfMonth, format, parseISO } from 'date-fns';
+import { supabase } from './supabase';
+
+export type TrustTransactionType = 'deposit' | 'disbursement';
+
+export interface TrustAccount {
+  id: string;
+  user_id: string;
+  name: string;
+  bank_name: string | null;
+  account_number_last4: string | null;
+  is_iolta: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TrustTransaction {
+  id: string;
+  user_id: string;
+  account_id: string;
+  client_id: string;
+  case_id: string | null;
+  transaction_type: TrustTransactionType;
+  amount: number;
+  transaction_date: string;
+  payee: string | null;
+  memo: string;
+  reference: string | null;
+  cleared_date: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined when listing transactions
+  clients?: { name: string } | null;
+}
+
+export interface TrustTransactionInput {
+  accountId: string;
+  clientId: string;
+  caseId?: string | null;
+  amount: number;
+  transactionDate?: string | Date;
+  memo: string;
+  // Check number, wire confirmation or deposit slip
+  reference?: string;
+}
+
+export interface DisbursementInput extends TrustTransactionInput {
+  payee: string;
+}
+
+export interface ClientLedger {
+  clientId: string;
+  clientName: string;
+  openingBalance: number;
+  deposits: number;
+  disbursements: number;
+  balance: number;
+}
+
+export interface ReconciliationItem {
+  id: string;
+  date: string;
+  clientName: string;
+  description: string;
+  reference: string | null;
+  amount: number;
+}
+
+export interface ThreeWayReconciliation {
+  accountId: string;
+  periodStart: string;
+  periodEnd: string;
+  bank: {
+    statementBalance: number;
+    depositsInTransit: ReconciliationItem[];
+    outstandingDisbursements: ReconciliationItem[];
+    adjustedBalance: number;
+  };
+  book: {
+    openingBalance: number;
+    deposits: number;
+    disbursements: number;
+    closingBalance: number;
+  };
+  clientLedgers: ClientLedger[];
+  clientLedgerTotal: number;
+  differences: {
+    bankToBook: number;
+    bookToClientLedgers: number;
+  };
+  balanced: boolean;
+  exceptions: string[];
+}
+
+/**
+ * Thrown when a disbursement would take a client's trust balance below zero
+ */
+export class TrustOverdraftError extends Error {
+  public balance: number;
+  public amount: number;
+
+  constructor(message: string, balance: number, amount: number) {
+    super(message);
+    this.name = 'TrustOverdraftError';
+    this.balance = balance;
+    this.amount = amount;
+  }
+}
+
+const TRANSACTION_SELECT = '*, clients(name)';
+
+const toDateKey = (value: string | Date) =>
+  typeof value === 'string' ? value.slice(0, 10) : format(value, 'yyyy-MM-dd');
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const formatCurrency = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Signed effect of a transaction on the balance
+ */
+const signedAmount = (transaction: Pick<TrustTransaction, 'transaction_type' | 'amount'>) =>
+  transaction.transaction_type === 'deposit' ? Number(transaction.amount) : -Number(transaction.amount);
+
+const sumSigned = (transactions: TrustTransaction[]) =>
+  roundCurrency(transactions.reduce((sum, transaction) => sum + signedAmount(transaction), 0));
+
+const sumAmounts = (transactions: TrustTransaction[]) =>
+  roundCurrency(transactions.reduce((sum, transaction) => sum + Number(transaction.amount), 0));
+
+/**
+ * Create a trust bank account
+ */
+export async function createTrustAccount(
+  userId: string,
+  input: { name: string; bankName?: string; accountNumberLast4?: string; isIolta?: boolean }
+): Promise<TrustAccount> {
+  if (!input.name?.trim()) throw new Error('A trust account needs a name');
+
+  const { data, error } = await supabase
+    .from('trust_accounts')
+    .insert({
+      user_id: userId,
+      name: input.name.trim(),
+      bank_name: input.bankName?.trim() || null,
+      account_number_last4: input.accountNumberLast4?.trim() || null,
+      is_iolta: input.isIolta ?? true,
+    })
+    .select()
+    .single();
+  if (error) throw new Error(error.message || 'Failed to create trust account');
+  return data as TrustAccount;
+}
+
+/**
+ * The user's trust accounts
+ */
+export async function listTrustAccounts(userId: string): Promise<TrustAccount[]> {
+  const { data, error } = await supabase.from('trust_accounts').select('*').eq('user_id', userId).order('name');
+  if (error) throw new Error(error.message || 'Failed to load trust accounts');
+  return (data ?? []) as TrustAccount[];
+}
+
+/**
+ * Transactions in a trust account in date order, optionally for one client and up to a date
+ */
+export async function listTrustTransactions(
+  accountId: string,
+  filters: { clientId?: string; through?: string | Date } = {}
+): Promise<TrustTransaction[]> {
+  let query = supabase.from('trust_transactions').select(TRANSACTION_SELECT).eq('account_id', accountId);
+  if (filters.clientId) query = query.eq('client_id', filters.clientId);
+  if (filters.through) query = query.lte('transaction_date', toDateKey(filters.through));
+
+  const { data, error } = await query
+    .order('transaction_date', { ascending: true })
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(error.message || 'Failed to load trust transactions');
+  return (data ?? []) as TrustTransaction[];
+}
+
+/**
+ * A client's current balance in a trust account
+ */
+export async function getClientTrustBalance(accountId: string, clientId: string): Promise<number> {
+  return sumSigned(await listTrustTransactions(accountId, { clientId }));
+}
+
+/**
+ * The most that can be paid out of a client's ledger on a date: the lowest balance as of that
+ * date or any later one, since a backdated payment also comes out of every later balance
+ */
+export function availableToDisburse(transactions: TrustTransaction[], date: string | Date): number {
+  const dateKey = toDateKey(date);
+  const laterDates = transactions.map(transaction => transaction.transaction_date).filter(later => later > dateKey);
+  return Math.min(
+    ...[dateKey, ...laterDates].map(checkpoint =>
+      sumSigned(transactions.filter(transaction => transaction.transaction_date <= checkpoint))
+    )
+  );
+}
+
+function assertValidInput(input: TrustTransactionInput) {
+  if (!input.accountId) throw new Error('A trust account is required');
+  if (!input.clientId) throw new Error('Trust funds must belong to a client');
+  if (!(input.amount > 0)) throw new Error('Amount must be greater than zero');
+  if (roundCurrency(input.amount) !== input.amount) throw new Error('Amount cannot include fractions of a cent');
+  if (!input.memo?.trim()) throw new Error('A memo is required for every trust transaction');
+}
+
+async function insertTransaction(
+  userId: string,
+  type: TrustTransactionType,
+  input: TrustTransactionInput,
+  payee: string | null
+): Promise<TrustTransaction> {
+  const { data, error } = await supabase
+    .from('trust_transactions')
+    .insert({
+      user_id: userId,
+      account_id: input.accountId,
+      client_id: input.clientId,
+      case_id: input.caseId ?? null,
+      transaction_type: type,
+      amount: input.amount,
+      transaction_date: toDateKey(input.transactionDate ?? new Date()),
+      payee,
+      memo: input.memo.trim(),
+      reference: input.reference?.trim() || null,
+    })
+    .select(TRANSACTION_SELECT)
+    .single();
+  if (error) throw new Error(error.message || 'Failed to record trust transaction');
+  return data as TrustTransaction;
+}
+
+/**
+ * Deposit client funds into trust
+ */
+export async function recordDeposit(userId: string, input: TrustTransactionInput): Promise<TrustTransaction> {
+  assertValidInput(input);
+  return insertTransaction(userId, 'deposit', input, null);
+}
+
+/**
+ * Pay client funds out of trust. Fails with TrustOverdraftError when the client's balance on
+ * the payment date, or on any later date, does not cover it; the database enforces the same rule.
+ */
+export async function recordDisbursement(userId: string, input: DisbursementInput): Promise<TrustTransaction> {
+  assertValidInput(input);
+  if (!input.payee?.trim()) throw new Error('A payee is required for a disbursement');
+
+  const transactionDate = toDateKey(input.transactionDate ?? new Date());
+  const balance = availableToDisburse(await listTrustTransactions(input.accountId, { clientId: input.clientId }), transactionDate);
+  if (input.amount > balance) {
+    throw new TrustOverdraftError(
+      `Disbursement of ${formatCurrency(input.amount)} exceeds the client's trust balance of ${formatCurrency(balance)} on or after ${transactionDate}`,
+      balance,
+      input.amount
+    );
+  }
+
+  return insertTransaction(userId, 'disbursement', input, input.payee.trim());
+}
+
+/**
+ * Record the date a transaction cleared the bank, or null to mark it uncleared
+ */
+export async function markTransactionCleared(transactionId: string, clearedDate: string | Date | null) {
+  const { error } = await supabase
+    .from('trust_transactions')
+    .update({ cleared_date: clearedDate ? toDateKey(clearedDate) : null })
+    .eq('id', transactionId);
+  if (error) throw new Error(error.message || 'Failed to update cleared date');
+}
+
+/**
+ * Per-client balances through a date, with activity between periodStart and that date
+ */
+export function calculateClientLedgers(
+  transactions: TrustTransaction[],
+  periodEnd: string,
+  periodStart: string = '0000-01-01'
+): ClientLedger[] {
+  const ledgers = new Map<string, ClientLedger>();
+  for (const transaction of transactions) {
+    if (transaction.transaction_date > periodEnd) continue;
+    const ledger = ledgers.get(transaction.client_id) ?? {
+      clientId: transaction.client_id,
+      clientName: transaction.clients?.name ?? 'Unknown client',
+      openingBalance: 0,
+      deposits: 0,
+      disbursements: 0,
+      balance: 0,
+    };
+    if (transaction.transaction_date < periodStart) {
+      ledger.openingBalance = roundCurrency(ledger.openingBalance + signedAmount(transaction));
+    } else if (transaction.transaction_type === 'deposit') {
+      ledger.deposits = roundCurrency(ledger.deposits + Number(transaction.amount));
+    } else {
+      ledger.disbursements = roundCurrency(ledger.disbursements + Number(transaction.amount));
+    }
+    ledger.balance = roundCurrency(ledger.balance + signedAmount(transaction));
+    ledgers.set(transaction.client_id, ledger);
+  }
+  return [...ledgers.values()].sort((a, b) => a.clientName.localeCompare(b.clientName));
+}
+
+const toReconciliationItem = (transaction: TrustTransaction): ReconciliationItem => ({
+  id: transaction.id,
+  date: transaction.transaction_date,
+  clientName: transaction.clients?.name ?? 'Unknown client',
+  description: transaction.transaction_type === 'deposit' ? transaction.memo : `${transaction.payee}: ${transaction.memo}`,
+  reference: transaction.reference,
+  amount: Number(transaction.amount),
+});
+
+/**
+ * Three-way reconciliation for one month ('YYYY-MM'): the bank statement balance adjusted
+ * for uncleared items, the account's book balance, and the sum of the client ledgers must
+ * all agree, and no client ledger may be negative.
+ */
+export function buildThreeWayReconciliation(
+  accountId: string,
+  transactions: TrustTransaction[],
+  month: string,
+  bankStatementBalance: number
+): ThreeWayReconciliation {
+  const periodStart = `${month}-01`;
+  const periodEnd = format(endOfMonth(parseISO(periodStart)), 'yyyy-MM-dd');
+  const throughEnd = transactions.filter(transaction => transaction.transaction_date <= periodEnd);
+  const inPeriod = throughEnd.filter(transaction => transaction.transaction_date >= periodStart);
+  const uncleared = throughEnd.filter(transaction => !transaction.cleared_date || transaction.cleared_date > periodEnd);
+
+  const depositsInTransit = uncleared.filter(transaction => transaction.transaction_type === 'deposit');
+  const outstandingDisbursements = uncleared.filter(transaction => transaction.transaction_type === 'disbursement');
+  const adjustedBalance = roundCurrency(
+    bankStatementBalance + sumAmounts(depositsInTransit) - sumAmounts(outstandingDisbursements)
+  );
+
+  const openingBalance = sumSigned(throughEnd.filter(transaction => transaction.transaction_date < periodStart));
+  const deposits = sumAmounts(inPeriod.filter(transaction => transaction.transaction_type === 'deposit'));
+  const disbursements = sumAmounts(inPeriod.filter(transaction => transaction.transaction_type === 'disbursement'));
+  const closingBalance = roundCurrency(openingBalance + deposits - disbursements);
+
+  const clientLedgers = calculateClientLedgers(throughEnd, periodEnd, periodStart)
+    .filter(ledger => ledger.balance !== 0 || ledger.deposits !== 0 || ledger.disbursements !== 0);
+  const clientLedgerTotal = roundCurrency(clientLedgers.reduce((sum, ledger) => sum + ledger.balance, 0));
+
+  const bankToBook = roundCurrency(adjustedBalance - closingBalance);
+  const bookToClientLedgers = roundCurrency(closingBalance - clientLedgerTotal);
+  const exceptions: string[] = [];
+  if (bankToBook !== 0) {
+    exceptions.push(`Adjusted bank balance differs from the book balance by ${formatCurrency(bankToBook)}`);
+  }
+  if (bookToClientLedgers !== 0) {
+    exceptions.push(`Book balance differs from the client ledger total by ${formatCurrency(bookToClientLedgers)}`);
+  }
+  for (const ledger of clientLedgers.filter(ledger => ledger.balance < 0)) {
+    exceptions.push(`${ledger.clientName} has a negative trust balance of ${formatCurrency(ledger.balance)}`);
+  }
+
+  return {
+    accountId,
+    periodStart,
+    periodEnd,
+    bank: {
+      statementBalance: roundCurrency(bankStatementBalance),
+      depositsInTransit: depositsInTransit.map(toReconciliationItem),
+      outstandingDisbursements: outstandingDisbursements.map(toReconciliationItem),
+      adjustedBalance,
+    },
+    book: { openingBalance, deposits, disbursements, closingBalance },
+    clientLedgers,
+    clientLedgerTotal,
+    differences: { bankToBook, bookToClientLedgers },
+    balanced: exceptions.length === 0,
+    exceptions,
+  };
+}
+
+/**
+ * Load an account's transactions and reconcile them for a month
+ */
+export async function reconcileTrustAccount(
+  accountId: string,
+  month: string,
+  bankStatementBalance: number
+): Promise<ThreeWayReconciliation> {
+  const periodEnd = format(endOfMonth(parseISO(`${month}-01`)), 'yyyy-MM-dd');
+  const transactions = await listTrustTransactions(accountId, { through: periodEnd });
+  return buildThreeWayReconciliation(accountId, transactions, month, bankStatementBalance);
+}
+
+/**
+ * Save a reconciliation report, replacing any earlier one for the same month
+ */
+export async function saveReconciliation(userId: string, report: ThreeWayReconciliation, notes?: string) {
+  const { data, error } = await supabase
+    .from('trust_reconciliations')
+    .upsert(
+      {
+        user_id: userId,
+        account_id: report.accountId,
+        period_start: report.periodStart,
+        period_end: report.periodEnd,
+        bank_statement_balance: report.bank.statementBalance,
+        adjusted_bank_balance: report.bank.adjustedBalance,
+        book_balance: report.book.closingBalance,
+        client_ledger_total: report.clientLedgerTotal,
+        balanced: report.balanced,
+        report,
+        notes: notes?.trim() || null,
+      },
+      { onConflict: 'account_id,period_end' }
+    )
+    .select()
+    .single();
+  if (error) throw new Error(error.message || 'Failed to save reconciliation');
+  return data;
+}
+
+/**
+ * Plain-text version of the reconciliation for export, one section per paragraph
+ */
+export function formatReconciliationReport(report: ThreeWayReconciliation, account?: TrustAccount): string {
+  const itemLines = (items: ReconciliationItem[]) =>
+    items.length === 0
+      ? ['  None']
+      : items.map(item => `  ${item.date}  ${item.clientName}  ${item.description}${item.reference ? ` (${item.reference})` : ''}  ${formatCurrency(item.amount)}`);
+
+  const sections = [
+    [
+      account ? `Account: ${account.name}${account.bank_name ? `, ${account.bank_name}` : ''}${account.account_number_last4 ? ` ending ${account.account_number_last4}` : ''}` : '',
+      `Period: ${report.periodStart} to ${report.periodEnd}`,
+      `Status: ${report.balanced ? 'Reconciled' : 'NOT RECONCILED'}`,
+    ].filter(Boolean),
+    [
+      '1. Bank Balance',
+      `Statement balance: ${formatCurrency(report.bank.statementBalance)}`,
+      'Add deposits in transit:',
+      ...itemLines(report.bank.depositsInTransit),
+      'Less outstanding disbursements:',
+      ...itemLines(report.bank.outstandingDisbursements),
+      `Adjusted bank balance: ${formatCurrency(report.bank.adjustedBalance)}`,
+    ],
+    [
+      '2. Book Balance (Trust Account Journal)',
+      `Opening balance: ${formatCurrency(report.book.openingBalance)}`,
+      `Deposits: ${formatCurrency(report.book.deposits)}`,
+      `Disbursements: ${formatCurrency(report.book.disbursements)}`,
+      `Closing balance: ${formatCurrency(report.book.closingBalance)}`,
+    ],
+    [
+      '3. Client Ledger Balances',
+      ...report.clientLedgers.map(ledger =>
+        `  ${ledger.clientName}: opening ${formatCurrency(ledger.openingBalance)}, deposits ${formatCurrency(ledger.deposits)}, disbursements ${formatCurrency(ledger.disbursements)}, balance ${formatCurrency(ledger.balance)}`
+      ),
+      `Total of client ledgers: ${formatCurrency(report.clientLedgerTotal)}`,
+    ],
+    [
+      'Comparison',
+      `Adjusted bank balance: ${formatCurrency(report.bank.adjustedBalance)}`,
+      `Book balance: ${formatCurrency(report.book.closingBalance)}`,
+      `Client ledger total: ${formatCurrency(report.clientLedgerTotal)}`,
+      ...(report.exceptions.length > 0 ? ['Exceptions:', ...report.exceptions.map(exception => `  ${exception}`)] : ['All three balances agree.']),
+    ],
+  ];
+
+  return sections.map(lines => lines.join('\n')).join('\n\n');
+}
@@ -0,0 +1,240 @@
+/**
+ * Version history for drafts and templates
+ * Every save records an immutable, numbered snapshot with its author. Restoring an old version
+ * saves it again as the newest one, so history only ever grows, and milestones ("As filed",
+ * "Sent to client") are names attached to a version rather than changes to it. Any two
+ * versions can be compared line by line with the word-level diff from documentDiff. A draft
+ * shared with a collaboration has one history that every collaborator's saves add to; a
+ * template's history is its user's alone.
+ */
+import { supabase } from './supabase';
+import { compareDocumentsInWorker, type DiffSegment, type DocumentComparison } from './documentDiff';
+
+export type VersionSubjectType = 'draft' | 'template';
+
+export interface VersionSubject {
+  type: VersionSubjectType;
+  id: string;
+}
+
+export interface VersionAuthor {
+  id: string;
+  name: string;
+}
+
+export interface VersionSnapshot {
+  title: string;
+  content: string;
+  // Fields besides the text that a restore brings back, e.g. the case number or template tags
+  metadata?: Record<string, unknown>;
+}
+
+export interface VersionMilestone {
+  id: string;
+  version_id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface DocumentVersion {
+  id: string;
+  user_id: string;
+  subject_type: VersionSubjectType;
+  subject_id: string;
+  version_number: number;
+  title: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  author_name: string;
+  // Version number this one brought back, if it was a restore
+  restored_from: number | null;
+  created_at: string;
+  milestones: VersionMilestone[];
+}
+
+// One line of a side-by-side comparison; null pads the side with no matching line
+export interface SideBySideRow {
+  left: DiffSegment[] | null;
+  right: DiffSegment[] | null;
+  changed: boolean;
+}
+
+/**
+ * The signed-in user as a version's author
+ */
+export const versionAuthor = (user: { id: string; email: string | null; full_name?: string | null }): VersionAuthor => ({
+  id: user.id,
+  name: user.full_name || user.email || '',
+});
+
+export const MILESTONE_SUGGESTIONS = ['As filed', 'Sent to client', 'Sent to opposing counsel', 'Executed'];
+
+export class VersionHistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VersionHistoryError';
+  }
+}
+
+// Postgres unique_violation: another save took the version number first
+const UNIQUE_VIOLATION = '23505';
+const SAVE_ATTEMPTS = 3;
+
+const withMilestones = (row: DocumentVersion & { version_milestones?: VersionMilestone[] }): DocumentVersion => {
+  const { version_milestones: milestones = [], ...version } = row;
+  return {
+    ...version,
+    metadata: version.metadata ?? {},
+    milestones: [...milestones].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+  };
+};
+
+async function latestVersionNumber(userId: string, subject: VersionSubject): Promise<number> {
+  let query = supabase
+    .from('document_versions')
+    .select('version_number')
+    .eq('subject_type', subject.type)
+    .eq('subject_id', subject.id);
+  // A draft's history is shared with its collaborators, so only templates are looked up by user
+  if (subject.type === 'template') query = query.eq('user_id', userId);
+  const { data, error } = await query.order('version_number', { ascending: false }).limit(1);
+  if (error) throw new VersionHistoryError(error.message || 'Failed to load version history');
+  return data?.[0]?.version_number ?? 0;
+}
+
+/**
+ * Record a save as the next version
+ */
+export async function saveVersion(
+  subject: VersionSubject,
+  author: VersionAuthor,
+  snapshot: VersionSnapshot,
+  options: { restoredFrom?: number } = {}
+): Promise<DocumentVersion> {
+  for (let attempt = 1; attempt <= SAVE_ATTEMPTS; attempt++) {
+    const versionNumber = (await latestVersionNumber(author.id, subject)) + 1;
+    const { data, error } = await supabase
+      .from('document_versions')
+      .insert({
+        user_id: author.id,
+        subject_type: subject.type,
+        subject_id: subject.id,
+        version_number: versionNumber,
+        title: snapshot.title,
+        content: snapshot.content,
+        metadata: snapshot.metadata ?? {},
+        author_name: author.name,
+        restored_from: options.restoredFrom ?? null,
+      })
+      .select()
+      .single();
+
+    if (!error) return withMilestones(data as DocumentVersion);
+    if (error.code !== UNIQUE_VIOLATION) throw new VersionHistoryError(error.message || 'Failed to save version');
+    console.warn(`[VersionHistory] Version ${versionNumber} was taken, retrying (attempt ${attempt})`);
+  }
+  throw new VersionHistoryError('Another save is in progress; try again');
+}
+
+/**
+ * Every version of a draft or template with its milestones, newest first
+ */
+export async function listVersions(userId: string, subject: VersionSubject): Promise<DocumentVersion[]> {
+  let query = supabase
+    .from('document_versions')
+    .select('*, version_milestones(*)')
+    .eq('subject_type', subject.type)
+    .eq('subject_id', subject.id);
+  if (subject.type === 'template') query = query.eq('user_id', userId);
+  const { data, error } = await query.order('version_number', { ascending: false });
+  if (error) throw new VersionHistoryError(error.message || 'Failed to load version history');
+  return (data ?? []).map(withMilestones);
+}
+
+export async function addMilestone(userId: string, versionId: string, name: string): Promise<VersionMilestone> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new VersionHistoryError('Name the milestone');
+  const { data, error } = await supabase
+    .from('version_milestones')
+    .insert({ user_id: userId, version_id: versionId, name: trimmed })
+    .select()
+    .single();
+  if (error) {
+    throw new VersionHistoryError(
+      error.code === UNIQUE_VIOLATION ? `This version is already marked "${trimmed}"` : error.message || 'Failed to add milestone'
+    );
+  }
+  return data as VersionMilestone;
+}
+
+export async function removeMilestone(milestoneId: string): Promise<void> {
+  const { error } = await supabase.from('version_milestones').delete().eq('id', milestoneId);
+  if (error) throw new VersionHistoryError(error.message || 'Failed to remove milestone');
+}
+
+/**
+ * Lay a word-level diff out as aligned lines: the left side shows the older text with its
+ * deletions, the right side the newer text with its insertions
+ */
+export function sideBySide(segments: DiffSegment[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  // Lines of each side since the last line break both sides share
+  let left: DiffSegment[][] = [[]];
+  let right: DiffSegment[][] = [[]];
+  // Left and right line holding the same unchanged text, which must share a row
+  let anchors: Array<[number, number]> = [];
+
+  const push = (leftLine: DiffSegment[] | null, rightLine: DiffSegment[] | null) => {
+    const edited = [...(leftLine ?? []), ...(rightLine ?? [])].some(segment => segment.type !== 'equal');
+    rows.push({ left: leftLine, right: rightLine, changed: edited || !leftLine || !rightLine });
+  };
+  // Lines between anchors are paired in order, the longer side padded
+  const pairUntil = (from: [number, number], to: [number, number]) => {
+    for (let i = 0; i < Math.max(to[0] - from[0], to[1] - from[1]); i++) {
+      push(from[0] + i < to[0] ? left[from[0] + i] : null, from[1] + i < to[1] ? right[from[1] + i] : null);
+    }
+  };
+
+  const flush = () => {
+    let next: [number, number] = [0, 0];
+    for (const [leftIndex, rightIndex] of anchors) {
+      if (leftIndex < next[0] || rightIndex < next[1]) continue;
+      pairUntil(next, [leftIndex, rightIndex]);
+      push(left[leftIndex], right[rightIndex]);
+      next = [leftIndex + 1, rightIndex + 1];
+    }
+    pairUntil(next, [left.length, right.length]);
+    left = [[]];
+    right = [[]];
+    anchors = [];
+  };
+
+  for (const segment of segments) {
+    segment.text.replace(/\r\n/g, '\n').split('\n').forEach((part, index) => {
+      if (index > 0) {
+        if (segment.type === 'equal') flush();
+        else (segment.type === 'delete' ? left : right).push([]);
+      }
+      if (!part) return;
+      if (segment.type !== 'insert') left[left.length - 1].push({ type: segment.type, text: part });
+      if (segment.type !== 'delete') right[right.length - 1].push({ type: segment.type, text: part });
+      if (segment.type === 'equal' && part.trim()) anchors.push([left.length - 1, right.length - 1]);
+    });
+  }
+  flush();
+  return rows;
+}
+
+/**
+ * Compare two versions, older on the left whichever order they are given in
+ */
+export async function compareVersions(a: DocumentVersion, b: DocumentVersion): Promise<{
+  older: DocumentVersion;
+  newer: DocumentVersion;
+  comparison: DocumentComparison;
+  rows: SideBySideRow[];
+}> {
+  const [older, newer] = a.version_number <= b.version_number ? [a, b] : [b, a];
+  const comparison = await compareDocumentsInWorker(older.content, newer.content);
+  return { older, newer, comparison, rows: sideBySide(comparison.segments) };
+}
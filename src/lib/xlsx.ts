@@ -0,0 +1,159 @@
+/**
+ * XLSX workbooks
+ * Writes the minimal SpreadsheetML package Excel, Numbers and LibreOffice open: one sheet
+ * per table, a bold frozen header row, wrapped text and inline strings, so no shared-string
+ * table is needed.
+ */
+import JSZip from 'jszip';
+
+export interface WorksheetColumn {
+  header: string;
+  // Width in characters
+  width?: number;
+}
+
+export interface Worksheet {
+  name: string;
+  columns: WorksheetColumn[];
+  rows: Array<Array<string | number | null>>;
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const DEFAULT_COLUMN_WIDTH = 18;
+// Excel's limits on sheet names
+const MAX_SHEET_NAME_LENGTH = 31;
+const INVALID_SHEET_NAME_CHARACTERS = /[[\]:*?/\\]/g;
+
+// Control characters other than tab and line breaks are not allowed in XML 1.0
+const isXmlCharacter = (character: string) => {
+  const code = character.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .split('')
+    .filter(isXmlCharacter)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Spreadsheet column letters: 0 → A, 25 → Z, 26 → AA
+ */
+export function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+const sheetName = (name: string, index: number, used: Set<string>) => {
+  const base = name.replace(INVALID_SHEET_NAME_CHARACTERS, ' ').trim().slice(0, MAX_SHEET_NAME_LENGTH) || `Sheet${index + 1}`;
+  let unique = base;
+  for (let n = 2; used.has(unique.toLowerCase()); n++) {
+    unique = `${base.slice(0, MAX_SHEET_NAME_LENGTH - String(n).length - 1)} ${n}`;
+  }
+  used.add(unique.toLowerCase());
+  return unique;
+};
+
+// Style 1 is the bold header, style 2 wraps body text at the top of the cell
+const cell = (value: string | number | null, reference: string, style: number) => {
+  if (value === null || value === undefined || value === '') return `<c r="${reference}" s="${style}"/>`;
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${reference}" s="${style}"><v>${value}</v></c>`;
+  return `<c r="${reference}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+function worksheetXml(sheet: Worksheet): string {
+  const columns = sheet.columns
+    .map((column, index) => `<col min="${index + 1}" max="${index + 1}" width="${column.width ?? DEFAULT_COLUMN_WIDTH}" customWidth="1"/>`)
+    .join('');
+  const header = sheet.columns.map((column, index) => cell(column.header, `${columnName(index)}1`, 1)).join('');
+  const body = sheet.rows
+    .map((row, rowIndex) => {
+      const cells = sheet.columns.map((_, index) => cell(row[index] ?? null, `${columnName(index)}${rowIndex + 2}`, 2)).join('');
+      return `<row r="${rowIndex + 2}">${cells}</row>`;
+    })
+    .join('');
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<cols>${columns}</cols>` +
+    `<sheetData><row r="1">${header}</row>${body}</sheetData>` +
+    '</worksheet>'
+  );
+}
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="3">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1" applyAlignment="1"><alignment wrapText="1" vertical="top"/></xf>' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment wrapText="1" vertical="top"/></xf>' +
+  '</cellXfs>' +
+  '</styleSheet>';
+
+/**
+ * Build an .xlsx workbook with one sheet per table
+ */
+export async function buildXlsx(sheets: Worksheet[]): Promise<Blob> {
+  if (sheets.length === 0) throw new Error('A workbook needs at least one sheet');
+
+  const used = new Set<string>();
+  const names = sheets.map((sheet, index) => sheetName(sheet.name, index, used));
+  const zip = new JSZip();
+
+  zip.file(
+    '[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheets
+        .map((_, index) => `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
+        .join('') +
+      '</Types>'
+  );
+  zip.file(
+    '_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+  );
+  zip.file(
+    'xl/workbook.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets>${names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')}</sheets>` +
+      '</workbook>'
+  );
+  zip.file(
+    'xl/_rels/workbook.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      sheets
+        .map((_, index) => `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`)
+        .join('') +
+      `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      '</Relationships>'
+  );
+  zip.file('xl/styles.xml', STYLES_XML);
+  sheets.forEach((sheet, index) => zip.file(`xl/worksheets/sheet${index + 1}.xml`, worksheetXml(sheet)));
+
+  return zip.generateAsync({ type: 'blob', mimeType: XLSX_MIME_TYPE });
+}
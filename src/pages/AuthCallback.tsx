@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
+import { consumeReturnPath } from '@/lib/appRoutes';
 import { Loader2, CheckCircle, XCircle } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 
@@ -27,9 +28,10 @@ export default function AuthCallback() {
           setStatus('success');
           setMessage('Authentication successful! Redirecting...');
           
-          // Redirect to dashboard after a short delay
+          // Return to the view the user signed in from after a short delay
+          const returnPath = consumeReturnPath();
           setTimeout(() => {
-            navigate('/');
+            navigate(returnPath, { replace: true });
           }, 1500);
         } else {
           throw new Error('No session found');
@@ -40,8 +42,9 @@ export default function AuthCallback() {
         setMessage(err instanceof Error ? err.message : 'Authentication failed');
         
         // Redirect to home page after showing error
+        const returnPath = consumeReturnPath();
         setTimeout(() => {
-          navigate('/');
+          navigate(returnPath, { replace: true });
         }, 3000);
       }
     };
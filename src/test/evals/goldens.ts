@@ -0,0 +1,235 @@
+/**
+ * Golden cases for the prompt evaluations in src/test/unit/promptEval.test.ts
+ * Replies are replayed from recordings.json. After changing a template, bump its version
+ * and record the affected cases again with recordEvals against a live provider.
+ */
+import { z } from 'zod';
+import {
+  analysisResultSchema,
+  learningsCandidateSchema,
+  privilegeDescriptionSchema,
+  rebuttalAnalysisSchema,
+  redlineReviewSchema,
+} from '@/lib/aiSchemas';
+import { compareDocuments, formatChangesForReview } from '@/lib/documentDiff';
+import { formatPagesForCitation } from '@/lib/textExtraction';
+import {
+  contains,
+  noUnverifiedCitations,
+  notContains,
+  requiredHeadings,
+  validJson,
+  type EvalCase,
+} from '@/lib/promptEval';
+import {
+  agentSystemPrompt,
+  alertReviewRequestPrompt,
+  alertReviewSystemPrompt,
+  assistantSystemPrompt,
+  briefRequestPrompt,
+  briefSystemPrompt,
+  caseComparisonPrompt,
+  caseExtractionPrompt,
+  caseExtractionSystemPrompt,
+  caseLawSystemPrompt,
+  documentAnalysisRequestPrompt,
+  documentAnalysisSystemPrompt,
+  documentRefineRequestPrompt,
+  documentRefineSystemPrompt,
+  legalChatSystemPrompt,
+  privilegeDescriptionRequestPrompt,
+  privilegeDescriptionSystemPrompt,
+  rebuttalRequestPrompt,
+  rebuttalSystemPrompt,
+  redlineReviewRequestPrompt,
+  redlineReviewSystemPrompt,
+  renderPrompt,
+} from '@/lib/prompts';
+
+// The case-law-analysis edge function's CASE_EXTRACTION_SCHEMA
+const caseExtractionSchema = z.object({
+  caseName: z.string(),
+  citation: z.string(),
+  court: z.string(),
+  year: z.string(),
+  keyHoldings: z.array(z.string()),
+  precedentsCited: z.array(z.string()),
+});
+
+const briefAuthorities = [
+  'Bell Atlantic Corp. v. Twombly, 550 U.S. 544 (2007)',
+  'Ashcroft v. Iqbal, 556 U.S. 662 (2009)',
+];
+const briefRules = ['Fed. R. Civ. P. 12(b)(6)', 'Fed. R. Civ. P. 8(a)'];
+
+const twombly = 'Bell Atlantic Corp. v. Twombly, 550 U.S. 544 (2007)';
+const iqbal = 'Ashcroft v. Iqbal, 556 U.S. 662 (2009)';
+const conley = 'Conley v. Gibson, 355 U.S. 41 (1957)';
+const twomblyOpinion =
+  `${twombly}. Consumers alleged that the incumbent local telephone carriers conspired to restrain trade in violation of ` +
+  'Section 1 of the Sherman Act, pleading only parallel conduct and a bare assertion of agreement. The District Court ' +
+  'dismissed; the Second Circuit reversed under the "no set of facts" language of ' + conley + '. The Supreme Court ' +
+  'reversed, holding that a complaint must plead enough facts to state a claim to relief that is plausible on its face, ' +
+  'and that parallel conduct without more does not suggest an agreement.';
+const iqbalOpinion =
+  `${iqbal}. A Pakistani Muslim detained after September 11 sued the Attorney General and the FBI Director, alleging they ` +
+  'adopted a policy of harsh confinement because of religion and national origin. The Supreme Court held the complaint ' +
+  'insufficient: the plausibility standard of Twombly governs all civil actions, and conclusory allegations of ' +
+  'discriminatory purpose are not entitled to the assumption of truth.';
+
+export const goldenCases: EvalCase[] = [
+  {
+    name: 'brief: motion to dismiss for failure to state a claim',
+    system: renderPrompt(briefSystemPrompt, {}),
+    user: renderPrompt(briefRequestPrompt, {
+      briefLabel: 'Motion to Dismiss',
+      caseTitle: 'Smith v. Acme Corp.',
+      jurisdiction: 'Federal',
+      facts: 'Plaintiff alleges Acme breached an oral agreement but pleads no terms, dates or consideration.',
+      legalIssues: 'Whether the complaint states a plausible claim for breach of contract.',
+      clientPosition: 'Defendant',
+      ruleCitations: briefRules,
+      authoritySummary: briefAuthorities.join('\n'),
+    }),
+    assertions: [
+      requiredHeadings(['Statement of the Issues', 'Argument', 'Conclusion']),
+      noUnverifiedCitations([...briefAuthorities, ...briefRules]),
+      notContains('Table of Authorities'),
+    ],
+  },
+  {
+    name: 'document analyzer: commercial lease',
+    system: renderPrompt(documentAnalysisSystemPrompt, {}),
+    user: renderPrompt(documentAnalysisRequestPrompt, {
+      documentText: formatPagesForCitation([
+        {
+          page: 1,
+          text: 'This Lease is made on March 1, 2024 between Harbor Holdings LLC (Landlord) and Bright Cafe Inc. (Tenant). Tenant shall pay $4,500 per month.',
+        },
+        { page: 2, text: 'Tenant indemnifies Landlord against all claims, including those caused by Landlord.' },
+      ]),
+    }),
+    assertions: [validJson(analysisResultSchema), contains('Harbor Holdings'), contains('(p. 2)')],
+  },
+  {
+    name: 'rebuttal: statute of limitations defense',
+    system: renderPrompt(rebuttalSystemPrompt, {}),
+    user: renderPrompt(rebuttalRequestPrompt, {
+      argument: 'The claim is time-barred because it was filed more than two years after the injury.',
+      jurisdiction: 'California',
+      caseType: 'Personal injury',
+    }),
+    assertions: [validJson(rebuttalAnalysisSchema), contains('discovery rule')],
+  },
+  {
+    name: 'case law: extraction from a Twombly analysis',
+    system: renderPrompt(caseExtractionSystemPrompt, {}),
+    user: renderPrompt(caseExtractionPrompt, {
+      analysis:
+        'Bell Atlantic Corp. v. Twombly, 550 U.S. 544 (2007), decided by the Supreme Court, held that a complaint must plead ' +
+        'enough facts to state a claim to relief that is plausible on its face, retiring the "no set of facts" standard of ' +
+        'Conley v. Gibson, 355 U.S. 41 (1957).',
+    }),
+    assertions: [
+      validJson(caseExtractionSchema),
+      noUnverifiedCitations(['Bell Atlantic Corp. v. Twombly, 550 U.S. 544 (2007)', 'Conley v. Gibson, 355 U.S. 41 (1957)']),
+    ],
+  },
+  {
+    name: 'redline: opposing counsel narrows the indemnity',
+    system: renderPrompt(redlineReviewSystemPrompt, {}),
+    user: renderPrompt(redlineReviewRequestPrompt, {
+      changes: formatChangesForReview(
+        compareDocuments(
+          'Supplier shall indemnify Customer against all claims. Payment is due within 30 days. This Agreement is governed by Delaware law.',
+          'Supplier shall indemnify Customer against third-party claims. Payment is due within 30 days. This agreement is governed by Delaware law.'
+        ).changes
+      ),
+    }),
+    assertions: [validJson(redlineReviewSchema), contains('substantive'), contains('cosmetic')],
+  },
+  {
+    name: 'privilege log: counsel email on a termination dispute',
+    system: renderPrompt(privilegeDescriptionSystemPrompt, {}),
+    user: renderPrompt(privilegeDescriptionRequestPrompt, {
+      summary:
+        'Outside counsel advises the CFO that the distributor is unlikely to prevail on its wrongful termination claim ' +
+        'and recommends offering $250,000 to settle before the March mediation.',
+      basis: 'Attorney-Client Privilege',
+      treatment: 'Withheld',
+      documentType: 'Email',
+      date: '2024-11-04',
+      author: 'Jane Smith, Esq. (outside counsel)',
+      recipients: 'John Doe (CFO)',
+    }),
+    assertions: [
+      validJson(privilegeDescriptionSchema),
+      contains('legal advice'),
+      notContains('250,000'),
+      notContains('unlikely to prevail'),
+    ],
+  },
+  {
+    name: 'agent: applies the remembered jurisdiction',
+    system: renderPrompt(agentSystemPrompt, {
+      memory: '- defaults.jurisdiction: California state court\n- Prefers answers under 150 words',
+      bulkDataContext: '',
+      userIdentifier: 'user-1',
+    }),
+    user: 'How long do we have to respond to a complaint served in person?',
+    assertions: [contains('30 days'), notContains('MEMORY'), validJson(learningsCandidateSchema)],
+  },
+  {
+    name: 'assistant: learns a billing preference',
+    system: renderPrompt(assistantSystemPrompt, {
+      memory: 'No saved preferences yet.',
+      tone: 'concise',
+      confirmationThreshold: 0.7,
+    }),
+    user: 'From now on, always round my time entries up to the nearest 0.1 hour.',
+    assertions: [contains('LEARNINGS_CANDIDATE'), contains('0.1'), validJson(learningsCandidateSchema)],
+  },
+  {
+    name: 'legal chat: asked for authority it cannot verify',
+    system: renderPrompt(legalChatSystemPrompt, {}),
+    user: 'Give me a Texas case holding that a commercial landlord must mitigate damages after the tenant abandons.',
+    assertions: [noUnverifiedCitations([]), contains('verify'), contains('attorney')],
+  },
+  {
+    name: 'background agent: undefined property in the document list',
+    system: renderPrompt(alertReviewSystemPrompt, {}),
+    user: renderPrompt(alertReviewRequestPrompt, {
+      title: 'Unhandled error in DocumentManager',
+      severity: 'high',
+      message: "TypeError: Cannot read properties of undefined (reading 'map')",
+      url: 'https://app.docketchief.com/documents',
+      stackTrace: 'TypeError: Cannot read properties of undefined (reading \'map\')\n    at DocumentManager (DocumentManager.tsx:152:38)',
+    }),
+    assertions: [contains('root cause'), contains('DocumentManager.tsx'), contains('fix')],
+  },
+  {
+    name: 'case law: full analysis of Twombly for California',
+    system: renderPrompt(caseLawSystemPrompt, { analysisType: 'full', jurisdiction: 'California', focusAreas: ['pleading standards'] }),
+    user: twomblyOpinion,
+    assertions: [
+      requiredHeadings(['Case Information', 'Facts', 'Legal Issues', 'Holdings', 'Reasoning', 'Significance']),
+      contains('California'),
+      noUnverifiedCitations([twombly, conley]),
+    ],
+  },
+  {
+    name: 'case law: comparing Twombly and Iqbal',
+    system: renderPrompt(caseLawSystemPrompt, { analysisType: 'compare' }),
+    user: renderPrompt(caseComparisonPrompt, { caseText: twomblyOpinion, compareWith: iqbalOpinion }),
+    assertions: [contains('Similarities'), contains('Differences'), noUnverifiedCitations([twombly, iqbal, conley])],
+  },
+  {
+    name: 'document refine: late payment clause',
+    system: renderPrompt(documentRefineSystemPrompt, {}),
+    user: renderPrompt(documentRefineRequestPrompt, {
+      documentText:
+        'Tenant shall pay rent promptly. If rent is late Landlord may charge a fee and may also terminate this lease at any time.',
+    }),
+    assertions: [requiredHeadings(['Key Changes']), contains('days'), notContains('at any time')],
+  },
+];
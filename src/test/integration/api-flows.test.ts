@@ -24,6 +24,8 @@ vi.mock('@/lib/supabase', () => ({
 describe('Integration Tests - API Flows', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    AIService.resetProviderHealth();
+    AIService.configureRetryPolicy({ baseDelayMs: 0 });
   });
 
   describe('AI Chat Flow', () => {
@@ -66,6 +68,23 @@ describe('Integration Tests - API Flows', () => {
 
       const result = await AIService.sendMessage(messages, 'openai', 'test-user');
 
+      // The timeout is retried and the second attempt answers
+      expect(result.error).toBeUndefined();
+      expect(result.response).toBe('AI response content');
+      expect(supabase.functions.invoke).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report the outage when every attempt times out', async () => {
+      vi.mocked(supabase.functions.invoke).mockRejectedValue(
+        new Error('Provider timeout')
+      );
+
+      const result = await AIService.sendMessage(
+        [{ role: 'user' as const, content: 'Test question' }],
+        'anthropic',
+        'test-user'
+      );
+
       expect(result.error).toBe('SERVICE_UNAVAILABLE');
       expect(result.response).toContain('did not respond in time');
     });
@@ -86,8 +105,8 @@ describe('Integration Tests - API Flows', () => {
       let status = AIService.getServiceStatus();
       expect(status.available).toBe(true);
 
-      // Failure request
-      vi.mocked(supabase.functions.invoke).mockRejectedValueOnce(
+      // Failure request, on every retry and failover attempt
+      vi.mocked(supabase.functions.invoke).mockRejectedValue(
         new Error('Rate limit')
       );
 
@@ -1,4 +1,12 @@
 import { vi } from 'vitest';
+import type { AIModelPrice, AIUsageRecord } from '@/lib/aiUsage';
+import type { ConflictParty } from '@/lib/conflictCheck';
+import type { RetrievedPassage } from '@/lib/documentRetrieval';
+import type { BillingLineItem } from '@/lib/invoiceService';
+import type { RedactionConfig } from '@/lib/redaction';
+import type { TimeEntry } from '@/lib/timeEntryService';
+import type { TrustTransaction } from '@/lib/trustLedger';
+import type { LearningsCandidate } from '@/types/assistant';
 
 // Mock Supabase client
 export const createMockSupabaseClient = () => {
@@ -51,6 +59,30 @@ export const createMockSupabaseClient = () => {
   return mockClient;
 };
 
+// A chainable, awaitable stand-in for the supabase query builder that resolves to the given result
+export const queryReturning = (result: { data: unknown; error: unknown }) => {
+  const query: Record<string, unknown> = {};
+  for (const method of [
+    'select', 'insert', 'upsert', 'update', 'delete',
+    'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'is', 'in', 'or', 'order', 'limit',
+  ]) {
+    query[method] = vi.fn().mockReturnValue(query);
+  }
+  query.single = vi.fn().mockResolvedValue(result);
+  query.maybeSingle = vi.fn().mockResolvedValue(result);
+  query.then = (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject);
+  return query as Record<string, ReturnType<typeof vi.fn>>;
+};
+
+// Answer the next supabase.from calls with the given queries, in order
+export const mockQueries = async (...queries: ReturnType<typeof queryReturning>[]) => {
+  const { supabase } = await import('@/lib/supabase');
+  const from = vi.mocked(supabase.from);
+  queries.forEach(query => from.mockReturnValueOnce(query as never));
+  return from;
+};
+
 // Mock alert data
 export const mockAlertData = {
   alertType: 'test_alert',
@@ -98,3 +130,178 @@ export const mockOpenAIResponse = {
     total_tokens: 70,
   },
 };
+
+// Stub legal-ai-chat provider: streams each chunk as an SSE delta event, then `done`.
+// Like fetch, aborting the signal errors the body mid-stream.
+export const stubChatStream = (
+  chunks: string[],
+  { signal, failWith }: { signal?: AbortSignal; failWith?: string } = {}
+) => {
+  const encoder = new TextEncoder();
+  const events = [
+    ...chunks.map((content) => ({ type: 'delta', content })),
+    failWith ? { type: 'error', error: failWith } : { type: 'done', usage: mockOpenAIResponse.usage },
+  ];
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for (const event of events) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        if (signal?.aborted) {
+          controller.error(new DOMException('The operation was aborted.', 'AbortError'));
+          return;
+        }
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(body, { headers: { 'content-type': 'text/event-stream' } });
+};
+
+// Rows with generated ids get a fresh one each time
+let nextMockId = 0;
+
+// Mock unbilled time line
+export const mockBillingLineItem = (overrides: Partial<BillingLineItem> = {}): BillingLineItem => ({
+  id: 'l1',
+  user_id: 'user-1',
+  client_id: 'client-1',
+  case_id: 'case-1',
+  invoice_id: null,
+  time_entry_id: null,
+  line_type: 'time',
+  line_date: '2024-03-04',
+  description: 'Draft motion',
+  quantity: 1,
+  rate: 300,
+  adjustment_amount: 0,
+  adjustment_reason: null,
+  utbms_task_code: null,
+  utbms_activity_code: null,
+  utbms_expense_code: null,
+  timekeeper_id: null,
+  timekeeper_name: null,
+  timekeeper_classification: null,
+  created_at: '2024-03-04T12:00:00Z',
+  updated_at: '2024-03-04T12:00:00Z',
+  ...overrides,
+});
+
+// Mock billable hour on a case
+export const mockTimeEntry = (overrides: Partial<TimeEntry> = {}): TimeEntry => ({
+  id: 'e1',
+  user_id: 'user-1',
+  case_id: 'case-1',
+  client_id: 'client-1',
+  description: '',
+  entry_date: '2024-03-04',
+  started_at: null,
+  ended_at: null,
+  duration_minutes: 60,
+  hours: 1,
+  billable: true,
+  rate: 300,
+  utbms_task_code: null,
+  utbms_activity_code: null,
+  source: 'manual',
+  created_at: '2024-03-04T12:00:00Z',
+  updated_at: '2024-03-04T12:00:00Z',
+  cases: { title: 'Smith v. Jones', case_type: 'litigation' },
+  ...overrides,
+});
+
+// Mock cleared retainer deposit
+export const mockTrustTransaction = (overrides: Partial<TrustTransaction> = {}): TrustTransaction => ({
+  id: `t${++nextMockId}`,
+  user_id: 'user-1',
+  account_id: 'acct-1',
+  client_id: 'client-a',
+  case_id: null,
+  transaction_type: 'deposit',
+  amount: 100,
+  transaction_date: '2024-03-05',
+  payee: null,
+  memo: 'Retainer',
+  reference: null,
+  cleared_date: '2024-03-06',
+  created_at: '2024-03-05T12:00:00Z',
+  updated_at: '2024-03-05T12:00:00Z',
+  clients: { name: 'Acme Corp' },
+  ...overrides,
+});
+
+// Mock model price
+export const mockAIModelPrice = (overrides: Partial<AIModelPrice> = {}): AIModelPrice => {
+  const price = {
+    provider: 'openai',
+    model: 'gpt-4o',
+    prompt_price_per_million: 2.5,
+    completion_price_per_million: 10,
+    effective_from: '2025-01-01',
+    ...overrides,
+  };
+  return { id: `${price.provider}-${price.model}-${price.effective_from}`, ...price };
+};
+
+// Mock completed chat request
+export const mockAIUsageRecord = (overrides: Partial<AIUsageRecord> = {}): AIUsageRecord => ({
+  id: `u${++nextMockId}`,
+  user_id: 'user-1',
+  case_id: null,
+  feature: 'chat',
+  provider: 'openai',
+  model: 'gpt-4o',
+  prompt_tokens: 1000,
+  completion_tokens: 500,
+  total_tokens: 1500,
+  estimated: false,
+  status: 'completed',
+  created_at: '2025-02-10T12:00:00Z',
+  cases: null,
+  ...overrides,
+});
+
+// Mock opposing party on an existing case
+export const mockConflictParty = (name: string, overrides: Partial<ConflictParty> = {}): ConflictParty => ({
+  name,
+  role: 'opposing_party',
+  sourceId: 'case-1',
+  sourceLabel: 'Doe v. Roe',
+  ...overrides,
+});
+
+// Mock retrieved document passage
+export const mockRetrievedPassage = (overrides: Partial<RetrievedPassage> = {}): RetrievedPassage => ({
+  marker: 'S1',
+  chunkId: `chunk-${overrides.marker ?? 'S1'}`,
+  caseId: 'case-1',
+  sourceType: 'document',
+  sourceId: 'doc-1',
+  title: 'Lease.pdf',
+  page: 3,
+  content: 'The tenant shall pay rent on the first of each month.',
+  similarity: 0.8,
+  url: 'https://files.example.com/lease.pdf',
+  ...overrides,
+});
+
+// Mock end-of-session learnings with nothing learned
+export const mockLearningsCandidate = (overrides: Partial<LearningsCandidate> = {}): LearningsCandidate => ({
+  observed_preferences: [],
+  corrections: [],
+  repeated_tasks: [],
+  failures_and_fixes: [],
+  suggestions_to_lock_in: [],
+  redact_notes: [],
+  ...overrides,
+});
+
+// Mock redaction settings, switched on with nothing listed
+export const mockRedactionConfig = (overrides: Partial<RedactionConfig> = {}): RedactionConfig => ({
+  enabled: true,
+  clientNames: [],
+  terms: [],
+  ...overrides,
+});
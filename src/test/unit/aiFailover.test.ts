@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  AIRequestError,
+  CircuitBreaker,
+  DEFAULT_RETRY_POLICY,
+  backoffDelay,
+  classifyFailure,
+  parseRetryAfter,
+} from '@/lib/aiFailover';
+import { AIService } from '@/lib/aiService';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    functions: {
+      invoke: vi.fn(),
+    },
+  },
+}));
+
+const rateLimited = (retryAfter?: string) => ({
+  data: null,
+  error: {
+    message: 'Edge Function returned a non-2xx status code',
+    context: { status: 429, headers: new Headers(retryAfter ? { 'Retry-After': retryAfter } : {}) },
+  },
+});
+
+const ok = (content: string) => ({ data: { content }, error: null });
+
+const providersCalled = (invoke: { mock: { calls: unknown[][] } }) =>
+  invoke.mock.calls.map(call => (call[1] as { body: { provider: string } }).body.provider);
+
+describe('aiFailover', () => {
+  describe('classifyFailure', () => {
+    it('should treat rate limits, timeouts and 5xx as transient', () => {
+      expect(classifyFailure(new AIRequestError('Edge function error', 429))).toBe('rate_limited');
+      expect(classifyFailure(new Error('Request timeout'))).toBe('timeout');
+      expect(classifyFailure(new AIRequestError('Edge function error', 503))).toBe('unavailable');
+      expect(classifyFailure(new AIRequestError('Authentication failed', 401))).toBe('fatal');
+    });
+  });
+
+  describe('backoffDelay', () => {
+    it('should double up to the cap and prefer Retry-After', () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 300 };
+      expect([1, 2, 3].map(retry => backoffDelay(retry, policy))).toEqual([100, 200, 300]);
+      expect(backoffDelay(1, policy, 2000)).toBe(2000);
+      expect(parseRetryAfter('3')).toBe(3000);
+      expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', Date.parse('2026-01-01T00:00:00Z'))).toBe(10000);
+    });
+  });
+
+  describe('CircuitBreaker', () => {
+    it('should open after the threshold and let one trial through after the cooldown', () => {
+      let now = 0;
+      const policy = { ...DEFAULT_RETRY_POLICY, failureThreshold: 2, cooldownMs: 1000 };
+      const breaker = new CircuitBreaker('openai', () => policy, () => now);
+
+      breaker.recordFailure('rate_limited');
+      expect(breaker.state).toBe('closed');
+      breaker.recordFailure('timeout');
+      expect(breaker.state).toBe('open');
+      expect(breaker.canRequest()).toBe(false);
+
+      now = 1000;
+      expect(breaker.state).toBe('half-open');
+      breaker.recordFailure('timeout');
+      expect(breaker.state).toBe('open');
+
+      now = 2000;
+      breaker.recordSuccess();
+      expect(breaker.health()).toMatchObject({ state: 'closed', consecutiveFailures: 0, retryAt: null });
+    });
+
+    it('should not count fatal errors', () => {
+      const breaker = new CircuitBreaker('openai', () => ({ ...DEFAULT_RETRY_POLICY, failureThreshold: 1 }));
+      breaker.recordFailure('fatal');
+      expect(breaker.state).toBe('closed');
+    });
+  });
+
+  describe('AIService failover', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      AIService.resetProviderHealth();
+      AIService.configureRetryPolicy({ ...DEFAULT_RETRY_POLICY, baseDelayMs: 0, maxRetryAfterMs: 50 });
+    });
+
+    const send = () => AIService.sendMessage([{ role: 'user', content: 'Test' }], 'openai', 'test-user');
+
+    it('should retry the same provider before failing over', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      const invoke = vi.mocked(supabase.functions.invoke);
+      invoke.mockResolvedValueOnce(rateLimited() as never).mockResolvedValueOnce(ok('Second try') as never);
+
+      const result = await send();
+
+      expect(result).toEqual({ response: 'Second try', provider: 'GPT-4' });
+      expect(providersCalled(invoke)).toEqual(['openai', 'openai']);
+    });
+
+    it('should fail over once the primary is exhausted', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      const invoke = vi.mocked(supabase.functions.invoke);
+      invoke
+        .mockResolvedValueOnce(rateLimited() as never)
+        .mockResolvedValueOnce(rateLimited() as never)
+        .mockResolvedValueOnce(ok('From Gemini') as never);
+
+      const result = await send();
+
+      expect(result).toEqual({ response: 'From Gemini', provider: 'Gemini Pro' });
+      const status = AIService.getServiceStatus();
+      expect(status.provider).toBe('Gemini Pro');
+      expect(status.providers.find(p => p.provider === 'openai')).toMatchObject({ consecutiveFailures: 2, available: false });
+    });
+
+    it('should fail over at once when Retry-After is too long to wait', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      const invoke = vi.mocked(supabase.functions.invoke);
+      invoke.mockResolvedValueOnce(rateLimited('60') as never).mockResolvedValueOnce(ok('From Gemini') as never);
+
+      const result = await send();
+
+      expect(result.provider).toBe('Gemini Pro');
+      expect(invoke).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip a provider whose breaker is open', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      const invoke = vi.mocked(supabase.functions.invoke);
+      AIService.configureRetryPolicy({ failureThreshold: 2 });
+      invoke
+        .mockResolvedValueOnce(rateLimited() as never)
+        .mockResolvedValueOnce(rateLimited() as never)
+        .mockResolvedValue(ok('From Gemini') as never);
+      await send();
+
+      invoke.mockClear();
+      const result = await send();
+
+      expect(result.provider).toBe('Gemini Pro');
+      expect(providersCalled(invoke)).toEqual(['gemini']);
+      expect(AIService.getServiceStatus().providers.find(p => p.provider === 'openai')?.state).toBe('open');
+    });
+
+    it('should not retry fatal errors or fail over from the local backend', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      const invoke = vi.mocked(supabase.functions.invoke);
+      invoke.mockResolvedValue({ data: null, error: { message: 'unauthorized', context: { status: 401 } } } as never);
+      await send();
+      expect(invoke).toHaveBeenCalledTimes(1);
+
+      invoke.mockClear();
+      invoke.mockResolvedValue(rateLimited() as never);
+      const result = await AIService.sendMessage([{ role: 'user', content: 'Privileged' }], 'local', 'test-user');
+
+      expect(result.error).toBe('RATE_LIMITED');
+      expect(providersCalled(invoke).every(provider => provider === 'local')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { AI_PROVIDERS, isAIProvider, providersFor } from '@/lib/aiProviders';
+
+describe('aiProviders', () => {
+  it('should only offer self-hosted backends for confidential work', () => {
+    expect(providersFor({ confidential: true }).map(provider => provider.id)).toEqual(['local']);
+  });
+
+  it('should filter on JSON mode and context window', () => {
+    expect(providersFor({ jsonMode: true }).map(provider => provider.id)).not.toContain('anthropic');
+    expect(providersFor({ minContextWindow: 150000 }).map(provider => provider.id)).toEqual(['anthropic']);
+    expect(providersFor()).toHaveLength(Object.keys(AI_PROVIDERS).length);
+  });
+
+  it('should recognise registered providers only', () => {
+    expect(isAIProvider('anthropic')).toBe(true);
+    expect(isAIProvider('stub')).toBe(false);
+    expect(isAIProvider('toString')).toBe(false);
+    expect(isAIProvider(undefined)).toBe(false);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { AIService, legalAiChat, type ChatMessage, type ChatRequest } from '@/lib/aiService';
-import { mockOpenAIMessages, mockOpenAIResponse } from '../mocks/mockData';
+import { AIService, legalAiChat, legalAiChatStream, type ChatMessage, type ChatRequest } from '@/lib/aiService';
+import { configureRedaction } from '@/lib/redaction';
+import { mockOpenAIMessages, mockOpenAIResponse, stubChatStream } from '../mocks/mockData';
 
 // Mock the supabase module
 vi.mock('@/lib/supabase', () => ({
@@ -8,12 +9,15 @@ vi.mock('@/lib/supabase', () => ({
     functions: {
       invoke: vi.fn(),
     },
+    from: vi.fn(() => ({ insert: vi.fn().mockResolvedValue({ error: null }) })),
   },
 }));
 
 describe('aiService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    AIService.resetProviderHealth();
+    AIService.configureRetryPolicy({ baseDelayMs: 0 });
   });
 
   describe('legalAiChat', () => {
@@ -103,6 +107,45 @@ describe('aiService', () => {
       expect(result.error).toBeUndefined();
     });
 
+    it('should let the local backend pick its own model', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({
+        data: mockOpenAIResponse,
+        error: null,
+      });
+
+      const result = await AIService.sendMessage([{ role: 'user', content: 'Test' }], 'local', 'test-user');
+
+      expect(result.provider).toBe('Local Model');
+      expect(vi.mocked(supabase.functions.invoke).mock.calls[0][1].body).toMatchObject({ provider: 'local', model: undefined });
+    });
+
+    it('should tag the request with its feature and matter for the usage ledger', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({
+        data: mockOpenAIResponse,
+        error: null,
+      });
+
+      await AIService.sendMessage([{ role: 'user', content: 'Test' }], 'openai', 'test-user', { feature: 'agent', caseId: 'case-1' });
+
+      expect(vi.mocked(supabase.functions.invoke).mock.calls[0][1].body).toMatchObject({ feature: 'agent', caseId: 'case-1' });
+    });
+
+    it('should report an exhausted plan quota without retrying', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({
+        data: null,
+        error: { message: 'Edge Function returned a non-2xx status code', context: { status: 402 } },
+      });
+
+      const result = await AIService.sendMessage([{ role: 'user', content: 'Test' }], 'openai', 'test-user');
+
+      expect(result.error).toBe('QUOTA_EXCEEDED');
+      expect(result.response).toContain('monthly AI allowance');
+      expect(supabase.functions.invoke).toHaveBeenCalledTimes(1);
+    });
+
     it('should handle rate limit errors', async () => {
       const { supabase } = await import('@/lib/supabase');
       vi.mocked(supabase.functions.invoke).mockRejectedValue(
@@ -219,4 +262,155 @@ describe('aiService', () => {
       expect(status.lastChecked).toBeInstanceOf(Date);
     });
   });
+
+  describe('legalAiChatStream', () => {
+    const request: ChatRequest = {
+      messages: mockOpenAIMessages as ChatMessage[],
+      provider: 'openai',
+    };
+
+    const collect = async (stream: AsyncIterable<unknown>) => {
+      const events = [];
+      for await (const event of stream) events.push(event);
+      return events;
+    };
+
+    it('should yield deltas as they arrive and finish with usage', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({
+        data: stubChatStream(['A motion ', 'to dismiss']),
+        error: null,
+      });
+
+      const events = await collect(legalAiChatStream(request));
+
+      expect(events).toEqual([
+        { type: 'delta', content: 'A motion ' },
+        { type: 'delta', content: 'to dismiss' },
+        { type: 'done', usage: mockOpenAIResponse.usage },
+      ]);
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('legal-ai-chat', {
+        body: { ...request, stream: true },
+        signal: undefined,
+      });
+    });
+
+    it('should throw when the provider fails mid-stream', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({
+        data: stubChatStream(['Partial'], { failWith: 'Rate limit exceeded' }),
+        error: null,
+      });
+
+      await expect(collect(legalAiChatStream(request))).rejects.toThrow('Rate limit exceeded');
+    });
+
+    it('should end quietly when aborted', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      const controller = new AbortController();
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({
+        data: stubChatStream(['one ', 'two ', 'three'], { signal: controller.signal }),
+        error: null,
+      });
+
+      const contents: string[] = [];
+      for await (const event of legalAiChatStream(request, { signal: controller.signal })) {
+        if (event.type === 'delta') contents.push(event.content);
+        controller.abort();
+      }
+
+      expect(contents).toEqual(['one ']);
+    });
+  });
+
+  describe('AIService.streamMessage', () => {
+    it('should report each delta and resolve with the full reply', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({
+        data: stubChatStream(['A motion ', 'to dismiss']),
+        error: null,
+      });
+      const onDelta = vi.fn();
+
+      const result = await AIService.streamMessage(
+        [{ role: 'user', content: 'Test' }],
+        'gemini',
+        'test-user',
+        onDelta
+      );
+
+      expect(onDelta.mock.calls).toEqual([['A motion '], ['to dismiss']]);
+      expect(result).toEqual({ response: 'A motion to dismiss', provider: 'Gemini Pro' });
+      expect(AIService.getServiceStatus().available).toBe(true);
+    });
+
+    it('should map stream failures like sendMessage', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({
+        data: stubChatStream([], { failWith: 'Rate limit exceeded' }),
+        error: null,
+      });
+
+      const result = await AIService.streamMessage([{ role: 'user', content: 'Test' }], 'openai', 'test-user', vi.fn());
+
+      expect(result.error).toBe('RATE_LIMITED');
+      expect(result.response).toContain('high volume');
+    });
+  });
+
+  describe('redaction', () => {
+    const request: ChatRequest = {
+      messages: [{ role: 'user', content: 'Draft a demand for Jane Roe, SSN 123-45-6789, of 42 Elm Street.' }],
+      provider: 'openai',
+      feature: 'chat',
+    };
+
+    beforeEach(() => {
+      configureRedaction({ clientNames: ['Jane Roe'], terms: [] });
+    });
+
+    it('should send placeholders and rehydrate the reply', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({
+        data: { content: 'Dear counsel, our client [CLIENT_1] of [ADDRESS_1] demands payment.' },
+        error: null,
+      });
+
+      const result = await legalAiChat(request);
+
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('legal-ai-chat', {
+        body: {
+          ...request,
+          messages: [{ role: 'user', content: 'Draft a demand for [CLIENT_1], SSN [SSN_1], of [ADDRESS_1].' }],
+        },
+      });
+      expect(result.content).toBe('Dear counsel, our client Jane Roe of 42 Elm Street demands payment.');
+      expect(supabase.from).toHaveBeenCalledWith('ai_redaction_log');
+    });
+
+    it('should rehydrate a placeholder split across stream deltas', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({
+        data: stubChatStream(['Our client [CLI', 'ENT_1', '] demands [SSN', '_2']),
+        error: null,
+      });
+
+      const contents: string[] = [];
+      for await (const event of legalAiChatStream(request)) {
+        if (event.type === 'delta') contents.push(event.content);
+      }
+
+      expect(contents).toEqual(['Our client ', 'Jane Roe demands ', '[SSN_2']);
+    });
+
+    it('should send requests to a self-hosted provider as written', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: { content: 'ok' }, error: null });
+
+      await legalAiChat({ ...request, provider: 'local' });
+
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('legal-ai-chat', { body: { ...request, provider: 'local' } });
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  costOf,
+  formatMatterCostCsv,
+  priceFor,
+  summarizeUsage,
+  updatePlanQuota,
+  usageTotals,
+  type AIModelPrice,
+} from '@/lib/aiUsage';
+import { mockAIModelPrice, mockAIUsageRecord, queryReturning } from '../mocks/mockData';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+const PRICES: AIModelPrice[] = [
+  mockAIModelPrice(),
+  mockAIModelPrice({ model: 'gpt-4o', prompt_price_per_million: 5, completion_price_per_million: 15, effective_from: '2024-06-01' }),
+  mockAIModelPrice({ model: 'gpt-4o-mini', prompt_price_per_million: 0.15, completion_price_per_million: 0.6 }),
+  mockAIModelPrice({ provider: 'local', model: '*', prompt_price_per_million: 0, completion_price_per_million: 0 }),
+];
+
+describe('aiUsage', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('priceFor', () => {
+    it('should use the latest price in effect on the day of the request', () => {
+      expect(priceFor(PRICES, 'openai', 'gpt-4o', '2025-02-10T12:00:00Z')?.prompt_price_per_million).toBe(2.5);
+      expect(priceFor(PRICES, 'openai', 'gpt-4o', '2024-12-31T23:00:00Z')?.prompt_price_per_million).toBe(5);
+      expect(priceFor(PRICES, 'openai', 'gpt-4o', '2024-01-01T00:00:00Z')).toBeNull();
+    });
+
+    it('should fall back to the provider wildcard for unlisted models', () => {
+      expect(priceFor(PRICES, 'local', 'llama3.1', '2025-02-10T12:00:00Z')?.model).toBe('*');
+      expect(priceFor(PRICES, 'gemini', 'gemini-pro', '2025-02-10T12:00:00Z')).toBeNull();
+    });
+  });
+
+  describe('costOf', () => {
+    it('should price prompt and completion tokens separately', () => {
+      // 1000 * 2.50 / 1M + 500 * 10 / 1M
+      expect(costOf(mockAIUsageRecord(), PRICES)).toBe(0.0075);
+      expect(costOf(mockAIUsageRecord({ model: 'gpt-4o-mini', prompt_tokens: 1_000_000, completion_tokens: 1_000_000 }), PRICES)).toBe(0.75);
+      expect(costOf(mockAIUsageRecord({ provider: 'gemini', model: 'gemini-pro' }), PRICES)).toBeNull();
+    });
+  });
+
+  describe('summarizeUsage', () => {
+    const records = [
+      mockAIUsageRecord({ case_id: 'case-1', cases: { title: 'Smith v. Jones', case_number: '24-cv-001' } }),
+      mockAIUsageRecord({ case_id: 'case-1', cases: { title: 'Smith v. Jones', case_number: '24-cv-001' }, feature: 'brief_generator', prompt_tokens: 10000, completion_tokens: 4000, total_tokens: 14000 }),
+      mockAIUsageRecord({ user_id: 'user-2', provider: 'local', model: 'llama3.1' }),
+      mockAIUsageRecord({ provider: 'gemini', model: 'gemini-pro', feature: 'document_analyzer' }),
+    ];
+
+    it('should roll usage up by matter, most expensive first', () => {
+      const rows = summarizeUsage(records, PRICES, 'case');
+
+      expect(rows.map(row => row.label)).toEqual(['24-cv-001 - Smith v. Jones', 'No matter']);
+      expect(rows[0]).toMatchObject({ requests: 2, promptTokens: 11000, completionTokens: 4500, totalTokens: 15500, cost: 0.0725, unpriced: 0 });
+      expect(rows[1]).toMatchObject({ requests: 2, cost: 0, unpriced: 1 });
+    });
+
+    it('should group by feature, user and model', () => {
+      expect(summarizeUsage(records, PRICES, 'feature').map(row => row.label)).toEqual(['Brief Generator', 'AI Chat', 'Document Analyzer']);
+      expect(summarizeUsage(records, PRICES, 'user').find(row => row.key === 'user-2')?.requests).toBe(1);
+      expect(summarizeUsage(records, PRICES, 'model').map(row => row.key)).toContain('local/llama3.1');
+    });
+
+    it('should total every record', () => {
+      expect(usageTotals(records, PRICES)).toEqual({
+        requests: 4,
+        promptTokens: 13000,
+        completionTokens: 5500,
+        totalTokens: 18500,
+        cost: 0.0725,
+        unpriced: 1,
+      });
+    });
+  });
+
+  describe('formatMatterCostCsv', () => {
+    it('should quote matter names containing commas', () => {
+      const csv = formatMatterCostCsv(summarizeUsage([mockAIUsageRecord({ case_id: 'c', cases: { title: 'Acme, Inc. v. Doe', case_number: null } })], PRICES, 'case'));
+
+      expect(csv.split('\n')).toEqual([
+        'Matter,Requests,Prompt Tokens,Completion Tokens,Total Tokens,Cost (USD)',
+        '"Acme, Inc. v. Doe",1,1000,500,1500,0.0075',
+      ]);
+    });
+  });
+
+  describe('updatePlanQuota', () => {
+    it('should reject negative and fractional quotas', async () => {
+      await expect(updatePlanQuota('basic', -1)).rejects.toThrow('whole number');
+      await expect(updatePlanQuota('basic', 10.5)).rejects.toThrow('whole number');
+    });
+
+    it('should store the plan name in lower case and null for unlimited', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      const upsert = queryReturning({ data: { plan_name: 'enterprise', monthly_token_limit: null }, error: null });
+      vi.mocked(supabase.from).mockReturnValueOnce(upsert as never);
+
+      await updatePlanQuota(' Enterprise ', null);
+
+      expect(upsert.upsert).toHaveBeenCalledWith({ plan_name: 'enterprise', monthly_token_limit: null });
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { APP_TABS, consumeReturnPath, parseAppPath, rememberReturnPath, tabPath } from '@/lib/appRoutes';
+
+describe('appRoutes', () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+  });
+
+  describe('tabPath', () => {
+    it('should put home at the root and entity ids after the tab', () => {
+      expect(tabPath('home')).toBe('/');
+      expect(tabPath('caselaw')).toBe('/caselaw');
+      expect(tabPath('case-management', 'abc 123')).toBe('/case-management/abc%20123');
+    });
+  });
+
+  describe('parseAppPath', () => {
+    it('should round-trip every tab', () => {
+      for (const tab of APP_TABS) {
+        expect(parseAppPath(tabPath(tab, 'id-1'))).toEqual({ tab, entityId: 'id-1' });
+        expect(parseAppPath(tabPath(tab))).toEqual({ tab, entityId: null });
+      }
+      expect(parseAppPath('/')).toEqual({ tab: 'home', entityId: null });
+    });
+
+    it('should open the tab without an entity for a malformed id', () => {
+      expect(parseAppPath('/cases/%E0%A4%A')).toEqual({ tab: 'cases', entityId: null });
+    });
+
+    it('should reject unknown tabs and deeper paths', () => {
+      expect(parseAppPath('/not-a-tab')).toBeNull();
+      expect(parseAppPath('/template-library/t1/extra')).toBeNull();
+    });
+  });
+
+  describe('return path', () => {
+    it('should return to the remembered view once', () => {
+      rememberReturnPath('/template-library/t1');
+      expect(consumeReturnPath()).toBe('/template-library/t1');
+      expect(consumeReturnPath()).toBe('/');
+    });
+
+    it('should ignore paths outside the app', () => {
+      rememberReturnPath('/auth/callback');
+      expect(consumeReturnPath()).toBe('/');
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assignBatesRanges,
+  buildDatLoadFile,
+  buildOptLoadFile,
+  buildProductionLog,
+  formatBatesNumber,
+  type ProductionItem,
+  type ProductionSummary,
+} from '@/lib/bates';
+
+const items: ProductionItem[] = [
+  { documentId: 'doc-1', fileName: 'Lease.pdf', pageCount: 3, native: false, hasText: true },
+  { documentId: 'doc-2', fileName: 'Rent Roll.xlsx', pageCount: 1, native: true, hasText: false },
+];
+
+const summary: ProductionSummary = { volume: 'PROD001', producedAt: '2025-01-30T15:00:00.000Z', confidentiality: 'confidential' };
+
+describe('bates', () => {
+  describe('formatBatesNumber', () => {
+    it('should zero-pad the number after the prefix', () => {
+      expect(formatBatesNumber('ACME', 42)).toBe('ACME000042');
+      expect(formatBatesNumber('ACME-', 7, 4)).toBe('ACME-0007');
+    });
+
+    it('should reject numbers wider than the padding', () => {
+      expect(() => formatBatesNumber('ACME', 10000, 4)).toThrow('does not fit in 4 digits');
+    });
+  });
+
+  describe('assignBatesRanges', () => {
+    it('should number pages consecutively across documents', () => {
+      const ranges = assignBatesRanges(items, { prefix: 'ACME', startNumber: 101 });
+
+      expect(ranges.map(range => [range.begin, range.end, range.pageCount])).toEqual([
+        ['ACME000101', 'ACME000103', 3],
+        ['ACME000104', 'ACME000104', 1],
+      ]);
+      expect(ranges[0].pages).toEqual(['ACME000101', 'ACME000102', 'ACME000103']);
+      expect(ranges[0].imagePaths[2]).toBe('IMAGES\\ACME000103.pdf');
+      expect(ranges[0].textPath).toBe('TEXT\\ACME000101.txt');
+      expect(ranges[1].nativePath).toBe('NATIVES\\ACME000104.xlsx');
+      expect(ranges[1].textPath).toBeNull();
+    });
+
+    it('should reject bad prefixes, starting numbers and empty documents', () => {
+      expect(() => assignBatesRanges(items, { prefix: 'AC ME', startNumber: 1 })).toThrow('prefix');
+      expect(() => assignBatesRanges(items, { prefix: 'ACME', startNumber: 0 })).toThrow('starting Bates number');
+      expect(() =>
+        assignBatesRanges([{ ...items[0], pageCount: 0 }], { prefix: 'ACME', startNumber: 1 })
+      ).toThrow('Lease.pdf has no pages');
+    });
+  });
+
+  describe('load files', () => {
+    const ranges = assignBatesRanges(items, { prefix: 'ACME', startNumber: 1 });
+
+    it('should write a Concordance DAT with þ quotes and DC4 delimiters', () => {
+      const rows = buildDatLoadFile(ranges, summary).split('\r\n');
+
+      expect(rows[0]).toBe(['BEGBATES', 'ENDBATES', 'PAGECOUNT', 'FILENAME', 'CONFIDENTIALITY', 'NATIVELINK', 'TEXTLINK'].map(field => `þ${field}þ`).join('\u0014'));
+      expect(rows[1].split('\u0014')).toEqual([
+        'þACME000001þ',
+        'þACME000003þ',
+        'þ3þ',
+        'þLease.pdfþ',
+        'þCONFIDENTIAL – SUBJECT TO PROTECTIVE ORDERþ',
+        'þþ',
+        'þ.\\TEXT\\ACME000001.txtþ',
+      ]);
+      expect(rows[2]).toContain('þ.\\NATIVES\\ACME000004.xlsxþ');
+      expect(rows[3]).toBe('');
+    });
+
+    it('should write an Opticon OPT row per page with document breaks', () => {
+      expect(buildOptLoadFile(ranges, summary).split('\r\n')).toEqual([
+        'ACME000001,PROD001,.\\IMAGES\\ACME000001.pdf,Y,,,3',
+        'ACME000002,PROD001,.\\IMAGES\\ACME000002.pdf,,,,',
+        'ACME000003,PROD001,.\\IMAGES\\ACME000003.pdf,,,,',
+        'ACME000004,PROD001,.\\IMAGES\\ACME000004.pdf,Y,,,1',
+        '',
+      ]);
+    });
+
+    it('should write a CSV production log', () => {
+      const rows = buildProductionLog(ranges, { ...summary, confidentiality: 'none' }).trim().split('\r\n');
+
+      expect(rows).toEqual([
+        'Volume,Produced,Begin Bates,End Bates,Pages,File Name,Confidentiality,Native',
+        'PROD001,2025-01-30,ACME000001,ACME000003,3,Lease.pdf,None,No',
+        'PROD001,2025-01-30,ACME000004,ACME000004,1,Rent Roll.xlsx,None,Yes',
+      ]);
+    });
+  });
+});
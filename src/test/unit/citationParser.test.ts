@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import {
+  abbreviateCourt,
+  extractCitations,
+  formatCaseCitation,
+  formatCitationSequence,
+  formatFullCitation,
+  formatShortCitation,
+  normalizeReporter,
+  parseCitation,
+} from '@/lib/citationParser';
+
+describe('citationParser', () => {
+  describe('parseCitation', () => {
+    it('should parse a Supreme Court case citation', () => {
+      expect(parseCitation('410 U.S. 113 (1973)')).toMatchObject({
+        type: 'case',
+        volume: '410',
+        reporter: 'U.S.',
+        page: '113',
+        year: 1973,
+      });
+    });
+
+    it('should parse the case name, pin cite and court', () => {
+      expect(parseCitation('Smith v. Jones, 123 F.3d 456, 460 (9th Cir. 1997).')).toMatchObject({
+        caseName: 'Smith v. Jones',
+        volume: '123',
+        reporter: 'F.3d',
+        page: '456',
+        pinCite: '460',
+        court: '9th Cir.',
+        year: 1997,
+      });
+    });
+
+    it('should normalize reporter spacing and punctuation', () => {
+      expect(parseCitation('100 F Supp 2d 200 (S.D.N.Y. 2000)')?.reporter).toBe('F. Supp. 2d');
+      expect(parseCitation('5 S.Ct. 10')?.reporter).toBe('S. Ct.');
+    });
+
+    it('should keep a nominative reporter', () => {
+      expect(parseCitation('5 U.S. (1 Cranch) 137 (1803)')).toMatchObject({
+        volume: '5',
+        nominativeReporter: '1 Cranch',
+        page: '137',
+      });
+    });
+
+    it('should parse a federal rule with subdivisions', () => {
+      expect(parseCitation('Fed. R. Civ. P. 12(b)(6)')).toMatchObject({
+        type: 'rule',
+        code: 'Fed. R. Civ. P.',
+        section: '12',
+        pinCite: '(b)(6)',
+      });
+      expect(parseCitation('FRE 702')).toMatchObject({ code: 'Fed. R. Evid.', section: '702' });
+    });
+
+    it('should parse a U.S. Code section', () => {
+      expect(parseCitation('42 U.S.C. § 1983')).toMatchObject({
+        type: 'statute',
+        volume: '42',
+        code: 'U.S.C.',
+        section: '1983',
+      });
+      expect(parseCitation('28 USC 1331 (2018)')).toMatchObject({ section: '1331', year: 2018 });
+    });
+
+    it('should parse Id. with a pin cite', () => {
+      expect(parseCitation('Id. at 120')).toMatchObject({ type: 'id', pinCite: '120' });
+    });
+
+    it('should return null for text that is not a citation', () => {
+      expect(parseCitation('the court held')).toBeNull();
+      expect(parseCitation('[1893] 1 Q.B. 256')).toBeNull();
+    });
+  });
+
+  describe('extractCitations', () => {
+    it('should find citations in running text in reading order', () => {
+      const text = 'See *Roe v. Wade*, 410 U.S. 113, 153 (1973); 42 U.S.C. § 1983. Dismissal under Fed. R. Civ. P. 12(b)(6) follows. Id.';
+      const found = extractCitations(text);
+
+      expect(found.map(match => match.citation.type)).toEqual(['case', 'statute', 'rule', 'id']);
+      expect(found[0].citation).toMatchObject({ caseName: 'Roe v. Wade', pinCite: '153', year: 1973 });
+      expect(text.slice(found[1].start, found[1].end)).toBe('42 U.S.C. § 1983');
+    });
+
+    it('should leave transition words out of case names', () => {
+      const found = extractCitations('However, Smith v. Jones, 123 F.3d 456 (9th Cir. 1999). Later, Doe v. Roe, 50 F.3d 12 (2d Cir. 1995).');
+
+      expect(found.map(match => match.citation.caseName)).toEqual(['Smith v. Jones', 'Doe v. Roe']);
+      expect(parseCitation('However, Smith v. Jones, 123 F.3d 456 (9th Cir. 1999)')?.caseName).toBe('Smith v. Jones');
+    });
+
+    it('should not treat ordinary numbers as citations', () => {
+      expect(extractCitations('The plaintiff paid 300 dollars on 12 occasions in 2019.')).toEqual([]);
+    });
+  });
+
+  describe('normalizeReporter', () => {
+    it('should recognize variant abbreviations', () => {
+      expect(normalizeReporter('Fed. Appx.')?.abbreviation).toBe("F. App'x");
+      expect(normalizeReporter('Unknown Rptr.')).toBeUndefined();
+    });
+  });
+
+  describe('abbreviateCourt', () => {
+    it('should abbreviate federal courts', () => {
+      expect(abbreviateCourt('United States Court of Appeals for the Ninth Circuit')).toBe('9th Cir.');
+      expect(abbreviateCourt('Court of Appeals for the Second Circuit')).toBe('2d Cir.');
+      expect(abbreviateCourt('United States District Court for the Southern District of New York')).toBe('S.D.N.Y.');
+      expect(abbreviateCourt('United States District Court for the Northern District of California')).toBe('N.D. Cal.');
+      expect(abbreviateCourt('Supreme Court of the United States')).toBe('');
+    });
+  });
+
+  describe('formatFullCitation', () => {
+    it('should leave the court out for reporters that only cover one court', () => {
+      const cite = parseCitation('Roe v. Wade, 410 U.S. 113 (U.S. 1973)')!;
+      expect(formatFullCitation(cite)).toBe('Roe v. Wade, 410 U.S. 113 (1973)');
+    });
+
+    it('should use the ALWD reporter abbreviation where it differs', () => {
+      const cite = parseCitation("Doe v. Roe, 50 F. App'x 12 (3d Cir. 2002)")!;
+      expect(formatFullCitation(cite, 'bluebook')).toBe("Doe v. Roe, 50 F. App'x 12 (3d Cir. 2002)");
+      expect(formatFullCitation(cite, 'alwd')).toBe('Doe v. Roe, 50 Fed. Appx. 12 (3d Cir. 2002)');
+    });
+
+    it('should format statutes with the section symbol', () => {
+      expect(formatFullCitation(parseCitation('42 USC 1983')!)).toBe('42 U.S.C. § 1983');
+    });
+
+    it('should keep the double section symbol for a range of sections', () => {
+      expect(formatFullCitation(parseCitation('28 U.S.C. §§ 1331-1332')!)).toBe('28 U.S.C. §§ 1331-1332');
+      expect(formatShortCitation(parseCitation('28 USC 1331-1332')!)).toBe('§§ 1331-1332');
+      expect(formatFullCitation(parseCitation('15 U.S.C. § 78j-1')!)).toBe('15 U.S.C. § 78j-1');
+    });
+  });
+
+  describe('formatShortCitation', () => {
+    it('should use the first party and a pin cite', () => {
+      const cite = parseCitation('Roe v. Wade, 410 U.S. 113 (1973)')!;
+      expect(formatShortCitation(cite, 'bluebook', '153')).toBe('Roe, 410 U.S. at 153');
+    });
+
+    it('should not shorten a case name to a government party', () => {
+      const cite = parseCitation('United States v. Lopez, 514 U.S. 549 (1995)')!;
+      expect(formatShortCitation(cite, 'bluebook', '567')).toBe('Lopez, 514 U.S. at 567');
+    });
+  });
+
+  describe('formatCitationSequence', () => {
+    it('should use full, Id. and short forms in document order', () => {
+      const cites = [
+        'Roe v. Wade, 410 U.S. 113, 120 (1973)',
+        'Id.',
+        'Id. at 153',
+        '42 U.S.C. § 1983',
+        '410 U.S. 113, 160',
+        '42 U.S.C. § 1983',
+      ].map(text => parseCitation(text)!);
+
+      expect(formatCitationSequence(cites)).toEqual([
+        'Roe v. Wade, 410 U.S. 113, 120 (1973)',
+        'Id.',
+        'Id. at 153',
+        '42 U.S.C. § 1983',
+        'Roe, 410 U.S. at 160',
+        '§ 1983',
+      ]);
+    });
+  });
+
+  describe('formatCaseCitation', () => {
+    it('should build a citation from a search result', () => {
+      expect(formatCaseCitation({
+        title: 'Smith v. Jones',
+        citation: '123 F.3d 456',
+        court: 'United States Court of Appeals for the Ninth Circuit',
+        date: '1997-01-01',
+      })).toBe('Smith v. Jones, 123 F.3d 456 (9th Cir. 1997)');
+    });
+
+    it('should fall back to the title and citation when the citation cannot be parsed', () => {
+      expect(formatCaseCitation({ title: 'Donoghue v. Stevenson', citation: '[1932] A.C. 562' }))
+        .toBe('Donoghue v. Stevenson, [1932] A.C. 562');
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { verifyCitations } from '@/lib/citationVerification';
+import { CacheService } from '@/lib/cacheService';
+import type { CitationLookupResult, CourtListenerTransport } from '@/lib/courtListener';
+
+const lookupResult = (
+  citation: string,
+  status: number,
+  clusters: Array<{ case_name: string; date_filed: string }> = []
+): CitationLookupResult => ({
+  citation,
+  normalized_citations: [citation],
+  start_index: 0,
+  end_index: citation.length,
+  status,
+  error_message: '',
+  clusters: clusters.map((cluster, index) => ({ id: index + 1, absolute_url: `/opinion/${index + 1}/x/`, ...cluster })),
+});
+
+const transportReturning = (results: CitationLookupResult[]) =>
+  vi.fn<CourtListenerTransport>().mockResolvedValue(
+    new Response(JSON.stringify(results), { status: 200, headers: { 'Content-Type': 'application/json' } })
+  );
+
+describe('citationVerification', () => {
+  beforeEach(() => {
+    CacheService.clearAll();
+    vi.stubEnv('VITE_COURTLISTENER_API_TOKEN', 'test-token');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe('verifyCitations', () => {
+    it('should mark a citation that matches name and year as verified', async () => {
+      const transport = transportReturning([
+        lookupResult('410 U.S. 113', 200, [{ case_name: 'Roe v. Wade', date_filed: '1973-01-22' }]),
+      ]);
+
+      const [result] = await verifyCitations('See Roe v. Wade, 410 U.S. 113 (1973).', { transport });
+
+      expect(result.status).toBe('verified');
+      expect(result.match?.url).toBe('https://www.courtlistener.com/opinion/1/x/');
+    });
+
+    it('should post the citations to the citation lookup endpoint', async () => {
+      const transport = transportReturning([]);
+      await verifyCitations('Roe v. Wade, 410 U.S. 113 (1973).', { transport });
+
+      const [url, init] = transport.mock.calls[0];
+      expect(url).toBe('https://www.courtlistener.com/api/rest/v4/citation-lookup/');
+      expect(init.method).toBe('POST');
+      expect(String(init.body)).toContain('text=410+U.S.+113');
+      expect((init.headers as Record<string, string>).Authorization).toBe('Token test-token');
+    });
+
+    it('should mark citations CourtListener cannot find', async () => {
+      const transport = transportReturning([lookupResult('999 F.3d 1', 404)]);
+      const [result] = await verifyCitations('Fake v. Case, 999 F.3d 1 (9th Cir. 2021).', { transport });
+      expect(result.status).toBe('not-found');
+    });
+
+    it('should leave a rate-limited citation unchecked rather than call it not found', async () => {
+      const transport = transportReturning([lookupResult('410 U.S. 113', 429)]);
+
+      const [result] = await verifyCitations('Roe v. Wade, 410 U.S. 113 (1973).', { transport });
+
+      expect(result.status).toBe('unchecked');
+      expect(result.message).toContain('not looked up');
+    });
+
+    it('should explain an unrecognized reporter with no clusters', async () => {
+      const unknown = { ...lookupResult('123 F.3d 456', 400), error_message: 'Unable to find reporter F.3d.' };
+      const transport = transportReturning([unknown]);
+
+      const [result] = await verifyCitations('Smith v. Jones, 123 F.3d 456 (9th Cir. 1999).', { transport });
+
+      expect(result).toMatchObject({ status: 'not-found', message: 'Unable to find reporter F.3d.' });
+    });
+
+    it('should leave a citation unchecked when no lookup result can be matched to it', async () => {
+      const stray = { ...lookupResult('410 U.S. 113', 200, [{ case_name: 'Roe v. Wade', date_filed: '1973-01-22' }]), start_index: 500 };
+      const transport = transportReturning([stray]);
+
+      const [result] = await verifyCitations('Smith v. Jones, 123 F.3d 456 (9th Cir. 1999).', { transport });
+
+      expect(result.status).toBe('unchecked');
+    });
+
+    it('should match a result by where it was found when its citation is normalized differently', async () => {
+      const transport = transportReturning([
+        { ...lookupResult('123 F.3d 456', 200, [{ case_name: 'Smith v. Jones', date_filed: '1999-05-01' }]), citation: '123 F. 3d 456', normalized_citations: ['123 F.3rd 456'] },
+      ]);
+
+      const [result] = await verifyCitations('Smith v. Jones, 123 F.3d 456 (9th Cir. 1999).', { transport });
+
+      expect(result.status).toBe('verified');
+    });
+
+    it('should flag a citation that belongs to a different case', async () => {
+      const transport = transportReturning([
+        lookupResult('410 U.S. 113', 200, [{ case_name: 'Roe v. Wade', date_filed: '1973-01-22' }]),
+      ]);
+
+      const [result] = await verifyCitations('Smith v. Jones, 410 U.S. 113 (1973).', { transport });
+
+      expect(result.status).toBe('name-mismatch');
+      expect(result.message).toContain('Roe v. Wade');
+    });
+
+    it('should flag a citation with the wrong year', async () => {
+      const transport = transportReturning([
+        lookupResult('410 U.S. 113', 200, [{ case_name: 'Jane Roe, et al. v. Henry Wade', date_filed: '1973-01-22' }]),
+      ]);
+
+      const [result] = await verifyCitations('Roe v. Wade, 410 U.S. 113 (1975).', { transport });
+
+      expect(result.status).toBe('year-mismatch');
+    });
+
+    it('should look each case up once and annotate short forms', async () => {
+      const transport = transportReturning([
+        lookupResult('410 U.S. 113', 200, [{ case_name: 'Roe v. Wade', date_filed: '1973-01-22' }]),
+      ]);
+      const text = 'Roe v. Wade, 410 U.S. 113 (1973). Later, Roe, 410 U.S. at 153.';
+
+      const results = await verifyCitations(text, { transport });
+
+      expect(transport).toHaveBeenCalledTimes(1);
+      expect(results).toHaveLength(2);
+      expect(text.slice(results[1].start, results[1].end)).toBe('Roe, 410 U.S. at 153');
+      expect(results.every(result => result.status === 'verified')).toBe(true);
+    });
+
+    it('should report citations as unchecked when the lookup fails', async () => {
+      const transport = vi.fn<CourtListenerTransport>().mockResolvedValue(new Response('slow down', { status: 429 }));
+      const [result] = await verifyCitations('Roe v. Wade, 410 U.S. 113 (1973).', { transport });
+
+      expect(result.status).toBe('unchecked');
+      expect(result.message).toContain('Rate limit');
+    });
+
+    it('should not call CourtListener when the text has no case citations', async () => {
+      const transport = transportReturning([]);
+      expect(await verifyCitations('Dismissal is proper under Fed. R. Civ. P. 12(b)(6).', { transport })).toEqual([]);
+      expect(transport).not.toHaveBeenCalled();
+    });
+  });
+});
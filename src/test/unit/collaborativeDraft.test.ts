@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as Y from 'yjs';
+import {
+  DraftSyncProvider,
+  InMemorySyncNetwork,
+  applyTextChange,
+  canEditRole,
+  cursorPosition,
+  draftText,
+  fromBase64,
+  presentCollaborators,
+  readDraftFields,
+  remoteCursors,
+  seedDraftState,
+  setDraftField,
+  toBase64,
+  type CollaborationRole,
+} from '@/lib/collaborativeDraft';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: { from: vi.fn(), channel: vi.fn(), removeChannel: vi.fn() },
+}));
+
+const seed = seedDraftState({ content: 'COMES NOW Plaintiff.', caseTitle: 'Smith v. Acme', caseNumber: '1:24-cv-1' });
+const providers: DraftSyncProvider[] = [];
+
+const joinDraft = (network: InMemorySyncNetwork, role: CollaborationRole = 'editor', state: Uint8Array = seed) => {
+  const doc = new Y.Doc();
+  Y.applyUpdate(doc, state);
+  const transport = network.transport();
+  const provider = new DraftSyncProvider(doc, transport, { canEdit: canEditRole(role) });
+  provider.awareness.setLocalState({ user: { id: `user-${doc.clientID}`, name: `User ${doc.clientID}`, color: '#000' }, role, cursor: null });
+  providers.push(provider);
+  return { doc, text: draftText(doc), provider, transport };
+};
+
+describe('collaborativeDraft', () => {
+  afterEach(() => {
+    providers.splice(0).forEach(provider => provider.destroy());
+  });
+
+  it('should relay edits between editors as they type', () => {
+    const network = new InMemorySyncNetwork();
+    const alice = joinDraft(network);
+    const bob = joinDraft(network);
+
+    applyTextChange(alice.text, 'COMES NOW Plaintiff, by counsel.');
+    setDraftField(bob.doc, 'caseNumber', '1:24-cv-2');
+
+    expect(readDraftFields(bob.doc).content).toBe('COMES NOW Plaintiff, by counsel.');
+    expect(readDraftFields(alice.doc)).toEqual(readDraftFields(bob.doc));
+    expect(readDraftFields(alice.doc).caseNumber).toBe('1:24-cv-2');
+  });
+
+  it('should not duplicate the text when two people seed the same draft', () => {
+    const network = new InMemorySyncNetwork();
+    const alice = joinDraft(network);
+    const bob = joinDraft(network);
+
+    expect(alice.text.toString()).toBe('COMES NOW Plaintiff.');
+    expect(bob.text.toString()).toBe('COMES NOW Plaintiff.');
+  });
+
+  it('should bring a late joiner up to date', () => {
+    const network = new InMemorySyncNetwork();
+    const alice = joinDraft(network);
+    applyTextChange(alice.text, 'COMES NOW Plaintiff Jane Smith.');
+
+    const bob = joinDraft(network);
+
+    expect(bob.text.toString()).toBe('COMES NOW Plaintiff Jane Smith.');
+  });
+
+  it('should merge edits made offline on both sides when reconnecting', () => {
+    const network = new InMemorySyncNetwork();
+    const alice = joinDraft(network);
+    const bob = joinDraft(network);
+
+    bob.transport.setOnline(false);
+    applyTextChange(alice.text, 'COMES NOW Plaintiff, by counsel.');
+    applyTextChange(bob.text, 'NOW COMES Plaintiff.\n\nI. INTRODUCTION');
+    expect(bob.text.toString()).toBe('NOW COMES Plaintiff.\n\nI. INTRODUCTION');
+
+    bob.transport.setOnline(true);
+
+    expect(alice.text.toString()).toBe(bob.text.toString());
+    expect(alice.text.toString()).toContain('by counsel');
+    expect(alice.text.toString()).toContain('I. INTRODUCTION');
+  });
+
+  it('should not let a viewer change the shared draft', () => {
+    const network = new InMemorySyncNetwork();
+    const alice = joinDraft(network);
+    const viewer = joinDraft(network, 'viewer');
+
+    applyTextChange(viewer.text, 'Vandalized');
+    applyTextChange(alice.text, 'COMES NOW Plaintiff, by counsel.');
+
+    expect(alice.text.toString()).toBe('COMES NOW Plaintiff, by counsel.');
+    // The viewer still receives edits, and has nothing to give an editor who joins later
+    const bob = joinDraft(network);
+    expect(bob.text.toString()).not.toContain('Vandalized');
+    expect(canEditRole('viewer')).toBe(false);
+    expect(canEditRole('member')).toBe(true);
+    expect(canEditRole(null)).toBe(false);
+  });
+
+  it('should show who is present and where their cursor is', () => {
+    const network = new InMemorySyncNetwork();
+    const alice = joinDraft(network);
+    const bob = joinDraft(network, 'viewer');
+
+    alice.provider.awareness.setLocalStateField('cursor', cursorPosition(alice.doc, 5, 5));
+    applyTextChange(alice.text, '>> COMES NOW Plaintiff.');
+
+    expect(presentCollaborators(bob.provider.awareness, bob.doc)).toEqual([
+      expect.objectContaining({ clientId: alice.doc.clientID, role: 'editor' }),
+    ]);
+    // The cursor was anchored to the text, so it moved with the insertion before it
+    expect(remoteCursors(bob.provider.awareness, bob.doc)).toEqual([
+      expect.objectContaining({ clientId: alice.doc.clientID, anchor: 8, head: 8 }),
+    ]);
+    expect(presentCollaborators(alice.provider.awareness, alice.doc)).toEqual([
+      expect.objectContaining({ clientId: bob.doc.clientID, role: 'viewer' }),
+    ]);
+  });
+
+  it('should drop others from presence when they leave or the connection drops', () => {
+    const network = new InMemorySyncNetwork();
+    const alice = joinDraft(network);
+    const bob = joinDraft(network);
+    const carol = joinDraft(network);
+
+    providers.splice(providers.indexOf(bob.provider), 1);
+    bob.provider.destroy();
+    expect(presentCollaborators(alice.provider.awareness, alice.doc).map(c => c.clientId)).toEqual([carol.doc.clientID]);
+
+    alice.transport.setOnline(false);
+    expect(presentCollaborators(alice.provider.awareness, alice.doc)).toEqual([]);
+  });
+
+  it('should apply an edit as the smallest change to the text', () => {
+    const doc = new Y.Doc();
+    const text = draftText(doc);
+    text.insert(0, 'The quick fox');
+    const changes: unknown[] = [];
+    text.observe(event => changes.push(event.delta));
+
+    applyTextChange(text, 'The quick brown fox');
+    applyTextChange(text, 'The quick brown fox');
+
+    expect(text.toString()).toBe('The quick brown fox');
+    expect(changes).toEqual([[{ retain: 10 }, { insert: 'brown ' }]]);
+  });
+
+  it('should round-trip binary state through base64', () => {
+    const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+
+    expect(Array.from(fromBase64(toBase64(bytes)))).toEqual([0, 1, 127, 128, 255]);
+    expect(Array.from(fromBase64(toBase64(seed)))).toEqual(Array.from(seed));
+  });
+});
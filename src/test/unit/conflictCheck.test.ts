@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createWithConflictDecision,
+  findConflicts,
+  indexDocumentParties,
+  nameSimilarity,
+  normalizeName,
+  runConflictCheck,
+  type ConflictReport,
+} from '@/lib/conflictCheck';
+import { mockConflictParty, mockQueries, queryReturning } from '../mocks/mockData';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+}));
+
+describe('conflictCheck', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('normalizeName', () => {
+    it('should drop corporate suffixes and punctuation', () => {
+      expect(normalizeName('Acme Corp.')).toBe('acme');
+      expect(normalizeName('ACME, Inc.')).toBe('acme');
+      expect(normalizeName('Baker & McKenzie L.L.P.')).toBe('baker mckenzie');
+      expect(normalizeName('Wells Fargo Bank, N.A.')).toBe('bank fargo wells');
+    });
+
+    it('should expand nicknames and ignore word order', () => {
+      expect(normalizeName('Smith, Bob')).toBe(normalizeName('Robert Smith'));
+      expect(normalizeName('Bill Gates Jr.')).toBe(normalizeName('William Gates'));
+    });
+
+    it('should transliterate accented and non-ASCII letters', () => {
+      expect(normalizeName('José Álvarez')).toBe(normalizeName('Jose Alvarez'));
+      expect(normalizeName('Straße GmbH')).toBe('strasse');
+      expect(normalizeName('Mohammed Al-Rashid')).toBe(normalizeName('Muhammad Al Rashid'));
+    });
+  });
+
+  describe('nameSimilarity', () => {
+    it('should score spelling variants highly', () => {
+      expect(nameSimilarity('Jon Smyth', 'John Smith')).toBeGreaterThan(0.86);
+      expect(nameSimilarity('Acme', 'Acme Holdings LLC')).toBeGreaterThan(0.93);
+    });
+
+    it('should keep people who only share a surname apart', () => {
+      expect(nameSimilarity('John Smith', 'Jane Smith')).toBeLessThan(0.86);
+      expect(nameSimilarity('Brown Industries', 'Green Industries')).toBeLessThan(0.86);
+    });
+  });
+
+  describe('findConflicts', () => {
+    it('should classify hits and sort the strongest first', () => {
+      const hits = findConflicts(['Robert Jones', 'Acme'], [
+        mockConflictParty('Acme Holdings LLC'),
+        mockConflictParty('Bob Jones', { role: 'client', sourceId: 'client-1' }),
+        mockConflictParty('Jane Doe'),
+      ]);
+
+      expect(hits.map(hit => [hit.party.name, hit.matchType])).toEqual([
+        ['Bob Jones', 'exact'],
+        ['Acme Holdings LLC', 'strong'],
+      ]);
+    });
+  });
+
+  describe('runConflictCheck', () => {
+    it('should index clients, opposing parties and counsel, and document parties', async () => {
+      const clients = queryReturning({ data: [{ id: 'client-1', name: 'Globex Corporation' }], error: null });
+      const cases = queryReturning({
+        data: [{ id: 'case-1', title: 'Doe v. Initech', client_id: 'client-2', opposing_party: 'Initech, Inc.', opposing_counsel: 'Dewey Cheatem LLP' }],
+        error: null,
+      });
+      const parties = queryReturning({ data: [{ id: 'p1', name: 'Hooli LLC', case_id: null, source_label: 'Supply Agreement' }], error: null });
+      await mockQueries(clients, cases, parties);
+
+      const report = await runConflictCheck('user-1', ['Initech', 'Globex', 'Hooli', ' ']);
+
+      expect(report.searchedNames).toEqual(['Initech', 'Globex', 'Hooli']);
+      expect(report.hits.map(hit => [hit.searchedName, hit.party.role, hit.party.sourceLabel])).toEqual([
+        ['Initech', 'opposing_party', 'Doe v. Initech'],
+        ['Globex', 'client', 'Globex Corporation'],
+        ['Hooli', 'document_party', 'Supply Agreement'],
+      ]);
+      expect(cases.eq).toHaveBeenCalledWith('attorney_id', 'user-1');
+    });
+
+    it('should not load the index when there is nothing to check', async () => {
+      const from = await mockQueries();
+      const report = await runConflictCheck('user-1', ['', '  ']);
+      expect(report.hits).toEqual([]);
+      expect(from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('indexDocumentParties', () => {
+    it('should store each distinct party once', async () => {
+      const upsert = queryReturning({ data: null, error: null });
+      await mockQueries(upsert);
+
+      await indexDocumentParties('user-1', ['Acme Corp.', 'ACME, Inc.', 'Jane Doe'], { sourceLabel: 'Master Services Agreement' });
+
+      const rows = upsert.upsert.mock.calls[0][0];
+      expect(rows.map((row: { name: string; normalized_name: string }) => [row.name, row.normalized_name])).toEqual([
+        ['Acme Corp.', 'acme'],
+        ['Jane Doe', 'doe jane'],
+      ]);
+    });
+  });
+
+  describe('createWithConflictDecision', () => {
+    const report: ConflictReport = {
+      searchedNames: ['Initech'],
+      hits: [{ searchedName: 'Initech', party: mockConflictParty('Initech, Inc.'), score: 1, matchType: 'exact' }],
+      checkedAt: '2024-03-01T00:00:00Z',
+    };
+
+    it('should require notes to clear or waive hits', async () => {
+      const { supabase } = await import('@/lib/supabase');
+
+      await expect(createWithConflictDecision(report, { subjectType: 'client', decision: 'waived' }, { first_name: 'Jane' }))
+        .rejects.toThrow('Explain why');
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should create the subject and its audit record in one call', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: 'case-9', error: null } as never);
+
+      const id = await createWithConflictDecision(
+        report,
+        { subjectType: 'case', decision: 'waived', notes: ' Written informed consent from both clients ' },
+        { title: 'Smith v. Initech', opposing_party: 'Initech' }
+      );
+
+      expect(id).toBe('case-9');
+      expect(supabase.rpc).toHaveBeenCalledWith('create_with_conflict_check', {
+        p_subject_type: 'case',
+        p_subject: { title: 'Smith v. Initech', opposing_party: 'Initech' },
+        p_check: {
+          searched_names: ['Initech'],
+          hits: report.hits,
+          decision: 'waived',
+          notes: 'Written informed consent from both clients',
+        },
+      });
+    });
+
+    it('should surface a failed write so the subject is not reported as created', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: null, error: { message: 'permission denied for table conflict_checks' } } as never);
+
+      await expect(createWithConflictDecision({ ...report, hits: [] }, { subjectType: 'client', decision: 'cleared' }, { first_name: 'Jane' }))
+        .rejects.toThrow('permission denied');
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCourtClosure,
+  getCourtHoliday,
+  getCourtHolidays,
+  isCourtDay,
+  nextCourtDay,
+  STATE_JURISDICTIONS,
+} from '@/lib/courtHolidays';
+
+const dates = (year: number, jurisdiction?: string) => getCourtHolidays(year, jurisdiction).map(h => h.date);
+
+describe('courtHolidays', () => {
+  describe('getCourtHolidays', () => {
+    it('should include floating Monday and Thursday federal holidays', () => {
+      const holidays = dates(2024);
+      expect(holidays).toContain('2024-01-15'); // MLK Day
+      expect(holidays).toContain('2024-05-27'); // Memorial Day
+      expect(holidays).toContain('2024-11-28'); // Thanksgiving
+    });
+
+    it('should observe a Sunday holiday on the following Monday', () => {
+      expect(dates(2022)).toContain('2022-06-20');
+    });
+
+    it('should observe a Saturday New Year on December 31 of the prior year', () => {
+      expect(dates(2021)).toContain('2021-12-31');
+      expect(dates(2022)).not.toContain('2021-12-31');
+    });
+
+    it('should return holidays in date order', () => {
+      const holidays = dates(2024);
+      expect(holidays).toEqual([...holidays].sort());
+    });
+
+    it('should add state-specific court holidays', () => {
+      expect(dates(2025, 'CA')).toContain('2025-03-31'); // Cesar Chavez Day
+      expect(dates(2025, 'MA')).toContain('2025-04-21'); // Patriots' Day
+      expect(dates(2025, 'LA')).toContain('2025-03-04'); // Mardi Gras
+      expect(dates(2025, 'TX')).toContain('2025-11-28'); // Day after Thanksgiving
+    });
+
+    it('should omit federal holidays a state does not observe', () => {
+      expect(dates(2025, 'TX')).not.toContain('2025-10-13'); // Columbus Day
+      expect(dates(2025, 'CA')).toContain('2025-10-13');
+    });
+
+    it('should only add general election day in even years where configured', () => {
+      expect(dates(2024, 'MT')).toContain('2024-11-05');
+      expect(dates(2025, 'MT')).not.toContain('2025-11-04');
+      expect(dates(2025, 'NY')).toContain('2025-11-04');
+    });
+
+    it('should accept lowercase state codes', () => {
+      expect(dates(2025, 'ca')).toContain('2025-03-31');
+    });
+
+    it('should throw for an unknown jurisdiction', () => {
+      expect(() => getCourtHolidays(2025, 'ZZ')).toThrow('No court holiday calendar');
+    });
+  });
+
+  describe('STATE_JURISDICTIONS', () => {
+    it('should cover all 50 states and DC', () => {
+      expect(STATE_JURISDICTIONS).toHaveLength(51);
+      expect(STATE_JURISDICTIONS).toContainEqual({ code: 'DC', name: 'District of Columbia' });
+    });
+  });
+
+  describe('getCourtHoliday', () => {
+    it('should check every jurisdiction given', () => {
+      const cesarChavez = new Date(2025, 2, 31);
+      expect(getCourtHoliday(cesarChavez)).toBeNull();
+      expect(getCourtHoliday(cesarChavez, ['federal', 'CA'])).toMatchObject({
+        name: 'Cesar Chavez Day',
+        jurisdiction: 'CA',
+      });
+    });
+  });
+
+  describe('getCourtClosure', () => {
+    it('should report weekends', () => {
+      expect(getCourtClosure(new Date(2025, 2, 29))).toEqual({ reason: 'weekend', name: 'Saturday' });
+    });
+
+    it('should report holidays by name', () => {
+      expect(getCourtClosure(new Date(2025, 6, 4))).toMatchObject({ reason: 'holiday', name: 'Independence Day' });
+    });
+
+    it('should return null on a court day', () => {
+      expect(getCourtClosure(new Date(2025, 6, 7))).toBeNull();
+      expect(isCourtDay(new Date(2025, 6, 7))).toBe(true);
+    });
+  });
+
+  describe('nextCourtDay', () => {
+    it('should skip a holiday weekend', () => {
+      // Saturday before Labor Day 2025 rolls to Tuesday
+      expect(nextCourtDay(new Date(2025, 7, 30)).toDateString()).toBe(new Date(2025, 8, 2).toDateString());
+    });
+
+    it('should return the same date when courts are open', () => {
+      const date = new Date(2025, 8, 3);
+      expect(nextCourtDay(date)).toBe(date);
+    });
+  });
+});
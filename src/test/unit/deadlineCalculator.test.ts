@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  calculateDeadlines,
+  computePeriodEnd,
+  getDeadlineRules,
+  holidayJurisdictionsFor,
+  saveCalculatedDeadlines,
+} from '@/lib/deadlineCalculator';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+const dueDateFor = (deadlines: ReturnType<typeof calculateDeadlines>, ruleId: string) =>
+  deadlines.find(d => d.ruleId === ruleId)?.dueDate;
+
+describe('deadlineCalculator', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('computePeriodEnd', () => {
+    it('should exclude the trigger day and count calendar days', () => {
+      const { dueDate, rolledForward } = computePeriodEnd('2024-03-01', 21);
+      expect(dueDate.toDateString()).toBe(new Date(2024, 2, 22).toDateString());
+      expect(rolledForward).toBe(false);
+    });
+
+    it('should roll a weekend last day forward to Monday', () => {
+      const { dueDate, rolledForward } = computePeriodEnd('2024-03-02', 21);
+      expect(dueDate.toDateString()).toBe(new Date(2024, 2, 25).toDateString());
+      expect(rolledForward).toBe(true);
+    });
+
+    it('should roll a holiday last day forward to the next court day', () => {
+      const { dueDate } = computePeriodEnd('2024-05-06', 21);
+      expect(dueDate.toDateString()).toBe(new Date(2024, 4, 28).toDateString());
+    });
+
+    it('should only roll over state holidays when that state is included', () => {
+      expect(computePeriodEnd('2025-03-10', 21).dueDate.toDateString())
+        .toBe(new Date(2025, 2, 31).toDateString());
+      expect(computePeriodEnd('2025-03-10', 21, ['federal', 'CA']).dueDate.toDateString())
+        .toBe(new Date(2025, 3, 1).toDateString());
+    });
+  });
+
+  describe('calculateDeadlines', () => {
+    it('should calculate the answer deadline from service of the complaint', () => {
+      const deadlines = calculateDeadlines({
+        triggerEvent: 'service-of-complaint',
+        triggerDate: '2024-03-01',
+        jurisdiction: 'federal',
+        serviceMethod: 'personal',
+      });
+
+      expect(dueDateFor(deadlines, 'frcp-12a-answer')).toBe('2024-03-22');
+    });
+
+    it('should not add mail days to periods running from Rule 4 service', () => {
+      const deadlines = calculateDeadlines({
+        triggerEvent: 'service-of-complaint',
+        triggerDate: '2024-03-01',
+        jurisdiction: 'federal',
+        serviceMethod: 'mail',
+      });
+
+      const answer = deadlines.find(d => d.ruleId === 'frcp-12a-answer');
+      expect(answer?.dueDate).toBe('2024-03-22');
+      expect(answer?.serviceDaysAdded).toBe(0);
+    });
+
+    it('should add 3 days for mail service after the 6(a) period ends', () => {
+      const deadlines = calculateDeadlines({
+        triggerEvent: 'motion-filed',
+        triggerDate: '2024-03-01',
+        jurisdiction: 'federal',
+        serviceMethod: 'mail',
+      });
+
+      const opposition = deadlines.find(d => d.ruleId === 'frcp-motion-opposition');
+      expect(opposition?.dueDate).toBe('2024-03-18');
+      expect(opposition?.serviceDaysAdded).toBe(3);
+    });
+
+    it('should not add days for electronic service', () => {
+      const deadlines = calculateDeadlines({
+        triggerEvent: 'motion-filed',
+        triggerDate: '2024-03-01',
+        jurisdiction: 'federal',
+        serviceMethod: 'electronic',
+      });
+
+      expect(dueDateFor(deadlines, 'frcp-motion-opposition')).toBe('2024-03-15');
+    });
+
+    it('should roll forward again when the mail days end on a weekend', () => {
+      const deadlines = calculateDeadlines({
+        triggerEvent: 'motion-filed',
+        triggerDate: '2024-03-06',
+        jurisdiction: 'federal',
+        serviceMethod: 'mail',
+      });
+
+      const opposition = deadlines.find(d => d.ruleId === 'frcp-motion-opposition');
+      expect(opposition?.dueDate).toBe('2024-03-25');
+      expect(opposition?.rolledForward).toBe(true);
+    });
+
+    it('should move a notice of appeal due on Independence Day', () => {
+      const deadlines = calculateDeadlines({
+        triggerEvent: 'entry-of-judgment',
+        triggerDate: '2024-06-04',
+        jurisdiction: 'federal',
+        serviceMethod: 'electronic',
+      });
+
+      expect(dueDateFor(deadlines, 'frap-4a-notice-of-appeal')).toBe('2024-07-05');
+    });
+
+    it('should treat holidays of the state where the district court sits as closures', () => {
+      const deadlines = calculateDeadlines({
+        triggerEvent: 'service-of-complaint',
+        triggerDate: '2025-03-10',
+        jurisdiction: 'federal',
+        serviceMethod: 'personal',
+        courtState: 'CA',
+      });
+
+      expect(dueDateFor(deadlines, 'frcp-12a-answer')).toBe('2025-04-01');
+    });
+
+    it('should return deadlines sorted by due date', () => {
+      const deadlines = calculateDeadlines({
+        triggerEvent: 'entry-of-judgment',
+        triggerDate: '2024-06-04',
+        jurisdiction: 'federal',
+        serviceMethod: 'electronic',
+      });
+
+      const dates = deadlines.map(d => d.dueDate);
+      expect(dates).toEqual([...dates].sort());
+    });
+
+    it('should throw for an invalid trigger date', () => {
+      expect(() =>
+        calculateDeadlines({
+          triggerEvent: 'motion-filed',
+          triggerDate: 'not-a-date',
+          jurisdiction: 'federal',
+          serviceMethod: 'personal',
+        })
+      ).toThrow('Invalid trigger date');
+    });
+  });
+
+  describe('getDeadlineRules', () => {
+    it('should throw for an unsupported jurisdiction', () => {
+      expect(() => getDeadlineRules('motion-filed', 'state' as never)).toThrow('No deadline rules');
+    });
+  });
+
+  describe('saveCalculatedDeadlines', () => {
+    it('should insert deadlines linked to the case', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      const select = vi.fn().mockResolvedValue({ data: [{ id: 'd1' }], error: null });
+      const insert = vi.fn().mockReturnValue({ select });
+      vi.mocked(supabase.from).mockReturnValue({ insert } as never);
+
+      const input = {
+        triggerEvent: 'motion-filed' as const,
+        triggerDate: '2024-03-01',
+        jurisdiction: 'federal' as const,
+        serviceMethod: 'mail' as const,
+      };
+      await saveCalculatedDeadlines('case-1', 'user-1', input, calculateDeadlines(input));
+
+      expect(supabase.from).toHaveBeenCalledWith('deadlines');
+      const rows = insert.mock.calls[0][0];
+      expect(rows[0]).toMatchObject({
+        case_id: 'case-1',
+        user_id: 'user-1',
+        due_date: '2024-03-18',
+        source: 'rule',
+        service_method: 'mail',
+      });
+    });
+
+    it('should require a case', async () => {
+      await expect(saveCalculatedDeadlines('', 'user-1', {
+        triggerEvent: 'motion-filed',
+        triggerDate: '2024-03-01',
+        jurisdiction: 'federal',
+        serviceMethod: 'mail',
+      }, [])).rejects.toThrow('A case is required');
+    });
+  });
+
+  describe('holidayJurisdictionsFor', () => {
+    it('should read the state calendar back from a saved jurisdiction', () => {
+      expect(holidayJurisdictionsFor('federal:CA')).toEqual(['federal', 'CA']);
+      expect(holidayJurisdictionsFor('federal')).toEqual(['federal']);
+      expect(holidayJurisdictionsFor(null)).toEqual(['federal']);
+    });
+  });
+});
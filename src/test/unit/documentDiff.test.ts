@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { compareDocuments, compareDocumentsInWorker, formatChangesForReview, groupChanges, type DiffSegment } from '@/lib/documentDiff';
+
+// Rebuild either version from a redline
+const side = (segments: DiffSegment[], version: 'original' | 'revised') =>
+  segments
+    .filter(segment => segment.type === 'equal' || segment.type === (version === 'original' ? 'delete' : 'insert'))
+    .map(segment => segment.text)
+    .join('');
+
+describe('documentDiff', () => {
+  describe('compareDocuments', () => {
+    it('should mark replaced words', () => {
+      const { segments } = compareDocuments('Tenant shall pay rent within 10 days.', 'Tenant shall pay rent within 30 days.');
+
+      expect(segments).toEqual([
+        { type: 'equal', text: 'Tenant shall pay rent within ' },
+        { type: 'delete', text: '10' },
+        { type: 'insert', text: '30' },
+        { type: 'equal', text: ' days.' },
+      ]);
+    });
+
+    it('should rebuild both versions from the redline', () => {
+      const original = 'The Seller shall deliver the Goods by June 1.\n\nPayment is due on delivery. Seller warrants title.';
+      const revised = 'The Seller may deliver the Goods by July 15.\n\nPayment is due thirty days after delivery. Buyer waives all warranties.';
+
+      const { segments } = compareDocuments(original, revised);
+
+      expect(side(segments, 'original')).toBe(original);
+      expect(side(segments, 'revised')).toBe(revised);
+    });
+
+    it('should find no changes between identical versions', () => {
+      const text = 'Governing law: the State of New York.';
+
+      expect(compareDocuments(text, text)).toEqual({ segments: [{ type: 'equal', text }], changes: [] });
+    });
+
+    it('should ignore a change of spacing within a paragraph', () => {
+      expect(compareDocuments('Net  30 days', 'Net 30 days').changes).toEqual([]);
+    });
+
+    it('should handle a version that is empty', () => {
+      expect(compareDocuments('', 'New clause.').segments).toEqual([{ type: 'insert', text: 'New clause.' }]);
+    });
+
+    it('should compare long, entirely rewritten versions', () => {
+      const original = Array.from({ length: 3000 }, (_, i) => `alpha${i}`).join(' ');
+      const revised = Array.from({ length: 3000 }, (_, i) => `beta${i}`).join(' ');
+
+      const { segments } = compareDocuments(original, revised);
+
+      expect(side(segments, 'original')).toBe(original);
+      expect(side(segments, 'revised')).toBe(revised);
+      // No word survives; only the spaces between them are shared
+      expect(segments.filter(segment => segment.type === 'equal').every(segment => !segment.text.trim())).toBe(true);
+    });
+
+    it('should compare in place where workers are unavailable', async () => {
+      expect(await compareDocumentsInWorker('Net 10 days', 'Net 30 days')).toEqual(compareDocuments('Net 10 days', 'Net 30 days'));
+    });
+  });
+
+  describe('groupChanges', () => {
+    it('should number changes and keep the words before each one', () => {
+      const { changes } = compareDocuments(
+        'Licensee shall indemnify Licensor against all claims. This Agreement is governed by Delaware law.',
+        'Licensee shall indemnify Licensor against third-party claims. This agreement is governed by New York law.'
+      );
+
+      expect(changes).toEqual([
+        { id: 1, deleted: 'all', inserted: 'third-party', context: 'Licensee shall indemnify Licensor against', formattingOnly: false },
+        { id: 2, deleted: 'Agreement', inserted: 'agreement', context: 'Licensee shall indemnify Licensor against third-party claims. This', formattingOnly: true },
+        { id: 3, deleted: 'Delaware', inserted: 'New York', context: 'against third-party claims. This agreement is governed by', formattingOnly: false },
+      ]);
+    });
+
+    it('should treat a deletion and insertion split by a space as one change', () => {
+      const changes = groupChanges([
+        { type: 'equal', text: 'within ' },
+        { type: 'delete', text: 'ten' },
+        { type: 'equal', text: ' ' },
+        { type: 'insert', text: 'thirty' },
+        { type: 'equal', text: ' days' },
+      ]);
+
+      expect(changes).toEqual([{ id: 1, deleted: 'ten', inserted: 'thirty', context: 'within', formattingOnly: false }]);
+    });
+  });
+
+  describe('formatChangesForReview', () => {
+    it('should list each change on its own line', () => {
+      const { changes } = compareDocuments('Pay in 10 days.', 'Pay promptly in 10 business days.');
+
+      expect(formatChangesForReview(changes)).toBe(
+        '#1 after "…Pay" inserted "promptly"\n#2 after "…Pay promptly in 10" inserted "business"'
+      );
+    });
+  });
+});
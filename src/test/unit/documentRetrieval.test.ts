@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  chunkPages,
+  citedPassages,
+  contentHash,
+  formatPassageContext,
+  passageHref,
+  passageLabel,
+  retrievePassages,
+  retrieveForConversation,
+  splitPages,
+  splitSourceMarkers,
+  syncDocumentIndex,
+  withRetrievedPassages,
+} from '@/lib/documentRetrieval';
+import type { ChatMessage } from '@/lib/aiService';
+import { configureRedaction } from '@/lib/redaction';
+import { mockRetrievedPassage, queryReturning } from '../mocks/mockData';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    functions: {
+      invoke: vi.fn(),
+    },
+  },
+}));
+
+describe('documentRetrieval', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('splitPages', () => {
+    it('should number pages separated by form feeds and drop blank ones', () => {
+      expect(splitPages('first\fsecond\f  \fthird')).toEqual([
+        { page: 1, text: 'first' },
+        { page: 2, text: 'second' },
+        { page: 4, text: 'third' },
+      ]);
+    });
+
+    it('should leave text without page breaks unnumbered', () => {
+      expect(splitPages('just text')).toEqual([{ page: null, text: 'just text' }]);
+      expect(splitPages('   ')).toEqual([]);
+    });
+  });
+
+  describe('chunkPages', () => {
+    const paragraph = (n: number) => `Paragraph ${n} ` + 'word '.repeat(40).trim() + '.';
+
+    it('should pack whole paragraphs into one chunk when they fit', () => {
+      const chunks = chunkPages([{ page: 1, text: 'One.\n\nTwo.\n\nThree.' }]);
+
+      expect(chunks).toEqual([{ chunkIndex: 0, page: 1, content: 'One.\n\nTwo.\n\nThree.' }]);
+    });
+
+    it('should never let a chunk span pages', () => {
+      const chunks = chunkPages([
+        { page: 1, text: 'Page one text.' },
+        { page: 2, text: 'Page two text.' },
+      ]);
+
+      expect(chunks.map(chunk => [chunk.chunkIndex, chunk.page, chunk.content])).toEqual([
+        [0, 1, 'Page one text.'],
+        [1, 2, 'Page two text.'],
+      ]);
+    });
+
+    it('should keep chunks under the size limit and overlap consecutive chunks', () => {
+      const text = Array.from({ length: 12 }, (_, i) => paragraph(i + 1)).join('\n\n');
+      const chunks = chunkPages([{ page: 5, text }], { maxChars: 600, overlapChars: 100 });
+
+      expect(chunks.length).toBeGreaterThan(2);
+      for (const chunk of chunks) {
+        expect(chunk.content.length).toBeLessThanOrEqual(600);
+        expect(chunk.page).toBe(5);
+      }
+      for (let i = 1; i < chunks.length; i++) {
+        const previousEnd = chunks[i - 1].content.slice(-40);
+        expect(chunks[i].content.slice(0, 100)).toContain(previousEnd.slice(previousEnd.indexOf(' ') + 1));
+      }
+      expect(chunks.map(chunk => chunk.content).join(' ')).toContain('Paragraph 12');
+    });
+
+    it('should split an oversized paragraph at sentence boundaries', () => {
+      const sentence = 'The court held that the clause was enforceable. ';
+      const chunks = chunkPages([{ page: null, text: sentence.repeat(60) }], { maxChars: 500, overlapChars: 0 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk.content.length).toBeLessThanOrEqual(500);
+        expect(chunk.content.endsWith('.')).toBe(true);
+      }
+    });
+  });
+
+  describe('contentHash', () => {
+    it('should be stable for the same text and differ for edits', () => {
+      expect(contentHash('The quick brown fox')).toBe(contentHash('The quick brown fox'));
+      expect(contentHash('The quick brown fox')).not.toBe(contentHash('The quick brown fix'));
+      expect(contentHash('abc')).toMatch(/^[0-9a-f]{8}-3$/);
+    });
+  });
+
+  describe('passage labels', () => {
+    it('should name the page and link to it', () => {
+      expect(passageLabel(mockRetrievedPassage())).toBe('Lease.pdf, p. 3');
+      expect(passageHref(mockRetrievedPassage())).toBe('https://files.example.com/lease.pdf#page=3');
+      expect(passageLabel(mockRetrievedPassage({ page: null }))).toBe('Lease.pdf');
+      expect(passageHref(mockRetrievedPassage({ url: null }))).toBeNull();
+    });
+  });
+
+  describe('formatPassageContext', () => {
+    it('should list passages with their markers within the budget', () => {
+      const passages = [
+        mockRetrievedPassage({ marker: 'S1' }),
+        mockRetrievedPassage({ marker: 'S2', content: 'x'.repeat(500) }),
+      ];
+
+      const full = formatPassageContext(passages);
+      expect(full).toContain('[S1] Lease.pdf, p. 3\nThe tenant shall pay rent');
+      expect(full).toContain('[S2]');
+
+      const trimmed = formatPassageContext(passages, 600);
+      expect(trimmed).toContain('[S1]');
+      expect(trimmed).not.toContain('[S2]');
+      expect(trimmed.length).toBeLessThanOrEqual(600);
+    });
+  });
+
+  describe('withRetrievedPassages', () => {
+    const conversation: ChatMessage[] = [
+      { role: 'system', content: 'You are helpful.' },
+      { role: 'user', content: 'When is rent due?' },
+      { role: 'assistant', content: 'Which lease?' },
+      { role: 'user', content: 'The Main Street lease.' },
+    ];
+
+    it('should put the passages right before the latest question', () => {
+      const messages = withRetrievedPassages(conversation, [mockRetrievedPassage()]);
+
+      expect(messages).toHaveLength(5);
+      expect(messages[0]).toEqual(conversation[0]);
+      expect(messages[3].role).toBe('user');
+      expect(messages[3].content).toContain('[S1] Lease.pdf, p. 3');
+      expect(messages[4]).toEqual(conversation[3]);
+    });
+
+    it('should leave the conversation alone without passages', () => {
+      expect(withRetrievedPassages(conversation, [])).toBe(conversation);
+    });
+  });
+
+  describe('source markers', () => {
+    const passages = [mockRetrievedPassage({ marker: 'S1' }), mockRetrievedPassage({ marker: 'S2', sourceId: 'doc-2', title: 'Notice.pdf' })];
+
+    it('should split an answer around markers that match a passage', () => {
+      const segments = splitSourceMarkers('Rent is due on the 1st [S2]. See also [S9] and [S1].', passages);
+
+      expect(segments).toEqual([
+        'Rent is due on the 1st ',
+        { marker: 'S2', passage: passages[1] },
+        '. See also [S9] and ',
+        { marker: 'S1', passage: passages[0] },
+        '.',
+      ]);
+    });
+
+    it('should list cited passages once, in the order first cited', () => {
+      expect(citedPassages('[S2] then [S1] then [S2] again', passages)).toEqual([passages[1], passages[0]]);
+      expect(citedPassages('No citations here.', passages)).toEqual([]);
+    });
+  });
+
+  describe('retrievePassages', () => {
+    it('should search within the case and number passages in rank order', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      const { marker: _, ...first } = mockRetrievedPassage({ chunkId: 'a' });
+      const { marker: __, ...second } = mockRetrievedPassage({ chunkId: 'b', page: 7 });
+      vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({ data: { passages: [first, second] }, error: null } as never);
+
+      const passages = await retrievePassages('When is rent due?', { caseId: 'case-1' });
+
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('document-rag', expect.objectContaining({
+        body: { op: 'search', query: 'When is rent due?', caseId: 'case-1', limit: 5, redaction: expect.objectContaining({ enabled: true }) },
+      }));
+      expect(passages.map(p => [p.marker, p.chunkId])).toEqual([['S1', 'a'], ['S2', 'b']]);
+    });
+
+    it('should answer without documents when retrieval fails', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({ data: null, error: new Error('Embedding request failed') } as never);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const passages = await retrieveForConversation([{ role: 'user', content: 'When is rent due?' }]);
+
+      expect(passages).toEqual([]);
+    });
+  });
+
+  describe('syncDocumentIndex', () => {
+    it('should embed only sources whose text changed since they were indexed', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      const unchangedText = 'Page one\fPage two';
+      const tables: Record<string, unknown[]> = {
+        documents: [
+          { id: 'doc-1', filename: 'Lease.pdf', extracted_text: unchangedText, case_id: 'case-1', storage_path: 'u/lease.pdf' },
+          { id: 'doc-2', filename: 'Notice.pdf', extracted_text: 'A new notice', case_id: 'case-1' },
+          { id: 'doc-3', filename: 'Scan.pdf', extracted_text: null, case_id: 'case-1' },
+        ],
+        uploaded_documents: [],
+        document_analyses: [],
+        document_chunks: [
+          { source_type: 'document', source_id: 'doc-1', content_hash: contentHash(unchangedText) },
+        ],
+      };
+      vi.mocked(supabase.from).mockImplementation(((table: string) => queryReturning({ data: tables[table], error: null })) as never);
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: { indexed: 1 }, error: null } as never);
+      configureRedaction({ clientNames: ['Jane Smith'] });
+
+      const result = await syncDocumentIndex('user-1', { caseId: 'case-1' });
+      configureRedaction({ clientNames: [] });
+
+      expect(result).toEqual({ indexed: 1, unchanged: 1, failed: 0 });
+      expect(supabase.functions.invoke).toHaveBeenCalledTimes(1);
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('document-rag', {
+        body: expect.objectContaining({
+          op: 'index',
+          sourceType: 'document',
+          sourceId: 'doc-2',
+          title: 'Notice.pdf',
+          chunks: [{ chunkIndex: 0, page: null, content: 'A new notice' }],
+        }),
+      });
+      // The edge function reads the case and file path from the source row itself
+      const body = vi.mocked(supabase.functions.invoke).mock.calls[0][1].body;
+      expect(body).not.toHaveProperty('sourcePath');
+      expect(body).not.toHaveProperty('caseId');
+      // The text is redacted where it is embedded, with the same settings as chat
+      expect(body).toHaveProperty('redaction', { enabled: true, clientNames: ['Jane Smith'], terms: [] });
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { draftFieldsOf, draftTitle, saveDraft } from '@/lib/draftService';
+import type { DocumentVersion } from '@/lib/versionHistory';
+import { supabase } from '@/lib/supabase';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+const savedDraft = (draft: Record<string, unknown>) =>
+  vi.mocked(supabase.rpc).mockResolvedValue({
+    data: { draft, version: { version_number: 3, metadata: {} } },
+    error: null,
+  } as never);
+
+const author = { id: 'user-1', name: 'Jane Smith' };
+const fields = { motionType: 'Motion to Dismiss', caseTitle: 'Smith v. Acme', caseNumber: '1:24-cv-1', content: 'COMES NOW' };
+
+describe('draftService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should create the draft on first save together with its version', async () => {
+    savedDraft({ id: 'draft-1', current_version: 3 });
+
+    const { draft, version } = await saveDraft(author, { id: null, ...fields });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('save_draft', {
+      p_draft_id: null,
+      p_draft: expect.objectContaining({ title: 'Motion to Dismiss – Smith v. Acme', content: 'COMES NOW' }),
+      p_version: { author_name: 'Jane Smith', metadata: expect.objectContaining({ caseNumber: '1:24-cv-1' }) },
+      p_restored_from: null,
+    });
+    // The draft and its version are written by the one call, never separately
+    expect(supabase.from).not.toHaveBeenCalled();
+    expect(draft.current_version).toBe(3);
+    expect(version).toMatchObject({ version_number: 3, milestones: [] });
+  });
+
+  it('should update an existing draft and pass the restored version on', async () => {
+    savedDraft({ id: 'draft-1', current_version: 3 });
+
+    await saveDraft(author, { id: 'draft-1', ...fields, crdtState: null }, { restoredFrom: 1 });
+
+    const params = vi.mocked(supabase.rpc).mock.calls[0][1] as Record<string, Record<string, unknown>>;
+    expect(params.p_draft_id).toBe('draft-1');
+    expect(params.p_restored_from).toBe(1);
+    // Saving someone else's shared draft must not take it over
+    expect(params.p_draft).not.toHaveProperty('user_id');
+    // Fields that weren't given are left as they are
+    expect(params.p_draft).not.toHaveProperty('collaboration_id');
+    expect(params.p_draft).toHaveProperty('crdt_state', null);
+  });
+
+  it('should fail the save when the draft or its version cannot be written', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValue({ data: null, error: { message: 'Draft not found, or you cannot edit it' } } as never);
+
+    await expect(saveDraft(author, { id: 'draft-1', ...fields })).rejects.toThrow('cannot edit it');
+  });
+
+  it('should read the case fields back from a version', () => {
+    const version = { content: 'text', metadata: { caseTitle: 'Smith v. Acme' } } as unknown as DocumentVersion;
+
+    expect(draftFieldsOf(version)).toEqual({ caseTitle: 'Smith v. Acme', caseNumber: '', content: 'text' });
+    expect(draftTitle({ motionType: 'Motion to Compel', caseTitle: ' ' })).toBe('Motion to Compel');
+  });
+});
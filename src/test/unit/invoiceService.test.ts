@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  calculateInvoiceTotals,
+  createDraftInvoice,
+  createLineItem,
+  importTimeEntries,
+  lineItemAmount,
+  nextInvoiceNumber,
+  updateInvoiceStatus,
+  writeDownLineItem,
+} from '@/lib/invoiceService';
+import { mockBillingLineItem, mockQueries, queryReturning } from '../mocks/mockData';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+}));
+
+describe('invoiceService', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('calculateInvoiceTotals', () => {
+    it('should total fees, expenses and write-downs', () => {
+      const totals = calculateInvoiceTotals([
+        mockBillingLineItem({ quantity: 1.3, rate: 350, adjustment_amount: -45.5 }),
+        mockBillingLineItem({ line_type: 'fee', quantity: 1, rate: 500 }),
+        mockBillingLineItem({ line_type: 'expense', quantity: 120, rate: 0.15 }),
+      ]);
+
+      expect(totals).toEqual({ fees: 955, expenses: 18, subtotal: 973, adjustments: -45.5, total: 927.5 });
+    });
+  });
+
+  describe('lineItemAmount', () => {
+    it('should apply the write-down to the line', () => {
+      expect(lineItemAmount(mockBillingLineItem({ quantity: 2, rate: 250, adjustment_amount: -100 }))).toBe(400);
+    });
+  });
+
+  describe('createLineItem', () => {
+    it('should insert an expense with its UTBMS expense code', async () => {
+      const insert = queryReturning({ data: { id: 'l1' }, error: null });
+      await mockQueries(insert);
+
+      await createLineItem('user-1', {
+        clientId: 'client-1',
+        lineType: 'expense',
+        lineDate: '2024-03-05',
+        description: 'Filing fee',
+        rate: 405,
+        utbmsExpenseCode: 'E112',
+      });
+
+      expect(insert.insert.mock.calls[0][0]).toMatchObject({
+        client_id: 'client-1',
+        line_type: 'expense',
+        line_date: '2024-03-05',
+        quantity: 1,
+        rate: 405,
+        utbms_expense_code: 'E112',
+      });
+    });
+
+    it('should reject unknown expense codes and missing descriptions', async () => {
+      await expect(createLineItem('user-1', {
+        clientId: 'client-1', lineType: 'expense', description: 'Copies', rate: 1, utbmsExpenseCode: 'E999',
+      })).rejects.toThrow('expense code');
+      await expect(createLineItem('user-1', {
+        clientId: 'client-1', lineType: 'fee', description: ' ', rate: 1,
+      })).rejects.toThrow('description');
+    });
+  });
+
+  describe('importTimeEntries', () => {
+    it('should create time lines only for finished entries without a line', async () => {
+      const entries = queryReturning({
+        data: [
+          { id: 't1', source: 'manual', ended_at: null, hours: 1.5, rate: 300, entry_date: '2024-03-04', case_id: 'case-1', description: 'Research', utbms_task_code: 'L120', utbms_activity_code: 'A102' },
+          { id: 't2', source: 'manual', ended_at: null, hours: 0.5, rate: 300, entry_date: '2024-03-05', case_id: 'case-1', description: 'Call', utbms_task_code: null, utbms_activity_code: 'A106' },
+          { id: 't3', source: 'timer', ended_at: null, hours: 0, rate: 300, entry_date: '2024-03-05', case_id: 'case-1', description: 'Running' },
+        ],
+        error: null,
+      });
+      const existing = queryReturning({ data: [{ time_entry_id: 't2' }], error: null });
+      const insert = queryReturning({ data: [{ id: 'l1' }], error: null });
+      await mockQueries(entries, existing, insert);
+
+      await importTimeEntries('user-1', { clientId: 'client-1' }, { id: 'JD', name: 'Jane Doe', classification: 'PT' });
+
+      const rows = insert.insert.mock.calls[0][0];
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({
+        time_entry_id: 't1',
+        line_type: 'time',
+        quantity: 1.5,
+        rate: 300,
+        utbms_task_code: 'L120',
+        utbms_activity_code: 'A102',
+        timekeeper_name: 'Jane Doe',
+        timekeeper_classification: 'PT',
+      });
+    });
+  });
+
+  describe('nextInvoiceNumber', () => {
+    it('should continue the sequence for the year', async () => {
+      await mockQueries(queryReturning({ data: [{ invoice_number: 'INV-2024-0002' }, { invoice_number: 'INV-2024-0009' }], error: null }));
+      expect(await nextInvoiceNumber('user-1', new Date(2024, 5, 1))).toBe('INV-2024-0010');
+    });
+  });
+
+  describe('createDraftInvoice', () => {
+    it('should create the draft and claim its unbilled lines in one call', async () => {
+      const unbilled = queryReturning({
+        data: [
+          mockBillingLineItem({ id: 'a', line_date: '2024-02-28' }),
+          mockBillingLineItem({ id: 'b', line_date: '2024-03-04', quantity: 2 }),
+          mockBillingLineItem({ id: 'c', line_date: '2024-03-20', line_type: 'expense', quantity: 1, rate: 50 }),
+        ],
+        error: null,
+      });
+      const numbers = queryReturning({ data: [], error: null });
+      const reload = queryReturning({
+        data: {
+          id: 'inv-1',
+          invoice_number: 'INV-2024-0001',
+          amount: 650,
+          billing_line_items: [mockBillingLineItem({ id: 'c', line_date: '2024-03-20' }), mockBillingLineItem({ id: 'b', line_date: '2024-03-04' })],
+        },
+        error: null,
+      });
+      await mockQueries(unbilled, numbers, reload);
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: 'inv-1', error: null } as never);
+
+      const invoice = await createDraftInvoice('user-1', {
+        clientId: 'client-1',
+        periodStart: '2024-03-01',
+        periodEnd: '2024-03-31',
+        invoiceDate: '2024-04-01',
+      });
+
+      expect(supabase.rpc).toHaveBeenCalledWith('create_draft_invoice', {
+        p_invoice: expect.objectContaining({
+          invoice_number: 'INV-2024-0001',
+          invoice_date: '2024-04-01',
+          period_start: '2024-03-01',
+          period_end: '2024-03-31',
+        }),
+        p_line_ids: ['b', 'c'],
+      });
+      expect(reload.eq).toHaveBeenCalledWith('id', 'inv-1');
+      expect(invoice.billing_line_items.map(item => item.id)).toEqual(['b', 'c']);
+    });
+
+    it('should fail without saving when another invoice claimed the lines first', async () => {
+      await mockQueries(queryReturning({ data: [mockBillingLineItem({ id: 'a' })], error: null }), queryReturning({ data: [], error: null }));
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: null,
+        error: { message: 'Some of these charges were billed on another invoice; refresh and try again' },
+      } as never);
+
+      await expect(createDraftInvoice('user-1', { clientId: 'client-1' })).rejects.toThrow('billed on another invoice');
+    });
+
+    it('should refuse to create an empty invoice', async () => {
+      await mockQueries(queryReturning({ data: [], error: null }));
+      await expect(createDraftInvoice('user-1', { clientId: 'client-1' })).rejects.toThrow('no unbilled charges');
+    });
+  });
+
+  describe('writeDownLineItem', () => {
+    it('should not write down lines on an approved invoice', async () => {
+      await mockQueries(queryReturning({ data: { status: 'approved' }, error: null }));
+      await expect(writeDownLineItem(mockBillingLineItem({ invoice_id: 'inv-1' }), 50)).rejects.toThrow('Only draft invoices');
+    });
+
+    it('should not write down more than the line is worth', async () => {
+      await expect(writeDownLineItem(mockBillingLineItem({ invoice_id: 'inv-1' }), 301)).rejects.toThrow('cannot exceed');
+    });
+
+    it('should store the write-down as a negative adjustment', async () => {
+      const status = queryReturning({ data: { status: 'draft' }, error: null });
+      const update = queryReturning({ data: null, error: null });
+      const reload = queryReturning({
+        data: { id: 'inv-1', billing_line_items: [mockBillingLineItem({ invoice_id: 'inv-1', adjustment_amount: -50 })] },
+        error: null,
+      });
+      const totals = queryReturning({ data: null, error: null });
+      await mockQueries(status, update, reload, totals);
+
+      const invoice = await writeDownLineItem(mockBillingLineItem({ invoice_id: 'inv-1' }), 50, 'Courtesy discount');
+
+      expect(update.update).toHaveBeenCalledWith({ adjustment_amount: -50, adjustment_reason: 'Courtesy discount' });
+      expect(totals.update).toHaveBeenCalledWith({ subtotal: 300, adjustment_total: -50, amount: 250 });
+      expect(invoice.amount).toBe(250);
+    });
+  });
+
+  describe('updateInvoiceStatus', () => {
+    it('should record who approved a draft', async () => {
+      const status = queryReturning({ data: { status: 'draft' }, error: null });
+      const update = queryReturning({ data: null, error: null });
+      const reload = queryReturning({ data: { id: 'inv-1', status: 'approved', billing_line_items: [] }, error: null });
+      await mockQueries(status, update, reload);
+
+      await updateInvoiceStatus('inv-1', 'approved', 'user-1');
+
+      expect(update.update.mock.calls[0][0]).toMatchObject({ status: 'approved', approved_by: 'user-1' });
+    });
+
+    it('should reject transitions the workflow does not allow', async () => {
+      await mockQueries(queryReturning({ data: { status: 'draft' }, error: null }));
+      await expect(updateInvoiceStatus('inv-1', 'paid')).rejects.toThrow('cannot be marked paid');
+    });
+
+    it('should return the lines of a voided invoice to unbilled', async () => {
+      const status = queryReturning({ data: { status: 'sent' }, error: null });
+      const update = queryReturning({ data: null, error: null });
+      const release = queryReturning({ data: null, error: null });
+      const reload = queryReturning({ data: { id: 'inv-1', status: 'void', billing_line_items: [] }, error: null });
+      await mockQueries(status, update, release, reload);
+
+      await updateInvoiceStatus('inv-1', 'void');
+
+      expect(release.update).toHaveBeenCalledWith({ invoice_id: null, adjustment_amount: 0, adjustment_reason: null });
+      expect(release.eq).toHaveBeenCalledWith('invoice_id', 'inv-1');
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { formatLedes1998B, LEDES_1998B_FIELDS } from '@/lib/ledes';
+import type { BillingLineItem, InvoiceDetail } from '@/lib/invoiceService';
+import { mockBillingLineItem } from '../mocks/mockData';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+// LEDES lines carry the UTBMS codes and timekeeper a billed invoice would have
+const line = (overrides: Partial<BillingLineItem>): BillingLineItem =>
+  mockBillingLineItem({
+    invoice_id: 'inv-1',
+    description: 'Draft motion to dismiss',
+    quantity: 1.3,
+    rate: 350,
+    utbms_task_code: 'L240',
+    utbms_activity_code: 'A103',
+    timekeeper_id: 'JD',
+    timekeeper_name: 'Doe, Jane',
+    timekeeper_classification: 'PT',
+    ...overrides,
+  });
+
+const invoice = (lines: BillingLineItem[]): InvoiceDetail => ({
+  id: 'inv-1',
+  user_id: 'user-1',
+  client_id: 'client-1',
+  case_id: 'case-1',
+  invoice_number: 'INV-2024-0001',
+  status: 'approved',
+  invoice_date: '2024-04-01',
+  due_date: null,
+  period_start: '2024-03-01',
+  period_end: '2024-03-31',
+  description: 'Smith v. Jones | March services',
+  client_reference: 'ACME-01',
+  client_matter_reference: 'CLM-7788',
+  subtotal: 0,
+  adjustment_total: 0,
+  amount: 0,
+  approved_at: null,
+  approved_by: null,
+  sent_at: null,
+  paid_at: null,
+  created_at: '2024-04-01T12:00:00Z',
+  updated_at: '2024-04-01T12:00:00Z',
+  cases: { title: 'Smith v. Jones', case_number: '2:24-cv-00123' },
+  billing_line_items: lines,
+});
+
+const parse = (file: string) =>
+  file
+    .split('\r\n')
+    .filter(Boolean)
+    .map(record => record.replace(/\[\]$/, '').split('|'));
+
+describe('ledes', () => {
+  describe('formatLedes1998B', () => {
+    const lines = [
+      line({ adjustment_amount: -45.5 }),
+      line({
+        id: 'l2',
+        line_type: 'expense',
+        line_date: '2024-03-10',
+        description: 'Court filing fee',
+        quantity: 1,
+        rate: 405,
+        utbms_task_code: 'L240',
+        utbms_activity_code: null,
+        utbms_expense_code: 'E112',
+      }),
+    ];
+
+    it('should start with the format marker and the field header', () => {
+      const [marker, header] = formatLedes1998B(invoice(lines), { lawFirmId: '12-3456789' }).split('\r\n');
+      expect(marker).toBe('LEDES1998B[]');
+      expect(header).toBe(`${LEDES_1998B_FIELDS.join('|')}[]`);
+    });
+
+    it('should write one record per line with 24 fields', () => {
+      const records = parse(formatLedes1998B(invoice(lines), { lawFirmId: '12-3456789' })).slice(2);
+      expect(records).toHaveLength(2);
+      records.forEach(record => expect(record).toHaveLength(24));
+    });
+
+    it('should write fee lines with units, adjustment, activity code and timekeeper', () => {
+      const [, , fee] = parse(formatLedes1998B(invoice(lines), { lawFirmId: '12-3456789' }));
+      const field = (name: (typeof LEDES_1998B_FIELDS)[number]) => fee[LEDES_1998B_FIELDS.indexOf(name)];
+
+      expect(field('INVOICE_DATE')).toBe('20240401');
+      expect(field('CLIENT_ID')).toBe('ACME-01');
+      expect(field('LAW_FIRM_MATTER_ID')).toBe('2:24-cv-00123');
+      expect(field('INVOICE_TOTAL')).toBe('814.50');
+      expect(field('BILLING_START_DATE')).toBe('20240301');
+      expect(field('EXP/FEE/INV_ADJ_TYPE')).toBe('F');
+      expect(field('LINE_ITEM_NUMBER_OF_UNITS')).toBe('1.3');
+      expect(field('LINE_ITEM_ADJUSTMENT_AMOUNT')).toBe('-45.50');
+      expect(field('LINE_ITEM_TOTAL')).toBe('409.50');
+      expect(field('LINE_ITEM_TASK_CODE')).toBe('L240');
+      expect(field('LINE_ITEM_ACTIVITY_CODE')).toBe('A103');
+      expect(field('LINE_ITEM_UNIT_COST')).toBe('350.00');
+      expect(field('TIMEKEEPER_CLASSIFICATION')).toBe('PT');
+      expect(field('CLIENT_MATTER_ID')).toBe('CLM-7788');
+    });
+
+    it('should write expense lines with the expense code and no activity code', () => {
+      const [, , , expense] = parse(formatLedes1998B(invoice(lines), { lawFirmId: '12-3456789' }));
+      const field = (name: (typeof LEDES_1998B_FIELDS)[number]) => expense[LEDES_1998B_FIELDS.indexOf(name)];
+
+      expect(field('EXP/FEE/INV_ADJ_TYPE')).toBe('E');
+      expect(field('LINE_ITEM_EXPENSE_CODE')).toBe('E112');
+      expect(field('LINE_ITEM_ACTIVITY_CODE')).toBe('');
+      expect(field('LINE_ITEM_TOTAL')).toBe('405.00');
+      expect(field('LINE_ITEM_NUMBER')).toBe('2');
+    });
+
+    it('should strip delimiter characters from free text', () => {
+      const [, , fee] = parse(formatLedes1998B(invoice(lines), { lawFirmId: '12-3456789' }));
+      expect(fee[LEDES_1998B_FIELDS.indexOf('INVOICE_DESCRIPTION')]).toBe('Smith v. Jones March services');
+    });
+
+    it('should require a law firm ID and at least one line', () => {
+      expect(() => formatLedes1998B(invoice(lines), { lawFirmId: '' })).toThrow('law firm ID');
+      expect(() => formatLedes1998B(invoice([]), { lawFirmId: '12-3456789' })).toThrow('no line items');
+    });
+  });
+});
@@ -0,0 +1,361 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  MEMORY_SCHEMA_VERSION,
+  MemoryStore,
+  activeItems,
+  applyLearnings,
+  createDefaultMemory,
+  extractLearnings,
+  forgetItems,
+  formatMemoryForPrompt,
+  markPushed,
+  memoryItemId,
+  mergeRemoteMemory,
+  migrateMemory,
+  normalizeLearnings,
+  pendingRows,
+  remoteWins,
+  stripLearnings,
+} from '@/lib/memoryStore';
+import type { UserMemory } from '@/types/assistant';
+import { mockLearningsCandidate, queryReturning } from '../mocks/mockData';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+}));
+
+const NOW = '2025-03-01T12:00:00.000Z';
+const LATER = '2025-03-02T12:00:00.000Z';
+
+const preference = (key: string, value: string, confidence = 0.9) => ({
+  key,
+  value,
+  confidence,
+  observedAt: NOW,
+  category: 'other' as const,
+});
+
+describe('memoryStore', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    localStorage.clear();
+  });
+
+  describe('migrateMemory', () => {
+    it('should upgrade the agent memory through every version', () => {
+      const memory = migrateMemory({
+        persona: { tone: 'verbose', prefers_no_filler: true, confirmation_threshold: 0.8 },
+        defaults: { export_format: 'DOCX' },
+        shortcuts: [{ name: 'Weekly report', trigger_phrases: ['weekly report'], steps: ['Open analytics', 'Export'] }],
+        avoid: [],
+        blacklist: [],
+        consents: { remember_preferences: true, store_emails: true },
+        history_digest: ['2025-01-10: Use Bluebook citations'],
+        last_updated_iso: NOW,
+      }, 'user-1')!;
+
+      expect(memory.schemaVersion).toBe(MEMORY_SCHEMA_VERSION);
+      expect(memory.settings).toMatchObject({ tone: 'detailed', confirmationThreshold: 0.8, storeEmails: true });
+      expect(activeItems(memory, 'default').map(item => item.value)).toEqual([{ key: 'export_format', value: 'DOCX' }]);
+      expect(activeItems(memory, 'task')[0].value).toMatchObject({ taskType: 'Weekly report', steps: ['Open analytics', 'Export'] });
+      expect(activeItems(memory, 'correction')[0].value.correctedAction).toBe('2025-01-10: Use Bluebook citations');
+      // Nothing migrated has reached the server yet
+      expect(memory.pendingItemIds).toHaveLength(3);
+      expect(memory.settingsPending).toBe(true);
+    });
+
+    it('should upgrade the assistant memory', () => {
+      const memory = migrateMemory({
+        version: '1.0.0',
+        userId: 'user-1',
+        lastUpdated: NOW,
+        preferences: { tone: 'concise', confirmationThreshold: 0.7, autoApplyLearnings: false, storeInteractions: true },
+        learnedPreferences: [preference('citation_style', 'Bluebook')],
+        userCorrections: [],
+        repeatedTasks: [],
+        defaultValues: {},
+        customWorkflows: [],
+        redactionPatterns: ['ssn'],
+        optedOutCategories: [],
+      }, 'user-1')!;
+
+      expect(memory.settings).toMatchObject({ tone: 'concise', autoApplyLearnings: false, rememberPreferences: true });
+      expect(activeItems(memory, 'preference')[0].value.value).toBe('Bluebook');
+      expect(activeItems(memory, 'redaction')[0].value.pattern).toBe('ssn');
+    });
+
+    it('should keep current memory and drop item kinds it does not know', () => {
+      const current = applyLearnings(createDefaultMemory('user-1'), mockLearningsCandidate({ observed_preferences: [preference('a', 'b')] }), NOW);
+      const stored = JSON.parse(JSON.stringify(current));
+      stored.items['future:1'] = { id: 'future:1', kind: 'future', value: {}, updatedAt: NOW };
+
+      const memory = migrateMemory(stored, 'user-1')!;
+
+      expect(Object.keys(memory.items)).toEqual(Object.keys(current.items));
+      expect(migrateMemory({ unrelated: true }, 'user-1')).toBeNull();
+    });
+  });
+
+  describe('learnings', () => {
+    it('should read both the agent and the assistant block shapes', () => {
+      const agent = extractLearnings('Done.\n\nLEARNINGS_CANDIDATE {"observed_preferences":[{"key":"defaults.export_format","value":"DOCX","durability_days":90},{"key":"x","value":"y","durability_days":1}],"corrections":["Use short cites"],"redact_notes":["client phone"]}');
+      const assistant = extractLearnings('Done.\n\nLEARNINGS_CANDIDATE:\n```json\n{"observed_preferences":[{"key":"tone","value":"concise","confidence":0.9,"category":"tone"}],"repeated_tasks":[{"taskType":"billing","pattern":"monthly invoices","frequency":2}]}\n```');
+
+      expect(agent?.observed_preferences.map(pref => [pref.key, pref.confidence, pref.category])).toEqual([['defaults.export_format', 1, 'defaults']]);
+      expect(agent?.corrections[0].correctedAction).toBe('Use short cites');
+      expect(agent?.redact_notes[0].pattern).toBe('client phone');
+      expect(assistant?.observed_preferences[0]).toMatchObject({ key: 'tone', value: 'concise', category: 'tone' });
+      expect(assistant?.repeated_tasks[0]).toMatchObject({ taskType: 'billing', frequency: 2 });
+      expect(extractLearnings('LEARNINGS_CANDIDATE {not json}')).toBeNull();
+      expect(normalizeLearnings([])).toBeNull();
+    });
+
+    it('should strip the block from the reply', () => {
+      expect(stripLearnings('The answer.\n\nLEARNINGS_CANDIDATE:\n```json\n{}\n```')).toBe('The answer.');
+      expect(stripLearnings(' No block ')).toBe('No block');
+    });
+  });
+
+  describe('applyLearnings', () => {
+    const memory = createDefaultMemory('user-1');
+
+    it('should store confident preferences as items and defaults', () => {
+      const next = applyLearnings(memory, mockLearningsCandidate({
+        observed_preferences: [
+          preference('citation_style', 'Bluebook'),
+          preference('defaults.export_format', 'DOCX'),
+          preference('font', 'Courier', 0.4),
+        ],
+      }), NOW);
+
+      expect(activeItems(next, 'preference').map(item => item.value.key)).toEqual(['citation_style']);
+      expect(activeItems(next, 'default').map(item => item.value)).toEqual([{ key: 'export_format', value: 'DOCX' }]);
+      expect(next.pendingItemIds).toHaveLength(2);
+    });
+
+    it('should keep the more confident of two observations', () => {
+      const first = applyLearnings(memory, mockLearningsCandidate({ observed_preferences: [preference('style', 'formal', 0.95)] }), NOW);
+      const second = applyLearnings(first, mockLearningsCandidate({ observed_preferences: [preference('style', 'casual', 0.8)] }), LATER);
+
+      expect(activeItems(second, 'preference')[0].value.value).toBe('formal');
+    });
+
+    it('should change the tone setting rather than store it as an item', () => {
+      const next = applyLearnings(memory, mockLearningsCandidate({ observed_preferences: [preference('persona.tone', 'verbose')] }), NOW);
+
+      expect(next.settings.tone).toBe('detailed');
+      expect(next.settingsPending).toBe(true);
+      expect(activeItems(next)).toEqual([]);
+    });
+
+    it('should count repeated tasks and merge their trigger phrases', () => {
+      const task = { taskType: 'report', pattern: 'weekly', frequency: 1, lastOccurrence: NOW, triggerPhrases: ['weekly report'] };
+      const first = applyLearnings(memory, mockLearningsCandidate({ repeated_tasks: [task] }), NOW);
+      const second = applyLearnings(first, mockLearningsCandidate({ repeated_tasks: [{ ...task, lastOccurrence: LATER, triggerPhrases: ['status report'] }] }), LATER);
+
+      expect(activeItems(second, 'task')[0].value).toMatchObject({
+        frequency: 2,
+        lastOccurrence: LATER,
+        triggerPhrases: ['weekly report', 'status report'],
+      });
+    });
+
+    it('should skip anything matching a redaction pattern', () => {
+      const next = applyLearnings(memory, mockLearningsCandidate({
+        redact_notes: [{ reason: 'privacy', pattern: 'Acme', timestamp: NOW }],
+        observed_preferences: [preference('client', 'acme corp')],
+        corrections: [{ originalAction: 'a', correctedAction: 'Use Acme letterhead', context: '', timestamp: NOW }],
+      }), NOW);
+
+      expect(activeItems(next).map(item => item.kind)).toEqual(['redaction']);
+    });
+
+    it('should learn nothing when the user has opted out', () => {
+      const optedOut = { ...memory, settings: { ...memory.settings, rememberPreferences: false } };
+
+      expect(applyLearnings(optedOut, mockLearningsCandidate({ observed_preferences: [preference('a', 'b')] }))).toBe(optedOut);
+    });
+
+    it('should keep only the 50 most recent corrections', () => {
+      let next = memory;
+      for (let i = 0; i < 55; i++) {
+        const at = new Date(Date.parse(NOW) + i * 1000).toISOString();
+        next = applyLearnings(next, mockLearningsCandidate({ corrections: [{ originalAction: '', correctedAction: `fix ${i}`, context: '', timestamp: at }] }), at);
+      }
+
+      const corrections = activeItems(next, 'correction');
+      expect(corrections).toHaveLength(50);
+      expect(corrections[corrections.length - 1].value.correctedAction).toBe('fix 5');
+      expect(Object.keys(next.deletedItems)).toHaveLength(5);
+    });
+  });
+
+  describe('sync conflict resolution', () => {
+    const withPreference = (value: string, at: string): UserMemory =>
+      applyLearnings(createDefaultMemory('user-1'), mockLearningsCandidate({ observed_preferences: [preference('style', value)] }), at);
+    const id = memoryItemId({ kind: 'preference', value: preference('style', '') });
+
+    it('should let the later change win and a deletion win a tie', () => {
+      expect(remoteWins(null, { updatedAt: NOW, deleted: false })).toBe(true);
+      expect(remoteWins({ updatedAt: LATER, deleted: false }, { updatedAt: NOW, deleted: false })).toBe(false);
+      expect(remoteWins({ updatedAt: NOW, deleted: false }, { updatedAt: LATER, deleted: false })).toBe(true);
+      expect(remoteWins({ updatedAt: NOW, deleted: false }, { updatedAt: NOW, deleted: true })).toBe(true);
+      expect(remoteWins({ updatedAt: NOW, deleted: true }, { updatedAt: NOW, deleted: false })).toBe(false);
+    });
+
+    it('should take newer remote items and drop the queued local change', () => {
+      const local = withPreference('formal', NOW);
+      const merged = mergeRemoteMemory(local, [{
+        item_key: id,
+        kind: 'preference',
+        value: preference('style', 'casual'),
+        updated_at: LATER,
+        deleted_at: null,
+        synced_at: LATER,
+      }], null, LATER);
+
+      expect(activeItems(merged, 'preference')[0].value.value).toBe('casual');
+      expect(merged.pendingItemIds).toEqual([]);
+      expect(merged.syncCursor).toBe(LATER);
+    });
+
+    it('should keep a newer local item queued', () => {
+      const local = withPreference('formal', LATER);
+      const merged = mergeRemoteMemory(local, [{
+        item_key: id, kind: 'preference', value: preference('style', 'casual'), updated_at: NOW, deleted_at: null,
+      }], null);
+
+      expect(activeItems(merged, 'preference')[0].value.value).toBe('formal');
+      expect(merged.pendingItemIds).toEqual([id]);
+    });
+
+    it('should apply deletions made on another device', () => {
+      const merged = mergeRemoteMemory(withPreference('formal', NOW), [{
+        item_key: id, kind: 'preference', value: {}, updated_at: LATER, deleted_at: LATER,
+      }], null);
+
+      expect(merged.items).toEqual({});
+      expect(merged.deletedItems[id]).toBe(LATER);
+    });
+
+    it('should only take settings changed later than ours', () => {
+      const local = { ...createDefaultMemory('user-1'), settingsUpdatedAt: NOW };
+
+      expect(mergeRemoteMemory(local, [], { settings: { tone: 'concise' }, schema_version: 2, updated_at: LATER }).settings.tone).toBe('concise');
+      expect(mergeRemoteMemory(local, [], { settings: { tone: 'concise' }, schema_version: 2, updated_at: '2025-01-01T00:00:00Z' }).settings.tone).toBe('balanced');
+    });
+
+    it('should push deletions as tombstones without their content', () => {
+      const forgotten = forgetItems(withPreference('formal', NOW), [id], LATER);
+
+      expect(pendingRows(forgotten)).toEqual([{ item_key: id, kind: 'preference', value: {}, updated_at: LATER, deleted_at: LATER }]);
+    });
+
+    it('should keep changes made while a push was in flight', () => {
+      const pushed = withPreference('formal', NOW);
+      const changedSince = applyLearnings(pushed, mockLearningsCandidate({ observed_preferences: [preference('style', 'casual', 0.99)] }), LATER);
+
+      expect(markPushed(pushed, pushed).pendingItemIds).toEqual([]);
+      expect(markPushed(changedSince, pushed).pendingItemIds).toEqual([id]);
+    });
+  });
+
+  describe('formatMemoryForPrompt', () => {
+    it('should list what was learned', () => {
+      const memory = applyLearnings(createDefaultMemory('user-1'), mockLearningsCandidate({
+        observed_preferences: [preference('citation_style', 'Bluebook'), preference('defaults.export_format', 'DOCX')],
+      }), NOW);
+
+      const prompt = formatMemoryForPrompt(memory);
+      expect(prompt).toContain('- Tone: balanced');
+      expect(prompt).toContain('citation_style: Bluebook (confidence: 90%)');
+      expect(prompt).toContain('Custom Defaults:\n  - export_format: DOCX');
+    });
+  });
+
+  describe('MemoryStore', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(NOW));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should import the legacy caches once for a signed-in user', () => {
+      localStorage.setItem('docketchief_agent_memory', JSON.stringify({
+        persona: { tone: 'concise', prefers_no_filler: true, confirmation_threshold: 0.7 },
+        defaults: { export_format: 'PDF' },
+        shortcuts: [],
+        consents: { remember_preferences: true, store_emails: false },
+        history_digest: [],
+        last_updated_iso: NOW,
+      }));
+
+      const store = new MemoryStore();
+      expect(store.getMemory().userId).toBe('anonymous');
+      expect(localStorage.getItem('docketchief_agent_memory')).not.toBeNull();
+
+      const memory = store.load('user-1');
+      expect(memory.settings.tone).toBe('concise');
+      expect(activeItems(memory, 'default')).toHaveLength(1);
+      expect(localStorage.getItem('docketchief_agent_memory')).toBeNull();
+      expect(JSON.parse(localStorage.getItem('docketchief_memory_user-1')!).schemaVersion).toBe(MEMORY_SCHEMA_VERSION);
+    });
+
+    it('should push queued changes, pull remote ones and clear the queue', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: null, error: null } as never);
+      const remoteId = memoryItemId({ kind: 'default', value: { key: 'court', value: '' } });
+      vi.mocked(supabase.from).mockImplementation(((table: string) => queryReturning(table === 'user_memory_items'
+        ? { data: [{ item_key: remoteId, kind: 'default', value: { key: 'court', value: 'SDNY' }, updated_at: NOW, deleted_at: null, synced_at: NOW }], error: null }
+        : { data: null, error: null })) as never);
+
+      const store = new MemoryStore();
+      store.load('user-1');
+      store.applyLearnings(mockLearningsCandidate({ observed_preferences: [preference('citation_style', 'Bluebook')] }));
+      expect(store.getSnapshot().sync.pending).toBe(1);
+
+      await store.sync();
+
+      expect(supabase.rpc).toHaveBeenCalledWith('merge_user_memory', expect.objectContaining({
+        p_items: [expect.objectContaining({ kind: 'preference', deleted_at: null })],
+        p_settings: null,
+      }));
+      expect(store.getSnapshot().sync).toMatchObject({ status: 'idle', pending: 0, lastSyncedAt: NOW });
+      expect(activeItems(store.getMemory(), 'default')[0].value.value).toBe('SDNY');
+    });
+
+    it('should keep changes queued when the sync fails', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: null, error: { message: 'network down' } } as never);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const store = new MemoryStore();
+      store.load('user-1');
+      store.applyLearnings(mockLearningsCandidate({ observed_preferences: [preference('citation_style', 'Bluebook')] }));
+      await store.sync();
+
+      expect(store.getSnapshot().sync).toMatchObject({ status: 'error', pending: 1, error: 'network down' });
+    });
+
+    it('should forget a single item and everything when memory is turned off', () => {
+      const store = new MemoryStore();
+      store.load('user-1');
+      store.applyLearnings(mockLearningsCandidate({ observed_preferences: [preference('a', '1'), preference('b', '2')] }));
+      const [first] = activeItems(store.getMemory());
+
+      store.deleteItem(first.id);
+      expect(activeItems(store.getMemory())).toHaveLength(1);
+      expect(store.getMemory().deletedItems[first.id]).toBe(NOW);
+
+      store.updateSettings({ rememberPreferences: false });
+      expect(activeItems(store.getMemory())).toEqual([]);
+      expect(store.getMemory().settingsPending).toBe(true);
+    });
+  });
+});
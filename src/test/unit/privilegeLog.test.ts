@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildPrivilegeLog,
+  draftPrivilegeDescription,
+  findAnalysisSummary,
+  formatPrivilegeLogCsv,
+  privilegeLogTable,
+  revealedPhrases,
+  type PrivilegeTag,
+} from '@/lib/privilegeLog';
+import { generateStructured } from '@/lib/structuredOutput';
+import { supabase } from '@/lib/supabase';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: { from: vi.fn() },
+}));
+
+vi.mock('@/lib/structuredOutput', () => ({
+  generateStructured: vi.fn(),
+}));
+
+const tag = (fields: Partial<PrivilegeTag>): PrivilegeTag => ({
+  document_id: 'doc-1',
+  treatment: 'withheld',
+  privilege_basis: 'attorney_client',
+  document_date: '2024-11-04',
+  author: 'Jane Smith, Esq.',
+  recipients: ['John Doe (CFO)'],
+  document_type: 'Email',
+  description: 'Email seeking legal advice regarding the lease termination.',
+  description_source: 'manual',
+  ...fields,
+});
+
+const summary =
+  'Outside counsel advises the CFO that the distributor is unlikely to prevail on its wrongful termination claim and recommends settling.';
+
+describe('privilegeLog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('buildPrivilegeLog', () => {
+    it('should number entries in date order with undated documents last', () => {
+      const entries = buildPrivilegeLog([
+        { tag: tag({ document_id: 'doc-1', document_date: null }), fileName: 'Undated.msg' },
+        { tag: tag({ document_id: 'doc-2', document_date: '2024-12-01' }), fileName: 'Later.msg' },
+        { tag: tag({ document_id: 'doc-3', document_date: '2024-03-15', recipients: [' A ', '', 'B'] }), fileName: 'Earlier.msg' },
+      ]);
+
+      expect(entries.map(entry => [entry.logNumber, entry.documentId, entry.date])).toEqual([
+        ['PRIV-0001', 'doc-3', '2024-03-15'],
+        ['PRIV-0002', 'doc-2', '2024-12-01'],
+        ['PRIV-0003', 'doc-1', 'Undated'],
+      ]);
+      expect(entries[0].recipients).toBe('A; B');
+    });
+
+    it('should log redacted documents under their produced Bates number', () => {
+      const [withheld, redacted] = buildPrivilegeLog([
+        { tag: tag({ document_id: 'doc-1', document_date: '2024-01-01' }), fileName: 'Memo.docx', bates: 'ACME000010' },
+        {
+          tag: tag({ document_id: 'doc-2', document_date: '2024-01-02', treatment: 'redacted', privilege_basis: 'work_product' }),
+          fileName: 'Board minutes.pdf',
+          bates: 'ACME000042',
+        },
+      ]);
+
+      expect(withheld.bates).toBe('PRIV-0001');
+      expect(redacted.bates).toBe('ACME000042');
+      expect(redacted.basis).toBe('Work Product');
+      expect(redacted.treatment).toBe('Redacted');
+    });
+  });
+
+  describe('privilegeLogTable', () => {
+    it('should order columns as Local Civil Rule 26.2 lists them', () => {
+      const entries = buildPrivilegeLog([{ tag: tag({}), fileName: 'Email.msg' }]);
+      const { columns, rows } = privilegeLogTable(entries, 'sdny');
+
+      expect(columns.slice(2, 7).map(column => column.header)).toEqual([
+        'Type of Document',
+        'General Subject Matter',
+        'Date',
+        'Author',
+        'Addressees and Recipients',
+      ]);
+      expect(rows[0].slice(2, 5)).toEqual(['Email', 'Email seeking legal advice regarding the lease termination.', '2024-11-04']);
+    });
+  });
+
+  describe('formatPrivilegeLogCsv', () => {
+    it('should quote fields containing commas and quotes', () => {
+      const entries = buildPrivilegeLog([{ tag: tag({ author: 'Smith, Jane "JS"' }), fileName: 'Email.msg' }]);
+      const [header, row] = formatPrivilegeLogCsv(entries, 'frcp').trim().split('\r\n');
+
+      expect(header).toBe(
+        'Log No.,Bates / Control No.,Date,Author,Recipients,Document Type,Privilege Asserted,Withheld / Redacted,Description'
+      );
+      expect(row).toContain(',"Smith, Jane ""JS""",');
+    });
+  });
+
+  describe('revealedPhrases', () => {
+    it('should flag runs of words copied from the summary', () => {
+      const description =
+        'Email advising that the distributor is unlikely to prevail on its wrongful termination claim.';
+
+      expect(revealedPhrases(description, summary)).toEqual(['that the distributor is unlikely to prevail on its wrongful termination claim']);
+    });
+
+    it('should pass descriptions that only share short phrases', () => {
+      const description = "Email from outside counsel to the CFO providing legal advice regarding the distributor's termination claim.";
+
+      expect(revealedPhrases(description, summary)).toEqual([]);
+    });
+  });
+
+  describe('draftPrivilegeDescription', () => {
+    it('should send the summary under the privilege_log feature and check the draft', async () => {
+      vi.mocked(generateStructured).mockResolvedValue({
+        description: 'Email in which outside counsel advises the CFO that the distributor is unlikely to prevail.',
+        documentType: 'Email',
+      });
+
+      const drafted = await draftPrivilegeDescription(tag({ case_id: 'case-1' }), summary);
+
+      const [, request] = vi.mocked(generateStructured).mock.calls[0];
+      expect(request.feature).toBe('privilege_log');
+      expect(request.caseId).toBe('case-1');
+      expect(request.messages[0].content).toContain(summary);
+      expect(drafted.revealed).toEqual(['outside counsel advises the cfo that the distributor is unlikely to prevail']);
+    });
+  });
+
+  describe('findAnalysisSummary', () => {
+    it('should read the summary of the latest analysis of the file', async () => {
+      const query = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockResolvedValue({ data: [{ analysis_result: { summary: ' Advice on termination. ' } }], error: null }),
+      };
+      vi.mocked(supabase.from).mockReturnValue(query as unknown as ReturnType<typeof supabase.from>);
+
+      await expect(findAnalysisSummary('user-1', 'Email.msg')).resolves.toBe('Advice on termination.');
+      expect(supabase.from).toHaveBeenCalledWith('document_analyses');
+      expect(query.eq).toHaveBeenCalledWith('file_name', 'Email.msg');
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import JSZip from 'jszip';
+import { PDFDocument, degrees } from 'pdf-lib';
+import { buildProduction, nextBatesNumber, ProductionError, saveProduction, stampPages } from '@/lib/productionService';
+import { supabase } from '@/lib/supabase';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+    storage: { from: vi.fn() },
+  },
+}));
+
+const pdfBytes = async (pageCount: number) => {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) pdf.addPage([612, 792]);
+  return pdf.save();
+};
+
+// Stored files as the storage client returns them
+const storedFiles = (files: Record<string, Uint8Array>) => {
+  const download = vi.fn(async (path: string) =>
+    files[path]
+      ? { data: { arrayBuffer: async () => files[path].slice().buffer }, error: null }
+      : { data: null, error: { message: 'Object not found' } }
+  );
+  vi.mocked(supabase.storage.from).mockReturnValue({ download } as unknown as ReturnType<typeof supabase.storage.from>);
+  return download;
+};
+
+describe('productionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('stampPages', () => {
+    it('should draw on every page, including rotated ones', async () => {
+      const pdf = await PDFDocument.create();
+      pdf.addPage([612, 792]);
+      pdf.addPage([612, 792]).setRotation(degrees(90));
+      const before = pdf.getPages().map(page => page.node.Contents());
+
+      await stampPages(pdf, ['ACME000001', 'ACME000002'], 'CONFIDENTIAL – SUBJECT TO PROTECTIVE ORDER');
+
+      expect(before).toEqual([undefined, undefined]);
+      expect(pdf.getPages().every(page => page.node.Contents())).toBe(true);
+    });
+  });
+
+  describe('buildProduction', () => {
+    it('should stamp single-page PDFs, slip-sheet natives and write the load files', async () => {
+      const native = new TextEncoder().encode('native bytes');
+      storedFiles({ 'user/lease.pdf': await pdfBytes(2), 'user/roll.xlsx': native });
+
+      const production = await buildProduction(
+        [
+          { id: 'doc-1', filename: 'Lease.pdf', file_type: 'application/pdf', storage_path: 'user/lease.pdf', extracted_text: 'Page one\fPage two' },
+          { id: 'doc-2', filename: 'Roll.xlsx', file_type: 'application/vnd.ms-excel', storage_path: 'user/roll.xlsx' },
+        ],
+        { volume: 'PROD001', prefix: 'ACME', startNumber: 11, confidentiality: 'confidential' }
+      );
+
+      expect(production.pageCount).toBe(3);
+      expect(production.ranges.map(range => `${range.begin}-${range.end}`)).toEqual(['ACME000011-ACME000012', 'ACME000013-ACME000013']);
+
+      const zip = await JSZip.loadAsync(production.archive);
+      const files = Object.keys(zip.files).filter(name => !zip.files[name].dir).sort();
+      expect(files).toEqual([
+        'PROD001/DATA/PROD001.dat',
+        'PROD001/DATA/PROD001.opt',
+        'PROD001/IMAGES/ACME000011.pdf',
+        'PROD001/IMAGES/ACME000012.pdf',
+        'PROD001/IMAGES/ACME000013.pdf',
+        'PROD001/NATIVES/ACME000013.xlsx',
+        'PROD001/PROD001_production_log.csv',
+        'PROD001/TEXT/ACME000011.txt',
+      ]);
+
+      const page = await PDFDocument.load(await zip.file('PROD001/IMAGES/ACME000012.pdf').async('uint8array'));
+      expect(page.getPageCount()).toBe(1);
+      expect(await zip.file('PROD001/NATIVES/ACME000013.xlsx').async('string')).toBe('native bytes');
+      expect(await zip.file('PROD001/DATA/PROD001.opt').async('string')).toContain('ACME000013,PROD001,.\\IMAGES\\ACME000013.pdf,Y,,,1');
+    });
+
+    it('should name the document that cannot be produced', async () => {
+      storedFiles({});
+
+      const attempt = buildProduction(
+        [{ id: 'doc-9', filename: 'Missing.pdf', file_type: 'application/pdf', storage_path: 'user/missing.pdf' }],
+        { volume: 'PROD002', prefix: 'ACME', startNumber: 1, confidentiality: 'none' }
+      );
+
+      await expect(attempt).rejects.toBeInstanceOf(ProductionError);
+      await expect(attempt).rejects.toThrow('Failed to download Missing.pdf: Object not found');
+    });
+
+    it('should refuse encrypted PDFs instead of stamping them', async () => {
+      const pdf = await PDFDocument.create();
+      pdf.addPage([612, 792]);
+      pdf.context.trailerInfo.Encrypt = pdf.context.obj({ Filter: 'Standard' });
+      storedFiles({ 'user/sealed.pdf': await pdf.save() });
+
+      const attempt = buildProduction(
+        [{ id: 'doc-3', filename: 'Sealed.pdf', file_type: 'application/pdf', storage_path: 'user/sealed.pdf' }],
+        { volume: 'PROD003', prefix: 'ACME', startNumber: 1, confidentiality: 'none' }
+      );
+
+      await expect(attempt).rejects.toThrow('Sealed.pdf is encrypted');
+      await expect(attempt).rejects.toMatchObject({ documentId: 'doc-3' });
+    });
+
+    it('should reject volume names that are not safe folder names', async () => {
+      await expect(
+        buildProduction([], { volume: '../PROD', prefix: 'ACME', startNumber: 1, confidentiality: 'none' })
+      ).rejects.toThrow('volume name');
+    });
+  });
+
+  describe('saveProduction', () => {
+    const production = {
+      summary: { volume: 'PROD001', confidentiality: 'confidential', producedAt: '2025-02-03T00:00:00.000Z' },
+      ranges: [
+        { documentId: 'doc-1', begin: 'ACME000011', end: 'ACME000012', beginNumber: 11, endNumber: 12, pageCount: 2 },
+        { documentId: 'doc-2', begin: 'ACME000013', end: 'ACME000013', beginNumber: 13, endNumber: 13, pageCount: 1, nativePath: 'NATIVES/ACME000013.xlsx' },
+      ],
+      pageCount: 3,
+      archive: new Blob([]),
+    } as unknown as Parameters<typeof saveProduction>[0];
+
+    it('should record the production and its documents in one call', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: 'production-1', error: null } as never);
+
+      await expect(saveProduction(production, { prefix: ' ACME ', caseId: 'case-1' })).resolves.toBe('production-1');
+      expect(supabase.rpc).toHaveBeenCalledWith('save_production', {
+        p_production: expect.objectContaining({ case_id: 'case-1', bates_prefix: 'ACME', begin_number: 11, end_number: 13, page_count: 3 }),
+        p_documents: [
+          expect.objectContaining({ document_id: 'doc-1', begin_bates: 'ACME000011', produced_native: false }),
+          expect.objectContaining({ document_id: 'doc-2', end_bates: 'ACME000013', produced_native: true }),
+        ],
+      });
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should pass on a rejected overlapping range', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: null,
+        error: { message: 'Bates numbers 11 to 13 overlap an earlier production under this prefix' },
+      } as never);
+
+      await expect(saveProduction(production, { prefix: 'ACME' })).rejects.toThrow('overlap an earlier production');
+    });
+  });
+
+  describe('nextBatesNumber', () => {
+    it('should continue after the last production under the prefix', async () => {
+      const query = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockResolvedValue({ data: [{ end_number: 245 }], error: null }),
+      };
+      vi.mocked(supabase.from).mockReturnValue(query as unknown as ReturnType<typeof supabase.from>);
+
+      await expect(nextBatesNumber('user-1', 'ACME')).resolves.toBe(246);
+      expect(query.eq).toHaveBeenCalledWith('bates_prefix', 'ACME');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { rebuttalAnalysisSchema } from '@/lib/aiSchemas';
+import {
+  contains,
+  noUnverifiedCitations,
+  notContains,
+  promptHash,
+  recordEvals,
+  recordedProvider,
+  requiredHeadings,
+  runEvals,
+  validJson,
+  type EvalCase,
+} from '@/lib/promptEval';
+import { rebuttalRequestPrompt, rebuttalSystemPrompt, renderPrompt } from '@/lib/prompts';
+import { goldenCases } from '../evals/goldens';
+import recordings from '../evals/recordings.json';
+
+const rebuttalCase = (argument = 'The claim is time-barred.'): EvalCase => ({
+  name: 'rebuttal',
+  system: renderPrompt(rebuttalSystemPrompt, {}),
+  user: renderPrompt(rebuttalRequestPrompt, { argument }),
+  assertions: [validJson(rebuttalAnalysisSchema)],
+});
+
+describe('promptEval', () => {
+  describe('assertions', () => {
+    it('should report missing headings at any level', () => {
+      const check = requiredHeadings(['Argument', 'Conclusion']).check;
+
+      expect(check('# **Argument**\ntext\n### Conclusion ###')).toEqual([]);
+      expect(check('## Argument\nConclusion')).toEqual(['Missing heading "Conclusion"']);
+    });
+
+    it('should accept supplied authorities, Id. and short forms', () => {
+      const check = noUnverifiedCitations(['Roe v. Wade, 410 U.S. 113 (1973)', 'Fed. R. Civ. P. 56']).check;
+
+      expect(check('See Roe v. Wade, 410 U.S. 113, 153 (1973). Id. at 154. Roe, 410 U.S. at 160. Fed. R. Civ. P. 56.')).toEqual([]);
+    });
+
+    it('should flag citations that were not supplied', () => {
+      const check = noUnverifiedCitations(['Roe v. Wade, 410 U.S. 113 (1973)']).check;
+
+      expect(check('Doe v. Bolton, 410 U.S. 179 (1973) is on point.')).toEqual([
+        '"Doe v. Bolton, 410 U.S. 179 (1973)" is not among the supplied authorities',
+      ]);
+      expect(check('Id. at 5.')).toEqual(['"Id. at 5" does not refer to an earlier citation']);
+    });
+
+    it('should check JSON against a schema', () => {
+      const check = validJson(rebuttalAnalysisSchema).check;
+
+      expect(check('Sure: {"weaknesses": ["a"], "counter_arguments": [], "supporting_law": [], "strategic_recommendations": [], "evidence_suggestions": []}')).toEqual([]);
+      expect(check('I cannot help with that.')).toEqual(['Reply contained no JSON object']);
+      expect(check('{"weaknesses": "a"}')[0]).toBe('Reply JSON did not match the schema');
+    });
+
+    it('should match text case-insensitively', () => {
+      expect(contains('Discovery Rule').check('the discovery rule applies')).toEqual([]);
+      expect(notContains('table of authorities').check('# Table of Authorities')).toEqual(['Unexpected "table of authorities"']);
+    });
+  });
+
+  describe('runEvals', () => {
+    it('should score each case by the share of assertions passed', async () => {
+      const evalCase = { ...rebuttalCase(), assertions: [contains('waiver'), contains('estoppel')] };
+
+      const report = await runEvals([evalCase], async () => 'Argue waiver.');
+
+      expect(report.passed).toBe(false);
+      expect(report.score).toBe(0.5);
+      expect(report.results[0]).toEqual({
+        name: 'rebuttal',
+        prompts: ['rebuttal.system@1', 'rebuttal.request@1'],
+        passed: false,
+        score: 0.5,
+        failures: ['contains "estoppel": Missing "estoppel"'],
+      });
+    });
+
+    it('should fail a case whose provider throws', async () => {
+      const report = await runEvals([rebuttalCase()], async () => {
+        throw new Error('Provider unavailable');
+      });
+
+      expect(report.results[0]).toMatchObject({ passed: false, score: 0, failures: ['Provider unavailable'] });
+    });
+  });
+
+  describe('recordedProvider', () => {
+    it('should replay what recordEvals captured', async () => {
+      const reply = '{"weaknesses": [], "counter_arguments": [], "supporting_law": [], "strategic_recommendations": [], "evidence_suggestions": []}';
+      const recorded = await recordEvals([rebuttalCase()], async () => reply);
+
+      expect(recorded.rebuttal.hash).toBe(promptHash(rebuttalCase()));
+      expect((await runEvals([rebuttalCase()], recordedProvider(recorded))).passed).toBe(true);
+    });
+
+    it('should refuse a recording made with different wording', async () => {
+      const recorded = await recordEvals([rebuttalCase()], async () => '{}');
+
+      const report = await runEvals([rebuttalCase('The claim is barred by laches.')], recordedProvider(recorded));
+
+      expect(report.results[0].failures[0]).toContain('changed since rebuttal was recorded; bump the template version');
+    });
+
+    it('should refuse a recording made with another template version', async () => {
+      const recorded = await recordEvals([rebuttalCase()], async () => '{}');
+      const evalCase = { ...rebuttalCase(), user: { ...renderPrompt(rebuttalRequestPrompt, { argument: 'The claim is time-barred.' }), version: 2 } };
+
+      const report = await runEvals([evalCase], recordedProvider(recorded));
+
+      expect(report.results[0].failures[0]).toContain('now sends rebuttal.system@1, rebuttal.request@2; re-record it');
+    });
+  });
+
+  describe('golden cases', () => {
+    it('should pass against the recorded replies', async () => {
+      const report = await runEvals(goldenCases, recordedProvider(recordings));
+
+      expect(report.results.filter(result => !result.passed)).toEqual([]);
+      expect(report.score).toBe(1);
+    });
+  });
+});
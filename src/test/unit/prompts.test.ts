@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PROMPTS,
+  PromptRenderError,
+  agentSystemPrompt,
+  briefRequestPrompt,
+  caseLawSystemPrompt,
+  createPromptRegistry,
+  definePrompt,
+  promptKey,
+  renderPrompt,
+} from '@/lib/prompts';
+
+const brief = {
+  briefLabel: 'Motion to Dismiss',
+  caseTitle: 'Smith v. Acme Corp.',
+  facts: 'No terms were pleaded.',
+  legalIssues: 'Plausibility',
+  ruleCitations: ['Fed. R. Civ. P. 12(b)(6)'],
+};
+
+describe('prompts', () => {
+  describe('renderPrompt', () => {
+    it('should fill in variables and defaults', () => {
+      const rendered = renderPrompt(briefRequestPrompt, brief);
+
+      expect(rendered.id).toBe('brief.request');
+      expect(rendered.version).toBe(1);
+      expect(rendered.text).toContain('Draft a Motion to Dismiss with the following context.');
+      expect(rendered.text).toContain('Jurisdiction: Federal');
+      expect(rendered.text).toContain('No authorities retrieved.');
+    });
+
+    it('should refuse missing or blank required variables', () => {
+      try {
+        renderPrompt(briefRequestPrompt, { ...brief, facts: '  ', ruleCitations: [] });
+        expect.fail('expected a PromptRenderError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(PromptRenderError);
+        expect((error as PromptRenderError).promptId).toBe('brief.request');
+        expect((error as PromptRenderError).missing).toEqual(['facts', 'ruleCitations']);
+      }
+    });
+
+    it('should trim the rendered text', () => {
+      const text = renderPrompt(agentSystemPrompt, { memory: 'Prefers short answers', bulkDataContext: '', userIdentifier: 'user-1' }).text;
+
+      expect(text).toMatch(/^You are/);
+      expect(text.endsWith('User: user-1')).toBe(true);
+      expect(text).toContain('MEMORY:\nPrefers short answers');
+    });
+
+    it('should pick the case law instructions by analysis type', () => {
+      expect(renderPrompt(caseLawSystemPrompt, { analysisType: 'compare' }).text).toContain('comparison matrix');
+
+      const full = renderPrompt(caseLawSystemPrompt, {
+        analysisType: 'full',
+        jurisdiction: 'California',
+        focusAreas: ['standing', 'remedies'],
+      }).text;
+      expect(full).toContain('Focus on implications for California jurisdiction.');
+      expect(full).toContain('Pay special attention to: standing, remedies');
+    });
+  });
+
+  describe('registry', () => {
+    it('should key templates by id and version', () => {
+      expect(promptKey(briefRequestPrompt)).toBe('brief.request@1');
+    });
+
+    it('should register every template once', () => {
+      expect(PROMPTS.get('brief.request')).toBe(briefRequestPrompt);
+      for (const template of PROMPTS.values()) {
+        expect(template.id).toMatch(/^[a-z_]+\.[a-z_]+$/);
+        expect(template.version).toBeGreaterThan(0);
+      }
+    });
+
+    it('should refuse duplicate ids', () => {
+      const copy = definePrompt({ id: 'brief.request', version: 2, description: 'Copy', required: [], render: () => 'x' });
+
+      expect(() => createPromptRegistry([briefRequestPrompt, copy])).toThrow('Prompt brief.request is registered twice');
+    });
+  });
+});
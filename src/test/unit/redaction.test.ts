@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RedactionSession, logRedaction } from '@/lib/redaction';
+import { supabase } from '@/lib/supabase';
+import { mockRedactionConfig } from '../mocks/mockData';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+describe('redaction', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('RedactionSession.redact', () => {
+    it('should redact social security numbers', () => {
+      const session = new RedactionSession(mockRedactionConfig());
+
+      expect(session.redact('SSN: 123-45-6789 and social security number 987654321')).toBe('SSN: [SSN_1] and social security number [SSN_2]');
+    });
+
+    it('should only redact dates labelled as a date of birth', () => {
+      const session = new RedactionSession(mockRedactionConfig());
+
+      expect(session.redact('DOB: 04/12/1980. Complaint filed 03/01/2024. Born on March 3, 1975.')).toBe(
+        'DOB: [DOB_1]. Complaint filed 03/01/2024. Born on [DOB_2].'
+      );
+    });
+
+    it('should redact labelled account numbers and valid card numbers', () => {
+      const session = new RedactionSession(mockRedactionConfig());
+
+      expect(session.redact('Account No. 000123456789 was charged on card 4111 1111 1111 1111.')).toBe(
+        'Account No. [ACCOUNT_1] was charged on card [ACCOUNT_2].'
+      );
+      expect(session.redact('Invoice 1234567890123 is unpaid.')).toBe('Invoice 1234567890123 is unpaid.');
+    });
+
+    it('should redact street addresses with unit, city, state and ZIP', () => {
+      const session = new RedactionSession(mockRedactionConfig());
+
+      expect(session.redact('Served at 1600 Pennsylvania Ave, Suite 200, Washington, DC 20500 yesterday.')).toBe(
+        'Served at [ADDRESS_1] yesterday.'
+      );
+    });
+
+    it('should leave citations and docket numbers alone', () => {
+      const session = new RedactionSession(mockRedactionConfig());
+      const text = 'See Bell Atlantic Corp. v. Twombly, 550 U.S. 544, 570 (2007); No. 2:23-cv-01234; 42 U.S.C. § 1983.';
+
+      expect(session.redact(text)).toBe(text);
+    });
+
+    it('should give the same value the same placeholder in any case', () => {
+      const session = new RedactionSession(mockRedactionConfig({ clientNames: ['Jane Roe', 'Acme Widgets LLC'] }));
+
+      expect(session.redact('Jane Roe sued Acme Widgets LLC.')).toBe('[CLIENT_1] sued [CLIENT_2].');
+      expect(session.redact('JANE  ROE testified.')).toBe('[CLIENT_1] testified.');
+      expect(session.findings()).toEqual([
+        { kind: 'client_name', placeholder: '[CLIENT_1]', occurrences: 2 },
+        { kind: 'client_name', placeholder: '[CLIENT_2]', occurrences: 1 },
+      ]);
+    });
+
+    it('should match names and terms as whole words', () => {
+      const session = new RedactionSession(mockRedactionConfig({ clientNames: ['Ann Lee'], terms: ['Project Falcon'] }));
+
+      expect(session.redact('Ann Leeds discussed project falcon with Ann Lee.')).toBe('Ann Leeds discussed [REDACTED_1] with [CLIENT_1].');
+    });
+  });
+
+  describe('RedactionSession.rehydrate', () => {
+    it('should restore the original values and leave unknown placeholders', () => {
+      const session = new RedactionSession(mockRedactionConfig({ clientNames: ['Jane Roe'] }));
+      session.redact('jane roe, SSN 123-45-6789');
+
+      expect(session.rehydrate('[CLIENT_1] ([SSN_1]) v. [CLIENT_2]')).toBe('jane roe (123-45-6789) v. [CLIENT_2]');
+    });
+
+    it('should hold back placeholders split across stream deltas', () => {
+      const session = new RedactionSession(mockRedactionConfig({ clientNames: ['Jane Roe'] }));
+      session.redact('Jane Roe');
+      const rehydrator = session.rehydrator();
+
+      expect(rehydrator.push('Dear [')).toBe('Dear ');
+      expect(rehydrator.push('CLIENT')).toBe('');
+      expect(rehydrator.push('_1], see [Exhibit A] and [')).toBe('Jane Roe, see [Exhibit A] and ');
+      expect(rehydrator.flush()).toBe('[');
+    });
+  });
+
+  describe('logRedaction', () => {
+    it('should log kinds, counts and placeholders but never values', async () => {
+      const insert = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(supabase.from).mockReturnValue({ insert } as any);
+      const session = new RedactionSession(mockRedactionConfig({ clientNames: ['Jane Roe'] }));
+      session.redact('Jane Roe and jane roe, SSN 123-45-6789');
+
+      await logRedaction(session, { feature: 'document_analyzer', caseId: 'case-1', provider: 'openai' });
+
+      expect(supabase.from).toHaveBeenCalledWith('ai_redaction_log');
+      expect(insert).toHaveBeenCalledWith({
+        feature: 'document_analyzer',
+        case_id: 'case-1',
+        provider: 'openai',
+        counts: { client_name: 2, ssn: 1 },
+        placeholders: ['[CLIENT_1]', '[SSN_1]'],
+      });
+      expect(JSON.stringify(insert.mock.calls)).not.toContain('Jane');
+    });
+
+    it('should not fail the request when logging fails', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.mocked(supabase.from).mockImplementation(() => {
+        throw new Error('offline');
+      });
+
+      await expect(logRedaction(new RedactionSession(mockRedactionConfig()), { provider: 'gemini' })).resolves.toBeUndefined();
+      expect(warn).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  StructuredOutputError,
+  findJsonObjects,
+  generateStructured,
+  parseStructured,
+  toJsonSchema,
+} from '@/lib/structuredOutput';
+import { analysisResultSchema, learningsCandidateSchema, rebuttalAnalysisSchema } from '@/lib/aiSchemas';
+import { legalAiChat } from '@/lib/aiService';
+
+vi.mock('@/lib/aiService', () => ({
+  legalAiChat: vi.fn(),
+}));
+
+const rebuttal = {
+  weaknesses: ['Relies on a repealed statute'],
+  counter_arguments: ['The 2019 amendment controls'],
+  supporting_law: ['Fed. R. Civ. P. 12(b)(6)'],
+  strategic_recommendations: ['Move to dismiss'],
+  evidence_suggestions: ['Legislative history'],
+};
+
+describe('structuredOutput', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  describe('findJsonObjects', () => {
+    it('should find nested objects surrounded by prose', () => {
+      const text = 'Here you go:\n```json\n{"a": {"b": [1, {"c": 2}]}}\n```\nLet me know {if} that helps.';
+
+      expect(findJsonObjects(text)).toEqual(['{"a": {"b": [1, {"c": 2}]}}', '{if}']);
+    });
+
+    it('should ignore braces inside strings', () => {
+      expect(findJsonObjects('{"pattern": "use } and { freely", "quote": "say \\"}\\""}')).toEqual([
+        '{"pattern": "use } and { freely", "quote": "say \\"}\\""}',
+      ]);
+    });
+
+    it('should skip a brace that never closes', () => {
+      expect(findJsonObjects('Section {3 of the lease. {"ok": true}')).toEqual(['{"ok": true}']);
+      expect(findJsonObjects('no json here')).toEqual([]);
+    });
+  });
+
+  describe('parseStructured', () => {
+    it('should return the first object that matches the schema', () => {
+      const text = `Example: {"weaknesses": "not a list"}\n\nAnswer: ${JSON.stringify(rebuttal)}`;
+
+      const { data, error } = parseStructured(rebuttalAnalysisSchema, text);
+
+      expect(error).toBeNull();
+      expect(data).toEqual(rebuttal);
+    });
+
+    it('should fill defaults and normalise enum case', () => {
+      const { data } = parseStructured(analysisResultSchema, JSON.stringify({
+        summary: 'A lease.',
+        keyInformation: {},
+        riskAssessment: { highRisk: ['Uncapped indemnity'] },
+        importantClauses: [{ title: 'Rent', content: 'Rent is due monthly.', importance: 'High', explanation: 'Core term' }],
+      }));
+
+      expect(data?.keyInformation.parties).toEqual([]);
+      expect(data?.importantClauses[0].importance).toBe('high');
+      expect(data?.suggestedEdits).toEqual([]);
+    });
+
+    it('should report where the JSON does not match', () => {
+      const { data, error } = parseStructured(analysisResultSchema, '{"summary": "", "keyInformation": {"parties": "Acme"}}');
+
+      expect(data).toBeNull();
+      expect(error).toBeInstanceOf(StructuredOutputError);
+      expect(error?.failure).toBe('schema_mismatch');
+      expect(error?.issues).toEqual(expect.arrayContaining([
+        expect.stringMatching(/^summary: /),
+        expect.stringMatching(/^keyInformation\.parties: /),
+        expect.stringMatching(/^riskAssessment: /),
+      ]));
+    });
+
+    it('should tell missing JSON from broken JSON', () => {
+      expect(parseStructured(rebuttalAnalysisSchema, 'I cannot help with that.').error?.failure).toBe('no_json');
+      expect(parseStructured(rebuttalAnalysisSchema, '{"weaknesses": [1,}').error?.failure).toBe('invalid_json');
+    });
+
+    it('should read learnings in the agent shape', () => {
+      const { data } = parseStructured(learningsCandidateSchema, JSON.stringify({
+        observed_preferences: [{ key: 'defaults.court', value: 'SDNY', durability_days: 365 }],
+        corrections: ['Use short cites'],
+        failures_and_fixes: ['Retry the export as PDF'],
+      }));
+
+      expect(data?.observed_preferences).toEqual([
+        { key: 'defaults.court', value: 'SDNY', confidence: 1, observedAt: '', category: 'defaults' },
+      ]);
+      expect(data?.corrections[0]).toMatchObject({ correctedAction: 'Use short cites', timestamp: '' });
+      expect(data?.failures_and_fixes[0].solution).toBe('Retry the export as PDF');
+      expect(data?.redact_notes).toEqual([]);
+    });
+  });
+
+  describe('toJsonSchema', () => {
+    it('should describe the schema for providers', () => {
+      const schema = toJsonSchema(analysisResultSchema) as {
+        required: string[];
+        properties: Record<string, { description?: string; items?: { properties: Record<string, unknown> } }>;
+      };
+
+      expect(schema.required).toEqual(['summary', 'keyInformation', 'riskAssessment']);
+      expect(schema.properties.summary).toEqual({ type: 'string', description: 'Two or three sentence summary of the document' });
+      expect(schema.properties.importantClauses.items?.properties.importance).toEqual({ type: 'string', enum: ['high', 'medium', 'low'] });
+      expect(schema.properties.legalCitations).toEqual({
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Statutes, rules and cases the document cites or relies on',
+      });
+    });
+  });
+
+  describe('generateStructured', () => {
+    const request = {
+      schemaName: 'rebuttal_analysis',
+      system: 'You are a litigator.',
+      messages: [{ role: 'user' as const, content: 'Opponent says the claim is time-barred.' }],
+    };
+
+    it('should use JSON mode with the schema where the provider has it', async () => {
+      vi.mocked(legalAiChat).mockResolvedValueOnce({ content: JSON.stringify(rebuttal) });
+
+      await expect(generateStructured(rebuttalAnalysisSchema, request)).resolves.toEqual(rebuttal);
+
+      const sent = vi.mocked(legalAiChat).mock.calls[0][0];
+      expect(sent.responseFormat).toBe('json');
+      expect(sent.schema).toMatchObject({ name: 'rebuttal_analysis', parameters: { type: 'object' } });
+      expect(sent.system).toMatch(/^You are a litigator\.\n\nRespond with a single JSON object/);
+    });
+
+    it('should use a forced tool call for providers without JSON mode', async () => {
+      vi.mocked(legalAiChat).mockResolvedValueOnce({ content: JSON.stringify(rebuttal) });
+
+      await generateStructured(rebuttalAnalysisSchema, { ...request, provider: 'anthropic' });
+
+      const sent = vi.mocked(legalAiChat).mock.calls[0][0];
+      expect(sent.responseFormat).toBeUndefined();
+      expect(sent.schema?.name).toBe('rebuttal_analysis');
+    });
+
+    it('should send an invalid reply back for repair', async () => {
+      vi.mocked(legalAiChat)
+        .mockResolvedValueOnce({ content: 'Sure! {"weaknesses": "one big one"}' })
+        .mockResolvedValueOnce({ content: JSON.stringify(rebuttal) });
+
+      await expect(generateStructured(rebuttalAnalysisSchema, request)).resolves.toEqual(rebuttal);
+
+      const repair = vi.mocked(legalAiChat).mock.calls[1][0].messages;
+      expect(repair).toHaveLength(3);
+      expect(repair[1]).toEqual({ role: 'assistant', content: 'Sure! {"weaknesses": "one big one"}' });
+      expect(repair[2].content).toContain('- weaknesses: Expected array, received string');
+    });
+
+    it('should give up with a typed error once the repairs are used', async () => {
+      vi.mocked(legalAiChat).mockResolvedValue({ content: 'No.' });
+
+      const error = await generateStructured(rebuttalAnalysisSchema, { ...request, maxRepairs: 1 }).catch(err => err);
+
+      expect(error).toBeInstanceOf(StructuredOutputError);
+      expect(error).toMatchObject({ failure: 'no_json', attempts: 2, raw: 'No.' });
+      expect(legalAiChat).toHaveBeenCalledTimes(2);
+    });
+
+    it('should pass transport failures through', async () => {
+      vi.mocked(legalAiChat).mockRejectedValueOnce(new Error('Rate limit exceeded (429)'));
+
+      await expect(generateStructured(rebuttalAnalysisSchema, request)).rejects.toThrow('Rate limit exceeded (429)');
+      expect(legalAiChat).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTableOfAuthorities,
+  formatAuthorityPages,
+  renderTableOfAuthorities,
+} from '@/lib/tableOfAuthorities';
+import type { CourtListenerResult } from '@/lib/courtListener';
+
+const brief = [
+  '# Argument',
+  '',
+  '## I. The Complaint Fails to State a Claim',
+  '',
+  'Dismissal is proper under Fed. R. Civ. P. 12(b)(6). See *Bell Atlantic Corp. v. Twombly*, 550 U.S. 544, 570 (2007).',
+  'A claim must be plausible. *Id.* at 556. The same standard applies to all civil actions.',
+  'Ashcroft v. Iqbal, 556 U.S. 662, 678 (2009). Section 1983 claims are no different. 42 U.S.C. § 1983.',
+  '\f',
+  '## II. Qualified Immunity',
+  '',
+  'Under Twombly, 550 U.S. at 570, the allegations are conclusory. See also Smith v. Jones, 123 F.3d 456 (9th Cir. 1997).',
+  'Jurisdiction rests on 28 U.S.C. § 1331 and U.S. Const. art. III, § 2. The Fourteenth Amendment applies. U.S. Const. amend. XIV, § 1.',
+  'The motion was timely under Local Rule 7-3 and Fed. R. Civ. P. 6(a).',
+].join('\n');
+
+const authority = (volume: string, reporter: string, page: string): CourtListenerResult => ({
+  id: 1,
+  absolute_url: '/opinion/1/',
+  case_name: 'Test',
+  caseName: 'Test',
+  date_filed: '2007-05-21',
+  docket_number: '',
+  court: 'scotus',
+  court_id: 'scotus',
+  citation: [{ volume, reporter, page }],
+  snippet: '',
+});
+
+describe('tableOfAuthorities', () => {
+  describe('buildTableOfAuthorities', () => {
+    it('should group authorities into cases, statutes, rules and other', () => {
+      const table = buildTableOfAuthorities(brief);
+      expect(table.groups.map(group => group.title)).toEqual(['Cases', 'Statutes', 'Rules', 'Other Authorities']);
+    });
+
+    it('should sort cases alphabetically by name', () => {
+      const table = buildTableOfAuthorities(brief);
+      const cases = table.groups.find(group => group.category === 'cases')!;
+      expect(cases.entries.map(entry => entry.formatted)).toEqual([
+        'Ashcroft v. Iqbal, 556 U.S. 662 (2009)',
+        'Bell Atlantic Corp. v. Twombly, 550 U.S. 544 (2007)',
+        'Smith v. Jones, 123 F.3d 456 (9th Cir. 1997)',
+      ]);
+    });
+
+    it('should sort statutes by title and section and rules by rule set and number', () => {
+      const table = buildTableOfAuthorities(brief);
+      const statutes = table.groups.find(group => group.category === 'statutes')!;
+      const rules = table.groups.find(group => group.category === 'rules')!;
+      expect(statutes.entries.map(entry => entry.formatted)).toEqual(['28 U.S.C. § 1331', '42 U.S.C. § 1983']);
+      expect(rules.entries.map(entry => entry.formatted)).toEqual([
+        'Fed. R. Civ. P. 6(a)',
+        'Fed. R. Civ. P. 12(b)(6)',
+        'L.R. 7-3',
+      ]);
+    });
+
+    it('should put articles of the Constitution before amendments', () => {
+      const table = buildTableOfAuthorities(brief);
+      const other = table.groups.find(group => group.category === 'other')!;
+      expect(other.entries.map(entry => entry.formatted)).toEqual([
+        'U.S. Const. art. III, § 2',
+        'U.S. Const. amend. XIV, § 1',
+      ]);
+    });
+
+    it('should count Id. and short forms toward the cited authority', () => {
+      const table = buildTableOfAuthorities(brief);
+      const twombly = table.groups[0].entries.find(entry => entry.citation.volume === '550')!;
+      expect(twombly.occurrences).toBe(3);
+      expect(twombly.pages).toEqual([1, 2]);
+      expect(twombly.sections).toEqual(['I. The Complaint Fails to State a Claim', 'II. Qualified Immunity']);
+    });
+
+    it('should estimate pages from line count when there are no page breaks', () => {
+      const text = `Roe v. Wade, 410 U.S. 113 (1973).${'\n'.repeat(30)}Id. at 153.`;
+      const table = buildTableOfAuthorities(text, { linesPerPage: 26 });
+      expect(table.groups[0].entries[0].pages).toEqual([1, 2]);
+    });
+
+    it('should flag cases that are not among the retrieved authorities', () => {
+      const table = buildTableOfAuthorities(brief, {
+        authorities: [authority('550', 'U.S.', '544'), authority('556', 'U. S.', '662')],
+      });
+      expect(table.unverified.map(entry => entry.citation.caseName)).toEqual(['Smith v. Jones']);
+    });
+
+    it('should not flag anything when no authority list is given', () => {
+      expect(buildTableOfAuthorities(brief).unverified).toEqual([]);
+    });
+  });
+
+  describe('formatAuthorityPages', () => {
+    it('should list pages in order and use passim for frequently cited authorities', () => {
+      const entry = { pages: [3, 1, 2] } as Parameters<typeof formatAuthorityPages>[0];
+      expect(formatAuthorityPages(entry)).toBe('1, 2, 3');
+      expect(formatAuthorityPages({ ...entry, pages: [1, 2, 3, 4, 5] })).toBe('passim');
+    });
+  });
+
+  describe('renderTableOfAuthorities', () => {
+    it('should render headings and mark unverified entries', () => {
+      const markdown = renderTableOfAuthorities(buildTableOfAuthorities(brief, { authorities: [] }));
+      expect(markdown).toContain('## Table of Authorities');
+      expect(markdown).toContain('### Cases');
+      expect(markdown).toContain('Smith v. Jones, 123 F.3d 456 (9th Cir. 1997) [unverified] .......... 2');
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import JSZip from 'jszip';
+import {
+  extractText,
+  formatPagesForCitation,
+  joinPages,
+  joinTextItems,
+  pageSnippet,
+  parseDocxXml,
+  saveDocumentPages,
+  TextExtractionError,
+  type ExtractedPage,
+} from '@/lib/textExtraction';
+import { splitPages } from '@/lib/documentRetrieval';
+import { supabase } from '@/lib/supabase';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+const recognize = vi.fn();
+const terminate = vi.fn();
+vi.mock('tesseract.js', () => ({
+  createWorker: vi.fn(async () => ({ recognize, terminate })),
+}));
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const documentXml = (body: string) =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document xmlns:w="${W}"><w:body>${body}</w:body></w:document>`;
+
+const paragraph = (...runs: string[]) => `<w:p>${runs.map(run => `<w:r>${run}</w:r>`).join('')}</w:p>`;
+const text = (value: string) => `<w:t xml:space="preserve">${value}</w:t>`;
+
+// jsdom's File cannot read itself back, so the bytes are attached as the browser would expose them
+const testFile = (data: Uint8Array | string, name: string, type: string) => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  return Object.assign(new File([bytes as BlobPart], name, { type }), {
+    arrayBuffer: async () => bytes.slice().buffer,
+    text: async () => new TextDecoder().decode(bytes),
+  });
+};
+
+const docxFile = async (body: string, name = 'Lease.docx') => {
+  const zip = new JSZip();
+  zip.file('word/document.xml', documentXml(body));
+  const data = await zip.generateAsync({ type: 'uint8array' });
+  return testFile(data, name, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+};
+
+describe('textExtraction', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('parseDocxXml', () => {
+    it('should read paragraphs, tabs and line breaks', () => {
+      const xml = documentXml(
+        paragraph(text('Section 1.'), '<w:tab/>', text('Rent')) + paragraph(text('Line one'), '<w:br/>', text('Line two'))
+      );
+
+      expect(parseDocxXml(xml)).toEqual(['Section 1.\tRent\nLine one\nLine two']);
+    });
+
+    it('should split pages at explicit and rendered page breaks without counting one twice', () => {
+      const xml = documentXml(
+        paragraph(text('Page one')) +
+          paragraph('<w:br w:type="page"/>') +
+          paragraph('<w:lastRenderedPageBreak/>' + text('Page two')) +
+          paragraph(text('still page two')) +
+          paragraph('<w:lastRenderedPageBreak/>' + text('Page three'))
+      );
+
+      expect(parseDocxXml(xml)).toEqual(['Page one', 'Page two\nstill page two', 'Page three']);
+    });
+
+    it('should honour pageBreakBefore and skip deleted text and field codes', () => {
+      const xml = documentXml(
+        paragraph(text('Recitals')) +
+          `<w:p><w:pPr><w:pageBreakBefore/></w:pPr><w:r>${text('Exhibit A')}</w:r></w:p>` +
+          paragraph('<w:delText>struck</w:delText>', '<w:instrText> PAGE </w:instrText>', text('kept'))
+      );
+
+      expect(parseDocxXml(xml)).toEqual(['Recitals', 'Exhibit A\nkept']);
+    });
+
+    it('should reject malformed XML', () => {
+      expect(() => parseDocxXml('<w:document')).toThrow('not well-formed');
+    });
+  });
+
+  describe('joinTextItems', () => {
+    it('should keep line ends and ignore marked content', () => {
+      const items = [{ str: 'IN THE SUPERIOR COURT', hasEOL: true }, { type: 'beginMarkedContent' }, { str: 'OF CALIFORNIA  ', hasEOL: true }];
+
+      expect(joinTextItems(items)).toBe('IN THE SUPERIOR COURT\nOF CALIFORNIA');
+    });
+  });
+
+  describe('page helpers', () => {
+    const pages: ExtractedPage[] = [
+      { page: 1, text: 'Caption', method: 'text_layer', confidence: null },
+      { page: 2, text: 'Scanned exhibit', method: 'ocr', confidence: 87 },
+    ];
+
+    it('should join pages with form feeds that splitPages reads back', () => {
+      expect(splitPages(joinPages(pages))).toEqual([
+        { page: 1, text: 'Caption' },
+        { page: 2, text: 'Scanned exhibit' },
+      ]);
+    });
+
+    it('should mark pages for citation', () => {
+      expect(formatPagesForCitation(pages)).toBe('[Page 1]\nCaption\n\n[Page 2]\nScanned exhibit');
+      expect(formatPagesForCitation(pages.slice(0, 1))).toBe('Caption');
+    });
+
+    it('should cut a snippet around the first query word', () => {
+      const content = `${'a '.repeat(100)}indemnify the Landlord ${'b '.repeat(100)}`;
+
+      const snippet = pageSnippet(content, 'Indemnify');
+
+      expect(snippet).toContain('indemnify the Landlord');
+      expect(snippet.startsWith('…')).toBe(true);
+      expect(snippet.endsWith('…')).toBe(true);
+    });
+  });
+
+  describe('extractText', () => {
+    it('should extract DOCX files page by page', async () => {
+      const file = await docxFile(paragraph(text('Lease')) + paragraph('<w:br w:type="page"/>') + paragraph(text('Exhibit')));
+
+      const result = await extractText(file);
+
+      expect(result.pages).toEqual([
+        { page: 1, text: 'Lease', method: 'docx', confidence: null },
+        { page: 2, text: 'Exhibit', method: 'docx', confidence: null },
+      ]);
+      expect(result.text).toBe('Lease\fExhibit');
+      expect(result.ocrPages).toBe(0);
+    });
+
+    it('should OCR images with one worker and terminate it', async () => {
+      recognize.mockResolvedValue({ data: { text: 'EXHIBIT 4\nSigned receipt  \n', confidence: 91.6 } });
+      const file = testFile(new Uint8Array([1, 2, 3]), 'exhibit.png', 'image/png');
+
+      const result = await extractText(file);
+
+      expect(result.pages).toEqual([{ page: 1, text: 'EXHIBIT 4\nSigned receipt', method: 'ocr', confidence: 92 }]);
+      expect(result.ocrPages).toBe(1);
+      expect(recognize).toHaveBeenCalledTimes(1);
+      expect(terminate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should read plain text as one page', async () => {
+      const file = testFile('Notice of motion\n', 'notice.txt', 'text/plain');
+
+      const result = await extractText(file);
+
+      expect(result.pages).toEqual([{ page: 1, text: 'Notice of motion', method: 'plain_text', confidence: null }]);
+    });
+
+    it('should throw TextExtractionError for unsupported and unreadable files', async () => {
+      const rtf = testFile('{\\rtf1}', 'brief.rtf', 'application/rtf');
+      const broken = testFile('not a zip', 'broken.docx', '');
+
+      await expect(extractText(rtf)).rejects.toBeInstanceOf(TextExtractionError);
+      await expect(extractText(broken)).rejects.toThrow('Failed to extract text from broken.docx');
+    });
+  });
+
+  describe('saveDocumentPages', () => {
+    it('should replace the pages of a source', async () => {
+      const eq = vi.fn();
+      const deleteQuery = { eq };
+      eq.mockReturnValueOnce(deleteQuery).mockResolvedValueOnce({ error: null });
+      const insert = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(supabase.from).mockImplementation(
+        () => ({ delete: () => deleteQuery, insert }) as unknown as ReturnType<typeof supabase.from>
+      );
+
+      await saveDocumentPages('user-1', { sourceType: 'document', sourceId: 'doc-1' }, [
+        { page: 1, text: 'Scanned exhibit', method: 'ocr', confidence: 87 },
+      ]);
+
+      expect(eq).toHaveBeenCalledWith('source_type', 'document');
+      expect(eq).toHaveBeenCalledWith('source_id', 'doc-1');
+      expect(insert).toHaveBeenCalledWith([
+        {
+          user_id: 'user-1',
+          source_type: 'document',
+          source_id: 'doc-1',
+          page_number: 1,
+          content: 'Scanned exhibit',
+          extraction_method: 'ocr',
+          ocr_confidence: 87,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createManualEntry,
+  dateRangeStart,
+  minutesToBillableHours,
+  roundToBillingIncrement,
+  startTimer,
+  stopTimer,
+  summarizeTimeEntries,
+} from '@/lib/timeEntryService';
+import { mockTimeEntry, queryReturning } from '../mocks/mockData';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+describe('timeEntryService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('roundToBillingIncrement', () => {
+    it('should round up to the next tenth of an hour', () => {
+      expect(roundToBillingIncrement(0.3)).toBe(0.3);
+      expect(roundToBillingIncrement(0.31)).toBe(0.4);
+      expect(roundToBillingIncrement(1.25)).toBe(1.3);
+      expect(roundToBillingIncrement(0)).toBe(0);
+    });
+  });
+
+  describe('minutesToBillableHours', () => {
+    it('should bill each started six-minute increment', () => {
+      expect(minutesToBillableHours(1)).toBe(0.1);
+      expect(minutesToBillableHours(6)).toBe(0.1);
+      expect(minutesToBillableHours(7)).toBe(0.2);
+      expect(minutesToBillableHours(90)).toBe(1.5);
+    });
+  });
+
+  describe('createManualEntry', () => {
+    it('should insert a rounded manual entry linked to the case and client', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      const query = queryReturning({ data: { id: 'e1' }, error: null });
+      vi.mocked(supabase.from).mockReturnValue(query as never);
+
+      await createManualEntry('user-1', {
+        hours: 1.22,
+        caseId: 'case-1',
+        clientId: 'client-1',
+        entryDate: '2024-03-04',
+        utbmsTaskCode: 'L240',
+        utbmsActivityCode: 'A103',
+      });
+
+      expect(supabase.from).toHaveBeenCalledWith('time_entries');
+      expect(query.insert.mock.calls[0][0]).toMatchObject({
+        user_id: 'user-1',
+        case_id: 'case-1',
+        client_id: 'client-1',
+        entry_date: '2024-03-04',
+        hours: 1.3,
+        duration_minutes: 78,
+        billable: true,
+        utbms_task_code: 'L240',
+        utbms_activity_code: 'A103',
+        source: 'manual',
+      });
+    });
+
+    it('should reject unknown UTBMS codes and empty entries', async () => {
+      await expect(createManualEntry('user-1', { hours: 1, utbmsTaskCode: 'X999' })).rejects.toThrow('task code');
+      await expect(createManualEntry('user-1', { hours: 1, utbmsActivityCode: 'A999' })).rejects.toThrow('activity code');
+      await expect(createManualEntry('user-1', { hours: 0 })).rejects.toThrow('0.1 hours');
+    });
+  });
+
+  describe('startTimer', () => {
+    it('should not start a second timer', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.from).mockReturnValue(queryReturning({ data: { id: 'running' }, error: null }) as never);
+
+      await expect(startTimer('user-1')).rejects.toThrow('already running');
+    });
+  });
+
+  describe('stopTimer', () => {
+    it('should record the elapsed time rounded up to the billing increment', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      const load = queryReturning({ data: { started_at: '2024-03-04T09:00:00.000Z', ended_at: null }, error: null });
+      const save = queryReturning({ data: { id: 'e1' }, error: null });
+      vi.mocked(supabase.from).mockReturnValueOnce(load as never).mockReturnValueOnce(save as never);
+
+      await stopTimer('e1', new Date('2024-03-04T09:43:00.000Z'));
+
+      expect(save.update.mock.calls[0][0]).toEqual({
+        ended_at: '2024-03-04T09:43:00.000Z',
+        duration_minutes: 43,
+        hours: 0.8,
+      });
+    });
+
+    it('should not overwrite a timer stopped in the meantime', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      const load = queryReturning({ data: { started_at: '2024-03-04T09:00:00.000Z', ended_at: null }, error: null });
+      const save = queryReturning({ data: null, error: null });
+      vi.mocked(supabase.from).mockReturnValueOnce(load as never).mockReturnValueOnce(save as never);
+
+      await expect(stopTimer('e1', new Date('2024-03-04T09:43:00.000Z'))).rejects.toThrow('This timer was already stopped');
+      expect(save.is).toHaveBeenCalledWith('ended_at', null);
+    });
+
+    it('should refuse to stop a timer that already stopped', async () => {
+      const { supabase } = await import('@/lib/supabase');
+      vi.mocked(supabase.from).mockReturnValue(queryReturning({
+        data: { started_at: '2024-03-04T09:00:00.000Z', ended_at: '2024-03-04T10:00:00.000Z' },
+        error: null,
+      }) as never);
+
+      await expect(stopTimer('e1')).rejects.toThrow('not running');
+    });
+  });
+
+  describe('dateRangeStart', () => {
+    it('should include today in the range', () => {
+      expect(dateRangeStart('7d', new Date(2024, 2, 10)).toDateString()).toBe(new Date(2024, 2, 4).toDateString());
+    });
+  });
+
+  describe('summarizeTimeEntries', () => {
+    const entries = [
+      mockTimeEntry({ id: 'a', hours: 2.5, utbms_activity_code: 'A103', utbms_task_code: 'L240' }),
+      mockTimeEntry({ id: 'b', hours: 1.2, billable: false, case_id: null, cases: null, entry_date: '2024-03-12' }),
+      mockTimeEntry({ id: 'c', hours: 0.3, rate: 400, entry_date: '2024-03-12', utbms_activity_code: 'A103' }),
+      mockTimeEntry({ id: 'd', hours: 0, source: 'timer', started_at: '2024-03-12T09:00:00Z' }),
+    ];
+
+    it('should total billable and non-billable hours, leaving out running timers', () => {
+      const summary = summarizeTimeEntries(entries);
+      expect(summary).toMatchObject({
+        entryCount: 3,
+        totalHours: 4,
+        billableHours: 2.8,
+        nonBillableHours: 1.2,
+        billableRate: 70,
+        billableAmount: 870,
+        daysWorked: 2,
+        averageDailyHours: 2,
+      });
+    });
+
+    it('should break hours down by case, activity code and week', () => {
+      const summary = summarizeTimeEntries(entries);
+      expect(summary.byCase.map(({ label, hours }) => [label, hours])).toEqual([
+        ['Smith v. Jones', 2.8],
+        ['No case', 1.2],
+      ]);
+      expect(summary.byActivityCode[0]).toMatchObject({ key: 'A103', label: 'A103 Draft/revise', hours: 2.8 });
+      expect(summary.byWeek.map(week => week.key)).toEqual(['2024-03-04', '2024-03-11']);
+    });
+  });
+});
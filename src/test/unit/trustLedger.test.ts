@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  TrustOverdraftError,
+  availableToDisburse,
+  buildThreeWayReconciliation,
+  calculateClientLedgers,
+  formatReconciliationReport,
+  recordDeposit,
+  recordDisbursement,
+} from '@/lib/trustLedger';
+import { mockTrustTransaction, mockQueries, queryReturning } from '../mocks/mockData';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+describe('trustLedger', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('recordDeposit', () => {
+    it('should require a memo and a positive amount in whole cents', async () => {
+      const input = { accountId: 'acct-1', clientId: 'client-a', amount: 100, memo: 'Retainer' };
+      await expect(recordDeposit('user-1', { ...input, memo: ' ' })).rejects.toThrow('memo');
+      await expect(recordDeposit('user-1', { ...input, amount: 0 })).rejects.toThrow('greater than zero');
+      await expect(recordDeposit('user-1', { ...input, amount: 10.005 })).rejects.toThrow('fractions of a cent');
+    });
+
+    it('should insert the deposit on the client ledger', async () => {
+      const insert = queryReturning({ data: { id: 't1' }, error: null });
+      await mockQueries(insert);
+
+      await recordDeposit('user-1', {
+        accountId: 'acct-1',
+        clientId: 'client-a',
+        amount: 2500,
+        transactionDate: '2024-03-01',
+        memo: 'Retainer',
+        reference: 'Check 1042',
+      });
+
+      expect(insert.insert.mock.calls[0][0]).toMatchObject({
+        account_id: 'acct-1',
+        client_id: 'client-a',
+        transaction_type: 'deposit',
+        amount: 2500,
+        transaction_date: '2024-03-01',
+        payee: null,
+        memo: 'Retainer',
+        reference: 'Check 1042',
+      });
+    });
+  });
+
+  describe('recordDisbursement', () => {
+    const input = { accountId: 'acct-1', clientId: 'client-a', memo: 'Filing fee', payee: 'Clerk of Court' };
+
+    it('should require a payee', async () => {
+      await expect(recordDisbursement('user-1', { ...input, amount: 50, payee: '' })).rejects.toThrow('payee');
+    });
+
+    it('should refuse to overdraw the client balance', async () => {
+      const history = queryReturning({
+        data: [mockTrustTransaction({ amount: 500 }), mockTrustTransaction({ transaction_type: 'disbursement', amount: 450, payee: 'Expert' })],
+        error: null,
+      });
+      const from = await mockQueries(history);
+
+      const attempt = recordDisbursement('user-1', { ...input, amount: 75 });
+
+      await expect(attempt).rejects.toBeInstanceOf(TrustOverdraftError);
+      await expect(attempt).rejects.toThrow('$50.00');
+      expect(history.eq).toHaveBeenCalledWith('client_id', 'client-a');
+      expect(from).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse a backdated disbursement the balance did not cover on that date', async () => {
+      const history = queryReturning({
+        data: [
+          mockTrustTransaction({ amount: 100, transaction_date: '2024-03-05' }),
+          mockTrustTransaction({ amount: 900, transaction_date: '2024-04-01' }),
+        ],
+        error: null,
+      });
+      await mockQueries(history);
+
+      const attempt = recordDisbursement('user-1', { ...input, amount: 300, transactionDate: '2024-03-10' });
+
+      await expect(attempt).rejects.toThrow('$100.00 on or after 2024-03-10');
+    });
+
+    it('should count a backdated disbursement against every later balance', () => {
+      const history = [
+        mockTrustTransaction({ amount: 1000, transaction_date: '2024-03-01' }),
+        mockTrustTransaction({ transaction_type: 'disbursement', amount: 800, transaction_date: '2024-03-20' }),
+        mockTrustTransaction({ amount: 500, transaction_date: '2024-04-01' }),
+      ];
+
+      // Today's balance is 700, but only 200 was left after the payment on the 20th
+      expect(availableToDisburse(history, '2024-03-10')).toBe(200);
+      expect(availableToDisburse(history, '2024-04-02')).toBe(700);
+    });
+
+    it('should record a disbursement the balance covers', async () => {
+      const history = queryReturning({ data: [mockTrustTransaction({ amount: 500 })], error: null });
+      const insert = queryReturning({ data: { id: 't2' }, error: null });
+      await mockQueries(history, insert);
+
+      await recordDisbursement('user-1', { ...input, amount: 500 });
+
+      expect(insert.insert.mock.calls[0][0]).toMatchObject({
+        transaction_type: 'disbursement',
+        amount: 500,
+        payee: 'Clerk of Court',
+      });
+    });
+  });
+
+  describe('calculateClientLedgers', () => {
+    it('should keep a separate balance for each client', () => {
+      const ledgers = calculateClientLedgers([
+        mockTrustTransaction({ client_id: 'client-a', amount: 1000 }),
+        mockTrustTransaction({ client_id: 'client-b', amount: 300, clients: { name: 'Baker LLC' } }),
+        mockTrustTransaction({ client_id: 'client-a', transaction_type: 'disbursement', amount: 250.5, payee: 'Court' }),
+        mockTrustTransaction({ client_id: 'client-b', amount: 50, transaction_date: '2024-04-02', clients: { name: 'Baker LLC' } }),
+      ], '2024-03-31');
+
+      expect(ledgers.map(ledger => [ledger.clientName, ledger.balance])).toEqual([
+        ['Acme Corp', 749.5],
+        ['Baker LLC', 300],
+      ]);
+    });
+  });
+
+  describe('buildThreeWayReconciliation', () => {
+    const history = () => [
+      mockTrustTransaction({ amount: 1000, transaction_date: '2024-02-10', cleared_date: '2024-02-11' }),
+      mockTrustTransaction({ client_id: 'client-b', clients: { name: 'Baker LLC' }, amount: 400, transaction_date: '2024-03-04', cleared_date: '2024-03-05' }),
+      mockTrustTransaction({ transaction_type: 'disbursement', amount: 200, payee: 'Expert', transaction_date: '2024-03-12', cleared_date: null }),
+      mockTrustTransaction({ client_id: 'client-b', clients: { name: 'Baker LLC' }, amount: 150, transaction_date: '2024-03-29', cleared_date: '2024-04-01' }),
+      mockTrustTransaction({ amount: 999, transaction_date: '2024-04-03', cleared_date: null }),
+    ];
+
+    it('should reconcile bank, book and client ledgers for the month', () => {
+      const report = buildThreeWayReconciliation('acct-1', history(), '2024-03', 1400);
+
+      expect(report.periodStart).toBe('2024-03-01');
+      expect(report.periodEnd).toBe('2024-03-31');
+      expect(report.bank.depositsInTransit.map(item => item.amount)).toEqual([150]);
+      expect(report.bank.outstandingDisbursements.map(item => item.amount)).toEqual([200]);
+      expect(report.bank.adjustedBalance).toBe(1350);
+      expect(report.book).toEqual({ openingBalance: 1000, deposits: 550, disbursements: 200, closingBalance: 1350 });
+      expect(report.clientLedgerTotal).toBe(1350);
+      expect(report.balanced).toBe(true);
+      expect(report.exceptions).toEqual([]);
+    });
+
+    it('should report a bank difference', () => {
+      const report = buildThreeWayReconciliation('acct-1', history(), '2024-03', 1390);
+
+      expect(report.balanced).toBe(false);
+      expect(report.differences.bankToBook).toBe(-10);
+      expect(report.exceptions[0]).toContain('-$10.00');
+    });
+
+    it('should flag a negative client ledger even when totals agree', () => {
+      const report = buildThreeWayReconciliation('acct-1', [
+        mockTrustTransaction({ amount: 100, transaction_date: '2024-03-01' }),
+        mockTrustTransaction({ client_id: 'client-b', clients: { name: 'Baker LLC' }, transaction_type: 'disbursement', amount: 40, payee: 'Court', transaction_date: '2024-03-02', cleared_date: '2024-03-03' }),
+      ], '2024-03', 60);
+
+      expect(report.balanced).toBe(false);
+      expect(report.exceptions).toEqual(['Baker LLC has a negative trust balance of -$40.00']);
+    });
+
+    it('should format a report covering all three balances', () => {
+      const text = formatReconciliationReport(buildThreeWayReconciliation('acct-1', history(), '2024-03', 1400));
+
+      expect(text).toContain('Status: Reconciled');
+      expect(text).toContain('Adjusted bank balance: $1,350.00');
+      expect(text).toContain('Baker LLC: opening $0.00, deposits $550.00');
+      expect(text).toContain('All three balances agree.');
+    });
+  });
+});
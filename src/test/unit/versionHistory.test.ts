@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  addMilestone,
+  compareVersions,
+  listVersions,
+  saveVersion,
+  sideBySide,
+  VersionHistoryError,
+  type DocumentVersion,
+} from '@/lib/versionHistory';
+import { compareDocuments } from '@/lib/documentDiff';
+import { supabase } from '@/lib/supabase';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: { from: vi.fn() },
+}));
+
+// A query builder whose chain resolves to the given results, one per awaited query
+const queries = (...results: Array<{ data: unknown; error: unknown }>) => {
+  const builders = results.map(result => {
+    const builder: Record<string, unknown> = {};
+    for (const method of ['select', 'insert', 'eq', 'order', 'limit', 'single']) {
+      builder[method] = vi.fn(() => builder);
+    }
+    builder.then = (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+      Promise.resolve(result).then(resolve, reject);
+    return builder;
+  });
+  builders.forEach(builder => vi.mocked(supabase.from).mockReturnValueOnce(builder as unknown as ReturnType<typeof supabase.from>));
+  return builders as Array<Record<string, ReturnType<typeof vi.fn>>>;
+};
+
+const version = (versionNumber: number, content: string): DocumentVersion => ({
+  id: `v${versionNumber}`,
+  user_id: 'user-1',
+  subject_type: 'draft',
+  subject_id: 'draft-1',
+  version_number: versionNumber,
+  title: 'Motion to Dismiss',
+  content,
+  metadata: {},
+  author_name: 'Jane Smith',
+  restored_from: null,
+  created_at: `2025-02-0${versionNumber}T10:00:00.000Z`,
+  milestones: [],
+});
+
+const author = { id: 'user-1', name: 'Jane Smith' };
+const subject = { type: 'draft' as const, id: 'draft-1' };
+
+describe('versionHistory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  describe('sideBySide', () => {
+    it('should align unchanged lines and mark edited ones', () => {
+      const { segments } = compareDocuments('I. INTRODUCTION\nThe motion is timely.\nIII. ARGUMENT', 'I. INTRODUCTION\nThe motion is plainly timely.\nIII. ARGUMENT');
+      const rows = sideBySide(segments);
+
+      expect(rows.map(row => row.changed)).toEqual([false, true, false]);
+      expect(rows[1].left.map(segment => segment.text).join('')).toBe('The motion is timely.');
+      expect(rows[1].right.filter(segment => segment.type === 'insert').map(segment => segment.text.trim())).toEqual(['plainly']);
+    });
+
+    it('should pad the side without a matching line', () => {
+      const text = (line: Array<{ text: string }> | null) => line && line.map(segment => segment.text).join('');
+      const layout = (original: string, revised: string) =>
+        sideBySide(compareDocuments(original, revised).segments).map(row => [text(row.left), text(row.right), row.changed]);
+
+      expect(layout('Heading\nBody', 'Heading\nNew paragraph\nBody')).toEqual([
+        ['Heading', 'Heading', false],
+        [null, 'New paragraph', true],
+        ['Body', 'Body', false],
+      ]);
+      expect(layout('Heading\nBody', 'Heading\nBody text\nNew paragraph')).toEqual([
+        ['Heading', 'Heading', false],
+        ['Body', 'Body text', true],
+        [null, 'New paragraph', true],
+      ]);
+    });
+  });
+
+  describe('compareVersions', () => {
+    it('should put the older version on the left whichever is picked first', async () => {
+      const { older, newer, comparison } = await compareVersions(version(3, 'as filed'), version(1, 'first draft'));
+
+      expect([older.version_number, newer.version_number]).toEqual([1, 3]);
+      expect(comparison.changes).toHaveLength(1);
+    });
+  });
+
+  describe('saveVersion', () => {
+    it('should save the next version number with its author', async () => {
+      const [, insert] = queries(
+        { data: [{ version_number: 4 }], error: null },
+        { data: { ...version(5, 'text'), version_milestones: undefined }, error: null }
+      );
+
+      const saved = await saveVersion(subject, author, { title: 'Motion', content: 'text' }, { restoredFrom: 2 });
+
+      expect(saved.version_number).toBe(5);
+      expect(saved.milestones).toEqual([]);
+      expect(insert.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ version_number: 5, author_name: 'Jane Smith', restored_from: 2, subject_type: 'draft', metadata: {} })
+      );
+    });
+
+    it('should take the following number when another save got there first', async () => {
+      const [, , , retry] = queries(
+        { data: [{ version_number: 1 }], error: null },
+        { data: null, error: { code: '23505', message: 'duplicate key' } },
+        { data: [{ version_number: 2 }], error: null },
+        { data: version(3, 'text'), error: null }
+      );
+
+      await expect(saveVersion(subject, author, { title: 'Motion', content: 'text' })).resolves.toMatchObject({ version_number: 3 });
+      expect(retry.insert).toHaveBeenCalledWith(expect.objectContaining({ version_number: 3 }));
+    });
+
+    it('should surface other failures', async () => {
+      queries({ data: [], error: null }, { data: null, error: { code: '42501', message: 'permission denied' } });
+
+      await expect(saveVersion(subject, author, { title: 'Motion', content: 'text' })).rejects.toThrow(VersionHistoryError);
+    });
+  });
+
+  describe('listVersions', () => {
+    it('should attach milestones in the order they were marked', async () => {
+      queries({
+        data: [
+          {
+            ...version(2, 'text'),
+            version_milestones: [
+              { id: 'm2', version_id: 'v2', name: 'As filed', created_at: '2025-02-03T00:00:00Z' },
+              { id: 'm1', version_id: 'v2', name: 'Sent to client', created_at: '2025-02-02T00:00:00Z' },
+            ],
+          },
+        ],
+        error: null,
+      });
+
+      const [loaded] = await listVersions('user-1', subject);
+      expect(loaded.milestones.map(milestone => milestone.name)).toEqual(['Sent to client', 'As filed']);
+      expect(loaded).not.toHaveProperty('version_milestones');
+    });
+  });
+
+  describe('addMilestone', () => {
+    it('should explain a duplicate milestone', async () => {
+      queries({ data: null, error: { code: '23505', message: 'duplicate key' } });
+
+      await expect(addMilestone('user-1', 'v2', ' As filed ')).rejects.toThrow('already marked "As filed"');
+    });
+
+    it('should refuse a blank name', async () => {
+      await expect(addMilestone('user-1', 'v2', '  ')).rejects.toThrow('Name the milestone');
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { buildXlsx, columnName } from '@/lib/xlsx';
+
+describe('xlsx', () => {
+  describe('columnName', () => {
+    it('should letter columns like a spreadsheet', () => {
+      expect([0, 25, 26, 51, 52, 701, 702].map(columnName)).toEqual(['A', 'Z', 'AA', 'AZ', 'BA', 'ZZ', 'AAA']);
+    });
+  });
+
+  describe('buildXlsx', () => {
+    it('should write a bold header row and escaped inline strings', async () => {
+      const workbook = await buildXlsx([
+        {
+          name: 'Privilege Log',
+          columns: [{ header: 'Log No.', width: 10 }, { header: 'Description' }, { header: 'Pages' }],
+          rows: [['PRIV-0001', 'Email re: "A & B" <draft>\u0001', 3]],
+        },
+      ]);
+
+      const zip = await JSZip.loadAsync(workbook);
+      expect(Object.keys(zip.files)).toEqual(
+        expect.arrayContaining(['[Content_Types].xml', '_rels/.rels', 'xl/workbook.xml', 'xl/styles.xml', 'xl/worksheets/sheet1.xml'])
+      );
+      const sheet = await zip.file('xl/worksheets/sheet1.xml').async('string');
+      expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Log No.</t></is></c>');
+      expect(sheet).toContain('Email re: &quot;A &amp; B&quot; &lt;draft&gt;</t>');
+      expect(sheet).toContain('<c r="C2" s="2"><v>3</v></c>');
+      expect(sheet).toContain('<col min="1" max="1" width="10" customWidth="1"/>');
+    });
+
+    it('should make sheet names valid and unique', async () => {
+      const workbook = await buildXlsx([
+        { name: 'Log: 2024/25', columns: [{ header: 'A' }], rows: [] },
+        { name: 'log  2024 25', columns: [{ header: 'A' }], rows: [] },
+      ]);
+
+      const xml = await (await JSZip.loadAsync(workbook)).file('xl/workbook.xml').async('string');
+      expect(xml).toContain('name="Log  2024 25"');
+      expect(xml).toContain('name="log  2024 25 2"');
+    });
+
+    it('should refuse an empty workbook', async () => {
+      await expect(buildXlsx([])).rejects.toThrow('at least one sheet');
+    });
+  });
+});
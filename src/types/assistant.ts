@@ -2,6 +2,7 @@
  * Types for the In-App Assistant Memory System
  * 
  * This defines the structure for learning user preferences and adapting behavior.
+ * The DocketChief agent (AI Chat) and the Smart Assistant share this one memory model.
  */
 
 export interface ObservedPreference {
@@ -25,6 +26,8 @@ export interface RepeatedTask {
   frequency: number;
   lastOccurrence: string;
   suggestedAutomation?: string;
+  triggerPhrases?: string[];
+  steps?: string[];
 }
 
 export interface FailureAndFix {
@@ -60,61 +63,69 @@ export interface LearningsCandidate {
   redact_notes: RedactNote[];
 }
 
+export type MemoryTone = 'concise' | 'balanced' | 'detailed';
+
 /**
- * MEMORY - The persistent memory object loaded on each request
+ * How the agent and assistant learn, shared by both
  */
-export interface AssistantMemory {
-  version: string;
-  userId: string;
-  lastUpdated: string;
-  
-  // User preferences
-  preferences: {
-    tone: 'concise' | 'detailed' | 'balanced';
-    confirmationThreshold: number; // confidence level below which to ask
-    autoApplyLearnings: boolean;
-    storeInteractions: boolean; // privacy control
-  };
-  
-  // Learned behaviors
-  learnedPreferences: ObservedPreference[];
-  userCorrections: UserCorrection[];
-  repeatedTasks: RepeatedTask[];
-  
-  // Workflow adaptations
-  defaultValues: Record<string, any>;
-  customWorkflows: Array<{
-    name: string;
-    steps: string[];
-    triggers: string[];
-  }>;
-  
-  // Privacy and redaction rules
-  redactionPatterns: string[];
-  optedOutCategories: string[];
+export interface MemorySettings {
+  tone: MemoryTone;
+  confirmationThreshold: number; // confidence level below which to ask
+  autoApplyLearnings: boolean;
+  rememberPreferences: boolean; // privacy control; off forgets every learned item
+  storeEmails: boolean;
+}
+
+export interface LearnedDefault {
+  key: string;
+  value: string;
+}
+
+interface MemoryItemBase {
+  // `${kind}:${hash of the natural key}`, so the same learning on two devices is one item
+  id: string;
+  updatedAt: string; // ISO timestamp of the last change, which decides sync conflicts
 }
 
 /**
- * Initial/default memory structure
+ * One individually viewable and deletable thing the memory holds
  */
-export const createDefaultMemory = (userId: string): AssistantMemory => ({
-  version: '1.0.0',
-  userId,
-  lastUpdated: new Date().toISOString(),
-  preferences: {
-    tone: 'balanced',
-    confirmationThreshold: 0.7,
-    autoApplyLearnings: true,
-    storeInteractions: true,
-  },
-  learnedPreferences: [],
-  userCorrections: [],
-  repeatedTasks: [],
-  defaultValues: {},
-  customWorkflows: [],
-  redactionPatterns: [],
-  optedOutCategories: [],
-});
+export type MemoryItem =
+  | (MemoryItemBase & { kind: 'preference'; value: ObservedPreference })
+  | (MemoryItemBase & { kind: 'default'; value: LearnedDefault })
+  | (MemoryItemBase & { kind: 'correction'; value: UserCorrection })
+  | (MemoryItemBase & { kind: 'task'; value: RepeatedTask })
+  | (MemoryItemBase & { kind: 'redaction'; value: RedactNote });
+
+export type MemoryItemKind = MemoryItem['kind'];
+
+/**
+ * MEMORY - The persistent memory object loaded on each request, cached offline and synced
+ * to the user_memory_* tables
+ */
+export interface UserMemory {
+  schemaVersion: number;
+  userId: string;
+  settings: MemorySettings;
+  settingsUpdatedAt: string;
+  items: Record<string, MemoryItem>;
+  // Item id -> when it was deleted; kept so the deletion reaches the user's other devices
+  deletedItems: Record<string, string>;
+
+  // Sync bookkeeping: local changes not yet on the server, and the server time pulled up to
+  pendingItemIds: string[];
+  settingsPending: boolean;
+  syncCursor: string | null;
+  lastSyncedAt: string | null;
+}
+
+export const DEFAULT_MEMORY_SETTINGS: MemorySettings = {
+  tone: 'balanced',
+  confirmationThreshold: 0.7,
+  autoApplyLearnings: true,
+  rememberPreferences: true,
+  storeEmails: false,
+};
 
 /**
  * Message structure for assistant chat
@@ -125,5 +136,5 @@ export interface AssistantMessage {
   content: string;
   timestamp: string;
   learningsCandidate?: LearningsCandidate;
-  memorySnapshot?: Partial<AssistantMemory>;
+  memorySnapshot?: Partial<UserMemory>;
 }
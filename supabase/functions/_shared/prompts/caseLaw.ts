@@ -0,0 +1,118 @@
+/**
+ * case-law-analysis edge function
+ */
+import { definePrompt } from './registry.ts';
+
+export type CaseLawAnalysisType = 'summary' | 'precedents' | 'holdings' | 'full' | 'compare';
+
+const SYSTEM_PROMPTS: Record<Exclude<CaseLawAnalysisType, 'full'>, string> = {
+  summary: `You are a legal analyst. Provide a concise summary of the case law provided. Include:
+1. Case name and citation
+2. Court and date
+3. Key facts
+4. Legal issues
+5. Holding/Decision
+6. Rationale
+
+Be precise and use legal terminology appropriately.`,
+
+  precedents: `You are a legal research specialist. Analyze the case law and identify:
+1. Key precedents cited
+2. How they were applied
+3. Any precedents distinguished or overruled
+4. The precedential value of this case
+
+Focus on the chain of legal authority.`,
+
+  holdings: `You are a legal analyst. Extract and explain the legal holdings from this case. For each holding:
+1. State the legal principle clearly
+2. Explain the reasoning
+3. Identify any limitations or qualifications
+4. Note the binding authority
+
+Be thorough and precise.`,
+
+  compare: `You are a legal analyst comparing two cases. Analyze and compare:
+1. Similarities in facts
+2. Differences in facts
+3. Similar legal issues
+4. Different legal issues
+5. Consistency or conflict in holdings
+6. Potential implications of any differences
+
+Provide a clear comparison matrix.`,
+};
+
+export const caseLawSystemPrompt = definePrompt<{
+  analysisType: CaseLawAnalysisType;
+  jurisdiction?: string;
+  focusAreas?: string[];
+}>({
+  id: 'case_law.system',
+  version: 1,
+  description: 'Analyst instructions for each case law analysis type; full analysis can focus on a jurisdiction and topics',
+  required: ['analysisType'],
+  render: ({ analysisType, jurisdiction, focusAreas }) => {
+    if (analysisType !== 'full' && SYSTEM_PROMPTS[analysisType]) return SYSTEM_PROMPTS[analysisType];
+
+    return `You are an expert legal analyst. Provide a comprehensive analysis of this case law including:
+
+1. **Case Information**
+   - Name, citation, court, date
+
+2. **Facts**
+   - Key factual background
+   - Procedural history
+
+3. **Legal Issues**
+   - Questions presented
+   - Area(s) of law involved
+
+4. **Holdings**
+   - Court's decision(s)
+   - Legal principles established
+
+5. **Reasoning**
+   - Court's analysis
+   - Precedents relied upon
+   - Policy considerations
+
+6. **Significance**
+   - Impact on law
+   - Precedential value
+   - Practical implications
+
+${jurisdiction ? `Focus on implications for ${jurisdiction} jurisdiction.` : ''}
+${focusAreas && focusAreas.length > 0 ? `Pay special attention to: ${focusAreas.join(', ')}` : ''}
+
+Be thorough, accurate, and use proper legal terminology.`;
+  },
+});
+
+export const caseComparisonPrompt = definePrompt<{ caseText: string; compareWith: string }>({
+  id: 'case_law.compare_request',
+  version: 1,
+  description: 'The two cases of a comparison, each cut to 7,000 characters',
+  required: ['caseText', 'compareWith'],
+  render: ({ caseText, compareWith }) =>
+    `CASE 1:\n${caseText.substring(0, 7000)}\n\n---\n\nCASE 2:\n${compareWith.substring(0, 7000)}`,
+});
+
+export const caseExtractionSystemPrompt = definePrompt({
+  id: 'case_law.extraction_system',
+  version: 1,
+  description: 'Persona for pulling structured case data out of an analysis',
+  required: [],
+  render: () => 'You are a data extraction assistant. Respond only with valid JSON.',
+});
+
+export const caseExtractionPrompt = definePrompt<{ analysis: string }>({
+  id: 'case_law.extraction_request',
+  version: 1,
+  description: 'Asks for the case name, citation, court, year, holdings and precedents in an analysis',
+  required: ['analysis'],
+  render: ({ analysis }) => `From the following case analysis, extract the case name, citation (empty if not given), court, year, main legal holdings and the cases it cites.
+
+Analysis:
+${analysis.substring(0, 3000)}`,
+});
@@ -0,0 +1,85 @@
+/**
+ * Prompt templates: named, versioned prompts with typed variables
+ * Every prompt the app sends lives in a template module, in src/lib/prompts or, for prompts
+ * the edge functions send, next to this file. A template's version is bumped whenever its
+ * wording changes, so recorded evaluations and logged requests can be tied to the exact
+ * wording that produced them.
+ *
+ * Template modules import nothing but this file, with its .ts extension. This directory is
+ * deployed with the edge functions; src/lib/prompts re-exports it for the app.
+ */
+
+export type PromptValue = string | number | boolean | string[] | null | undefined;
+
+export type PromptVariables = Record<string, PromptValue>;
+
+export interface PromptTemplate<V extends PromptVariables = PromptVariables> {
+  // Dotted feature.purpose name, e.g. 'brief.system'
+  id: string;
+  version: number;
+  description: string;
+  // Variables that must be given and non-empty; callers outside TypeScript are checked at render time
+  required: Array<keyof V & string>;
+  render: (variables: V) => string;
+}
+
+export interface RenderedPrompt {
+  id: string;
+  version: number;
+  text: string;
+}
+
+export class PromptRenderError extends Error {
+  public promptId: string;
+  public missing: string[];
+
+  constructor(promptId: string, missing: string[]) {
+    super(`Prompt ${promptId} is missing ${missing.join(', ')}`);
+    this.name = 'PromptRenderError';
+    this.promptId = promptId;
+    this.missing = missing;
+  }
+}
+
+/**
+ * Declare a template; the variable types come from the render function
+ */
+export function definePrompt<V extends PromptVariables = Record<string, never>>(template: PromptTemplate<V>): PromptTemplate<V> {
+  return template;
+}
+
+const isEmpty = (value: PromptValue) =>
+  value === undefined || value === null || (typeof value === 'string' && !value.trim()) || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Fill in a template's variables
+ */
+export function renderPrompt<V extends PromptVariables>(template: PromptTemplate<V>, variables: V): RenderedPrompt {
+  const missing = template.required.filter(name => isEmpty(variables[name]));
+  if (missing.length > 0) {
+    throw new PromptRenderError(template.id, missing);
+  }
+
+  return { id: template.id, version: template.version, text: template.render(variables).trim() };
+}
+
+/**
+ * `id@version`, the key recordings and logs use for a template
+ */
+export function promptKey(template: Pick<PromptTemplate, 'id' | 'version'>): string {
+  return `${template.id}@${template.version}`;
+}
+
+/**
+ * Index templates by id, refusing two templates with the same id
+ */
+export function createPromptRegistry<T extends Pick<PromptTemplate, 'id' | 'version'>>(templates: T[]): ReadonlyMap<string, T> {
+  const registry = new Map<string, T>();
+  for (const template of templates) {
+    if (registry.has(template.id)) {
+      throw new Error(`Prompt ${template.id} is registered twice`);
+    }
+    registry.set(template.id, template);
+  }
+  return registry;
+}
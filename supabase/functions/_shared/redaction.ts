@@ -0,0 +1,212 @@
+/**
+ * Redaction of client information before text leaves for an AI provider
+ * Social security numbers, dates of birth, account numbers, street addresses, client names
+ * and the user's "never remember" terms are swapped for placeholders such as [CLIENT_1]. The
+ * same value always gets the same placeholder within a request, and the placeholders in the
+ * model's reply are swapped back locally.
+ *
+ * This module imports nothing, so the edge functions can run the same pass before text is
+ * embedded; src/lib/redaction.ts re-exports it for the app and adds the audit log.
+ */
+
+export type RedactionKind = 'ssn' | 'dob' | 'account_number' | 'address' | 'client_name' | 'custom';
+
+export interface RedactionConfig {
+  enabled: boolean;
+  // Full names of the firm's clients
+  clientNames: string[];
+  // Literal terms to redact, from the user's "never remember" memory
+  terms: string[];
+}
+
+export interface RedactionFinding {
+  kind: RedactionKind;
+  placeholder: string;
+  // Times the value appeared in the request
+  occurrences: number;
+}
+
+const PLACEHOLDER_LABELS: Record<RedactionKind, string> = {
+  ssn: 'SSN',
+  dob: 'DOB',
+  account_number: 'ACCOUNT',
+  address: 'ADDRESS',
+  client_name: 'CLIENT',
+  custom: 'REDACTED',
+};
+
+const PLACEHOLDER_PATTERN = /\[(SSN|DOB|ACCOUNT|ADDRESS|CLIENT|REDACTED)_(\d+)\]/g;
+
+// Longest placeholder prefix a stream can end on, e.g. "[REDACTED_12"
+const MAX_PLACEHOLDER_LENGTH = 16;
+
+const DATE = String.raw`(?:\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{4}-\d{2}-\d{2}|(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\.?\s+\d{1,2},?\s+\d{4})`;
+
+// Abbreviations take their period; after a full word a period ends the sentence
+const STREET_TYPES = String.raw`(?:Street|Avenue|Road|Boulevard|Lane|Drive|Way|Place|Terrace|Circle|Highway|Parkway|Square)\b|(?:St|Ave|Rd|Blvd|Ln|Dr|Pl|Ter|Cir|Hwy|Pkwy|Sq)\b\.?`;
+
+interface Detector {
+  kind: RedactionKind;
+  pattern: RegExp;
+  valid?: (value: string) => boolean;
+}
+
+// Labelled values only redact the value; dates and numbers without a label are left alone
+// because filing dates, docket numbers and citations matter to the answer
+const DETECTORS: Detector[] = [
+  { kind: 'ssn', pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g },
+  { kind: 'ssn', pattern: /(?<=\b(?:SSN|SSAN|social security (?:number|no\.?))\s*[:#]?\s*)\d{3}[- ]?\d{2}[- ]?\d{4}\b/gi },
+  { kind: 'dob', pattern: new RegExp(String.raw`(?<=\b(?:DOB|D\.O\.B\.|date of birth|born(?: on)?)\s*[:,-]?\s*)${DATE}`, 'gi') },
+  {
+    kind: 'account_number',
+    pattern: /(?<=\b(?:account|acct\.?|a\/c|card|routing|iban|policy|loan)(?:\s*(?:number|no\.?|#))?\s*[:#]?\s*)[A-Z]{0,4}\d[\d -]{4,}\d\b/gi,
+  },
+  // Card numbers anywhere, when the digits pass the Luhn check
+  { kind: 'account_number', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, valid: value => luhnValid(value.replace(/\D/g, '')) },
+  {
+    kind: 'address',
+    pattern: new RegExp(
+      String.raw`\b\d{1,6}\s+(?:[NSEW]\.?\s+)?(?:[A-Z][\w'.-]*\s+){1,4}(?:${STREET_TYPES})` +
+        String.raw`(?:,?\s*(?:Apt|Apartment|Suite|Ste|Unit|#)\.?\s*[\w-]+)?` +
+        String.raw`(?:,\s*[A-Z][a-zA-Z]+(?:\s+[A-Z][a-zA-Z]+)*,?\s+[A-Z]{2}\s+\d{5}(?:-\d{4})?)?`,
+      'g'
+    ),
+  },
+];
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Names and terms match whole words in any case
+function termPattern(terms: string[]): RegExp | null {
+  const unique = [...new Set(terms.map(term => term.trim()).filter(term => term.length > 1))];
+  if (unique.length === 0) return null;
+  const alternatives = unique.sort((a, b) => b.length - a.length).map(term => escapeRegExp(term).replace(/\s+/g, '\\s+'));
+  return new RegExp(`(?<![\\w])(?:${alternatives.join('|')})(?![\\w])`, 'gi');
+}
+
+const normalize = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+
+let redactionConfig: RedactionConfig = { enabled: true, clientNames: [], terms: [] };
+
+/**
+ * Change what is redacted; the client names and memory terms are set as they load
+ */
+export function configureRedaction(config: Partial<RedactionConfig>) {
+  redactionConfig = { ...redactionConfig, ...config };
+}
+
+export function getRedactionConfig(): RedactionConfig {
+  return redactionConfig;
+}
+
+/**
+ * The placeholders of one request: redact what goes out, rehydrate what comes back
+ */
+export class RedactionSession {
+  private detectors: Detector[];
+  private placeholders = new Map<string, RedactionFinding>();
+  private values = new Map<string, string>();
+  private counters: Partial<Record<RedactionKind, number>> = {};
+
+  constructor(config: RedactionConfig = redactionConfig) {
+    const clientNames = termPattern(config.clientNames);
+    const terms = termPattern(config.terms);
+    // Client names and terms first, so a name inside an address is still recognized as a client
+    this.detectors = [
+      ...(clientNames ? [{ kind: 'client_name' as const, pattern: clientNames }] : []),
+      ...(terms ? [{ kind: 'custom' as const, pattern: terms }] : []),
+      ...DETECTORS,
+    ];
+  }
+
+  redact(text: string): string {
+    if (!text) return text;
+
+    const matches: Array<{ kind: RedactionKind; start: number; end: number; value: string }> = [];
+    for (const detector of this.detectors) {
+      for (const match of text.matchAll(detector.pattern)) {
+        if (detector.valid && !detector.valid(match[0])) continue;
+        matches.push({ kind: detector.kind, start: match.index ?? 0, end: (match.index ?? 0) + match[0].length, value: match[0] });
+      }
+    }
+
+    // Overlapping matches keep the earliest, then the longest, then the first detector
+    matches.sort((a, b) => a.start - b.start || b.end - a.end);
+    let result = '';
+    let position = 0;
+    for (const match of matches) {
+      if (match.start < position) continue;
+      result += text.slice(position, match.start) + this.placeholderFor(match.kind, match.value);
+      position = match.end;
+    }
+    return result + text.slice(position);
+  }
+
+  rehydrate(text: string): string {
+    if (!text || this.values.size === 0) return text;
+    return text.replace(PLACEHOLDER_PATTERN, placeholder => this.values.get(placeholder) ?? placeholder);
+  }
+
+  /**
+   * Rehydrate a streamed reply delta by delta. A placeholder split across deltas is held
+   * back until it completes; flush releases whatever is left at the end of the stream.
+   */
+  rehydrator(): { push: (delta: string) => string; flush: () => string } {
+    let pending = '';
+    return {
+      push: delta => {
+        pending += delta;
+        const open = pending.lastIndexOf('[');
+        const tail = open >= 0 ? pending.slice(open) : '';
+        const partial = tail.length < MAX_PLACEHOLDER_LENGTH && /^\[[A-Z]*_?\d*$/.test(tail);
+        const ready = partial ? pending.slice(0, open) : pending;
+        pending = partial ? tail : '';
+        return this.rehydrate(ready);
+      },
+      flush: () => {
+        const rest = this.rehydrate(pending);
+        pending = '';
+        return rest;
+      },
+    };
+  }
+
+  findings(): RedactionFinding[] {
+    return [...this.placeholders.values()];
+  }
+
+  counts(): Partial<Record<RedactionKind, number>> {
+    const counts: Partial<Record<RedactionKind, number>> = {};
+    for (const finding of this.placeholders.values()) {
+      counts[finding.kind] = (counts[finding.kind] ?? 0) + finding.occurrences;
+    }
+    return counts;
+  }
+
+  private placeholderFor(kind: RedactionKind, value: string): string {
+    const key = `${kind}:${normalize(value)}`;
+    let finding = this.placeholders.get(key);
+    if (!finding) {
+      const number = (this.counters[kind] ?? 0) + 1;
+      this.counters[kind] = number;
+      finding = { kind, placeholder: `[${PLACEHOLDER_LABELS[kind]}_${number}]`, occurrences: 0 };
+      this.placeholders.set(key, finding);
+      this.values.set(finding.placeholder, value);
+    }
+    finding.occurrences++;
+    return finding.placeholder;
+  }
+}
@@ -1,4 +1,11 @@
 import { serve } from "jsr:@supabase/functions"
+import {
+  caseComparisonPrompt,
+  caseExtractionPrompt,
+  caseExtractionSystemPrompt,
+  caseLawSystemPrompt,
+} from "../_shared/prompts/caseLaw.ts"
+import { renderPrompt } from "../_shared/prompts/registry.ts"
 
 const ALLOWED_ORIGINS = (Deno.env.get('ALLOWED_ORIGINS') || '').split(',').map(s => s.trim()).filter(Boolean)
 
@@ -11,6 +18,20 @@ function corsHeaders(origin: string | null) {
   }
 }
 
+const CASE_EXTRACTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    caseName: { type: 'string' },
+    citation: { type: 'string' },
+    court: { type: 'string' },
+    year: { type: 'string' },
+    keyHoldings: { type: 'array', items: { type: 'string' } },
+    precedentsCited: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['caseName', 'citation', 'court', 'year', 'keyHoldings', 'precedentsCited'],
+  additionalProperties: false,
+}
+
 interface CaseLawAnalysisRequest {
   caseText: string
   analysisType?: 'summary' | 'precedents' | 'holdings' | 'full' | 'compare'
@@ -52,101 +73,26 @@ serve(async (req) => {
 
     const analysisType = body.analysisType || 'full'
     
-    // Build appropriate system prompt based on analysis type
-    let systemPrompt = ''
-    let userPrompt = body.caseText.substring(0, 15000) // Limit text length
-
-    switch (analysisType) {
-      case 'summary':
-        systemPrompt = `You are a legal analyst. Provide a concise summary of the case law provided. Include:
-1. Case name and citation
-2. Court and date
-3. Key facts
-4. Legal issues
-5. Holding/Decision
-6. Rationale
-
-Be precise and use legal terminology appropriately.`
-        break
-
-      case 'precedents':
-        systemPrompt = `You are a legal research specialist. Analyze the case law and identify:
-1. Key precedents cited
-2. How they were applied
-3. Any precedents distinguished or overruled
-4. The precedential value of this case
-
-Focus on the chain of legal authority.`
-        break
-
-      case 'holdings':
-        systemPrompt = `You are a legal analyst. Extract and explain the legal holdings from this case. For each holding:
-1. State the legal principle clearly
-2. Explain the reasoning
-3. Identify any limitations or qualifications
-4. Note the binding authority
-
-Be thorough and precise.`
-        break
-
-      case 'compare':
-        if (!body.compareWith) {
-          return new Response(
-            JSON.stringify({ error: 'compareWith text required for comparison analysis' }),
-            {
-              status: 400,
-              headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-            }
-          )
+    if (analysisType === 'compare' && !body.compareWith) {
+      return new Response(
+        JSON.stringify({ error: 'compareWith text required for comparison analysis' }),
+        {
+          status: 400,
+          headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
         }
-        systemPrompt = `You are a legal analyst comparing two cases. Analyze and compare:
-1. Similarities in facts
-2. Differences in facts
-3. Similar legal issues
-4. Different legal issues
-5. Consistency or conflict in holdings
-6. Potential implications of any differences
-
-Provide a clear comparison matrix.`
-        userPrompt = `CASE 1:\n${body.caseText.substring(0, 7000)}\n\n---\n\nCASE 2:\n${body.compareWith.substring(0, 7000)}`
-        break
-
-      case 'full':
-      default:
-        systemPrompt = `You are an expert legal analyst. Provide a comprehensive analysis of this case law including:
-
-1. **Case Information**
-   - Name, citation, court, date
-
-2. **Facts**
-   - Key factual background
-   - Procedural history
-
-3. **Legal Issues**
-   - Questions presented
-   - Area(s) of law involved
-
-4. **Holdings**
-   - Court's decision(s)
-   - Legal principles established
-
-5. **Reasoning**
-   - Court's analysis
-   - Precedents relied upon
-   - Policy considerations
-
-6. **Significance**
-   - Impact on law
-   - Precedential value
-   - Practical implications
-
-${body.jurisdiction ? `Focus on implications for ${body.jurisdiction} jurisdiction.` : ''}
-${body.focusAreas && body.focusAreas.length > 0 ? `Pay special attention to: ${body.focusAreas.join(', ')}` : ''}
-
-Be thorough, accurate, and use proper legal terminology.`
-        break
+      )
     }
 
+    // Build appropriate system prompt based on analysis type
+    const systemPrompt = renderPrompt(caseLawSystemPrompt, {
+      analysisType,
+      jurisdiction: body.jurisdiction,
+      focusAreas: body.focusAreas,
+    }).text
+    const userPrompt = analysisType === 'compare'
+      ? renderPrompt(caseComparisonPrompt, { caseText: body.caseText, compareWith: body.compareWith }).text
+      : body.caseText.substring(0, 15000) // Limit text length
+
     // Call OpenAI API
     const aiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
       method: 'POST',
@@ -182,19 +128,8 @@ Be thorough, accurate, and use proper legal terminology.`
 
     // Extract key information using a follow-up structured extraction if full analysis
     let structuredData = null
-    if (analysisType === 'full' || analysisType === 'holdings') {
-      const extractionPrompt = `From the following case analysis, extract key information in JSON format with these fields:
-- caseName: string
-- citation: string (if available)
-- court: string
-- year: string
-- keyHoldings: string[] (array of main legal holdings)
-- precedentsCited: string[] (array of cases cited)
-
-Analysis:
-${analysis.substring(0, 3000)}
-
-Respond with valid JSON only.`
+    if ((analysisType === 'full' || analysisType === 'holdings') && analysis) {
+      const extractionPrompt = renderPrompt(caseExtractionPrompt, { analysis }).text
 
       const extractionResponse = await fetch('https://api.openai.com/v1/chat/completions', {
         method: 'POST',
@@ -205,11 +140,13 @@ Respond with valid JSON only.`
         body: JSON.stringify({
           model: 'gpt-4o-mini',
           messages: [
-            { role: 'system', content: 'You are a data extraction assistant. Respond only with valid JSON.' },
+            { role: 'system', content: renderPrompt(caseExtractionSystemPrompt, {}).text },
             { role: 'user', content: extractionPrompt },
           ],
           temperature: 0.1,
           max_tokens: 800,
+          // Strict structured output: the reply follows the schema unless it is cut off or refused
+          response_format: { type: 'json_schema', json_schema: { name: 'case_extraction', strict: true, schema: CASE_EXTRACTION_SCHEMA } },
         }),
       })
 
@@ -218,11 +155,7 @@ Respond with valid JSON only.`
         const extractionText = extractionData?.choices?.[0]?.message?.content || ''
         
         try {
-          // Extract JSON from response (might be wrapped in markdown code blocks)
-          const jsonMatch = extractionText.match(/\{[\s\S]*\}/)
-          if (jsonMatch) {
-            structuredData = JSON.parse(jsonMatch[0])
-          }
+          structuredData = JSON.parse(extractionText)
         } catch (e) {
           console.error('Failed to parse structured data:', e)
           // Continue without structured data
@@ -0,0 +1,287 @@
+import { serve } from "jsr:@supabase/functions"
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { RedactionSession, type RedactionConfig } from "../_shared/redaction.ts"
+
+const ALLOWED_ORIGINS = (Deno.env.get('ALLOWED_ORIGINS') || '').split(',').map(s => s.trim()).filter(Boolean)
+
+// Must match the vector column in document_chunks
+const EMBEDDING_DIMENSIONS = 1536
+const EMBEDDING_BATCH_SIZE = 64
+const MAX_CHUNKS_PER_SOURCE = 2000
+const MAX_CHUNK_CHARS = 4000
+const MAX_RESULTS = 10
+const MAX_REDACTION_TERMS = 1000
+const SIGNED_URL_SECONDS = 60 * 60
+
+// The table each source type is read from, to check who owns it and where its file is
+const SOURCE_TABLES: Record<string, string> = {
+  document: 'documents',
+  uploaded_document: 'uploaded_documents',
+  document_analysis: 'document_analyses',
+}
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Results carry signed links to privileged files, so only the app's own origins may read them
+function corsHeaders(origin: string | null) {
+  const allowed = origin && ALLOWED_ORIGINS.includes(origin) ? { 'Access-Control-Allow-Origin': origin } : {}
+  return {
+    ...allowed,
+    'Vary': 'Origin',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  }
+}
+
+function jsonResponse(body: unknown, origin: string | null, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
+  })
+}
+
+class RequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message)
+    this.name = 'RequestError'
+  }
+}
+
+type Chunk = { chunkIndex: number; page: number | null; content: string }
+
+/**
+ * Where embeddings are computed. Privileged text must stay on our infrastructure, so
+ * SELF_HOSTED_ONLY deployments always embed with the local OpenAI-compatible server.
+ */
+function embeddingBackend() {
+  const localModel = Deno.env.get('LOCAL_AI_EMBEDDING_MODEL')
+  const localBaseUrl = Deno.env.get('LOCAL_AI_BASE_URL')
+  if (Deno.env.get('SELF_HOSTED_ONLY') === 'true' || localModel) {
+    if (!localModel || !localBaseUrl) throw new RequestError('LOCAL_AI_BASE_URL and LOCAL_AI_EMBEDDING_MODEL missing', 500)
+    return { baseUrl: localBaseUrl.replace(/\/+$/, ''), apiKey: Deno.env.get('LOCAL_AI_API_KEY'), model: localModel, external: false }
+  }
+  const apiKey = Deno.env.get('OPENAI_API_KEY')
+  if (!apiKey) throw new RequestError('OPENAI_API_KEY missing', 500)
+  return { baseUrl: 'https://api.openai.com/v1', apiKey, model: 'text-embedding-3-small', external: true }
+}
+
+const stringList = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string').slice(0, MAX_REDACTION_TERMS) : []
+
+/**
+ * The caller's redaction settings (see src/lib/redaction.ts). Redaction is on unless the
+ * caller turned it off.
+ */
+function redactionConfig(value: unknown): RedactionConfig {
+  const config = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>
+  return { enabled: config.enabled !== false, clientNames: stringList(config.clientNames), terms: stringList(config.terms) }
+}
+
+/**
+ * Embed texts, with client information swapped for placeholders first when they go to an
+ * outside provider. Only the vectors are derived from the redacted text; callers store the
+ * original.
+ */
+async function embed(texts: string[], redaction: RedactionConfig): Promise<{ vectors: number[][]; model: string }> {
+  const backend = embeddingBackend()
+  const vectors: number[][] = []
+  if (backend.external && redaction.enabled) {
+    const session = new RedactionSession(redaction)
+    texts = texts.map(text => session.redact(text))
+  }
+
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const r = await fetch(`${backend.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...(backend.apiKey ? { 'authorization': `Bearer ${backend.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: backend.model,
+        input: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+        dimensions: EMBEDDING_DIMENSIONS,
+      }),
+    })
+    if (!r.ok) {
+      console.error('Embedding API error:', await r.text())
+      throw new RequestError('Embedding request failed', r.status === 429 ? 429 : 502)
+    }
+    const data = await r.json()
+    for (const item of data.data ?? []) {
+      if (item.embedding?.length !== EMBEDDING_DIMENSIONS) {
+        throw new RequestError(`Embedding model must return ${EMBEDDING_DIMENSIONS} dimensions`, 500)
+      }
+      vectors.push(item.embedding)
+    }
+  }
+
+  return { vectors, model: backend.model }
+}
+
+function validChunks(value: unknown): Chunk[] {
+  if (!Array.isArray(value) || value.length === 0) throw new RequestError('chunks required')
+  if (value.length > MAX_CHUNKS_PER_SOURCE) throw new RequestError(`Too many chunks (max ${MAX_CHUNKS_PER_SOURCE})`)
+  return value.map((chunk, index) => {
+    const content = typeof chunk?.content === 'string' ? chunk.content.trim() : ''
+    if (!content || content.length > MAX_CHUNK_CHARS) throw new RequestError(`Invalid chunk ${index}`)
+    const page = Number.isInteger(chunk.page) && chunk.page > 0 ? chunk.page : null
+    return { chunkIndex: index, page, content }
+  })
+}
+
+/**
+ * The caller's own row for a source, or null when it doesn't exist or belongs to someone
+ * else. The service role bypasses RLS, so this is the only ownership check.
+ */
+async function ownedSource(supabase: SupabaseClient, userId: string, sourceType: string, sourceId: string) {
+  const { data, error } = await supabase
+    .from(SOURCE_TABLES[sourceType])
+    .select('*')
+    .eq('id', sourceId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  return data as Record<string, unknown> | null
+}
+
+const storagePath = (source: Record<string, unknown>) =>
+  typeof source.storage_path === 'string' && source.storage_path ? source.storage_path : null
+
+/**
+ * Replace a source's chunks with freshly embedded ones
+ */
+async function indexSource(supabase: SupabaseClient, userId: string, body: Record<string, unknown>) {
+  const { sourceType, sourceId, title, contentHash } = body
+  if (typeof sourceType !== 'string' || !Object.prototype.hasOwnProperty.call(SOURCE_TABLES, sourceType)) throw new RequestError('Invalid sourceType')
+  if (typeof sourceId !== 'string' || !UUID_PATTERN.test(sourceId)) throw new RequestError('Invalid sourceId')
+  if (typeof title !== 'string' || !title.trim()) throw new RequestError('title required')
+  if (typeof contentHash !== 'string' || !contentHash) throw new RequestError('contentHash required')
+
+  // The file path, link and case come from the source row, never from the request
+  const source = await ownedSource(supabase, userId, sourceType, sourceId)
+  if (!source) throw new RequestError('Source not found', 404)
+
+  const chunks = validChunks(body.chunks)
+  const { vectors, model } = await embed(chunks.map(chunk => chunk.content), redactionConfig(body.redaction))
+
+  const { error: deleteError } = await supabase
+    .from('document_chunks')
+    .delete()
+    .eq('user_id', userId)
+    .eq('source_type', sourceType)
+    .eq('source_id', sourceId)
+  if (deleteError) throw new Error(deleteError.message)
+
+  const { error } = await supabase.from('document_chunks').insert(chunks.map((chunk, index) => ({
+    user_id: userId,
+    case_id: (source.case_id as string | null) ?? null,
+    source_type: sourceType,
+    source_id: sourceId,
+    source_title: title.trim(),
+    source_path: storagePath(source),
+    source_url: typeof source.file_url === 'string' ? source.file_url : null,
+    page_number: chunk.page,
+    chunk_index: chunk.chunkIndex,
+    content: chunk.content,
+    content_hash: contentHash,
+    embedding: JSON.stringify(vectors[index]),
+    embedding_model: model,
+  })))
+  if (error) throw new Error(error.message)
+
+  return { indexed: chunks.length, model }
+}
+
+/**
+ * The passages nearest to a question, with a link back to each source
+ */
+async function search(supabase: SupabaseClient, userId: string, body: Record<string, unknown>) {
+  const query = typeof body.query === 'string' ? body.query.trim() : ''
+  if (!query || query.length > 10000) throw new RequestError('query required')
+
+  const caseId = typeof body.caseId === 'string' && UUID_PATTERN.test(body.caseId) ? body.caseId : null
+  const limit = Math.min(Math.max(Number(body.limit) || 5, 1), MAX_RESULTS)
+
+  const { vectors: [embedding] } = await embed([query], redactionConfig(body.redaction))
+  const { data, error } = await supabase.rpc('match_document_chunks', {
+    query_embedding: JSON.stringify(embedding),
+    p_user_id: userId,
+    p_case_id: caseId,
+    match_count: limit,
+  })
+  if (error) throw new Error(error.message)
+
+  // Only sign a path the caller's source row still points at; chunks indexed before paths
+  // were resolved on the server may carry one the client made up
+  const owners = new Map<string, Promise<Record<string, unknown> | null>>()
+  const ownerOf = (row: Record<string, unknown>) => {
+    const key = `${row.source_type}:${row.source_id}`
+    if (!owners.has(key)) owners.set(key, ownedSource(supabase, userId, row.source_type as string, row.source_id as string))
+    return owners.get(key)!
+  }
+
+  const passages = await Promise.all((data ?? []).map(async (row: Record<string, unknown>) => {
+    let url = (row.source_url as string | null) ?? null
+    if (row.source_path) {
+      const source = await ownerOf(row)
+      if (source && storagePath(source) === row.source_path) {
+        const { data: signed } = await supabase.storage
+          .from('legal-documents')
+          .createSignedUrl(row.source_path as string, SIGNED_URL_SECONDS)
+        url = signed?.signedUrl ?? url
+      }
+    }
+    return {
+      chunkId: row.id,
+      caseId: row.case_id,
+      sourceType: row.source_type,
+      sourceId: row.source_id,
+      title: row.source_title,
+      page: row.page_number,
+      content: row.content,
+      similarity: row.similarity,
+      url,
+    }
+  }))
+
+  return { passages }
+}
+
+serve(async (req) => {
+  const origin = req.headers.get('origin')
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders(origin) })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: 'Supabase configuration missing' }, origin, 500)
+    }
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Chunks are stored and searched per user, so an anonymous caller has nothing to see
+    const token = req.headers.get('authorization')?.split(' ')[1]
+    const { data: auth } = token ? await supabase.auth.getUser(token) : { data: { user: null } }
+    if (!auth.user) {
+      return jsonResponse({ error: 'Sign in required' }, origin, 401)
+    }
+
+    const body = await req.json().catch(() => ({}))
+    switch (body?.op) {
+      case 'index':
+        return jsonResponse(await indexSource(supabase, auth.user.id, body), origin)
+      case 'search':
+        return jsonResponse(await search(supabase, auth.user.id, body), origin)
+      default:
+        return jsonResponse({ error: `Unknown operation: ${body?.op}. Valid operations: index, search` }, origin, 400)
+    }
+  } catch (e) {
+    if (e instanceof RequestError) {
+      return jsonResponse({ error: e.message }, origin, e.status)
+    }
+    console.error('Document RAG error:', e)
+    return jsonResponse({ error: 'An unexpected error occurred. Please try again.' }, origin, 500)
+  }
+})
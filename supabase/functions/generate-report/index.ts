@@ -149,20 +149,41 @@ serve(async (req) => {
           case 'time-tracking': {
             let query = supabase
               .from('time_entries')
-              .select('duration_minutes')
+              .select('duration_minutes, hours, billable, rate, case_id, utbms_task_code, utbms_activity_code')
               .eq('user_id', userId)
-            
-            if (startDate) query = query.gte('created_at', startDate)
-            if (endDate) query = query.lte('created_at', endDate)
-            
+              // Running timers have no duration yet
+              .or('source.eq.manual,ended_at.not.is.null')
+
+            if (startDate) query = query.gte('entry_date', startDate.slice(0, 10))
+            if (endDate) query = query.lte('entry_date', endDate.slice(0, 10))
+
             const { data, error } = await query
-            
+
             if (!error && data) {
               const totalMinutes = data.reduce((sum, entry) => sum + (entry.duration_minutes || 0), 0)
+              const billable = data.filter(entry => entry.billable)
+              const totalHours = data.reduce((sum, entry) => sum + Number(entry.hours || 0), 0)
+              const billableHours = billable.reduce((sum, entry) => sum + Number(entry.hours || 0), 0)
+              const hoursBy = (key: 'case_id' | 'utbms_task_code' | 'utbms_activity_code') =>
+                data.reduce((groups: Record<string, number>, entry) => {
+                  const group = entry[key] || 'none'
+                  groups[group] = Math.round(((groups[group] || 0) + Number(entry.hours || 0)) * 10) / 10
+                  return groups
+                }, {})
+
               reportData.metrics['time-tracking'] = {
-                totalHours: (totalMinutes / 60).toFixed(2),
+                totalHours: totalHours.toFixed(1),
+                billableHours: billableHours.toFixed(1),
+                nonBillableHours: (totalHours - billableHours).toFixed(1),
+                billableRate: totalHours > 0 ? (billableHours / totalHours * 100).toFixed(2) : 0,
+                billableAmount: billable
+                  .reduce((sum, entry) => sum + Number(entry.hours || 0) * Number(entry.rate || 0), 0)
+                  .toFixed(2),
                 totalMinutes,
                 entries: data.length,
+                hoursByCase: hoursBy('case_id'),
+                hoursByTaskCode: hoursBy('utbms_task_code'),
+                hoursByActivityCode: hoursBy('utbms_activity_code'),
               }
             }
             break
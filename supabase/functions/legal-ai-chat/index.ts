@@ -1,4 +1,8 @@
 import { serve } from "jsr:@supabase/functions"
+import { PROVIDERS, ProviderError, isProviderId, type ChatMessage, type OutputSchema, type ProviderChunk, type Usage } from "./providers.ts"
+import { legalChatSystemPrompt } from "../_shared/prompts/legalChat.ts"
+import { renderPrompt } from "../_shared/prompts/registry.ts"
+import { ownedCaseId, quotaStatus, recordUsage, requestUser, usageClient, usageFeature, usageFor } from "./usage.ts"
 
 const ALLOWED_ORIGINS = (Deno.env.get('ALLOWED_ORIGINS') || '').split(',').map(s => s.trim()).filter(Boolean)
 
@@ -7,10 +11,16 @@ const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
 const RATE_LIMIT_WINDOW_MS = 60 * 1000; // 1 minute
 const RATE_LIMIT_MAX_REQUESTS = 20; // 20 requests per minute per user
 
+// Roughly four characters per token; only used to refuse prompts that cannot fit
+const CHARS_PER_TOKEN = 4
+
+// Deployments serving clients whose privileged material must stay on our infrastructure set this
+const SELF_HOSTED_ONLY = Deno.env.get('SELF_HOSTED_ONLY') === 'true'
+
 function corsHeaders(origin: string | null) {
   // Strict origin validation - only allow whitelisted origins
   const allowedOrigin = origin && ALLOWED_ORIGINS.includes(origin) ? origin : null;
-  
+
   return {
     'Access-Control-Allow-Origin': allowedOrigin || ALLOWED_ORIGINS[0] || 'https://docketchief.com',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -23,27 +33,34 @@ function corsHeaders(origin: string | null) {
   }
 }
 
+function jsonResponse(body: unknown, origin: string | null, status = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers, ...corsHeaders(origin) },
+  })
+}
+
 function checkRateLimit(identifier: string): { allowed: boolean; retryAfter?: number } {
   const now = Date.now();
   const key = `rate_limit:${identifier}`;
-  
+
   let entry = rateLimitMap.get(key);
-  
+
   // Reset if window has passed
   if (!entry || now >= entry.resetTime) {
     entry = { count: 0, resetTime: now + RATE_LIMIT_WINDOW_MS };
   }
-  
+
   // Check if limit exceeded
   if (entry.count >= RATE_LIMIT_MAX_REQUESTS) {
     const retryAfter = Math.ceil((entry.resetTime - now) / 1000);
     return { allowed: false, retryAfter };
   }
-  
+
   // Increment counter
   entry.count++;
   rateLimitMap.set(key, entry);
-  
+
   return { allowed: true };
 }
 
@@ -57,294 +74,178 @@ setInterval(() => {
   }
 }, 5 * 60 * 1000); // Clean up every 5 minutes
 
-function validateChatMessage(msg: unknown): msg is { role: string; content: string } {
+function validateChatMessage(msg: unknown): msg is ChatMessage {
   if (typeof msg !== 'object' || msg === null) return false;
   const m = msg as Record<string, unknown>;
-  
+
   if (typeof m.role !== 'string' || !['user', 'assistant', 'system'].includes(m.role)) {
     return false;
   }
-  
+
   if (typeof m.content !== 'string' || m.content.trim().length === 0) {
     return false;
   }
-  
+
   // Max message length: 10,000 characters
   if (m.content.length > 10000) {
     return false;
   }
-  
-  return true;
-}
-
-// Handler for OpenAI API
-async function handleOpenAI(
-  messages: { role: string; content: string }[],
-  model: string,
-  system: string,
-  apiKey: string
-) {
-  const payload = {
-    model,
-    messages: [{ role: 'system', content: system }, ...messages],
-    temperature: 0.2,
-  }
-
-  const r = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'content-type': 'application/json',
-      'authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify(payload),
-  })
-
-  if (!r.ok) {
-    const txt = await r.text()
-    return new Response(JSON.stringify({ error: 'OpenAI request failed', details: txt }), {
-      status: 502,
-      headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-    })
-    throw new Error(`OpenAI request failed: ${txt}`)
-  }
-  
-  const data = await r.json()
-  const content = data?.choices?.[0]?.message?.content ?? ''
-  const usage = data?.usage ?? null
 
-  return new Response(JSON.stringify({ content, usage }), {
-    headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-  })
+  return true;
 }
 
-async function handleGeminiRequest(
-  messages: { role: string; content: string }[],
-  system: string,
-  model: string,
-  origin: string | null
-) {
-  const apiKey = Deno.env.get('GOOGLE_AI_API_KEY')
-  if (!apiKey) {
-    return new Response(JSON.stringify({ error: 'GOOGLE_AI_API_KEY missing' }), {
-      status: 500,
-      headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-    })
-  }
-
-  // Convert messages to Gemini format
-  // Gemini uses 'user' and 'model' roles, and requires a specific format
-  const contents = []
-  
-  // Add system message as first user message if provided
-  if (system && system !== 'You are a precise legal drafting assistant. Write clearly, cite rules accurately, and never fabricate citations.') {
-    contents.push({
-      role: 'user',
-      parts: [{ text: system }]
-    })
-    contents.push({
-      role: 'model',
-      parts: [{ text: 'I understand. I will act as a precise legal drafting assistant.' }]
-    })
-  }
-
-  // Convert conversation history
-  for (const msg of messages) {
-    contents.push({
-      role: msg.role === 'assistant' ? 'model' : 'user',
-      parts: [{ text: msg.content }]
-    })
-  }
+function outputSchema(value: unknown): OutputSchema | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const s = value as Record<string, unknown>;
 
-  // Use gemini-pro as default if model isn't specified or use the provided model
-  const geminiModel = model === 'gpt-4o-mini' || model === 'gpt-4o' ? 'gemini-pro' : model
+  if (typeof s.name !== 'string' || !/^[a-zA-Z0-9_-]{1,64}$/.test(s.name)) return null;
+  if (typeof s.parameters !== 'object' || s.parameters === null || Array.isArray(s.parameters)) return null;
 
-  const payload = {
-    contents,
-  
-  return { content, usage }
+  return {
+    name: s.name,
+    description: typeof s.description === 'string' ? s.description.slice(0, 1000) : undefined,
+    parameters: s.parameters as Record<string, unknown>,
+  };
 }
 
-// Handler for Google Gemini API
-async function handleGemini(
-  messages: { role: string; content: string }[],
-  model: string,
-  system: string,
-  apiKey: string
-) {
-  // Convert messages to Gemini format
-  const geminiMessages = messages.map(msg => ({
-    role: msg.role === 'assistant' ? 'model' : 'user',
-    parts: [{ text: msg.content }]
-  }))
-
-  // Add system instruction as first user message if provided
-  if (system && system.trim().length > 0) {
-    geminiMessages.unshift({
-      role: 'user',
-      parts: [{ text: system }]
-    })
+const LEGAL_SYSTEM_PROMPT = renderPrompt(legalChatSystemPrompt, {}).text
+
+type FinishStatus = 'completed' | 'aborted' | 'failed'
+
+/**
+ * Relay the provider stream to the client as `delta`, `done` and `error` events.
+ * onFinish runs exactly once with the text sent and how the stream ended.
+ */
+function sseResponse(
+  chunks: AsyncGenerator<ProviderChunk>,
+  origin: string | null,
+  signal: AbortSignal,
+  onFinish: (content: string, usage: Usage | null, status: FinishStatus) => Promise<void>
+): Response {
+  const encoder = new TextEncoder()
+  const send = (controller: ReadableStreamDefaultController<Uint8Array>, event: Record<string, unknown>) =>
+    controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+
+  let content = ''
+  let usage: Usage | null = null
+  let finished = false
+  const finish = async (status: FinishStatus) => {
+    if (finished) return
+    finished = true
+    await onFinish(content, usage, status)
   }
 
-  const payload = {
-    contents: geminiMessages,
-    generationConfig: {
-      temperature: 0.2,
-      topK: 40,
-      topP: 0.95,
-      maxOutputTokens: 8192,
-    },
-    safetySettings: [
-      {
-        category: 'HARM_CATEGORY_HARASSMENT',
-        threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-      },
-      {
-        category: 'HARM_CATEGORY_HATE_SPEECH',
-        threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-      },
-      {
-        category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
-        threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-      },
-      {
-        category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
-        threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const chunk of chunks) {
+          if ('usage' in chunk) usage = chunk.usage
+          else {
+            content += chunk.content
+            send(controller, { type: 'delta', content: chunk.content })
+          }
+        }
+        send(controller, { type: 'done', usage })
+        await finish('completed')
+      } catch (e) {
+        await finish(signal.aborted ? 'aborted' : 'failed')
+        console.error('Legal AI chat stream error:', e)
+        // status and retryAfter let the client back off or fail over as it would for a JSON error
+        if (e instanceof ProviderError) {
+          const error = e.status === 429 ? 'Rate limit exceeded' : e.message
+          send(controller, { type: 'error', error, status: e.status, retryAfter: e.retryAfter })
+        } else {
+          send(controller, { type: 'error', error: 'The AI service stopped responding. Please try again.', status: 502 })
+        }
+      } finally {
+        controller.close()
       }
-    ]
-  }
-
-  const r = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:generateContent?key=${apiKey}`,
-    }
-  }
-
-  const r = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: {
-        'content-type': 'application/json',
-      },
-      body: JSON.stringify(payload),
-    }
-  )
-
-  if (!r.ok) {
-    const txt = await r.text()
-    return new Response(JSON.stringify({ error: 'Gemini request failed', details: txt }), {
-      status: 502,
-      headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-    })
-  }
-
-  const data = await r.json()
-  
-  // Extract content from Gemini response
-  const content = data?.candidates?.[0]?.content?.parts?.[0]?.text ?? ''
-  const usage = {
-    promptTokens: data?.usageMetadata?.promptTokenCount ?? 0,
-    completionTokens: data?.usageMetadata?.candidatesTokenCount ?? 0,
-    totalTokens: data?.usageMetadata?.totalTokenCount ?? 0,
-  }
+    },
+    async cancel() {
+      // The client went away; stop pulling from the provider
+      await chunks.return(undefined)
+      await finish('aborted')
+    },
+  })
 
-  return new Response(JSON.stringify({ content, usage }), {
-    headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
+  return new Response(body, {
+    headers: {
+      'content-type': 'text/event-stream',
+      'cache-control': 'no-cache',
+      ...corsHeaders(origin),
+    },
   })
 }
-    throw new Error(`Gemini request failed: ${txt}`)
-  }
-  
-  const data = await r.json()
-  const content = data?.candidates?.[0]?.content?.parts?.[0]?.text ?? ''
-  const usage = data?.usageMetadata ?? null
-  
-  return { content, usage }
-}
-const LEGAL_SYSTEM_PROMPT = `You are an advanced legal AI assistant specialized in providing comprehensive legal research and drafting support. Your capabilities include:
-
-1. Legal Research & Analysis: Analyze case law, statutes, and regulations with precision
-2. Document Review: Identify key issues, risks, and opportunities in legal documents
-3. Motion & Brief Assistance: Help draft persuasive legal arguments with proper structure
-4. Citation Support: Format legal citations correctly (though you should note you cannot verify current law)
-5. Procedural Guidance: Provide information on legal procedures and requirements
-
-Important Guidelines:
-- Be precise and accurate in your responses
-- Never fabricate case citations or legal authorities
-- Clearly distinguish between general legal information and specific legal advice
-- Note limitations in your knowledge cutoff date
-- Recommend consulting with a licensed attorney for specific legal matters
-- Use clear, professional language appropriate for legal professionals`
 
 serve(async (req) => {
   const origin = req.headers.get('origin')
-  
+
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders(origin) })
   }
 
   // Validate origin for non-OPTIONS requests
   if (origin && !ALLOWED_ORIGINS.includes(origin)) {
-    return new Response(JSON.stringify({ error: 'Origin not allowed' }), {
-      status: 403,
-      headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-    })
+    return jsonResponse({ error: 'Origin not allowed' }, origin, 403)
   }
 
   try {
     // Extract user identifier for rate limiting
     const authHeader = req.headers.get('authorization');
     const userId = authHeader ? authHeader.split(' ')[1] : 'anonymous';
-    
+
     // Check rate limit
     const rateCheck = checkRateLimit(userId);
     if (!rateCheck.allowed) {
-      return new Response(JSON.stringify({ 
-        error: 'Rate limit exceeded',
-        retryAfter: rateCheck.retryAfter 
-      }), {
-        status: 429,
-        headers: { 
-          'content-type': 'application/json',
-          'Retry-After': String(rateCheck.retryAfter || 60),
-          ...corsHeaders(origin) 
-        },
-      })
+      return jsonResponse(
+        { error: 'Rate limit exceeded', retryAfter: rateCheck.retryAfter },
+        origin,
+        429,
+        { 'Retry-After': String(rateCheck.retryAfter || 60) }
+      )
     }
 
-    const apiKey = Deno.env.get('OPENAI_API_KEY')
     const body = await req.json().catch(() => ({}))
 
-    // Determine provider
-    const provider = typeof body?.provider === 'string' ? body.provider : 'openai'
-
-    // Get appropriate API key
-    const apiKey = provider === 'gemini' 
-      ? Deno.env.get('GOOGLE_AI_API_KEY')
-      : Deno.env.get('OPENAI_API_KEY')
-
-    if (!apiKey) {
-      return new Response(JSON.stringify({ 
-        error: `${provider === 'gemini' ? 'GOOGLE_AI_API_KEY' : 'OPENAI_API_KEY'} missing` 
-      }), {
-        status: 500,
-        headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-      })
+    const requested = body?.provider ?? 'openai'
+    if (!isProviderId(requested)) {
+      return jsonResponse({ error: `Unknown provider: ${String(requested)}` }, origin, 400)
+    }
+    const adapter = PROVIDERS[requested]
+
+    const missing = adapter.missingConfig()
+    if (missing) {
+      return jsonResponse({ error: `${missing} missing` }, origin, requested === 'stub' ? 400 : 500)
+    }
+
+    // Privileged material may only go to a backend running on our own infrastructure
+    if ((SELF_HOSTED_ONLY || body?.confidential === true) && !adapter.capabilities.selfHosted) {
+      return jsonResponse({ error: 'Confidential requests must use a self-hosted provider' }, origin, 403)
+    }
+
+    const schema = body?.schema == null ? null : outputSchema(body.schema)
+    if (body?.schema != null && !schema) {
+      return jsonResponse({ error: 'schema needs a name of letters, digits, _ or - and an object of parameters' }, origin, 400)
+    }
+
+    // A schema is enforced through JSON mode where there is one, else through a forced tool call
+    const json = body?.responseFormat === 'json' || (schema !== null && adapter.capabilities.jsonMode)
+    if (json && !adapter.capabilities.jsonMode) {
+      return jsonResponse({ error: `${requested} does not support JSON mode` }, origin, 400)
+    }
+    if (schema && !json && !adapter.capabilities.toolCalling) {
+      return jsonResponse({ error: `${requested} does not support structured output` }, origin, 400)
     }
-    const provider = body?.provider || 'openai'
 
     // Validate messages array
-    let messages: { role: string; content: string }[] = []
+    let messages: ChatMessage[] = []
 
     if (Array.isArray(body?.messages)) {
       messages = body.messages.filter(validateChatMessage)
-      
+
       // Limit number of messages
       if (messages.length > 50) {
-        return new Response(JSON.stringify({ error: 'Too many messages (max 50)' }), {
-          status: 400,
-          headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-        })
+        return jsonResponse({ error: 'Too many messages (max 50)' }, origin, 400)
       }
     }
 
@@ -362,206 +263,88 @@ serve(async (req) => {
     }
 
     if (messages.length === 0) {
-      return new Response(JSON.stringify({ error: 'Message is required' }), {
-        status: 400,
-        headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-      })
+      return jsonResponse({ error: 'Message is required' }, origin, 400)
     }
 
-    // Validate and sanitize system prompt
+    // Callers put their own system prompt either in `system` or as a leading system message
+    const leadingSystem = messages[0].role === 'system' ? messages[0].content : null
     const system =
-      typeof body?.system === 'string' && body.system.trim().length > 0 && body.system.length <= 1000
+      typeof body?.system === 'string' && body.system.trim().length > 0 && body.system.length <= 10000
         ? body.system
-        : 'You are a precise legal drafting assistant. Write clearly, cite rules accurately, and never fabricate citations.'
-    
-    // Validate model
-    const allowedModels = ['gpt-4o-mini', 'gpt-4o', 'gpt-3.5-turbo'];
-    const model = typeof body?.model === 'string' && allowedModels.includes(body.model) 
-      ? body.model 
-      : 'gpt-4o-mini';
-    const model = typeof body?.model === 'string' && body.model.trim().length > 0 ? body.model : 'gpt-4o-mini'
-    const provider = typeof body?.provider === 'string' ? body.provider : 'openai'
-
-    // Route to appropriate AI provider
-    if (provider === 'gemini') {
-      return await handleGeminiRequest(messages, system, model, origin)
-    } else {
-      return await handleOpenAIRequest(messages, system, model, origin)
-    }
-    
-    // Set default model based on provider
-    const defaultModel = provider === 'gemini' ? 'gemini-pro' : 'gpt-4o-mini'
-    const model = typeof body?.model === 'string' && body.model.trim().length > 0 ? body.model : defaultModel
-
-    // Call appropriate AI service
-    let result
-    if (provider === 'gemini') {
-      result = await handleGemini(messages, model, system, apiKey)
-    } else {
-      result = await handleOpenAI(messages, model, system, apiKey)
-    }
-        : LEGAL_SYSTEM_PROMPT
-
-    // Route to appropriate AI provider
-    if (provider === 'gemini') {
-      return await handleGemini(messages, system, body?.model, origin)
-    } else {
-      return await handleOpenAI(messages, system, body?.model, origin)
-    }
-  } catch (e) {
-    console.error('Legal AI chat error:', e)
-    return new Response(JSON.stringify({ error: 'An unexpected error occurred. Please try again.' }), {
-      status: 500,
-      headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-    })
-  }
-})
-
-async function handleOpenAI(
-  messages: { role: string; content: string }[],
-  system: string,
-  modelOverride: string | undefined,
-  origin: string | null
-): Promise<Response> {
-  const apiKey = Deno.env.get('OPENAI_API_KEY')
-  if (!apiKey) {
-    return new Response(JSON.stringify({ error: 'OPENAI_API_KEY missing' }), {
-      status: 500,
-      headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-    })
-  }
-
-  const model = typeof modelOverride === 'string' && modelOverride.trim().length > 0 
-    ? modelOverride 
-    : 'gpt-4o'
+        : leadingSystem ?? LEGAL_SYSTEM_PROMPT
 
-  const payload = {
-    model,
-    messages: [{ role: 'system', content: system }, ...messages],
-    temperature: 0.2,
-    max_tokens: 4000,
-  }
+    const model = typeof body?.model === 'string' && body.model.trim().length > 0
+      ? body.model
+      : adapter.defaultModel
 
-  try {
-    const r = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'content-type': 'application/json',
-        'authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify(payload),
-    })
-
-    if (!r.ok) {
-      const txt = await r.text()
-      console.error('OpenAI API error:', txt)
-      return new Response(JSON.stringify({ error: 'OpenAI request failed', details: txt }), {
-        status: 502,
-        headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-      })
+    const promptChars = system.length + messages.reduce((total, m) => total + m.content.length, 0)
+    if (promptChars / CHARS_PER_TOKEN > adapter.capabilities.contextWindow) {
+      return jsonResponse({ error: `Conversation is too long for the ${requested} context window` }, origin, 400)
     }
 
-    const data = await r.json()
-    const content = data?.choices?.[0]?.message?.content ?? ''
-    const usage = data?.usage ?? null
-
-    return new Response(JSON.stringify(result), {
-      headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-    })
-  } catch (e) {
-    console.error('OpenAI handler error:', e)
-    return new Response(JSON.stringify({ error: 'OpenAI service temporarily unavailable. Please try again.' }), {
-      status: 500,
-      headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-    })
-  }
-}
-
-async function handleGemini(
-  messages: { role: string; content: string }[],
-  system: string,
-  modelOverride: string | undefined,
-  origin: string | null
-): Promise<Response> {
-  const apiKey = Deno.env.get('GOOGLE_AI_API_KEY')
-  if (!apiKey) {
-    return new Response(JSON.stringify({ error: 'GOOGLE_AI_API_KEY missing, falling back to OpenAI' }), {
-      status: 500,
-      headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-    })
-  }
-
-  const model = typeof modelOverride === 'string' && modelOverride.trim().length > 0 
-    ? modelOverride 
-    : 'gemini-pro'
-
-  try {
-    // Convert messages to Gemini format
-    // Gemini doesn't use system role the same way, so we prepend system to first user message
-    const geminiContents = []
-    let systemPrepended = false
-
-    for (const msg of messages) {
-      if (msg.role === 'system') continue // Skip system messages as they're handled separately
-      
-      const role = msg.role === 'assistant' ? 'model' : 'user'
-      let text = msg.content
-      
-      // Prepend system prompt to first user message
-      if (role === 'user' && !systemPrepended) {
-        text = `${system}\n\n${text}`
-        systemPrepended = true
+    // Signed-in users are held to their plan's monthly token quota and every request is ledgered
+    const supabase = usageClient()
+    const accountId = supabase ? await requestUser(supabase, authHeader) : null
+    if (supabase && accountId) {
+      let quota
+      try {
+        quota = await quotaStatus(supabase, accountId)
+      } catch (e) {
+        console.error('AI quota check failed:', e)
+        return jsonResponse({ error: 'AI usage could not be checked. Please try again.' }, origin, 503)
       }
-      
-      geminiContents.push({
-        role,
-        parts: [{ text }]
-      })
-    }
-
-    const payload = {
-      contents: geminiContents,
-      generationConfig: {
-        temperature: 0.2,
-        maxOutputTokens: 4000,
+      if (quota.limit !== null && quota.used >= quota.limit) {
+        return jsonResponse(
+          { error: `Monthly AI token quota of ${quota.limit} for the ${quota.plan} plan exceeded`, ...quota },
+          origin,
+          402
+        )
       }
     }
 
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`
-
-    const r = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'content-type': 'application/json',
-      },
-      body: JSON.stringify(payload),
-    })
-
-    if (!r.ok) {
-      const txt = await r.text()
-      console.error('Gemini API error:', txt)
-      return new Response(JSON.stringify({ error: 'Gemini request failed', details: txt }), {
-        status: 502,
-        headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-      })
+    const usageContext = {
+      userId: accountId ?? '',
+      caseId: supabase && accountId ? await ownedCaseId(supabase, accountId, body?.caseId) : null,
+      feature: usageFeature(body?.feature),
+      provider: requested,
+      model,
     }
+    const record = async (content: string, usage: Usage | null, status: FinishStatus) => {
+      // Nothing was generated, so there is nothing to bill
+      if (!supabase || !accountId || (status === 'failed' && !content)) return
+      await recordUsage(supabase, usageContext, usageFor(usage, promptChars, content), status)
+    }
+
+    // req.signal fires when the client disconnects, which aborts the upstream request too
+    const chunks = adapter.stream({ messages, system, model, json, schema, signal: req.signal })
 
-    const data = await r.json()
-    const content = data?.candidates?.[0]?.content?.parts?.[0]?.text ?? ''
-    const usage = {
-      prompt_tokens: data?.usageMetadata?.promptTokenCount ?? 0,
-      completion_tokens: data?.usageMetadata?.candidatesTokenCount ?? 0,
-      total_tokens: data?.usageMetadata?.totalTokenCount ?? 0,
+    if (body?.stream === true) {
+      return sseResponse(chunks, origin, req.signal, record)
     }
 
-    return new Response(JSON.stringify({ content, usage }), {
-      headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-    })
+    let content = ''
+    let usage: Usage | null = null
+    try {
+      for await (const chunk of chunks) {
+        if ('usage' in chunk) usage = chunk.usage
+        else content += chunk.content
+      }
+    } catch (e) {
+      await record(content, usage, req.signal.aborted ? 'aborted' : 'failed')
+      throw e
+    }
+    await record(content, usage, 'completed')
+    return jsonResponse({ content, usage }, origin)
   } catch (e) {
-    console.error('Gemini handler error:', e)
-    return new Response(JSON.stringify({ error: 'Gemini service temporarily unavailable. Please try again.' }), {
-      status: 500,
-      headers: { 'content-type': 'application/json', ...corsHeaders(origin) },
-    })
+    if (e instanceof ProviderError) {
+      return jsonResponse(
+        { error: e.status === 429 ? 'Rate limit exceeded' : e.message, details: e.details },
+        origin,
+        e.status,
+        e.retryAfter ? { 'Retry-After': String(e.retryAfter) } : {}
+      )
+    }
+    console.error('Legal AI chat error:', e)
+    return jsonResponse({ error: 'An unexpected error occurred. Please try again.' }, origin, 500)
   }
-}
+})
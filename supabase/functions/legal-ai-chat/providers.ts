@@ -0,0 +1,323 @@
+// Provider adapters for legal-ai-chat
+// Every backend streams the same ProviderChunk shape, so the handler never branches on provider.
+
+export type ChatMessage = { role: string; content: string }
+export type Usage = { prompt_tokens: number; completion_tokens: number; total_tokens: number }
+
+// What a provider adapter yields: text as it arrives, then token usage if the provider reports it
+export type ProviderChunk = { content: string } | { usage: Usage }
+
+export type ProviderId = 'openai' | 'gemini' | 'anthropic' | 'local' | 'stub'
+
+// JSON Schema a structured reply must follow
+export type OutputSchema = { name: string; description?: string; parameters: Record<string, unknown> }
+
+export interface ProviderCapabilities {
+  contextWindow: number
+  streaming: boolean
+  jsonMode: boolean
+  // Can be forced to call a tool, so a schema can be enforced without JSON mode
+  toolCalling: boolean
+  // Runs on our own infrastructure, so privileged material may be sent to it
+  selfHosted: boolean
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[]
+  system: string
+  model: string
+  json: boolean
+  schema: OutputSchema | null
+  signal: AbortSignal
+}
+
+export interface ProviderAdapter {
+  id: ProviderId
+  defaultModel: string
+  capabilities: ProviderCapabilities
+  // Name of the missing setting, or null when the adapter can be used
+  missingConfig(): string | null
+  stream(request: CompletionRequest): AsyncGenerator<ProviderChunk>
+}
+
+export class ProviderError extends Error {
+  // retryAfter is in seconds, as the upstream sent it
+  constructor(message: string, public status = 502, public details?: string, public retryAfter?: number) {
+    super(message)
+    this.name = 'ProviderError'
+  }
+}
+
+/**
+ * Yield the JSON payload of each `data:` line in a server-sent event stream
+ */
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+  try {
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) break
+      buffer += value
+      const lines = buffer.split(/\r?\n/)
+      buffer = lines.pop() ?? ''
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield line.slice(5).trim()
+      }
+    }
+    if (buffer.startsWith('data:')) yield buffer.slice(5).trim()
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+async function failedResponse(label: string, r: Response): Promise<ProviderError> {
+  const txt = await r.text()
+  console.error(`${label} API error:`, txt)
+  const retryAfter = Number(r.headers.get('retry-after')) || undefined
+  return new ProviderError(`${label} request failed`, r.status === 429 ? 429 : 502, txt, retryAfter)
+}
+
+// OpenAI-compatible servers validate against the schema when given one; strict mode is off
+// because optional fields are allowed
+function responseFormat(schema: OutputSchema | null) {
+  if (!schema) return { type: 'json_object' }
+  return {
+    type: 'json_schema',
+    json_schema: { name: schema.name, description: schema.description, schema: schema.parameters, strict: false },
+  }
+}
+
+/**
+ * Adapter for any server speaking the OpenAI chat completions protocol:
+ * OpenAI itself, or a vLLM / Ollama / LM Studio instance on our own network
+ */
+function openAICompatible(options: {
+  id: ProviderId
+  label: string
+  baseUrl: () => string
+  apiKey: () => string | undefined
+  apiKeyRequired: boolean
+  defaultModel: string
+  capabilities: ProviderCapabilities
+}): ProviderAdapter {
+  return {
+    id: options.id,
+    defaultModel: options.defaultModel,
+    capabilities: options.capabilities,
+    missingConfig() {
+      if (!options.baseUrl()) return 'LOCAL_AI_BASE_URL'
+      if (options.apiKeyRequired && !options.apiKey()) return 'OPENAI_API_KEY'
+      return null
+    },
+    async *stream({ messages, system, model, json, schema, signal }) {
+      const apiKey = options.apiKey()
+      const r = await fetch(`${options.baseUrl().replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(apiKey ? { 'authorization': `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'system', content: system }, ...messages.filter(m => m.role !== 'system')],
+          temperature: 0.2,
+          max_tokens: 4000,
+          stream: true,
+          stream_options: { include_usage: true },
+          ...(json ? { response_format: responseFormat(schema) } : {}),
+        }),
+        signal,
+      })
+
+      if (!r.ok || !r.body) throw await failedResponse(options.label, r)
+
+      for await (const data of readSSEData(r.body)) {
+        if (data === '[DONE]') return
+        const chunk = JSON.parse(data)
+        const content = chunk?.choices?.[0]?.delta?.content
+        if (content) yield { content }
+        if (chunk?.usage) yield { usage: chunk.usage }
+      }
+    },
+  }
+}
+
+const openai = openAICompatible({
+  id: 'openai',
+  label: 'OpenAI',
+  baseUrl: () => 'https://api.openai.com/v1',
+  apiKey: () => Deno.env.get('OPENAI_API_KEY'),
+  apiKeyRequired: true,
+  defaultModel: 'gpt-4o-mini',
+  capabilities: { contextWindow: 128000, streaming: true, jsonMode: true, toolCalling: true, selfHosted: false },
+})
+
+const local = openAICompatible({
+  id: 'local',
+  label: 'Local model',
+  baseUrl: () => Deno.env.get('LOCAL_AI_BASE_URL') || '',
+  apiKey: () => Deno.env.get('LOCAL_AI_API_KEY'),
+  apiKeyRequired: false,
+  defaultModel: Deno.env.get('LOCAL_AI_MODEL') || 'llama3.1',
+  capabilities: {
+    contextWindow: Number(Deno.env.get('LOCAL_AI_CONTEXT_WINDOW')) || 8192,
+    streaming: true,
+    jsonMode: true,
+    toolCalling: false,
+    selfHosted: true,
+  },
+})
+
+const gemini: ProviderAdapter = {
+  id: 'gemini',
+  defaultModel: 'gemini-pro',
+  capabilities: { contextWindow: 32768, streaming: true, jsonMode: true, toolCalling: false, selfHosted: false },
+  missingConfig: () => (Deno.env.get('GOOGLE_AI_API_KEY') ? null : 'GOOGLE_AI_API_KEY'),
+  async *stream({ messages, system, model, json, signal }) {
+    const apiKey = Deno.env.get('GOOGLE_AI_API_KEY')
+
+    // Gemini has no system role, so the system prompt is prepended to the first user message
+    const contents = []
+    let systemPrepended = false
+    for (const msg of messages) {
+      if (msg.role === 'system') continue
+      const role = msg.role === 'assistant' ? 'model' : 'user'
+      let text = msg.content
+      if (role === 'user' && !systemPrepended) {
+        text = `${system}\n\n${text}`
+        systemPrepended = true
+      }
+      contents.push({ role, parts: [{ text }] })
+    }
+
+    const r = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`,
+      {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          contents,
+          generationConfig: {
+            temperature: 0.2,
+            maxOutputTokens: 4000,
+            ...(json ? { responseMimeType: 'application/json' } : {}),
+          },
+        }),
+        signal,
+      }
+    )
+
+    if (!r.ok || !r.body) throw await failedResponse('Gemini', r)
+
+    // Gemini reports cumulative usage on every chunk; only the last one matters
+    let usage: Usage | null = null
+    for await (const data of readSSEData(r.body)) {
+      const chunk = JSON.parse(data)
+      const content = chunk?.candidates?.[0]?.content?.parts?.map((p: { text?: string }) => p.text ?? '').join('')
+      if (content) yield { content }
+      if (chunk?.usageMetadata) {
+        usage = {
+          prompt_tokens: chunk.usageMetadata.promptTokenCount ?? 0,
+          completion_tokens: chunk.usageMetadata.candidatesTokenCount ?? 0,
+          total_tokens: chunk.usageMetadata.totalTokenCount ?? 0,
+        }
+      }
+    }
+    if (usage) yield { usage }
+  },
+}
+
+const anthropic: ProviderAdapter = {
+  id: 'anthropic',
+  defaultModel: 'claude-3-5-sonnet-latest',
+  capabilities: { contextWindow: 200000, streaming: true, jsonMode: false, toolCalling: true, selfHosted: false },
+  missingConfig: () => (Deno.env.get('ANTHROPIC_API_KEY') ? null : 'ANTHROPIC_API_KEY'),
+  async *stream({ messages, system, model, schema, signal }) {
+    // The Messages API wants strictly alternating turns that open with the user
+    const turns: ChatMessage[] = []
+    for (const msg of messages) {
+      if (msg.role === 'system') continue
+      const last = turns[turns.length - 1]
+      if (last && last.role === msg.role) last.content += `\n\n${msg.content}`
+      else turns.push({ role: msg.role, content: msg.content })
+    }
+    if (turns[0]?.role === 'assistant') turns.shift()
+
+    const r = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': Deno.env.get('ANTHROPIC_API_KEY') ?? '',
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model,
+        system,
+        messages: turns,
+        temperature: 0.2,
+        max_tokens: 4000,
+        stream: true,
+        // Forcing the one tool makes its input, streamed as JSON, the whole reply
+        ...(schema
+          ? {
+              tools: [{ name: schema.name, description: schema.description ?? `Return the ${schema.name}`, input_schema: schema.parameters }],
+              tool_choice: { type: 'tool', name: schema.name },
+            }
+          : {}),
+      }),
+      signal,
+    })
+
+    if (!r.ok || !r.body) throw await failedResponse('Anthropic', r)
+
+    let promptTokens = 0
+    let completionTokens = 0
+    for await (const data of readSSEData(r.body)) {
+      const event = JSON.parse(data)
+      switch (event?.type) {
+        case 'message_start':
+          promptTokens = event.message?.usage?.input_tokens ?? 0
+          break
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) yield { content: event.delta.text }
+          if (event.delta?.type === 'input_json_delta' && event.delta.partial_json) yield { content: event.delta.partial_json }
+          break
+        case 'message_delta':
+          completionTokens = event.usage?.output_tokens ?? completionTokens
+          break
+        case 'error':
+          throw new ProviderError(
+            'Anthropic request failed',
+            event.error?.type === 'rate_limit_error' ? 429 : 502,
+            event.error?.message
+          )
+      }
+    }
+    yield { usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens } }
+  },
+}
+
+// The stub provider echoes the last message word by word so the streaming path can be exercised without an API key
+const stub: ProviderAdapter = {
+  id: 'stub',
+  defaultModel: 'stub',
+  capabilities: { contextWindow: 10000, streaming: true, jsonMode: false, toolCalling: false, selfHosted: true },
+  missingConfig: () => (Deno.env.get('ENABLE_STUB_PROVIDER') === 'true' ? null : 'ENABLE_STUB_PROVIDER'),
+  async *stream({ messages, signal }) {
+    const prompt = messages[messages.length - 1].content
+    const words = `Stub response to: ${prompt}`.split(/(?<=\s)/)
+    for (const word of words) {
+      if (signal.aborted) return
+      await new Promise(resolve => setTimeout(resolve, 20))
+      yield { content: word }
+    }
+    yield { usage: { prompt_tokens: prompt.length, completion_tokens: words.length, total_tokens: prompt.length + words.length } }
+  },
+}
+
+export const PROVIDERS: Record<ProviderId, ProviderAdapter> = { openai, gemini, anthropic, local, stub }
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROVIDERS, value)
+}
@@ -0,0 +1,164 @@
+// Usage ledger and monthly plan quotas for legal-ai-chat
+// Every request is recorded in ai_usage; the price table turns the rows into cost on the admin side.
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import type { ProviderId, Usage } from './providers.ts'
+
+// Features that call the AI; anything else is recorded as 'other'
+export const USAGE_FEATURES = [
+  'chat',
+  'assistant',
+  'agent',
+  'background_agent',
+  'brief_generator',
+  'document_analyzer',
+  'rebuttal_assistant',
+  'privilege_log',
+  'legal_research',
+] as const
+
+export type UsageFeature = typeof USAGE_FEATURES[number] | 'other'
+
+export interface UsageContext {
+  userId: string
+  caseId: string | null
+  feature: UsageFeature
+  provider: ProviderId
+  model: string
+}
+
+export interface QuotaStatus {
+  plan: string
+  limit: number | null
+  used: number
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Same heuristic the context window check uses
+const CHARS_PER_TOKEN = 4
+
+let client: SupabaseClient | null | undefined
+
+/**
+ * Service-role client, or null when the function runs without Supabase configuration
+ * (local development); usage is then neither recorded nor limited.
+ */
+export function usageClient(): SupabaseClient | null {
+  if (client === undefined) {
+    const url = Deno.env.get('SUPABASE_URL')
+    const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    client = url && key ? createClient(url, key) : null
+  }
+  return client
+}
+
+export function usageFeature(value: unknown): UsageFeature {
+  return typeof value === 'string' && (USAGE_FEATURES as readonly string[]).includes(value)
+    ? value as UsageFeature
+    : 'other'
+}
+
+export function caseIdFrom(value: unknown): string | null {
+  return typeof value === 'string' && UUID_PATTERN.test(value) ? value : null
+}
+
+/**
+ * The request's case id when it names one of the user's own cases, otherwise null.
+ * The service-role client bypasses RLS, so ownership is checked the way the cases policy does.
+ */
+export async function ownedCaseId(supabase: SupabaseClient, userId: string, value: unknown): Promise<string | null> {
+  const caseId = caseIdFrom(value)
+  if (!caseId) return null
+  const { data, error } = await supabase
+    .from('cases')
+    .select('id')
+    .eq('id', caseId)
+    .eq('attorney_id', userId)
+    .maybeSingle()
+  if (error) console.error('Failed to check the case for AI usage:', error)
+  return data?.id ?? null
+}
+
+/**
+ * The signed-in user behind the request's bearer token, or null for the anon key
+ */
+export async function requestUser(supabase: SupabaseClient, authHeader: string | null): Promise<string | null> {
+  const token = authHeader?.split(' ')[1]
+  if (!token) return null
+  const { data, error } = await supabase.auth.getUser(token)
+  return error ? null : data.user?.id ?? null
+}
+
+/**
+ * The user's monthly token allowance and what has been used of it so far.
+ * Users without an active subscription are on the free plan. Throws when the plan or the
+ * usage cannot be read, so a lookup failure never passes for an unused allowance.
+ */
+export async function quotaStatus(supabase: SupabaseClient, userId: string): Promise<QuotaStatus> {
+  const { data: subscription, error: subscriptionError } = await supabase
+    .from('subscriptions')
+    .select('plan_name')
+    .eq('user_id', userId)
+    .in('status', ['active', 'trialing'])
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (subscriptionError) throw new Error(`Failed to read subscription: ${subscriptionError.message}`)
+
+  const plan = String(subscription?.plan_name || 'free').trim().toLowerCase()
+
+  const { data: quota, error: quotaError } = await supabase
+    .from('ai_plan_quotas')
+    .select('monthly_token_limit')
+    .eq('plan_name', plan)
+    .maybeSingle()
+  if (quotaError) throw new Error(`Failed to read plan quota: ${quotaError.message}`)
+
+  // A plan without a quota row is unlimited, the same as an explicit NULL
+  const limit = quota?.monthly_token_limit ?? null
+  if (limit === null) return { plan, limit, used: 0 }
+
+  const { data: used, error } = await supabase.rpc('ai_tokens_used_this_month', { p_user_id: userId })
+  if (error) throw new Error(`Failed to read AI usage: ${error.message}`)
+
+  return { plan, limit: Number(limit), used: Number(used ?? 0) }
+}
+
+/**
+ * Token counts for the ledger, estimated from the text when the provider reported none
+ * (aborted streams, or backends that do not return usage)
+ */
+export function usageFor(usage: Usage | null, promptChars: number, completion: string): Usage & { estimated: boolean } {
+  if (usage && usage.total_tokens > 0) return { ...usage, estimated: false }
+  const prompt_tokens = Math.ceil(promptChars / CHARS_PER_TOKEN)
+  const completion_tokens = Math.ceil(completion.length / CHARS_PER_TOKEN)
+  return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens, estimated: true }
+}
+
+/**
+ * Append a row to the usage ledger. A failed insert is retried once without the case, so a
+ * case deleted mid-request costs the row its attribution rather than the quota its tokens;
+ * only a second failure is logged, since the response has already been sent.
+ */
+export async function recordUsage(
+  supabase: SupabaseClient,
+  context: UsageContext,
+  usage: Usage & { estimated: boolean },
+  status: 'completed' | 'aborted' | 'failed'
+): Promise<void> {
+  const row = {
+    user_id: context.userId,
+    case_id: context.caseId,
+    feature: context.feature,
+    provider: context.provider,
+    model: context.model,
+    prompt_tokens: usage.prompt_tokens,
+    completion_tokens: usage.completion_tokens,
+    total_tokens: usage.total_tokens,
+    estimated: usage.estimated,
+    status,
+  }
+  let { error } = await supabase.from('ai_usage').insert(row)
+  if (error) ({ error } = await supabase.from('ai_usage').insert({ ...row, case_id: null }))
+  if (error) console.error('Failed to record AI usage:', error)
+}
@@ -75,7 +75,7 @@ serve(async (req) => {
       }
 
       case 'create_subscription': {
-        const { customerId, priceId } = body
+        const { customerId, priceId, userId } = body
         
         if (!customerId || !priceId) {
           return new Response(
@@ -93,6 +93,8 @@ serve(async (req) => {
           payment_behavior: 'default_incomplete',
           payment_settings: { save_default_payment_method: 'on_subscription' },
           expand: ['latest_invoice.payment_intent'],
+          // The webhook copies this onto the subscriptions row so AI quotas can find the user's plan
+          ...(userId && { metadata: { user_id: userId } }),
         })
 
         return new Response(
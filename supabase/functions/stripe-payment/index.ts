@@ -31,7 +31,7 @@ serve(async (req) => {
     }
 
     const body = await req.json().catch(() => ({}))
-    const { action, amount, currency, planName, customerEmail, userId } = body
+    const { action, amount, currency, planName, interval, customerEmail, userId } = body
 
     if (action === 'create_payment_intent') {
       if (!amount || amount <= 0) {
@@ -94,15 +94,19 @@ serve(async (req) => {
           'Content-Type': 'application/x-www-form-urlencoded',
         },
         body: new URLSearchParams({
-          'mode': 'payment',
+          'mode': 'subscription',
           'success_url': successUrl,
           'cancel_url': cancelUrl,
           'line_items[0][price_data][currency]': currency || 'usd',
           'line_items[0][price_data][product_data][name]': planName || 'DocketChief Subscription',
           'line_items[0][price_data][unit_amount]': Math.round(amount * 100).toString(),
+          'line_items[0][price_data][recurring][interval]': interval === 'year' ? 'year' : 'month',
           'line_items[0][quantity]': '1',
           ...(customerEmail ? { 'customer_email': customerEmail } : {}),
           ...(userId ? { 'metadata[user_id]': userId } : {}),
+          // The webhook copies these onto the subscriptions row so AI quotas can find the user's plan
+          ...(userId ? { 'subscription_data[metadata][user_id]': userId } : {}),
+          ...(planName ? { 'subscription_data[metadata][plan_name]': planName } : {}),
         }),
       })
 
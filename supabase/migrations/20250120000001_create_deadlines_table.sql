@@ -0,0 +1,68 @@
+-- DocketChief Deadlines Migration
+-- Created: 2025-01-20
+-- Description: Deadlines table for manually entered and rules-calculated court deadlines
+
+-- =====================================================
+-- TABLE: deadlines
+-- Description: Store case deadlines, including those generated from trigger events
+-- =====================================================
+CREATE TABLE IF NOT EXISTS deadlines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    case_id UUID NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    description TEXT,
+    due_date DATE NOT NULL,
+    priority TEXT NOT NULL DEFAULT 'medium',
+    completed BOOLEAN NOT NULL DEFAULT false,
+    completed_at TIMESTAMPTZ,
+    source TEXT NOT NULL DEFAULT 'manual',
+    rule_id TEXT,
+    rule_reference TEXT,
+    trigger_event TEXT,
+    trigger_date DATE,
+    jurisdiction TEXT,
+    service_method TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_deadline_priority CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+    CONSTRAINT valid_deadline_source CHECK (source IN ('manual', 'rule')),
+    CONSTRAINT valid_trigger_event CHECK (trigger_event IS NULL OR trigger_event IN ('service-of-complaint', 'entry-of-judgment', 'motion-filed')),
+    CONSTRAINT valid_service_method CHECK (service_method IS NULL OR service_method IN ('personal', 'electronic', 'mail', 'clerk'))
+);
+
+-- Create indexes for deadlines
+CREATE INDEX idx_deadlines_user_id ON deadlines(user_id);
+CREATE INDEX idx_deadlines_case_id ON deadlines(case_id);
+CREATE INDEX idx_deadlines_due_date ON deadlines(due_date);
+CREATE INDEX idx_deadlines_completed ON deadlines(completed);
+
+-- Enable RLS
+ALTER TABLE deadlines ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for deadlines
+CREATE POLICY "Users can view their own deadlines"
+    ON deadlines FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own deadlines"
+    ON deadlines FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own deadlines"
+    ON deadlines FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own deadlines"
+    ON deadlines FOR DELETE
+    USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_deadlines_updated_at BEFORE UPDATE ON deadlines
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE deadlines IS 'Stores case deadlines, including deadlines calculated from trigger events under court rules';
+
+-- End of migration
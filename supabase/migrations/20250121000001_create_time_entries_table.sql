@@ -0,0 +1,75 @@
+-- DocketChief Time Entries Migration
+-- Created: 2025-01-21
+-- Description: Time entries recorded by timer or by hand, with billable flag and UTBMS codes
+
+-- =====================================================
+-- TABLE: time_entries
+-- Description: Store time worked on cases and for clients, billed in 0.1-hour increments
+-- =====================================================
+CREATE TABLE IF NOT EXISTS time_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    case_id UUID REFERENCES cases(id) ON DELETE SET NULL,
+    client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+    description TEXT NOT NULL DEFAULT '',
+    entry_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    started_at TIMESTAMPTZ,
+    ended_at TIMESTAMPTZ,
+    duration_minutes INTEGER NOT NULL DEFAULT 0,
+    hours NUMERIC(6, 1) NOT NULL DEFAULT 0,
+    billable BOOLEAN NOT NULL DEFAULT true,
+    rate NUMERIC(10, 2),
+    utbms_task_code TEXT,
+    utbms_activity_code TEXT,
+    source TEXT NOT NULL DEFAULT 'manual',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_time_entry_source CHECK (source IN ('timer', 'manual')),
+    CONSTRAINT valid_time_entry_hours CHECK (hours >= 0 AND hours * 10 = TRUNC(hours * 10)),
+    CONSTRAINT valid_time_entry_duration CHECK (duration_minutes >= 0),
+    CONSTRAINT valid_time_entry_rate CHECK (rate IS NULL OR rate >= 0),
+    CONSTRAINT valid_time_entry_period CHECK (ended_at IS NULL OR started_at IS NULL OR ended_at >= started_at),
+    CONSTRAINT valid_utbms_task_code CHECK (utbms_task_code IS NULL OR utbms_task_code ~ '^[A-Z][0-9]{3}$'),
+    CONSTRAINT valid_utbms_activity_code CHECK (utbms_activity_code IS NULL OR utbms_activity_code ~ '^A[0-9]{3}$')
+);
+
+-- Create indexes for time_entries
+CREATE INDEX idx_time_entries_user_id ON time_entries(user_id);
+CREATE INDEX idx_time_entries_case_id ON time_entries(case_id);
+CREATE INDEX idx_time_entries_client_id ON time_entries(client_id);
+CREATE INDEX idx_time_entries_entry_date ON time_entries(entry_date DESC);
+CREATE INDEX idx_time_entries_billable ON time_entries(billable);
+
+-- A user can only have one running timer at a time
+CREATE UNIQUE INDEX idx_time_entries_running_timer ON time_entries(user_id)
+    WHERE source = 'timer' AND ended_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE time_entries ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for time_entries
+CREATE POLICY "Users can view their own time entries"
+    ON time_entries FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own time entries"
+    ON time_entries FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own time entries"
+    ON time_entries FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own time entries"
+    ON time_entries FOR DELETE
+    USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_time_entries_updated_at BEFORE UPDATE ON time_entries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE time_entries IS 'Stores attorney time entries linked to cases and clients, with UTBMS task and activity codes';
+
+-- End of migration
@@ -0,0 +1,142 @@
+-- DocketChief Client Invoicing Migration
+-- Created: 2025-01-22
+-- Description: Client invoices and their time, fee and expense line items
+
+-- =====================================================
+-- TABLE: invoices
+-- Description: Store invoices issued to clients, from draft through payment
+-- =====================================================
+CREATE TABLE IF NOT EXISTS invoices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    client_id UUID NOT NULL REFERENCES clients(id) ON DELETE RESTRICT,
+    case_id UUID REFERENCES cases(id) ON DELETE SET NULL,
+    invoice_number TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'draft',
+    invoice_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    due_date DATE,
+    period_start DATE,
+    period_end DATE,
+    description TEXT,
+    client_reference TEXT,
+    client_matter_reference TEXT,
+    subtotal NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    adjustment_total NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    approved_at TIMESTAMPTZ,
+    approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    sent_at TIMESTAMPTZ,
+    paid_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_invoice_status CHECK (status IN ('draft', 'approved', 'sent', 'paid', 'void')),
+    CONSTRAINT valid_invoice_period CHECK (period_start IS NULL OR period_end IS NULL OR period_end >= period_start),
+    CONSTRAINT valid_invoice_adjustment CHECK (adjustment_total <= 0),
+    CONSTRAINT unique_invoice_number UNIQUE (user_id, invoice_number)
+);
+
+-- Create indexes for invoices
+CREATE INDEX idx_invoices_user_id ON invoices(user_id);
+CREATE INDEX idx_invoices_client_id ON invoices(client_id);
+CREATE INDEX idx_invoices_case_id ON invoices(case_id);
+CREATE INDEX idx_invoices_status ON invoices(status);
+CREATE INDEX idx_invoices_invoice_date ON invoices(invoice_date DESC);
+
+-- Enable RLS
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for invoices
+CREATE POLICY "Users can view their own invoices"
+    ON invoices FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own invoices"
+    ON invoices FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own invoices"
+    ON invoices FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own invoices"
+    ON invoices FOR DELETE
+    USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_invoices_updated_at BEFORE UPDATE ON invoices
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE invoices IS 'Stores client invoices built from unbilled line items, with approval and payment status';
+
+-- =====================================================
+-- TABLE: billing_line_items
+-- Description: Store billable time, flat fees and expenses; unbilled until attached to an invoice
+-- =====================================================
+CREATE TABLE IF NOT EXISTS billing_line_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+    case_id UUID REFERENCES cases(id) ON DELETE SET NULL,
+    invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    time_entry_id UUID UNIQUE REFERENCES time_entries(id) ON DELETE SET NULL,
+    line_type TEXT NOT NULL,
+    line_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    description TEXT NOT NULL,
+    quantity NUMERIC(10, 2) NOT NULL DEFAULT 1,
+    rate NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    adjustment_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    adjustment_reason TEXT,
+    utbms_task_code TEXT,
+    utbms_activity_code TEXT,
+    utbms_expense_code TEXT,
+    timekeeper_id TEXT,
+    timekeeper_name TEXT,
+    timekeeper_classification TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_line_type CHECK (line_type IN ('time', 'fee', 'expense')),
+    CONSTRAINT valid_line_quantity CHECK (quantity > 0),
+    CONSTRAINT valid_line_rate CHECK (rate >= 0),
+    CONSTRAINT valid_line_write_down CHECK (adjustment_amount <= 0 AND -adjustment_amount <= ROUND(quantity * rate, 2)),
+    CONSTRAINT valid_line_expense_code CHECK (utbms_expense_code IS NULL OR utbms_expense_code ~ '^E[0-9]{3}$'),
+    CONSTRAINT valid_timekeeper_classification CHECK (timekeeper_classification IS NULL OR timekeeper_classification IN ('PT', 'AS', 'OC', 'LA', 'PL', 'OT'))
+);
+
+-- Create indexes for billing_line_items
+CREATE INDEX idx_billing_line_items_user_id ON billing_line_items(user_id);
+CREATE INDEX idx_billing_line_items_client_id ON billing_line_items(client_id);
+CREATE INDEX idx_billing_line_items_case_id ON billing_line_items(case_id);
+CREATE INDEX idx_billing_line_items_invoice_id ON billing_line_items(invoice_id);
+CREATE INDEX idx_billing_line_items_unbilled ON billing_line_items(client_id) WHERE invoice_id IS NULL;
+
+-- Enable RLS
+ALTER TABLE billing_line_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for billing_line_items
+CREATE POLICY "Users can view their own billing line items"
+    ON billing_line_items FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own billing line items"
+    ON billing_line_items FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own billing line items"
+    ON billing_line_items FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own billing line items"
+    ON billing_line_items FOR DELETE
+    USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_billing_line_items_updated_at BEFORE UPDATE ON billing_line_items
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE billing_line_items IS 'Stores time, flat fee and expense charges for clients; rows without an invoice are unbilled';
+
+-- End of migration
@@ -0,0 +1,212 @@
+-- DocketChief Trust Accounting Migration
+-- Created: 2025-01-23
+-- Description: IOLTA trust accounts, per-client trust ledger entries and monthly reconciliations
+
+-- =====================================================
+-- TABLE: trust_accounts
+-- Description: Store the firm's trust (IOLTA) bank accounts
+-- =====================================================
+CREATE TABLE IF NOT EXISTS trust_accounts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    bank_name TEXT,
+    account_number_last4 TEXT,
+    is_iolta BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_account_number_last4 CHECK (account_number_last4 IS NULL OR account_number_last4 ~ '^[0-9]{4}$')
+);
+
+-- Create indexes for trust_accounts
+CREATE INDEX idx_trust_accounts_user_id ON trust_accounts(user_id);
+
+-- Enable RLS
+ALTER TABLE trust_accounts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for trust_accounts
+CREATE POLICY "Users can view their own trust accounts"
+    ON trust_accounts FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own trust accounts"
+    ON trust_accounts FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own trust accounts"
+    ON trust_accounts FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_trust_accounts_updated_at BEFORE UPDATE ON trust_accounts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE trust_accounts IS 'Stores trust (IOLTA) bank accounts holding client funds';
+
+-- =====================================================
+-- TABLE: trust_transactions
+-- Description: Store deposits to and disbursements from each client's trust sub-ledger
+-- =====================================================
+CREATE TABLE IF NOT EXISTS trust_transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES trust_accounts(id) ON DELETE RESTRICT,
+    client_id UUID NOT NULL REFERENCES clients(id) ON DELETE RESTRICT,
+    case_id UUID REFERENCES cases(id) ON DELETE SET NULL,
+    transaction_type TEXT NOT NULL,
+    amount NUMERIC(12, 2) NOT NULL,
+    transaction_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    payee TEXT,
+    memo TEXT NOT NULL,
+    reference TEXT,
+    cleared_date DATE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_trust_transaction_type CHECK (transaction_type IN ('deposit', 'disbursement')),
+    CONSTRAINT valid_trust_amount CHECK (amount > 0),
+    CONSTRAINT disbursement_requires_payee CHECK (transaction_type <> 'disbursement' OR COALESCE(TRIM(payee), '') <> ''),
+    CONSTRAINT valid_cleared_date CHECK (cleared_date IS NULL OR cleared_date >= transaction_date)
+);
+
+-- Create indexes for trust_transactions
+CREATE INDEX idx_trust_transactions_user_id ON trust_transactions(user_id);
+CREATE INDEX idx_trust_transactions_account_client ON trust_transactions(account_id, client_id);
+CREATE INDEX idx_trust_transactions_case_id ON trust_transactions(case_id);
+CREATE INDEX idx_trust_transactions_transaction_date ON trust_transactions(transaction_date);
+CREATE INDEX idx_trust_transactions_uncleared ON trust_transactions(account_id) WHERE cleared_date IS NULL;
+
+-- Enable RLS
+ALTER TABLE trust_transactions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for trust_transactions
+-- Ledger entries are never deleted; mistakes are corrected with an offsetting entry
+CREATE POLICY "Users can view their own trust transactions"
+    ON trust_transactions FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own trust transactions"
+    ON trust_transactions FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own trust transactions"
+    ON trust_transactions FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- Block any disbursement that would take a client's trust balance below zero.
+-- The advisory lock serializes concurrent disbursements for the same client ledger.
+CREATE OR REPLACE FUNCTION prevent_trust_overdraft()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    client_balance NUMERIC(12, 2);
+BEGIN
+    IF NEW.transaction_type <> 'disbursement' THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.account_id::text || ':' || NEW.client_id::text));
+
+    SELECT COALESCE(SUM(CASE WHEN transaction_type = 'deposit' THEN amount ELSE -amount END), 0)
+      INTO client_balance
+      FROM trust_transactions
+     WHERE account_id = NEW.account_id
+       AND client_id = NEW.client_id;
+
+    IF client_balance < NEW.amount THEN
+        RAISE EXCEPTION 'Disbursement of % exceeds the client trust balance of %', NEW.amount, client_balance
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_trust_overdraft BEFORE INSERT ON trust_transactions
+    FOR EACH ROW EXECUTE FUNCTION prevent_trust_overdraft();
+
+-- Only the cleared date can change once an entry is recorded
+CREATE OR REPLACE FUNCTION protect_trust_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF (NEW.account_id, NEW.client_id, NEW.transaction_type, NEW.amount, NEW.transaction_date)
+        IS DISTINCT FROM (OLD.account_id, OLD.client_id, OLD.transaction_type, OLD.amount, OLD.transaction_date) THEN
+        RAISE EXCEPTION 'Trust ledger entries cannot be changed; record an offsetting entry instead';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_trust_transaction BEFORE UPDATE ON trust_transactions
+    FOR EACH ROW EXECUTE FUNCTION protect_trust_transaction();
+
+CREATE TRIGGER update_trust_transactions_updated_at BEFORE UPDATE ON trust_transactions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE trust_transactions IS 'Stores trust account deposits and disbursements on per-client sub-ledgers; entries are append-only';
+
+-- =====================================================
+-- TABLE: trust_reconciliations
+-- Description: Store monthly three-way reconciliations of bank, book and client ledger balances
+-- =====================================================
+CREATE TABLE IF NOT EXISTS trust_reconciliations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES trust_accounts(id) ON DELETE CASCADE,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    bank_statement_balance NUMERIC(12, 2) NOT NULL,
+    adjusted_bank_balance NUMERIC(12, 2) NOT NULL,
+    book_balance NUMERIC(12, 2) NOT NULL,
+    client_ledger_total NUMERIC(12, 2) NOT NULL,
+    balanced BOOLEAN NOT NULL,
+    report JSONB NOT NULL,
+    notes TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_reconciliation_period CHECK (period_end >= period_start),
+    CONSTRAINT unique_reconciliation_period UNIQUE (account_id, period_end)
+);
+
+-- Create indexes for trust_reconciliations
+CREATE INDEX idx_trust_reconciliations_user_id ON trust_reconciliations(user_id);
+CREATE INDEX idx_trust_reconciliations_account_id ON trust_reconciliations(account_id, period_end DESC);
+
+-- Enable RLS
+ALTER TABLE trust_reconciliations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for trust_reconciliations
+CREATE POLICY "Users can view their own trust reconciliations"
+    ON trust_reconciliations FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own trust reconciliations"
+    ON trust_reconciliations FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own trust reconciliations"
+    ON trust_reconciliations FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own trust reconciliations"
+    ON trust_reconciliations FOR DELETE
+    USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_trust_reconciliations_updated_at BEFORE UPDATE ON trust_reconciliations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE trust_reconciliations IS 'Stores monthly three-way reconciliation reports for trust accounts';
+
+-- End of migration
@@ -0,0 +1,106 @@
+-- DocketChief Conflict Checking Migration
+-- Created: 2025-01-24
+-- Description: Opposing parties on cases, parties extracted from analyzed documents, and the
+-- audit trail of conflict check clearances and waivers
+
+-- =====================================================
+-- TABLE: cases (alter)
+-- Description: Record the adverse party alongside opposing counsel
+-- =====================================================
+ALTER TABLE cases ADD COLUMN IF NOT EXISTS opposing_party TEXT;
+
+-- =====================================================
+-- TABLE: conflict_parties
+-- Description: Store party names extracted from documents for conflict screening
+-- =====================================================
+CREATE TABLE IF NOT EXISTS conflict_parties (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    case_id UUID REFERENCES cases(id) ON DELETE SET NULL,
+    name TEXT NOT NULL,
+    normalized_name TEXT NOT NULL,
+    source TEXT NOT NULL DEFAULT 'document',
+    source_label TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_conflict_party_source CHECK (source IN ('document', 'manual')),
+    CONSTRAINT unique_conflict_party UNIQUE (user_id, normalized_name, source_label)
+);
+
+-- Create indexes for conflict_parties
+CREATE INDEX idx_conflict_parties_user_id ON conflict_parties(user_id);
+CREATE INDEX idx_conflict_parties_normalized_name ON conflict_parties(normalized_name);
+
+-- Enable RLS
+ALTER TABLE conflict_parties ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for conflict_parties
+CREATE POLICY "Users can view their own conflict parties"
+    ON conflict_parties FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own conflict parties"
+    ON conflict_parties FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own conflict parties"
+    ON conflict_parties FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own conflict parties"
+    ON conflict_parties FOR DELETE
+    USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_conflict_parties_updated_at BEFORE UPDATE ON conflict_parties
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE conflict_parties IS 'Stores party names extracted from analyzed documents for conflict of interest screening';
+
+-- =====================================================
+-- TABLE: conflict_checks
+-- Description: Store the outcome of every conflict check run at client or case intake
+-- =====================================================
+CREATE TABLE IF NOT EXISTS conflict_checks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    subject_type TEXT NOT NULL,
+    subject_id UUID NOT NULL,
+    searched_names TEXT[] NOT NULL DEFAULT '{}',
+    hits JSONB NOT NULL DEFAULT '[]',
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    decision TEXT NOT NULL,
+    notes TEXT,
+    decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    decided_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_conflict_subject_type CHECK (subject_type IN ('client', 'case')),
+    CONSTRAINT valid_conflict_decision CHECK (decision IN ('cleared', 'waived')),
+    CONSTRAINT conflict_hits_require_notes CHECK (hit_count = 0 OR COALESCE(TRIM(notes), '') <> '')
+);
+
+-- Create indexes for conflict_checks
+CREATE INDEX idx_conflict_checks_user_id ON conflict_checks(user_id);
+CREATE INDEX idx_conflict_checks_subject ON conflict_checks(subject_type, subject_id);
+CREATE INDEX idx_conflict_checks_decided_at ON conflict_checks(decided_at DESC);
+
+-- Enable RLS
+ALTER TABLE conflict_checks ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for conflict_checks
+-- Audit records are write-once: no update or delete policies
+CREATE POLICY "Users can view their own conflict checks"
+    ON conflict_checks FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own conflict checks"
+    ON conflict_checks FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE conflict_checks IS 'Audit trail of conflict of interest checks and their clearance or waiver';
+
+-- End of migration
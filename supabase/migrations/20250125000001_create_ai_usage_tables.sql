@@ -0,0 +1,161 @@
+-- DocketChief AI Usage Migration
+-- Created: 2025-01-25
+-- Description: Token ledger for every AI request, the model price table that turns tokens into
+-- cost, and the per-plan monthly token quotas legal-ai-chat enforces
+
+-- =====================================================
+-- TABLE: subscriptions (alter)
+-- Description: Link Stripe subscriptions to the user they belong to so quotas can find the plan
+-- =====================================================
+ALTER TABLE IF EXISTS subscriptions ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_user_id ON subscriptions(user_id);
+
+-- =====================================================
+-- TABLE: ai_usage
+-- Description: One row per AI request with its token counts, model and calling feature
+-- =====================================================
+CREATE TABLE IF NOT EXISTS ai_usage (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    case_id UUID REFERENCES cases(id) ON DELETE SET NULL,
+    feature TEXT NOT NULL DEFAULT 'other',
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    -- Provider did not report usage, so the counts were estimated from the text
+    estimated BOOLEAN NOT NULL DEFAULT false,
+    status TEXT NOT NULL DEFAULT 'completed',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_ai_usage_status CHECK (status IN ('completed', 'aborted', 'failed')),
+    CONSTRAINT non_negative_ai_usage_tokens CHECK (prompt_tokens >= 0 AND completion_tokens >= 0 AND total_tokens >= 0)
+);
+
+-- Create indexes for ai_usage
+CREATE INDEX idx_ai_usage_user_created ON ai_usage(user_id, created_at DESC);
+CREATE INDEX idx_ai_usage_case_id ON ai_usage(case_id);
+CREATE INDEX idx_ai_usage_created_at ON ai_usage(created_at DESC);
+
+-- Enable RLS
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for ai_usage
+-- Rows are written by edge functions with the service role; nobody edits the ledger
+CREATE POLICY "Users can view their own AI usage"
+    ON ai_usage FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all AI usage"
+    ON ai_usage FOR SELECT
+    USING (auth.jwt()->>'role' = 'admin');
+
+COMMENT ON TABLE ai_usage IS 'Ledger of AI token usage per user, case and feature for cost pass-through and quotas';
+
+-- =====================================================
+-- TABLE: ai_model_prices
+-- Description: Price per million tokens for each provider model, effective from a date
+-- =====================================================
+CREATE TABLE IF NOT EXISTS ai_model_prices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider TEXT NOT NULL,
+    -- '*' prices every model of the provider that has no row of its own
+    model TEXT NOT NULL,
+    prompt_price_per_million DECIMAL(10, 4) NOT NULL DEFAULT 0,
+    completion_price_per_million DECIMAL(10, 4) NOT NULL DEFAULT 0,
+    effective_from DATE NOT NULL DEFAULT CURRENT_DATE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT non_negative_ai_model_prices CHECK (prompt_price_per_million >= 0 AND completion_price_per_million >= 0),
+    CONSTRAINT unique_ai_model_price UNIQUE (provider, model, effective_from)
+);
+
+-- Enable RLS
+ALTER TABLE ai_model_prices ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for ai_model_prices
+CREATE POLICY "Authenticated users can view AI model prices"
+    ON ai_model_prices FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage AI model prices"
+    ON ai_model_prices FOR ALL
+    USING (auth.jwt()->>'role' = 'admin')
+    WITH CHECK (auth.jwt()->>'role' = 'admin');
+
+CREATE TRIGGER update_ai_model_prices_updated_at BEFORE UPDATE ON ai_model_prices
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE ai_model_prices IS 'Provider list prices used to turn AI token usage into cost';
+
+INSERT INTO ai_model_prices (provider, model, prompt_price_per_million, completion_price_per_million, effective_from) VALUES
+    ('openai', 'gpt-4o', 2.50, 10.00, '2025-01-01'),
+    ('openai', 'gpt-4o-mini', 0.15, 0.60, '2025-01-01'),
+    ('gemini', 'gemini-pro', 0.50, 1.50, '2025-01-01'),
+    ('anthropic', 'claude-3-5-sonnet-latest', 3.00, 15.00, '2025-01-01'),
+    ('local', '*', 0, 0, '2025-01-01')
+ON CONFLICT (provider, model, effective_from) DO NOTHING;
+
+-- =====================================================
+-- TABLE: ai_plan_quotas
+-- Description: Monthly AI token allowance for each subscription plan
+-- =====================================================
+CREATE TABLE IF NOT EXISTS ai_plan_quotas (
+    plan_name TEXT PRIMARY KEY,
+    -- NULL means unlimited
+    monthly_token_limit BIGINT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT lowercase_ai_plan_name CHECK (plan_name = LOWER(plan_name)),
+    CONSTRAINT non_negative_ai_plan_quota CHECK (monthly_token_limit IS NULL OR monthly_token_limit >= 0)
+);
+
+-- Enable RLS
+ALTER TABLE ai_plan_quotas ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for ai_plan_quotas
+CREATE POLICY "Authenticated users can view AI plan quotas"
+    ON ai_plan_quotas FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage AI plan quotas"
+    ON ai_plan_quotas FOR ALL
+    USING (auth.jwt()->>'role' = 'admin')
+    WITH CHECK (auth.jwt()->>'role' = 'admin');
+
+CREATE TRIGGER update_ai_plan_quotas_updated_at BEFORE UPDATE ON ai_plan_quotas
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE ai_plan_quotas IS 'Monthly AI token quota per subscription plan, enforced by legal-ai-chat';
+
+INSERT INTO ai_plan_quotas (plan_name, monthly_token_limit) VALUES
+    ('free', 50000),
+    ('basic', 500000),
+    ('professional', 5000000),
+    ('enterprise', NULL)
+ON CONFLICT (plan_name) DO NOTHING;
+
+-- =====================================================
+-- FUNCTION: ai_tokens_used_this_month
+-- Description: Tokens a user has consumed since the start of the current calendar month (UTC)
+-- =====================================================
+CREATE OR REPLACE FUNCTION ai_tokens_used_this_month(p_user_id UUID)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(SUM(total_tokens), 0)::BIGINT
+    FROM ai_usage
+    WHERE user_id = p_user_id
+      AND created_at >= date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+$$;
+
+-- End of migration
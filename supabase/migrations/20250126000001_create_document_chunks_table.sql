@@ -0,0 +1,116 @@
+-- DocketChief Document Retrieval Migration
+-- Created: 2025-01-26
+-- Description: pgvector store of chunked, embedded document text for retrieval-augmented chat,
+-- scoped per user and case
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- =====================================================
+-- TABLES: documents, uploaded_documents, document_analyses (alter)
+-- Description: Text to index and the case it belongs to
+-- Pages of extracted text are separated by form feeds, as pdftotext writes them
+-- =====================================================
+ALTER TABLE IF EXISTS documents ADD COLUMN IF NOT EXISTS extracted_text TEXT;
+ALTER TABLE IF EXISTS uploaded_documents ADD COLUMN IF NOT EXISTS extracted_text TEXT;
+ALTER TABLE IF EXISTS uploaded_documents ADD COLUMN IF NOT EXISTS case_id UUID REFERENCES cases(id) ON DELETE SET NULL;
+ALTER TABLE IF EXISTS document_analyses ADD COLUMN IF NOT EXISTS case_id UUID REFERENCES cases(id) ON DELETE SET NULL;
+
+-- =====================================================
+-- TABLE: document_chunks
+-- Description: Embedded passages of document text with the page they came from
+-- =====================================================
+CREATE TABLE IF NOT EXISTS document_chunks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    case_id UUID REFERENCES cases(id) ON DELETE SET NULL,
+    source_type TEXT NOT NULL,
+    source_id UUID NOT NULL,
+    source_title TEXT NOT NULL,
+    -- Path in the legal-documents bucket, signed on retrieval; otherwise a stored URL
+    source_path TEXT,
+    source_url TEXT,
+    page_number INTEGER,
+    chunk_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    -- Hash of the whole source text, so unchanged sources are not re-embedded
+    content_hash TEXT NOT NULL,
+    embedding extensions.vector(1536) NOT NULL,
+    embedding_model TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_document_chunk_source_type CHECK (source_type IN ('document', 'uploaded_document', 'document_analysis')),
+    CONSTRAINT positive_document_chunk_page CHECK (page_number IS NULL OR page_number > 0),
+    CONSTRAINT unique_document_chunk UNIQUE (user_id, source_type, source_id, chunk_index)
+);
+
+-- Create indexes for document_chunks
+CREATE INDEX idx_document_chunks_user_case ON document_chunks(user_id, case_id);
+CREATE INDEX idx_document_chunks_source ON document_chunks(source_type, source_id);
+CREATE INDEX idx_document_chunks_embedding ON document_chunks
+    USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Enable RLS
+ALTER TABLE document_chunks ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for document_chunks
+-- Chunks are written by the document-rag edge function with the service role
+CREATE POLICY "Users can view their own document chunks"
+    ON document_chunks FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own document chunks"
+    ON document_chunks FOR DELETE
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE document_chunks IS 'Embedded passages of firm documents for retrieval-augmented AI chat';
+
+-- =====================================================
+-- FUNCTION: match_document_chunks
+-- Description: Nearest passages to a query embedding for one user, optionally within one case
+-- =====================================================
+CREATE OR REPLACE FUNCTION match_document_chunks(
+    query_embedding extensions.vector(1536),
+    p_user_id UUID,
+    p_case_id UUID DEFAULT NULL,
+    match_count INTEGER DEFAULT 5,
+    min_similarity DOUBLE PRECISION DEFAULT 0.2
+)
+RETURNS TABLE (
+    id UUID,
+    case_id UUID,
+    source_type TEXT,
+    source_id UUID,
+    source_title TEXT,
+    source_path TEXT,
+    source_url TEXT,
+    page_number INTEGER,
+    chunk_index INTEGER,
+    content TEXT,
+    similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+    SELECT
+        c.id,
+        c.case_id,
+        c.source_type,
+        c.source_id,
+        c.source_title,
+        c.source_path,
+        c.source_url,
+        c.page_number,
+        c.chunk_index,
+        c.content,
+        1 - (c.embedding <=> query_embedding) AS similarity
+    FROM document_chunks c
+    WHERE c.user_id = p_user_id
+      AND (p_case_id IS NULL OR c.case_id = p_case_id)
+      AND 1 - (c.embedding <=> query_embedding) >= min_similarity
+    ORDER BY c.embedding <=> query_embedding
+    LIMIT match_count;
+$$;
+
+-- End of migration
@@ -0,0 +1,138 @@
+-- DocketChief Assistant Memory Migration
+-- Created: 2025-01-27
+-- Description: Server copy of what the AI agent and assistant learn about each user, synced from
+-- the browser's offline cache one item at a time with last-writer-wins conflict resolution
+
+-- =====================================================
+-- TABLE: user_memory_settings
+-- Description: One row of memory settings (tone, consents, thresholds) per user
+-- =====================================================
+CREATE TABLE IF NOT EXISTS user_memory_settings (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- Memory schema version of the client that last wrote the row
+    schema_version INTEGER NOT NULL DEFAULT 1,
+    -- When the settings were changed on the device, which decides conflicts
+    updated_at TIMESTAMPTZ NOT NULL,
+    -- When the server accepted the change, which clients pull from
+    synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE user_memory_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for user_memory_settings
+CREATE POLICY "Users can view their own memory settings"
+    ON user_memory_settings FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own memory settings"
+    ON user_memory_settings FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own memory settings"
+    ON user_memory_settings FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own memory settings"
+    ON user_memory_settings FOR DELETE
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE user_memory_settings IS 'Per-user settings for the learning AI agent and assistant';
+
+-- =====================================================
+-- TABLE: user_memory_items
+-- Description: Individually learned items (preferences, defaults, corrections, tasks, redactions)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS user_memory_items (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- Derived from the item's kind and natural key, so the same learning converges across devices
+    item_key TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    value JSONB NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL,
+    -- Tombstone: deleted items are kept so the deletion reaches the user's other devices
+    deleted_at TIMESTAMPTZ,
+    synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    PRIMARY KEY (user_id, item_key),
+
+    -- Constraints
+    CONSTRAINT valid_memory_item_kind CHECK (kind IN ('preference', 'default', 'correction', 'task', 'redaction'))
+);
+
+-- Create indexes for user_memory_items
+CREATE INDEX idx_user_memory_items_synced ON user_memory_items(user_id, synced_at);
+
+-- Enable RLS
+ALTER TABLE user_memory_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for user_memory_items
+CREATE POLICY "Users can view their own memory items"
+    ON user_memory_items FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own memory items"
+    ON user_memory_items FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own memory items"
+    ON user_memory_items FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own memory items"
+    ON user_memory_items FOR DELETE
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE user_memory_items IS 'Items the AI agent and assistant learned about a user, with tombstones for deletions';
+
+-- =====================================================
+-- FUNCTION: merge_user_memory
+-- Description: Apply a device's pending changes, keeping whichever side changed each item last.
+-- On equal timestamps a deletion wins, so a forgotten item never comes back.
+-- =====================================================
+CREATE OR REPLACE FUNCTION merge_user_memory(
+    p_items JSONB DEFAULT '[]'::jsonb,
+    p_settings JSONB DEFAULT NULL,
+    p_settings_updated_at TIMESTAMPTZ DEFAULT NULL,
+    p_schema_version INTEGER DEFAULT 1
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    INSERT INTO user_memory_items (user_id, item_key, kind, value, updated_at, deleted_at, synced_at)
+    SELECT auth.uid(), i.item_key, i.kind, i.value, i.updated_at, i.deleted_at, NOW()
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb))
+        AS i(item_key TEXT, kind TEXT, value JSONB, updated_at TIMESTAMPTZ, deleted_at TIMESTAMPTZ)
+    ON CONFLICT (user_id, item_key) DO UPDATE SET
+        kind = EXCLUDED.kind,
+        value = EXCLUDED.value,
+        updated_at = EXCLUDED.updated_at,
+        deleted_at = EXCLUDED.deleted_at,
+        synced_at = NOW()
+    WHERE EXCLUDED.updated_at > user_memory_items.updated_at
+       OR (EXCLUDED.updated_at = user_memory_items.updated_at
+           AND EXCLUDED.deleted_at IS NOT NULL
+           AND user_memory_items.deleted_at IS NULL);
+
+    IF p_settings IS NOT NULL AND p_settings_updated_at IS NOT NULL THEN
+        INSERT INTO user_memory_settings (user_id, settings, schema_version, updated_at, synced_at)
+        VALUES (auth.uid(), p_settings, p_schema_version, p_settings_updated_at, NOW())
+        ON CONFLICT (user_id) DO UPDATE SET
+            settings = EXCLUDED.settings,
+            schema_version = EXCLUDED.schema_version,
+            updated_at = EXCLUDED.updated_at,
+            synced_at = NOW()
+        WHERE EXCLUDED.updated_at > user_memory_settings.updated_at;
+    END IF;
+END;
+$$;
+
+-- End of migration
@@ -0,0 +1,46 @@
+-- DocketChief AI Redaction Log Migration
+-- Created: 2025-01-28
+-- Description: Audit trail of the client information redacted from each request before it was
+-- sent to an AI provider. Only the kinds, counts and placeholders are kept, never the values.
+
+-- =====================================================
+-- TABLE: ai_redaction_log
+-- Description: One row per AI request sent to a third-party provider
+-- =====================================================
+CREATE TABLE IF NOT EXISTS ai_redaction_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    case_id UUID REFERENCES cases(id) ON DELETE SET NULL,
+    feature TEXT,
+    provider TEXT NOT NULL,
+    -- Values redacted per kind, e.g. {"ssn": 1, "client_name": 3}; empty when nothing was found
+    counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- Placeholders sent in place of the values, e.g. {"[SSN_1]", "[CLIENT_1]"}
+    placeholders TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for ai_redaction_log
+CREATE INDEX idx_ai_redaction_log_user_created ON ai_redaction_log(user_id, created_at DESC);
+CREATE INDEX idx_ai_redaction_log_case_id ON ai_redaction_log(case_id);
+
+-- Enable RLS
+ALTER TABLE ai_redaction_log ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for ai_redaction_log
+-- The log is append-only: rows are never updated or deleted by users
+CREATE POLICY "Users can view their own redaction log"
+    ON ai_redaction_log FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own redaction log"
+    ON ai_redaction_log FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all redaction logs"
+    ON ai_redaction_log FOR SELECT
+    USING (auth.jwt()->>'role' = 'admin');
+
+COMMENT ON TABLE ai_redaction_log IS 'What was redacted from each AI request before it left for a third-party provider';
+
+-- End of migration
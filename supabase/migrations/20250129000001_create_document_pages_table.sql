@@ -0,0 +1,56 @@
+-- DocketChief Document Pages Migration
+-- Created: 2025-01-29
+-- Description: Text extracted in the browser from uploaded documents, one row per page, so
+-- analysis and search can cite the page a passage came from. Scanned pages are read with OCR.
+
+-- =====================================================
+-- TABLE: document_pages
+-- Description: Extracted text of one page of a document or upload
+-- The source's extracted_text holds the same pages joined with form feeds
+-- =====================================================
+CREATE TABLE IF NOT EXISTS document_pages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    source_type TEXT NOT NULL,
+    source_id UUID NOT NULL,
+    page_number INTEGER NOT NULL,
+    content TEXT NOT NULL DEFAULT '',
+    extraction_method TEXT NOT NULL,
+    -- Mean Tesseract word confidence (0-100) for OCR pages
+    ocr_confidence INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_document_page_source_type CHECK (source_type IN ('document', 'uploaded_document', 'document_analysis')),
+    CONSTRAINT valid_document_page_method CHECK (extraction_method IN ('text_layer', 'docx', 'ocr', 'plain_text')),
+    CONSTRAINT positive_document_page_number CHECK (page_number > 0),
+    CONSTRAINT valid_document_page_confidence CHECK (ocr_confidence IS NULL OR ocr_confidence BETWEEN 0 AND 100),
+    CONSTRAINT unique_document_page UNIQUE (source_type, source_id, page_number)
+);
+
+-- Create indexes for document_pages
+CREATE INDEX idx_document_pages_user_id ON document_pages(user_id);
+CREATE INDEX idx_document_pages_source ON document_pages(source_type, source_id, page_number);
+CREATE INDEX idx_document_pages_content_search ON document_pages
+    USING gin (to_tsvector('english', content));
+
+-- Enable RLS
+ALTER TABLE document_pages ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for document_pages
+-- Pages are replaced wholesale when a document is extracted again, so there is no UPDATE policy
+CREATE POLICY "Users can view their own document pages"
+    ON document_pages FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own document pages"
+    ON document_pages FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own document pages"
+    ON document_pages FOR DELETE
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE document_pages IS 'Per-page extracted text of firm documents, including OCR of scanned pages';
+
+-- End of migration
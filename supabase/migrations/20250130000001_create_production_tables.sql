@@ -0,0 +1,83 @@
+-- DocketChief Discovery Production Migration
+-- Created: 2025-01-30
+-- Description: Discovery production volumes and the Bates range each produced document received,
+-- so later productions continue the numbering and a document's production history can be traced
+
+-- =====================================================
+-- TABLE: productions
+-- Description: One production volume, e.g. PROD001 stamped ACME000001 - ACME000245
+-- =====================================================
+CREATE TABLE IF NOT EXISTS productions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    case_id UUID REFERENCES cases(id) ON DELETE SET NULL,
+    volume TEXT NOT NULL,
+    bates_prefix TEXT NOT NULL DEFAULT '',
+    begin_number INTEGER NOT NULL,
+    end_number INTEGER NOT NULL,
+    confidentiality TEXT NOT NULL DEFAULT 'none',
+    document_count INTEGER NOT NULL,
+    page_count INTEGER NOT NULL,
+    produced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_production_confidentiality CHECK (confidentiality IN ('none', 'confidential', 'highly_confidential')),
+    CONSTRAINT valid_production_range CHECK (begin_number > 0 AND end_number >= begin_number),
+    CONSTRAINT valid_production_counts CHECK (document_count > 0 AND page_count = end_number - begin_number + 1)
+);
+
+-- Create indexes for productions
+CREATE INDEX idx_productions_user_prefix ON productions(user_id, bates_prefix, end_number DESC);
+CREATE INDEX idx_productions_case_id ON productions(case_id);
+
+-- =====================================================
+-- TABLE: production_documents
+-- Description: The Bates range of each document in a production
+-- =====================================================
+CREATE TABLE IF NOT EXISTS production_documents (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    production_id UUID NOT NULL REFERENCES productions(id) ON DELETE CASCADE,
+    document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+    begin_bates TEXT NOT NULL,
+    end_bates TEXT NOT NULL,
+    page_count INTEGER NOT NULL,
+    produced_native BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT positive_production_document_pages CHECK (page_count > 0)
+);
+
+-- Create indexes for production_documents
+CREATE INDEX idx_production_documents_production_id ON production_documents(production_id);
+CREATE INDEX idx_production_documents_document_id ON production_documents(document_id);
+CREATE INDEX idx_production_documents_begin_bates ON production_documents(begin_bates);
+
+-- Enable RLS
+ALTER TABLE productions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE production_documents ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for productions
+-- A production is a record of what was served; it is never edited afterwards
+CREATE POLICY "Users can view their own productions"
+    ON productions FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own productions"
+    ON productions FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+-- RLS Policies for production_documents
+CREATE POLICY "Users can view documents of their productions"
+    ON production_documents FOR SELECT
+    USING (EXISTS (SELECT 1 FROM productions p WHERE p.id = production_id AND p.user_id = auth.uid()));
+
+CREATE POLICY "Users can insert documents into their productions"
+    ON production_documents FOR INSERT
+    WITH CHECK (EXISTS (SELECT 1 FROM productions p WHERE p.id = production_id AND p.user_id = auth.uid()));
+
+COMMENT ON TABLE productions IS 'Discovery production volumes and their Bates ranges';
+COMMENT ON TABLE production_documents IS 'Bates range each document received in a production';
+
+-- End of migration
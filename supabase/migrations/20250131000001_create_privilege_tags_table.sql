@@ -0,0 +1,59 @@
+-- DocketChief Privilege Log Migration
+-- Created: 2025-01-31
+-- Description: Privilege tags on documents withheld or redacted from production, carrying the
+-- details a privilege log must give for each of them
+
+-- =====================================================
+-- TABLE: privilege_tags
+-- Description: One tag per document; the privilege log is built from these rows
+-- =====================================================
+CREATE TABLE IF NOT EXISTS privilege_tags (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    case_id UUID REFERENCES cases(id) ON DELETE SET NULL,
+    treatment TEXT NOT NULL,
+    privilege_basis TEXT NOT NULL,
+    document_date DATE,
+    author TEXT NOT NULL DEFAULT '',
+    recipients TEXT[] NOT NULL DEFAULT '{}',
+    document_type TEXT NOT NULL DEFAULT '',
+    description TEXT NOT NULL DEFAULT '',
+    description_source TEXT NOT NULL DEFAULT 'manual',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT unique_privilege_tag_document UNIQUE (document_id),
+    CONSTRAINT valid_privilege_treatment CHECK (treatment IN ('withheld', 'redacted')),
+    CONSTRAINT valid_privilege_basis CHECK (privilege_basis IN ('attorney_client', 'work_product', 'attorney_client_work_product')),
+    CONSTRAINT valid_privilege_description_source CHECK (description_source IN ('ai', 'manual'))
+);
+
+-- Create indexes for privilege_tags
+CREATE INDEX idx_privilege_tags_user_id ON privilege_tags(user_id);
+CREATE INDEX idx_privilege_tags_case_id ON privilege_tags(case_id);
+
+-- Enable RLS
+ALTER TABLE privilege_tags ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for privilege_tags
+CREATE POLICY "Users can view their own privilege tags"
+    ON privilege_tags FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own privilege tags"
+    ON privilege_tags FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own privilege tags"
+    ON privilege_tags FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own privilege tags"
+    ON privilege_tags FOR DELETE
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE privilege_tags IS 'Documents withheld or redacted for privilege, with their privilege log details';
+
+-- End of migration
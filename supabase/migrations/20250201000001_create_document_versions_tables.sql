@@ -0,0 +1,127 @@
+-- DocketChief Version History Migration
+-- Created: 2025-02-01
+-- Description: Saved motion drafts, an immutable version for every save of a draft or template,
+-- and named milestones such as "As filed" or "Sent to client" on those versions
+
+-- =====================================================
+-- TABLE: drafts
+-- Description: Motions and other filings written in the document editor
+-- =====================================================
+CREATE TABLE IF NOT EXISTS drafts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    case_id UUID REFERENCES cases(id) ON DELETE SET NULL,
+    motion_type TEXT NOT NULL,
+    title TEXT NOT NULL,
+    case_title TEXT NOT NULL DEFAULT '',
+    case_number TEXT NOT NULL DEFAULT '',
+    content TEXT NOT NULL DEFAULT '',
+    current_version INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for drafts
+CREATE INDEX idx_drafts_user_motion ON drafts(user_id, motion_type, updated_at DESC);
+CREATE INDEX idx_drafts_case_id ON drafts(case_id);
+
+-- =====================================================
+-- TABLE: document_versions
+-- Description: Snapshot of a draft or template at each save. Templates live in the browser,
+-- so subject_id is the template's own id rather than a foreign key
+-- =====================================================
+CREATE TABLE IF NOT EXISTS document_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    subject_type TEXT NOT NULL,
+    subject_id TEXT NOT NULL,
+    version_number INTEGER NOT NULL,
+    title TEXT NOT NULL DEFAULT '',
+    content TEXT NOT NULL DEFAULT '',
+    metadata JSONB NOT NULL DEFAULT '{}',
+    author_name TEXT NOT NULL DEFAULT '',
+    restored_from INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_version_subject_type CHECK (subject_type IN ('draft', 'template')),
+    CONSTRAINT positive_version_number CHECK (version_number > 0),
+    CONSTRAINT valid_restored_from CHECK (restored_from IS NULL OR (restored_from > 0 AND restored_from < version_number)),
+    CONSTRAINT unique_version_number UNIQUE (user_id, subject_type, subject_id, version_number)
+);
+
+-- Create indexes for document_versions
+CREATE INDEX idx_document_versions_subject ON document_versions(user_id, subject_type, subject_id, version_number DESC);
+
+-- =====================================================
+-- TABLE: version_milestones
+-- Description: Names given to a version, kept apart so the version itself never changes
+-- =====================================================
+CREATE TABLE IF NOT EXISTS version_milestones (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    version_id UUID NOT NULL REFERENCES document_versions(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT non_empty_milestone_name CHECK (LENGTH(TRIM(name)) > 0),
+    CONSTRAINT unique_version_milestone UNIQUE (version_id, name)
+);
+
+-- Create indexes for version_milestones
+CREATE INDEX idx_version_milestones_version_id ON version_milestones(version_id);
+
+-- Enable RLS
+ALTER TABLE drafts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE version_milestones ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for drafts
+CREATE POLICY "Users can view their own drafts"
+    ON drafts FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own drafts"
+    ON drafts FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own drafts"
+    ON drafts FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own drafts"
+    ON drafts FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- RLS Policies for document_versions
+-- Versions are immutable: there are no update or delete policies
+CREATE POLICY "Users can view their own versions"
+    ON document_versions FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own versions"
+    ON document_versions FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+-- RLS Policies for version_milestones
+CREATE POLICY "Users can view their own milestones"
+    ON version_milestones FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert milestones on their own versions"
+    ON version_milestones FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM document_versions v WHERE v.id = version_id AND v.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can delete their own milestones"
+    ON version_milestones FOR DELETE
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE drafts IS 'Motion drafts written in the document editor';
+COMMENT ON TABLE document_versions IS 'Immutable snapshot of a draft or template at each save';
+COMMENT ON TABLE version_milestones IS 'Named milestones on document versions, e.g. As filed';
+
+-- End of migration
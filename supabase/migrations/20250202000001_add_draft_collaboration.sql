@@ -0,0 +1,146 @@
+-- DocketChief Collaborative Drafts Migration
+-- Created: 2025-02-02
+-- Description: Share a draft with a collaboration for live editing. Members see the draft and
+-- its history; members other than viewers can edit it. Edits are relayed over a private
+-- Realtime broadcast channel per draft, "draft:<id>", whose access follows the same roles.
+
+-- =====================================================
+-- TABLE: drafts
+-- Description: The collaboration a draft is shared with, and the merged edit state so the
+-- next person to open it continues from the same document
+-- =====================================================
+ALTER TABLE drafts
+    ADD COLUMN IF NOT EXISTS collaboration_id UUID REFERENCES collaborations(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS crdt_state TEXT;
+
+CREATE INDEX idx_drafts_collaboration_id ON drafts(collaboration_id);
+
+-- =====================================================
+-- FUNCTION: draft_collaboration_role
+-- Description: The signed-in user's role in a draft: 'owner' for their own drafts, otherwise
+-- their role in the collaboration the draft is shared with, or NULL without access.
+-- SECURITY DEFINER so policies can call it without recursing into the drafts policies
+-- =====================================================
+CREATE OR REPLACE FUNCTION draft_collaboration_role(p_draft_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN d.user_id = auth.uid() THEN 'owner'
+        ELSE (
+            SELECT m.role FROM collaboration_members m
+            WHERE m.collaboration_id = d.collaboration_id AND m.user_id = auth.uid()
+            LIMIT 1
+        )
+    END
+    FROM drafts d
+    WHERE d.id = p_draft_id
+$$;
+
+-- Draft ids arrive as text from version subjects and channel topics
+CREATE OR REPLACE FUNCTION draft_collaboration_role(p_draft_id TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN p_draft_id ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        THEN draft_collaboration_role(p_draft_id::UUID)
+    END
+$$;
+
+-- RLS Policies for drafts
+CREATE POLICY "Collaborators can view shared drafts"
+    ON drafts FOR SELECT
+    USING (draft_collaboration_role(id) IS NOT NULL);
+
+CREATE POLICY "Collaborators other than viewers can update shared drafts"
+    ON drafts FOR UPDATE
+    USING (draft_collaboration_role(id) NOT IN ('owner', 'viewer'))
+    WITH CHECK (draft_collaboration_role(id) NOT IN ('owner', 'viewer'));
+
+-- =====================================================
+-- TABLE: document_versions
+-- Description: A shared draft has one history that every collaborator's saves add to, so
+-- draft version numbers are unique per draft rather than per user
+-- =====================================================
+ALTER TABLE document_versions DROP CONSTRAINT IF EXISTS unique_version_number;
+
+CREATE UNIQUE INDEX unique_draft_version_number
+    ON document_versions(subject_id, version_number)
+    WHERE subject_type = 'draft';
+
+CREATE UNIQUE INDEX unique_template_version_number
+    ON document_versions(user_id, subject_id, version_number)
+    WHERE subject_type = 'template';
+
+CREATE INDEX idx_document_versions_draft ON document_versions(subject_id, version_number DESC)
+    WHERE subject_type = 'draft';
+
+CREATE POLICY "Collaborators can view shared draft versions"
+    ON document_versions FOR SELECT
+    USING (subject_type = 'draft' AND draft_collaboration_role(subject_id) IS NOT NULL);
+
+CREATE POLICY "Collaborators other than viewers can add shared draft versions"
+    ON document_versions FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND subject_type = 'draft'
+        AND draft_collaboration_role(subject_id) NOT IN ('owner', 'viewer')
+    );
+
+-- RLS Policies for version_milestones
+CREATE POLICY "Collaborators can view milestones on shared draft versions"
+    ON version_milestones FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM document_versions v
+            WHERE v.id = version_id AND v.subject_type = 'draft' AND draft_collaboration_role(v.subject_id) IS NOT NULL
+        )
+    );
+
+CREATE POLICY "Collaborators other than viewers can mark shared draft versions"
+    ON version_milestones FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM document_versions v
+            WHERE v.id = version_id AND v.subject_type = 'draft' AND draft_collaboration_role(v.subject_id) NOT IN ('owner', 'viewer')
+        )
+    );
+
+-- =====================================================
+-- REALTIME: draft channels
+-- Description: Everyone with access may listen, announce themselves (sync-step1) and share
+-- presence; only those who can edit may send document changes (update, sync-step2)
+-- =====================================================
+CREATE POLICY "Collaborators can receive draft channel messages"
+    ON realtime.messages FOR SELECT
+    TO authenticated
+    USING (
+        realtime.topic() LIKE 'draft:%'
+        AND draft_collaboration_role(SUBSTRING(realtime.topic() FROM 7)) IS NOT NULL
+    );
+
+CREATE POLICY "Collaborators can send draft channel messages their role allows"
+    ON realtime.messages FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        realtime.topic() LIKE 'draft:%'
+        AND extension = 'broadcast'
+        AND (
+            (event IN ('sync-step1', 'awareness') AND draft_collaboration_role(SUBSTRING(realtime.topic() FROM 7)) IS NOT NULL)
+            OR (event IN ('update', 'sync-step2') AND draft_collaboration_role(SUBSTRING(realtime.topic() FROM 7)) <> 'viewer')
+        )
+    );
+
+COMMENT ON COLUMN drafts.collaboration_id IS 'Collaboration the draft is shared with for live editing';
+COMMENT ON COLUMN drafts.crdt_state IS 'Base64 Yjs document state as of the last save';
+COMMENT ON FUNCTION draft_collaboration_role(UUID) IS 'The signed-in user''s role in a draft, or NULL without access';
+
+-- End of migration
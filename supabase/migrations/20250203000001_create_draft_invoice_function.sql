@@ -0,0 +1,86 @@
+-- DocketChief Draft Invoice Function Migration
+-- Created: 2025-02-03
+-- Description: Create a draft invoice and claim its line items in one transaction, so two
+-- drafts built at the same time can never bill the same time entry or expense twice
+
+-- =====================================================
+-- FUNCTION: create_draft_invoice
+-- Description: Insert the invoice and attach the given lines to it. Only lines that are still
+-- unbilled are claimed; if any was taken by another invoice in the meantime, nothing is saved.
+-- Totals are worked out from the claimed lines themselves, so a write-down made after the
+-- client read them is still counted.
+-- =====================================================
+CREATE OR REPLACE FUNCTION create_draft_invoice(
+    p_invoice JSONB,
+    p_line_ids UUID[]
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_invoice_id UUID;
+    v_claimed INTEGER;
+    v_subtotal NUMERIC(12, 2);
+    v_adjustments NUMERIC(12, 2);
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF COALESCE(array_length(p_line_ids, 1), 0) = 0 THEN
+        RAISE EXCEPTION 'There are no unbilled charges for this client in the selected period';
+    END IF;
+
+    INSERT INTO invoices (
+        user_id, client_id, case_id, invoice_number, status, invoice_date, due_date,
+        period_start, period_end, description, client_reference, client_matter_reference
+    )
+    VALUES (
+        auth.uid(),
+        (p_invoice->>'client_id')::UUID,
+        (p_invoice->>'case_id')::UUID,
+        p_invoice->>'invoice_number',
+        'draft',
+        COALESCE((p_invoice->>'invoice_date')::DATE, CURRENT_DATE),
+        (p_invoice->>'due_date')::DATE,
+        (p_invoice->>'period_start')::DATE,
+        (p_invoice->>'period_end')::DATE,
+        p_invoice->>'description',
+        p_invoice->>'client_reference',
+        p_invoice->>'client_matter_reference'
+    )
+    RETURNING id INTO v_invoice_id;
+
+    -- The invoice_id guard is what stops a concurrent draft from taking the same lines
+    UPDATE billing_line_items
+    SET invoice_id = v_invoice_id
+    WHERE id = ANY(p_line_ids)
+      AND user_id = auth.uid()
+      AND client_id = (p_invoice->>'client_id')::UUID
+      AND invoice_id IS NULL;
+    GET DIAGNOSTICS v_claimed = ROW_COUNT;
+
+    IF v_claimed <> array_length(p_line_ids, 1) THEN
+        RAISE EXCEPTION 'Some of these charges were billed on another invoice; refresh and try again'
+            USING ERRCODE = 'serialization_failure';
+    END IF;
+
+    SELECT COALESCE(SUM(ROUND(quantity * rate, 2)), 0), COALESCE(SUM(adjustment_amount), 0)
+    INTO v_subtotal, v_adjustments
+    FROM billing_line_items
+    WHERE invoice_id = v_invoice_id;
+
+    UPDATE invoices
+    SET subtotal = v_subtotal,
+        adjustment_total = v_adjustments,
+        amount = v_subtotal + v_adjustments
+    WHERE id = v_invoice_id;
+
+    RETURN v_invoice_id;
+END;
+$$;
+
+COMMENT ON FUNCTION create_draft_invoice(JSONB, UUID[]) IS 'Creates a draft invoice and claims its unbilled line items atomically';
+
+-- End of migration
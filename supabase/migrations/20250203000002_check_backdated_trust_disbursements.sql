@@ -0,0 +1,51 @@
+-- DocketChief Backdated Trust Disbursements Migration
+-- Created: 2025-02-03
+-- Description: Check a disbursement against the client's balance on its transaction date and
+-- on every later date, not only today's balance. A payment dated into the past comes out of
+-- each balance after it, so it must not take any of them below zero.
+
+-- Block any disbursement that would take a client's trust balance below zero on its date or later.
+-- The advisory lock serializes concurrent disbursements for the same client ledger.
+CREATE OR REPLACE FUNCTION prevent_trust_overdraft()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    client_balance NUMERIC(12, 2);
+BEGIN
+    IF NEW.transaction_type <> 'disbursement' THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.account_id::text || ':' || NEW.client_id::text));
+
+    -- Lowest end-of-day balance from the disbursement's date onward
+    SELECT MIN((
+        SELECT COALESCE(SUM(CASE WHEN t.transaction_type = 'deposit' THEN t.amount ELSE -t.amount END), 0)
+          FROM trust_transactions t
+         WHERE t.account_id = NEW.account_id
+           AND t.client_id = NEW.client_id
+           AND t.transaction_date <= checkpoints.checkpoint_date
+    ))
+      INTO client_balance
+      FROM (
+        SELECT NEW.transaction_date AS checkpoint_date
+        UNION
+        SELECT transaction_date
+          FROM trust_transactions
+         WHERE account_id = NEW.account_id
+           AND client_id = NEW.client_id
+           AND transaction_date > NEW.transaction_date
+      ) checkpoints;
+
+    IF client_balance < NEW.amount THEN
+        RAISE EXCEPTION 'Disbursement of % exceeds the client trust balance of % on or after %', NEW.amount, client_balance, NEW.transaction_date
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- End of migration
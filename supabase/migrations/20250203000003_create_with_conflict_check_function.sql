@@ -0,0 +1,70 @@
+-- DocketChief Conflict Clearance Function Migration
+-- Created: 2025-02-03
+-- Description: Open a client or case and write its conflict check audit record in one
+-- transaction, so nothing is ever opened without a clearance or waiver on file
+
+-- =====================================================
+-- FUNCTION: create_with_conflict_check
+-- Description: Insert the new client or case and the conflict check that cleared it. If either
+-- write fails, neither is kept.
+-- =====================================================
+CREATE OR REPLACE FUNCTION create_with_conflict_check(
+    p_subject_type TEXT,
+    p_subject JSONB,
+    p_check JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_subject_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF p_subject_type = 'client' THEN
+        INSERT INTO clients (attorney_id, first_name, last_name, email, phone)
+        SELECT auth.uid(), c.first_name, c.last_name, c.email, c.phone
+        FROM jsonb_populate_record(NULL::clients, p_subject) c
+        RETURNING id INTO v_subject_id;
+    ELSIF p_subject_type = 'case' THEN
+        INSERT INTO cases (
+            attorney_id, created_by, client_id, title, description, case_type, status, priority,
+            opposing_party, opposing_counsel, start_date
+        )
+        SELECT auth.uid(), auth.uid(), c.client_id, c.title, c.description, c.case_type,
+            COALESCE(c.status, 'active'), COALESCE(c.priority, 'medium'),
+            c.opposing_party, c.opposing_counsel, c.start_date
+        FROM jsonb_populate_record(NULL::cases, p_subject) c
+        RETURNING id INTO v_subject_id;
+    ELSE
+        RAISE EXCEPTION 'Unknown conflict check subject type: %', p_subject_type;
+    END IF;
+
+    INSERT INTO conflict_checks (
+        user_id, subject_type, subject_id, searched_names, hits, hit_count, decision, notes,
+        decided_by, decided_at
+    )
+    VALUES (
+        auth.uid(),
+        p_subject_type,
+        v_subject_id,
+        COALESCE(ARRAY(SELECT jsonb_array_elements_text(p_check->'searched_names')), '{}'),
+        COALESCE(p_check->'hits', '[]'),
+        COALESCE(jsonb_array_length(p_check->'hits'), 0),
+        p_check->>'decision',
+        NULLIF(TRIM(p_check->>'notes'), ''),
+        auth.uid(),
+        NOW()
+    );
+
+    RETURN v_subject_id;
+END;
+$$;
+
+COMMENT ON FUNCTION create_with_conflict_check(TEXT, JSONB, JSONB) IS 'Creates a client or case together with its conflict check audit record';
+
+-- End of migration
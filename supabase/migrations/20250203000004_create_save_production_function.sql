@@ -0,0 +1,88 @@
+-- DocketChief Production Save Function Migration
+-- Created: 2025-02-03
+-- Description: Keep Bates ranges under one prefix from overlapping, and record a production
+-- together with its documents in one transaction so a failed save leaves nothing behind
+
+-- The exclusion constraint compares user_id and bates_prefix with = inside a GiST index
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- =====================================================
+-- CONSTRAINT: productions_no_overlapping_bates
+-- Description: Two productions under the same prefix can never share a Bates number
+-- =====================================================
+ALTER TABLE productions
+    ADD CONSTRAINT productions_no_overlapping_bates EXCLUDE USING gist (
+        user_id WITH =,
+        bates_prefix WITH =,
+        int4range(begin_number, end_number, '[]') WITH &&
+    );
+
+-- =====================================================
+-- FUNCTION: save_production
+-- Description: Insert the production and the Bates range of each document in it. If the
+-- range overlaps an earlier production under the prefix, or either write fails, nothing is kept.
+-- =====================================================
+CREATE OR REPLACE FUNCTION save_production(
+    p_production JSONB,
+    p_documents JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_production_id UUID;
+    v_case_id UUID := (p_production->>'case_id')::UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF COALESCE(jsonb_array_length(p_documents), 0) = 0 THEN
+        RAISE EXCEPTION 'A production must contain at least one document';
+    END IF;
+    -- Foreign keys skip row level security, so check the case is one the caller can see
+    IF v_case_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM cases WHERE id = v_case_id) THEN
+        RAISE EXCEPTION 'Case not found';
+    END IF;
+
+    BEGIN
+        INSERT INTO productions (
+            user_id, case_id, volume, bates_prefix, begin_number, end_number, confidentiality,
+            document_count, page_count, produced_at
+        )
+        VALUES (
+            auth.uid(),
+            v_case_id,
+            p_production->>'volume',
+            TRIM(COALESCE(p_production->>'bates_prefix', '')),
+            (p_production->>'begin_number')::INTEGER,
+            (p_production->>'end_number')::INTEGER,
+            COALESCE(p_production->>'confidentiality', 'none'),
+            jsonb_array_length(p_documents),
+            (p_production->>'page_count')::INTEGER,
+            COALESCE((p_production->>'produced_at')::TIMESTAMPTZ, NOW())
+        )
+        RETURNING id INTO v_production_id;
+    EXCEPTION
+        WHEN exclusion_violation THEN
+            RAISE EXCEPTION 'Bates numbers % to % overlap an earlier production under this prefix',
+                p_production->>'begin_number', p_production->>'end_number'
+                USING ERRCODE = 'exclusion_violation';
+    END;
+
+    INSERT INTO production_documents (
+        production_id, document_id, begin_bates, end_bates, page_count, produced_native
+    )
+    SELECT v_production_id, d.document_id, d.begin_bates, d.end_bates, d.page_count,
+        COALESCE(d.produced_native, FALSE)
+    FROM jsonb_populate_recordset(NULL::production_documents, p_documents) d;
+
+    RETURN v_production_id;
+END;
+$$;
+
+COMMENT ON CONSTRAINT productions_no_overlapping_bates ON productions IS 'Bates ranges under one prefix never overlap';
+COMMENT ON FUNCTION save_production(JSONB, JSONB) IS 'Records a production and its documents atomically, rejecting overlapping Bates ranges';
+
+-- End of migration
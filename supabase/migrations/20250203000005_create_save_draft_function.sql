@@ -0,0 +1,104 @@
+-- DocketChief Draft Save Function Migration
+-- Created: 2025-02-03
+-- Description: Save a draft and record the save as its next version in one transaction, so a
+-- draft never changes without the version that records the change
+
+-- =====================================================
+-- FUNCTION: save_draft
+-- Description: Insert the draft (p_draft_id NULL) or update it, add the next version of it and
+-- point current_version at that version. Updating the draft locks its row, so two saves of a
+-- shared draft take version numbers one after the other. case_id, collaboration_id and
+-- crdt_state are only changed when p_draft has the key. Returns the draft and the version.
+-- =====================================================
+CREATE OR REPLACE FUNCTION save_draft(
+    p_draft_id UUID,
+    p_draft JSONB,
+    p_version JSONB,
+    p_restored_from INTEGER DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_draft drafts;
+    v_version document_versions;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF p_draft_id IS NULL THEN
+        INSERT INTO drafts (
+            user_id, case_id, collaboration_id, crdt_state, motion_type, title, case_title,
+            case_number, content
+        )
+        VALUES (
+            auth.uid(),
+            (p_draft->>'case_id')::UUID,
+            (p_draft->>'collaboration_id')::UUID,
+            p_draft->>'crdt_state',
+            p_draft->>'motion_type',
+            p_draft->>'title',
+            COALESCE(p_draft->>'case_title', ''),
+            COALESCE(p_draft->>'case_number', ''),
+            COALESCE(p_draft->>'content', '')
+        )
+        RETURNING * INTO v_draft;
+    ELSE
+        -- A collaborator saving a shared draft leaves it with its owner
+        UPDATE drafts
+        SET motion_type = p_draft->>'motion_type',
+            title = p_draft->>'title',
+            case_title = COALESCE(p_draft->>'case_title', ''),
+            case_number = COALESCE(p_draft->>'case_number', ''),
+            content = COALESCE(p_draft->>'content', ''),
+            case_id = CASE WHEN p_draft ? 'case_id' THEN (p_draft->>'case_id')::UUID ELSE case_id END,
+            collaboration_id = CASE
+                WHEN p_draft ? 'collaboration_id' THEN (p_draft->>'collaboration_id')::UUID
+                ELSE collaboration_id
+            END,
+            crdt_state = CASE WHEN p_draft ? 'crdt_state' THEN p_draft->>'crdt_state' ELSE crdt_state END,
+            updated_at = NOW()
+        WHERE id = p_draft_id
+        RETURNING * INTO v_draft;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Draft not found, or you cannot edit it';
+        END IF;
+    END IF;
+
+    INSERT INTO document_versions (
+        user_id, subject_type, subject_id, version_number, title, content, metadata, author_name,
+        restored_from
+    )
+    VALUES (
+        auth.uid(),
+        'draft',
+        v_draft.id::TEXT,
+        (
+            SELECT COALESCE(MAX(version_number), 0) + 1
+            FROM document_versions
+            WHERE subject_type = 'draft' AND subject_id = v_draft.id::TEXT
+        ),
+        v_draft.title,
+        v_draft.content,
+        COALESCE(p_version->'metadata', '{}'),
+        COALESCE(p_version->>'author_name', ''),
+        p_restored_from
+    )
+    RETURNING * INTO v_version;
+
+    UPDATE drafts
+    SET current_version = v_version.version_number
+    WHERE id = v_draft.id
+    RETURNING * INTO v_draft;
+
+    RETURN jsonb_build_object('draft', to_jsonb(v_draft), 'version', to_jsonb(v_version));
+END;
+$$;
+
+COMMENT ON FUNCTION save_draft(UUID, JSONB, JSONB, INTEGER) IS 'Saves a draft and records the save as its next version atomically';
+
+-- End of migration
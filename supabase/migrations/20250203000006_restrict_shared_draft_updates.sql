@@ -0,0 +1,75 @@
+-- DocketChief Shared Draft Permissions Migration
+-- Created: 2025-02-03
+-- Description: Let a collaboration's owner edit the drafts shared with it, and stop anyone but
+-- a draft's owner from changing who owns it or who it is shared with
+
+-- =====================================================
+-- FUNCTION: protect_draft_sharing
+-- Description: The update policies decide whether a draft may be saved at all; this keeps
+-- collaborators from reassigning it. A draft's owner never changes, and only the owner may
+-- share or unshare it. Updates without a signed-in user (service role) are left alone.
+-- =====================================================
+CREATE OR REPLACE FUNCTION protect_draft_sharing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+        RAISE EXCEPTION 'A draft''s owner cannot be changed'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF NEW.collaboration_id IS DISTINCT FROM OLD.collaboration_id AND OLD.user_id <> auth.uid() THEN
+        RAISE EXCEPTION 'Only the draft''s owner can change who it is shared with'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_draft_sharing ON drafts;
+CREATE TRIGGER protect_draft_sharing
+    BEFORE UPDATE ON drafts
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_draft_sharing();
+
+-- =====================================================
+-- POLICIES: shared drafts
+-- Description: A collaboration's owner is a member with role 'owner', which the earlier
+-- NOT IN ('owner', 'viewer') checks shut out. Everyone but viewers may edit; the draft's own
+-- owner is named explicitly rather than through the role.
+-- =====================================================
+DROP POLICY IF EXISTS "Collaborators other than viewers can update shared drafts" ON drafts;
+CREATE POLICY "Collaborators other than viewers can update shared drafts"
+    ON drafts FOR UPDATE
+    USING (user_id = auth.uid() OR draft_collaboration_role(id) <> 'viewer')
+    WITH CHECK (user_id = auth.uid() OR draft_collaboration_role(id) <> 'viewer');
+
+DROP POLICY IF EXISTS "Collaborators other than viewers can add shared draft versions" ON document_versions;
+CREATE POLICY "Collaborators other than viewers can add shared draft versions"
+    ON document_versions FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND subject_type = 'draft'
+        AND draft_collaboration_role(subject_id) <> 'viewer'
+    );
+
+DROP POLICY IF EXISTS "Collaborators other than viewers can mark shared draft versions" ON version_milestones;
+CREATE POLICY "Collaborators other than viewers can mark shared draft versions"
+    ON version_milestones FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM document_versions v
+            WHERE v.id = version_id AND v.subject_type = 'draft' AND draft_collaboration_role(v.subject_id) <> 'viewer'
+        )
+    );
+
+COMMENT ON FUNCTION protect_draft_sharing() IS 'Keeps a draft''s owner fixed and its sharing under the owner''s control';
+
+-- End of migration